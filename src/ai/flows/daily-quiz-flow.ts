@@ -6,17 +6,19 @@
  * their selected subject, difficulty level, and number of questions.
  */
 
-import { ai } from '@/ai/genkit';
+import { ai, runPrompt } from '@/ai/genkit';
 import { z } from 'zod';
-import fs from 'fs';
-import path from 'path';
+import { getPrimaryOutputLanguage, isBilingualOutput } from '@/lib/bilingual';
+import { experimentFramework, ExperimentMetrics } from '@/ai/newspaper-analysis/ab-testing/experiment-framework';
+import { validateMCQ } from '@/ai/newspaper-analysis/validators/upsc-validator';
+import { formatSyllabusOutline } from '@/lib/syllabus';
 
-// Cache syllabus content
+// Cache syllabus content, rendered from the canonical syllabus
 const syllabusCache: { prelims?: string; mains?: string } = {};
 function getSyllabusContent() {
   if (!syllabusCache.prelims || !syllabusCache.mains) {
-    syllabusCache.prelims = fs.readFileSync(path.join(process.cwd(), 'src/ai/knowledge/upsc-prelims-syllabus.md'), 'utf-8');
-    syllabusCache.mains = fs.readFileSync(path.join(process.cwd(), 'src/ai/knowledge/upsc-mains-syllabus.md'), 'utf-8');
+    syllabusCache.prelims = formatSyllabusOutline('prelims');
+    syllabusCache.mains = formatSyllabusOutline('mains');
   }
   return syllabusCache;
 }
@@ -29,6 +31,7 @@ const DailyQuizInputSchema = z.object({
   difficulty: z.enum(['easy', 'medium', 'hard', 'adaptive']),
   examType: z.string().default('UPSC Civil Services'),
   outputLanguage: z.string().default('English'),
+  userId: z.string().optional().describe("The user the quiz is for, so its AI usage is logged against them."),
 });
 export type DailyQuizInput = z.infer<typeof DailyQuizInputSchema>;
 
@@ -36,18 +39,22 @@ export type DailyQuizInput = z.infer<typeof DailyQuizInputSchema>;
 const SyllabusInputSchema = DailyQuizInputSchema.extend({
   prelimsSyllabus: z.string(),
   mainsSyllabus: z.string(),
+  bilingual: z.boolean(),
 });
 
 // Schemas for structured question generation
 const OptionSchema = z.object({
   text: z.string(),
+  textHi: z.string().optional(),
   correct: z.boolean(),
 });
 
 const MCQSchema = z.object({
   question: z.string(),
+  questionHi: z.string().optional(),
   subject: z.string(),
   explanation: z.string(),
+  explanationHi: z.string().optional(),
   difficulty: z.number().min(1).max(10),
   options: z.array(OptionSchema),
   category: z.string().optional(),
@@ -71,7 +78,6 @@ export type DailyQuizOutput = z.infer<typeof DailyQuizOutputSchema>;
 const quizGeneratorAgent = ai.definePrompt({
   name: 'quizGeneratorAgent',
   description: 'Generates custom quiz questions for UPSC exam preparation',
-  model: 'gemini-1.5-pro',
   tools: [],
   // @ts-expect-error - Adding properties that may not be in current type definitions but required for runtime
   inputSchema: SyllabusInputSchema,
@@ -101,6 +107,15 @@ You are an expert UPSC quiz generator specialized in creating high-quality, exam
    - Hard difficulty maps to 8-10 range
    - Adaptive provides a mix across all ranges
 6. Questions should be varied in format: direct questions, statement-based questions, and assertion-reasoning questions.
+7. Write all questions, options and explanations in {{{outputLanguage}}}.
+
+{{#if bilingual}}
+**BILINGUAL OUTPUT (HINDI + ENGLISH):**
+The UPSC paper is printed in both Hindi and English, so every question must be produced in both languages in this response:
+- Keep 'question', 'explanation' and each option's 'text' in English.
+- Put a faithful Hindi (Devanagari) rendering in 'questionHi', 'explanationHi' and each option's 'textHi'.
+- The Hindi must match the English exactly in meaning, statement numbering and option order; use the standard Hindi terms from the official UPSC Hindi paper, keeping proper nouns and acronyms recognisable.
+{{/if}}
 
 **SPECIALIZED QUESTION FORMATS:**
 - For direct questions, use standard format with a single question and 4 options.
@@ -125,13 +140,13 @@ You are an expert UPSC quiz generator specialized in creating high-quality, exam
 const quizVerificationAgent = ai.definePrompt({
   name: 'quizVerificationAgent',
   description: 'Verifies and improves quiz questions for accuracy and quality',
-  model: 'gemini-1.5-pro',
   tools: [],
   // @ts-expect-error - Adding properties that may not be in current type definitions but required for runtime
   inputSchema: z.object({
     mcqs: z.array(MCQSchema),
     subject: z.string(),
     difficulty: z.enum(['easy', 'medium', 'hard', 'adaptive']),
+    bilingual: z.boolean(),
   }),
   outputSchema: z.object({
     mcqs: z.array(MCQSchema),
@@ -160,6 +175,9 @@ You are an expert UPSC educator responsible for reviewing and enhancing quiz que
 - Are explanations comprehensive enough to serve as learning material?
 - Are all options plausible but only one is definitively correct?
 - Is language clear and free of grammatical errors?
+{{#if bilingual}}
+- Do the Hindi fields ('questionHi', 'explanationHi', each option's 'textHi') say exactly what the English says? Carry every English correction over to the Hindi, and fill in any missing Hindi field.
+{{/if}}
 
 **OUTPUT:** Return the improved questions with any necessary corrections. If a question meets all quality criteria, leave it unchanged. Make your improvements subtle but meaningful, ensuring the questions remain challenging but fair.
 
@@ -175,53 +193,84 @@ You are an expert UPSC educator responsible for reviewing and enhancing quiz que
  */
 export async function generateDailyQuiz(input: DailyQuizInput): Promise<DailyQuizOutput> {
   const startTime = Date.now();
+  const sessionId = `quiz_${startTime}_${Math.random().toString(36).substr(2, 9)}`;
   
   // Get syllabus content for context
   const { prelims, mains } = getSyllabusContent();
   
   // Track token usage and cost
-  const totalInputTokens = 0;
-  const totalOutputTokens = 0;
   const USD_TO_INR_RATE = 83;
-  const INPUT_PRICE_PER_1K_TOKENS_USD = 0.00035;
-  const OUTPUT_PRICE_PER_1K_TOKENS_USD = 0.00105;
-  
+
+  // A running quiz-generation experiment can override the generator's sampling settings
+  const experiment = input.userId
+    ? await experimentFramework.resolveDomainVariant('quiz-generation', input.userId)
+    : null;
+  const recordExperimentResult = (metrics: ExperimentMetrics) => {
+    if (!experiment || !input.userId) return;
+    return experimentFramework.recordResult({
+      experimentId: experiment.experimentId,
+      variantId: experiment.variant.id,
+      userId: input.userId,
+      sessionId,
+      metrics,
+      timestamp: new Date()
+    }).catch(error => console.error('Failed to record experiment result:', error));
+  };
+
   // STEP 1: Generate initial quiz questions
-  const generatorResponse = await quizGeneratorAgent({
-    ...input,
-    prelimsSyllabus: prelims || '',
-    mainsSyllabus: mains || '',
-  });
-  
-  // Note: If you need token tracking, you'll need to implement a custom solution
-  // or check if the current API version provides usage information elsewhere
-  // For now, we'll leave token tracking as estimates or disabled
+  let generation;
+  try {
+    generation = await runPrompt({ task: 'quiz-generation', userId: input.userId }, quizGeneratorAgent, {
+      ...input,
+      outputLanguage: getPrimaryOutputLanguage(input.outputLanguage),
+      prelimsSyllabus: prelims || '',
+      mainsSyllabus: mains || '',
+      bilingual: isBilingualOutput(input.outputLanguage),
+    }, { config: experiment?.variant.modelConfig });
+  } catch (error) {
+    await recordExperimentResult({ processingTime: Date.now() - startTime, taskCompletion: false, tokenUsage: 0, cost: 0 });
+    throw error;
+  }
+  const generatorResponse = generation.result;
   
   const generatedQuestions = generatorResponse.output;
   
   if (!generatedQuestions || !generatedQuestions.mcqs || generatedQuestions.mcqs.length === 0) {
+    await recordExperimentResult({
+      processingTime: Date.now() - startTime,
+      taskCompletion: false,
+      tokenUsage: generation.usage.inputTokens + generation.usage.outputTokens,
+      cost: generation.costUsd * USD_TO_INR_RATE
+    });
     throw new Error("Failed to generate quiz questions");
   }
   
   // STEP 2: Verify and improve quiz questions
-  const verificationResponse = await quizVerificationAgent({
+  const verification = await runPrompt({ task: 'quiz-verification', userId: input.userId }, quizVerificationAgent, {
     mcqs: generatedQuestions.mcqs,
     subject: input.subject,
     difficulty: input.difficulty,
+    bilingual: isBilingualOutput(input.outputLanguage),
   });
-  
-  // Note: If you need token tracking, you'll need to implement a custom solution
-  // or check if the current API version provides usage information elsewhere
-  // For now, we'll leave token tracking as estimates or disabled
+  const verificationResponse = verification.result;
   
   const verifiedQuestions = verificationResponse.output || generatedQuestions;
   
   // STEP 3: Final processing and packaging
+  const totalInputTokens = generation.usage.inputTokens + verification.usage.inputTokens;
+  const totalOutputTokens = generation.usage.outputTokens + verification.usage.outputTokens;
   const totalTokens = totalInputTokens + totalOutputTokens;
-  const cost = ((totalInputTokens / 1000) * INPUT_PRICE_PER_1K_TOKENS_USD + 
-               (totalOutputTokens / 1000) * OUTPUT_PRICE_PER_1K_TOKENS_USD) * USD_TO_INR_RATE;
+  const cost = (generation.costUsd + verification.costUsd) * USD_TO_INR_RATE;
   
   const processingTime = Date.now() - startTime;
+
+  await recordExperimentResult({
+    qualityScore: verifiedQuestions.mcqs.reduce((sum: number, mcq: MCQ) => sum + validateMCQ(mcq).overallScore, 0) / verifiedQuestions.mcqs.length,
+    processingTime,
+    taskCompletion: true,
+    tokenUsage: totalTokens,
+    cost
+  });
   
   return {
     mcqs: verifiedQuestions.mcqs,
@@ -246,22 +295,17 @@ const _dailyQuizFlow = ai.defineFlow(
     const { prelims, mains } = getSyllabusContent();
     
     // Track token usage and cost
-    const totalInputTokens = 0;
-    const totalOutputTokens = 0;
     const USD_TO_INR_RATE = 83;
-    const INPUT_PRICE_PER_1K_TOKENS_USD = 0.00035;
-    const OUTPUT_PRICE_PER_1K_TOKENS_USD = 0.00105;
-    
+
     // STEP 1: Generate initial quiz questions
-    const generatorResponse = await quizGeneratorAgent({
+    const generation = await runPrompt({ task: 'quiz-generation', userId: input.userId }, quizGeneratorAgent, {
       ...input,
+      outputLanguage: getPrimaryOutputLanguage(input.outputLanguage),
       prelimsSyllabus: prelims || '',
       mainsSyllabus: mains || '',
+      bilingual: isBilingualOutput(input.outputLanguage),
     });
-    
-    // Note: If you need token tracking, you'll need to implement a custom solution
-  // or check if the current API version provides usage information elsewhere
-  // For now, we'll leave token tracking as estimates or disabled
+    const generatorResponse = generation.result;
     
     const generatedQuestions = generatorResponse.output;
     
@@ -270,22 +314,21 @@ const _dailyQuizFlow = ai.defineFlow(
     }
     
     // STEP 2: Verify and improve quiz questions
-    const verificationResponse = await quizVerificationAgent({
+    const verification = await runPrompt({ task: 'quiz-verification', userId: input.userId }, quizVerificationAgent, {
       mcqs: generatedQuestions.mcqs,
       subject: input.subject,
       difficulty: input.difficulty,
+      bilingual: isBilingualOutput(input.outputLanguage),
     });
-    
-    // Note: If you need token tracking, you'll need to implement a custom solution
-  // or check if the current API version provides usage information elsewhere
-  // For now, we'll leave token tracking as estimates or disabled
+    const verificationResponse = verification.result;
     
     const verifiedQuestions = verificationResponse.output || generatedQuestions;
     
     // STEP 3: Final processing and packaging
+    const totalInputTokens = generation.usage.inputTokens + verification.usage.inputTokens;
+    const totalOutputTokens = generation.usage.outputTokens + verification.usage.outputTokens;
     const totalTokens = totalInputTokens + totalOutputTokens;
-    const cost = ((totalInputTokens / 1000) * INPUT_PRICE_PER_1K_TOKENS_USD + 
-                 (totalOutputTokens / 1000) * OUTPUT_PRICE_PER_1K_TOKENS_USD) * USD_TO_INR_RATE;
+    const cost = (generation.costUsd + verification.costUsd) * USD_TO_INR_RATE;
     
     const processingTime = Date.now() - startTime;
     
@@ -1,24 +1,100 @@
 
 'use server';
 
-import { ai } from '@/ai/genkit';
+import { ai, runPrompt } from '@/ai/genkit';
 import { z } from 'zod';
+import {
+  BOARD_QUESTION_COUNT,
+  INTERVIEW_BOARD,
+  MAX_ANSWER_SCORE,
+  compileBoardReport,
+  getBoardMemberForTurn,
+  getDafContextForMember,
+  type AnswerEvaluation,
+  type BoardReport,
+} from '@/lib/interview-board';
+
+const DafProfileSchema = z.object({
+  name: z.string().optional(),
+  homeState: z.string(),
+  homeDistrict: z.string().optional(),
+  education: z.array(z.object({
+    degree: z.string(),
+    discipline: z.string(),
+    institution: z.string(),
+    year: z.number().optional(),
+  })),
+  hobbies: z.array(z.string()),
+  optionalSubject: z.string(),
+  servicePreferences: z.array(z.string()),
+  cadrePreferences: z.array(z.string()).optional(),
+  workExperience: z.array(z.object({
+    organisation: z.string(),
+    role: z.string(),
+    years: z.number(),
+  })).optional(),
+  achievements: z.array(z.string()).optional(),
+  languages: z.array(z.string()).optional(),
+});
+
+const AnswerEvaluationSchema = z.object({
+  turn: z.number(),
+  memberId: z.string(),
+  score: z.number().min(0).max(MAX_ANSWER_SCORE),
+  remarks: z.string().optional(),
+});
+
+const BoardMemberSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  role: z.enum(['chairman', 'member']),
+});
+
+const TranscriptSchema = z.array(z.object({
+    role: z.enum(['user', 'model']),
+    content: z.string(),
+    memberId: z.string().optional().describe("The board member who asked, for model turns in board mode."),
+}));
 
 const MockInterviewFlowInputSchema = z.object({
   interviewType: z.string(),
   difficulty: z.string(),
   roleProfile: z.string().optional(),
-  transcript: z.array(z.object({
-      role: z.enum(['user', 'model']),
-      content: z.string(),
-  })).optional().describe("The history of the conversation so far."),
+  mode: z.enum(['standard', 'daf_board']).default('standard').describe("'daf_board' runs a UPSC personality test with a board that questions the candidate on their DAF."),
+  dafProfile: DafProfileSchema.optional().describe("The candidate's Detailed Application Form. Required in board mode."),
+  currentAffairs: z.array(z.string()).optional().describe("Recent news items the board may weave into questions."),
+  evaluations: z.array(AnswerEvaluationSchema).optional().describe("Board marks for the answers so far, as returned by the previous turn."),
+  transcript: TranscriptSchema.optional().describe("The history of the conversation so far."),
   questionCount: z.number().default(0).describe("The number of questions already asked."),
+  userId: z.string().optional().describe("The candidate, so the interview's AI usage is logged against them."),
+});
+
+const MemberAssessmentSchema = z.object({
+  memberId: z.string(),
+  memberName: z.string(),
+  questionsAsked: z.number(),
+  averageScore: z.number(),
+  marks: z.number(),
+  remarks: z.array(z.string()),
+});
+
+const BoardReportSchema = z.object({
+  maxMarks: z.number(),
+  marks: z.number(),
+  percentage: z.number(),
+  grade: z.enum(['Outstanding', 'Very Good', 'Good', 'Average', 'Below Average']),
+  members: z.array(MemberAssessmentSchema),
+  strongestField: z.string().optional(),
+  weakestField: z.string().optional(),
 });
 
 const MockInterviewFlowOutputSchema = z.object({
   question: z.string().optional().nullable().describe("The next question to ask the user. Null if the interview is complete."),
   feedback: z.string().optional().nullable().describe("The final feedback for the user. Null if the interview is ongoing."),
   isComplete: z.boolean().describe("Whether the interview has concluded."),
+  askedBy: BoardMemberSchema.optional().describe("The board member asking the next question, in board mode."),
+  evaluations: z.array(AnswerEvaluationSchema).optional().describe("All board marks so far, to be passed back on the next turn."),
+  report: BoardReportSchema.optional().describe("The marks-out-of-275 report, once the board interview is complete."),
 });
 
 const interviewAgent = ai.definePrompt({
@@ -44,6 +120,132 @@ For the first question (when questionCount is 0), the response must look like th
 `,
 });
 
+const BoardQuestionInputSchema = z.object({
+  memberName: z.string(),
+  memberBackground: z.string(),
+  isChairman: z.boolean(),
+  isClosing: z.boolean(),
+  dafContext: z.string().describe("The DAF fields this member questions the candidate on, as JSON."),
+  currentAffairsAreas: z.array(z.string()),
+  currentAffairs: z.array(z.string()).optional(),
+  transcript: TranscriptSchema.optional(),
+});
+
+const boardQuestionAgent = ai.definePrompt({
+    name: 'boardQuestionAgent',
+    input: { schema: BoardQuestionInputSchema },
+    output: { schema: z.object({ question: z.string() }) },
+    prompt: `You are {{{memberName}}}, {{{memberBackground}}}, sitting on a UPSC Civil Services personality test board.
+{{#if isChairman}}You are the chairman of the board.{{/if}}
+
+The candidate's Detailed Application Form (the parts you are interested in): {{{dafContext}}}
+Current affairs areas you follow: {{#each currentAffairsAreas}}{{{this}}}; {{/each}}
+{{#if currentAffairs}}Recent news: {{#each currentAffairs}}
+- {{{this}}}{{/each}}{{/if}}
+Transcript so far: {{{json transcript}}}
+
+RULES:
+1. Ask exactly ONE question, in the courteous but probing manner of a real board.
+2. Ground the question in the DAF details above, ideally linking them to a current affairs development.
+3. Do not repeat a question already asked in the transcript. You may follow up on the candidate's previous answer if it relates to your area.
+4. {{#if isClosing}}This is the last question of the interview; make it a reflective question on the candidate's motivation for the civil services.{{else}}Keep it concise.{{/if}}
+5. Your entire response MUST be a valid JSON object that strictly adheres to the provided output schema.
+`,
+});
+
+const BoardEvaluationInputSchema = z.object({
+  memberName: z.string(),
+  memberBackground: z.string(),
+  question: z.string(),
+  answer: z.string(),
+});
+
+const boardAnswerEvaluator = ai.definePrompt({
+    name: 'boardAnswerEvaluator',
+    input: { schema: BoardEvaluationInputSchema },
+    output: { schema: z.object({ score: z.number().min(0).max(MAX_ANSWER_SCORE), remarks: z.string() }) },
+    prompt: `You are {{{memberName}}}, {{{memberBackground}}}, marking a candidate's answer in a UPSC personality test.
+
+Your question: {{{question}}}
+Candidate's answer: {{{answer}}}
+
+Mark the answer from 0 to ${MAX_ANSWER_SCORE} on the qualities the board looks for: mental alertness, clear and logical exposition, balance of judgement, variety and depth of interest, and intellectual and moral integrity. Knowledge alone should not earn a high mark.
+Add one sentence of remarks explaining the mark.
+Your entire response MUST be a valid JSON object that strictly adheres to the provided output schema.
+`,
+});
+
+type MockInterviewFlowInput = z.infer<typeof MockInterviewFlowInputSchema>;
+type MockInterviewFlowOutput = z.infer<typeof MockInterviewFlowOutputSchema>;
+
+function describeReport(report: BoardReport): string {
+  const members = report.members
+    .map(member => `${member.memberName}: ${Math.round(member.marks)}`)
+    .join(', ');
+  const fields = [
+    report.strongestField && `Strongest area: ${report.strongestField}.`,
+    report.weakestField && `Needs work: ${report.weakestField}.`,
+  ].filter(Boolean).join(' ');
+
+  return `The board has awarded ${report.marks} out of ${report.maxMarks} (${report.grade}). Member assessments - ${members}. ${fields}`.trim();
+}
+
+async function runBoardInterview(input: MockInterviewFlowInput): Promise<MockInterviewFlowOutput> {
+  if (!input.dafProfile) {
+    throw new Error("A DAF profile is required for the board interview mode.");
+  }
+
+  const transcript = input.transcript || [];
+  const evaluations: AnswerEvaluation[] = [...(input.evaluations || [])];
+  const lastAnswer = transcript[transcript.length - 1];
+  const lastQuestion = [...transcript].reverse().find(entry => entry.role === 'model');
+
+  // The member who asked the previous question marks the answer to it
+  if (input.questionCount > 0 && lastAnswer?.role === 'user' && lastQuestion) {
+    const turn = input.questionCount - 1;
+    const asker = getBoardMemberForTurn(turn);
+    if (!evaluations.some(evaluation => evaluation.turn === turn)) {
+      const { result: { output } } = await runPrompt({ task: 'interview-evaluation', userId: input.userId }, boardAnswerEvaluator, {
+        memberName: asker.name,
+        memberBackground: asker.background,
+        question: lastQuestion.content,
+        answer: lastAnswer.content,
+      });
+      if (!output) {
+        throw new Error("The AI agent failed to provide a valid response.");
+      }
+      evaluations.push({ turn, memberId: asker.id, score: output.score, remarks: output.remarks });
+    }
+  }
+
+  if (input.questionCount >= BOARD_QUESTION_COUNT) {
+    const report = compileBoardReport(evaluations, INTERVIEW_BOARD);
+    return { question: null, feedback: describeReport(report), isComplete: true, evaluations, report };
+  }
+
+  const member = getBoardMemberForTurn(input.questionCount);
+  const dafContext = JSON.stringify(getDafContextForMember(input.dafProfile, member));
+  const { result: { output } } = await runPrompt({ task: 'interview', userId: input.userId }, boardQuestionAgent, {
+    memberName: member.name,
+    memberBackground: member.background,
+    isChairman: member.role === 'chairman',
+    isClosing: input.questionCount === BOARD_QUESTION_COUNT - 1,
+    dafContext,
+    currentAffairsAreas: member.currentAffairsAreas,
+    currentAffairs: input.currentAffairs,
+    transcript,
+  });
+
+  return {
+    // Fallback question if AI fails to generate one
+    question: output?.question || `Tell us a little about ${input.dafProfile.homeState} and what you would change there as a civil servant.`,
+    feedback: null,
+    isComplete: false,
+    askedBy: { id: member.id, name: member.name, role: member.role },
+    evaluations,
+  };
+}
+
 export const mockInterviewFlow = ai.defineFlow(
   {
     name: 'mockInterviewFlow',
@@ -51,7 +253,11 @@ export const mockInterviewFlow = ai.defineFlow(
     outputSchema: MockInterviewFlowOutputSchema,
   },
   async (input) => {
-    const { output } = await interviewAgent(input);
+    if (input.mode === 'daf_board') {
+      return runBoardInterview(input);
+    }
+
+    const { result: { output } } = await runPrompt({ task: 'interview', userId: input.userId }, interviewAgent, input);
     if (!output) {
         throw new Error("The AI agent failed to provide a valid response.");
     }
@@ -11,6 +11,7 @@ import { ai } from '@/ai/genkit';
 import { z } from 'zod';
 import fs from 'fs';
 import path from 'path';
+import { getPrimaryOutputLanguage, isBilingualOutput } from '@/lib/bilingual';
 // Types for AI response handling
 interface TokenUsage {
   inputTokens?: number;
@@ -50,6 +51,7 @@ export type NewspaperAnalysisInput = z.infer<typeof NewspaperAnalysisInputSchema
 const SyllabusInputSchema = NewspaperAnalysisInputSchema.extend({
   prelimsSyllabus: z.string(),
   mainsSyllabus: z.string(),
+  bilingual: z.boolean().optional(),
 });
 
 const AnalysisWithTopicInputSchema = SyllabusInputSchema.extend({
@@ -59,13 +61,16 @@ const AnalysisWithTopicInputSchema = SyllabusInputSchema.extend({
 // Schemas for structured question generation
 const OptionSchema = z.object({
   text: z.string(),
+  textHi: z.string().optional(),
   correct: z.boolean().optional(),
 });
 
 const MCQSchema = z.object({
   question: z.string(),
+  questionHi: z.string().optional(),
   subject: z.string().optional(),
   explanation: z.string().optional(),
+  explanationHi: z.string().optional(),
   difficulty: z.number().min(1).max(10).optional(),
   options: z.array(OptionSchema),
 });
@@ -73,6 +78,7 @@ export type MCQ = z.infer<typeof MCQSchema>;
 
 const MainsQuestionSchema = z.object({
   question: z.string(),
+  questionHi: z.string().optional(),
   guidance: z.string().optional(),
   difficulty: z.number().min(1).max(10).optional(),
 });
@@ -136,6 +142,7 @@ export type NewspaperAnalysisChunk = z.infer<typeof NewspaperAnalysisChunkSchema
 const VerificationInputSchema = NewspaperAnalysisOutputSchema.extend({
     sourceText: z.string(),
     outputLanguage: z.string(),
+    bilingual: z.boolean().optional(),
     analysisFocus: z.string(),
     generatedAnalysisString: z.string(),
 });
@@ -197,6 +204,10 @@ const questionGeneratorAgent = ai.definePrompt({
   prompt: `You are an expert UPSC question setter with 15+ years of experience. Your task is to create high-quality, exam-standard questions from the provided article, focusing on the identified syllabus topic.
 
 CRITICAL: Your entire response MUST be in {{{outputLanguage}}}.
+{{#if bilingual}}
+
+**BILINGUAL QUESTIONS (HINDI + ENGLISH):** The UPSC paper is printed in both languages, so produce every question in both in this response. Keep 'question', 'explanation' and option 'text' in English, and put a faithful Hindi (Devanagari) rendering in 'questionHi', 'explanationHi' and each option's 'textHi'. Mains questions get a Hindi 'questionHi' as well; guidance stays in English. The Hindi must match the English in meaning, statement numbering and option order, using the standard terms of the official UPSC Hindi paper.
+{{/if}}
 
 **ARTICLE CONTEXT:**
 - Identified Syllabus Topic: '{{{identifiedSyllabusTopic}}}'
@@ -296,6 +307,9 @@ const verificationEditorAgent = ai.definePrompt({
 **4. KNOWLEDGE GRAPH VERIFICATION**: Ensure the extracted nodes and edges are factual and directly supported by the article text. The graph should be coherent and relationships logical. Node IDs must be valid identifiers.
 **5. METRICS**: Calculate and include 'questionsCount' and a 'qualityScore' (0-1).
 **6. TAGS**: Ensure the 'tags' array contains 2-3 relevant, high-level topics.
+{{#if bilingual}}
+**7. HINDI PARITY**: Every MCQ and Mains question must carry its Hindi version ('questionHi', 'explanationHi', option 'textHi'). Carry any English correction over to the Hindi and fill in missing Hindi fields.
+{{/if}}
 
 Return the perfected analysis as a valid JSON object.
 
@@ -327,10 +341,13 @@ const analyzeNewspaperArticleFlow = ai.defineFlow(
     // Load syllabus content inside the flow
     const { prelims: prelimsSyllabus, mains: mainsSyllabus } = getSyllabusContent();
 
+    // 'Bilingual' output keeps English in the main fields and adds the Hindi alongside
     const flowInputWithSyllabus: z.infer<typeof SyllabusInputSchema> = {
       ...input,
+      outputLanguage: getPrimaryOutputLanguage(input.outputLanguage),
       prelimsSyllabus: prelimsSyllabus as string,
       mainsSyllabus: mainsSyllabus as string,
+      bilingual: isBilingualOutput(input.outputLanguage),
     };
 
     let totalInputTokens = 0;
@@ -399,7 +416,8 @@ const analyzeNewspaperArticleFlow = ai.defineFlow(
         ...typedInitialAnalysis,
         sourceText: input.sourceText,
         generatedAnalysisString: JSON.stringify(typedInitialAnalysis),
-        outputLanguage: input.outputLanguage || 'English',
+        outputLanguage: flowInputWithSyllabus.outputLanguage,
+        bilingual: flowInputWithSyllabus.bilingual,
         analysisFocus: input.analysisFocus || 'Generate Questions',
     }
     const verificationAgentResponse = await verificationEditorAgent(verificationInput);
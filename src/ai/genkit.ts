@@ -1,6 +1,9 @@
-import {genkit} from 'genkit';
+import {genkit, z} from 'genkit';
+import type {ExecutablePrompt, GenerateOptions, Part} from 'genkit';
 import {googleAI} from '@genkit-ai/googleai';
 import {vertexAI} from '@genkit-ai/vertexai';
+import type {GenerateRequest, ModelCallOptions, ModelCallResult} from '@/lib/model-router';
+import {getModelRouter} from '@/lib/model-providers';
 
 export const ai = genkit({
   plugins: [
@@ -9,3 +12,76 @@ export const ai = genkit({
   ],
   model: 'googleai/gemini-1.5-flash',
 });
+
+type PromptOptions<O extends z.ZodTypeAny, C extends z.ZodTypeAny> = Omit<GenerateOptions<O, C>, 'model' | 'prompt' | 'system'>;
+
+function partsToText(content: string | Part | Array<string | Part> | undefined): string {
+  if (!content) return '';
+  return (Array.isArray(content) ? content : [content])
+    .map(part => (typeof part === 'string' ? part : part.text || ''))
+    .join('');
+}
+
+// Flattens a rendered Genkit prompt into the system/prompt text the router's provider adapters take
+function toProviderRequest(rendered: GenerateOptions): GenerateRequest {
+  const messages = rendered.messages || [];
+  const system = [
+    partsToText(rendered.system),
+    ...messages.filter(message => message.role === 'system').map(message => partsToText(message.content)),
+  ].filter(Boolean).join('\n\n');
+  const prompt = [
+    ...messages.filter(message => message.role !== 'system').map(message => partsToText(message.content)),
+    partsToText(rendered.prompt),
+  ].filter(Boolean).join('\n\n');
+  const jsonSchema = rendered.output?.jsonSchema;
+  const config = rendered.config as { temperature?: number; maxOutputTokens?: number } | undefined;
+
+  return {
+    system: system || undefined,
+    prompt: jsonSchema
+      ? `${prompt}\n\nRespond with a JSON object that matches this JSON schema:\n${JSON.stringify(jsonSchema)}`
+      : prompt,
+    temperature: config?.temperature,
+    maxTokens: config?.maxOutputTokens,
+    json: !!(jsonSchema || rendered.output?.schema),
+  };
+}
+
+// Throws when the reply does not fit the prompt's output schema, so the router fails over
+function parseProviderOutput<O extends z.ZodTypeAny>(text: string, schema?: O): z.infer<O> {
+  const json = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  if (!schema) return json;
+  const parsed = schema.safeParse(json);
+  if (!parsed.success) {
+    throw new Error(`Model output does not match the prompt's output schema: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+/**
+ * Runs a Genkit prompt on the model the router picks for `task`, failing over
+ * across providers and logging the call's token usage and cost against the
+ * user. Google models run through Genkit; the others are sent the rendered
+ * prompt and must answer with JSON that matches its output schema.
+ */
+export function runPrompt<I, O extends z.ZodTypeAny, C extends z.ZodTypeAny>(
+  options: ModelCallOptions,
+  prompt: ExecutablePrompt<I, O, C>,
+  input: I,
+  promptOptions: PromptOptions<O, C> = {}
+): Promise<ModelCallResult<{ output: z.infer<O> | null }>> {
+  const router = getModelRouter();
+  return router.run(options, async route => {
+    if (route.provider === 'google') {
+      const response = await prompt(input, { ...promptOptions, model: `googleai/${route.model}` });
+      return {
+        result: { output: response.output },
+        usage: { inputTokens: response.usage?.inputTokens || 0, outputTokens: response.usage?.outputTokens || 0 },
+      };
+    }
+
+    const rendered = await prompt.render(input, promptOptions);
+    const { text, usage } = await router.callProvider(route, toProviderRequest(rendered));
+    return { result: { output: parseProviderOutput(text, rendered.output?.schema) }, usage };
+  });
+}
@@ -8,6 +8,7 @@ import {
   BaseRequest,
   BaseResponse,
   ExecutionContext,
+  AgentMetadata,
   AgentCategory,
   AgentStatus,
   NewspaperAnalysisRequest,
@@ -49,53 +50,54 @@ const QuestionGenerationSchema = z.object({
   }))
 });
 
-export class NewspaperAnalysisAgent extends BaseAgent {
-  constructor(config: { openai: OpenAI; logger: Logger }) {
-    const metadata = {
-      id: 'newspaper_analysis_agent',
-      name: 'Newspaper Analysis Agent',
-      description: 'Analyzes newspaper articles for UPSC exam preparation',
-      version: '2.0.0',
-      category: AgentCategory.CONTENT_ANALYSIS,
-      capabilities: [
-        createCapability(
-          'newspaper_analysis',
-          'Analyze newspaper articles and generate UPSC-style questions',
-          NewspaperAnalysisRequestSchema,
-          NewspaperAnalysisResponseSchema,
-          0.95,
-          [
-            {
-              input: {
-                type: 'newspaper_analysis',
-                data: {
-                  sourceText: 'Sample article about government policy...',
-                  analysisType: 'comprehensive',
-                  examType: 'UPSC Civil Services'
-                }
-              },
-              output: {
-                success: true,
-                data: {
-                  summary: 'Article summary...',
-                  relevanceScore: 0.9,
-                  questions: []
-                }
-              }
+export const newspaperAnalysisAgentMetadata: AgentMetadata = {
+  id: 'newspaper_analysis_agent',
+  name: 'Newspaper Analysis Agent',
+  description: 'Analyzes newspaper articles for UPSC exam preparation',
+  version: '2.0.0',
+  category: AgentCategory.CONTENT_ANALYSIS,
+  capabilities: [
+    createCapability(
+      'newspaper_analysis',
+      'Analyze newspaper articles and generate UPSC-style questions',
+      NewspaperAnalysisRequestSchema,
+      NewspaperAnalysisResponseSchema,
+      0.95,
+      [
+        {
+          input: {
+            type: 'newspaper_analysis',
+            data: {
+              sourceText: 'Sample article about government policy...',
+              analysisType: 'comprehensive',
+              examType: 'UPSC Civil Services'
             }
-          ]
-        )
-      ],
-      resourceRequirements: {
-        maxTokens: 8000,
-        estimatedLatency: 15000,
-        memoryUsage: 512,
-        costPerRequest: 0.05
-      },
-      status: AgentStatus.ACTIVE
-    };
+          },
+          output: {
+            success: true,
+            data: {
+              summary: 'Article summary...',
+              relevanceScore: 0.9,
+              questions: []
+            }
+          }
+        }
+      ]
+    )
+  ],
+  resourceRequirements: {
+    maxTokens: 8000,
+    estimatedLatency: 15000,
+    memoryUsage: 512,
+    costPerRequest: 0.05
+  },
+  status: AgentStatus.ACTIVE
+};
 
-    super(metadata, config);
+export class NewspaperAnalysisAgent extends BaseAgent {
+  constructor(config: { openai: OpenAI; logger: Logger }) {
+    // Copied so status changes stay per instance
+    super({ ...newspaperAnalysisAgentMetadata }, config);
   }
 
   async execute(request: BaseRequest, context: ExecutionContext): Promise<BaseResponse> {
@@ -8,6 +8,7 @@ import {
   BaseRequest,
   BaseResponse,
   ExecutionContext,
+  AgentMetadata,
   AgentCategory,
   AgentStatus,
   QuizGenerationRequest,
@@ -44,59 +45,60 @@ const QuizResponseSchema = z.object({
   })
 });
 
-export class QuizGenerationAgent extends BaseAgent {
-  constructor(config: { openai: OpenAI; logger: Logger }) {
-    const metadata = {
-      id: 'quiz_generation_agent',
-      name: 'Quiz Generation Agent',
-      description: 'Generates quiz questions for various topics and difficulty levels',
-      version: '1.0.0',
-      category: AgentCategory.CONTENT_ANALYSIS,
-      capabilities: [
-        createCapability(
-          'quiz_generation',
-          'Generate quiz questions on specified topics',
-          QuizGenerationRequestSchema,
-          QuizResponseSchema,
-          0.9,
-          [
-            {
-              input: {
-                type: 'quiz_generation',
-                data: {
-                  topic: 'Indian Constitution',
-                  difficulty: 'medium',
-                  questionCount: 10,
-                  questionType: 'mcq'
-                }
-              },
-              output: {
-                success: true,
-                data: {
-                  questions: [],
-                  metadata: {
-                    totalQuestions: 10,
-                    estimatedTime: 600,
-                    difficultyDistribution: { easy: 2, medium: 6, hard: 2 },
-                    topics: ['Indian Constitution'],
-                    qualityScore: 0.85
-                  }
-                }
+export const quizGenerationAgentMetadata: AgentMetadata = {
+  id: 'quiz_generation_agent',
+  name: 'Quiz Generation Agent',
+  description: 'Generates quiz questions for various topics and difficulty levels',
+  version: '1.0.0',
+  category: AgentCategory.CONTENT_ANALYSIS,
+  capabilities: [
+    createCapability(
+      'quiz_generation',
+      'Generate quiz questions on specified topics',
+      QuizGenerationRequestSchema,
+      QuizResponseSchema,
+      0.9,
+      [
+        {
+          input: {
+            type: 'quiz_generation',
+            data: {
+              topic: 'Indian Constitution',
+              difficulty: 'medium',
+              questionCount: 10,
+              questionType: 'mcq'
+            }
+          },
+          output: {
+            success: true,
+            data: {
+              questions: [],
+              metadata: {
+                totalQuestions: 10,
+                estimatedTime: 600,
+                difficultyDistribution: { easy: 2, medium: 6, hard: 2 },
+                topics: ['Indian Constitution'],
+                qualityScore: 0.85
               }
             }
-          ]
-        )
-      ],
-      resourceRequirements: {
-        maxTokens: 6000,
-        estimatedLatency: 12000,
-        memoryUsage: 384,
-        costPerRequest: 0.03
-      },
-      status: AgentStatus.ACTIVE
-    };
+          }
+        }
+      ]
+    )
+  ],
+  resourceRequirements: {
+    maxTokens: 6000,
+    estimatedLatency: 12000,
+    memoryUsage: 384,
+    costPerRequest: 0.03
+  },
+  status: AgentStatus.ACTIVE
+};
 
-    super(metadata, config);
+export class QuizGenerationAgent extends BaseAgent {
+  constructor(config: { openai: OpenAI; logger: Logger }) {
+    // Copied so status changes stay per instance
+    super({ ...quizGenerationAgentMetadata }, config);
   }
 
   async execute(request: BaseRequest, context: ExecutionContext): Promise<BaseResponse> {
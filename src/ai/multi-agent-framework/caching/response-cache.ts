@@ -2,10 +2,10 @@
  * @fileOverview Intelligent response caching system for multi-agent framework
  */
 
-import { Redis } from 'ioredis';
 import crypto from 'crypto';
 import { BaseRequest, BaseResponse } from '../core/types';
 import { Logger } from '../core/logger';
+import { StorageBackend, getDefaultStorageBackend } from '../persistence/storage-backend';
 
 export interface CacheConfig {
   ttl: number;                    // Time to live in seconds
@@ -42,7 +42,7 @@ export interface CacheStats {
 }
 
 export class ResponseCache {
-  private redis: Redis;
+  private backend: StorageBackend;
   private logger: Logger;
   private stats = {
     hits: 0,
@@ -51,8 +51,8 @@ export class ResponseCache {
     invalidations: 0
   };
 
-  constructor(redisUrl?: string, logger?: Logger) {
-    this.redis = new Redis(redisUrl || process.env.REDIS_URL || 'redis://localhost:6379');
+  constructor(backend?: StorageBackend, logger?: Logger) {
+    this.backend = backend || getDefaultStorageBackend();
     this.logger = logger || console as any;
   }
 
@@ -65,7 +65,7 @@ export class ResponseCache {
   ): Promise<BaseResponse | null> {
     try {
       const cacheKey = this.generateCacheKey(request, config);
-      const cached = await this.redis.get(cacheKey);
+      const cached = await this.backend.get(cacheKey);
 
       if (!cached) {
         this.stats.misses++;
@@ -75,8 +75,9 @@ export class ResponseCache {
       const entry: CacheEntry = JSON.parse(cached);
       
       // Check if entry has expired
-      if (Date.now() - entry.timestamp > entry.ttl * 1000) {
-        await this.redis.del(cacheKey);
+      const remainingMs = entry.timestamp + entry.ttl * 1000 - Date.now();
+      if (remainingMs <= 0) {
+        await this.backend.delete([cacheKey]);
         this.stats.misses++;
         return null;
       }
@@ -85,8 +86,8 @@ export class ResponseCache {
       entry.hits++;
       this.stats.hits++;
       
-      // Update entry with new hit count (fire and forget)
-      this.redis.set(cacheKey, JSON.stringify(entry), 'EX', entry.ttl).catch(err => {
+      // Update entry with new hit count (fire and forget), keeping its original expiry
+      this.backend.set(cacheKey, JSON.stringify(entry), remainingMs / 1000).catch(err => {
         this.logger.error('Failed to update cache hit count', err);
       });
 
@@ -153,7 +154,7 @@ export class ResponseCache {
         });
       }
 
-      await this.redis.setex(cacheKey, config.ttl, serialized);
+      await this.backend.set(cacheKey, serialized, config.ttl);
       this.stats.writes++;
 
       this.logger.debug('Response cached', { 
@@ -179,9 +180,9 @@ export class ResponseCache {
       let totalDeleted = 0;
 
       for (const pattern of patterns) {
-        const keys = await this.redis.keys(pattern);
+        const keys = await this.backend.keys(pattern);
         if (keys.length > 0) {
-          const deleted = await this.redis.del(...keys);
+          const deleted = await this.backend.delete(keys);
           totalDeleted += deleted;
           this.stats.invalidations += deleted;
         }
@@ -219,12 +220,12 @@ export class ResponseCache {
    */
   async getStats(): Promise<CacheStats> {
     try {
-      const keys = await this.redis.keys('cache:*');
+      const keys = await this.backend.keys('cache:*');
       let totalSize = 0;
       const keyDetails = [];
 
       for (const key of keys) {
-        const data = await this.redis.get(key);
+        const data = await this.backend.get(key);
         if (data) {
           const entry: CacheEntry = JSON.parse(data);
           totalSize += entry.size;
@@ -274,20 +275,8 @@ export class ResponseCache {
    */
   async cleanup(): Promise<number> {
     try {
-      const keys = await this.redis.keys('cache:*');
-      let deletedCount = 0;
-      const now = Date.now();
-
-      for (const key of keys) {
-        const data = await this.redis.get(key);
-        if (data) {
-          const entry: CacheEntry = JSON.parse(data);
-          if (now - entry.timestamp > entry.ttl * 1000) {
-            await this.redis.del(key);
-            deletedCount++;
-          }
-        }
-      }
+      // Entries are stored with their TTL, so the backend knows which have expired
+      const deletedCount = await this.backend.purgeExpired();
 
       this.logger.info('Cache cleanup completed', { deletedKeys: deletedCount });
       return deletedCount;
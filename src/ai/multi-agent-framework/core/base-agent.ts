@@ -117,6 +117,13 @@ export abstract class BaseAgent {
     this.logger.info(`Agent ${this.metadata.id} status updated to ${status}`);
   }
 
+  /**
+   * Restore metrics carried over from a previous instance or a registry snapshot
+   */
+  restoreMetrics(metrics: AgentMetrics): void {
+    this.metrics = { ...metrics, agentId: this.metadata.id };
+  }
+
   /**
    * Process request with metrics tracking
    */
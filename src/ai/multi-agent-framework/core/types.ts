@@ -133,7 +133,8 @@ export enum TaskStatus {
   RUNNING = 'running', 
   COMPLETED = 'completed',
   FAILED = 'failed',
-  CANCELLED = 'cancelled'
+  CANCELLED = 'cancelled',
+  SKIPPED = 'skipped' // conditional branch not taken
 }
 
 export interface Workflow {
@@ -160,7 +161,8 @@ export enum WorkflowStatus {
   RUNNING = 'running',
   COMPLETED = 'completed', 
   FAILED = 'failed',
-  PAUSED = 'paused'
+  PAUSED = 'paused',
+  CANCELLED = 'cancelled'
 }
 
 // Monitoring and analytics
@@ -214,6 +216,10 @@ export interface FrameworkConfig {
     enableAuth: boolean;
     allowedOrigins: string[];
   };
+  discovery?: {
+    searchPaths: string[]; // directories scanned for agent modules on start
+    watch?: boolean; // hot-reload changed modules, defaults to on in development
+  };
 }
 
 export interface RetryPolicy {
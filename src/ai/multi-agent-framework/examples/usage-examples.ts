@@ -2,7 +2,8 @@
  * @fileOverview Usage examples for the Multi-Agent Framework
  */
 
-import { createMultiAgentFramework, NewspaperAnalysisRequest, QuizGenerationRequest } from '../index';
+import { createMultiAgentFramework, NewspaperAnalysisRequest, QuizGenerationRequest, WorkflowDefinition } from '../index';
+import type { NewspaperAnalysisResponse } from '../core/types';
 
 /**
  * Example 1: Basic Framework Setup and Newspaper Analysis
@@ -368,6 +369,110 @@ export async function exampleIntentClassification() {
   }
 }
 
+/**
+ * Example 6: Article to Questions and Notes Workflow
+ */
+export async function exampleArticleWorkflow() {
+  console.log('\n🔀 Multi-Agent Framework Example: Article Workflow');
+  console.log('='.repeat(60));
+
+  const framework = createMultiAgentFramework({
+    openai: {
+      apiKey: process.env.OPENAI_API_KEY || 'your-api-key-here',
+      model: 'gpt-4o-mini',
+      temperature: 0.3,
+      maxTokens: 4000
+    }
+  });
+
+  // Steps narrow the workflow input and earlier outputs to what the agents return
+  type Article = NewspaperAnalysisRequest['data'];
+  type Analysis = NonNullable<NewspaperAnalysisResponse['data']>;
+  type Quiz = { questions?: Record<string, unknown>[] };
+
+  // Relevance gates question generation; notes run alongside it and may fail without sinking the run
+  const articleWorkflow: WorkflowDefinition = {
+    id: 'article_to_questions',
+    name: 'Article to questions and notes',
+    steps: [
+      {
+        id: 'relevance',
+        agentId: 'newspaper_analysis_agent',
+        input: ({ input }) => ({ ...(input as Article), analysisType: 'summary' }),
+        retries: 1,
+        timeoutMs: 60000
+      },
+      {
+        id: 'questions',
+        agentId: 'quiz_generation_agent',
+        dependsOn: ['relevance'],
+        requestType: 'quiz_generation',
+        when: ({ outputs }) => (outputs.relevance as Analysis).relevanceScore >= 0.6,
+        input: ({ input, outputs }) => ({
+          topic: (outputs.relevance as Analysis).syllabusTopic || 'Current Affairs',
+          difficulty: 'medium',
+          questionCount: 3,
+          questionType: 'mcq',
+          syllabus: (input as Article).examType
+        }),
+        retries: 2,
+        timeoutMs: 90000
+      },
+      {
+        id: 'notes',
+        agentId: 'newspaper_analysis_agent',
+        dependsOn: ['relevance'],
+        input: ({ input }) => ({ ...(input as Article), analysisType: 'critical' }),
+        optional: true
+      }
+    ],
+    // Tag the generated questions with the subject areas found by the relevance step
+    output: ({ outputs }) => {
+      const relevance = outputs.relevance as Analysis;
+      return {
+        relevanceScore: relevance.relevanceScore,
+        questions: ((outputs.questions as Quiz | undefined)?.questions || []).map(question => ({
+          ...question,
+          tags: relevance.tags || []
+        })),
+        notes: (outputs.notes as Analysis | undefined)?.summary
+      };
+    }
+  };
+
+  try {
+    await framework.start();
+
+    const response = await framework.runWorkflow(articleWorkflow, {
+      id: 'demo_workflow_001',
+      userId: 'user_123',
+      timestamp: Date.now(),
+      type: 'newspaper_analysis',
+      data: {
+        sourceText: `The Reserve Bank of India kept the repo rate unchanged at 6.5% for the eighth consecutive meeting, citing persistent food inflation. The Monetary Policy Committee revised its GDP growth projection upward and retained its stance of withdrawal of accommodation, while signalling that liquidity management would remain nimble.`,
+        analysisType: 'comprehensive',
+        examType: 'UPSC Civil Services',
+        outputLanguage: 'English'
+      }
+    });
+
+    if (response.success) {
+      console.log('\n✅ Workflow completed');
+      response.metadata?.steps?.forEach((step: { id: string; status: string; error?: string }) => {
+        console.log(`- ${step.id}: ${step.status}${step.error ? ` (${step.error})` : ''}`);
+      });
+      console.log(`- Questions: ${response.data?.questions?.length || 0}`);
+    } else {
+      console.log('❌ Workflow failed:', response.error);
+    }
+
+  } catch (error) {
+    console.error('❌ Error:', error);
+  } finally {
+    await framework.shutdown();
+  }
+}
+
 /**
  * Run all examples
  */
@@ -389,6 +494,9 @@ export async function runAllExamples() {
     await new Promise(resolve => setTimeout(resolve, 2000));
 
     await exampleIntentClassification();
+    await new Promise(resolve => setTimeout(resolve, 2000));
+
+    await exampleArticleWorkflow();
 
     console.log('\n🎉 All examples completed successfully!');
     
@@ -407,6 +515,7 @@ if (require.main === module) {
     'monitoring': exampleFrameworkMonitoring,
     'health': exampleHealthMonitoring,
     'intent': exampleIntentClassification,
+    'workflow': exampleArticleWorkflow,
     'all': runAllExamples
   };
 
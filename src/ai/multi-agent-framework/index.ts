@@ -16,6 +16,7 @@ import {
 import { createLogger, Logger } from './core/logger';
 import { createAgentRegistry, AgentRegistry } from './orchestrator/agent-registry';
 import { OrchestratorAgent } from './orchestrator/orchestrator';
+import { WorkflowDefinition } from './orchestrator/workflow-engine';
 import { NewspaperAnalysisAgent } from './agents/newspaper-analysis-agent';
 import { QuizGenerationAgent } from './agents/quiz-generation-agent';
 
@@ -50,7 +51,9 @@ export class MultiAgentFramework {
     this.agentRegistry = createAgentRegistry({
       maxAgents: 20,
       healthCheckInterval: 60000, // 1 minute
-      enableAutoDiscovery: false,
+      enableAutoDiscovery: !!this.config.discovery?.searchPaths.length,
+      openai: this.openai,
+      watchForChanges: this.config.discovery?.watch,
       logger: this.logger
     });
 
@@ -80,6 +83,10 @@ export class MultiAgentFramework {
       // Register core agents
       await this.registerCoreAgents();
 
+      if (this.config.discovery?.searchPaths.length) {
+        await this.agentRegistry.autoDiscoverAgents(this.config.discovery.searchPaths);
+      }
+
       // Perform initial health check
       const healthResults = await this.agentRegistry.performHealthCheck();
       const healthyAgents = Array.from(healthResults.values()).filter(h => h).length;
@@ -182,6 +189,34 @@ export class MultiAgentFramework {
     }
   }
 
+  /**
+   * Run a declarative workflow directly, without intent classification
+   */
+  async runWorkflow(definitionOrId: WorkflowDefinition | string, request: AgentRequest): Promise<BaseResponse> {
+    if (!this.isInitialized) {
+      throw new Error('Framework not initialized. Call start() first.');
+    }
+
+    const enhancedRequest: BaseRequest = {
+      ...request,
+      id: request.id || `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: Date.now(),
+      metadata: {
+        ...request.metadata,
+        frameworkVersion: '1.0.0'
+      }
+    };
+
+    return this.orchestrator.runWorkflow(definitionOrId, enhancedRequest, {
+      requestId: enhancedRequest.id,
+      userId: enhancedRequest.userId,
+      sessionId: enhancedRequest.sessionId,
+      depth: 0,
+      sharedState: {},
+      constraints: this.createDefaultConstraints()
+    });
+  }
+
   /**
    * Create default execution constraints
    */
@@ -313,7 +348,8 @@ export function createMultiAgentFramework(config: Partial<FrameworkConfig> & {
       enableAuth: false,
       allowedOrigins: ['*'],
       ...config.security
-    }
+    },
+    discovery: config.discovery
   };
 
   return new MultiAgentFramework(defaultConfig);
@@ -337,7 +373,9 @@ export {
 export { BaseAgent } from './core/base-agent';
 export { Logger } from './core/logger';
 export { AgentRegistry } from './orchestrator/agent-registry';
+export type { RegistrySnapshot } from './orchestrator/agent-registry';
 export { OrchestratorAgent } from './orchestrator/orchestrator';
+export type { WorkflowDefinition, WorkflowStepDefinition, WorkflowStepContext } from './orchestrator/workflow-engine';
 export { NewspaperAnalysisAgent } from './agents/newspaper-analysis-agent';
 export { QuizGenerationAgent } from './agents/quiz-generation-agent';
 
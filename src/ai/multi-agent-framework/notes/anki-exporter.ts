@@ -0,0 +1,387 @@
+/**
+ * @fileOverview Builds Anki .apkg packages from smart notes
+ *
+ * An .apkg is a zip holding a `collection.anki2` SQLite database (schema 11)
+ * and a `media` manifest. Every note becomes one Basic-style card in a deck
+ * per syllabus paper, with scheduling seeded from the note's revisionData so
+ * that spaced repetition continues where the app left off.
+ */
+
+import initSqlJs, { Database, SqlJsStatic } from 'sql.js';
+import JSZip from 'jszip';
+import crypto from 'crypto';
+import { syllabusMapper, UPSC_SYLLABUS_TAXONOMY } from '../syllabus/upsc-syllabus-taxonomy';
+import type { SmartNote } from './smart-notes-system';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROOT_DECK = 'UPSC';
+const UNMAPPED_DECK = 'Unmapped';
+const MODEL_NAME = 'UPSC Smart Note';
+const MODEL_FIELDS = ['Front', 'Back', 'Key Points', 'Syllabus'];
+
+// Anki card type/queue values for the states we export
+const CARD_NEW = 0;
+const CARD_REVIEW = 2;
+
+const SCHEMA = `
+CREATE TABLE col (
+  id integer primary key, crt integer not null, mod integer not null, scm integer not null,
+  ver integer not null, dty integer not null, usn integer not null, ls integer not null,
+  conf text not null, models text not null, decks text not null, dconf text not null, tags text not null
+);
+CREATE TABLE notes (
+  id integer primary key, guid text not null, mid integer not null, mod integer not null,
+  usn integer not null, tags text not null, flds text not null, sfld integer not null,
+  csum integer not null, flags integer not null, data text not null
+);
+CREATE TABLE cards (
+  id integer primary key, nid integer not null, did integer not null, ord integer not null,
+  mod integer not null, usn integer not null, type integer not null, queue integer not null,
+  due integer not null, ivl integer not null, factor integer not null, reps integer not null,
+  lapses integer not null, left integer not null, odue integer not null, odid integer not null,
+  flags integer not null, data text not null
+);
+CREATE TABLE revlog (
+  id integer primary key, cid integer not null, usn integer not null, ease integer not null,
+  ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null,
+  type integer not null
+);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+CREATE INDEX ix_notes_usn on notes (usn);
+CREATE INDEX ix_cards_usn on cards (usn);
+CREATE INDEX ix_revlog_usn on revlog (usn);
+CREATE INDEX ix_cards_nid on cards (nid);
+CREATE INDEX ix_cards_sched on cards (did, queue, due);
+CREATE INDEX ix_revlog_cid on revlog (cid);
+CREATE INDEX ix_notes_csum on notes (csum);
+`;
+
+const CARD_CSS = `.card {
+  font-family: Arial, sans-serif;
+  font-size: 18px;
+  text-align: left;
+  color: #1f2937;
+  background-color: #ffffff;
+}
+.front { font-size: 22px; font-weight: bold; text-align: center; }
+.syllabus { margin-top: 12px; font-size: 13px; color: #6b7280; }`;
+
+export interface AnkiExportOptions {
+  now?: Date;
+}
+
+let sqlJsPromise: Promise<SqlJsStatic> | null = null;
+
+function loadSqlJs(): Promise<SqlJsStatic> {
+  if (!sqlJsPromise) {
+    sqlJsPromise = initSqlJs();
+  }
+  return sqlJsPromise;
+}
+
+/**
+ * Build an .apkg archive containing every note as a card
+ */
+export async function buildAnkiPackage(
+  notes: SmartNote[],
+  options: AnkiExportOptions = {}
+): Promise<Buffer> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.run(SCHEMA);
+    writeCollection(db, notes, options.now || new Date());
+
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+
+    return await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Resolve the deck a note belongs to from its first mappable syllabus tag
+ */
+export function getDeckNameForNote(note: SmartNote): string {
+  for (const tag of note.tags.syllabusTags) {
+    const paper = getPaperName(tag);
+    if (paper) {
+      return `${ROOT_DECK}::${paper}`;
+    }
+  }
+  return `${ROOT_DECK}::${UNMAPPED_DECK}`;
+}
+
+function getPaperName(topicId: string): string | null {
+  const path = syllabusMapper.getTopicPath(topicId);
+  if (path.length > 0 && path[0].level === 'paper') {
+    return path[0].name;
+  }
+
+  // Tags such as 'gs2_polity' are not always taxonomy nodes, but their prefix is the paper
+  const prefixNode = UPSC_SYLLABUS_TAXONOMY.nodes[topicId.split('_')[0]];
+  return prefixNode?.level === 'paper' ? prefixNode.name : null;
+}
+
+function writeCollection(db: Database, notes: SmartNote[], now: Date): void {
+  const nowMs = now.getTime();
+  const nowSeconds = Math.floor(nowMs / 1000);
+
+  // Anki counts review due dates in days from the collection creation time, so
+  // start the collection on the earliest due day to keep every offset positive
+  const today = startOfDay(nowMs);
+  const earliestDue = notes.reduce(
+    (earliest, note) => Math.min(earliest, startOfDay(note.revisionData.nextReview.getTime())),
+    today
+  );
+  const crt = Math.floor(earliestDue / 1000);
+
+  const modelId = nowMs;
+  const deckIds = new Map<string, number>();
+  const deckFor = (name: string): number => {
+    let id = deckIds.get(name);
+    if (id === undefined) {
+      id = nowMs + deckIds.size + 1;
+      deckIds.set(name, id);
+    }
+    return id;
+  };
+  deckFor(ROOT_DECK);
+
+  const insertNote = db.prepare(
+    'INSERT INTO notes (id, guid, mid, mod, usn, tags, flds, sfld, csum, flags, data) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+  );
+  const insertCard = db.prepare(
+    'INSERT INTO cards (id, nid, did, ord, mod, usn, type, queue, due, ivl, factor, reps, lapses, left, odue, odid, flags, data) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)'
+  );
+
+  try {
+    let newPosition = 0;
+    notes.forEach((note, index) => {
+      const noteId = nowMs + index;
+      const deckId = deckFor(getDeckNameForNote(note));
+      const fields = buildFields(note);
+
+      insertNote.run([
+        noteId,
+        buildGuid(note),
+        modelId,
+        nowSeconds,
+        -1,
+        formatTags(note),
+        fields.join('\x1f'),
+        fields[0],
+        checksum(fields[0]),
+        0,
+        ''
+      ]);
+
+      const schedule = note.metadata.reviewCount > 0
+        ? {
+          type: CARD_REVIEW,
+          due: Math.max(0, Math.round((startOfDay(note.revisionData.nextReview.getTime()) - earliestDue) / DAY_MS)),
+          ivl: Math.max(1, Math.round(note.revisionData.interval)),
+          factor: Math.round(note.revisionData.easeFactor * 1000)
+        }
+        : { type: CARD_NEW, due: ++newPosition, ivl: 0, factor: 0 };
+
+      insertCard.run([
+        noteId,
+        noteId,
+        deckId,
+        0,
+        nowSeconds,
+        -1,
+        schedule.type,
+        schedule.type,
+        schedule.due,
+        schedule.ivl,
+        schedule.factor,
+        note.metadata.reviewCount,
+        0,
+        0,
+        0,
+        0,
+        0,
+        ''
+      ]);
+    });
+
+    const defaultDeckId = deckFor(ROOT_DECK);
+    db.run(
+      'INSERT INTO col (id, crt, mod, scm, ver, dty, usn, ls, conf, models, decks, dconf, tags) VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+      [
+        crt,
+        nowMs,
+        nowMs,
+        JSON.stringify(buildCollectionConfig(modelId, defaultDeckId, newPosition + 1)),
+        JSON.stringify({ [modelId]: buildModel(modelId, defaultDeckId, nowSeconds) }),
+        JSON.stringify(buildDecks(deckIds, nowSeconds)),
+        JSON.stringify({ 1: buildDeckConfig() }),
+        '{}'
+      ]
+    );
+  } finally {
+    insertNote.free();
+    insertCard.free();
+  }
+}
+
+function buildFields(note: SmartNote): string[] {
+  const keyPoints = note.aiAnalysis.keyPoints.length > 0
+    ? `<ul>${note.aiAnalysis.keyPoints.map(point => `<li>${escapeHtml(point)}</li>`).join('')}</ul>`
+    : '';
+  const syllabus = note.tags.syllabusTags
+    .map(tag => escapeHtml(syllabusMapper.getTopicPath(tag).map(node => node.name).join(' > ') || tag))
+    .join('<br>');
+
+  return [
+    escapeHtml(note.title),
+    escapeHtml(note.content).replace(/\r?\n/g, '<br>'),
+    keyPoints,
+    syllabus
+  ];
+}
+
+function buildModel(modelId: number, deckId: number, mod: number): Record<string, unknown> {
+  return {
+    id: modelId,
+    name: MODEL_NAME,
+    type: 0,
+    mod,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tmpls: [{
+      name: 'Card 1',
+      ord: 0,
+      qfmt: '<div class="front">{{Front}}</div>',
+      afmt: '{{FrontSide}}<hr id="answer">{{Back}}{{#Key Points}}<h4>Key Points</h4>{{Key Points}}{{/Key Points}}<div class="syllabus">{{Syllabus}}</div>',
+      bqfmt: '',
+      bafmt: '',
+      did: null
+    }],
+    flds: MODEL_FIELDS.map((name, ord) => ({
+      name,
+      ord,
+      sticky: false,
+      rtl: false,
+      font: 'Arial',
+      size: 20,
+      media: []
+    })),
+    css: CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    tags: [],
+    vers: [],
+    req: [[0, 'any', [0]]]
+  };
+}
+
+function buildDecks(deckIds: Map<string, number>, mod: number): Record<string, unknown> {
+  const decks: Record<string, unknown> = {
+    1: buildDeck(1, 'Default', mod)
+  };
+  deckIds.forEach((id, name) => {
+    decks[id] = buildDeck(id, name, mod);
+  });
+  return decks;
+}
+
+function buildDeck(id: number, name: string, mod: number): Record<string, unknown> {
+  return {
+    id,
+    name,
+    mod,
+    usn: -1,
+    desc: '',
+    dyn: 0,
+    conf: 1,
+    collapsed: false,
+    browserCollapsed: false,
+    extendNew: 10,
+    extendRev: 50,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0]
+  };
+}
+
+function buildDeckConfig(): Record<string, unknown> {
+  return {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { bury: true, delays: [1, 10], initialFactor: 2500, ints: [1, 4, 7], order: 1, perDay: 20, separate: true },
+    rev: { bury: true, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, minSpace: 1, perDay: 200 },
+    lapse: { delays: [10], leechAction: 0, leechFails: 8, minInt: 1, mult: 0 }
+  };
+}
+
+function buildCollectionConfig(
+  modelId: number,
+  deckId: number,
+  nextPos: number
+): Record<string, unknown> {
+  return {
+    nextPos,
+    estTimes: true,
+    activeDecks: [deckId],
+    sortType: 'noteFld',
+    timeLim: 0,
+    sortBackwards: false,
+    addToCur: true,
+    curDeck: deckId,
+    newBury: true,
+    newSpread: 0,
+    dueCounts: true,
+    curModel: modelId,
+    collapseTime: 1200
+  };
+}
+
+function buildGuid(note: SmartNote): string {
+  // Stable per note so re-importing an export updates cards instead of duplicating them
+  return crypto.createHash('sha1').update(`${note.userId}:${note.id}`).digest('hex').slice(0, 16);
+}
+
+function checksum(sortField: string): number {
+  const plain = sortField.replace(/<[^>]*>/g, '');
+  return parseInt(crypto.createHash('sha1').update(plain, 'utf8').digest('hex').slice(0, 8), 16);
+}
+
+function formatTags(note: SmartNote): string {
+  const tags = Array.from(new Set([
+    ...note.tags.syllabusTags,
+    ...note.tags.conceptTags,
+    ...note.tags.customTags
+  ]))
+    .map(tag => tag.trim().replace(/\s+/g, '_'))
+    .filter(tag => tag.length > 0);
+
+  return tags.length > 0 ? ` ${tags.join(' ')} ` : '';
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function startOfDay(time: number): number {
+  return Math.floor(time / DAY_MS) * DAY_MS;
+}
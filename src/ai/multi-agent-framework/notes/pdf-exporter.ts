@@ -0,0 +1,416 @@
+/**
+ * @fileOverview Typesets smart notes into a multi-page PDF
+ *
+ * Layout: a cover page, a table of contents grouped by syllabus tag, then one
+ * section per tag with its notes. TOC pages are reserved up front and filled
+ * in once the body has been laid out and page numbers are known.
+ */
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { syllabusMapper } from '../syllabus/upsc-syllabus-taxonomy';
+import type { SmartNote } from './smart-notes-system';
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const FOOTER_Y = MARGIN / 2;
+
+const TEXT_COLOR = rgb(0.12, 0.16, 0.22);
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5);
+const ACCENT_COLOR = rgb(0.15, 0.39, 0.92);
+
+const TOC_LINE_HEIGHT = 16;
+const TOC_GROUP_SPACING = 8;
+const UNTAGGED_GROUP = 'Untagged';
+
+export interface PdfExportOptions {
+  title?: string;
+  now?: Date;
+}
+
+interface NoteGroup {
+  key: string;
+  label: string;
+  notes: SmartNote[];
+}
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+  italic: PDFFont;
+}
+
+/**
+ * Render notes into a PDF document
+ */
+export async function buildNotesPdf(
+  notes: SmartNote[],
+  options: PdfExportOptions = {}
+): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const fonts: Fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold),
+    italic: await doc.embedFont(StandardFonts.HelveticaOblique)
+  };
+  const title = options.title || 'UPSC Study Notes';
+  const now = options.now || new Date();
+
+  doc.setTitle(title);
+  doc.setCreator('PrepTalk Smart Notes');
+  doc.setCreationDate(now);
+
+  const groups = groupNotesBySyllabus(notes);
+  const tocEntries = layoutTableOfContents(groups);
+
+  drawCover(doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]), fonts, title, notes.length, groups.length, now);
+
+  const tocPageCount = tocEntries.length > 0 ? tocEntries[tocEntries.length - 1].pageIndex + 1 : 1;
+  const tocPages: PDFPage[] = [];
+  for (let i = 0; i < tocPageCount; i++) {
+    tocPages.push(doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]));
+  }
+
+  const writer = new PageWriter(doc, fonts);
+  const notePages = new Map<string, number>();
+  const groupPages = new Map<string, number>();
+
+  for (const group of groups) {
+    writer.newPage();
+    groupPages.set(group.key, writer.pageNumber);
+    writer.heading(group.label, 18, ACCENT_COLOR);
+    writer.gap(6);
+
+    for (const note of group.notes) {
+      // A note listed under several tags is typeset once, under its first group
+      if (notePages.has(note.id)) {
+        writer.crossReference(note.title, notePages.get(note.id)!);
+        continue;
+      }
+      notePages.set(note.id, writer.pageNumber);
+      writer.note(note);
+    }
+  }
+
+  drawTableOfContents(tocPages, fonts, tocEntries, groupPages, notePages);
+  drawFooters(doc, fonts, title);
+
+  return await doc.save();
+}
+
+/**
+ * Group notes under each of their syllabus tags, sorted by syllabus path
+ */
+export function groupNotesBySyllabus(notes: SmartNote[]): NoteGroup[] {
+  const groups = new Map<string, NoteGroup>();
+
+  for (const note of notes) {
+    const tags = note.tags.syllabusTags.length > 0 ? note.tags.syllabusTags : [UNTAGGED_GROUP];
+    for (const tag of tags) {
+      let group = groups.get(tag);
+      if (!group) {
+        group = { key: tag, label: getGroupLabel(tag), notes: [] };
+        groups.set(tag, group);
+      }
+      group.notes.push(note);
+    }
+  }
+
+  const sorted = Array.from(groups.values()).sort((a, b) => {
+    if (a.key === UNTAGGED_GROUP) return 1;
+    if (b.key === UNTAGGED_GROUP) return -1;
+    return a.label.localeCompare(b.label);
+  });
+  sorted.forEach(group => group.notes.sort((a, b) => a.title.localeCompare(b.title)));
+
+  return sorted;
+}
+
+function getGroupLabel(tag: string): string {
+  if (tag === UNTAGGED_GROUP) {
+    return UNTAGGED_GROUP;
+  }
+  const path = syllabusMapper.getTopicPath(tag);
+  if (path.length === 0) {
+    return tag;
+  }
+  return path.map(node => (node.level === 'paper' ? node.code : node.name)).join(' > ');
+}
+
+interface TocEntry {
+  group: NoteGroup;
+  note?: SmartNote;
+  pageIndex: number;
+  y: number;
+}
+
+/**
+ * Position every TOC line; used both to reserve pages and to draw them
+ */
+function layoutTableOfContents(groups: NoteGroup[]): TocEntry[] {
+  const entries: TocEntry[] = [];
+  let pageIndex = 0;
+  let y = PAGE_HEIGHT - MARGIN - 40; // first page carries the "Contents" title
+
+  const place = (group: NoteGroup, note?: SmartNote) => {
+    if (y - TOC_LINE_HEIGHT < MARGIN) {
+      pageIndex++;
+      y = PAGE_HEIGHT - MARGIN;
+    }
+    y -= TOC_LINE_HEIGHT;
+    entries.push({ group, note, pageIndex, y });
+  };
+
+  for (const group of groups) {
+    place(group);
+    group.notes.forEach(note => place(group, note));
+    y -= TOC_GROUP_SPACING;
+  }
+  return entries;
+}
+
+function drawCover(
+  page: PDFPage,
+  fonts: Fonts,
+  title: string,
+  noteCount: number,
+  groupCount: number,
+  now: Date
+): void {
+  const lines = wrapText(sanitizeText(title), fonts.bold, 30, CONTENT_WIDTH);
+  let y = PAGE_HEIGHT * 0.62;
+  for (const line of lines) {
+    page.drawText(line, { x: MARGIN, y, size: 30, font: fonts.bold, color: TEXT_COLOR });
+    y -= 38;
+  }
+
+  page.drawLine({
+    start: { x: MARGIN, y: y + 18 },
+    end: { x: MARGIN + 120, y: y + 18 },
+    thickness: 3,
+    color: ACCENT_COLOR
+  });
+
+  const summary = `${noteCount} note${noteCount === 1 ? '' : 's'} across ${groupCount} syllabus topic${groupCount === 1 ? '' : 's'}`;
+  page.drawText(summary, { x: MARGIN, y: y - 10, size: 13, font: fonts.regular, color: MUTED_COLOR });
+  page.drawText(`Exported ${now.toISOString().split('T')[0]}`, {
+    x: MARGIN,
+    y: y - 30,
+    size: 11,
+    font: fonts.italic,
+    color: MUTED_COLOR
+  });
+}
+
+function drawTableOfContents(
+  pages: PDFPage[],
+  fonts: Fonts,
+  entries: TocEntry[],
+  groupPages: Map<string, number>,
+  notePages: Map<string, number>
+): void {
+  pages[0].drawText('Contents', { x: MARGIN, y: PAGE_HEIGHT - MARGIN - 20, size: 22, font: fonts.bold, color: TEXT_COLOR });
+
+  for (const entry of entries) {
+    const page = pages[entry.pageIndex];
+    if (entry.note) {
+      drawLeaderLine(page, fonts.regular, entry.note.title, String(notePages.get(entry.note.id)), MARGIN + 14, entry.y);
+    } else {
+      drawLeaderLine(page, fonts.bold, entry.group.label, String(groupPages.get(entry.group.key)), MARGIN, entry.y);
+    }
+  }
+}
+
+function drawLeaderLine(page: PDFPage, font: PDFFont, label: string, pageLabel: string, x: number, y: number): void {
+  const size = 11;
+  const right = PAGE_WIDTH - MARGIN;
+  const numberWidth = font.widthOfTextAtSize(pageLabel, size);
+  const maxLabelWidth = right - x - numberWidth - 24;
+  const text = truncateText(sanitizeText(label), font, size, maxLabelWidth);
+  const textWidth = font.widthOfTextAtSize(text, size);
+
+  page.drawText(text, { x, y, size, font, color: TEXT_COLOR });
+  page.drawText(pageLabel, { x: right - numberWidth, y, size, font, color: TEXT_COLOR });
+
+  const dotWidth = font.widthOfTextAtSize('.', size);
+  const leaderStart = x + textWidth + 6;
+  const leaderEnd = right - numberWidth - 6;
+  const dots = Math.floor((leaderEnd - leaderStart) / dotWidth);
+  if (dots > 0) {
+    page.drawText('.'.repeat(dots), { x: leaderEnd - dots * dotWidth, y, size, font, color: MUTED_COLOR });
+  }
+}
+
+function drawFooters(doc: PDFDocument, fonts: Fonts, title: string): void {
+  const pages = doc.getPages();
+  const label = truncateText(sanitizeText(title), fonts.regular, 9, CONTENT_WIDTH / 2);
+
+  // The cover page is left unnumbered
+  pages.slice(1).forEach((page, index) => {
+    const pageLabel = `${index + 2} / ${pages.length}`;
+    page.drawText(label, { x: MARGIN, y: FOOTER_Y, size: 9, font: fonts.regular, color: MUTED_COLOR });
+    page.drawText(pageLabel, {
+      x: PAGE_WIDTH - MARGIN - fonts.regular.widthOfTextAtSize(pageLabel, 9),
+      y: FOOTER_Y,
+      size: 9,
+      font: fonts.regular,
+      color: MUTED_COLOR
+    });
+  });
+}
+
+/**
+ * Flows text down the page, starting new pages as needed
+ */
+class PageWriter {
+  private page: PDFPage | null = null;
+  private y = 0;
+
+  constructor(private doc: PDFDocument, private fonts: Fonts) {}
+
+  get pageNumber(): number {
+    return this.doc.getPageCount();
+  }
+
+  newPage(): void {
+    this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  gap(height: number): void {
+    this.y -= height;
+  }
+
+  heading(text: string, size: number, color = TEXT_COLOR): void {
+    this.paragraph(text, this.fonts.bold, size, color);
+  }
+
+  note(note: SmartNote): void {
+    // Keep the title together with at least a few lines of content
+    this.ensureSpace(80);
+    this.heading(note.title, 14);
+
+    const meta = [
+      `Type: ${note.type}`,
+      `Importance: ${note.metadata.importance}/10`,
+      `Mastery: ${note.metadata.masteryLevel}%`,
+      `Next review: ${note.revisionData.nextReview.toISOString().split('T')[0]}`
+    ].join('   |   ');
+    this.paragraph(meta, this.fonts.italic, 9, MUTED_COLOR);
+    this.gap(4);
+
+    for (const block of note.content.split(/\r?\n\s*\r?\n/)) {
+      const text = block.replace(/\s*\r?\n\s*/g, ' ').trim();
+      if (text) {
+        this.paragraph(text, this.fonts.regular, 11);
+        this.gap(4);
+      }
+    }
+
+    if (note.aiAnalysis.keyPoints.length > 0) {
+      this.paragraph('Key points', this.fonts.bold, 11);
+      for (const point of note.aiAnalysis.keyPoints) {
+        this.paragraph(point, this.fonts.regular, 11, TEXT_COLOR, '-  ');
+      }
+    }
+
+    this.gap(6);
+    this.rule();
+    this.gap(12);
+  }
+
+  crossReference(title: string, pageNumber: number): void {
+    this.paragraph(`${title} (see page ${pageNumber})`, this.fonts.italic, 10, MUTED_COLOR);
+    this.gap(8);
+  }
+
+  private paragraph(text: string, font: PDFFont, size: number, color = TEXT_COLOR, bullet = ''): void {
+    const lineHeight = size * 1.4;
+    const indent = bullet ? font.widthOfTextAtSize(bullet, size) : 0;
+    const lines = wrapText(sanitizeText(text), font, size, CONTENT_WIDTH - indent);
+
+    lines.forEach((line, index) => {
+      this.ensureSpace(lineHeight);
+      this.y -= lineHeight;
+      if (bullet && index === 0) {
+        this.page!.drawText(bullet, { x: MARGIN, y: this.y, size, font, color });
+      }
+      this.page!.drawText(line, { x: MARGIN + indent, y: this.y, size, font, color });
+    });
+  }
+
+  private rule(): void {
+    this.ensureSpace(1);
+    this.page!.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness: 0.5,
+      color: MUTED_COLOR
+    });
+  }
+
+  private ensureSpace(height: number): void {
+    if (!this.page || this.y - height < MARGIN) {
+      this.newPage();
+    }
+  }
+}
+
+/**
+ * Replace characters the standard Helvetica encoding (WinAnsi) cannot draw
+ */
+export function sanitizeText(text: string): string {
+  return text
+    .replace(/[‘’‚]/g, "'")
+    .replace(/[“”„]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/•/g, '-')
+    .replace(/₹/g, 'Rs.')
+    .replace(/\t/g, '    ')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+
+    if (current) {
+      lines.push(current);
+    }
+
+    // Break words that are wider than the whole line (URLs, long identifiers)
+    current = '';
+    for (const char of word) {
+      if (font.widthOfTextAtSize(current + char, size) > maxWidth && current) {
+        lines.push(current);
+        current = '';
+      }
+      current += char;
+    }
+  }
+
+  if (current) {
+    lines.push(current);
+  }
+  return lines.length > 0 ? lines : [''];
+}
+
+function truncateText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) {
+    return text;
+  }
+  let truncated = text;
+  while (truncated.length > 0 && font.widthOfTextAtSize(`${truncated}...`, size) > maxWidth) {
+    truncated = truncated.slice(0, -1);
+  }
+  return `${truncated.trimEnd()}...`;
+}
@@ -6,6 +6,9 @@ import { syllabusMapper } from '../syllabus/upsc-syllabus-taxonomy';
 import { TaggedContent, AdvancedTaggingSystem } from '../tagging/advanced-tagging-system';
 import { Logger } from '../core/logger';
 import { databaseAdapter } from '../persistence/database-adapter';
+import { NotesRepository, FirestoreNotesRepository } from '../persistence/notes-repository';
+import { buildAnkiPackage } from './anki-exporter';
+import { buildNotesPdf } from './pdf-exporter';
 
 export interface SmartNote {
   id: string;
@@ -126,9 +129,11 @@ export interface NotesSearchQuery {
   dateRange?: [Date, Date];
   masteryLevel?: [number, number];
   needsReview?: boolean;
+  dueBefore?: Date; // notes whose next review falls on or before this date
   hasConnections?: boolean;
   sortBy?: 'relevance' | 'created' | 'updated' | 'importance' | 'mastery';
   limit?: number;
+  cursor?: string; // nextCursor from a previous page
 }
 
 export interface NotesAnalytics {
@@ -161,10 +166,12 @@ export interface NotesAnalytics {
 export class SmartNotesSystem {
   private logger: Logger;
   private taggingSystem: AdvancedTaggingSystem;
+  private repository: NotesRepository;
 
-  constructor(logger: Logger, taggingSystem: AdvancedTaggingSystem) {
+  constructor(logger: Logger, taggingSystem: AdvancedTaggingSystem, repository?: NotesRepository) {
     this.logger = logger;
     this.taggingSystem = taggingSystem;
+    this.repository = repository || new FirestoreNotesRepository();
   }
 
   /**
@@ -258,6 +265,7 @@ export class SmartNotesSystem {
   async searchNotes(userId: string, query: NotesSearchQuery): Promise<{
     notes: SmartNote[];
     totalCount: number;
+    nextCursor: string | null;
     facets: {
       topics: Record<string, number>;
       tags: Record<string, number>;
@@ -268,13 +276,18 @@ export class SmartNotesSystem {
     this.logger.info('Searching notes', { userId, query });
 
     try {
-      const notes = await this.executeSearch(userId, query);
-      const facets = this.calculateSearchFacets(notes);
+      const [page, totalCount] = await Promise.all([
+        this.repository.queryNotes(userId, query, { cursor: query.cursor, pageSize: query.limit || 50 }),
+        this.repository.countNotes(userId, query)
+      ]);
+      // Facets describe the current page; counting every match would mean reading the whole collection
+      const facets = this.calculateSearchFacets(page.notes);
       const suggestions = await this.generateSearchSuggestions(userId, query);
 
       return {
-        notes: notes.slice(0, query.limit || 50),
-        totalCount: notes.length,
+        notes: page.notes,
+        totalCount,
+        nextCursor: page.nextCursor,
         facets,
         suggestions
       };
@@ -298,8 +311,8 @@ export class SmartNotesSystem {
       priority: 'low' | 'medium' | 'high';
     };
   }> {
-    const allNotes = await this.getUserNotes(userId);
     const now = new Date();
+    const allNotes = await this.collectNotes(userId, { dueBefore: now });
 
     const urgent = allNotes
       .filter(note => note.revisionData.nextReview <= now && note.metadata.importance >= 8)
@@ -547,7 +560,7 @@ export class SmartNotesSystem {
       case 'json':
         return this.exportAsJSON(notes.notes);
       case 'anki':
-        return this.exportAsAnki(notes.notes);
+        return await this.exportAsAnki(notes.notes);
       case 'notion':
         return this.exportAsNotion(notes.notes);
       default:
@@ -668,91 +681,48 @@ export class SmartNotesSystem {
   // Database operations
   private async storeNote(note: SmartNote): Promise<void> {
     this.logger.debug('Storing note', { noteId: note.id });
+    await this.repository.saveNote(note);
   }
 
   private async updateNote(note: SmartNote): Promise<void> {
     this.logger.debug('Updating note', { noteId: note.id });
+    await this.repository.saveNote(note);
   }
 
   private async storeCollection(collection: NotesCollection): Promise<void> {
     this.logger.debug('Storing collection', { collectionId: collection.id });
+    await this.repository.saveCollection(collection);
   }
 
   private async getNote(userId: string, noteId: string): Promise<SmartNote | null> {
-    // Implementation to get note from database
-    return null;
+    return this.repository.getNote(userId, noteId);
   }
 
   private async getUserNotes(userId: string): Promise<SmartNote[]> {
-    // Implementation to get all user notes
-    return [];
+    return this.collectNotes(userId, {});
   }
 
   private async getUserStudySessions(userId: string): Promise<StudySession[]> {
-    // Implementation to get user study sessions
-    return [];
+    return this.repository.getStudySessions(userId);
   }
 
   private async recordStudySession(session: StudySession): Promise<void> {
     this.logger.debug('Recording study session', { sessionId: session.id });
+    await this.repository.saveStudySession(session);
   }
 
-  // Search and filtering
-  private async executeSearch(userId: string, query: NotesSearchQuery): Promise<SmartNote[]> {
-    const allNotes = await this.getUserNotes(userId);
-    return this.filterNotes(allNotes, query);
-  }
-
-  private filterNotes(notes: SmartNote[], query: NotesSearchQuery): SmartNote[] {
-    return notes.filter(note => {
-      // Text search
-      if (query.text) {
-        const searchText = query.text.toLowerCase();
-        if (!note.title.toLowerCase().includes(searchText) &&
-            !note.content.toLowerCase().includes(searchText)) {
-          return false;
-        }
-      }
-
-      // Topic filter
-      if (query.topics && query.topics.length > 0) {
-        if (!query.topics.some(topic => note.tags.syllabusTags.includes(topic))) {
-          return false;
-        }
-      }
-
-      // Type filter
-      if (query.type && query.type.length > 0) {
-        if (!query.type.includes(note.type)) {
-          return false;
-        }
-      }
+  // Reads every page of a query; used where the whole result set is needed
+  private async collectNotes(userId: string, query: NotesSearchQuery): Promise<SmartNote[]> {
+    const notes: SmartNote[] = [];
+    let cursor: string | null = null;
 
-      // Difficulty range
-      if (query.difficulty) {
-        const [min, max] = query.difficulty;
-        if (note.metadata.difficulty < min || note.metadata.difficulty > max) {
-          return false;
-        }
-      }
+    do {
+      const page = await this.repository.queryNotes(userId, query, { cursor, pageSize: 200 });
+      notes.push(...page.notes);
+      cursor = page.nextCursor;
+    } while (cursor);
 
-      // Importance range
-      if (query.importance) {
-        const [min, max] = query.importance;
-        if (note.metadata.importance < min || note.metadata.importance > max) {
-          return false;
-        }
-      }
-
-      // Needs review filter
-      if (query.needsReview) {
-        if (note.revisionData.nextReview > new Date()) {
-          return false;
-        }
-      }
-
-      return true;
-    });
+    return notes;
   }
 
   private calculateSearchFacets(notes: SmartNote[]): any {
@@ -939,9 +909,10 @@ export class SmartNotesSystem {
   }
 
   private async exportAsPDF(notes: SmartNote[]): Promise<{ data: Buffer; filename: string; mimeType: string }> {
-    // Implementation for PDF export
+    const pdf = await buildNotesPdf(notes);
+    
     return {
-      data: Buffer.from('PDF content'),
+      data: Buffer.from(pdf),
       filename: `notes_export_${new Date().toISOString().split('T')[0]}.pdf`,
       mimeType: 'application/pdf'
     };
@@ -955,20 +926,13 @@ export class SmartNotesSystem {
     };
   }
 
-  private exportAsAnki(notes: SmartNote[]): { data: string; filename: string; mimeType: string } {
-    // Convert notes to Anki format
-    let ankiContent = '';
-    
-    notes.forEach(note => {
-      const question = note.title;
-      const answer = note.content.replace(/\n/g, '<br>');
-      ankiContent += `"${question}","${answer}","${note.tags.syllabusTags.join(';')}"\n`;
-    });
+  private async exportAsAnki(notes: SmartNote[]): Promise<{ data: Buffer; filename: string; mimeType: string }> {
+    const apkg = await buildAnkiPackage(notes);
     
     return {
-      data: ankiContent,
-      filename: `notes_anki_${new Date().toISOString().split('T')[0]}.csv`,
-      mimeType: 'text/csv'
+      data: apkg,
+      filename: `notes_anki_${new Date().toISOString().split('T')[0]}.apkg`,
+      mimeType: 'application/apkg'
     };
   }
 
@@ -1076,9 +1040,16 @@ export class SmartNotesSystem {
     return this.groupByField(notes, note => this.getMasteryCategory(note.metadata.masteryLevel));
   }
 
-  private updateRelatedNoteConnections(note: SmartNote): Promise<void> {
-    // Update connections in related notes
-    return Promise.resolve();
+  private async updateRelatedNoteConnections(note: SmartNote): Promise<void> {
+    // Link back from each related note so connections are symmetric
+    for (const relatedNoteId of note.connections.relatedNotes) {
+      const relatedNote = await this.getNote(note.userId, relatedNoteId);
+      if (relatedNote && !relatedNote.connections.relatedNotes.includes(note.id)) {
+        relatedNote.connections.relatedNotes.push(note.id);
+        relatedNote.updated = new Date();
+        await this.updateNote(relatedNote);
+      }
+    }
   }
 
   private calculateMasteryImprovement(oldNote: SmartNote, newNote: SmartNote): number {
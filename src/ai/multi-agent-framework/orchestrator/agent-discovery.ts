@@ -0,0 +1,121 @@
+/**
+ * @fileOverview Filesystem discovery of agent modules for the AgentRegistry
+ *
+ * A discoverable module exports a BaseAgent subclass whose constructor takes
+ * `{ openai, logger }`, together with the AgentMetadata it registers under.
+ */
+
+import { watch, FSWatcher } from 'fs';
+import { readdir, stat } from 'fs/promises';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import OpenAI from 'openai';
+import { AgentMetadata } from '../core/types';
+import { BaseAgent } from '../core/base-agent';
+import { Logger } from '../core/logger';
+
+export const AGENT_MODULE_EXTENSIONS = ['.ts', '.js', '.mjs', '.cjs'] as const;
+
+export type AgentModule = Record<string, unknown>;
+export type AgentModuleLoader = (file: string) => Promise<AgentModule>;
+export type AgentConstructor = new (config: { openai: OpenAI; logger: Logger }) => BaseAgent;
+
+export interface AgentModuleExports {
+  agentClasses: AgentConstructor[];
+  metadata: AgentMetadata[];
+}
+
+function isAgentModuleFile(name: string): boolean {
+  return AGENT_MODULE_EXTENSIONS.some(extension => name.endsWith(extension)) &&
+    !name.endsWith('.d.ts') &&
+    !/\.(test|spec)\.[cm]?[jt]s$/.test(name);
+}
+
+/**
+ * Lists candidate agent modules under a directory, skipping tests, type
+ * declarations and node_modules
+ */
+export async function findAgentModules(searchPath: string): Promise<string[]> {
+  const entries = await readdir(searchPath, { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    const fullPath = path.resolve(searchPath, entry.name);
+    if (entry.isDirectory()) {
+      if (entry.name !== 'node_modules' && !entry.name.startsWith('.')) {
+        files.push(...await findAgentModules(fullPath));
+      }
+    } else if (isAgentModuleFile(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+
+  return files.sort();
+}
+
+export function isAgentClass(value: unknown): value is AgentConstructor {
+  return typeof value === 'function' && value.prototype instanceof BaseAgent;
+}
+
+export function isAgentMetadata(value: unknown): value is AgentMetadata {
+  if (!value || typeof value !== 'object') return false;
+  const candidate = value as Partial<AgentMetadata>;
+  return typeof candidate.id === 'string' &&
+    typeof candidate.name === 'string' &&
+    typeof candidate.version === 'string' &&
+    Array.isArray(candidate.capabilities);
+}
+
+/**
+ * Picks the agent classes and metadata objects out of a module's exports
+ */
+export function getAgentModuleExports(module: AgentModule): AgentModuleExports {
+  const values = Object.values(module);
+  return {
+    agentClasses: values.filter(isAgentClass),
+    metadata: values.filter(isAgentMetadata)
+  };
+}
+
+/**
+ * Loads a module with native `import()`. The file's modification time goes in
+ * the URL, so an edited file is imported afresh on reload. Node only runs
+ * `.ts` modules under a TypeScript loader such as tsx; compiled deployments
+ * should point the search paths at the built `.js` agents.
+ */
+export const loadAgentModule: AgentModuleLoader = async file => {
+  const { mtimeMs } = await stat(file);
+  const url = `${pathToFileURL(file).href}?v=${mtimeMs}`;
+  return import(/* webpackIgnore: true */ url);
+};
+
+/**
+ * Watches the search paths and calls `onChange` once per changed module after
+ * edits settle. Returns a function that stops watching.
+ */
+export function watchAgentModules(
+  searchPaths: string[],
+  onChange: (file: string) => void,
+  debounceMs: number = 200
+): () => void {
+  const timers = new Map<string, NodeJS.Timeout>();
+
+  const watchers: FSWatcher[] = searchPaths.map(searchPath =>
+    watch(searchPath, { recursive: true }, (_event, filename) => {
+      if (!filename || !isAgentModuleFile(filename.toString())) return;
+      const file = path.resolve(searchPath, filename.toString());
+
+      clearTimeout(timers.get(file));
+      timers.set(file, setTimeout(() => {
+        timers.delete(file);
+        onChange(file);
+      }, debounceMs));
+    })
+  );
+
+  return () => {
+    watchers.forEach(watcher => watcher.close());
+    timers.forEach(timer => clearTimeout(timer));
+    timers.clear();
+  };
+}
@@ -2,6 +2,10 @@
  * @fileOverview Agent Registry for managing and discovering agents
  */
 
+import { existsSync } from 'fs';
+import path from 'path';
+import OpenAI from 'openai';
+import { z } from 'zod';
 import { 
   AgentMetadata, 
   AgentStatus, 
@@ -11,17 +15,64 @@ import {
 } from '../core/types';
 import { BaseAgent } from '../core/base-agent';
 import { Logger } from '../core/logger';
+import {
+  AgentConstructor,
+  AgentModuleLoader,
+  findAgentModules,
+  getAgentModuleExports,
+  loadAgentModule,
+  watchAgentModules
+} from './agent-discovery';
 
 export interface AgentRegistryConfig {
   maxAgents: number;
   healthCheckInterval: number; // milliseconds
   enableAutoDiscovery: boolean;
   logger: Logger;
+  openai?: OpenAI; // passed to discovered agents; required for auto-discovery
+  watchForChanges?: boolean; // reload discovered agents on file changes, defaults to on in development
+  moduleLoader?: AgentModuleLoader;
 }
 
+export interface RegistrySnapshot {
+  timestamp: Date;
+  agents: Array<{
+    metadata: AgentMetadata;
+    metrics: AgentMetrics;
+    healthy: boolean;
+  }>;
+  stats: ReturnType<AgentRegistry['getStats']>;
+}
+
+// Snapshots usually come back as parsed JSON, so dates arrive as strings
+const RegistrySnapshotSchema = z.object({
+  agents: z.array(z.object({
+    metadata: z.object({
+      id: z.string(),
+      version: z.string(),
+      status: z.nativeEnum(AgentStatus)
+    }),
+    metrics: z.object({
+      totalRequests: z.number(),
+      successfulRequests: z.number(),
+      failedRequests: z.number(),
+      averageLatency: z.number(),
+      averageTokens: z.number(),
+      totalCost: z.number(),
+      lastActivity: z.coerce.date(),
+      errorRate: z.number(),
+      qualityScore: z.number()
+    })
+  }))
+});
+
 export class AgentRegistry {
   private agents: Map<string, BaseAgent> = new Map();
   private healthCheckTimer: NodeJS.Timeout | null = null;
+  // Discovered module file -> IDs of the agents it registered
+  private agentSources: Map<string, string[]> = new Map();
+  private discoveredClasses: Map<string, AgentConstructor> = new Map();
+  private stopWatching: (() => void) | null = null;
 
   constructor(private config: AgentRegistryConfig) {
     if (config.healthCheckInterval > 0) {
@@ -271,26 +322,111 @@ export class AgentRegistry {
     }
 
     let discoveredCount = 0;
-    
-    // In a real implementation, this would scan file system for agent modules
-    // For now, this is a placeholder for the auto-discovery mechanism
-    this.config.logger.info('Auto-discovery is not yet implemented');
-    
+
+    for (const searchPath of searchPaths) {
+      const files = await findAgentModules(path.resolve(searchPath));
+
+      for (const file of files) {
+        try {
+          const agents = await this.loadAgents(file);
+          const registered: string[] = [];
+
+          for (const agent of agents) {
+            const agentId = agent.getMetadata().id;
+            if (this.agents.has(agentId)) {
+              this.config.logger.warn(`Skipping discovered agent ${agentId}: an agent with this ID is already registered`, { file });
+              continue;
+            }
+            this.register(agent);
+            registered.push(agentId);
+          }
+
+          if (registered.length > 0) {
+            this.agentSources.set(file, registered);
+            discoveredCount += registered.length;
+          }
+        } catch (error) {
+          this.config.logger.warn(`Failed to load agent module ${file}`, {
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      }
+    }
+
+    this.config.logger.info(`Auto-discovery registered ${discoveredCount} agents`, { searchPaths });
+
+    if ((this.config.watchForChanges ?? process.env.NODE_ENV === 'development') && !this.stopWatching) {
+      this.stopWatching = watchAgentModules(searchPaths.map(searchPath => path.resolve(searchPath)), file => {
+        this.reloadAgentModule(file).catch(error => {
+          this.config.logger.error(`Failed to reload agent module ${file}`, error instanceof Error ? error : new Error(String(error)));
+        });
+      });
+      this.config.logger.info('Watching agent modules for changes');
+    }
+
     return discoveredCount;
   }
 
+  /**
+   * Reload a discovered module and swap in its agents. Requests already running
+   * keep their reference to the previous instance and finish on it; new
+   * requests get the reloaded one. If the module fails to load, the previous
+   * agents stay registered.
+   */
+  async reloadAgentModule(file: string): Promise<string[]> {
+    const previousIds = this.agentSources.get(file) || [];
+
+    if (!existsSync(file)) {
+      previousIds.forEach(agentId => {
+        this.unregister(agentId);
+        this.discoveredClasses.delete(agentId);
+      });
+      this.agentSources.delete(file);
+      return [];
+    }
+
+    const agents = await this.loadAgents(file);
+    const reloaded: string[] = [];
+
+    for (const agent of agents) {
+      const agentId = agent.getMetadata().id;
+      const previous = this.agents.get(agentId);
+
+      if (previous && !previousIds.includes(agentId)) {
+        this.config.logger.warn(`Skipping reloaded agent ${agentId}: an agent with this ID is registered from elsewhere`, { file });
+        continue;
+      }
+
+      if (previous) {
+        this.validateAgent(agent);
+        agent.restoreMetrics(previous.getMetrics());
+        this.agents.set(agentId, agent);
+        this.config.logger.info(`Agent reloaded: ${agentId}`, { version: agent.getMetadata().version });
+      } else {
+        this.register(agent);
+      }
+      reloaded.push(agentId);
+    }
+
+    previousIds
+      .filter(agentId => !reloaded.includes(agentId))
+      .forEach(agentId => {
+        this.unregister(agentId);
+        this.discoveredClasses.delete(agentId);
+      });
+
+    if (reloaded.length > 0) {
+      this.agentSources.set(file, reloaded);
+    } else {
+      this.agentSources.delete(file);
+    }
+    return reloaded;
+  }
+
   /**
    * Export registry data for backup/analysis
    */
-  exportRegistry(): {
-    timestamp: Date;
-    agents: Array<{
-      metadata: AgentMetadata;
-      metrics: AgentMetrics;
-      healthy: boolean;
-    }>;
-    stats: ReturnType<typeof this.getStats>;
-  } {
+  exportRegistry(): RegistrySnapshot {
     const agents = this.getAllAgents();
     
     return {
@@ -304,6 +440,50 @@ export class AgentRegistry {
     };
   }
 
+  /**
+   * Restore a snapshot from exportRegistry, as returned or parsed from JSON. Agents are not serializable, so
+   * each snapshot agent must be registered already or known from discovery;
+   * its status and metrics are then restored. Anything else is reported as missing.
+   */
+  importRegistry(snapshot: unknown): { restored: string[]; missing: string[] } {
+    const parsed = RegistrySnapshotSchema.safeParse(snapshot);
+    if (!parsed.success) {
+      throw new Error(`Invalid registry snapshot: ${parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join(', ')}`);
+    }
+
+    const restored: string[] = [];
+    const missing: string[] = [];
+
+    for (const { metadata, metrics } of parsed.data.agents) {
+      let agent = this.agents.get(metadata.id);
+
+      if (!agent) {
+        const AgentClass = this.discoveredClasses.get(metadata.id);
+        if (!AgentClass || !this.config.openai) {
+          missing.push(metadata.id);
+          continue;
+        }
+        agent = new AgentClass({ openai: this.config.openai, logger: this.config.logger });
+        this.register(agent);
+      }
+
+      if (agent.getMetadata().version !== metadata.version) {
+        this.config.logger.warn(`Restoring agent ${metadata.id} from snapshot version ${metadata.version}`, {
+          currentVersion: agent.getMetadata().version
+        });
+      }
+
+      agent.restoreMetrics({ ...metrics, agentId: metadata.id });
+      if (agent.getMetadata().status !== metadata.status) {
+        agent.updateStatus(metadata.status);
+      }
+      restored.push(metadata.id);
+    }
+
+    this.config.logger.info(`Registry snapshot imported: ${restored.length} restored, ${missing.length} missing`, { missing });
+    return { restored, missing };
+  }
+
   /**
    * Clean up inactive agents
    */
@@ -338,6 +518,11 @@ export class AgentRegistry {
       this.healthCheckTimer = null;
     }
 
+    if (this.stopWatching) {
+      this.stopWatching();
+      this.stopWatching = null;
+    }
+
     // Set all agents to inactive
     for (const agent of this.agents.values()) {
       agent.updateStatus(AgentStatus.INACTIVE);
@@ -351,8 +536,10 @@ export class AgentRegistry {
    */
 
   private validateAgent(agent: BaseAgent): void {
-    const metadata = agent.getMetadata();
-    
+    this.validateMetadata(agent.getMetadata());
+  }
+
+  private validateMetadata(metadata: AgentMetadata): void {
     if (!metadata.id || !metadata.name) {
       throw new Error('Agent must have valid id and name');
     }
@@ -369,6 +556,36 @@ export class AgentRegistry {
     }
   }
 
+  /**
+   * Instantiate the agents a module exports. Every agent class must produce
+   * metadata that the module also exports, and both must pass validation.
+   */
+  private async loadAgents(file: string): Promise<BaseAgent[]> {
+    if (!this.config.openai) {
+      throw new Error('Auto-discovery needs an OpenAI client to construct agents');
+    }
+
+    const { agentClasses, metadata } = getAgentModuleExports(await (this.config.moduleLoader || loadAgentModule)(file));
+    if (agentClasses.length === 0) {
+      return [];
+    }
+
+    return agentClasses.map(AgentClass => {
+      const agent = new AgentClass({ openai: this.config.openai!, logger: this.config.logger });
+      const agentId = agent.getMetadata().id;
+
+      const declared = metadata.find(candidate => candidate.id === agentId);
+      if (!declared) {
+        throw new Error(`Agent ${agentId} does not export its AgentMetadata`);
+      }
+      this.validateMetadata(declared);
+      this.validateAgent(agent);
+
+      this.discoveredClasses.set(agentId, AgentClass);
+      return agent;
+    });
+  }
+
   private startHealthChecks(): void {
     this.healthCheckTimer = setInterval(async () => {
       try {
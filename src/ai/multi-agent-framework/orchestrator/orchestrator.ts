@@ -21,6 +21,12 @@ import {
 import { BaseAgent } from '../core/base-agent';
 import { Logger } from '../core/logger';
 import { AgentRegistry } from './agent-registry';
+import {
+  WorkflowDefinition,
+  createWorkflowRecord,
+  planWorkflowLevels,
+  runWorkflow
+} from './workflow-engine';
 
 // Intent classification schemas
 const IntentClassificationRequestSchema = z.object({
@@ -49,6 +55,8 @@ const IntentClassificationResponseSchema = z.object({
 export class OrchestratorAgent extends BaseAgent {
   private agentRegistry: AgentRegistry;
   private activeWorkflows: Map<string, Workflow> = new Map();
+  private workflowDefinitions: Map<string, WorkflowDefinition> = new Map();
+  private workflowControllers: Map<string, AbortController> = new Map();
 
   constructor(
     config: {
@@ -137,7 +145,9 @@ export class OrchestratorAgent extends BaseAgent {
       // Step 4: Execute based on strategy
       let response: BaseResponse;
       
-      if (executionStrategy.type === 'single_agent') {
+      if (executionStrategy.type === 'workflow') {
+        response = await this.runWorkflow(executionStrategy.plan, request, context);
+      } else if (executionStrategy.type === 'single_agent') {
         response = await this.executeSingleAgent(
           selectedAgents[0],
           request,
@@ -355,7 +365,14 @@ Text content: "${textContent}"`
   private determineExecutionStrategy(
     selectedAgents: Array<{ agentId: string; confidence: number; capabilities: string[] }>,
     intentResult: IntentClassificationResult
-  ): { type: 'single_agent' | 'parallel' | 'sequential'; plan?: any } {
+  ): { type: 'single_agent' | 'parallel' | 'sequential' | 'workflow'; plan?: any } {
+
+    // A registered workflow for the intent takes precedence over ad-hoc agent selection
+    const definition = Array.from(this.workflowDefinitions.values())
+      .find(workflow => workflow.triggers?.includes(intentResult.primaryIntent.name));
+    if (definition) {
+      return { type: 'workflow', plan: definition };
+    }
     
     // Single agent if only one selected or high confidence primary intent
     if (selectedAgents.length === 1 || intentResult.primaryIntent.confidence > 0.9) {
@@ -595,6 +612,77 @@ Text content: "${textContent}"`
     );
   }
 
+  /**
+   * Register a declarative workflow. It runs for requests whose primary intent
+   * is one of its triggers, or on demand through runWorkflow.
+   */
+  registerWorkflow(definition: WorkflowDefinition): void {
+    planWorkflowLevels(definition); // throws on unknown dependencies or cycles
+    this.workflowDefinitions.set(definition.id, definition);
+  }
+
+  getWorkflowDefinitions(): WorkflowDefinition[] {
+    return Array.from(this.workflowDefinitions.values());
+  }
+
+  /**
+   * Run a workflow definition (or a registered one by ID) as a DAG of agent
+   * steps. While it runs it is listed by getActiveWorkflows with per-step
+   * status, and cancelWorkflow stops it.
+   */
+  async runWorkflow(
+    definitionOrId: WorkflowDefinition | string,
+    request: BaseRequest,
+    context: ExecutionContext
+  ): Promise<BaseResponse> {
+    const definition = typeof definitionOrId === 'string'
+      ? this.workflowDefinitions.get(definitionOrId)
+      : definitionOrId;
+    if (!definition) {
+      throw new OrchestratorError(`Workflow ${definitionOrId} is not registered`, 'WORKFLOW_NOT_FOUND', 'coordination');
+    }
+
+    const startTime = Date.now();
+    const workflowId = `workflow_${request.id}_${definition.id}`;
+    const workflow = createWorkflowRecord(definition, workflowId, request);
+    const controller = new AbortController();
+    this.activeWorkflows.set(workflowId, workflow);
+    this.workflowControllers.set(workflowId, controller);
+
+    this.logger.agentInfo(
+      this.metadata.id,
+      `Starting workflow: ${workflowId}`,
+      { definition: definition.id, steps: definition.steps.length },
+      request.id
+    );
+
+    try {
+      const result = await runWorkflow(definition, workflow, request, context, {
+        getAgent: agentId => this.agentRegistry.getAgent(agentId),
+        signal: controller.signal,
+        logger: this.logger
+      });
+
+      return this.createResponse(request, result.data, Date.now() - startTime, {
+        workflowType: 'dag',
+        workflowId,
+        definitionId: definition.id,
+        steps: workflow.tasks.map(task => ({
+          id: task.id,
+          agentId: task.agentId,
+          status: task.status,
+          error: task.error,
+          processingTime: task.startTime && task.endTime ? task.endTime - task.startTime : undefined
+        })),
+        skipped: result.skipped,
+        failed: result.failed
+      });
+    } finally {
+      this.activeWorkflows.delete(workflowId);
+      this.workflowControllers.delete(workflowId);
+    }
+  }
+
   /**
    * Get active workflows
    */
@@ -608,13 +696,14 @@ Text content: "${textContent}"`
   cancelWorkflow(workflowId: string): boolean {
     const workflow = this.activeWorkflows.get(workflowId);
     if (workflow) {
-      workflow.status = WorkflowStatus.PAUSED;
-      // Cancel running tasks
+      workflow.status = WorkflowStatus.CANCELLED;
+      // Cancel running tasks; declarative workflows also stop scheduling further steps
       workflow.tasks.forEach(task => {
         if (task.status === TaskStatus.RUNNING) {
           task.status = TaskStatus.CANCELLED;
         }
       });
+      this.workflowControllers.get(workflowId)?.abort();
       return true;
     }
     return false;
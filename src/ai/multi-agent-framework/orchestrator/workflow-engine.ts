@@ -0,0 +1,340 @@
+/**
+ * @fileOverview Declarative multi-step workflows: a DAG of agent steps where
+ * each step can read the outputs of the steps it depends on
+ */
+
+import {
+  BaseRequest,
+  BaseResponse,
+  ExecutionContext,
+  OrchestratorError,
+  TaskPriority,
+  TaskStatus,
+  Workflow,
+  WorkflowStatus
+} from '../core/types';
+import type { BaseAgent } from '../core/base-agent';
+import type { Logger } from '../core/logger';
+
+const DEFAULT_RETRY_DELAY_MS = 500;
+
+/**
+ * What a step's `input` and `when` functions see: the request that started the
+ * workflow and the output (`response.data`) of every step finished so far.
+ * Agents validate their own data, so steps narrow these to what they expect.
+ */
+export interface WorkflowStepContext {
+  request: BaseRequest;
+  input: unknown; // request.data
+  outputs: Record<string, unknown>;
+}
+
+export interface WorkflowStepDefinition {
+  id: string;
+  agentId: string;
+  dependsOn?: string[];
+  requestType?: string; // defaults to the workflow request's type
+  // Builds the step's request data; defaults to the request data plus `upstream` outputs of dependencies
+  input?: (context: WorkflowStepContext) => unknown;
+  // Conditional branch: the step is skipped when this returns false
+  when?: (context: WorkflowStepContext) => boolean;
+  retries?: number; // extra attempts after the first
+  retryDelayMs?: number; // doubled after each failed attempt
+  timeoutMs?: number; // per attempt; defaults to the context's maxExecutionTime
+  optional?: boolean; // a failure is recorded and the workflow carries on without this step's output
+}
+
+export interface WorkflowDefinition {
+  id: string;
+  name: string;
+  description?: string;
+  triggers?: string[]; // intents the orchestrator runs this workflow for
+  steps: WorkflowStepDefinition[];
+  // Shapes the final response data; defaults to the outputs of steps nothing depends on
+  output?: (context: WorkflowStepContext) => unknown;
+}
+
+export interface WorkflowRunResult {
+  outputs: Record<string, unknown>;
+  responses: Record<string, BaseResponse>;
+  skipped: string[];
+  failed: string[];
+  data: unknown;
+}
+
+export interface WorkflowRunDependencies {
+  getAgent: (agentId: string) => Pick<BaseAgent, 'processRequest'> | undefined;
+  signal: AbortSignal;
+  logger?: Logger;
+}
+
+// Agent requests carry their payload in `data`, which BaseRequest does not declare
+function getRequestData(request: BaseRequest): unknown {
+  return (request as BaseRequest & { data?: unknown }).data;
+}
+
+function invalid(message: string): OrchestratorError {
+  return new OrchestratorError(message, 'INVALID_WORKFLOW', 'coordination');
+}
+
+/**
+ * Checks step IDs and dependencies and returns the steps grouped into levels:
+ * every step's dependencies are in earlier levels, so a level can run in parallel.
+ */
+export function planWorkflowLevels(definition: WorkflowDefinition): string[][] {
+  const steps = new Map(definition.steps.map(step => [step.id, step]));
+  if (steps.size === 0) {
+    throw invalid(`Workflow ${definition.id} has no steps`);
+  }
+  if (steps.size !== definition.steps.length) {
+    throw invalid(`Workflow ${definition.id} has duplicate step IDs`);
+  }
+
+  definition.steps.forEach(step => (step.dependsOn || []).forEach(dependency => {
+    if (!steps.has(dependency)) {
+      throw invalid(`Step ${step.id} depends on unknown step ${dependency}`);
+    }
+  }));
+
+  const levels: string[][] = [];
+  const placed = new Set<string>();
+  while (placed.size < steps.size) {
+    const level = definition.steps
+      .filter(step => !placed.has(step.id) && (step.dependsOn || []).every(dependency => placed.has(dependency)))
+      .map(step => step.id);
+    if (level.length === 0) {
+      const remaining = definition.steps.filter(step => !placed.has(step.id)).map(step => step.id);
+      throw invalid(`Workflow ${definition.id} has a dependency cycle among ${remaining.join(', ')}`);
+    }
+    level.forEach(id => placed.add(id));
+    levels.push(level);
+  }
+  return levels;
+}
+
+/**
+ * The Workflow record tracked by the orchestrator, with one task per step
+ */
+export function createWorkflowRecord(definition: WorkflowDefinition, workflowId: string, request: BaseRequest): Workflow {
+  const levels = planWorkflowLevels(definition);
+
+  return {
+    id: workflowId,
+    name: definition.name,
+    description: definition.description || `Workflow ${definition.id}`,
+    tasks: definition.steps.map(step => ({
+      id: step.id,
+      agentId: step.agentId,
+      input: request,
+      dependencies: step.dependsOn || [],
+      priority: TaskPriority.MEDIUM,
+      status: TaskStatus.PENDING
+    })),
+    executionPlan: {
+      parallel: levels.filter(level => level.length > 1),
+      sequential: levels.flat(),
+      conditional: definition.steps
+        .filter(step => step.when)
+        .map(step => ({ condition: `${step.id}.when`, ifTrue: [step.id], ifFalse: [] }))
+    },
+    status: WorkflowStatus.RUNNING
+  };
+}
+
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelled());
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function cancelled(): OrchestratorError {
+  return new OrchestratorError('Workflow was cancelled', 'WORKFLOW_CANCELLED', 'coordination');
+}
+
+/**
+ * One attempt at a step. Agents report failures as unsuccessful responses, so
+ * those are turned into errors here to drive retries.
+ */
+async function attemptStep(
+  agent: Pick<BaseAgent, 'processRequest'>,
+  request: BaseRequest,
+  context: ExecutionContext,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<BaseResponse> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+
+  try {
+    const response = await Promise.race([
+      agent.processRequest(request, context),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(
+          () => reject(new OrchestratorError(`Step timed out after ${timeoutMs}ms`, 'STEP_TIMEOUT', 'execution', true)),
+          timeoutMs
+        );
+        onAbort = () => reject(cancelled());
+        signal.addEventListener('abort', onAbort, { once: true });
+      })
+    ]);
+
+    if (!response.success) {
+      throw new OrchestratorError(response.error || 'Agent returned an unsuccessful response', 'STEP_FAILED', 'execution', true);
+    }
+    return response;
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) signal.removeEventListener('abort', onAbort);
+  }
+}
+
+/**
+ * Runs a workflow definition, updating the tasks of `workflow` as steps start
+ * and finish. Independent steps run concurrently. A step runs once all its
+ * dependencies have finished and at least one of them completed, so branches
+ * skipped by `when` join cleanly; a step whose dependencies were all skipped
+ * is skipped too.
+ */
+export async function runWorkflow(
+  definition: WorkflowDefinition,
+  workflow: Workflow,
+  request: BaseRequest,
+  context: ExecutionContext,
+  dependencies: WorkflowRunDependencies
+): Promise<WorkflowRunResult> {
+  const { getAgent, signal, logger } = dependencies;
+  const tasks = new Map(workflow.tasks.map(task => [task.id, task]));
+  const result: WorkflowRunResult = { outputs: {}, responses: {}, skipped: [], failed: [], data: undefined };
+  const input = getRequestData(request);
+  const stepContext = (): WorkflowStepContext => ({ request, input, outputs: result.outputs });
+  const running = new Map<string, Promise<void>>();
+  let fatal: unknown = null;
+
+  const isDone = (id: string) => {
+    const status = tasks.get(id)!.status;
+    return status !== TaskStatus.PENDING && status !== TaskStatus.RUNNING;
+  };
+
+  const skip = (step: WorkflowStepDefinition, reason: string) => {
+    tasks.get(step.id)!.status = TaskStatus.SKIPPED;
+    tasks.get(step.id)!.error = reason;
+    result.skipped.push(step.id);
+    logger?.debug(`Workflow ${workflow.id}: skipped step ${step.id}`, { reason }, 'orchestrator', request.id);
+  };
+
+  const runStep = async (step: WorkflowStepDefinition) => {
+    const task = tasks.get(step.id)!;
+    const agent = getAgent(step.agentId);
+    if (!agent) {
+      throw new OrchestratorError(`Agent ${step.agentId} not found`, 'AGENT_NOT_FOUND', 'execution');
+    }
+
+    const upstream = Object.fromEntries((step.dependsOn || [])
+      .filter(dependency => dependency in result.outputs)
+      .map(dependency => [dependency, result.outputs[dependency]]));
+    const stepRequest = {
+      ...request,
+      id: `${request.id}_${step.id}`,
+      ...(step.requestType && { type: step.requestType }),
+      data: step.input ? step.input(stepContext()) : { ...(typeof input === 'object' && input), upstream }
+    } as BaseRequest;
+    task.input = stepRequest;
+    task.status = TaskStatus.RUNNING;
+    task.startTime = Date.now();
+
+    const attempts = (step.retries ?? 0) + 1;
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const response = await attemptStep(
+          agent,
+          stepRequest,
+          { ...context, parentAgentId: 'orchestrator', depth: context.depth + 1 },
+          step.timeoutMs ?? context.constraints.maxExecutionTime,
+          signal
+        );
+        task.status = TaskStatus.COMPLETED;
+        task.result = response.data;
+        task.endTime = Date.now();
+        result.outputs[step.id] = response.data;
+        result.responses[step.id] = response;
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const isCancelled = error instanceof OrchestratorError && error.code === 'WORKFLOW_CANCELLED';
+
+        if (isCancelled || attempt >= attempts) {
+          task.status = isCancelled ? TaskStatus.CANCELLED : TaskStatus.FAILED;
+          task.error = message;
+          task.endTime = Date.now();
+          if (isCancelled || !step.optional) throw error;
+          result.failed.push(step.id);
+          return;
+        }
+
+        logger?.warn(`Workflow ${workflow.id}: step ${step.id} attempt ${attempt} failed, retrying`, { error: message }, 'orchestrator', request.id);
+        await delay((step.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS) * 2 ** (attempt - 1), signal);
+      }
+    }
+  };
+
+  // Starts every step whose dependencies are settled; returns false when nothing is left to do
+  const schedule = (): boolean => {
+    // A skip settles a step, which can make its dependents ready in the same pass
+    let settled = true;
+    while (settled) {
+      settled = false;
+      for (const step of definition.steps) {
+        if (tasks.get(step.id)!.status !== TaskStatus.PENDING || running.has(step.id)) continue;
+
+        const dependsOn = step.dependsOn || [];
+        if (!dependsOn.every(isDone)) continue;
+
+        if (dependsOn.length > 0 && !dependsOn.some(dependency => tasks.get(dependency)!.status === TaskStatus.COMPLETED)) {
+          skip(step, 'no dependency completed');
+          settled = true;
+        } else if (step.when && !step.when(stepContext())) {
+          skip(step, 'condition not met');
+          settled = true;
+        } else {
+          running.set(step.id, runStep(step).catch(error => {
+            fatal = fatal ?? error;
+          }).finally(() => running.delete(step.id)));
+        }
+      }
+    }
+    return running.size > 0;
+  };
+
+  while (fatal === null && !signal.aborted && schedule()) {
+    await Promise.race(running.values());
+  }
+  await Promise.all(running.values());
+
+  if (signal.aborted || fatal) {
+    workflow.tasks.filter(task => !isDone(task.id)).forEach(task => {
+      task.status = TaskStatus.CANCELLED;
+    });
+    if (signal.aborted) throw cancelled();
+    workflow.status = WorkflowStatus.FAILED;
+    throw fatal;
+  }
+
+  // Steps nothing depends on are the workflow's results
+  const terminal = definition.steps
+    .filter(step => !definition.steps.some(other => other.dependsOn?.includes(step.id)))
+    .map(step => step.id)
+    .filter(id => id in result.outputs);
+  result.data = definition.output
+    ? definition.output(stepContext())
+    : Object.fromEntries(terminal.map(id => [id, result.outputs[id]]));
+  workflow.status = WorkflowStatus.COMPLETED;
+  return result;
+}
@@ -18,6 +18,7 @@ import {
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
 import { AgentMetrics, SystemMetrics } from '../core/types';
+import { toFirestoreData } from './firestore-serialization';
 
 export interface QualitySession {
   id: string;
@@ -45,12 +46,14 @@ export interface ExperimentResult {
   sessionId: string;
   timestamp: Date;
   metrics: {
-    qualityScore: number;
+    qualityScore?: number;
     processingTime: number;
     userSatisfaction?: number;
     taskCompletion: boolean;
     tokenUsage: number;
     cost: number;
+    // Domain-specific quality and engagement metrics
+    [metric: string]: number | boolean | undefined;
   };
   metadata?: Record<string, any>;
 }
@@ -155,10 +158,8 @@ export class DatabaseAdapter {
    */
   async saveExperimentResult(result: ExperimentResult): Promise<void> {
     try {
-      const resultDoc = {
-        ...result,
-        timestamp: Timestamp.fromDate(result.timestamp)
-      };
+      // Optional metrics may be undefined, which Firestore rejects
+      const resultDoc = toFirestoreData(result) as Record<string, unknown>;
 
       await addDoc(collection(db, this.COLLECTIONS.EXPERIMENT_RESULTS), resultDoc);
       
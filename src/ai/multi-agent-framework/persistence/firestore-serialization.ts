@@ -0,0 +1,51 @@
+/**
+ * @fileOverview Conversions between app objects and Firestore documents
+ */
+
+import { Timestamp } from 'firebase/firestore';
+
+/**
+ * Recursively converts Dates to Firestore Timestamps and drops undefined values,
+ * which Firestore rejects.
+ */
+export function toFirestoreData(value: unknown): unknown {
+  if (value instanceof Date) return Timestamp.fromDate(value);
+  if (Array.isArray(value)) return value.map(toFirestoreData);
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      if (entry !== undefined) result[key] = toFirestoreData(entry);
+    });
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Deep copy that preserves Dates, used by the in-memory repositories
+ */
+export function cloneData<T>(value: T): T {
+  if (value instanceof Date) return new Date(value.getTime()) as T;
+  if (Array.isArray(value)) return value.map(cloneData) as T;
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      result[key] = cloneData(entry);
+    });
+    return result as T;
+  }
+  return value;
+}
+
+export function fromFirestoreData(value: unknown): unknown {
+  if (value instanceof Timestamp) return value.toDate();
+  if (Array.isArray(value)) return value.map(fromFirestoreData);
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, entry]) => {
+      result[key] = fromFirestoreData(entry);
+    });
+    return result;
+  }
+  return value;
+}
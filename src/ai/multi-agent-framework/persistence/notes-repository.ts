@@ -0,0 +1,525 @@
+/**
+ * @fileOverview Persistence layer for smart notes, collections and study sessions
+ */
+
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  startAfter,
+  getCountFromServer,
+  Firestore,
+  Timestamp,
+  QueryConstraint
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { toFirestoreData, fromFirestoreData, cloneData } from './firestore-serialization';
+import type {
+  SmartNote,
+  NotesCollection,
+  StudySession,
+  NotesSearchQuery
+} from '../notes/smart-notes-system';
+
+export interface NotesPage {
+  notes: SmartNote[];
+  nextCursor: string | null;
+}
+
+export interface NotesPageOptions {
+  cursor?: string | null;
+  pageSize?: number;
+}
+
+export interface NotesRepository {
+  saveNote(note: SmartNote): Promise<void>;
+  getNote(userId: string, noteId: string): Promise<SmartNote | null>;
+  queryNotes(userId: string, searchQuery: NotesSearchQuery, options?: NotesPageOptions): Promise<NotesPage>;
+  countNotes(userId: string, searchQuery: NotesSearchQuery): Promise<number>;
+  saveCollection(notesCollection: NotesCollection): Promise<void>;
+  getCollections(userId: string): Promise<NotesCollection[]>;
+  saveStudySession(session: StudySession): Promise<void>;
+  getStudySessions(userId: string, maxResults?: number): Promise<StudySession[]>;
+}
+
+/**
+ * Field a query is ordered by. Shared by every backend so cursors stay stable
+ * regardless of where the notes are stored.
+ */
+export interface NotesOrdering {
+  field: 'updated' | 'created' | 'metadata.importance' | 'metadata.masteryLevel' | 'revisionData.nextReview';
+  direction: 'asc' | 'desc';
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+// Firestore caps array-contains-any at 30 values
+const MAX_ARRAY_CONTAINS_VALUES = 30;
+
+export function resolveNotesOrdering(searchQuery: NotesSearchQuery): NotesOrdering {
+  // A range filter must be the first ordering in Firestore, so it wins over sortBy
+  if (searchQuery.needsReview || searchQuery.dueBefore) {
+    return { field: 'revisionData.nextReview', direction: 'asc' };
+  }
+  if (searchQuery.masteryLevel) {
+    return { field: 'metadata.masteryLevel', direction: 'desc' };
+  }
+
+  switch (searchQuery.sortBy) {
+    case 'created':
+      return { field: 'created', direction: 'desc' };
+    case 'importance':
+      return { field: 'metadata.importance', direction: 'desc' };
+    case 'mastery':
+      return { field: 'metadata.masteryLevel', direction: 'desc' };
+    default:
+      return { field: 'updated', direction: 'desc' };
+  }
+}
+
+export function getDueDate(searchQuery: NotesSearchQuery, now: Date = new Date()): Date | null {
+  if (searchQuery.dueBefore) return searchQuery.dueBefore;
+  return searchQuery.needsReview ? now : null;
+}
+
+/**
+ * In-memory predicate for a search query. Backends use it for any filter they
+ * cannot push down to their query engine.
+ */
+export function matchesNotesQuery(note: SmartNote, searchQuery: NotesSearchQuery, now: Date = new Date()): boolean {
+  if (searchQuery.text) {
+    const searchText = searchQuery.text.toLowerCase();
+    if (!note.title.toLowerCase().includes(searchText) &&
+        !note.content.toLowerCase().includes(searchText)) {
+      return false;
+    }
+  }
+
+  if (searchQuery.topics && searchQuery.topics.length > 0) {
+    if (!searchQuery.topics.some(topic => note.tags.syllabusTags.includes(topic))) {
+      return false;
+    }
+  }
+
+  if (searchQuery.tags && searchQuery.tags.length > 0) {
+    const noteTags = [...note.tags.conceptTags, ...note.tags.customTags, ...note.tags.autoTags];
+    if (!searchQuery.tags.some(tag => noteTags.includes(tag))) {
+      return false;
+    }
+  }
+
+  if (searchQuery.type && searchQuery.type.length > 0) {
+    if (!searchQuery.type.includes(note.type)) {
+      return false;
+    }
+  }
+
+  const ranges: Array<[[number, number] | undefined, number]> = [
+    [searchQuery.difficulty, note.metadata.difficulty],
+    [searchQuery.importance, note.metadata.importance],
+    [searchQuery.masteryLevel, note.metadata.masteryLevel]
+  ];
+  for (const [range, value] of ranges) {
+    if (range && (value < range[0] || value > range[1])) {
+      return false;
+    }
+  }
+
+  if (searchQuery.dateRange) {
+    const [start, end] = searchQuery.dateRange;
+    if (note.created < start || note.created > end) {
+      return false;
+    }
+  }
+
+  const dueDate = getDueDate(searchQuery, now);
+  if (dueDate && note.revisionData.nextReview > dueDate) {
+    return false;
+  }
+
+  if (searchQuery.hasConnections) {
+    if (note.connections.relatedNotes.length === 0 && note.connections.relatedTopics.length === 0) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+function getOrderingValue(note: SmartNote, ordering: NotesOrdering): number {
+  switch (ordering.field) {
+    case 'created':
+      return note.created.getTime();
+    case 'metadata.importance':
+      return note.metadata.importance;
+    case 'metadata.masteryLevel':
+      return note.metadata.masteryLevel;
+    case 'revisionData.nextReview':
+      return note.revisionData.nextReview.getTime();
+    default:
+      return note.updated.getTime();
+  }
+}
+
+// Cursors encode the last note's ordering value and id, so pages never skip or repeat notes
+interface NotesCursor {
+  value: number;
+  id: string;
+}
+
+export function encodeNotesCursor(note: SmartNote, ordering: NotesOrdering): string {
+  return `${getOrderingValue(note, ordering)}:${note.id}`;
+}
+
+export function decodeNotesCursor(cursor: string): NotesCursor {
+  const separator = cursor.indexOf(':');
+  const value = Number(cursor.slice(0, separator));
+  const id = cursor.slice(separator + 1);
+  if (separator <= 0 || Number.isNaN(value) || !id) {
+    throw new Error(`Invalid notes cursor: ${cursor}`);
+  }
+  return { value, id };
+}
+
+// Plain code-unit comparison, matching how Firestore orders string fields
+function compareIds(a: string, b: string): number {
+  if (a === b) return 0;
+  return a < b ? -1 : 1;
+}
+
+function compareNotes(a: SmartNote, b: SmartNote, ordering: NotesOrdering): number {
+  const sign = ordering.direction === 'asc' ? 1 : -1;
+  const valueDiff = getOrderingValue(a, ordering) - getOrderingValue(b, ordering);
+  if (valueDiff !== 0) return sign * valueDiff;
+  return sign * compareIds(a.id, b.id);
+}
+
+function isAfterCursor(note: SmartNote, cursor: NotesCursor, ordering: NotesOrdering): boolean {
+  const sign = ordering.direction === 'asc' ? 1 : -1;
+  const valueDiff = getOrderingValue(note, ordering) - cursor.value;
+  if (valueDiff !== 0) return sign * valueDiff > 0;
+  return sign * compareIds(note.id, cursor.id) > 0;
+}
+
+/**
+ * Firestore-backed repository. Data lives in per-user subcollections:
+ * users/{userId}/smartNotes, users/{userId}/notesCollections and users/{userId}/studySessions.
+ */
+export class FirestoreNotesRepository implements NotesRepository {
+  private readonly COLLECTIONS = {
+    USERS: 'users',
+    NOTES: 'smartNotes',
+    NOTES_COLLECTIONS: 'notesCollections',
+    STUDY_SESSIONS: 'studySessions'
+  };
+
+  constructor(private readonly firestore: Firestore | undefined = db) {}
+
+  async saveNote(note: SmartNote): Promise<void> {
+    try {
+      await setDoc(
+        doc(this.getDb(), this.COLLECTIONS.USERS, note.userId, this.COLLECTIONS.NOTES, note.id),
+        toFirestoreData(note) as Record<string, unknown>
+      );
+    } catch (error) {
+      console.error('Failed to save note:', error);
+      throw new Error(`Database save failed: ${error}`);
+    }
+  }
+
+  async getNote(userId: string, noteId: string): Promise<SmartNote | null> {
+    try {
+      const noteDoc = await getDoc(
+        doc(this.getDb(), this.COLLECTIONS.USERS, userId, this.COLLECTIONS.NOTES, noteId)
+      );
+      return noteDoc.exists() ? fromFirestoreData(noteDoc.data()) as SmartNote : null;
+    } catch (error) {
+      console.error('Failed to get note:', error);
+      throw new Error(`Database query failed: ${error}`);
+    }
+  }
+
+  async queryNotes(
+    userId: string,
+    searchQuery: NotesSearchQuery,
+    options: NotesPageOptions = {}
+  ): Promise<NotesPage> {
+    const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+    const ordering = resolveNotesOrdering(searchQuery);
+    const constraints = this.buildConstraints(searchQuery, ordering);
+    const now = new Date();
+    const notes: SmartNote[] = [];
+    let cursor = options.cursor ? decodeNotesCursor(options.cursor) : null;
+
+    try {
+      // Filters that cannot be indexed are applied after each batch, so keep
+      // fetching until the page is full or the collection is exhausted
+      while (notes.length < pageSize) {
+        const batchSize = pageSize * 2;
+        const batchConstraints = [...constraints];
+        if (cursor) {
+          batchConstraints.push(startAfter(this.toCursorValue(cursor.value, ordering), cursor.id));
+        }
+        batchConstraints.push(limit(batchSize));
+
+        const snapshot = await getDocs(query(this.notesRef(userId), ...batchConstraints));
+        const batch = snapshot.docs.map(noteDoc => fromFirestoreData(noteDoc.data()) as SmartNote);
+
+        for (const note of batch) {
+          cursor = { value: getOrderingValue(note, ordering), id: note.id };
+          if (matchesNotesQuery(note, searchQuery, now)) {
+            notes.push(note);
+            if (notes.length === pageSize) break;
+          }
+        }
+
+        if (batch.length < batchSize && notes.length < pageSize) {
+          return { notes, nextCursor: null };
+        }
+      }
+
+      return {
+        notes,
+        nextCursor: notes.length > 0 ? encodeNotesCursor(notes[notes.length - 1], ordering) : null
+      };
+    } catch (error) {
+      console.error('Failed to query notes:', error);
+      throw new Error(`Database query failed: ${error}`);
+    }
+  }
+
+  async countNotes(userId: string, searchQuery: NotesSearchQuery): Promise<number> {
+    if (!this.hasResidualFilters(searchQuery)) {
+      try {
+        const ordering = resolveNotesOrdering(searchQuery);
+        const snapshot = await getCountFromServer(
+          query(this.notesRef(userId), ...this.buildConstraints(searchQuery, ordering))
+        );
+        return snapshot.data().count;
+      } catch (error) {
+        console.error('Failed to count notes:', error);
+        throw new Error(`Database query failed: ${error}`);
+      }
+    }
+
+    let count = 0;
+    let cursor: string | null = null;
+    do {
+      const page: NotesPage = await this.queryNotes(userId, searchQuery, { cursor, pageSize: 200 });
+      count += page.notes.length;
+      cursor = page.nextCursor;
+    } while (cursor);
+    return count;
+  }
+
+  async saveCollection(notesCollection: NotesCollection): Promise<void> {
+    try {
+      await setDoc(
+        doc(this.getDb(), this.COLLECTIONS.USERS, notesCollection.userId, this.COLLECTIONS.NOTES_COLLECTIONS, notesCollection.id),
+        toFirestoreData(notesCollection) as Record<string, unknown>
+      );
+    } catch (error) {
+      console.error('Failed to save notes collection:', error);
+      throw new Error(`Database save failed: ${error}`);
+    }
+  }
+
+  async getCollections(userId: string): Promise<NotesCollection[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(this.getDb(), this.COLLECTIONS.USERS, userId, this.COLLECTIONS.NOTES_COLLECTIONS),
+        orderBy('updated', 'desc')
+      ));
+      return snapshot.docs.map(collectionDoc => fromFirestoreData(collectionDoc.data()) as NotesCollection);
+    } catch (error) {
+      console.error('Failed to get notes collections:', error);
+      throw new Error(`Database query failed: ${error}`);
+    }
+  }
+
+  async saveStudySession(session: StudySession): Promise<void> {
+    try {
+      await setDoc(
+        doc(this.getDb(), this.COLLECTIONS.USERS, session.userId, this.COLLECTIONS.STUDY_SESSIONS, session.id),
+        toFirestoreData(session) as Record<string, unknown>
+      );
+    } catch (error) {
+      console.error('Failed to save study session:', error);
+      throw new Error(`Database save failed: ${error}`);
+    }
+  }
+
+  async getStudySessions(userId: string, maxResults: number = 500): Promise<StudySession[]> {
+    try {
+      const snapshot = await getDocs(query(
+        collection(this.getDb(), this.COLLECTIONS.USERS, userId, this.COLLECTIONS.STUDY_SESSIONS),
+        orderBy('timestamp', 'desc'),
+        limit(maxResults)
+      ));
+      return snapshot.docs.map(sessionDoc => fromFirestoreData(sessionDoc.data()) as StudySession);
+    } catch (error) {
+      console.error('Failed to get study sessions:', error);
+      throw new Error(`Database query failed: ${error}`);
+    }
+  }
+
+  private getDb(): Firestore {
+    if (!this.firestore) {
+      throw new Error('Firestore is not initialized');
+    }
+    return this.firestore;
+  }
+
+  private notesRef(userId: string) {
+    return collection(this.getDb(), this.COLLECTIONS.USERS, userId, this.COLLECTIONS.NOTES);
+  }
+
+  /**
+   * Pushes the indexable part of a query down to Firestore (see firestore.indexes.json).
+   * Topic and type filters can't be combined in one Firestore query, so type
+   * falls back to in-memory filtering when topics are present.
+   */
+  private buildConstraints(searchQuery: NotesSearchQuery, ordering: NotesOrdering): QueryConstraint[] {
+    const constraints: QueryConstraint[] = [];
+
+    if (this.canIndexTopics(searchQuery)) {
+      constraints.push(where('tags.syllabusTags', 'array-contains-any', searchQuery.topics));
+    } else if (searchQuery.type && searchQuery.type.length > 0) {
+      constraints.push(where('type', 'in', searchQuery.type));
+    }
+
+    const dueDate = getDueDate(searchQuery);
+    if (dueDate) {
+      constraints.push(where('revisionData.nextReview', '<=', Timestamp.fromDate(dueDate)));
+    } else if (searchQuery.masteryLevel) {
+      constraints.push(where('metadata.masteryLevel', '>=', searchQuery.masteryLevel[0]));
+      constraints.push(where('metadata.masteryLevel', '<=', searchQuery.masteryLevel[1]));
+    }
+
+    constraints.push(orderBy(ordering.field, ordering.direction));
+    constraints.push(orderBy('id', ordering.direction));
+    return constraints;
+  }
+
+  private canIndexTopics(searchQuery: NotesSearchQuery): searchQuery is NotesSearchQuery & { topics: string[] } {
+    return !!searchQuery.topics &&
+      searchQuery.topics.length > 0 &&
+      searchQuery.topics.length <= MAX_ARRAY_CONTAINS_VALUES;
+  }
+
+  // True when some filter has to be evaluated in memory rather than by Firestore
+  private hasResidualFilters(searchQuery: NotesSearchQuery): boolean {
+    const hasTopics = !!searchQuery.topics && searchQuery.topics.length > 0;
+    const hasTypes = !!searchQuery.type && searchQuery.type.length > 0;
+    const hasDueDate = !!getDueDate(searchQuery);
+
+    return !!searchQuery.text ||
+      (hasTopics && !this.canIndexTopics(searchQuery)) ||
+      (hasTopics && hasTypes) ||
+      (hasDueDate && !!searchQuery.masteryLevel) ||
+      (!!searchQuery.tags && searchQuery.tags.length > 0) ||
+      !!searchQuery.difficulty ||
+      !!searchQuery.importance ||
+      !!searchQuery.dateRange ||
+      !!searchQuery.hasConnections;
+  }
+
+  private toCursorValue(value: number, ordering: NotesOrdering): number | Timestamp {
+    const isDateField = ordering.field === 'created' ||
+      ordering.field === 'updated' ||
+      ordering.field === 'revisionData.nextReview';
+    return isDateField ? Timestamp.fromMillis(value) : value;
+  }
+}
+
+/**
+ * In-memory repository used in tests and local development without Firestore.
+ * Notes are deep-copied on the way in and out, mirroring a real database.
+ */
+export class InMemoryNotesRepository implements NotesRepository {
+  private notes = new Map<string, Map<string, SmartNote>>();
+  private collections = new Map<string, Map<string, NotesCollection>>();
+  private sessions = new Map<string, StudySession[]>();
+
+  async saveNote(note: SmartNote): Promise<void> {
+    this.getUserMap(this.notes, note.userId).set(note.id, cloneData(note));
+  }
+
+  async getNote(userId: string, noteId: string): Promise<SmartNote | null> {
+    const note = this.notes.get(userId)?.get(noteId);
+    return note ? cloneData(note) : null;
+  }
+
+  async queryNotes(
+    userId: string,
+    searchQuery: NotesSearchQuery,
+    options: NotesPageOptions = {}
+  ): Promise<NotesPage> {
+    const pageSize = options.pageSize || DEFAULT_PAGE_SIZE;
+    const ordering = resolveNotesOrdering(searchQuery);
+    const cursor = options.cursor ? decodeNotesCursor(options.cursor) : null;
+    const now = new Date();
+
+    const matching = Array.from(this.notes.get(userId)?.values() || [])
+      .filter(note => matchesNotesQuery(note, searchQuery, now))
+      .sort((a, b) => compareNotes(a, b, ordering))
+      .filter(note => !cursor || isAfterCursor(note, cursor, ordering));
+
+    const page = matching.slice(0, pageSize).map(note => cloneData(note));
+    return {
+      notes: page,
+      nextCursor: matching.length > pageSize ? encodeNotesCursor(page[page.length - 1], ordering) : null
+    };
+  }
+
+  async countNotes(userId: string, searchQuery: NotesSearchQuery): Promise<number> {
+    const now = new Date();
+    return Array.from(this.notes.get(userId)?.values() || [])
+      .filter(note => matchesNotesQuery(note, searchQuery, now))
+      .length;
+  }
+
+  async saveCollection(notesCollection: NotesCollection): Promise<void> {
+    this.getUserMap(this.collections, notesCollection.userId).set(notesCollection.id, cloneData(notesCollection));
+  }
+
+  async getCollections(userId: string): Promise<NotesCollection[]> {
+    return Array.from(this.collections.get(userId)?.values() || [])
+      .sort((a, b) => b.updated.getTime() - a.updated.getTime())
+      .map(notesCollection => cloneData(notesCollection));
+  }
+
+  async saveStudySession(session: StudySession): Promise<void> {
+    const sessions = this.sessions.get(session.userId) || [];
+    sessions.push(cloneData(session));
+    this.sessions.set(session.userId, sessions);
+  }
+
+  async getStudySessions(userId: string, maxResults: number = 500): Promise<StudySession[]> {
+    return (this.sessions.get(userId) || [])
+      .slice()
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, maxResults)
+      .map(session => cloneData(session));
+  }
+
+  clear(): void {
+    this.notes.clear();
+    this.collections.clear();
+    this.sessions.clear();
+  }
+
+  private getUserMap<T>(store: Map<string, Map<string, T>>, userId: string): Map<string, T> {
+    let userMap = store.get(userId);
+    if (!userMap) {
+      userMap = new Map();
+      store.set(userId, userMap);
+    }
+    return userMap;
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * @fileOverview Persistence layer for syllabus progress: study sessions, topic mastery and versioned study plans
+ */
+
+import {
+  collection,
+  doc,
+  setDoc,
+  getDoc,
+  getDocs,
+  query,
+  where,
+  orderBy,
+  limit,
+  runTransaction,
+  Firestore,
+  QueryConstraint
+} from 'firebase/firestore';
+import { db } from '@/lib/firebase';
+import { toFirestoreData, fromFirestoreData, cloneData } from './firestore-serialization';
+import type { StudySession, StudyPlan } from '../tracking/syllabus-progress-tracker';
+
+export interface TopicMasteryRecord {
+  topicId: string;
+  masteryLevel: number;
+  updatedAt: Date;
+}
+
+export interface StudyPlanVersionSummary {
+  id: string;
+  version: number;
+  generatedAt: Date;
+  targetDate: Date;
+  replanReason?: string;
+}
+
+export interface ProgressRepository {
+  saveStudySession(session: StudySession): Promise<void>;
+  getStudySessions(userId: string, options?: { topicId?: string; maxResults?: number }): Promise<StudySession[]>;
+  saveTopicMastery(userId: string, record: TopicMasteryRecord): Promise<void>;
+  getTopicMastery(userId: string): Promise<Record<string, TopicMasteryRecord>>;
+  /** Stores the plan as the user's next version and returns the version number */
+  saveStudyPlan(plan: StudyPlan): Promise<number>;
+  getLatestStudyPlan(userId: string): Promise<StudyPlan | null>;
+  getStudyPlan(userId: string, version: number): Promise<StudyPlan | null>;
+  listStudyPlanVersions(userId: string, maxResults?: number): Promise<StudyPlanVersionSummary[]>;
+}
+
+const DEFAULT_MAX_SESSIONS = 1000;
+const DEFAULT_MAX_VERSIONS = 20;
+
+function summarizePlan(plan: StudyPlan): StudyPlanVersionSummary {
+  return {
+    id: plan.id,
+    version: plan.version,
+    generatedAt: plan.generatedAt,
+    targetDate: plan.targetDate,
+    replanReason: plan.replanReason
+  };
+}
+
+// Zero-padded so document ids sort in version order
+function versionDocId(version: number): string {
+  return String(version).padStart(6, '0');
+}
+
+/**
+ * Firestore-backed repository. Data lives in per-user subcollections:
+ * users/{userId}/syllabusSessions, users/{userId}/topicMastery and
+ * users/{userId}/studyPlans, with the latest plan version tracked in
+ * users/{userId}/counters/studyPlans.
+ */
+export class FirestoreProgressRepository implements ProgressRepository {
+  private readonly COLLECTIONS = {
+    USERS: 'users',
+    SESSIONS: 'syllabusSessions',
+    TOPIC_MASTERY: 'topicMastery',
+    STUDY_PLANS: 'studyPlans',
+    COUNTERS: 'counters'
+  };
+
+  constructor(private readonly firestore: Firestore | undefined = db) {}
+
+  async saveStudySession(session: StudySession): Promise<void> {
+    try {
+      await setDoc(
+        doc(this.getDb(), this.COLLECTIONS.USERS, session.userId, this.COLLECTIONS.SESSIONS, session.id),
+        toFirestoreData(session) as Record<string, unknown>
+      );
+    } catch (error) {
+      console.error('Failed to save study session:', error);
+      throw new Error(`Database save failed: ${error}`);
+    }
+  }
+
+  async getStudySessions(
+    userId: string,
+    options: { topicId?: string; maxResults?: number } = {}
+  ): Promise<StudySession[]> {
+    try {
+      const constraints: QueryConstraint[] = [];
+      if (options.topicId) {
+        constraints.push(where('topicId', '==', options.topicId));
+      }
+      constraints.push(orderBy('timestamp', 'desc'), limit(options.maxResults || DEFAULT_MAX_SESSIONS));
+
+      const snapshot = await getDocs(query(
+        collection(this.getDb(), this.COLLECTIONS.USERS, userId, this.COLLECTIONS.SESSIONS),
+        ...constraints
+      ));
+      return snapshot.docs.map(sessionDoc => fromFirestoreData(sessionDoc.data()) as StudySession);
+    } catch (error) {
+      console.error('Failed to get study sessions:', error);
+      throw new Error(`Database query failed: ${error}`);
+    }
+  }
+
+  async saveTopicMastery(userId: string, record: TopicMasteryRecord): Promise<void> {
+    try {
+      await setDoc(
+        doc(this.getDb(), this.COLLECTIONS.USERS, userId, this.COLLECTIONS.TOPIC_MASTERY, record.topicId),
+        toFirestoreData(record) as Record<string, unknown>
+      );
+    } catch (error) {
+      console.error('Failed to save topic mastery:', error);
+      throw new Error(`Database save failed: ${error}`);
+    }
+  }
+
+  async getTopicMastery(userId: string): Promise<Record<string, TopicMasteryRecord>> {
+    try {
+      const snapshot = await getDocs(
+        collection(this.getDb(), this.COLLECTIONS.USERS, userId, this.COLLECTIONS.TOPIC_MASTERY)
+      );
+      const records: Record<string, TopicMasteryRecord> = {};
+      snapshot.docs.forEach(masteryDoc => {
+        const record = fromFirestoreData(masteryDoc.data()) as TopicMasteryRecord;
+        records[record.topicId] = record;
+      });
+      return records;
+    } catch (error) {
+      console.error('Failed to get topic mastery:', error);
+      throw new Error(`Database query failed: ${error}`);
+    }
+  }
+
+  async saveStudyPlan(plan: StudyPlan): Promise<number> {
+    const firestore = this.getDb();
+    const counterRef = doc(firestore, this.COLLECTIONS.USERS, plan.userId, this.COLLECTIONS.COUNTERS, this.COLLECTIONS.STUDY_PLANS);
+
+    try {
+      // The counter read and plan write share a transaction so concurrent
+      // re-plans can never claim the same version
+      return await runTransaction(firestore, async transaction => {
+        const counter = await transaction.get(counterRef);
+        const version = (counter.exists() ? counter.data().latestVersion as number : 0) + 1;
+
+        transaction.set(
+          doc(firestore, this.COLLECTIONS.USERS, plan.userId, this.COLLECTIONS.STUDY_PLANS, versionDocId(version)),
+          toFirestoreData({ ...plan, version }) as Record<string, unknown>
+        );
+        transaction.set(counterRef, { latestVersion: version });
+        return version;
+      });
+    } catch (error) {
+      console.error('Failed to save study plan:', error);
+      throw new Error(`Database save failed: ${error}`);
+    }
+  }
+
+  async getLatestStudyPlan(userId: string): Promise<StudyPlan | null> {
+    try {
+      const snapshot = await getDocs(query(this.plansRef(userId), orderBy('version', 'desc'), limit(1)));
+      return snapshot.empty ? null : fromFirestoreData(snapshot.docs[0].data()) as StudyPlan;
+    } catch (error) {
+      console.error('Failed to get study plan:', error);
+      throw new Error(`Database query failed: ${error}`);
+    }
+  }
+
+  async getStudyPlan(userId: string, version: number): Promise<StudyPlan | null> {
+    try {
+      const planDoc = await getDoc(doc(this.plansRef(userId), versionDocId(version)));
+      return planDoc.exists() ? fromFirestoreData(planDoc.data()) as StudyPlan : null;
+    } catch (error) {
+      console.error('Failed to get study plan:', error);
+      throw new Error(`Database query failed: ${error}`);
+    }
+  }
+
+  async listStudyPlanVersions(userId: string, maxResults: number = DEFAULT_MAX_VERSIONS): Promise<StudyPlanVersionSummary[]> {
+    try {
+      const snapshot = await getDocs(query(this.plansRef(userId), orderBy('version', 'desc'), limit(maxResults)));
+      return snapshot.docs.map(planDoc => summarizePlan(fromFirestoreData(planDoc.data()) as StudyPlan));
+    } catch (error) {
+      console.error('Failed to list study plans:', error);
+      throw new Error(`Database query failed: ${error}`);
+    }
+  }
+
+  private getDb(): Firestore {
+    if (!this.firestore) {
+      throw new Error('Firestore is not initialized');
+    }
+    return this.firestore;
+  }
+
+  private plansRef(userId: string) {
+    return collection(this.getDb(), this.COLLECTIONS.USERS, userId, this.COLLECTIONS.STUDY_PLANS);
+  }
+}
+
+/**
+ * In-memory repository used in tests and local development without Firestore
+ */
+export class InMemoryProgressRepository implements ProgressRepository {
+  private sessions = new Map<string, StudySession[]>();
+  private mastery = new Map<string, Record<string, TopicMasteryRecord>>();
+  private plans = new Map<string, StudyPlan[]>();
+
+  async saveStudySession(session: StudySession): Promise<void> {
+    const sessions = (this.sessions.get(session.userId) || []).filter(existing => existing.id !== session.id);
+    sessions.push(cloneData(session));
+    this.sessions.set(session.userId, sessions);
+  }
+
+  async getStudySessions(
+    userId: string,
+    options: { topicId?: string; maxResults?: number } = {}
+  ): Promise<StudySession[]> {
+    return (this.sessions.get(userId) || [])
+      .filter(session => !options.topicId || session.topicId === options.topicId)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .slice(0, options.maxResults || DEFAULT_MAX_SESSIONS)
+      .map(session => cloneData(session));
+  }
+
+  async saveTopicMastery(userId: string, record: TopicMasteryRecord): Promise<void> {
+    this.mastery.set(userId, { ...(this.mastery.get(userId) || {}), [record.topicId]: cloneData(record) });
+  }
+
+  async getTopicMastery(userId: string): Promise<Record<string, TopicMasteryRecord>> {
+    return cloneData(this.mastery.get(userId) || {});
+  }
+
+  async saveStudyPlan(plan: StudyPlan): Promise<number> {
+    const plans = this.plans.get(plan.userId) || [];
+    const version = plans.length > 0 ? plans[plans.length - 1].version + 1 : 1;
+    plans.push(cloneData({ ...plan, version }));
+    this.plans.set(plan.userId, plans);
+    return version;
+  }
+
+  async getLatestStudyPlan(userId: string): Promise<StudyPlan | null> {
+    const plans = this.plans.get(userId) || [];
+    return plans.length > 0 ? cloneData(plans[plans.length - 1]) : null;
+  }
+
+  async getStudyPlan(userId: string, version: number): Promise<StudyPlan | null> {
+    const plan = (this.plans.get(userId) || []).find(existing => existing.version === version);
+    return plan ? cloneData(plan) : null;
+  }
+
+  async listStudyPlanVersions(userId: string, maxResults: number = DEFAULT_MAX_VERSIONS): Promise<StudyPlanVersionSummary[]> {
+    return (this.plans.get(userId) || [])
+      .slice()
+      .reverse()
+      .slice(0, maxResults)
+      .map(plan => summarizePlan(cloneData(plan)));
+  }
+
+  clear(): void {
+    this.sessions.clear();
+    this.mastery.clear();
+    this.plans.clear();
+  }
+}
@@ -0,0 +1,406 @@
+/**
+ * @fileOverview Storage backends for the response cache and rate limiter
+ *
+ * Every backend offers the same two primitives: string values with an expiry
+ * (the response cache) and sliding-window usage logs (the rate limiter). The
+ * backend is chosen by configuration, so the framework runs without Redis.
+ */
+
+import { getApps, initializeApp, cert } from 'firebase-admin/app';
+import { getFirestore, Timestamp, type Firestore } from 'firebase-admin/firestore';
+import type { Redis } from 'ioredis';
+
+export const STORAGE_BACKEND_TYPES = ['memory', 'redis', 'firestore'] as const;
+
+export type StorageBackendType = typeof STORAGE_BACKEND_TYPES[number];
+
+export interface UsageAmounts {
+  requests: number;
+  tokens: number;
+  cost: number;
+}
+
+export interface WindowUsage extends UsageAmounts {
+  oldestAt: number | null; // earliest usage still inside the window, in ms
+}
+
+export interface StorageBackend {
+  readonly type: StorageBackendType;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  // Removes values and usage logs; returns how many keys existed
+  delete(keys: string[]): Promise<number>;
+  // Live value and usage keys matching a glob where `*` matches any run of characters
+  keys(pattern: string): Promise<string[]>;
+  addUsage(key: string, usage: UsageAmounts, windowMs: number, now?: number): Promise<void>;
+  // Usage recorded in (now - windowMs, now]
+  getUsage(key: string, windowMs: number, now?: number): Promise<WindowUsage>;
+  // Drops expired entries the backend does not expire by itself; returns how many were removed
+  purgeExpired(): Promise<number>;
+  close(): Promise<void>;
+}
+
+export interface StorageBackendConfig {
+  type?: StorageBackendType;
+  redisUrl?: string;
+  firestore?: Firestore;
+  maxEntries?: number; // in-memory LRU capacity for values
+}
+
+interface UsageEvent extends UsageAmounts {
+  at: number;
+}
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+  return new RegExp(`^${escaped.join('.*')}$`);
+}
+
+function sumUsage(events: UsageEvent[]): WindowUsage {
+  return events.reduce<WindowUsage>(
+    (total, event) => ({
+      requests: total.requests + event.requests,
+      tokens: total.tokens + event.tokens,
+      cost: total.cost + event.cost,
+      oldestAt: total.oldestAt === null ? event.at : Math.min(total.oldestAt, event.at)
+    }),
+    { requests: 0, tokens: 0, cost: 0, oldestAt: null }
+  );
+}
+
+function inWindow(events: UsageEvent[], windowMs: number, now: number): UsageEvent[] {
+  return events.filter(event => event.at > now - windowMs && event.at <= now);
+}
+
+/**
+ * Process-local backend used in tests, local development and single-instance
+ * deployments. Values are evicted least recently used first once `maxEntries`
+ * is reached; usage logs are trimmed to their window on every write.
+ */
+export class InMemoryStorageBackend implements StorageBackend {
+  readonly type = 'memory' as const;
+  private values = new Map<string, { value: string; expiresAt: number }>();
+  private usage = new Map<string, { events: UsageEvent[]; expiresAt: number }>();
+
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_ENTRIES) {}
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.values.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+      this.values.delete(key);
+      return null;
+    }
+
+    // Re-insert so Map order tracks recency
+    this.values.delete(key);
+    this.values.set(key, entry);
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.values.delete(key);
+    this.values.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+
+    while (this.values.size > this.maxEntries) {
+      this.values.delete(this.values.keys().next().value as string);
+    }
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    const now = Date.now();
+    return keys.filter(key => {
+      const live = (this.values.get(key)?.expiresAt ?? 0) > now || (this.usage.get(key)?.expiresAt ?? 0) > now;
+      this.values.delete(key);
+      this.usage.delete(key);
+      return live;
+    }).length;
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const matcher = globToRegExp(pattern);
+    const now = Date.now();
+    const live = new Set<string>();
+
+    this.values.forEach((entry, key) => entry.expiresAt > now && live.add(key));
+    this.usage.forEach((entry, key) => entry.expiresAt > now && live.add(key));
+    return Array.from(live).filter(key => matcher.test(key));
+  }
+
+  async addUsage(key: string, usage: UsageAmounts, windowMs: number, now: number = Date.now()): Promise<void> {
+    const events = inWindow(this.usage.get(key)?.events || [], windowMs, now);
+    events.push({ ...usage, at: now });
+    this.usage.set(key, { events, expiresAt: now + windowMs });
+  }
+
+  async getUsage(key: string, windowMs: number, now: number = Date.now()): Promise<WindowUsage> {
+    return sumUsage(inWindow(this.usage.get(key)?.events || [], windowMs, now));
+  }
+
+  async purgeExpired(): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+
+    [this.values, this.usage].forEach(entries => {
+      entries.forEach((entry, key) => {
+        if (entry.expiresAt <= now) {
+          entries.delete(key);
+          removed++;
+        }
+      });
+    });
+    return removed;
+  }
+
+  async close(): Promise<void> {
+    this.values.clear();
+    this.usage.clear();
+  }
+}
+
+/**
+ * Redis backend. Usage logs are sorted sets scored by time, so concurrent
+ * instances share one window. ioredis is loaded on first use, keeping it an
+ * optional dependency.
+ */
+export class RedisStorageBackend implements StorageBackend {
+  readonly type = 'redis' as const;
+  private client: Promise<Redis> | null = null;
+
+  constructor(private readonly redisUrl: string = process.env.REDIS_URL || 'redis://localhost:6379') {}
+
+  async get(key: string): Promise<string | null> {
+    return (await this.getClient()).get(key);
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await (await this.getClient()).set(key, value, 'EX', Math.max(1, Math.ceil(ttlSeconds)));
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    if (keys.length === 0) return 0;
+    return (await this.getClient()).del(...keys);
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    return (await this.getClient()).keys(pattern);
+  }
+
+  async addUsage(key: string, usage: UsageAmounts, windowMs: number, now: number = Date.now()): Promise<void> {
+    // Members must be unique, so each carries a random suffix after its amounts
+    const member = `${usage.requests}:${usage.tokens}:${usage.cost}:${Math.random().toString(36).slice(2, 10)}`;
+
+    await (await this.getClient())
+      .multi()
+      .zremrangebyscore(key, 0, now - windowMs)
+      .zadd(key, now, member)
+      .pexpire(key, windowMs)
+      .exec();
+  }
+
+  async getUsage(key: string, windowMs: number, now: number = Date.now()): Promise<WindowUsage> {
+    const entries = await (await this.getClient()).zrangebyscore(key, `(${now - windowMs}`, now, 'WITHSCORES');
+
+    const events: UsageEvent[] = [];
+    for (let i = 0; i < entries.length; i += 2) {
+      const [requests, tokens, cost] = entries[i].split(':').map(Number);
+      events.push({ requests, tokens, cost, at: Number(entries[i + 1]) });
+    }
+    return sumUsage(events);
+  }
+
+  // Keys carry their own expiry in Redis
+  async purgeExpired(): Promise<number> {
+    return 0;
+  }
+
+  async close(): Promise<void> {
+    if (this.client) {
+      await (await this.client).quit();
+      this.client = null;
+    }
+  }
+
+  private getClient(): Promise<Redis> {
+    if (!this.client) {
+      this.client = import('ioredis').then(({ Redis: RedisClient }) => new RedisClient(this.redisUrl));
+    }
+    return this.client;
+  }
+}
+
+function getAdminDb(): Firestore {
+  if (!getApps().length) {
+    initializeApp({
+      credential: cert({
+        projectId: process.env.FIREBASE_PROJECT_ID!,
+        clientEmail: process.env.FIREBASE_CLIENT_EMAIL!,
+        privateKey: process.env.FIREBASE_PRIVATE_KEY!.replace(/\\n/g, '\n'),
+      }),
+    });
+  }
+  return getFirestore();
+}
+
+/**
+ * Firestore backend for deployments without Redis that still run several
+ * instances. Values and usage logs are documents keyed by the encoded key;
+ * `expiresAt` can also drive a Firestore TTL policy. Runs on the server with
+ * the Admin SDK; the security rules keep both collections closed to clients.
+ */
+export class FirestoreStorageBackend implements StorageBackend {
+  readonly type = 'firestore' as const;
+  private readonly COLLECTIONS = {
+    VALUES: 'agentCacheEntries',
+    USAGE: 'agentRateLimits'
+  };
+  private firestore: Firestore | null;
+
+  constructor(firestore?: Firestore) {
+    this.firestore = firestore ?? null;
+  }
+
+  async get(key: string): Promise<string | null> {
+    const snapshot = await this.docRef(this.COLLECTIONS.VALUES, key).get();
+    const data = snapshot.data();
+    if (!data || this.isExpired(data.expiresAt)) return null;
+    return data.value as string;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.docRef(this.COLLECTIONS.VALUES, key).set({
+      key,
+      value,
+      expiresAt: Timestamp.fromMillis(Date.now() + ttlSeconds * 1000)
+    });
+  }
+
+  async delete(keys: string[]): Promise<number> {
+    if (keys.length === 0) return 0;
+    const refs = keys.flatMap(key => [this.docRef(this.COLLECTIONS.VALUES, key), this.docRef(this.COLLECTIONS.USAGE, key)]);
+    const snapshots = await this.getDb().getAll(...refs);
+
+    const batch = this.getDb().batch();
+    refs.forEach(ref => batch.delete(ref));
+    await batch.commit();
+
+    const existing = new Set(
+      snapshots
+        .filter(snapshot => snapshot.exists && !this.isExpired(snapshot.get('expiresAt')))
+        .map(snapshot => snapshot.get('key') as string)
+    );
+    return existing.size;
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const matcher = globToRegExp(pattern);
+    // Only the part before the first wildcard can be pushed down as a range
+    const prefix = pattern.split('*')[0];
+    const results = await Promise.all(
+      [this.COLLECTIONS.VALUES, this.COLLECTIONS.USAGE].map(name => this.getDb().collection(name)
+        .where('key', '>=', prefix)
+        .where('key', '<', `${prefix}\uf8ff`)
+        .get()
+      )
+    );
+
+    const live = new Set<string>();
+    results.forEach(snapshot => snapshot.docs.forEach(document => {
+      const data = document.data();
+      if (!this.isExpired(data.expiresAt) && matcher.test(data.key)) live.add(data.key);
+    }));
+    return Array.from(live);
+  }
+
+  async addUsage(key: string, usage: UsageAmounts, windowMs: number, now: number = Date.now()): Promise<void> {
+    const ref = this.docRef(this.COLLECTIONS.USAGE, key);
+
+    await this.getDb().runTransaction(async transaction => {
+      const snapshot = await transaction.get(ref);
+      const events = inWindow((snapshot.get('events') as UsageEvent[] | undefined) || [], windowMs, now);
+      events.push({ ...usage, at: now });
+      transaction.set(ref, { key, events, expiresAt: Timestamp.fromMillis(now + windowMs) });
+    });
+  }
+
+  async getUsage(key: string, windowMs: number, now: number = Date.now()): Promise<WindowUsage> {
+    const snapshot = await this.docRef(this.COLLECTIONS.USAGE, key).get();
+    return sumUsage(inWindow((snapshot.get('events') as UsageEvent[] | undefined) || [], windowMs, now));
+  }
+
+  async purgeExpired(): Promise<number> {
+    const expired = await Promise.all(
+      [this.COLLECTIONS.VALUES, this.COLLECTIONS.USAGE].map(name => this.getDb().collection(name)
+        .where('expiresAt', '<=', Timestamp.now())
+        .get()
+      )
+    );
+    const refs = expired.flatMap(snapshot => snapshot.docs.map(document => document.ref));
+
+    // Batches are capped at 500 writes
+    for (let i = 0; i < refs.length; i += 500) {
+      const batch = this.getDb().batch();
+      refs.slice(i, i + 500).forEach(ref => batch.delete(ref));
+      await batch.commit();
+    }
+    return refs.length;
+  }
+
+  async close(): Promise<void> {}
+
+  // The Admin app is set up on first use, so choosing another backend needs no credentials
+  private getDb(): Firestore {
+    if (!this.firestore) {
+      this.firestore = getAdminDb();
+    }
+    return this.firestore;
+  }
+
+  // Document IDs cannot contain `/`
+  private docRef(collectionName: string, key: string) {
+    return this.getDb().collection(collectionName).doc(encodeURIComponent(key));
+  }
+
+  private isExpired(expiresAt: unknown): boolean {
+    return expiresAt instanceof Timestamp && expiresAt.toMillis() <= Date.now();
+  }
+}
+
+/**
+ * Backend named by `type`, else AGENT_STORAGE_BACKEND, else Redis when
+ * REDIS_URL is set and memory otherwise.
+ */
+export function resolveStorageBackendType(
+  type: string | undefined = process.env.AGENT_STORAGE_BACKEND,
+  redisUrl: string | undefined = process.env.REDIS_URL
+): StorageBackendType {
+  if (type && (STORAGE_BACKEND_TYPES as readonly string[]).includes(type)) {
+    return type as StorageBackendType;
+  }
+  return redisUrl ? 'redis' : 'memory';
+}
+
+export function createStorageBackend(config: StorageBackendConfig = {}): StorageBackend {
+  const type = config.type || resolveStorageBackendType(undefined, config.redisUrl ?? process.env.REDIS_URL);
+
+  switch (type) {
+    case 'redis':
+      return new RedisStorageBackend(config.redisUrl);
+    case 'firestore':
+      return new FirestoreStorageBackend(config.firestore);
+    default:
+      return new InMemoryStorageBackend(config.maxEntries);
+  }
+}
+
+let defaultBackend: StorageBackend | null = null;
+
+// Shared by the cache and rate limiter singletons; their key prefixes keep them apart
+export function getDefaultStorageBackend(): StorageBackend {
+  if (!defaultBackend) {
+    defaultBackend = createStorageBackend();
+  }
+  return defaultBackend;
+}
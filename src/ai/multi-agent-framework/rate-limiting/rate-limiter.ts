@@ -1,9 +1,12 @@
 /**
  * @fileOverview Advanced rate limiting for multi-agent framework
+ *
+ * Limits apply over a sliding window: a request counts against the limit for
+ * exactly `windowMs` after it is recorded.
  */
 
-import { Redis } from 'ioredis';
 import { AuthContext } from '../auth/auth-provider';
+import { StorageBackend, getDefaultStorageBackend } from '../persistence/storage-backend';
 
 export interface RateLimitConfig {
   windowMs: number;        // Time window in milliseconds
@@ -32,18 +35,17 @@ export interface RateLimitEntry {
   requests: number;
   tokens: number;
   cost: number;
-  windowStart: number;
-  firstRequestTime: number;
+  windowStart: number;      // now - windowMs
+  firstRequestTime: number; // oldest request still counted, or now
 }
 
 export class RateLimiter {
-  private redis: Redis;
+  private backend: StorageBackend;
   private defaultConfig: RateLimitConfig;
 
-  constructor(redisUrl?: string) {
-    // Initialize Redis connection
-    this.redis = new Redis(redisUrl || process.env.REDIS_URL || 'redis://localhost:6379');
-    
+  constructor(backend?: StorageBackend) {
+    this.backend = backend || getDefaultStorageBackend();
+
     this.defaultConfig = {
       windowMs: 60 * 60 * 1000, // 1 hour
       maxRequests: 100,
@@ -67,11 +69,9 @@ export class RateLimiter {
     const finalConfig = { ...this.defaultConfig, ...config };
     const key = finalConfig.keyGenerator!(authContext);
     const now = Date.now();
-    const windowStart = Math.floor(now / finalConfig.windowMs) * finalConfig.windowMs;
 
     try {
-      // Get current usage from Redis
-      const currentEntry = await this.getCurrentEntry(key, windowStart);
+      const currentEntry = await this.getCurrentEntry(key, finalConfig.windowMs, now);
       
       // Calculate what usage would be after this request
       const newUsage = {
@@ -104,7 +104,8 @@ export class RateLimiter {
         exceeded = costLimit.exceeded;
       }
 
-      const resetTime = new Date(windowStart + finalConfig.windowMs);
+      // Capacity frees up as the oldest counted request leaves the window
+      const resetTime = new Date(currentEntry.firstRequestTime + finalConfig.windowMs);
       const retryAfter = exceeded ? Math.ceil((resetTime.getTime() - now) / 1000) : undefined;
 
       return {
@@ -126,7 +127,7 @@ export class RateLimiter {
       return {
         allowed: true,
         remaining: finalConfig.maxRequests,
-        resetTime: new Date(windowStart + finalConfig.windowMs),
+        resetTime: new Date(now + finalConfig.windowMs),
         limitType: 'requests',
         currentUsage: {
           requests: 0,
@@ -156,11 +157,13 @@ export class RateLimiter {
     }
 
     const key = finalConfig.keyGenerator!(authContext);
-    const now = Date.now();
-    const windowStart = Math.floor(now / finalConfig.windowMs) * finalConfig.windowMs;
 
     try {
-      await this.incrementUsage(key, windowStart, 1, actualTokens, actualCost, finalConfig.windowMs);
+      await this.backend.addUsage(
+        key,
+        { requests: 1, tokens: actualTokens, cost: actualCost },
+        finalConfig.windowMs
+      );
     } catch (error) {
       console.error('Failed to record rate limit usage:', error);
     }
@@ -175,10 +178,8 @@ export class RateLimiter {
   ): Promise<RateLimitEntry> {
     const finalConfig = { ...this.defaultConfig, ...config };
     const key = finalConfig.keyGenerator!(authContext);
-    const now = Date.now();
-    const windowStart = Math.floor(now / finalConfig.windowMs) * finalConfig.windowMs;
 
-    return await this.getCurrentEntry(key, windowStart);
+    return await this.getCurrentEntry(key, finalConfig.windowMs, Date.now());
   }
 
   /**
@@ -192,7 +193,7 @@ export class RateLimiter {
     const key = `rate_limit:${userId}`;
     
     try {
-      await this.redis.del(key);
+      await this.backend.delete([key]);
     } catch (error) {
       console.error('Failed to reset user limits:', error);
     }
@@ -218,7 +219,7 @@ export class RateLimiter {
     try {
       // This would require more sophisticated tracking in production
       // For now, return basic stats
-      const keys = await this.redis.keys('rate_limit:*');
+      const keys = await this.backend.keys('rate_limit:*');
       
       return {
         totalUsers: keys.length,
@@ -245,19 +246,8 @@ export class RateLimiter {
    */
   async cleanup(): Promise<void> {
     try {
-      const keys = await this.redis.keys('rate_limit:*');
-      const now = Date.now();
-      
-      for (const key of keys) {
-        const data = await this.redis.get(key);
-        if (data) {
-          const entry: RateLimitEntry = JSON.parse(data);
-          // Remove entries older than 24 hours
-          if (now - entry.windowStart > 24 * 60 * 60 * 1000) {
-            await this.redis.del(key);
-          }
-        }
-      }
+      // Usage logs expire one window after their last request
+      await this.backend.purgeExpired();
     } catch (error) {
       console.error('Rate limit cleanup failed:', error);
     }
@@ -267,56 +257,16 @@ export class RateLimiter {
    * Private helper methods
    */
 
-  private async getCurrentEntry(key: string, windowStart: number): Promise<RateLimitEntry> {
-    const data = await this.redis.get(key);
-    
-    if (!data) {
-      return {
-        requests: 0,
-        tokens: 0,
-        cost: 0,
-        windowStart,
-        firstRequestTime: Date.now()
-      };
-    }
-
-    const entry: RateLimitEntry = JSON.parse(data);
-    
-    // Check if we're in a new window
-    if (entry.windowStart !== windowStart) {
-      return {
-        requests: 0,
-        tokens: 0,
-        cost: 0,
-        windowStart,
-        firstRequestTime: Date.now()
-      };
-    }
+  private async getCurrentEntry(key: string, windowMs: number, now: number): Promise<RateLimitEntry> {
+    const usage = await this.backend.getUsage(key, windowMs, now);
 
-    return entry;
-  }
-
-  private async incrementUsage(
-    key: string,
-    windowStart: number,
-    requests: number,
-    tokens: number,
-    cost: number,
-    ttlMs: number
-  ): Promise<void> {
-    const currentEntry = await this.getCurrentEntry(key, windowStart);
-    
-    const newEntry: RateLimitEntry = {
-      requests: currentEntry.requests + requests,
-      tokens: currentEntry.tokens + tokens,
-      cost: currentEntry.cost + cost,
-      windowStart,
-      firstRequestTime: currentEntry.firstRequestTime || Date.now()
+    return {
+      requests: usage.requests,
+      tokens: usage.tokens,
+      cost: usage.cost,
+      windowStart: now - windowMs,
+      firstRequestTime: usage.oldestAt ?? now
     };
-
-    // Set with TTL slightly longer than window to handle edge cases
-    const ttlSeconds = Math.ceil(ttlMs / 1000) + 60;
-    await this.redis.setex(key, ttlSeconds, JSON.stringify(newEntry));
   }
 
   private checkLimit(current: number, max: number): { exceeded: boolean; remaining: number } {
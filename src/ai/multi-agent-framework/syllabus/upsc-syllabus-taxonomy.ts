@@ -2,6 +2,8 @@
  * @fileOverview UPSC Syllabus Taxonomy - Comprehensive topic mapping for Mains and Prelims
  */
 
+import { CANONICAL_SYLLABUS, Syllabus } from '@/lib/syllabus';
+
 export interface SyllabusNode {
   id: string;
   name: string;
@@ -35,7 +37,8 @@ export interface SyllabusTaxonomy {
   };
 }
 
-// Complete UPSC Mains Syllabus Taxonomy
+// Planning metadata (weightage, difficulty, trends) for the most studied parts of
+// the Mains syllabus. Node ids are canonical syllabus ids (src/lib/syllabus.ts).
 export const UPSC_SYLLABUS_TAXONOMY: SyllabusTaxonomy = {
   version: '2024.1',
   lastUpdated: new Date('2024-01-01'),
@@ -578,5 +581,54 @@ export class SyllabusMapper {
   }
 }
 
+/**
+ * Lays the taxonomy's metadata over the full canonical syllabus, so lookups cover
+ * every node; nodes the taxonomy does not describe get neutral defaults
+ */
+export function withCanonicalSyllabus(
+  taxonomy: SyllabusTaxonomy,
+  syllabus: Syllabus = CANONICAL_SYLLABUS
+): SyllabusTaxonomy {
+  const nodes: Record<string, SyllabusNode> = {};
+  const hierarchy: SyllabusTaxonomy['hierarchy'] = { papers: [], subjects: {}, units: {}, topics: {}, subtopics: {} };
+  const childGroups: Record<string, Record<string, string[]>> = {
+    subject: hierarchy.subjects,
+    unit: hierarchy.units,
+    topic: hierarchy.topics,
+    subtopic: hierarchy.subtopics
+  };
+
+  Object.values(syllabus.nodes).forEach(node => {
+    const parent = node.parentId ? syllabus.nodes[node.parentId] : null;
+    const metadata = taxonomy.nodes[node.id] || {
+      name: node.name,
+      code: node.id.toUpperCase().replace(/_/g, '-'),
+      keywords: node.keywords,
+      description: node.description,
+      examType: node.exam,
+      weightage: 0,
+      difficulty: 'medium',
+      lastUpdated: taxonomy.lastUpdated,
+      trends: { frequency: 0, recentTrend: 'stable', importance: 'medium' }
+    };
+    nodes[node.id] = {
+      ...metadata,
+      id: node.id,
+      level: node.level,
+      parent: node.parentId || undefined,
+      children: node.children
+    };
+
+    if (node.level === 'paper') {
+      hierarchy.papers.push(node.id);
+    } else if (parent) {
+      const group = childGroups[node.level];
+      group[parent.id] = [...(group[parent.id] || []), node.id];
+    }
+  });
+
+  return { version: `${taxonomy.version}+${syllabus.version}`, lastUpdated: taxonomy.lastUpdated, nodes, hierarchy };
+}
+
 // Export singleton instance
-export const syllabusMapper = new SyllabusMapper();
\ No newline at end of file
+export const syllabusMapper = new SyllabusMapper(withCanonicalSyllabus(UPSC_SYLLABUS_TAXONOMY));
\ No newline at end of file
@@ -0,0 +1,188 @@
+/**
+ * @jest-environment node
+ * @fileOverview Tests for agent auto-discovery, hot reload and registry snapshots
+ *
+ * Module files are written to a temp directory so the scan is real; their
+ * exports come from an injected loader.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import path from 'path';
+import OpenAI from 'openai';
+import { z } from 'zod';
+import { AgentRegistry } from '../orchestrator/agent-registry';
+import { AgentModule, findAgentModules } from '../orchestrator/agent-discovery';
+import { BaseAgent, createCapability } from '../core/base-agent';
+import { createLogger } from '../core/logger';
+import { AgentCategory, AgentMetadata, AgentStatus, BaseRequest, BaseResponse, ExecutionContext, LogLevel } from '../core/types';
+
+const logger = createLogger({ level: LogLevel.ERROR, enableConsole: false });
+
+const context: ExecutionContext = {
+  requestId: 'req_1',
+  userId: 'user_1',
+  depth: 0,
+  sharedState: {},
+  constraints: { maxExecutionTime: 1000, maxTokens: 10000, maxCost: 1, allowSubAgents: true, retryCount: 0 }
+};
+
+function metadataFor(id: string, version: string, capabilities = true): AgentMetadata {
+  return {
+    id,
+    name: `Agent ${id}`,
+    description: 'Test agent',
+    version,
+    category: AgentCategory.UTILITY,
+    capabilities: capabilities ? [createCapability('echo', 'Echo the request', z.any(), z.any())] : [],
+    resourceRequirements: { maxTokens: 100, estimatedLatency: 10, memoryUsage: 1, costPerRequest: 0 },
+    status: AgentStatus.ACTIVE
+  };
+}
+
+/**
+ * A module exporting an agent that answers with its version, after `gate`
+ * resolves when one is given
+ */
+function agentModule(id: string, version: string, options: { capabilities?: boolean; gate?: Promise<void> } = {}) {
+  const metadata = metadataFor(id, version, options.capabilities);
+
+  class EchoAgent extends BaseAgent {
+    constructor(config: { openai: OpenAI; logger: typeof logger }) {
+      super({ ...metadata }, config);
+    }
+
+    async execute(request: BaseRequest): Promise<BaseResponse> {
+      await options.gate;
+      return this.createResponse(request, { version }, 0);
+    }
+  }
+
+  return { metadata, EchoAgent };
+}
+
+const request = { id: 'req_1', userId: 'user_1', timestamp: Date.now() } as BaseRequest;
+
+describe('Agent discovery', () => {
+  let dir: string;
+  let modules: Record<string, AgentModule>;
+  let registry: AgentRegistry;
+
+  const writeModule = (name: string, module?: AgentModule) => {
+    writeFileSync(path.join(dir, name), '');
+    if (module) modules[path.join(dir, name)] = module;
+  };
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(tmpdir(), 'agents-'));
+    modules = {};
+    registry = new AgentRegistry({
+      maxAgents: 10,
+      healthCheckInterval: 0,
+      enableAutoDiscovery: true,
+      logger,
+      openai: {} as OpenAI,
+      watchForChanges: false,
+      moduleLoader: async file => modules[file] || {}
+    });
+  });
+
+  afterEach(() => {
+    registry.shutdown();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should find agent modules and skip tests and declarations', async () => {
+    mkdirSync(path.join(dir, 'nested'));
+    writeModule('summary-agent.ts');
+    writeModule('nested/notes-agent.js');
+    writeModule('summary-agent.test.ts');
+    writeModule('types.d.ts');
+    writeModule('README.md');
+
+    expect(await findAgentModules(dir)).toEqual([
+      path.join(dir, 'nested/notes-agent.js'),
+      path.join(dir, 'summary-agent.ts')
+    ]);
+  });
+
+  test('should register valid agents and skip modules that fail validation', async () => {
+    writeModule('summary-agent.ts', agentModule('summary_agent', '1.0.0'));
+    writeModule('broken-agent.ts', agentModule('broken_agent', '1.0.0', { capabilities: false }));
+    writeModule('helpers.ts', { formatDate: () => '' });
+    const { EchoAgent } = agentModule('undeclared_agent', '1.0.0');
+    writeModule('undeclared-agent.ts', { EchoAgent });
+
+    expect(await registry.autoDiscoverAgents([dir])).toBe(1);
+    expect(registry.getAllAgents().map(agent => agent.getMetadata().id)).toEqual(['summary_agent']);
+  });
+
+  test('should not replace an agent registered by hand', async () => {
+    const handRegistered = agentModule('summary_agent', '1.0.0');
+    registry.register(new handRegistered.EchoAgent({ openai: {} as OpenAI, logger }));
+    writeModule('summary-agent.ts', agentModule('summary_agent', '2.0.0'));
+
+    expect(await registry.autoDiscoverAgents([dir])).toBe(0);
+    expect(registry.getAgent('summary_agent')!.getMetadata().version).toBe('1.0.0');
+  });
+
+  test('should swap a reloaded agent without dropping in-flight requests', async () => {
+    let release!: () => void;
+    const gate = new Promise<void>(resolve => { release = resolve; });
+    writeModule('summary-agent.ts', agentModule('summary_agent', '1.0.0', { gate }));
+    await registry.autoDiscoverAgents([dir]);
+
+    const inFlight = registry.getAgent('summary_agent')!.processRequest(request, context);
+    writeModule('summary-agent.ts', agentModule('summary_agent', '1.1.0'));
+    expect(await registry.reloadAgentModule(path.join(dir, 'summary-agent.ts'))).toEqual(['summary_agent']);
+
+    const reloaded = await registry.getAgent('summary_agent')!.processRequest(request, context);
+    release();
+
+    expect(reloaded.data).toEqual({ version: '1.1.0' });
+    expect((await inFlight).data).toEqual({ version: '1.0.0' });
+    expect(registry.getAgent('summary_agent')!.getMetrics().totalRequests).toBe(2);
+  });
+
+  test('should unregister agents whose module was removed', async () => {
+    writeModule('summary-agent.ts', agentModule('summary_agent', '1.0.0'));
+    await registry.autoDiscoverAgents([dir]);
+
+    rmSync(path.join(dir, 'summary-agent.ts'));
+    await registry.reloadAgentModule(path.join(dir, 'summary-agent.ts'));
+
+    expect(registry.getAgent('summary_agent')).toBeUndefined();
+  });
+
+  test('should keep the previous agent when a reload fails', async () => {
+    writeModule('summary-agent.ts', agentModule('summary_agent', '1.0.0'));
+    await registry.autoDiscoverAgents([dir]);
+
+    modules[path.join(dir, 'summary-agent.ts')] = agentModule('summary_agent', '1.1.0', { capabilities: false });
+    await expect(registry.reloadAgentModule(path.join(dir, 'summary-agent.ts'))).rejects.toThrow('at least one capability');
+
+    expect(registry.getAgent('summary_agent')!.getMetadata().version).toBe('1.0.0');
+  });
+
+  test('should restore status and metrics from an exported snapshot', async () => {
+    writeModule('summary-agent.ts', agentModule('summary_agent', '1.0.0'));
+    await registry.autoDiscoverAgents([dir]);
+    await registry.getAgent('summary_agent')!.processRequest(request, context);
+    registry.updateAgentStatus('summary_agent', AgentStatus.MAINTENANCE);
+
+    const snapshot = JSON.parse(JSON.stringify(registry.exportRegistry()));
+    snapshot.agents.push({ ...snapshot.agents[0], metadata: { ...snapshot.agents[0].metadata, id: 'gone_agent' } });
+    registry.unregister('summary_agent');
+
+    expect(registry.importRegistry(snapshot)).toEqual({ restored: ['summary_agent'], missing: ['gone_agent'] });
+    const restored = registry.getAgent('summary_agent')!;
+    expect(restored.getMetadata().status).toBe(AgentStatus.MAINTENANCE);
+    expect(restored.getMetrics().totalRequests).toBe(1);
+    expect(restored.getMetrics().lastActivity).toBeInstanceOf(Date);
+  });
+
+  test('should reject a malformed snapshot', () => {
+    expect(() => registry.importRegistry({ agents: [{ metadata: { id: 'a' } }] })).toThrow('Invalid registry snapshot');
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * @jest-environment node
+ * @fileOverview Tests for the Anki package and PDF note exporters
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import initSqlJs from 'sql.js';
+import JSZip from 'jszip';
+import { PDFDocument } from 'pdf-lib';
+import { buildAnkiPackage, getDeckNameForNote } from '../notes/anki-exporter';
+import { buildNotesPdf, groupNotesBySyllabus, sanitizeText } from '../notes/pdf-exporter';
+import { SmartNote } from '../notes/smart-notes-system';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-03-10T12:00:00Z');
+
+const createNote = (id: string, overrides: {
+  title?: string;
+  content?: string;
+  syllabusTags?: string[];
+  reviewCount?: number;
+  interval?: number;
+  easeFactor?: number;
+  nextReview?: Date;
+} = {}): SmartNote => ({
+  id,
+  userId: 'user_1',
+  title: overrides.title || `Note ${id}`,
+  content: overrides.content || `Content for ${id}`,
+  type: 'concept',
+  source: { type: 'manual' },
+  tags: {
+    syllabusTags: overrides.syllabusTags || ['gs2_polity'],
+    conceptTags: ['fundamental rights'],
+    customTags: [],
+    autoTags: []
+  },
+  metadata: {
+    difficulty: 5,
+    importance: 5,
+    confidence: 5,
+    lastReviewed: null,
+    reviewCount: overrides.reviewCount || 0,
+    masteryLevel: 0
+  },
+  connections: { relatedNotes: [], relatedTopics: [], crossReferences: [], contradictions: [] },
+  revisionData: {
+    nextReview: overrides.nextReview || new Date(NOW.getTime() + DAY),
+    interval: overrides.interval || 1,
+    easeFactor: overrides.easeFactor || 2.5,
+    consecutiveCorrect: 0
+  },
+  formatting: {
+    highlights: [],
+    annotations: [],
+    structuredData: { facts: [], definitions: {}, examples: [], mnemonics: [] }
+  },
+  aiAnalysis: {
+    keyPoints: ['First point'],
+    misconceptions: [],
+    examRelevance: 70,
+    memorabilityScore: 50,
+    suggestedConnections: []
+  },
+  created: new Date('2025-01-01'),
+  updated: new Date('2025-01-01')
+});
+
+const openCollection = async (apkg: Buffer) => {
+  const zip = await JSZip.loadAsync(apkg);
+  expect(Object.keys(zip.files).sort()).toEqual(['collection.anki2', 'media']);
+  expect(await zip.file('media')!.async('string')).toBe('{}');
+
+  const SQL = await initSqlJs();
+  return new SQL.Database(await zip.file('collection.anki2')!.async('uint8array'));
+};
+
+describe('Anki exporter', () => {
+  test('should package a schema 11 collection with one card per note', async () => {
+    const notes = [
+      createNote('polity', { title: 'Article 21 "Life" & <Liberty>', content: 'Line one\nLine, two' }),
+      createNote('history', { syllabusTags: ['gs1_hist'] })
+    ];
+
+    const db = await openCollection(await buildAnkiPackage(notes, { now: NOW }));
+
+    const [col] = db.exec('SELECT ver, decks, models FROM col');
+    expect(col.values[0][0]).toBe(11);
+
+    const decks: Record<string, { name: string }> = JSON.parse(col.values[0][1] as string);
+    const deckNames = Object.values(decks).map(deck => deck.name);
+    expect(deckNames).toEqual(expect.arrayContaining([
+      'Default',
+      'UPSC',
+      'UPSC::General Studies Paper 1',
+      'UPSC::General Studies Paper 2'
+    ]));
+
+    const models: Record<string, { flds: Array<{ name: string }> }> = JSON.parse(col.values[0][2] as string);
+    const [model] = Object.values(models);
+    expect(model.flds.map(field => field.name)).toEqual(['Front', 'Back', 'Key Points', 'Syllabus']);
+
+    const [rows] = db.exec('SELECT flds, sfld, tags FROM notes ORDER BY id');
+    const fields = (rows.values[0][0] as string).split('\x1f');
+    expect(fields[0]).toBe('Article 21 &quot;Life&quot; &amp; &lt;Liberty&gt;');
+    expect(fields[1]).toBe('Line one<br>Line, two');
+    expect(rows.values[0][2]).toBe(' gs2_polity fundamental_rights ');
+
+    expect(db.exec('SELECT COUNT(*) FROM cards')[0].values[0][0]).toBe(2);
+    db.close();
+  });
+
+  test('should seed scheduling from revision data', async () => {
+    const notes = [
+      createNote('fresh'),
+      createNote('reviewed', { reviewCount: 4, interval: 12, easeFactor: 2.3, nextReview: new Date(NOW.getTime() + 5 * DAY) }),
+      createNote('overdue', { reviewCount: 2, interval: 3, nextReview: new Date(NOW.getTime() - 2 * DAY) })
+    ];
+
+    const db = await openCollection(await buildAnkiPackage(notes, { now: NOW }));
+    const [cards] = db.exec('SELECT type, queue, due, ivl, factor, reps FROM cards ORDER BY id');
+
+    expect(cards.values[0]).toEqual([0, 0, 1, 0, 0, 0]);
+    // The collection starts on the overdue card's day, two days before NOW
+    expect(cards.values[1]).toEqual([2, 2, 7, 12, 2300, 4]);
+    expect(cards.values[2]).toEqual([2, 2, 0, 3, 2500, 2]);
+    db.close();
+  });
+
+  test('should fall back to an unmapped deck for unknown tags', () => {
+    expect(getDeckNameForNote(createNote('n1', { syllabusTags: ['custom_topic'] }))).toBe('UPSC::Unmapped');
+    expect(getDeckNameForNote(createNote('n2', { syllabusTags: ['gs3_economy'] }))).toBe('UPSC::General Studies Paper 3');
+  });
+});
+
+describe('PDF exporter', () => {
+  test('should group notes by every syllabus tag', () => {
+    const groups = groupNotesBySyllabus([
+      createNote('a', { syllabusTags: ['gs1_hist', 'gs2_polity'] }),
+      createNote('b', { syllabusTags: [] })
+    ]);
+
+    expect(groups.map(group => group.key)).toEqual(['gs1_hist', 'gs2_polity', 'Untagged']);
+    expect(groups[0].label).toBe('GS1 > History');
+    expect(groups[1].notes.map(note => note.id)).toEqual(['a']);
+  });
+
+  test('should render a cover, contents and note pages', async () => {
+    const longContent = Array.from({ length: 120 }, (_, i) => `Paragraph ${i} about the Constitution.`).join('\n\n');
+    const notes = [
+      createNote('long', { content: longContent }),
+      createNote('short', { title: 'Preamble – “We the People”', syllabusTags: ['gs1_hist'] })
+    ];
+
+    const pdf = await buildNotesPdf(notes, { now: NOW });
+    const doc = await PDFDocument.load(pdf);
+
+    expect(new TextDecoder().decode(pdf.slice(0, 5))).toBe('%PDF-');
+    // cover + contents + GS1 section + GS2 section spilling onto several pages
+    expect(doc.getPageCount()).toBeGreaterThan(4);
+    expect(doc.getTitle()).toBe('UPSC Study Notes');
+  });
+
+  test('should replace characters the standard fonts cannot encode', () => {
+    expect(sanitizeText('“Quote” – ₹100 नमस्ते')).toBe('"Quote" - Rs.100 ??????');
+  });
+});
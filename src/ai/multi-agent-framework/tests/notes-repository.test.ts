@@ -0,0 +1,178 @@
+/**
+ * @fileOverview Tests for smart notes persistence against the in-memory repository
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { InMemoryNotesRepository } from '../persistence/notes-repository';
+import { SmartNotesSystem, SmartNote } from '../notes/smart-notes-system';
+import { AdvancedTaggingSystem } from '../tagging/advanced-tagging-system';
+import { Logger } from '../core/logger';
+import { LogLevel } from '../core/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const createNote = (id: string, overrides: {
+  type?: SmartNote['type'];
+  syllabusTags?: string[];
+  masteryLevel?: number;
+  importance?: number;
+  nextReview?: Date;
+  updated?: Date;
+} = {}): SmartNote => ({
+  id,
+  userId: 'user_1',
+  title: `Note ${id}`,
+  content: `Content for ${id}`,
+  type: overrides.type || 'concept',
+  source: { type: 'manual' },
+  tags: {
+    syllabusTags: overrides.syllabusTags || ['gs2_polity'],
+    conceptTags: [],
+    customTags: [],
+    autoTags: []
+  },
+  metadata: {
+    difficulty: 5,
+    importance: overrides.importance || 5,
+    confidence: 5,
+    lastReviewed: null,
+    reviewCount: 0,
+    masteryLevel: overrides.masteryLevel || 0
+  },
+  connections: { relatedNotes: [], relatedTopics: [], crossReferences: [], contradictions: [] },
+  revisionData: {
+    nextReview: overrides.nextReview || new Date(Date.now() + DAY),
+    interval: 1,
+    easeFactor: 2.5,
+    consecutiveCorrect: 0
+  },
+  formatting: {
+    highlights: [],
+    annotations: [],
+    structuredData: { facts: [], definitions: {}, examples: [], mnemonics: [] }
+  },
+  aiAnalysis: {
+    keyPoints: [],
+    misconceptions: [],
+    examRelevance: 70,
+    memorabilityScore: 50,
+    suggestedConnections: []
+  },
+  created: new Date('2025-01-01'),
+  updated: overrides.updated || new Date('2025-01-01')
+});
+
+describe('Notes Repository', () => {
+  let repository: InMemoryNotesRepository;
+
+  beforeEach(() => {
+    repository = new InMemoryNotesRepository();
+  });
+
+  test('should round-trip notes without sharing references', async () => {
+    const note = createNote('n1');
+    await repository.saveNote(note);
+    note.title = 'Changed after save';
+
+    const stored = await repository.getNote('user_1', 'n1');
+    expect(stored?.title).toBe('Note n1');
+    expect(stored?.revisionData.nextReview).toBeInstanceOf(Date);
+    expect(await repository.getNote('user_2', 'n1')).toBeNull();
+  });
+
+  test('should filter by topic, type, mastery and due date', async () => {
+    await repository.saveNote(createNote('history', { syllabusTags: ['gs1_history'] }));
+    await repository.saveNote(createNote('fact', { type: 'fact' }));
+    await repository.saveNote(createNote('mastered', { masteryLevel: 90 }));
+    await repository.saveNote(createNote('due', { nextReview: new Date(Date.now() - DAY) }));
+
+    const byTopic = await repository.queryNotes('user_1', { topics: ['gs1_history'] });
+    expect(byTopic.notes.map(n => n.id)).toEqual(['history']);
+
+    const byType = await repository.queryNotes('user_1', { type: ['fact'] });
+    expect(byType.notes.map(n => n.id)).toEqual(['fact']);
+
+    const byMastery = await repository.queryNotes('user_1', { masteryLevel: [80, 100] });
+    expect(byMastery.notes.map(n => n.id)).toEqual(['mastered']);
+
+    const due = await repository.queryNotes('user_1', { needsReview: true });
+    expect(due.notes.map(n => n.id)).toEqual(['due']);
+  });
+
+  test('should paginate with stable cursors', async () => {
+    // Identical timestamps force the id tie-breaker
+    for (let i = 0; i < 7; i++) {
+      await repository.saveNote(createNote(`n${i}`));
+    }
+
+    const seen: string[] = [];
+    let cursor: string | null = null;
+    let pages = 0;
+    do {
+      const page = await repository.queryNotes('user_1', {}, { cursor, pageSize: 3 });
+      seen.push(...page.notes.map(n => n.id));
+      cursor = page.nextCursor;
+      pages++;
+    } while (cursor);
+
+    expect(pages).toBe(3);
+    expect(seen).toHaveLength(7);
+    expect(new Set(seen).size).toBe(7);
+    expect(await repository.countNotes('user_1', {})).toBe(7);
+  });
+
+  test('should reject malformed cursors', async () => {
+    await expect(repository.queryNotes('user_1', {}, { cursor: 'garbage' })).rejects.toThrow('Invalid notes cursor');
+  });
+});
+
+describe('SmartNotesSystem persistence', () => {
+  let repository: InMemoryNotesRepository;
+  let notesSystem: SmartNotesSystem;
+
+  beforeEach(() => {
+    repository = new InMemoryNotesRepository();
+    const logger = new Logger({ level: LogLevel.ERROR, enableConsole: false });
+    notesSystem = new SmartNotesSystem(logger, {} as AdvancedTaggingSystem, repository);
+  });
+
+  test('should persist reviews and record a study session', async () => {
+    await repository.saveNote(createNote('n1', { nextReview: new Date(Date.now() - DAY) }));
+
+    await notesSystem.reviewNote('user_1', 'n1', { quality: 'good', confidence: 7, timeSpent: 4 });
+
+    const stored = await repository.getNote('user_1', 'n1');
+    expect(stored?.metadata.reviewCount).toBe(1);
+    expect(stored?.revisionData.nextReview.getTime()).toBeGreaterThan(Date.now());
+
+    const sessions = await repository.getStudySessions('user_1');
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].notesInvolved).toEqual(['n1']);
+  });
+
+  test('should build the review queue from due notes only', async () => {
+    await repository.saveNote(createNote('overdue', { nextReview: new Date(Date.now() - 3 * DAY) }));
+    await repository.saveNote(createNote('urgent', { nextReview: new Date(Date.now() - 60 * 1000), importance: 9 }));
+    await repository.saveNote(createNote('future', { nextReview: new Date(Date.now() + 3 * DAY) }));
+
+    const queue = await notesSystem.getReviewQueue('user_1', 30);
+
+    expect(queue.overdue.map(n => n.id)).toEqual(['overdue']);
+    expect(queue.urgent.map(n => n.id)).toEqual(['urgent']);
+    expect(queue.summary.totalReviews).toBe(2);
+  });
+
+  test('should search with pagination and total counts', async () => {
+    for (let i = 0; i < 5; i++) {
+      await repository.saveNote(createNote(`n${i}`, { updated: new Date(2025, 0, i + 1) }));
+    }
+
+    const firstPage = await notesSystem.searchNotes('user_1', { limit: 2 });
+    expect(firstPage.notes.map(n => n.id)).toEqual(['n4', 'n3']);
+    expect(firstPage.totalCount).toBe(5);
+    expect(firstPage.nextCursor).not.toBeNull();
+
+    const secondPage = await notesSystem.searchNotes('user_1', { limit: 2, cursor: firstPage.nextCursor! });
+    expect(secondPage.notes.map(n => n.id)).toEqual(['n2', 'n1']);
+  });
+});
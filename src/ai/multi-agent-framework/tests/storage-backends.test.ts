@@ -0,0 +1,176 @@
+/**
+ * @fileOverview Conformance suite shared by every storage backend, plus the
+ * cache and rate limiter running on the in-memory one
+ *
+ * The Redis and Firestore runs need a server: set REDIS_URL, or
+ * FIRESTORE_EMULATOR_HOST for the Firestore emulator.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from '@jest/globals';
+import {
+  StorageBackend,
+  InMemoryStorageBackend,
+  RedisStorageBackend,
+  FirestoreStorageBackend,
+  createStorageBackend,
+  resolveStorageBackendType
+} from '../persistence/storage-backend';
+import { ResponseCache } from '../caching/response-cache';
+import { RateLimiter } from '../rate-limiting/rate-limiter';
+import { AuthContext } from '../auth/auth-provider';
+import { BaseRequest, BaseResponse } from '../core/types';
+
+const WINDOW = 60 * 1000;
+
+function describeStorageBackend(name: string, create: () => Promise<StorageBackend>, enabled = true) {
+  (enabled ? describe : describe.skip)(`${name} storage backend`, () => {
+    let backend: StorageBackend;
+    // Keys are unique per test so shared servers need no flushing
+    let prefix: string;
+
+    beforeEach(async () => {
+      backend = await create();
+      prefix = `conformance:${Date.now()}:${Math.random().toString(36).slice(2, 8)}`;
+    });
+
+    afterEach(async () => {
+      await backend.delete(await backend.keys(`${prefix}:*`));
+      await backend.close();
+    });
+
+    test('should store and return values', async () => {
+      await backend.set(`${prefix}:a`, 'one', 60);
+      await backend.set(`${prefix}:a`, 'two', 60);
+
+      expect(await backend.get(`${prefix}:a`)).toBe('two');
+      expect(await backend.get(`${prefix}:missing`)).toBeNull();
+    });
+
+    test('should expire values after their TTL', async () => {
+      await backend.set(`${prefix}:short`, 'gone soon', 1);
+      await new Promise(resolve => setTimeout(resolve, 1200));
+
+      expect(await backend.get(`${prefix}:short`)).toBeNull();
+      expect(await backend.keys(`${prefix}:*`)).toEqual([]);
+    });
+
+    test('should list keys by glob and delete them', async () => {
+      await backend.set(`${prefix}:user:1:x`, 'a', 60);
+      await backend.set(`${prefix}:user:2:x`, 'b', 60);
+      await backend.addUsage(`${prefix}:limit:1`, { requests: 1, tokens: 0, cost: 0 }, WINDOW);
+
+      expect((await backend.keys(`${prefix}:user:*:x`)).sort()).toEqual([`${prefix}:user:1:x`, `${prefix}:user:2:x`]);
+      expect(await backend.keys(`${prefix}:limit:*`)).toEqual([`${prefix}:limit:1`]);
+
+      expect(await backend.delete([`${prefix}:user:1:x`, `${prefix}:limit:1`, `${prefix}:never`])).toBe(2);
+      expect(await backend.get(`${prefix}:user:1:x`)).toBeNull();
+      expect((await backend.getUsage(`${prefix}:limit:1`, WINDOW)).requests).toBe(0);
+    });
+
+    test('should sum usage inside a sliding window', async () => {
+      const key = `${prefix}:usage`;
+      const now = Date.now();
+      await backend.addUsage(key, { requests: 1, tokens: 100, cost: 0.5 }, WINDOW, now - 50 * 1000);
+      await backend.addUsage(key, { requests: 1, tokens: 200, cost: 0.25 }, WINDOW, now - 10 * 1000);
+
+      expect(await backend.getUsage(key, WINDOW, now)).toEqual({
+        requests: 2,
+        tokens: 300,
+        cost: 0.75,
+        oldestAt: now - 50 * 1000
+      });
+
+      // Twenty seconds later the first request has left the window
+      expect(await backend.getUsage(key, WINDOW, now + 20 * 1000)).toEqual({
+        requests: 1,
+        tokens: 200,
+        cost: 0.25,
+        oldestAt: now - 10 * 1000
+      });
+    });
+
+    test('should report no usage for an unknown key', async () => {
+      expect(await backend.getUsage(`${prefix}:nobody`, WINDOW)).toEqual({
+        requests: 0,
+        tokens: 0,
+        cost: 0,
+        oldestAt: null
+      });
+    });
+  });
+}
+
+describeStorageBackend('In-memory', async () => new InMemoryStorageBackend());
+
+describeStorageBackend('Redis', async () => new RedisStorageBackend(process.env.REDIS_URL), !!process.env.REDIS_URL);
+
+describeStorageBackend(
+  'Firestore',
+  async () => {
+    // The Admin SDK connects to FIRESTORE_EMULATOR_HOST by itself
+    const { initializeApp } = await import('firebase-admin/app');
+    const { getFirestore } = await import('firebase-admin/firestore');
+    const firestore = getFirestore(initializeApp({ projectId: 'storage-conformance' }, `conformance-${Date.now()}`));
+    return new FirestoreStorageBackend(firestore);
+  },
+  !!process.env.FIRESTORE_EMULATOR_HOST
+);
+
+describe('In-memory storage backend', () => {
+  test('should evict the least recently used value past capacity', async () => {
+    const backend = new InMemoryStorageBackend(2);
+    await backend.set('a', '1', 60);
+    await backend.set('b', '2', 60);
+    await backend.get('a');
+    await backend.set('c', '3', 60);
+
+    expect(await backend.get('a')).toBe('1');
+    expect(await backend.get('b')).toBeNull();
+    expect(await backend.get('c')).toBe('3');
+  });
+});
+
+describe('Storage backend selection', () => {
+  test('should prefer the configured type, then Redis when a URL is set, then memory', () => {
+    expect(resolveStorageBackendType('firestore', 'redis://cache:6379')).toBe('firestore');
+    expect(resolveStorageBackendType(undefined, 'redis://cache:6379')).toBe('redis');
+    expect(resolveStorageBackendType('unknown', undefined)).toBe('memory');
+    expect(createStorageBackend({ type: 'memory' }).type).toBe('memory');
+  });
+});
+
+describe('ResponseCache and RateLimiter without Redis', () => {
+  const request = { id: 'req_1', userId: 'user_1', timestamp: Date.now(), type: 'quiz', data: { topic: 'polity' } } as BaseRequest;
+  const response: BaseResponse = {
+    id: 'res_1',
+    requestId: 'req_1',
+    success: true,
+    timestamp: Date.now(),
+    processingTime: 10,
+    agentId: 'quiz-agent'
+  };
+  const authContext = { user: { userId: 'user_1' } } as AuthContext;
+
+  test('should cache responses and invalidate them per user', async () => {
+    const cache = new ResponseCache(new InMemoryStorageBackend());
+    const config = { ttl: 60, namespace: 'quiz' };
+    await cache.set(request, response, config);
+
+    expect(await cache.get(request, config)).toEqual(response);
+    expect(await cache.invalidateUser('user_1')).toBe(1);
+    expect(await cache.get(request, config)).toBeNull();
+  });
+
+  test('should limit requests over a sliding window', async () => {
+    const limiter = new RateLimiter(new InMemoryStorageBackend());
+    const config = { windowMs: WINDOW, maxRequests: 2, maxTokens: undefined, maxCost: undefined, skipFailedRequests: false };
+
+    await limiter.recordUsage(authContext, 10, 0, true, config);
+    await limiter.recordUsage(authContext, 10, 0, true, config);
+    const result = await limiter.checkRateLimit(authContext, 0, 0, config);
+
+    expect(result.allowed).toBe(false);
+    expect(result.currentUsage.requests).toBe(2);
+    expect(result.retryAfter).toBeGreaterThan(0);
+  });
+});
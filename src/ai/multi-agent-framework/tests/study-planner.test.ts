@@ -0,0 +1,302 @@
+/**
+ * @fileOverview Tests for adaptive study plan generation and re-planning
+ */
+
+import { describe, test, expect, beforeEach } from '@jest/globals';
+import { buildAdaptiveStudyPlan, findMissedSlots, toDateKey } from '../tracking/adaptive-study-planner';
+import { SyllabusProgressTracker, SyllabusProgress, TopicProgress } from '../tracking/syllabus-progress-tracker';
+import { InMemoryProgressRepository } from '../persistence/progress-repository';
+import { Logger } from '../core/logger';
+import { LogLevel } from '../core/types';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date('2025-01-01T00:00:00Z');
+
+const createProgress = (topics: Array<Partial<TopicProgress> & { topicId: string }> = []): SyllabusProgress => ({
+  userId: 'user_1',
+  lastUpdated: START,
+  overall: {
+    completionPercentage: 0,
+    masteryPercentage: 0,
+    totalTopics: topics.length,
+    completedTopics: 0,
+    masteredTopics: 0,
+    totalTimeSpent: 0,
+    studyStreak: 0,
+    averageSessionDuration: 0
+  },
+  byPaper: {},
+  bySubject: {},
+  topics: topics.map(topic => ({
+    topicName: topic.topicId,
+    level: 'topic',
+    status: 'in_progress',
+    completionPercentage: 0,
+    masteryLevel: 0,
+    studySessions: [],
+    totalTimeSpent: 60,
+    lastStudied: null,
+    nextReview: null,
+    metrics: {
+      readingProgress: 0,
+      practiceProgress: 0,
+      testScores: [],
+      averageScore: 0,
+      confidenceLevel: 5,
+      retentionRate: 0
+    },
+    recommendations: {
+      nextAction: 'study',
+      estimatedTimeToComplete: 0,
+      suggestedResources: [],
+      difficulty: 'maintain'
+    },
+    weakAreas: [],
+    strongAreas: [],
+    ...topic
+  })),
+  analytics: {
+    studyPatterns: { preferredTime: 'morning', sessionLength: 'medium', consistency: 0, productivity: 0 },
+    weaknessAnalysis: { subjects: [], concepts: [], questionTypes: [], recommendations: [] },
+    strengthAnalysis: { subjects: [], concepts: [], masteredTopics: [], achievements: [] },
+    predictions: { examReadiness: 0, timeToCompletion: 0, riskAreas: [], confidenceLevel: 0 }
+  }
+});
+
+const dayKey = (offset: number) => toDateKey(START.getTime() + offset * DAY);
+
+describe('Adaptive study planner', () => {
+  test('should lay out study, buffer and final revision days', () => {
+    const plan = buildAdaptiveStudyPlan({
+      userId: 'user_1',
+      progress: createProgress(),
+      examType: 'mains',
+      targetDate: new Date(START.getTime() + 60 * DAY),
+      dailyHours: 4,
+      startDate: START
+    });
+
+    const days = Object.entries(plan.schedule.daily);
+    expect(days).toHaveLength(60);
+    expect(plan.schedule.daily[dayKey(0)].dayType).toBe('study');
+    expect(plan.schedule.daily[dayKey(6)].dayType).toBe('buffer');
+    expect(plan.schedule.daily[dayKey(13)].dayType).toBe('buffer');
+    // 15% of 60 days is held back for final revision
+    expect(days.filter(([, day]) => day.dayType === 'revision')).toHaveLength(9);
+    expect(plan.schedule.daily[dayKey(59)].slots.some(slot => slot.topicId === 'mock_test')).toBe(true);
+
+    days.forEach(([, day]) => {
+      if (day.dayType !== 'buffer') {
+        expect(day.timeAllocation).toBeLessThanOrEqual(240);
+      }
+    });
+  });
+
+  test('should follow every learned topic with spaced revision', () => {
+    const plan = buildAdaptiveStudyPlan({
+      userId: 'user_1',
+      progress: createProgress(),
+      examType: 'mains',
+      targetDate: new Date(START.getTime() + 90 * DAY),
+      dailyHours: 6,
+      startDate: START
+    });
+
+    const slots = Object.entries(plan.schedule.daily)
+      .sort(([a], [b]) => a.localeCompare(b))
+      .flatMap(([date, day]) => day.slots.map(slot => ({ ...slot, date })));
+    const learnedTopics = new Set(slots.filter(slot => slot.activity === 'learn').map(slot => slot.topicId));
+
+    expect(learnedTopics.size).toBeGreaterThan(0);
+    learnedTopics.forEach(topicId => {
+      const lastPractice = slots.filter(slot => slot.topicId === topicId && slot.activity === 'practice').pop()!;
+      const revisions = slots.filter(slot => slot.topicId === topicId && slot.activity === 'revision');
+      expect(revisions.length).toBeGreaterThan(0);
+      expect(revisions[0].date > lastPractice.date).toBe(true);
+    });
+    expect(plan.unscheduledTopics).toEqual([]);
+  });
+
+  test('should prioritise focus areas and skip mastered topics', () => {
+    const plan = buildAdaptiveStudyPlan({
+      userId: 'user_1',
+      progress: createProgress([{ topicId: 'gs3_economy', status: 'mastered', masteryLevel: 95, completionPercentage: 100 }]),
+      examType: 'mains',
+      targetDate: new Date(START.getTime() + 60 * DAY),
+      dailyHours: 4,
+      focus: ['gs4'],
+      startDate: START
+    });
+
+    expect(plan.schedule.daily[dayKey(0)].topics[0]).toBe('gs4');
+    const learnsEconomy = Object.values(plan.schedule.daily)
+      .some(day => day.slots.some(slot => slot.topicId === 'gs3_economy' && slot.activity === 'learn'));
+    expect(learnsEconomy).toBe(false);
+  });
+
+  test('should leave out prelims-irrelevant papers and report topics that do not fit', () => {
+    const plan = buildAdaptiveStudyPlan({
+      userId: 'user_1',
+      progress: createProgress(),
+      examType: 'prelims',
+      targetDate: new Date(START.getTime() + 3 * DAY),
+      dailyHours: 2,
+      startDate: START
+    });
+
+    const topics = Object.values(plan.schedule.daily).flatMap(day => day.topics);
+    expect(topics).not.toContain('gs4');
+    expect(plan.unscheduledTopics.length).toBeGreaterThan(0);
+    expect(plan.adaptiveSettings.pace).toBe('intensive');
+  });
+
+  test('should reject a target date before the start date', () => {
+    expect(() => buildAdaptiveStudyPlan({
+      userId: 'user_1',
+      progress: createProgress(),
+      examType: 'mains',
+      targetDate: START,
+      dailyHours: 4,
+      startDate: START
+    })).toThrow('Target date must be at least one day after the plan start date');
+  });
+
+  test('should flag past slots without a matching session', () => {
+    const plan = buildAdaptiveStudyPlan({
+      userId: 'user_1',
+      progress: createProgress(),
+      examType: 'mains',
+      targetDate: new Date(START.getTime() + 30 * DAY),
+      dailyHours: 2,
+      startDate: START
+    });
+    const firstSlot = plan.schedule.daily[dayKey(0)].slots[0];
+
+    const missed = findMissedSlots(plan, [{
+      id: 's1',
+      userId: 'user_1',
+      topicId: firstSlot.topicId,
+      topicName: firstSlot.topicName,
+      sessionType: 'reading',
+      duration: 60,
+      quality: 'good',
+      completionLevel: 50,
+      difficulty: 5,
+      confidence: 6,
+      resources: [],
+      tags: [],
+      timestamp: new Date(START.getTime() + 2 * 60 * 60 * 1000)
+    }], new Date(START.getTime() + 2 * DAY));
+
+    expect(missed.every(slot => slot.date === dayKey(1))).toBe(true);
+    expect(missed.length).toBe(plan.schedule.daily[dayKey(1)].slots.length);
+  });
+
+  test('should count a session just after midnight IST towards the new day', () => {
+    const plan = buildAdaptiveStudyPlan({
+      userId: 'user_1',
+      progress: createProgress(),
+      examType: 'mains',
+      targetDate: new Date(START.getTime() + 30 * DAY),
+      dailyHours: 2,
+      startDate: START
+    });
+    const secondDaySlot = plan.schedule.daily[dayKey(1)].slots[0];
+
+    // 00:15 IST on the plan's second day is still the first day in UTC
+    const missed = findMissedSlots(plan, [{
+      id: 's1',
+      userId: 'user_1',
+      topicId: secondDaySlot.topicId,
+      topicName: secondDaySlot.topicName,
+      sessionType: 'reading',
+      duration: 60,
+      quality: 'good',
+      completionLevel: 50,
+      difficulty: 5,
+      confidence: 6,
+      resources: [],
+      tags: [],
+      timestamp: new Date('2025-01-01T18:45:00Z')
+    }], new Date(START.getTime() + 2 * DAY));
+
+    expect(dayKey(1)).toBe('2025-01-02');
+    expect(missed.some(slot => slot.date === dayKey(1) && slot.topicId === secondDaySlot.topicId)).toBe(false);
+    expect(missed.filter(slot => slot.date === dayKey(0)).length).toBe(plan.schedule.daily[dayKey(0)].slots.length);
+  });
+});
+
+describe('SyllabusProgressTracker study plans', () => {
+  let repository: InMemoryProgressRepository;
+  let tracker: SyllabusProgressTracker;
+
+  beforeEach(() => {
+    repository = new InMemoryProgressRepository();
+    tracker = new SyllabusProgressTracker(new Logger({ level: LogLevel.ERROR, enableConsole: false }), repository);
+  });
+
+  test('should version stored plans per user', async () => {
+    const options = { examType: 'mains' as const, targetDate: new Date(Date.now() + 45 * DAY), dailyHours: 3 };
+
+    const first = await tracker.generateStudyPlan('user_1', options);
+    const second = await tracker.generateStudyPlan('user_1', options);
+    const other = await tracker.generateStudyPlan('user_2', options);
+
+    expect(first.version).toBe(1);
+    expect(second.version).toBe(2);
+    expect(second.previousVersion).toBe(1);
+    expect(other.version).toBe(1);
+    expect((await tracker.getStudyPlan('user_1'))?.id).toBe(second.id);
+    expect((await tracker.getStudyPlan('user_1', 1))?.id).toBe(first.id);
+    expect((await tracker.getStudyPlanHistory('user_1')).map(summary => summary.version)).toEqual([2, 1]);
+  });
+
+  test('should re-plan with missed topics first', async () => {
+    const original = await tracker.generateStudyPlan('user_1', {
+      examType: 'mains',
+      targetDate: new Date(Date.now() + 60 * DAY),
+      dailyHours: 3
+    });
+    const firstDay = original.schedule.daily[toDateKey(original.startDate)];
+    const missedTopic = firstDay.slots[0].topicId;
+
+    const asOf = new Date(original.startDate.getTime() + 2 * DAY);
+    const result = await tracker.replanMissedSessions('user_1', asOf);
+
+    expect(result.replanned).toBe(true);
+    expect(result.missed.length).toBeGreaterThan(0);
+    expect(result.plan.version).toBe(2);
+    expect(result.plan.previousVersion).toBe(1);
+    expect(result.plan.replanReason).toContain('missed session');
+    expect(result.plan.schedule.daily[toDateKey(asOf)].slots[0].topicId).toBe(missedTopic);
+  });
+
+  test('should persist sessions and mastery updates', async () => {
+    await tracker.recordStudySession({
+      userId: 'user_1',
+      topicId: 'gs2_polity_constitution',
+      topicName: 'Constitution',
+      sessionType: 'reading',
+      duration: 90,
+      quality: 'average',
+      completionLevel: 40,
+      difficulty: 6,
+      confidence: 3,
+      resources: [],
+      tags: []
+    });
+
+    const before = await tracker.getUserProgress('user_1');
+    const topic = before.topics.find(t => t.topicId === 'gs2_polity_constitution')!;
+    expect(topic.totalTimeSpent).toBe(90);
+    expect(topic.masteryLevel).toBe(64);
+
+    await tracker.updateTopicMastery('user_1', 'gs2_polity_constitution', { testScore: 80 });
+
+    const mastery = await repository.getTopicMastery('user_1');
+    expect(mastery['gs2_polity_constitution'].masteryLevel).toBe(69);
+
+    const after = await tracker.getUserProgress('user_1');
+    expect(after.topics[0].masteryLevel).toBe(69);
+  });
+});
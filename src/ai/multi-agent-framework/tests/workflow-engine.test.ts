@@ -0,0 +1,265 @@
+/**
+ * @fileOverview Tests for declarative DAG workflows, run against fake agents
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  WorkflowDefinition,
+  WorkflowRunDependencies,
+  createWorkflowRecord,
+  planWorkflowLevels,
+  runWorkflow
+} from '../orchestrator/workflow-engine';
+import { BaseRequest, BaseResponse, ExecutionContext, OrchestratorError, TaskStatus, WorkflowStatus } from '../core/types';
+
+const request = { id: 'req_1', userId: 'user_1', timestamp: Date.now(), type: 'newspaper_analysis', data: { text: 'article' } } as BaseRequest;
+
+const context: ExecutionContext = {
+  requestId: 'req_1',
+  userId: 'user_1',
+  depth: 0,
+  sharedState: {},
+  constraints: { maxExecutionTime: 1000, maxTokens: 1000, maxCost: 1, allowSubAgents: true, retryCount: 0 }
+};
+
+type Handler = (request: BaseRequest) => unknown;
+
+interface Relevance {
+  relevanceScore: number;
+  topic: string;
+}
+
+// Steps narrow request data and outputs to the shape they expect
+function dataOf<T>(agentRequest: BaseRequest): T {
+  return (agentRequest as BaseRequest & { data: T }).data;
+}
+
+/**
+ * Agents that answer with whatever their handler returns; a thrown error
+ * becomes an unsuccessful response, as BaseAgent does
+ */
+function fakeAgents(handlers: Record<string, Handler>) {
+  const calls: Record<string, BaseRequest[]> = {};
+  const agents = Object.fromEntries(Object.entries(handlers).map(([agentId, handler]) => [agentId, {
+    processRequest: async (agentRequest: BaseRequest): Promise<BaseResponse> => {
+      (calls[agentId] = calls[agentId] || []).push(agentRequest);
+      const base = { id: `res_${agentId}`, requestId: agentRequest.id, timestamp: Date.now(), processingTime: 1, agentId };
+      try {
+        return { ...base, success: true, data: await handler(agentRequest) };
+      } catch (error) {
+        return { ...base, success: false, error: (error as Error).message };
+      }
+    }
+  }]));
+  return { calls, getAgent: (agentId: string) => agents[agentId] };
+}
+
+function run(definition: WorkflowDefinition, getAgent: WorkflowRunDependencies['getAgent'], controller = new AbortController()) {
+  const workflow = createWorkflowRecord(definition, 'wf_1', request);
+  const promise = runWorkflow(definition, workflow, request, context, { getAgent, signal: controller.signal });
+  return { workflow, promise };
+}
+
+function statusOf(workflow: ReturnType<typeof createWorkflowRecord>, stepId: string) {
+  return workflow.tasks.find(task => task.id === stepId)!.status;
+}
+
+describe('Workflow planning', () => {
+  test('should group steps into levels that can run in parallel', () => {
+    expect(planWorkflowLevels({
+      id: 'wf',
+      name: 'Levels',
+      steps: [
+        { id: 'notes', agentId: 'a', dependsOn: ['relevance', 'questions'] },
+        { id: 'article', agentId: 'a' },
+        { id: 'relevance', agentId: 'a', dependsOn: ['article'] },
+        { id: 'questions', agentId: 'a', dependsOn: ['article'] }
+      ]
+    })).toEqual([['article'], ['relevance', 'questions'], ['notes']]);
+  });
+
+  test('should reject cycles and unknown dependencies', () => {
+    expect(() => planWorkflowLevels({
+      id: 'wf',
+      name: 'Cycle',
+      steps: [
+        { id: 'a', agentId: 'a', dependsOn: ['b'] },
+        { id: 'b', agentId: 'a', dependsOn: ['a'] }
+      ]
+    })).toThrow(/dependency cycle among a, b/);
+
+    expect(() => planWorkflowLevels({
+      id: 'wf',
+      name: 'Unknown',
+      steps: [{ id: 'a', agentId: 'a', dependsOn: ['missing'] }]
+    })).toThrow(OrchestratorError);
+  });
+});
+
+describe('Workflow execution', () => {
+  test('should feed each step the outputs of the steps before it', async () => {
+    const { calls, getAgent } = fakeAgents({
+      analysis: () => ({ relevanceScore: 0.9, topic: 'Polity' }),
+      quiz: agentRequest => ({ questions: [`Q on ${dataOf<{ topic: string }>(agentRequest).topic}`] }),
+      tagger: agentRequest => ({
+        tags: [dataOf<{ upstream: { questions: { questions: string[] } } }>(agentRequest).upstream.questions.questions.length]
+      })
+    });
+
+    const { workflow, promise } = run({
+      id: 'wf',
+      name: 'Pipeline',
+      steps: [
+        { id: 'relevance', agentId: 'analysis' },
+        {
+          id: 'questions',
+          agentId: 'quiz',
+          dependsOn: ['relevance'],
+          requestType: 'quiz_generation',
+          input: ({ outputs }) => ({ topic: (outputs.relevance as Relevance).topic })
+        },
+        { id: 'tagging', agentId: 'tagger', dependsOn: ['questions'] }
+      ]
+    }, getAgent);
+    const result = await promise;
+
+    expect(calls.quiz[0]).toMatchObject({ type: 'quiz_generation' });
+    expect(calls.tagger[0]).toMatchObject({ id: 'req_1_tagging', data: { text: 'article' } });
+    expect(result.outputs.questions).toEqual({ questions: ['Q on Polity'] });
+    expect(result.data).toEqual({ tagging: { tags: [1] } });
+    expect(workflow.status).toBe(WorkflowStatus.COMPLETED);
+  });
+
+  test('should run independent steps concurrently', async () => {
+    let active = 0;
+    let maxActive = 0;
+    const slow = async () => {
+      maxActive = Math.max(maxActive, ++active);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      active--;
+      return {};
+    };
+    const { getAgent } = fakeAgents({ slow });
+
+    await run({
+      id: 'wf',
+      name: 'Parallel',
+      steps: [
+        { id: 'a', agentId: 'slow' },
+        { id: 'b', agentId: 'slow' },
+        { id: 'c', agentId: 'slow' }
+      ]
+    }, getAgent).promise;
+
+    expect(maxActive).toBe(3);
+  });
+
+  test('should skip a branch whose condition fails and still run the join', async () => {
+    const { calls, getAgent } = fakeAgents({
+      analysis: () => ({ relevanceScore: 0.2 }),
+      quiz: () => ({ questions: [] }),
+      notes: () => ({ notes: 'short' })
+    });
+
+    const { workflow, promise } = run({
+      id: 'wf',
+      name: 'Branch',
+      steps: [
+        { id: 'relevance', agentId: 'analysis' },
+        { id: 'questions', agentId: 'quiz', dependsOn: ['relevance'], when: ({ outputs }) => (outputs.relevance as Relevance).relevanceScore > 0.6 },
+        { id: 'tagging', agentId: 'quiz', dependsOn: ['questions'] },
+        { id: 'notes', agentId: 'notes', dependsOn: ['relevance', 'tagging'] }
+      ]
+    }, getAgent);
+    const result = await promise;
+
+    expect(calls.quiz).toBeUndefined();
+    expect(result.skipped).toEqual(['questions', 'tagging']);
+    expect(statusOf(workflow, 'tagging')).toBe(TaskStatus.SKIPPED);
+    expect(result.outputs.notes).toEqual({ notes: 'short' });
+  });
+
+  test('should retry a failing step', async () => {
+    let attempts = 0;
+    const { getAgent } = fakeAgents({
+      flaky: () => {
+        if (++attempts < 3) throw new Error('rate limited');
+        return { ok: true };
+      }
+    });
+
+    const result = await run({
+      id: 'wf',
+      name: 'Retry',
+      steps: [{ id: 'flaky', agentId: 'flaky', retries: 2, retryDelayMs: 1 }]
+    }, getAgent).promise;
+
+    expect(attempts).toBe(3);
+    expect(result.outputs.flaky).toEqual({ ok: true });
+  });
+
+  test('should fail the workflow when a step times out', async () => {
+    const { getAgent } = fakeAgents({
+      hang: () => new Promise(() => undefined),
+      after: () => ({})
+    });
+
+    const { workflow, promise } = run({
+      id: 'wf',
+      name: 'Timeout',
+      steps: [
+        { id: 'hang', agentId: 'hang', timeoutMs: 10 },
+        { id: 'after', agentId: 'after', dependsOn: ['hang'] }
+      ]
+    }, getAgent);
+
+    await expect(promise).rejects.toMatchObject({ code: 'STEP_TIMEOUT' });
+    expect(statusOf(workflow, 'hang')).toBe(TaskStatus.FAILED);
+    expect(statusOf(workflow, 'after')).toBe(TaskStatus.CANCELLED);
+    expect(workflow.status).toBe(WorkflowStatus.FAILED);
+  });
+
+  test('should carry on past an optional step that fails', async () => {
+    const { getAgent } = fakeAgents({
+      analysis: () => ({ relevanceScore: 0.9 }),
+      broken: () => {
+        throw new Error('notes unavailable');
+      }
+    });
+
+    const result = await run({
+      id: 'wf',
+      name: 'Optional',
+      steps: [
+        { id: 'relevance', agentId: 'analysis' },
+        { id: 'notes', agentId: 'broken', dependsOn: ['relevance'], optional: true }
+      ],
+      output: ({ outputs }) => ({ score: (outputs.relevance as Relevance).relevanceScore, notes: outputs.notes ?? null })
+    }, getAgent).promise;
+
+    expect(result.failed).toEqual(['notes']);
+    expect(result.data).toEqual({ score: 0.9, notes: null });
+  });
+
+  test('should stop when cancelled', async () => {
+    const controller = new AbortController();
+    const { calls, getAgent } = fakeAgents({
+      hang: () => new Promise(() => undefined),
+      after: () => ({})
+    });
+
+    const { workflow, promise } = run({
+      id: 'wf',
+      name: 'Cancel',
+      steps: [
+        { id: 'hang', agentId: 'hang' },
+        { id: 'after', agentId: 'after', dependsOn: ['hang'] }
+      ]
+    }, getAgent, controller);
+    controller.abort();
+
+    await expect(promise).rejects.toMatchObject({ code: 'WORKFLOW_CANCELLED' });
+    expect(calls.after).toBeUndefined();
+    expect(workflow.tasks.every(task => task.status === TaskStatus.CANCELLED)).toBe(true);
+  });
+});
@@ -0,0 +1,646 @@
+/**
+ * @fileOverview Adaptive study plan generation
+ *
+ * Turns syllabus progress into a day-by-day schedule. Topics are ranked by
+ * taxonomy weightage, trend data and the learner's mastery gap, then packed
+ * into study days and followed up with spaced revision slots. Every seventh
+ * day is a buffer for catching up, and the last stretch before the exam is
+ * reserved for revision and mock tests.
+ */
+
+import { SyllabusNode, SyllabusTaxonomy, UPSC_SYLLABUS_TAXONOMY } from '../syllabus/upsc-syllabus-taxonomy';
+import type { TrendingTopic } from '../analysis/relevance-scoring-system';
+import type { StudyPlan, StudyPlanSlot, StudySession, SyllabusProgress } from './syllabus-progress-tracker';
+
+type Priority = 'high' | 'medium' | 'low';
+type DayType = StudyPlan['schedule']['daily'][string]['dayType'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Study days run from midnight to midnight in the learner's timezone; learners are in India unless told otherwise
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+const BUFFER_DAY_INTERVAL = 7;
+const MIN_SLOT_MINUTES = 30;
+const PRACTICE_SHARE = 0.25;
+
+// Days after a topic is covered when it comes back for revision, and for how long
+const REVISION_INTERVALS = [1, 7, 30];
+const REVISION_SLOT_MINUTES = [30, 20, 20];
+const FINAL_REVISION_SLOT_MINUTES = 45;
+const MOCK_TEST_INTERVAL = 3;
+const MOCK_TEST_MINUTES = 120;
+const WEEKLY_TEST_MINUTES = 60;
+
+const BASE_TOPIC_MINUTES: Record<SyllabusNode['difficulty'], number> = {
+  easy: 240,
+  medium: 360,
+  hard: 480
+};
+
+const IMPORTANCE_MULTIPLIER: Record<SyllabusNode['trends']['importance'], number> = {
+  high: 1.5,
+  medium: 1,
+  low: 0.7
+};
+
+const TREND_MULTIPLIER: Record<SyllabusNode['trends']['recentTrend'], number> = {
+  increasing: 1.2,
+  stable: 1,
+  decreasing: 0.8
+};
+
+const TRENDING_STATUS_MULTIPLIER: Record<TrendingTopic['status'], number> = {
+  hot: 1.3,
+  trending: 1.2,
+  emerging: 1.1,
+  stable: 1,
+  declining: 0.9,
+  cold: 0.8
+};
+
+const FOCUS_MULTIPLIER = 1.5;
+
+// dailyShare is held back on study days for spaced revision; finalShare is the
+// fraction of the whole plan set aside for revision before the exam
+const REVISION_SETTINGS: Record<StudyPlan['adaptiveSettings']['revision'], { dailyShare: number; finalShare: number }> = {
+  minimal: { dailyShare: 0.1, finalShare: 0.1 },
+  standard: { dailyShare: 0.2, finalShare: 0.15 },
+  intensive: { dailyShare: 0.3, finalShare: 0.25 }
+};
+
+export const MOCK_TEST_TOPIC_ID = 'mock_test';
+export const WEEKLY_TEST_TOPIC_ID = 'weekly_test';
+
+export interface StudyPlannerInput {
+  userId: string;
+  progress: SyllabusProgress;
+  examType: StudyPlan['examType'];
+  targetDate: Date;
+  dailyHours: number;
+  focus?: string[];
+  adaptiveSettings?: Partial<StudyPlan['adaptiveSettings']>;
+  trendingTopics?: TrendingTopic[];
+  startDate?: Date;
+  carryOverTopics?: string[]; // topics from missed sessions, scheduled ahead of everything else
+  taxonomy?: SyllabusTaxonomy;
+  utcOffsetMs?: number; // learner's timezone, IST by default
+}
+
+export interface MissedSlot extends StudyPlanSlot {
+  date: string;
+}
+
+interface PlannedTopic {
+  node: SyllabusNode;
+  weight: number;
+  learnMinutes: number;
+  practiceMinutes: number;
+  priority: Priority;
+  carriedOver: boolean;
+  previouslyStudied: boolean;
+  nextReview: Date | null;
+}
+
+interface PlanDay {
+  index: number;
+  key: string;
+  dayType: DayType;
+  slots: StudyPlanSlot[];
+  learnCapacity: number;
+  revisionCapacity: number;
+}
+
+/**
+ * Build a day-by-day study plan. The returned plan has version 0; the
+ * repository assigns the real version when it is stored.
+ */
+export function buildAdaptiveStudyPlan(input: StudyPlannerInput): StudyPlan {
+  const taxonomy = input.taxonomy || UPSC_SYLLABUS_TAXONOMY;
+  const utcOffsetMs = input.utcOffsetMs ?? IST_OFFSET_MS;
+  const start = startOfDay(input.startDate || new Date(), utcOffsetMs);
+  const end = startOfDay(input.targetDate, utcOffsetMs);
+  const totalDays = Math.round((end - start) / DAY_MS);
+
+  if (totalDays < 1) {
+    throw new Error('Target date must be at least one day after the plan start date');
+  }
+  if (!(input.dailyHours > 0) || input.dailyHours > 16) {
+    throw new Error('Daily hours must be greater than 0 and at most 16');
+  }
+
+  const revision = input.adaptiveSettings?.revision || 'standard';
+  const dailyMinutes = Math.round(input.dailyHours * 60);
+  const days = createCalendar(start, totalDays, dailyMinutes, REVISION_SETTINGS[revision], utcOffsetMs);
+  const topics = rankTopics(input, taxonomy);
+
+  const learnCapacity = days.reduce((sum, day) => sum + day.learnCapacity, 0);
+  const requiredMinutes = topics.reduce((sum, topic) => sum + topic.learnMinutes + topic.practiceMinutes, 0);
+
+  const { completedOn, unscheduled } = scheduleLearning(days, topics);
+  scheduleSpacedRevision(days, topics, completedOn, start, utcOffsetMs);
+  scheduleFinalRevision(days, topics, completedOn, dailyMinutes);
+  scheduleBufferDays(days, dailyMinutes);
+
+  const priorities = new Map(topics.map(topic => [topic.node.id, topic.priority]));
+  const now = new Date();
+
+  return {
+    id: `plan_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    userId: input.userId,
+    name: `${capitalize(input.examType === 'both' ? 'Prelims and Mains' : input.examType)} study plan until ${toDateKey(end, utcOffsetMs)}`,
+    version: 0,
+    startDate: new Date(start),
+    targetDate: input.targetDate,
+    examType: input.examType,
+    dailyHours: input.dailyHours,
+    focus: input.focus || [],
+    generatedAt: now,
+    lastUpdated: now,
+    schedule: {
+      daily: buildDailySchedule(days, priorities, dailyMinutes),
+      weekly: buildWeeklySchedule(days, completedOn, taxonomy),
+      monthly: buildMonthlySchedule(days, completedOn, taxonomy)
+    },
+    adaptiveSettings: {
+      difficulty: input.adaptiveSettings?.difficulty || 'adaptive',
+      pace: input.adaptiveSettings?.pace || determinePace(requiredMinutes, learnCapacity),
+      focus: input.adaptiveSettings?.focus || (input.focus && input.focus.length > 0 ? 'depth' : 'balanced'),
+      revision
+    },
+    notifications: {
+      reminders: true,
+      milestones: true,
+      deadlines: true,
+      encouragement: true
+    },
+    unscheduledTopics: unscheduled
+  };
+}
+
+/**
+ * Compare a plan against recorded sessions and return the slots on past days
+ * that have no matching session. `utcOffsetMs` must be the one the plan was built with.
+ */
+export function findMissedSlots(
+  plan: StudyPlan,
+  sessions: StudySession[],
+  asOf: Date = new Date(),
+  utcOffsetMs: number = IST_OFFSET_MS
+): MissedSlot[] {
+  const todayKey = toDateKey(asOf, utcOffsetMs);
+  const studied = new Set<string>();
+  const testDays = new Set<string>();
+
+  sessions.forEach(session => {
+    const key = toDateKey(session.timestamp.getTime(), utcOffsetMs);
+    studied.add(`${key}|${session.topicId}`);
+    if (session.sessionType === 'test') {
+      testDays.add(key);
+    }
+  });
+
+  const missed: MissedSlot[] = [];
+  Object.entries(plan.schedule.daily)
+    .filter(([date, day]) => date < todayKey && day.dayType !== 'buffer')
+    .sort(([a], [b]) => a.localeCompare(b))
+    .forEach(([date, day]) => {
+      day.slots.forEach(slot => {
+        const done = slot.activity === 'test'
+          ? testDays.has(date)
+          : studied.has(`${date}|${slot.topicId}`);
+        if (!done) {
+          missed.push({ ...slot, date });
+        }
+      });
+    });
+
+  return missed;
+}
+
+// Calendar date of an instant in the given timezone, as used for the plan's daily schedule keys
+export function toDateKey(time: number | Date, utcOffsetMs: number = IST_OFFSET_MS): string {
+  const value = typeof time === 'number' ? time : time.getTime();
+  return new Date(value + utcOffsetMs).toISOString().split('T')[0];
+}
+
+function createCalendar(
+  start: number,
+  totalDays: number,
+  dailyMinutes: number,
+  settings: { dailyShare: number; finalShare: number },
+  utcOffsetMs: number
+): PlanDay[] {
+  // Very short plans skip the final revision block rather than having no study days
+  const finalRevisionDays = totalDays >= BUFFER_DAY_INTERVAL
+    ? Math.max(1, Math.round(totalDays * settings.finalShare))
+    : 0;
+  const revisionReserve = Math.round(dailyMinutes * settings.dailyShare);
+
+  return Array.from({ length: totalDays }, (_, index) => {
+    let dayType: DayType = 'study';
+    if (index >= totalDays - finalRevisionDays) {
+      dayType = 'revision';
+    } else if (index % BUFFER_DAY_INTERVAL === BUFFER_DAY_INTERVAL - 1) {
+      dayType = 'buffer';
+    }
+
+    return {
+      index,
+      key: toDateKey(start + index * DAY_MS, utcOffsetMs),
+      dayType,
+      slots: [],
+      learnCapacity: dayType === 'study' ? dailyMinutes - revisionReserve : 0,
+      revisionCapacity: dayType === 'study' ? revisionReserve : 0
+    };
+  });
+}
+
+function rankTopics(input: StudyPlannerInput, taxonomy: SyllabusTaxonomy): PlannedTopic[] {
+  const progressById = new Map(input.progress.topics.map(topic => [topic.topicId, topic]));
+  const trendingById = new Map((input.trendingTopics || []).map(topic => [topic.topicId, topic]));
+  const focus = new Set(input.focus || []);
+  const carryOver = new Set(input.carryOverTopics || []);
+
+  const topics = Object.values(taxonomy.nodes)
+    .filter(node => isPlannable(node, taxonomy) && coversExam(node, input.examType))
+    .map(node => {
+      const progress = progressById.get(node.id);
+      const mastery = progress?.masteryLevel || 0;
+      const completion = progress?.completionPercentage || 0;
+      const trending = trendingById.get(node.id);
+      const inFocus = getLineage(node, taxonomy).some(id => focus.has(id));
+
+      const remaining = progress?.status === 'mastered'
+        ? 0
+        : Math.round(BASE_TOPIC_MINUTES[node.difficulty] * (1 - completion / 100));
+      const practiceMinutes = remaining > 0 ? Math.max(MIN_SLOT_MINUTES, Math.round(remaining * PRACTICE_SHARE)) : 0;
+
+      const weight = node.weightage *
+        IMPORTANCE_MULTIPLIER[node.trends.importance] *
+        TREND_MULTIPLIER[node.trends.recentTrend] *
+        (trending ? TRENDING_STATUS_MULTIPLIER[trending.status] : 1) *
+        (inFocus ? FOCUS_MULTIPLIER : 1) *
+        (1.2 - mastery / 100);
+
+      return {
+        node,
+        weight,
+        learnMinutes: Math.max(0, remaining - practiceMinutes),
+        practiceMinutes,
+        priority: 'medium' as Priority,
+        carriedOver: carryOver.has(node.id),
+        previouslyStudied: !!progress && progress.totalTimeSpent > 0,
+        nextReview: progress?.nextReview || null
+      };
+    })
+    .sort((a, b) => {
+      if (a.carriedOver !== b.carriedOver) return a.carriedOver ? -1 : 1;
+      if (b.weight !== a.weight) return b.weight - a.weight;
+      return a.node.id < b.node.id ? -1 : 1;
+    });
+
+  // Priorities split the ranking into thirds; carried-over work is always high
+  topics.forEach((topic, index) => {
+    const rank = index / topics.length;
+    topic.priority = topic.carriedOver || rank < 1 / 3 ? 'high' : rank < 2 / 3 ? 'medium' : 'low';
+  });
+
+  return topics;
+}
+
+function scheduleLearning(
+  days: PlanDay[],
+  topics: PlannedTopic[]
+): { completedOn: Map<string, number>; unscheduled: string[] } {
+  const studyDays = days.filter(day => day.dayType === 'study');
+  const completedOn = new Map<string, number>();
+  const unscheduled: string[] = [];
+  let cursor = 0;
+
+  for (const topic of topics) {
+    if (topic.learnMinutes + topic.practiceMinutes === 0) continue;
+
+    const parts: Array<[StudyPlanSlot['activity'], number]> = [
+      ['learn', topic.learnMinutes],
+      ['practice', topic.practiceMinutes]
+    ];
+    let lastDay = -1;
+    let placed = true;
+
+    for (const [activity, minutes] of parts) {
+      let remaining = minutes;
+      while (remaining > 0) {
+        const day = studyDays[cursor];
+        if (!day) {
+          placed = false;
+          break;
+        }
+        // Avoid slivers: move on when the day can't fit a meaningful slot
+        if (day.learnCapacity < Math.min(MIN_SLOT_MINUTES, remaining)) {
+          cursor++;
+          continue;
+        }
+
+        const allocated = Math.min(day.learnCapacity, remaining);
+        addSlot(day, topic.node, activity, allocated);
+        day.learnCapacity -= allocated;
+        remaining -= allocated;
+        lastDay = day.index;
+      }
+      if (!placed) break;
+    }
+
+    if (placed) {
+      completedOn.set(topic.node.id, lastDay);
+    } else {
+      unscheduled.push(topic.node.name);
+    }
+  }
+
+  return { completedOn, unscheduled };
+}
+
+function scheduleSpacedRevision(
+  days: PlanDay[],
+  topics: PlannedTopic[],
+  completedOn: Map<string, number>,
+  start: number,
+  utcOffsetMs: number
+): void {
+  for (const topic of topics) {
+    const finishedDay = completedOn.get(topic.node.id);
+
+    if (finishedDay !== undefined) {
+      REVISION_INTERVALS.forEach((interval, index) => {
+        placeRevision(days, finishedDay + interval, topic.node, REVISION_SLOT_MINUTES[index]);
+      });
+    } else if (topic.previouslyStudied && topic.nextReview) {
+      // Topics studied before this plan keep the review date the tracker already computed
+      const dueIndex = Math.max(0, Math.round((startOfDay(topic.nextReview, utcOffsetMs) - start) / DAY_MS));
+      placeRevision(days, dueIndex, topic.node, REVISION_SLOT_MINUTES[0]);
+    }
+  }
+}
+
+function placeRevision(days: PlanDay[], fromIndex: number, node: SyllabusNode, minutes: number): void {
+  for (let i = fromIndex; i < days.length; i++) {
+    const day = days[i];
+    // The final revision block covers every topic anyway
+    if (day.dayType === 'revision') return;
+    if (day.dayType !== 'study') continue;
+
+    if (day.revisionCapacity >= minutes) {
+      day.revisionCapacity -= minutes;
+    } else if (day.learnCapacity >= minutes) {
+      day.learnCapacity -= minutes;
+    } else {
+      continue;
+    }
+    addSlot(day, node, 'revision', minutes);
+    return;
+  }
+}
+
+function scheduleFinalRevision(
+  days: PlanDay[],
+  topics: PlannedTopic[],
+  completedOn: Map<string, number>,
+  dailyMinutes: number
+): void {
+  const revisionDays = days.filter(day => day.dayType === 'revision');
+  const pool = topics.filter(topic => completedOn.has(topic.node.id) || topic.previouslyStudied);
+  let next = 0;
+
+  revisionDays.forEach((day, index) => {
+    let remaining = dailyMinutes;
+    const isMockDay = index % MOCK_TEST_INTERVAL === MOCK_TEST_INTERVAL - 1 || index === revisionDays.length - 1;
+
+    if (isMockDay || pool.length === 0) {
+      const minutes = Math.min(MOCK_TEST_MINUTES, remaining);
+      day.slots.push({
+        topicId: MOCK_TEST_TOPIC_ID,
+        topicName: 'Full-length mock test',
+        activity: 'test',
+        minutes
+      });
+      remaining -= minutes;
+    }
+
+    // Cycle through the syllabus in priority order so every topic gets another pass
+    const visitedToday = new Set<string>();
+    while (pool.length > 0 && remaining >= MIN_SLOT_MINUTES) {
+      const topic = pool[next % pool.length];
+      if (visitedToday.has(topic.node.id)) break;
+      visitedToday.add(topic.node.id);
+
+      const minutes = Math.min(FINAL_REVISION_SLOT_MINUTES, remaining);
+      addSlot(day, topic.node, 'revision', minutes);
+      remaining -= minutes;
+      next++;
+    }
+  });
+}
+
+function scheduleBufferDays(days: PlanDay[], dailyMinutes: number): void {
+  days
+    .filter(day => day.dayType === 'buffer')
+    .forEach(day => {
+      day.slots.push({
+        topicId: WEEKLY_TEST_TOPIC_ID,
+        topicName: 'Weekly review test',
+        activity: 'test',
+        minutes: Math.min(WEEKLY_TEST_MINUTES, dailyMinutes)
+      });
+    });
+}
+
+function addSlot(day: PlanDay, node: SyllabusNode, activity: StudyPlanSlot['activity'], minutes: number): void {
+  const existing = day.slots.find(slot => slot.topicId === node.id && slot.activity === activity);
+  if (existing) {
+    existing.minutes += minutes;
+  } else {
+    day.slots.push({ topicId: node.id, topicName: node.name, activity, minutes });
+  }
+}
+
+function buildDailySchedule(
+  days: PlanDay[],
+  priorities: Map<string, Priority>,
+  dailyMinutes: number
+): StudyPlan['schedule']['daily'] {
+  const daily: StudyPlan['schedule']['daily'] = {};
+
+  days.forEach(day => {
+    const topicIds = Array.from(new Set(
+      day.slots.filter(slot => slot.activity !== 'test').map(slot => slot.topicId)
+    ));
+    const activities = day.slots.map(describeSlot);
+    if (day.dayType === 'buffer') {
+      activities.push('Catch up on anything missed this week');
+    }
+
+    let priority: Priority = 'low';
+    if (day.dayType === 'revision' || topicIds.some(id => priorities.get(id) === 'high')) {
+      priority = 'high';
+    } else if (topicIds.some(id => priorities.get(id) === 'medium')) {
+      priority = 'medium';
+    }
+
+    daily[day.key] = {
+      dayType: day.dayType,
+      topics: topicIds,
+      // Buffer days reserve the whole day even though only the test is fixed
+      timeAllocation: day.dayType === 'buffer'
+        ? dailyMinutes
+        : day.slots.reduce((sum, slot) => sum + slot.minutes, 0),
+      slots: day.slots,
+      activities,
+      priority
+    };
+  });
+
+  return daily;
+}
+
+function buildWeeklySchedule(
+  days: PlanDay[],
+  completedOn: Map<string, number>,
+  taxonomy: SyllabusTaxonomy
+): StudyPlan['schedule']['weekly'] {
+  const weekly: StudyPlan['schedule']['weekly'] = {};
+
+  for (let weekStart = 0; weekStart < days.length; weekStart += BUFFER_DAY_INTERVAL) {
+    const week = days.slice(weekStart, weekStart + BUFFER_DAY_INTERVAL);
+    const weekEnd = weekStart + week.length - 1;
+
+    const minutesByTopic = new Map<string, number>();
+    week.forEach(day => day.slots
+      .filter(slot => slot.activity !== 'test')
+      .forEach(slot => minutesByTopic.set(slot.topicName, (minutesByTopic.get(slot.topicName) || 0) + slot.minutes)));
+
+    weekly[`week_${weekStart / BUFFER_DAY_INTERVAL + 1}`] = {
+      focus: Array.from(minutesByTopic.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([name]) => name),
+      milestones: Array.from(completedOn.entries())
+        .filter(([, dayIndex]) => dayIndex >= weekStart && dayIndex <= weekEnd)
+        .map(([topicId]) => `Complete ${taxonomy.nodes[topicId].name}`),
+      assessments: week.flatMap(day => day.slots
+        .filter(slot => slot.activity === 'test')
+        .map(slot => `${slot.topicName} on ${day.key}`))
+    };
+  }
+
+  return weekly;
+}
+
+function buildMonthlySchedule(
+  days: PlanDay[],
+  completedOn: Map<string, number>,
+  taxonomy: SyllabusTaxonomy
+): StudyPlan['schedule']['monthly'] {
+  const monthly: StudyPlan['schedule']['monthly'] = {};
+  const months = new Map<string, PlanDay[]>();
+  days.forEach(day => {
+    const month = day.key.slice(0, 7);
+    months.set(month, [...(months.get(month) || []), day]);
+  });
+
+  months.forEach((monthDays, month) => {
+    const first = monthDays[0].index;
+    const last = monthDays[monthDays.length - 1].index;
+    const themes = new Set<string>();
+    monthDays.forEach(day => day.slots
+      .filter(slot => slot.activity === 'learn' || slot.activity === 'practice')
+      .forEach(slot => themes.add(getThemeName(slot.topicId, taxonomy))));
+
+    const completed = Array.from(completedOn.values()).filter(index => index >= first && index <= last).length;
+    const majorGoals: string[] = [];
+    if (completed > 0) {
+      majorGoals.push(`Complete ${completed} topic${completed === 1 ? '' : 's'}`);
+    }
+    if (monthDays.some(day => day.dayType === 'revision')) {
+      majorGoals.push('Final revision of the syllabus');
+    }
+
+    const countTests = (topicId: string) => monthDays
+      .reduce((sum, day) => sum + day.slots.filter(slot => slot.topicId === topicId).length, 0);
+    const weeklyTests = countTests(WEEKLY_TEST_TOPIC_ID);
+    const mockTests = countTests(MOCK_TEST_TOPIC_ID);
+    const evaluations: string[] = [];
+    if (weeklyTests > 0) evaluations.push(`${weeklyTests} weekly review test${weeklyTests === 1 ? '' : 's'}`);
+    if (mockTests > 0) evaluations.push(`${mockTests} full-length mock test${mockTests === 1 ? '' : 's'}`);
+
+    monthly[month] = {
+      themes: Array.from(themes).slice(0, 5),
+      majorGoals,
+      evaluations
+    };
+  });
+
+  return monthly;
+}
+
+function describeSlot(slot: StudyPlanSlot): string {
+  switch (slot.activity) {
+    case 'learn':
+      return `Study ${slot.topicName} (${slot.minutes} min)`;
+    case 'practice':
+      return `Practice questions on ${slot.topicName} (${slot.minutes} min)`;
+    case 'revision':
+      return `Revise ${slot.topicName} (${slot.minutes} min)`;
+    default:
+      return `${slot.topicName} (${slot.minutes} min)`;
+  }
+}
+
+function determinePace(requiredMinutes: number, capacity: number): StudyPlan['adaptiveSettings']['pace'] {
+  const load = capacity > 0 ? requiredMinutes / capacity : Infinity;
+  if (load <= 0.5) return 'slow';
+  if (load <= 0.8) return 'moderate';
+  if (load <= 1) return 'fast';
+  return 'intensive';
+}
+
+// Nodes whose children are not in the taxonomy are the units a plan schedules
+function isPlannable(node: SyllabusNode, taxonomy: SyllabusTaxonomy): boolean {
+  return !node.children.some(childId => taxonomy.nodes[childId]);
+}
+
+function coversExam(node: SyllabusNode, examType: StudyPlan['examType']): boolean {
+  return examType === 'both' || node.examType === 'both' || node.examType === examType;
+}
+
+function getLineage(node: SyllabusNode, taxonomy: SyllabusTaxonomy): string[] {
+  const lineage: string[] = [];
+  let current: SyllabusNode | undefined = node;
+  while (current) {
+    lineage.push(current.id);
+    current = current.parent ? taxonomy.nodes[current.parent] : undefined;
+  }
+  return lineage;
+}
+
+function getThemeName(topicId: string, taxonomy: SyllabusTaxonomy): string {
+  const node = taxonomy.nodes[topicId];
+  if (!node) return topicId;
+
+  let current: SyllabusNode | undefined = node;
+  while (current) {
+    if (current.level === 'subject' || current.level === 'paper') {
+      return current.name;
+    }
+    current = current.parent ? taxonomy.nodes[current.parent] : undefined;
+  }
+  return node.name;
+}
+
+// The instant local midnight begins the day `time` falls on
+function startOfDay(time: number | Date, utcOffsetMs: number): number {
+  const value = typeof time === 'number' ? time : time.getTime();
+  return Math.floor((value + utcOffsetMs) / DAY_MS) * DAY_MS - utcOffsetMs;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -3,10 +3,23 @@
  */
 
 import { syllabusMapper, SyllabusNode } from '../syllabus/upsc-syllabus-taxonomy';
+import { migrateSyllabusRecord, resolveSyllabusId } from '@/lib/syllabus';
 import { TaggedContent } from '../tagging/advanced-tagging-system';
-import { TrendingTopic } from '../analysis/relevance-scoring-system';
+import type { TrendingTopic, RelevanceScoringSystem } from '../analysis/relevance-scoring-system';
 import { Logger } from '../core/logger';
 import { databaseAdapter } from '../persistence/database-adapter';
+import {
+  ProgressRepository,
+  FirestoreProgressRepository,
+  StudyPlanVersionSummary
+} from '../persistence/progress-repository';
+import {
+  buildAdaptiveStudyPlan,
+  findMissedSlots,
+  MissedSlot,
+  MOCK_TEST_TOPIC_ID,
+  WEEKLY_TEST_TOPIC_ID
+} from './adaptive-study-planner';
 
 export interface StudySession {
   id: string;
@@ -130,18 +143,33 @@ export interface VisualizationData {
   insights: string[];
 }
 
+export interface StudyPlanSlot {
+  topicId: string;
+  topicName: string;
+  activity: 'learn' | 'practice' | 'revision' | 'test';
+  minutes: number;
+}
+
 export interface StudyPlan {
   id: string;
   userId: string;
   name: string;
+  version: number; // increments every time the plan is regenerated for the user
+  previousVersion?: number;
+  replanReason?: string;
+  startDate: Date;
   targetDate: Date;
   examType: 'prelims' | 'mains' | 'both';
+  dailyHours: number;
+  focus: string[];
   generatedAt: Date;
   lastUpdated: Date;
   schedule: {
-    daily: Record<string, {
+    daily: Record<string, { // keyed by YYYY-MM-DD
+      dayType: 'study' | 'buffer' | 'revision';
       topics: string[];
       timeAllocation: number; // minutes
+      slots: StudyPlanSlot[];
       activities: string[];
       priority: 'high' | 'medium' | 'low';
     }>;
@@ -168,13 +196,36 @@ export interface StudyPlan {
     deadlines: boolean;
     encouragement: boolean;
   };
+  unscheduledTopics: string[]; // topics that did not fit before the target date
+}
+
+export interface StudyPlanOptions {
+  examType: 'prelims' | 'mains' | 'both';
+  targetDate: Date;
+  dailyHours: number;
+  focus?: string[];
+  adaptiveSettings?: Partial<StudyPlan['adaptiveSettings']>;
 }
 
+type TrendingTopicsSource = Pick<RelevanceScoringSystem, 'analyzeTrendingTopics'>;
+
+const TRENDING_WINDOW_YEARS = 2;
+const TRENDING_CACHE_TTL = 60 * 60 * 1000;
+
 export class SyllabusProgressTracker {
   private logger: Logger;
-
-  constructor(logger: Logger) {
+  private repository: ProgressRepository;
+  private trendingSource?: TrendingTopicsSource;
+  private trendingCache: { topics: TrendingTopic[]; fetchedAt: number } | null = null;
+
+  constructor(
+    logger: Logger,
+    repository: ProgressRepository = new FirestoreProgressRepository(),
+    trendingSource?: TrendingTopicsSource
+  ) {
     this.logger = logger;
+    this.repository = repository;
+    this.trendingSource = trendingSource;
   }
 
   /**
@@ -183,6 +234,7 @@ export class SyllabusProgressTracker {
   async recordStudySession(session: Omit<StudySession, 'id' | 'timestamp'>): Promise<StudySession> {
     const studySession: StudySession = {
       ...session,
+      topicId: resolveSyllabusId(session.topicId) || session.topicId,
       id: `session_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       timestamp: new Date()
     };
@@ -192,7 +244,7 @@ export class SyllabusProgressTracker {
       await this.storeStudySession(studySession);
       
       // Update topic progress
-      await this.updateTopicProgress(session.userId, session.topicId, studySession);
+      await this.updateTopicProgress(session.userId, studySession.topicId, studySession);
       
       // Update overall progress
       await this.updateOverallProgress(session.userId);
@@ -276,23 +328,16 @@ export class SyllabusProgressTracker {
   /**
    * Generate personalized study plan
    */
-  async generateStudyPlan(
-    userId: string,
-    options: {
-      examType: 'prelims' | 'mains' | 'both';
-      targetDate: Date;
-      dailyHours: number;
-      focus?: string[];
-      adaptiveSettings?: Partial<StudyPlan['adaptiveSettings']>;
-    }
-  ): Promise<StudyPlan> {
+  async generateStudyPlan(userId: string, options: StudyPlanOptions): Promise<StudyPlan> {
     this.logger.info('Generating study plan', { userId, options });
 
     try {
       const progress = await this.getUserProgress(userId);
       const trendingTopics = await this.getTrendingTopics();
+      const [previous] = await this.repository.listStudyPlanVersions(userId, 1);
       
       const plan = await this.createAdaptiveStudyPlan(progress, trendingTopics, options);
+      plan.previousVersion = previous?.version;
       
       // Store study plan
       await this.storeStudyPlan(plan);
@@ -305,6 +350,87 @@ export class SyllabusProgressTracker {
     }
   }
 
+  /**
+   * Get the latest study plan, or a specific version
+   */
+  async getStudyPlan(userId: string, version?: number): Promise<StudyPlan | null> {
+    return version === undefined
+      ? this.repository.getLatestStudyPlan(userId)
+      : this.repository.getStudyPlan(userId, version);
+  }
+
+  /**
+   * List stored versions of a user's study plan, newest first
+   */
+  async getStudyPlanHistory(userId: string, maxResults?: number): Promise<StudyPlanVersionSummary[]> {
+    return this.repository.listStudyPlanVersions(userId, maxResults);
+  }
+
+  /**
+   * Check the current plan for missed sessions and, if any, store a new plan
+   * version starting today with the missed topics scheduled first
+   */
+  async replanMissedSessions(userId: string, asOf: Date = new Date()): Promise<{
+    plan: StudyPlan;
+    missed: MissedSlot[];
+    replanned: boolean;
+  }> {
+    const current = await this.repository.getLatestStudyPlan(userId);
+    if (!current) {
+      throw new Error(`No study plan found for user ${userId}`);
+    }
+
+    const sessions = (await this.getUserStudySessions(userId))
+      .filter(session => session.timestamp >= current.startDate);
+    const missed = findMissedSlots(current, sessions, asOf);
+
+    if (missed.length === 0 || asOf >= current.targetDate) {
+      return { plan: current, missed, replanned: false };
+    }
+
+    this.logger.info('Re-planning after missed sessions', {
+      userId,
+      version: current.version,
+      missedSlots: missed.length
+    });
+
+    try {
+      const progress = await this.getUserProgress(userId);
+      const trendingTopics = await this.getTrendingTopics();
+      const carryOverTopics = Array.from(new Set(
+        missed
+          .map(slot => slot.topicId)
+          .filter(topicId => topicId !== MOCK_TEST_TOPIC_ID && topicId !== WEEKLY_TEST_TOPIC_ID)
+      ));
+
+      const plan = buildAdaptiveStudyPlan({
+        userId,
+        progress,
+        examType: current.examType,
+        targetDate: current.targetDate,
+        dailyHours: current.dailyHours,
+        focus: current.focus,
+        adaptiveSettings: {
+          difficulty: current.adaptiveSettings.difficulty,
+          focus: current.adaptiveSettings.focus,
+          revision: current.adaptiveSettings.revision
+        },
+        trendingTopics,
+        startDate: asOf,
+        carryOverTopics
+      });
+      plan.previousVersion = current.version;
+      plan.replanReason = `${missed.length} missed session${missed.length === 1 ? '' : 's'} since ${missed[0].date}`;
+
+      await this.storeStudyPlan(plan);
+      return { plan, missed, replanned: true };
+
+    } catch (error) {
+      this.logger.error('Failed to re-plan study plan', error as Error, { userId });
+      throw error;
+    }
+  }
+
   /**
    * Get intelligent recommendations
    */
@@ -343,12 +469,13 @@ export class SyllabusProgressTracker {
       conceptualUnderstanding?: number;
     }
   ): Promise<void> {
-    const topicProgress = await this.getTopicProgress(userId, topicId);
+    const canonicalId = resolveSyllabusId(topicId) || topicId;
+    const topicProgress = await this.getTopicProgress(userId, canonicalId);
     
     if (topicProgress) {
       // Update mastery level based on performance
       const newMastery = this.calculateMasteryUpdate(topicProgress, performance);
-      await this.updateTopicMasteryLevel(userId, topicId, newMastery);
+      await this.updateTopicMasteryLevel(userId, canonicalId, newMastery);
     }
   }
 
@@ -413,8 +540,8 @@ export class SyllabusProgressTracker {
    */
 
   private async storeStudySession(session: StudySession): Promise<void> {
-    // Store in database
     this.logger.debug('Storing study session', { sessionId: session.id });
+    await this.repository.saveStudySession(session);
   }
 
   private async updateTopicProgress(userId: string, topicId: string, session: StudySession): Promise<void> {
@@ -428,29 +555,36 @@ export class SyllabusProgressTracker {
   }
 
   private async getUserStudySessions(userId: string): Promise<StudySession[]> {
-    // Retrieve all study sessions for user
-    return [];
+    // The repository returns newest first; progress calculations expect chronological order
+    const sessions = await this.repository.getStudySessions(userId);
+    return sessions.reverse();
   }
 
   private async calculateTopicProgresses(userId: string, sessions: StudySession[]): Promise<TopicProgress[]> {
     const topicMap = new Map<string, StudySession[]>();
     
-    // Group sessions by topic
+    // Group sessions by topic; sessions recorded under retired syllabus ids count
+    // towards the node that replaced them
     sessions.forEach(session => {
-      if (!topicMap.has(session.topicId)) {
-        topicMap.set(session.topicId, []);
+      const topicId = resolveSyllabusId(session.topicId) || session.topicId;
+      if (!topicMap.has(topicId)) {
+        topicMap.set(topicId, []);
       }
-      topicMap.get(session.topicId)!.push(session);
+      topicMap.get(topicId)!.push(session);
     });
 
     const topicProgresses: TopicProgress[] = [];
+    const masteryOverrides = migrateSyllabusRecord(
+      await this.repository.getTopicMastery(userId),
+      (existing, incoming) => (incoming.updatedAt > existing.updatedAt ? incoming : existing)
+    );
 
     for (const [topicId, topicSessions] of topicMap) {
       const topicNode = syllabusMapper['taxonomy'].nodes[topicId];
       if (!topicNode) continue;
 
       const progress = this.calculateSingleTopicProgress(topicNode, topicSessions);
-      topicProgresses.push(progress);
+      topicProgresses.push(this.applyMasteryOverride(progress, masteryOverrides[topicId]?.masteryLevel));
     }
 
     return topicProgresses;
@@ -754,33 +888,77 @@ export class SyllabusProgressTracker {
     return Math.min(100, topicProgress.masteryLevel + 5);
   }
 
-  private getTopicProgress(userId: string, topicId: string): Promise<TopicProgress | null> {
-    // Implementation to get specific topic progress
-    return Promise.resolve(null);
+  private async getTopicProgress(userId: string, topicId: string): Promise<TopicProgress | null> {
+    const topicNode = syllabusMapper['taxonomy'].nodes[topicId];
+    if (!topicNode) return null;
+
+    const sessions = (await this.repository.getStudySessions(userId, { topicId })).reverse();
+    if (sessions.length === 0) return null;
+
+    const masteryOverrides = await this.repository.getTopicMastery(userId);
+    return this.applyMasteryOverride(
+      this.calculateSingleTopicProgress(topicNode, sessions),
+      masteryOverrides[topicId]?.masteryLevel
+    );
   }
 
-  private updateTopicMasteryLevel(userId: string, topicId: string, mastery: number): Promise<void> {
-    // Implementation to update mastery level
-    return Promise.resolve();
+  private async updateTopicMasteryLevel(userId: string, topicId: string, mastery: number): Promise<void> {
+    await this.repository.saveTopicMastery(userId, {
+      topicId,
+      masteryLevel: Math.max(0, Math.min(100, mastery)),
+      updatedAt: new Date()
+    });
+    this.logger.debug('Updated topic mastery', { userId, topicId, mastery });
   }
 
-  private getTrendingTopics(): Promise<TrendingTopic[]> {
-    // Implementation to get trending topics
-    return Promise.resolve([]);
+  // Mastery set from performance updates takes precedence over the session-derived estimate
+  private applyMasteryOverride(progress: TopicProgress, masteryLevel?: number): TopicProgress {
+    if (masteryLevel === undefined) return progress;
+    return {
+      ...progress,
+      masteryLevel,
+      status: this.determineTopicStatus(progress.completionPercentage, masteryLevel)
+    };
   }
 
-  private createAdaptiveStudyPlan(
+  private async getTrendingTopics(): Promise<TrendingTopic[]> {
+    if (!this.trendingSource) return [];
+
+    if (this.trendingCache && Date.now() - this.trendingCache.fetchedAt < TRENDING_CACHE_TTL) {
+      return this.trendingCache.topics;
+    }
+
+    const endDate = new Date();
+    const startDate = new Date(endDate);
+    startDate.setFullYear(startDate.getFullYear() - TRENDING_WINDOW_YEARS);
+
+    try {
+      const topics = await this.trendingSource.analyzeTrendingTopics({ startDate, endDate }, { includeSubtopics: true });
+      this.trendingCache = { topics, fetchedAt: Date.now() };
+      return topics;
+    } catch (error) {
+      // Trends only adjust priorities, so planning carries on without them
+      this.logger.warn('Trending topic analysis unavailable', { error: (error as Error).message });
+      return [];
+    }
+  }
+
+  private async createAdaptiveStudyPlan(
     progress: SyllabusProgress, 
     trendingTopics: TrendingTopic[], 
-    options: any
+    options: StudyPlanOptions
   ): Promise<StudyPlan> {
-    // Implementation for creating adaptive study plan
-    return Promise.resolve({} as StudyPlan);
+    return buildAdaptiveStudyPlan({
+      userId: progress.userId,
+      progress,
+      trendingTopics,
+      ...options
+    });
   }
 
-  private storeStudyPlan(plan: StudyPlan): Promise<void> {
-    // Implementation to store study plan
-    return Promise.resolve();
+  private async storeStudyPlan(plan: StudyPlan): Promise<void> {
+    plan.version = await this.repository.saveStudyPlan(plan);
+    this.logger.info('Stored study plan', { userId: plan.userId, planId: plan.id, version: plan.version });
   }
 
   private generateImmediateRecommendations(progress: SyllabusProgress): string[] {
@@ -1,22 +1,53 @@
 /**
  * @fileOverview A/B Testing Framework for Prompt Optimization
+ *
+ * Experiments, sticky user assignments and results are persisted through an
+ * ExperimentStore, so they survive deploys and every server instance agrees on
+ * a user's variant. Variants are compared to the control (the first variant)
+ * with sequential tests after every batch of results; an experiment stops on
+ * its own when a variant wins, loses, breaches a guardrail or runs out of time,
+ * and a winning variant is then served to everyone.
  */
 
-import { qualityTracker } from '../metrics/quality-tracker';
-import { NewspaperAnalysisInput, NewspaperAnalysisOutput } from '../types';
+import {
+  ExperimentStore,
+  FirestoreExperimentStore,
+  InMemoryExperimentStore,
+  StoredExperimentResult
+} from './experiment-store';
+import { runSequentialTest } from './sequential-testing';
+
+export const EXPERIMENT_DOMAINS = ['newspaper-analysis', 'quiz-generation', 'writing-evaluation'] as const;
+export type ExperimentDomain = typeof EXPERIMENT_DOMAINS[number];
+
+export type ExperimentStopReason = 'winner' | 'control_better' | 'guardrail' | 'end_date' | 'manual';
+
+export interface ExperimentMetricConfig {
+  name: string; // key in ExperimentResult.metrics; booleans count as 0/1
+  role: 'primary' | 'guardrail';
+  direction: 'increase' | 'decrease'; // which way is better
+  minimumDetectableEffect: number; // smallest difference worth acting on, in the metric's units
+}
 
 export interface ExperimentConfig {
   id: string;
   name: string;
   description: string;
+  domain?: ExperimentDomain; // defaults to newspaper-analysis
   startDate: Date;
   endDate: Date;
-  variants: ExperimentVariant[];
+  variants: ExperimentVariant[]; // the first variant is the control
   targetMetrics: string[];
-  minSampleSize: number;
+  metrics?: ExperimentMetricConfig[]; // defaults to DEFAULT_EXPERIMENT_METRICS for the domain
+  minSampleSize: number; // results collected before any decision is made
   confidenceLevel: number; // 0.95 for 95% confidence
   status: 'draft' | 'active' | 'completed' | 'paused';
   segments?: UserSegment[];
+  winningVariantId?: string;
+  stoppedReason?: ExperimentStopReason;
+  stoppedAt?: Date;
+  // Running sequential p-values by variant and metric
+  sequentialPValues?: Record<string, Record<string, number>>;
 }
 
 export interface ExperimentVariant {
@@ -47,61 +78,119 @@ export interface UserSegment {
   };
 }
 
+export type ExperimentMetrics = StoredExperimentResult['metrics'];
+
 export interface ExperimentResult {
   experimentId: string;
   variantId: string;
   userId: string;
   sessionId: string;
-  input: NewspaperAnalysisInput;
-  output: NewspaperAnalysisOutput;
-  metrics: {
-    qualityScore: number;
-    processingTime: number;
-    userSatisfaction?: number;
-    taskCompletion: boolean;
-    tokenUsage: number;
-    cost: number;
-  };
+  input?: unknown;
+  output?: unknown;
+  metrics: ExperimentMetrics;
   timestamp: Date;
 }
 
+const LATENCY_GUARDRAIL: ExperimentMetricConfig = { name: 'processingTime', role: 'guardrail', direction: 'decrease', minimumDetectableEffect: 5000 };
+const COMPLETION_GUARDRAIL: ExperimentMetricConfig = { name: 'taskCompletion', role: 'guardrail', direction: 'increase', minimumDetectableEffect: 0.05 };
+const COST_GUARDRAIL: ExperimentMetricConfig = { name: 'cost', role: 'guardrail', direction: 'decrease', minimumDetectableEffect: 0.5 };
+
+export const DEFAULT_EXPERIMENT_METRICS: Record<ExperimentDomain, ExperimentMetricConfig[]> = {
+  'newspaper-analysis': [
+    { name: 'qualityScore', role: 'primary', direction: 'increase', minimumDetectableEffect: 0.05 },
+    COMPLETION_GUARDRAIL,
+    LATENCY_GUARDRAIL
+  ],
+  'quiz-generation': [
+    { name: 'qualityScore', role: 'primary', direction: 'increase', minimumDetectableEffect: 0.05 },
+    COMPLETION_GUARDRAIL,
+    LATENCY_GUARDRAIL,
+    COST_GUARDRAIL
+  ],
+  // Evaluations have no automatic quality score, so they are judged on user ratings
+  'writing-evaluation': [
+    { name: 'userSatisfaction', role: 'primary', direction: 'increase', minimumDetectableEffect: 0.5 },
+    COMPLETION_GUARDRAIL,
+    LATENCY_GUARDRAIL,
+    COST_GUARDRAIL
+  ]
+};
+
+export interface ExperimentFrameworkOptions {
+  store?: ExperimentStore;
+  cacheTtlMs?: number; // how long an instance trusts its copy of an experiment
+  evaluationInterval?: number; // results recorded on this instance between automatic evaluations
+  now?: () => Date;
+}
+
+interface CachedExperiments {
+  loadedAt: number;
+  experiments: ExperimentConfig[];
+}
+
+function getMetricValue(metrics: ExperimentMetrics, name: string): number | undefined {
+  const value = metrics[name];
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return typeof value === 'number' && isFinite(value) ? value : undefined;
+}
+
 /**
  * A/B Testing Framework for systematic prompt optimization
  */
 export class ExperimentFramework {
-  private experiments: Map<string, ExperimentConfig> = new Map();
-  private results: ExperimentResult[] = [];
-  private userAssignments: Map<string, Map<string, string>> = new Map(); // userId -> experimentId -> variantId
+  private store: ExperimentStore;
+  private cacheTtlMs: number;
+  private evaluationInterval: number;
+  private now: () => Date;
+  private cache: CachedExperiments | null = null;
+  private resultsSinceEvaluation: Map<string, number> = new Map();
+
+  constructor(options: ExperimentFrameworkOptions = {}) {
+    this.store = options.store || new InMemoryExperimentStore();
+    this.cacheTtlMs = options.cacheTtlMs ?? 60 * 1000;
+    this.evaluationInterval = options.evaluationInterval ?? 20;
+    this.now = options.now || (() => new Date());
+  }
 
   /**
    * Create a new experiment
    */
-  createExperiment(config: ExperimentConfig): void {
+  async createExperiment(config: ExperimentConfig): Promise<void> {
     // Validate experiment configuration
     this.validateExperimentConfig(config);
-    
+
     // Ensure traffic allocation adds up to 100%
     const totalAllocation = config.variants.reduce((sum, v) => sum + v.trafficAllocation, 0);
     if (Math.abs(totalAllocation - 100) > 0.01) {
       throw new Error(`Traffic allocation must sum to 100%, got ${totalAllocation}%`);
     }
 
-    this.experiments.set(config.id, config);
+    await this.saveExperiment(config);
   }
 
   /**
-   * Assign user to experiment variant
+   * Get an experiment, from this instance's cache when it is fresh
    */
-  assignUserToVariant(userId: string, experimentId: string): string | null {
-    const experiment = this.experiments.get(experimentId);
-    if (!experiment || experiment.status !== 'active') {
+  async getExperiment(experimentId: string): Promise<ExperimentConfig | null> {
+    return (await this.getExperiments()).find(experiment => experiment.id === experimentId) || null;
+  }
+
+  /**
+   * Assign user to experiment variant. Once an experiment has been decided,
+   * every user gets the winning variant.
+   */
+  async assignUserToVariant(userId: string, experimentId: string): Promise<string | null> {
+    const experiment = await this.getExperiment(experimentId);
+    if (!experiment) {
       return null;
     }
 
-    // Check if user already assigned
-    const userExperiments = this.userAssignments.get(userId) || new Map();
-    if (userExperiments.has(experimentId)) {
-      return userExperiments.get(experimentId)!;
+    if (experiment.status === 'completed') {
+      return experiment.winningVariantId || null;
+    }
+
+    if (!this.isRunning(experiment)) {
+      return null;
     }
 
     // Check if user meets segment criteria
@@ -109,87 +198,154 @@ export class ExperimentFramework {
       return null;
     }
 
-    // Assign variant based on hash and traffic allocation
+    // Assign variant based on hash and traffic allocation; the first stored assignment wins
     const variantId = this.assignVariantByHash(userId, experimentId, experiment.variants);
-    
-    // Store assignment
-    userExperiments.set(experimentId, variantId);
-    this.userAssignments.set(userId, userExperiments);
+    const assignment = await this.store.claimAssignment({ experimentId, userId, variantId, assignedAt: this.now() });
 
-    return variantId;
+    return assignment.variantId;
   }
 
   /**
-   * Record experiment result
+   * Variant configuration to use for a user, or null to use the defaults
    */
-  recordResult(result: ExperimentResult): void {
-    this.results.push(result);
-
-    // Update quality tracker with experiment context
-    qualityTracker.trackSession(
-      result.sessionId,
-      result.userId,
-      {
-        articleLength: result.input.sourceText.length,
-        sourceType: 'text', // Simplified for now
-        examType: result.input.examType,
-        analysisFocus: result.input.analysisFocus
-      },
-      result.output,
-      result.metrics.processingTime,
-      {
-        input: 0, // Would need to extract from actual usage
-        output: 0,
-        total: result.metrics.tokenUsage
-      },
-      result.metrics.cost
-    );
+  async resolveVariant(userId: string, experimentId: string): Promise<ExperimentVariant | null> {
+    const variantId = await this.assignUserToVariant(userId, experimentId);
+    const experiment = variantId ? await this.getExperiment(experimentId) : null;
+    return experiment?.variants.find(variant => variant.id === variantId) || null;
   }
 
   /**
-   * Analyze experiment results
+   * Variant for a user from the running (or decided) experiment in a domain,
+   * so features can take part without knowing experiment IDs. Fails open: when
+   * the store cannot be reached the feature runs on its defaults.
    */
-  analyzeExperiment(experimentId: string): ExperimentAnalysis {
-    const experiment = this.experiments.get(experimentId);
-    if (!experiment) {
-      throw new Error(`Experiment ${experimentId} not found`);
+  async resolveDomainVariant(
+    domain: ExperimentDomain,
+    userId: string
+  ): Promise<{ experimentId: string; variant: ExperimentVariant } | null> {
+    try {
+      const candidates = (await this.getExperiments())
+        .filter(experiment => (experiment.domain || 'newspaper-analysis') === domain)
+        .filter(experiment => this.isRunning(experiment) || (experiment.status === 'completed' && experiment.winningVariantId));
+
+      // A running experiment takes precedence over an earlier winner
+      candidates.sort((a, b) => Number(b.status === 'active') - Number(a.status === 'active'));
+
+      for (const experiment of candidates) {
+        const variant = await this.resolveVariant(userId, experiment.id);
+        if (variant) return { experimentId: experiment.id, variant };
+      }
+      return null;
+    } catch (error) {
+      console.error(`Failed to resolve the ${domain} experiment variant:`, error);
+      return null;
     }
+  }
 
-    const experimentResults = this.results.filter(r => r.experimentId === experimentId);
-    
-    if (experimentResults.length < experiment.minSampleSize) {
-      return {
-        experimentId,
-        status: 'insufficient_data',
-        sampleSize: experimentResults.length,
-        requiredSampleSize: experiment.minSampleSize,
-        variants: [],
-        recommendations: ['Collect more data before analyzing results']
-      };
+  /**
+   * Record experiment result. Results arriving after an experiment has stopped
+   * (from users served the promoted winner) are ignored.
+   */
+  async recordResult(result: ExperimentResult): Promise<void> {
+    const experiment = await this.getExperiment(result.experimentId);
+    if (!experiment || experiment.status !== 'active') {
+      return;
     }
 
-    const variantAnalyses = experiment.variants.map(variant => 
-      this.analyzeVariant(variant, experimentResults)
-    );
-
-    const statisticalSignificance = this.calculateStatisticalSignificance(
-      variantAnalyses,
-      experiment.confidenceLevel
-    );
+    await this.store.saveExperimentResult({
+      id: `${result.experimentId}_${result.sessionId}`,
+      experimentId: result.experimentId,
+      variantId: result.variantId,
+      userId: result.userId,
+      sessionId: result.sessionId,
+      timestamp: result.timestamp,
+      metrics: result.metrics
+    });
+
+    const pending = (this.resultsSinceEvaluation.get(result.experimentId) || 0) + 1;
+    this.resultsSinceEvaluation.set(result.experimentId, pending);
+    if (pending >= this.evaluationInterval) {
+      this.resultsSinceEvaluation.set(result.experimentId, 0);
+      await this.evaluateExperiment(result.experimentId);
+    }
+  }
 
-    const winningVariant = this.determineWinningVariant(variantAnalyses);
-    const recommendations = this.generateRecommendations(variantAnalyses, statisticalSignificance);
+  /**
+   * Record engagement that arrives after the session (ratings, follow-up
+   * actions) against the variant the user was assigned
+   */
+  async recordEngagement(
+    experimentId: string,
+    userId: string,
+    sessionId: string,
+    metrics: Partial<ExperimentMetrics>
+  ): Promise<void> {
+    const assignment = (await this.store.getAssignments(userId)).find(existing => existing.experimentId === experimentId);
+    if (!assignment) {
+      return;
+    }
 
-    return {
+    await this.recordResult({
       experimentId,
-      status: statisticalSignificance ? 'significant' : 'inconclusive',
-      sampleSize: experimentResults.length,
-      requiredSampleSize: experiment.minSampleSize,
-      variants: variantAnalyses,
-      winningVariant,
-      statisticalSignificance,
-      recommendations
-    };
+      variantId: assignment.variantId,
+      userId,
+      sessionId: `${sessionId}_engagement`,
+      // Only the engagement metrics are set, so this row doesn't skew the operational ones
+      metrics: metrics as ExperimentMetrics,
+      timestamp: this.now()
+    });
+  }
+
+  /**
+   * Analyze experiment results without changing the experiment
+   */
+  async analyzeExperiment(experimentId: string): Promise<ExperimentAnalysis> {
+    const experiment = await this.requireExperiment(experimentId);
+    const results = await this.store.getExperimentResults(experimentId);
+    return this.buildAnalysis(experiment, results);
+  }
+
+  /**
+   * Run the sequential tests, store their running p-values and stop the
+   * experiment when a decision is reached
+   */
+  async evaluateExperiment(experimentId: string): Promise<ExperimentAnalysis> {
+    const experiment = await this.requireExperiment(experimentId);
+    const results = await this.store.getExperimentResults(experimentId);
+    const analysis = this.buildAnalysis(experiment, results);
+
+    if (experiment.status !== 'active') {
+      return analysis;
+    }
+
+    const updated: ExperimentConfig = { ...experiment, sequentialPValues: analysis.sequentialPValues };
+    if (analysis.decision.action === 'stop') {
+      updated.status = 'completed';
+      updated.stoppedReason = analysis.decision.reason;
+      updated.stoppedAt = this.now();
+      updated.winningVariantId = analysis.decision.winningVariantId;
+    }
+    await this.saveExperiment(updated);
+
+    return analysis;
+  }
+
+  /**
+   * Stop an experiment by hand, optionally promoting a variant
+   */
+  async stopExperiment(experimentId: string, winningVariantId?: string): Promise<void> {
+    const experiment = await this.requireExperiment(experimentId);
+    if (winningVariantId && !experiment.variants.some(variant => variant.id === winningVariantId)) {
+      throw new Error(`Variant ${winningVariantId} is not part of experiment ${experimentId}`);
+    }
+
+    await this.saveExperiment({
+      ...experiment,
+      status: 'completed',
+      stoppedReason: 'manual',
+      stoppedAt: this.now(),
+      winningVariantId
+    });
   }
 
   /**
@@ -211,6 +367,15 @@ export class ExperimentFramework {
     if (config.endDate <= config.startDate) {
       throw new Error('End date must be after start date');
     }
+
+    const metrics = this.getMetricConfigs(config);
+    if (!metrics.some(metric => metric.role === 'primary')) {
+      throw new Error('Experiment must have at least one primary metric');
+    }
+
+    if (metrics.some(metric => metric.minimumDetectableEffect <= 0)) {
+      throw new Error('Minimum detectable effects must be positive');
+    }
   }
 
   /**
@@ -234,10 +399,10 @@ export class ExperimentFramework {
       hash = ((hash << 5) - hash) + char;
       hash = hash & hash; // Convert to 32-bit integer
     }
-    
+
     // Convert to 0-100 range
     const percentage = Math.abs(hash) % 100;
-    
+
     // Find variant based on traffic allocation
     let cumulativeAllocation = 0;
     for (const variant of variants) {
@@ -246,17 +411,118 @@ export class ExperimentFramework {
         return variant.id;
       }
     }
-    
+
     // Fallback to last variant
     return variants[variants.length - 1].id;
   }
 
+  private getMetricConfigs(experiment: ExperimentConfig): ExperimentMetricConfig[] {
+    return experiment.metrics || DEFAULT_EXPERIMENT_METRICS[experiment.domain || 'newspaper-analysis'];
+  }
+
+  private isRunning(experiment: ExperimentConfig): boolean {
+    const now = this.now();
+    return experiment.status === 'active' && now >= experiment.startDate && now <= experiment.endDate;
+  }
+
+  /**
+   * Compare every treatment with the control and decide whether to stop
+   */
+  private buildAnalysis(experiment: ExperimentConfig, results: StoredExperimentResult[]): ExperimentAnalysis {
+    const [control, ...treatments] = experiment.variants;
+    const metrics = this.getMetricConfigs(experiment);
+    const variantAnalyses = experiment.variants.map(variant => this.analyzeVariant(variant, results));
+
+    // Bonferroni correction across the treatments compared with the control
+    const alpha = (1 - experiment.confidenceLevel) / treatments.length;
+    const valuesFor = (variantId: string, metric: string) => results
+      .filter(result => result.variantId === variantId)
+      .map(result => getMetricValue(result.metrics, metric))
+      .filter((value): value is number => value !== undefined);
+
+    const sequentialTests: SequentialTestSummary[] = [];
+    const sequentialPValues: Record<string, Record<string, number>> = {};
+    for (const treatment of treatments) {
+      sequentialPValues[treatment.id] = {};
+      for (const metric of metrics) {
+        const test = runSequentialTest(valuesFor(control.id, metric.name), valuesFor(treatment.id, metric.name), {
+          alpha,
+          minimumDetectableEffect: metric.minimumDetectableEffect,
+          previousPValue: experiment.sequentialPValues?.[treatment.id]?.[metric.name]
+        });
+        const improved = metric.direction === 'increase' ? test.effect > 0 : test.effect < 0;
+
+        sequentialPValues[treatment.id][metric.name] = test.pValue;
+        sequentialTests.push({
+          variantId: treatment.id,
+          metric: metric.name,
+          role: metric.role,
+          effect: test.effect,
+          pValue: test.pValue,
+          significant: test.significant,
+          outcome: !test.significant ? 'undecided' : improved ? 'better' : 'worse'
+        });
+      }
+    }
+
+    const decision = results.length < experiment.minSampleSize
+      ? this.decideBeforeMinimumSample(experiment)
+      : this.decide(experiment, sequentialTests);
+    const significant = sequentialTests.some(test => test.role === 'primary' && test.significant);
+
+    return {
+      experimentId: experiment.id,
+      status: results.length < experiment.minSampleSize ? 'insufficient_data' : significant ? 'significant' : 'inconclusive',
+      sampleSize: results.length,
+      requiredSampleSize: experiment.minSampleSize,
+      variants: variantAnalyses,
+      winningVariant: decision.winningVariantId,
+      statisticalSignificance: significant,
+      sequentialTests,
+      sequentialPValues,
+      decision,
+      recommendations: this.generateRecommendations(experiment, variantAnalyses, sequentialTests, decision)
+    };
+  }
+
+  private decideBeforeMinimumSample(experiment: ExperimentConfig): ExperimentDecision {
+    return this.now() > experiment.endDate ? { action: 'stop', reason: 'end_date' } : { action: 'continue' };
+  }
+
+  /**
+   * Guardrail breaches stop the experiment on the control; otherwise the
+   * treatment with the largest significant improvement on the first primary
+   * metric wins, and the control is kept once every treatment is significantly worse
+   */
+  private decide(experiment: ExperimentConfig, tests: SequentialTestSummary[]): ExperimentDecision {
+    const control = experiment.variants[0];
+    const primaryMetric = this.getMetricConfigs(experiment).find(metric => metric.role === 'primary')!;
+
+    if (tests.some(test => test.role === 'guardrail' && test.outcome === 'worse')) {
+      return { action: 'stop', reason: 'guardrail', winningVariantId: control.id };
+    }
+
+    const primaryTests = tests.filter(test => test.metric === primaryMetric.name);
+    const winners = primaryTests
+      .filter(test => test.outcome === 'better')
+      .sort((a, b) => Math.abs(b.effect) - Math.abs(a.effect));
+    if (winners.length > 0) {
+      return { action: 'stop', reason: 'winner', winningVariantId: winners[0].variantId };
+    }
+
+    if (primaryTests.length > 0 && primaryTests.every(test => test.outcome === 'worse')) {
+      return { action: 'stop', reason: 'control_better', winningVariantId: control.id };
+    }
+
+    return this.now() > experiment.endDate ? { action: 'stop', reason: 'end_date' } : { action: 'continue' };
+  }
+
   /**
    * Analyze variant performance
    */
-  private analyzeVariant(variant: ExperimentVariant, allResults: ExperimentResult[]): VariantAnalysis {
+  private analyzeVariant(variant: ExperimentVariant, allResults: StoredExperimentResult[]): VariantAnalysis {
     const variantResults = allResults.filter(r => r.variantId === variant.id);
-    
+
     if (variantResults.length === 0) {
       return {
         variantId: variant.id,
@@ -267,23 +533,26 @@ export class ExperimentFramework {
       };
     }
 
+    const values = (name: string) => variantResults
+      .map(r => getMetricValue(r.metrics, name))
+      .filter((value): value is number => value !== undefined);
+    const completions = values('taskCompletion');
+
     const metrics = {
-      avgQualityScore: this.calculateMean(variantResults.map(r => r.metrics.qualityScore)),
-      avgProcessingTime: this.calculateMean(variantResults.map(r => r.metrics.processingTime)),
-      avgTokenUsage: this.calculateMean(variantResults.map(r => r.metrics.tokenUsage)),
-      avgCost: this.calculateMean(variantResults.map(r => r.metrics.cost)),
-      taskCompletionRate: variantResults.filter(r => r.metrics.taskCompletion).length / variantResults.length,
-      userSatisfactionScore: this.calculateMean(
-        variantResults.map(r => r.metrics.userSatisfaction).filter(s => s !== undefined) as number[]
-      )
+      avgQualityScore: this.calculateMean(values('qualityScore')),
+      avgProcessingTime: this.calculateMean(values('processingTime')),
+      avgTokenUsage: this.calculateMean(values('tokenUsage')),
+      avgCost: this.calculateMean(values('cost')),
+      taskCompletionRate: this.calculateMean(completions),
+      userSatisfactionScore: this.calculateMean(values('userSatisfaction'))
     };
 
     const confidenceInterval = {
-      qualityScore: this.calculateConfidenceInterval(variantResults.map(r => r.metrics.qualityScore)),
-      processingTime: this.calculateConfidenceInterval(variantResults.map(r => r.metrics.processingTime)),
+      qualityScore: this.calculateConfidenceInterval(values('qualityScore')),
+      processingTime: this.calculateConfidenceInterval(values('processingTime')),
       taskCompletionRate: this.calculateProportionConfidenceInterval(
-        variantResults.filter(r => r.metrics.taskCompletion).length,
-        variantResults.length
+        completions.filter(value => value === 1).length,
+        completions.length
       )
     };
 
@@ -296,86 +565,40 @@ export class ExperimentFramework {
     };
   }
 
-  /**
-   * Calculate statistical significance using t-test
-   */
-  private calculateStatisticalSignificance(
-    variants: VariantAnalysis[],
-    confidenceLevel: number
-  ): boolean {
-    if (variants.length < 2) return false;
-
-    // For simplicity, compare first two variants on quality score
-    const variant1 = variants[0];
-    const variant2 = variants[1];
-
-    if (variant1.sampleSize < 10 || variant2.sampleSize < 10) {
-      return false; // Insufficient data for statistical test
-    }
-
-    // Calculate pooled standard error (simplified)
-    const se1 = variant1.confidenceInterval.qualityScore?.standardError || 0;
-    const se2 = variant2.confidenceInterval.qualityScore?.standardError || 0;
-    const pooledSE = Math.sqrt(se1 * se1 + se2 * se2);
-
-    if (pooledSE === 0) return false;
-
-    // Calculate t-statistic
-    const meanDiff = Math.abs((variant1.metrics.avgQualityScore || 0) - (variant2.metrics.avgQualityScore || 0));
-    const tStat = meanDiff / pooledSE;
-
-    // Critical value for 95% confidence (simplified)
-    const criticalValue = 1.96;
-    
-    return tStat > criticalValue;
-  }
-
-  /**
-   * Determine winning variant based on primary metric
-   */
-  private determineWinningVariant(variants: VariantAnalysis[]): string | null {
-    const validVariants = variants.filter(v => v.sampleSize > 0);
-    if (validVariants.length === 0) return null;
-
-    // Find variant with highest quality score
-    const winner = validVariants.reduce((best, current) => 
-      (current.metrics.avgQualityScore || 0) > (best.metrics.avgQualityScore || 0) ? current : best
-    );
-
-    return winner.variantId;
-  }
-
   /**
    * Generate actionable recommendations
    */
   private generateRecommendations(
+    experiment: ExperimentConfig,
     variants: VariantAnalysis[],
-    isSignificant: boolean
+    tests: SequentialTestSummary[],
+    decision: ExperimentDecision
   ): string[] {
     const recommendations: string[] = [];
-
-    if (!isSignificant) {
-      recommendations.push('Results are not statistically significant. Continue experiment or increase sample size.');
-    } else {
-      const bestVariant = variants.reduce((best, current) => 
-        (current.metrics.avgQualityScore || 0) > (best.metrics.avgQualityScore || 0) ? current : best
-      );
-      
-      recommendations.push(`Implement ${bestVariant.variantName} as it shows significantly better performance.`);
-      
-      // Analyze why it performed better
-      if (bestVariant.metrics.avgProcessingTime && bestVariant.metrics.avgProcessingTime < 30000) {
-        recommendations.push('Winning variant also shows better processing efficiency.');
-      }
-      
-      if (bestVariant.metrics.taskCompletionRate && bestVariant.metrics.taskCompletionRate > 0.9) {
-        recommendations.push('High task completion rate indicates good user experience.');
-      }
+    const variantName = (variantId?: string) => variants.find(v => v.variantId === variantId)?.variantName || variantId;
+
+    switch (decision.reason) {
+      case 'winner':
+        recommendations.push(`Promote ${variantName(decision.winningVariantId)}: it significantly improves the primary metric without breaching a guardrail.`);
+        break;
+      case 'control_better':
+        recommendations.push('Keep the control: every variant performs significantly worse on the primary metric.');
+        break;
+      case 'guardrail':
+        tests
+          .filter(test => test.role === 'guardrail' && test.outcome === 'worse')
+          .forEach(test => recommendations.push(`${variantName(test.variantId)} degrades ${test.metric}; the control is kept.`));
+        break;
+      case 'end_date':
+        recommendations.push('The experiment ended without a significant difference. Keep the control or rerun with a larger expected effect.');
+        break;
+      default:
+        recommendations.push('Results are not yet significant. The experiment keeps running and stops itself once they are.');
     }
 
     // General recommendations
     const avgSampleSize = variants.reduce((sum, v) => sum + v.sampleSize, 0) / variants.length;
-    if (avgSampleSize < 100) {
+    if (decision.action === 'continue' && avgSampleSize < experiment.minSampleSize) {
       recommendations.push('Consider running experiment longer to collect more data.');
     }
 
@@ -432,17 +655,14 @@ export class ExperimentFramework {
   /**
    * Get active experiments for user
    */
-  getActiveExperiments(userId: string): Array<{ experimentId: string; variantId: string }> {
-    const userExperiments = this.userAssignments.get(userId) || new Map();
+  async getActiveExperiments(userId: string): Promise<Array<{ experimentId: string; variantId: string }>> {
+    const assignments = await this.store.getAssignments(userId);
     const activeExperiments: Array<{ experimentId: string; variantId: string }> = [];
 
-    for (const [experimentId, variantId] of userExperiments) {
-      const experiment = this.experiments.get(experimentId);
-      if (experiment && experiment.status === 'active') {
-        const now = new Date();
-        if (now >= experiment.startDate && now <= experiment.endDate) {
-          activeExperiments.push({ experimentId, variantId });
-        }
+    for (const { experimentId, variantId } of assignments) {
+      const experiment = await this.getExperiment(experimentId);
+      if (experiment && this.isRunning(experiment)) {
+        activeExperiments.push({ experimentId, variantId });
       }
     }
 
@@ -452,9 +672,9 @@ export class ExperimentFramework {
   /**
    * Export experiment data for external analysis
    */
-  exportExperimentData(experimentId: string): string {
-    const experiment = this.experiments.get(experimentId);
-    const results = this.results.filter(r => r.experimentId === experimentId);
+  async exportExperimentData(experimentId: string): Promise<string> {
+    const experiment = await this.requireExperiment(experimentId);
+    const results = await this.store.getExperimentResults(experimentId);
 
     const exportData = {
       experiment,
@@ -462,14 +682,52 @@ export class ExperimentFramework {
         ...r,
         timestamp: r.timestamp.toISOString()
       })),
-      analysis: this.analyzeExperiment(experimentId)
+      analysis: this.buildAnalysis(experiment, results)
     };
 
     return JSON.stringify(exportData, null, 2);
   }
+
+  private async getExperiments(): Promise<ExperimentConfig[]> {
+    if (!this.cache || Date.now() - this.cache.loadedAt > this.cacheTtlMs) {
+      this.cache = { loadedAt: Date.now(), experiments: await this.store.listExperiments() };
+    }
+    return this.cache.experiments;
+  }
+
+  private async requireExperiment(experimentId: string): Promise<ExperimentConfig> {
+    const experiment = await this.getExperiment(experimentId);
+    if (!experiment) {
+      throw new Error(`Experiment ${experimentId} not found`);
+    }
+    return experiment;
+  }
+
+  private async saveExperiment(experiment: ExperimentConfig): Promise<void> {
+    await this.store.saveExperiment(experiment);
+    if (this.cache) {
+      this.cache.experiments = [...this.cache.experiments.filter(existing => existing.id !== experiment.id), experiment];
+    }
+  }
 }
 
 // Result interfaces
+export interface ExperimentDecision {
+  action: 'continue' | 'stop';
+  reason?: ExperimentStopReason;
+  winningVariantId?: string;
+}
+
+export interface SequentialTestSummary {
+  variantId: string;
+  metric: string;
+  role: ExperimentMetricConfig['role'];
+  effect: number; // treatment mean minus control mean
+  pValue: number;
+  significant: boolean;
+  outcome: 'better' | 'worse' | 'undecided';
+}
+
 export interface ExperimentAnalysis {
   experimentId: string;
   status: 'insufficient_data' | 'significant' | 'inconclusive';
@@ -478,6 +736,9 @@ export interface ExperimentAnalysis {
   variants: VariantAnalysis[];
   winningVariant?: string;
   statisticalSignificance?: boolean;
+  sequentialTests: SequentialTestSummary[];
+  sequentialPValues: Record<string, Record<string, number>>;
+  decision: ExperimentDecision;
   recommendations: string[];
 }
 
@@ -500,5 +761,7 @@ export interface VariantAnalysis {
   };
 }
 
-// Singleton instance
-export const experimentFramework = new ExperimentFramework();
\ No newline at end of file
+// Singleton instance, persisted in Firestore when Admin credentials are configured
+export const experimentFramework = new ExperimentFramework({
+  store: process.env.FIREBASE_PROJECT_ID ? new FirestoreExperimentStore() : new InMemoryExperimentStore()
+});
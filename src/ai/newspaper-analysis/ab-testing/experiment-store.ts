@@ -0,0 +1,243 @@
+/**
+ * @fileOverview Persistence for experiments, sticky user assignments and results
+ */
+
+import { getApps, initializeApp, cert } from 'firebase-admin/app';
+import { getFirestore, Timestamp, type Firestore } from 'firebase-admin/firestore';
+import type { ExperimentResult as StoredExperimentResult } from '@/ai/multi-agent-framework/persistence/database-adapter';
+import { cloneData } from '@/ai/multi-agent-framework/persistence/firestore-serialization';
+import type { ExperimentConfig } from './experiment-framework';
+
+export type { StoredExperimentResult };
+
+export interface ExperimentAssignment {
+  experimentId: string;
+  userId: string;
+  variantId: string;
+  assignedAt: Date;
+}
+
+export interface ExperimentStore {
+  saveExperiment(experiment: ExperimentConfig): Promise<void>;
+  getExperiment(experimentId: string): Promise<ExperimentConfig | null>;
+  listExperiments(): Promise<ExperimentConfig[]>;
+  // Stores the assignment unless the user already has one, and returns whichever is stored
+  claimAssignment(assignment: ExperimentAssignment): Promise<ExperimentAssignment>;
+  getAssignments(userId: string): Promise<ExperimentAssignment[]>;
+  saveExperimentResult(result: StoredExperimentResult): Promise<void>;
+  getExperimentResults(experimentId: string): Promise<StoredExperimentResult[]>;
+}
+
+function assignmentDocId(experimentId: string, userId: string): string {
+  return `${experimentId}_${userId}`;
+}
+
+function getAdminDb(): Firestore {
+  if (!getApps().length) {
+    initializeApp({
+      credential: cert({
+        projectId: process.env.FIREBASE_PROJECT_ID!,
+        clientEmail: process.env.FIREBASE_CLIENT_EMAIL!,
+        privateKey: process.env.FIREBASE_PRIVATE_KEY!.replace(/\\n/g, '\n'),
+      }),
+    });
+  }
+  return getFirestore();
+}
+
+// Drops undefined values, which Firestore rejects; the Admin SDK stores Dates as Timestamps itself
+function toDocument(value: unknown): unknown {
+  if (value instanceof Date) return value;
+  if (Array.isArray(value)) return value.map(toDocument);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .map(([key, entry]) => [key, toDocument(entry)])
+    );
+  }
+  return value;
+}
+
+function fromDocument(value: unknown): unknown {
+  if (value instanceof Timestamp) return value.toDate();
+  if (Array.isArray(value)) return value.map(fromDocument);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, fromDocument(entry)]));
+  }
+  return value;
+}
+
+/**
+ * Firestore-backed store, on the Admin SDK since clients have no access to
+ * these collections. Experiments live in `experiments/{experimentId}`,
+ * assignments in `experiment_assignments/{experimentId}_{userId}`, so every
+ * server instance sees the same variant for a user, and results in
+ * `experiment_results/{resultId}`.
+ */
+export class FirestoreExperimentStore implements ExperimentStore {
+  private readonly COLLECTIONS = {
+    EXPERIMENTS: 'experiments',
+    ASSIGNMENTS: 'experiment_assignments',
+    RESULTS: 'experiment_results'
+  };
+
+  // Firestore is resolved on first use, so importing the store needs no credentials
+  constructor(private firestore?: Firestore) {}
+
+  async saveExperiment(experiment: ExperimentConfig): Promise<void> {
+    try {
+      await this.getDb()
+        .collection(this.COLLECTIONS.EXPERIMENTS)
+        .doc(experiment.id)
+        .set(toDocument(experiment) as Record<string, unknown>);
+    } catch (error) {
+      console.error('Failed to save experiment:', error);
+      throw new Error(`Database save failed: ${error}`);
+    }
+  }
+
+  async getExperiment(experimentId: string): Promise<ExperimentConfig | null> {
+    try {
+      const snapshot = await this.getDb().collection(this.COLLECTIONS.EXPERIMENTS).doc(experimentId).get();
+      return snapshot.exists ? fromDocument(snapshot.data()) as ExperimentConfig : null;
+    } catch (error) {
+      console.error('Failed to get experiment:', error);
+      throw new Error(`Database query failed: ${error}`);
+    }
+  }
+
+  async listExperiments(): Promise<ExperimentConfig[]> {
+    try {
+      const snapshot = await this.getDb().collection(this.COLLECTIONS.EXPERIMENTS).get();
+      return snapshot.docs.map(experimentDoc => fromDocument(experimentDoc.data()) as ExperimentConfig);
+    } catch (error) {
+      console.error('Failed to list experiments:', error);
+      throw new Error(`Database query failed: ${error}`);
+    }
+  }
+
+  async claimAssignment(assignment: ExperimentAssignment): Promise<ExperimentAssignment> {
+    try {
+      const firestore = this.getDb();
+      const ref = firestore
+        .collection(this.COLLECTIONS.ASSIGNMENTS)
+        .doc(assignmentDocId(assignment.experimentId, assignment.userId));
+
+      return await firestore.runTransaction(async transaction => {
+        const existing = await transaction.get(ref);
+        if (existing.exists) {
+          return fromDocument(existing.data()) as ExperimentAssignment;
+        }
+        transaction.set(ref, toDocument(assignment) as Record<string, unknown>);
+        return assignment;
+      });
+    } catch (error) {
+      console.error('Failed to claim experiment assignment:', error);
+      throw new Error(`Database save failed: ${error}`);
+    }
+  }
+
+  async getAssignments(userId: string): Promise<ExperimentAssignment[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.COLLECTIONS.ASSIGNMENTS)
+        .where('userId', '==', userId)
+        .get();
+      return snapshot.docs.map(assignmentDoc => fromDocument(assignmentDoc.data()) as ExperimentAssignment);
+    } catch (error) {
+      console.error('Failed to get experiment assignments:', error);
+      throw new Error(`Database query failed: ${error}`);
+    }
+  }
+
+  async saveExperimentResult(result: StoredExperimentResult): Promise<void> {
+    try {
+      // Keyed by result ID, so a retried write does not count a session twice
+      await this.getDb()
+        .collection(this.COLLECTIONS.RESULTS)
+        .doc(result.id)
+        .set(toDocument(result) as Record<string, unknown>);
+    } catch (error) {
+      console.error('Failed to save experiment result:', error);
+      throw new Error(`Database save failed: ${error}`);
+    }
+  }
+
+  async getExperimentResults(experimentId: string): Promise<StoredExperimentResult[]> {
+    try {
+      const snapshot = await this.getDb()
+        .collection(this.COLLECTIONS.RESULTS)
+        .where('experimentId', '==', experimentId)
+        .orderBy('timestamp', 'desc')
+        .get();
+      return snapshot.docs.map(resultDoc => ({
+        ...fromDocument(resultDoc.data()) as StoredExperimentResult,
+        id: resultDoc.id
+      }));
+    } catch (error) {
+      console.error('Failed to get experiment results:', error);
+      throw new Error(`Database query failed: ${error}`);
+    }
+  }
+
+  private getDb(): Firestore {
+    if (!this.firestore) {
+      this.firestore = getAdminDb();
+    }
+    return this.firestore;
+  }
+}
+
+/**
+ * In-memory store used in tests and local development without Firestore
+ */
+export class InMemoryExperimentStore implements ExperimentStore {
+  private experiments = new Map<string, ExperimentConfig>();
+  private assignments = new Map<string, ExperimentAssignment>();
+  private results: StoredExperimentResult[] = [];
+
+  async saveExperiment(experiment: ExperimentConfig): Promise<void> {
+    this.experiments.set(experiment.id, cloneData(experiment));
+  }
+
+  async getExperiment(experimentId: string): Promise<ExperimentConfig | null> {
+    const experiment = this.experiments.get(experimentId);
+    return experiment ? cloneData(experiment) : null;
+  }
+
+  async listExperiments(): Promise<ExperimentConfig[]> {
+    return [...this.experiments.values()].map(experiment => cloneData(experiment));
+  }
+
+  async claimAssignment(assignment: ExperimentAssignment): Promise<ExperimentAssignment> {
+    const key = assignmentDocId(assignment.experimentId, assignment.userId);
+    if (!this.assignments.has(key)) {
+      this.assignments.set(key, cloneData(assignment));
+    }
+    return cloneData(this.assignments.get(key)!);
+  }
+
+  async getAssignments(userId: string): Promise<ExperimentAssignment[]> {
+    return [...this.assignments.values()]
+      .filter(assignment => assignment.userId === userId)
+      .map(assignment => cloneData(assignment));
+  }
+
+  async saveExperimentResult(result: StoredExperimentResult): Promise<void> {
+    this.results.push(cloneData(result));
+  }
+
+  async getExperimentResults(experimentId: string): Promise<StoredExperimentResult[]> {
+    return this.results
+      .filter(result => result.experimentId === experimentId)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())
+      .map(result => cloneData(result));
+  }
+
+  clear(): void {
+    this.experiments.clear();
+    this.assignments.clear();
+    this.results = [];
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * @fileOverview Sequential significance testing for experiments
+ *
+ * Uses the mixture sequential probability ratio test (mSPRT), whose p-values
+ * stay valid however often they are checked, so an experiment can be
+ * evaluated after every batch of results and stopped as soon as it is decided.
+ */
+
+export interface SampleStats {
+  count: number;
+  mean: number;
+  variance: number; // sample variance (n - 1)
+}
+
+export interface SequentialTestResult {
+  effect: number; // treatment mean minus control mean
+  likelihoodRatio: number;
+  pValue: number; // always-valid, never increases between evaluations
+  significant: boolean;
+}
+
+// Arms need this many observations before their variance is trusted
+export const MIN_SEQUENTIAL_SAMPLES = 10;
+
+export function summarize(values: number[]): SampleStats {
+  const count = values.length;
+  if (count === 0) return { count: 0, mean: 0, variance: 0 };
+
+  const mean = values.reduce((sum, value) => sum + value, 0) / count;
+  const variance = count > 1
+    ? values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / (count - 1)
+    : 0;
+  return { count, mean, variance };
+}
+
+/**
+ * Likelihood ratio of "the means differ" against "they are equal", mixing the
+ * alternative over effects drawn from N(0, mixtureVariance). The observed
+ * difference is treated as normal with variance s²/n summed over both arms.
+ */
+export function msprtLikelihoodRatio(control: SampleStats, treatment: SampleStats, mixtureVariance: number): number {
+  const differenceVariance = control.variance / control.count + treatment.variance / treatment.count;
+  const effect = treatment.mean - control.mean;
+
+  if (differenceVariance === 0) {
+    // Constant outcomes in both arms: any difference is certain, none is no evidence
+    return effect === 0 ? 1 : Infinity;
+  }
+
+  const total = differenceVariance + mixtureVariance;
+  return Math.sqrt(differenceVariance / total) *
+    Math.exp((mixtureVariance * effect * effect) / (2 * differenceVariance * total));
+}
+
+/**
+ * Runs one evaluation of the test. `previousPValue` carries the running
+ * minimum from earlier evaluations, which is what keeps the p-value valid.
+ */
+export function runSequentialTest(
+  control: number[],
+  treatment: number[],
+  options: { alpha: number; minimumDetectableEffect: number; previousPValue?: number }
+): SequentialTestResult {
+  const controlStats = summarize(control);
+  const treatmentStats = summarize(treatment);
+  const effect = treatmentStats.mean - controlStats.mean;
+  const previousPValue = options.previousPValue ?? 1;
+
+  if (controlStats.count < MIN_SEQUENTIAL_SAMPLES || treatmentStats.count < MIN_SEQUENTIAL_SAMPLES) {
+    return { effect, likelihoodRatio: 1, pValue: previousPValue, significant: previousPValue <= options.alpha };
+  }
+
+  const likelihoodRatio = msprtLikelihoodRatio(
+    controlStats,
+    treatmentStats,
+    options.minimumDetectableEffect * options.minimumDetectableEffect
+  );
+  const pValue = Math.min(previousPValue, 1 / likelihoodRatio);
+
+  return { effect, likelihoodRatio, pValue, significant: pValue <= options.alpha };
+}
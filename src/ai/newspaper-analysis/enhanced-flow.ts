@@ -15,7 +15,7 @@ import { analyzeRelevance } from './agents/relevance-agent';
 import { selectPromptVersion } from './prompts/relevance-prompts';
 import { validateMCQ, validateMainsQuestion, calculateOverallQuality } from './validators/upsc-validator';
 import { qualityTracker } from './metrics/quality-tracker';
-import { experimentFramework } from './ab-testing/experiment-framework';
+import { experimentFramework, ExperimentVariant } from './ab-testing/experiment-framework';
 import fs from 'fs';
 import path from 'path';
 
@@ -45,6 +45,7 @@ export const enhancedNewspaperAnalysisFlow = ai.defineFlow(
     const startTime = Date.now();
     let totalInputTokens = 0;
     let totalOutputTokens = 0;
+    let experiment: { experimentId: string; variant: ExperimentVariant } | null = null;
     
     try {
       // Step 1: Load syllabus content
@@ -52,14 +53,12 @@ export const enhancedNewspaperAnalysisFlow = ai.defineFlow(
       const { prelimsSyllabus, mainsSyllabus } = getSyllabusContent();
 
       // Step 2: Determine experiment variant (if enabled)
-      let experimentVariant = null;
       if (config.enableExperiments) {
-        const activeExperiments = experimentFramework.getActiveExperiments(config.userId);
-        experimentVariant = activeExperiments.find(exp => exp.experimentId === 'prompt-optimization-v1');
+        experiment = await experimentFramework.resolveDomainVariant('newspaper-analysis', config.userId);
       }
 
       // Step 3: Select prompt version based on A/B test or configuration
-      const promptVersion = experimentVariant?.variantId || selectPromptVersion({
+      const promptVersion = experiment?.variant.promptVersion || experiment?.variant.id || selectPromptVersion({
         articleLength: input.sourceText.length,
         userGroup: config.userId
       });
@@ -93,7 +92,10 @@ export const enhancedNewspaperAnalysisFlow = ai.defineFlow(
       }
 
       // Step 5: Validate relevance and proceed only if meets threshold
+      const upscRelevanceScore = relevanceResult?.isRelevant ? relevanceResult.confidenceScore : 0;
       if (!relevanceResult?.isRelevant || relevanceResult.confidenceScore < 0.6) {
+        // Still report the relevance verdict, so rejected articles can be scored against expert annotations
+        yield { type: 'metadata', data: { syllabusTopic: relevanceResult?.syllabusTopic, upscRelevanceScore } };
         yield { 
           type: 'error', 
           data: relevanceResult?.reasoning || 'Article not suitable for UPSC question generation'
@@ -154,6 +156,7 @@ export const enhancedNewspaperAnalysisFlow = ai.defineFlow(
 
       const finalMetadata = {
         syllabusTopic: relevanceResult.syllabusTopic,
+        upscRelevanceScore,
         qualityScore: validatedOutput.qualityScore,
         tags: validatedOutput.tags,
         questionsCount: (validatedOutput.prelims?.mcqs?.length || 0) + (validatedOutput.mains?.questions?.length || 0),
@@ -180,10 +183,10 @@ export const enhancedNewspaperAnalysisFlow = ai.defineFlow(
       );
 
       // Step 11: Record A/B test result (if applicable)
-      if (experimentVariant) {
-        experimentFramework.recordResult({
-          experimentId: experimentVariant.experimentId,
-          variantId: experimentVariant.variantId,
+      if (experiment) {
+        await experimentFramework.recordResult({
+          experimentId: experiment.experimentId,
+          variantId: experiment.variant.id,
           userId: config.userId,
           sessionId,
           input,
@@ -196,7 +199,7 @@ export const enhancedNewspaperAnalysisFlow = ai.defineFlow(
             cost
           },
           timestamp: new Date()
-        });
+        }).catch(recordError => console.error('Failed to record experiment result:', recordError));
       }
 
       yield { type: 'progress', data: { stage: 'Complete', progress: 100 } };
@@ -205,10 +208,10 @@ export const enhancedNewspaperAnalysisFlow = ai.defineFlow(
       console.error('Enhanced flow error:', error);
       
       // Record failed experiment result
-      if (experimentVariant) {
-        experimentFramework.recordResult({
-          experimentId: experimentVariant.experimentId,
-          variantId: experimentVariant.variantId,
+      if (experiment) {
+        await experimentFramework.recordResult({
+          experimentId: experiment.experimentId,
+          variantId: experiment.variant.id,
           userId: config.userId,
           sessionId,
           input,
@@ -221,7 +224,7 @@ export const enhancedNewspaperAnalysisFlow = ai.defineFlow(
             cost: calculateCost(totalInputTokens, totalOutputTokens)
           },
           timestamp: new Date()
-        });
+        }).catch(recordError => console.error('Failed to record experiment result:', recordError));
       }
 
       yield { type: 'error', data: `Analysis failed: ${error.message}` };
@@ -295,8 +298,7 @@ async function validateAndEnhanceOutput(
     ...output,
     prelims: { mcqs: enhancedMCQs },
     mains: { questions: enhancedMains },
-    qualityScore: overallQuality,
-    upscRelevanceScore: overallQuality // Simplified
+    qualityScore: overallQuality
   };
 }
 
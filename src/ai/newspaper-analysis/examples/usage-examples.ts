@@ -59,6 +59,7 @@ export async function exampleSetupABTest() {
     id: 'prompt-optimization-v1',
     name: 'Question Generation Prompt Optimization',
     description: 'Testing different prompt frameworks for better UPSC question generation',
+    domain: 'newspaper-analysis',
     startDate: new Date(),
     endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
     variants: [
@@ -84,11 +85,11 @@ export async function exampleSetupABTest() {
   };
 
   try {
-    experimentFramework.createExperiment(experimentConfig);
+    await experimentFramework.createExperiment(experimentConfig);
     console.log('Experiment created successfully!');
     
     // Test user assignment
-    const assignment = experimentFramework.assignUserToVariant('test_user_123', 'prompt-optimization-v1');
+    const assignment = await experimentFramework.assignUserToVariant('test_user_123', 'prompt-optimization-v1');
     console.log('User assigned to variant:', assignment);
     
   } catch (error) {
@@ -191,7 +192,7 @@ export async function exampleExperimentAnalysis() {
   console.log('Analyzing A/B test results...');
 
   try {
-    const analysis = experimentFramework.analyzeExperiment('prompt-optimization-v1');
+    const analysis = await experimentFramework.analyzeExperiment('prompt-optimization-v1');
     
     console.log('\nExperiment Analysis Report:');
     console.log('===========================');
@@ -0,0 +1,262 @@
+/**
+ * @fileOverview Scores newspaper analysis output against the expert-annotated golden dataset
+ *
+ * Predictions come either from live runs of the enhanced flow or from recorded
+ * fixtures of its output, so prompt changes can be checked for regressions
+ * without calling a model.
+ */
+
+import { NewspaperAnalysisOutput } from '../types';
+import { GOLDEN_DATASET, GoldenSample } from '../tests/golden-dataset';
+import {
+  validateMCQ,
+  validateMainsQuestion,
+  validateKnowledgeGraph,
+  calculateOverallQuality
+} from '../validators/upsc-validator';
+
+export const GOLDEN_REPORT_VERSION = 1;
+
+// What the pipeline produced for one golden sample
+export interface GoldenPrediction {
+  sampleId: string;
+  output: NewspaperAnalysisOutput;
+  error?: string;
+}
+
+export interface SampleEvaluation {
+  sampleId: string;
+  relevanceError: number;
+  topicMatch: boolean;
+  entityRecall: number;
+  missedEntities: string[];
+  questionQuality: number;
+  questionsCount: number;
+  error?: string;
+}
+
+export interface GoldenEvaluationSummary {
+  samples: number;
+  failures: number;
+  meanRelevanceError: number;
+  topicAccuracy: number;
+  meanEntityRecall: number;
+  meanQuestionQuality: number;
+}
+
+export interface GoldenEvaluationReport {
+  version: number;
+  label?: string;
+  summary: GoldenEvaluationSummary;
+  samples: SampleEvaluation[];
+}
+
+// How far each metric may move in the wrong direction before it counts as a regression
+export interface RegressionTolerances {
+  relevanceError: number;
+  topicAccuracy: number;
+  entityRecall: number;
+  questionQuality: number;
+}
+
+export const DEFAULT_REGRESSION_TOLERANCES: RegressionTolerances = {
+  relevanceError: 0.02,
+  topicAccuracy: 0,
+  entityRecall: 0.02,
+  questionQuality: 0.02
+};
+
+export interface Regression {
+  metric: string;
+  sampleId?: string;
+  baseline: number | string;
+  current: number | string;
+}
+
+const TOPIC_STOP_WORDS = new Set(['and', 'the', 'their', 'with', 'involving', 'other', 'from', 'into', 'effects', 'everyday', 'life']);
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function mean(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function getGsPaper(topic: string): string | null {
+  const match = topic.match(/GS\s*Paper\s*([IV]+)\b/i);
+  return match ? match[1].toUpperCase() : null;
+}
+
+function getTopicWords(topic: string): Set<string> {
+  const subject = topic.replace(/GS\s*Paper\s*[IV]+\b/i, '');
+  return new Set(
+    normalize(subject).split(' ').filter(word => word.length > 3 && !TOPIC_STOP_WORDS.has(word))
+  );
+}
+
+/**
+ * A predicted syllabus topic matches when it names the same GS paper (if both
+ * name one) and shares at least half the significant words of the shorter topic
+ */
+export function isTopicMatch(expected: string, predicted?: string | null): boolean {
+  if (!predicted) return false;
+
+  const expectedPaper = getGsPaper(expected);
+  const predictedPaper = getGsPaper(predicted);
+  if (expectedPaper && predictedPaper && expectedPaper !== predictedPaper) return false;
+
+  const expectedWords = getTopicWords(expected);
+  const predictedWords = getTopicWords(predicted);
+  const smaller = Math.min(expectedWords.size, predictedWords.size);
+  if (smaller === 0) return !!expectedPaper && expectedPaper === predictedPaper;
+
+  const shared = [...predictedWords].filter(word => expectedWords.has(word)).length;
+  return shared / smaller >= 0.5;
+}
+
+/**
+ * Importance-weighted share of the expert's knowledge entities that appear as
+ * knowledge graph nodes. A node matches when its label contains the entity
+ * name, or is a multi-word part of it ("Teesta River" for "Teesta River Dispute").
+ */
+export function calculateEntityRecall(
+  expected: GoldenSample['expertAnnotation']['knowledgeEntities'],
+  output: NewspaperAnalysisOutput
+): { recall: number; missed: string[] } {
+  const labels = (output.knowledgeGraph?.nodes || []).map(node => normalize(node.label));
+  const totalImportance = expected.reduce((sum, entity) => sum + entity.importance, 0);
+
+  let foundImportance = 0;
+  const missed: string[] = [];
+  for (const entity of expected) {
+    const name = normalize(entity.name);
+    if (labels.some(label => ` ${label} `.includes(` ${name} `) || (label.includes(' ') && ` ${name} `.includes(` ${label} `)))) {
+      foundImportance += entity.importance;
+    } else {
+      missed.push(entity.name);
+    }
+  }
+
+  return { recall: totalImportance > 0 ? foundImportance / totalImportance : 1, missed };
+}
+
+export function calculateQuestionQuality(output: NewspaperAnalysisOutput): number {
+  const prelimsMetrics = (output.prelims?.mcqs || []).map(validateMCQ);
+  const mainsMetrics = (output.mains?.questions || []).map(validateMainsQuestion);
+  const knowledgeGraphScore = output.knowledgeGraph ? validateKnowledgeGraph(output.knowledgeGraph) : 0;
+  return calculateOverallQuality(prelimsMetrics, mainsMetrics, knowledgeGraphScore);
+}
+
+export function evaluateSample(sample: GoldenSample, prediction?: GoldenPrediction): SampleEvaluation {
+  const annotation = sample.expertAnnotation;
+
+  if (!prediction || prediction.error) {
+    return {
+      sampleId: sample.id,
+      relevanceError: round(annotation.relevanceScore),
+      topicMatch: false,
+      entityRecall: 0,
+      missedEntities: annotation.knowledgeEntities.map(entity => entity.name),
+      questionQuality: 0,
+      questionsCount: 0,
+      error: prediction?.error || 'No prediction recorded for this sample'
+    };
+  }
+
+  const { output } = prediction;
+  const { recall, missed } = calculateEntityRecall(annotation.knowledgeEntities, output);
+
+  return {
+    sampleId: sample.id,
+    relevanceError: round(Math.abs((output.upscRelevanceScore ?? 0) - annotation.relevanceScore)),
+    topicMatch: isTopicMatch(annotation.syllabusTopic, output.syllabusTopic),
+    entityRecall: round(recall),
+    missedEntities: missed,
+    questionQuality: round(calculateQuestionQuality(output)),
+    questionsCount: (output.prelims?.mcqs?.length || 0) + (output.mains?.questions?.length || 0)
+  };
+}
+
+/**
+ * Scores every golden sample. Samples without a prediction count as failures
+ * so a run that silently skips articles cannot look better than a full one.
+ */
+export function evaluateGoldenDataset(
+  predictions: GoldenPrediction[],
+  options: { dataset?: GoldenSample[]; label?: string } = {}
+): GoldenEvaluationReport {
+  const dataset = options.dataset || GOLDEN_DATASET;
+  const byId = new Map(predictions.map(prediction => [prediction.sampleId, prediction]));
+
+  const samples = [...dataset]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(sample => evaluateSample(sample, byId.get(sample.id)));
+
+  return {
+    version: GOLDEN_REPORT_VERSION,
+    ...(options.label && { label: options.label }),
+    summary: {
+      samples: samples.length,
+      failures: samples.filter(sample => sample.error).length,
+      meanRelevanceError: round(mean(samples.map(sample => sample.relevanceError))),
+      topicAccuracy: round(mean(samples.map(sample => sample.topicMatch ? 1 : 0))),
+      meanEntityRecall: round(mean(samples.map(sample => sample.entityRecall))),
+      meanQuestionQuality: round(mean(samples.map(sample => sample.questionQuality)))
+    },
+    samples
+  };
+}
+
+/**
+ * Lists the ways `current` is worse than `baseline`: summary metrics beyond
+ * tolerance, newly failing samples and samples that lost their topic match
+ */
+export function compareReports(
+  baseline: GoldenEvaluationReport,
+  current: GoldenEvaluationReport,
+  tolerances: RegressionTolerances = DEFAULT_REGRESSION_TOLERANCES
+): Regression[] {
+  const regressions: Regression[] = [];
+  const before = baseline.summary;
+  const after = current.summary;
+
+  if (after.meanRelevanceError - before.meanRelevanceError > tolerances.relevanceError) {
+    regressions.push({ metric: 'meanRelevanceError', baseline: before.meanRelevanceError, current: after.meanRelevanceError });
+  }
+  if (before.topicAccuracy - after.topicAccuracy > tolerances.topicAccuracy) {
+    regressions.push({ metric: 'topicAccuracy', baseline: before.topicAccuracy, current: after.topicAccuracy });
+  }
+  if (before.meanEntityRecall - after.meanEntityRecall > tolerances.entityRecall) {
+    regressions.push({ metric: 'meanEntityRecall', baseline: before.meanEntityRecall, current: after.meanEntityRecall });
+  }
+  if (before.meanQuestionQuality - after.meanQuestionQuality > tolerances.questionQuality) {
+    regressions.push({ metric: 'meanQuestionQuality', baseline: before.meanQuestionQuality, current: after.meanQuestionQuality });
+  }
+
+  const baselineSamples = new Map(baseline.samples.map(sample => [sample.sampleId, sample]));
+  for (const sample of current.samples) {
+    const previous = baselineSamples.get(sample.sampleId);
+    if (!previous) continue;
+
+    if (sample.error && !previous.error) {
+      regressions.push({ metric: 'error', sampleId: sample.sampleId, baseline: 'ok', current: sample.error });
+    } else if (previous.topicMatch && !sample.topicMatch) {
+      regressions.push({ metric: 'topicMatch', sampleId: sample.sampleId, baseline: 'match', current: 'mismatch' });
+    }
+  }
+
+  return regressions;
+}
+
+/**
+ * Serializes a report with one sample per block and fixed key order, so two
+ * reports diff line by line in review
+ */
+export function formatReport(report: GoldenEvaluationReport): string {
+  return JSON.stringify(report, null, 2) + '\n';
+}
@@ -0,0 +1,207 @@
+/**
+ * @fileOverview Unit tests for persisted experiments, sticky assignment and automatic stopping
+ */
+
+import { describe, test, expect, beforeEach, jest } from '@jest/globals';
+import { ExperimentConfig, ExperimentFramework, ExperimentMetrics } from '../../ab-testing/experiment-framework';
+import { InMemoryExperimentStore } from '../../ab-testing/experiment-store';
+
+const DAY = 24 * 60 * 60 * 1000;
+const START = new Date('2026-01-01T00:00:00Z');
+
+function createConfig(overrides: Partial<ExperimentConfig> = {}): ExperimentConfig {
+  return {
+    id: 'quiz-temperature',
+    name: 'Quiz generator temperature',
+    description: 'Lower temperature for quiz generation',
+    domain: 'quiz-generation',
+    startDate: START,
+    endDate: new Date(START.getTime() + 30 * DAY),
+    variants: [
+      { id: 'control', name: 'Control', description: 'Default settings', trafficAllocation: 50 },
+      { id: 'cool', name: 'Cool', description: 'Temperature 0.3', trafficAllocation: 50, modelConfig: { temperature: 0.3 } }
+    ],
+    targetMetrics: ['qualityScore'],
+    minSampleSize: 40,
+    confidenceLevel: 0.95,
+    status: 'active',
+    ...overrides
+  };
+}
+
+function metrics(overrides: Partial<ExperimentMetrics> = {}): ExperimentMetrics {
+  return { qualityScore: 0.7, processingTime: 2000, taskCompletion: true, tokenUsage: 1000, cost: 1, ...overrides };
+}
+
+describe('Experiment Framework', () => {
+  let store: InMemoryExperimentStore;
+  let now: Date;
+  let framework: ExperimentFramework;
+
+  beforeEach(() => {
+    store = new InMemoryExperimentStore();
+    now = new Date(START.getTime() + DAY);
+    framework = new ExperimentFramework({ store, evaluationInterval: 10, now: () => now });
+  });
+
+  // Records `count` sessions per variant, varying slightly so each arm has a spread
+  async function recordSessions(count: number, variantMetrics: Record<string, Partial<ExperimentMetrics>>) {
+    for (let i = 0; i < count; i++) {
+      for (const [variantId, overrides] of Object.entries(variantMetrics)) {
+        const jitter = 0.02 * Math.sin(i * 1.7);
+        const base = metrics(overrides);
+        await framework.recordResult({
+          experimentId: 'quiz-temperature',
+          variantId,
+          userId: `user_${i}`,
+          sessionId: `${variantId}_${i}`,
+          metrics: { ...base, qualityScore: (base.qualityScore as number) + jitter },
+          timestamp: now
+        });
+      }
+    }
+  }
+
+  describe('Configuration', () => {
+    test('should reject allocations that do not sum to 100%', async () => {
+      const config = createConfig();
+      config.variants[1].trafficAllocation = 40;
+      await expect(framework.createExperiment(config)).rejects.toThrow('Traffic allocation must sum to 100%');
+    });
+
+    test('should reject experiments without a primary metric', async () => {
+      const config = createConfig({ metrics: [{ name: 'cost', role: 'guardrail', direction: 'decrease', minimumDetectableEffect: 1 }] });
+      await expect(framework.createExperiment(config)).rejects.toThrow('at least one primary metric');
+    });
+  });
+
+  describe('Assignment', () => {
+    test('should keep a user on their first variant across instances', async () => {
+      await framework.createExperiment(createConfig());
+      const first = await framework.assignUserToVariant('user_1', 'quiz-temperature');
+
+      // Another server instance sharing the store, with the allocation since changed
+      const config = createConfig();
+      config.variants[0].trafficAllocation = first === 'control' ? 0 : 100;
+      config.variants[1].trafficAllocation = first === 'control' ? 100 : 0;
+      await store.saveExperiment(config);
+      const otherInstance = new ExperimentFramework({ store, now: () => now });
+
+      expect(await otherInstance.assignUserToVariant('user_1', 'quiz-temperature')).toBe(first);
+      expect(await store.getAssignments('user_1')).toHaveLength(1);
+    });
+
+    test('should not assign users outside the experiment window', async () => {
+      await framework.createExperiment(createConfig());
+      now = new Date(START.getTime() - DAY);
+      expect(await framework.assignUserToVariant('user_1', 'quiz-temperature')).toBeNull();
+    });
+
+    test('should resolve the variant configuration for a domain', async () => {
+      await framework.createExperiment(createConfig());
+      const resolved = await framework.resolveDomainVariant('quiz-generation', 'user_1');
+
+      expect(resolved?.experimentId).toBe('quiz-temperature');
+      expect(['control', 'cool']).toContain(resolved?.variant.id);
+      expect(await framework.resolveDomainVariant('writing-evaluation', 'user_1')).toBeNull();
+    });
+
+    test('should serve the defaults when the store is unreachable', async () => {
+      jest.spyOn(store, 'listExperiments').mockRejectedValue(new Error('PERMISSION_DENIED'));
+      const error = jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(await framework.resolveDomainVariant('quiz-generation', 'user_1')).toBeNull();
+      expect(error).toHaveBeenCalled();
+      error.mockRestore();
+    });
+  });
+
+  describe('Automatic Stopping', () => {
+    beforeEach(async () => {
+      await framework.createExperiment(createConfig());
+    });
+
+    test('should not decide before the minimum sample size', async () => {
+      await recordSessions(15, { control: { qualityScore: 0.6 }, cool: { qualityScore: 0.8 } });
+      const analysis = await framework.evaluateExperiment('quiz-temperature');
+
+      expect(analysis.status).toBe('insufficient_data');
+      expect(analysis.decision.action).toBe('continue');
+      expect((await framework.getExperiment('quiz-temperature'))?.status).toBe('active');
+    });
+
+    test('should stop and promote a variant that improves the primary metric', async () => {
+      await recordSessions(30, { control: { qualityScore: 0.6 }, cool: { qualityScore: 0.75 } });
+      const experiment = await framework.getExperiment('quiz-temperature');
+
+      expect(experiment).toMatchObject({ status: 'completed', stoppedReason: 'winner', winningVariantId: 'cool' });
+      expect(experiment?.sequentialPValues?.cool.qualityScore).toBeLessThan(0.05);
+
+      // Everyone gets the winner once the experiment is decided, including unassigned users
+      expect(await framework.assignUserToVariant('new_user', 'quiz-temperature')).toBe('cool');
+      expect((await framework.resolveDomainVariant('quiz-generation', 'new_user'))?.variant.id).toBe('cool');
+    });
+
+    test('should ignore results recorded after the experiment stopped', async () => {
+      await recordSessions(30, { control: { qualityScore: 0.6 }, cool: { qualityScore: 0.75 } });
+      const before = (await store.getExperimentResults('quiz-temperature')).length;
+
+      await recordSessions(1, { cool: {} });
+      expect(await store.getExperimentResults('quiz-temperature')).toHaveLength(before);
+    });
+
+    test('should keep the control when a variant breaches a guardrail', async () => {
+      await recordSessions(30, {
+        control: { qualityScore: 0.6, processingTime: 2000 },
+        cool: { qualityScore: 0.75, processingTime: 12000 }
+      });
+
+      expect(await framework.getExperiment('quiz-temperature')).toMatchObject({
+        status: 'completed',
+        stoppedReason: 'guardrail',
+        winningVariantId: 'control'
+      });
+    });
+
+    test('should keep running while results are inconclusive', async () => {
+      await recordSessions(30, { control: {}, cool: {} });
+      const analysis = await framework.analyzeExperiment('quiz-temperature');
+
+      expect(analysis.status).toBe('inconclusive');
+      expect(analysis.decision.action).toBe('continue');
+      expect((await framework.getExperiment('quiz-temperature'))?.status).toBe('active');
+    });
+
+    test('should stop without a winner after the end date', async () => {
+      await recordSessions(30, { control: {}, cool: {} });
+      now = new Date(START.getTime() + 31 * DAY);
+      await framework.evaluateExperiment('quiz-temperature');
+
+      const experiment = await framework.getExperiment('quiz-temperature');
+      expect(experiment).toMatchObject({ status: 'completed', stoppedReason: 'end_date' });
+      expect(experiment?.winningVariantId).toBeUndefined();
+      expect(await framework.assignUserToVariant('user_1', 'quiz-temperature')).toBeNull();
+    });
+
+    test('should promote a variant chosen by hand', async () => {
+      await framework.stopExperiment('quiz-temperature', 'cool');
+
+      expect(await framework.getExperiment('quiz-temperature')).toMatchObject({ stoppedReason: 'manual', winningVariantId: 'cool' });
+      await expect(framework.stopExperiment('quiz-temperature', 'missing')).rejects.toThrow('not part of experiment');
+    });
+  });
+
+  describe('Engagement', () => {
+    test('should attribute later engagement to the assigned variant', async () => {
+      await framework.createExperiment(createConfig({ domain: 'writing-evaluation' }));
+      const variantId = await framework.assignUserToVariant('user_1', 'quiz-temperature');
+
+      await framework.recordEngagement('quiz-temperature', 'user_1', 'eval_1', { userSatisfaction: 4 });
+      await framework.recordEngagement('quiz-temperature', 'unassigned', 'eval_2', { userSatisfaction: 1 });
+
+      const results = await store.getExperimentResults('quiz-temperature');
+      expect(results).toHaveLength(1);
+      expect(results[0]).toMatchObject({ variantId, metrics: { userSatisfaction: 4 } });
+    });
+  });
+});
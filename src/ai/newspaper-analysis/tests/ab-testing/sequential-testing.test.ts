@@ -0,0 +1,54 @@
+/**
+ * @fileOverview Unit tests for sequential significance testing
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { msprtLikelihoodRatio, runSequentialTest, summarize } from '../../ab-testing/sequential-testing';
+
+// Deterministic samples around a mean with a fixed spread
+function samples(mean: number, count: number, spread = 0.1): number[] {
+  return Array.from({ length: count }, (_, i) => mean + spread * Math.sin(i * 1.7));
+}
+
+describe('Sequential Testing', () => {
+  test('should summarize samples with the unbiased variance', () => {
+    expect(summarize([1, 2, 3])).toEqual({ count: 3, mean: 2, variance: 1 });
+    expect(summarize([])).toEqual({ count: 0, mean: 0, variance: 0 });
+  });
+
+  test('should find no evidence between identical arms', () => {
+    const stats = summarize(samples(0.7, 50));
+    expect(msprtLikelihoodRatio(stats, stats, 0.0025)).toBeLessThan(1);
+  });
+
+  test('should detect a clear improvement', () => {
+    const result = runSequentialTest(samples(0.6, 60), samples(0.75, 60), { alpha: 0.05, minimumDetectableEffect: 0.05 });
+
+    expect(result.effect).toBeCloseTo(0.15);
+    expect(result.significant).toBe(true);
+    expect(result.pValue).toBeLessThan(0.05);
+  });
+
+  test('should stay undecided on a difference well inside the noise', () => {
+    const result = runSequentialTest(samples(0.6, 20, 0.3), samples(0.62, 20, 0.3), { alpha: 0.05, minimumDetectableEffect: 0.05 });
+    expect(result.significant).toBe(false);
+  });
+
+  test('should keep the previous p-value until both arms have enough samples', () => {
+    const result = runSequentialTest(samples(0.6, 5), samples(0.9, 5), {
+      alpha: 0.05,
+      minimumDetectableEffect: 0.05,
+      previousPValue: 0.4
+    });
+    expect(result).toMatchObject({ pValue: 0.4, significant: false });
+  });
+
+  test('should never raise the p-value between evaluations', () => {
+    const result = runSequentialTest(samples(0.6, 30), samples(0.6, 30), {
+      alpha: 0.05,
+      minimumDetectableEffect: 0.05,
+      previousPValue: 0.01
+    });
+    expect(result.pValue).toBe(0.01);
+  });
+});
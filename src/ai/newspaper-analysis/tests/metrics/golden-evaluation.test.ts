@@ -0,0 +1,139 @@
+/**
+ * @fileOverview Unit tests for golden dataset scoring and regression checks
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  GoldenPrediction,
+  calculateEntityRecall,
+  compareReports,
+  evaluateGoldenDataset,
+  formatReport,
+  isTopicMatch
+} from '../../metrics/golden-evaluation';
+import { GOLDEN_DATASET, getGoldenSampleById } from '../golden-dataset';
+import { NewspaperAnalysisOutput } from '../../types';
+
+const article21 = getGoldenSampleById('GS001')!;
+
+const article21Output: NewspaperAnalysisOutput = {
+  syllabusTopic: 'GS Paper II - Indian Constitution: significant provisions and basic structure',
+  upscRelevanceScore: 0.9,
+  prelims: {
+    mcqs: [{
+      question: `Consider the following statements about Article 21 of the Constitution of India:
+1. It guarantees only a negative right against the State.
+2. The Supreme Court has read the right to live with dignity into it.
+3. It has been interpreted to include access to a clean environment.
+
+Which of the statements given above is/are correct?`,
+      options: [
+        { text: '(a) 1 only', correct: false },
+        { text: '(b) 2 and 3 only', correct: true },
+        { text: '(c) 1 and 3 only', correct: false },
+        { text: '(d) 1, 2 and 3', correct: false }
+      ],
+      difficulty: 7,
+      explanation: 'Statements 2 and 3 are correct because the Supreme Court has expanded Article 21 to include dignity and a clean environment. Statement 1 is incorrect as the article also imposes positive obligations on the State.'
+    }]
+  },
+  mains: {
+    questions: [{
+      question: "Critically analyze the Supreme Court's expanded interpretation of Article 21 and its implications for governance in India.",
+      difficulty: 8,
+      wordLimit: 250
+    }]
+  },
+  knowledgeGraph: {
+    nodes: [
+      { id: '1', label: 'Supreme Court of India', type: 'Organization' },
+      { id: '2', label: 'Article 21 of the Constitution', type: 'Concept' },
+      { id: '3', label: 'Right to Life', type: 'Concept' }
+    ],
+    edges: [
+      { source: '1', target: '2', label: 'interpreted expansively' },
+      { source: '2', target: '3', label: 'guarantees the right' }
+    ]
+  }
+};
+
+describe('Golden Dataset Evaluation', () => {
+  describe('Topic Matching', () => {
+    test('should match a paraphrased topic from the same GS paper', () => {
+      expect(isTopicMatch(article21.expertAnnotation.syllabusTopic, article21Output.syllabusTopic)).toBe(true);
+    });
+
+    test('should reject a topic from a different GS paper', () => {
+      expect(isTopicMatch(
+        article21.expertAnnotation.syllabusTopic,
+        'GS Paper III - Indian Constitution and basic structure'
+      )).toBe(false);
+    });
+
+    test('should reject a missing topic', () => {
+      expect(isTopicMatch(article21.expertAnnotation.syllabusTopic, null)).toBe(false);
+    });
+  });
+
+  describe('Entity Recall', () => {
+    test('should weight found entities by expert importance', () => {
+      const { recall, missed } = calculateEntityRecall(article21.expertAnnotation.knowledgeEntities, article21Output);
+
+      // Found 0.9 + 1.0 + 0.95 of 3.65; "Fundamental Rights" is missing
+      expect(recall).toBeCloseTo(2.85 / 3.65);
+      expect(missed).toEqual(['Fundamental Rights']);
+    });
+
+    test('should not match single words inside longer entity names', () => {
+      const output = { ...article21Output, knowledgeGraph: { nodes: [{ id: '1', label: 'Right', type: 'Concept' as const }], edges: [] } };
+      expect(calculateEntityRecall(article21.expertAnnotation.knowledgeEntities, output).recall).toBe(0);
+    });
+  });
+
+  describe('Dataset Report', () => {
+    const predictions: GoldenPrediction[] = [{ sampleId: 'GS001', output: article21Output }];
+
+    test('should score recorded predictions and count missing samples as failures', () => {
+      const report = evaluateGoldenDataset(predictions);
+      const scored = report.samples.find(sample => sample.sampleId === 'GS001')!;
+
+      expect(report.summary.samples).toBe(GOLDEN_DATASET.length);
+      expect(report.summary.failures).toBe(GOLDEN_DATASET.length - 1);
+      expect(scored).toMatchObject({ relevanceError: 0.05, topicMatch: true, questionsCount: 2 });
+      expect(scored.questionQuality).toBeGreaterThan(0);
+      expect(report.samples.find(sample => sample.sampleId === 'GS002')!.error).toBe('No prediction recorded for this sample');
+    });
+
+    test('should produce identical output for identical predictions', () => {
+      expect(formatReport(evaluateGoldenDataset(predictions))).toBe(formatReport(evaluateGoldenDataset([...predictions])));
+    });
+
+    test('should pass when nothing got worse', () => {
+      const report = evaluateGoldenDataset(predictions);
+      expect(compareReports(report, report)).toEqual([]);
+    });
+
+    test('should flag worse metrics and samples that lost their topic match', () => {
+      const baseline = evaluateGoldenDataset(predictions);
+      const current = evaluateGoldenDataset([{
+        sampleId: 'GS001',
+        output: { ...article21Output, syllabusTopic: 'GS Paper III - Economy', upscRelevanceScore: 0.5 }
+      }]);
+
+      expect(compareReports(baseline, current)).toEqual([
+        { metric: 'meanRelevanceError', baseline: baseline.summary.meanRelevanceError, current: current.summary.meanRelevanceError },
+        { metric: 'topicAccuracy', baseline: baseline.summary.topicAccuracy, current: 0 },
+        { metric: 'topicMatch', sampleId: 'GS001', baseline: 'match', current: 'mismatch' }
+      ]);
+    });
+
+    test('should flag samples that newly fail', () => {
+      const baseline = evaluateGoldenDataset(predictions);
+      const current = evaluateGoldenDataset([{ sampleId: 'GS001', output: {} as NewspaperAnalysisOutput, error: 'Model timed out' }]);
+
+      expect(compareReports(baseline, current)).toContainEqual(
+        { metric: 'error', sampleId: 'GS001', baseline: 'ok', current: 'Model timed out' }
+      );
+    });
+  });
+});
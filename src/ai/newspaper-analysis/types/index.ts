@@ -146,6 +146,7 @@ export const NewspaperAnalysisChunkSchema = z.discriminatedUnion("type", [
   z.object({ type: z.literal('knowledgeGraph'), data: KnowledgeGraphSchema }),
   z.object({ type: z.literal('metadata'), data: z.object({
     syllabusTopic: z.string().optional().nullable(),
+    upscRelevanceScore: z.number().min(0).max(1).optional(),
     qualityScore: z.number().optional(),
     tags: z.array(z.string()).optional(),
     questionsCount: z.number().optional(),
@@ -0,0 +1,224 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAdminRoles } from '@/hooks/useAdminRoles';
+import { useToast } from '@/hooks/use-toast';
+import type { FunnelStepResult, RetentionCohort, WebVitalSummary } from '@/lib/analytics-warehouse';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, Loader2 } from 'lucide-react';
+
+interface AnalyticsReport {
+  from: string;
+  to: string;
+  funnel: FunnelStepResult[];
+  retention: RetentionCohort[];
+  webVitals: WebVitalSummary[];
+}
+
+const RANGE_OPTIONS = [7, 28, 90];
+
+// CLS is a unitless score; the other vitals are in milliseconds
+function formatVital(metric: string, value: number): string {
+  return metric === 'CLS' ? value.toFixed(3) : `${Math.round(value)} ms`;
+}
+
+function retentionCellClass(rate: number): string {
+  if (rate >= 50) return 'bg-green-200';
+  if (rate >= 25) return 'bg-green-100';
+  if (rate > 0) return 'bg-green-50';
+  return '';
+}
+
+export default function AdminAnalyticsPage() {
+  const { user, can, loading: rolesLoading } = useAdminRoles();
+  const { toast } = useToast();
+  const [days, setDays] = useState(28);
+  const [report, setReport] = useState<AnalyticsReport | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const canReadAnalytics = can('analytics:read');
+
+  const loadReport = useCallback(async (rangeDays: number) => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/analytics?days=${rangeDays}`, {
+        headers: { Authorization: `Bearer ${await user.getIdToken()}` }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load analytics');
+      }
+
+      setReport(data);
+    } catch (error) {
+      console.error('Error loading analytics:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Could not load analytics',
+        description: error instanceof Error ? error.message : 'Please try again.'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (canReadAnalytics) {
+      loadReport(days);
+    }
+  }, [canReadAnalytics, days, loadReport]);
+
+  if (rolesLoading) {
+    return null;
+  }
+
+  if (!canReadAnalytics) {
+    return (
+      <div className="container mx-auto py-8">
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Access denied. Product analytics are only available to admins.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const maxWeeks = Math.max(0, ...(report?.retention.map(cohort => cohort.retained.length) || []));
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold">Product Analytics</h1>
+          <p className="text-muted-foreground mt-2">
+            First-party events from visitors who accepted analytics, by IST day
+          </p>
+        </div>
+        <Select value={String(days)} onValueChange={(value) => setDays(Number(value))}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGE_OPTIONS.map(option => (
+              <SelectItem key={option} value={String(option)}>Last {option} days</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading && !report ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : report && (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Activation Funnel</CardTitle>
+              <CardDescription>Users who reached each step after the one before it</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {report.funnel.map(step => (
+                <div key={step.event} className="space-y-1">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium">{step.label}</span>
+                    <span className="text-muted-foreground">
+                      {step.users.toLocaleString('en-IN')} users · {step.conversionFromPrevious}% of previous step
+                    </span>
+                  </div>
+                  <div className="h-3 rounded bg-muted">
+                    <div className="h-3 rounded bg-primary" style={{ width: `${step.conversionFromStart}%` }} />
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Retention Cohorts</CardTitle>
+              <CardDescription>Share of each signup week active in the weeks that followed</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.retention.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No signups in this period.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Week of</TableHead>
+                      <TableHead className="text-right">Users</TableHead>
+                      {Array.from({ length: maxWeeks }, (_, week) => (
+                        <TableHead key={week} className="text-center">Week {week}</TableHead>
+                      ))}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.retention.map(cohort => (
+                      <TableRow key={cohort.cohortStart}>
+                        <TableCell className="whitespace-nowrap">{cohort.cohortStart}</TableCell>
+                        <TableCell className="text-right">{cohort.users}</TableCell>
+                        {Array.from({ length: maxWeeks }, (_, week) => {
+                          const active = cohort.retained[week];
+                          if (active === undefined) return <TableCell key={week} />;
+                          const rate = Math.round((active / cohort.users) * 100);
+                          return (
+                            <TableCell key={week} className={`text-center ${retentionCellClass(rate)}`}>{rate}%</TableCell>
+                          );
+                        })}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Web Vitals</CardTitle>
+              <CardDescription>Field measurements per route</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {report.webVitals.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No Web Vitals recorded in this period.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Route</TableHead>
+                      <TableHead>Metric</TableHead>
+                      <TableHead className="text-right">Samples</TableHead>
+                      <TableHead className="text-right">p50</TableHead>
+                      <TableHead className="text-right">p75</TableHead>
+                      <TableHead className="text-right">p95</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.webVitals.map(vital => (
+                      <TableRow key={`${vital.route} ${vital.metric}`}>
+                        <TableCell className="font-mono text-xs">{vital.route}</TableCell>
+                        <TableCell>{vital.metric}</TableCell>
+                        <TableCell className="text-right">{vital.samples}</TableCell>
+                        <TableCell className="text-right">{formatVital(vital.metric, vital.p50)}</TableCell>
+                        <TableCell className="text-right">{formatVital(vital.metric, vital.p75)}</TableCell>
+                        <TableCell className="text-right">{formatVital(vital.metric, vital.p95)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,323 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { useAdminRoles } from '@/hooks/useAdminRoles';
+import { useToast } from '@/hooks/use-toast';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES, AuditLogEntry } from '@/lib/audit-log';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, ChevronDown, ChevronRight, Loader2, Search } from 'lucide-react';
+
+type AuditEntryView = Omit<AuditLogEntry, 'createdAt'> & { createdAt: string };
+
+interface AuditFilters {
+  action: string;
+  entityType: string;
+  entityId: string;
+  actorId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { action: 'all', entityType: 'all', entityId: '', actorId: '', from: '', to: '' };
+
+const ACTION_COLORS: Record<string, string> = {
+  create: 'bg-green-100 text-green-800',
+  update: 'bg-blue-100 text-blue-800',
+  deactivate: 'bg-red-100 text-red-800',
+  'bulk-import': 'bg-purple-100 text-purple-800',
+  'roles-update': 'bg-yellow-100 text-yellow-800',
+  'status-change': 'bg-teal-100 text-teal-800',
+  rollback: 'bg-orange-100 text-orange-800'
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
+
+function buildQuery(filters: AuditFilters, before?: string): string {
+  const params = new URLSearchParams();
+  if (filters.action !== 'all') params.set('action', filters.action);
+  if (filters.entityType !== 'all') params.set('entityType', filters.entityType);
+  if (filters.entityId) params.set('entityId', filters.entityId.trim());
+  if (filters.actorId) params.set('actorId', filters.actorId.trim());
+  if (filters.from) params.set('from', new Date(filters.from).toISOString());
+  // Include the whole of the end day
+  if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+  if (before) params.set('before', before);
+  return params.toString();
+}
+
+export default function AdminAuditPage() {
+  const { user, can, loading: rolesLoading } = useAdminRoles();
+  const { toast } = useToast();
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [appliedFilters, setAppliedFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [entries, setEntries] = useState<AuditEntryView[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+
+  const canReadAudit = can('audit:read');
+
+  const loadEntries = useCallback(async (activeFilters: AuditFilters, before?: string) => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/audit-logs?${buildQuery(activeFilters, before)}`, {
+        headers: { Authorization: `Bearer ${await user.getIdToken()}` }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load audit logs');
+      }
+
+      setEntries(prev => before ? [...prev, ...data.entries] : data.entries);
+      setAppliedFilters(activeFilters);
+      setHasMore(data.hasMore);
+    } catch (error) {
+      console.error('Error loading audit logs:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Could not load audit logs',
+        description: error instanceof Error ? error.message : 'Please try again.'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, toast]);
+
+  useEffect(() => {
+    if (canReadAudit) {
+      loadEntries(EMPTY_FILTERS);
+    }
+  }, [canReadAudit, loadEntries]);
+
+  const updateFilter = (field: keyof AuditFilters, value: string) => {
+    setFilters(prev => ({ ...prev, [field]: value }));
+  };
+
+  if (rolesLoading) {
+    return null;
+  }
+
+  if (!canReadAudit) {
+    return (
+      <div className="container mx-auto py-8">
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Access denied. The audit trail is only available to admins and reviewers.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Audit Trail</h1>
+        <p className="text-muted-foreground mt-2">
+          Every question bank change, import and role change, with what changed
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Filters</CardTitle>
+          <CardDescription>Entity and actor IDs must match exactly</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="grid gap-4 md:grid-cols-3"
+            onSubmit={event => {
+              event.preventDefault();
+              loadEntries(filters);
+            }}
+          >
+            <div className="space-y-2">
+              <Label>Action</Label>
+              <Select value={filters.action} onValueChange={value => updateFilter('action', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All actions</SelectItem>
+                  {AUDIT_ACTIONS.map(action => (
+                    <SelectItem key={action} value={action}>{action}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Entity type</Label>
+              <Select value={filters.entityType} onValueChange={value => updateFilter('entityType', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All entities</SelectItem>
+                  {AUDIT_ENTITY_TYPES.map(entityType => (
+                    <SelectItem key={entityType} value={entityType}>{entityType}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-entity-id">Entity ID</Label>
+              <Input
+                id="audit-entity-id"
+                value={filters.entityId}
+                onChange={event => updateFilter('entityId', event.target.value)}
+                placeholder="Question, batch or user ID"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-actor-id">Actor ID</Label>
+              <Input
+                id="audit-actor-id"
+                value={filters.actorId}
+                onChange={event => updateFilter('actorId', event.target.value)}
+                placeholder="User ID of the staff member"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">From</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={filters.from}
+                onChange={event => updateFilter('from', event.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">To</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={filters.to}
+                onChange={event => updateFilter('to', event.target.value)}
+              />
+            </div>
+            <div className="md:col-span-3 flex gap-2">
+              <Button type="submit" disabled={loading}>
+                <Search className="w-4 h-4 mr-2" />
+                Apply Filters
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setFilters(EMPTY_FILTERS);
+                  loadEntries(EMPTY_FILTERS);
+                }}
+              >
+                Reset
+              </Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>When</TableHead>
+                <TableHead>Action</TableHead>
+                <TableHead>Entity</TableHead>
+                <TableHead>Actor</TableHead>
+                <TableHead>Changes</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <React.Fragment key={entry.id}>
+                  <TableRow
+                    className="cursor-pointer"
+                    onClick={() => setExpanded(expanded === entry.id ? null : entry.id)}
+                  >
+                    <TableCell>
+                      {expanded === entry.id ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge className={ACTION_COLORS[entry.action]} variant="secondary">{entry.action}</Badge>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{entry.entityType}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{entry.entityId}</div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="text-sm">{entry.actorEmail || entry.actorId}</div>
+                      <div className="text-xs text-muted-foreground">{entry.actorRoles.join(', ')}</div>
+                    </TableCell>
+                    <TableCell>
+                      {entry.changes.length > 0
+                        ? `${entry.changes.length} field${entry.changes.length === 1 ? '' : 's'}`
+                        : '—'}
+                    </TableCell>
+                  </TableRow>
+                  {expanded === entry.id && (
+                    <TableRow>
+                      <TableCell colSpan={6} className="bg-muted/30">
+                        {entry.changes.length > 0 && (
+                          <div className="space-y-2">
+                            {entry.changes.map(change => (
+                              <div key={change.field} className="grid grid-cols-[10rem_1fr_1fr] gap-3 text-sm">
+                                <span className="font-medium">{change.field}</span>
+                                <span className="text-red-700 line-through break-all">{formatValue(change.before)}</span>
+                                <span className="text-green-700 break-all">{formatValue(change.after)}</span>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+                        {entry.metadata && (
+                          <pre className="mt-2 text-xs whitespace-pre-wrap break-all">
+                            {JSON.stringify(entry.metadata, null, 2)}
+                          </pre>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </React.Fragment>
+              ))}
+              {!loading && entries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={6} className="text-center text-muted-foreground py-8">
+                    No audit entries match these filters
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      {(hasMore || loading) && (
+        <div className="flex justify-center">
+          <Button
+            variant="outline"
+            disabled={loading}
+            onClick={() => loadEntries(appliedFilters, entries[entries.length - 1]?.createdAt)}
+          >
+            {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {loading ? 'Loading...' : 'Load More'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
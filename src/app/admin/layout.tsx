@@ -0,0 +1,41 @@
+'use client';
+
+import React from 'react';
+import Link from 'next/link';
+import { useAdminRoles } from '@/hooks/useAdminRoles';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle } from 'lucide-react';
+
+// Every admin page needs a staff role; pages and API routes check the specific permission they need
+export default function AdminLayout({ children }: { children: React.ReactNode }) {
+  const { roles, loading } = useAdminRoles();
+
+  if (loading) {
+    return (
+      <div className="container mx-auto py-8 space-y-4">
+        <Skeleton className="h-10 w-64" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (roles.length === 0) {
+    return (
+      <div className="container mx-auto py-8 space-y-4">
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Access denied. The admin tools are only available to admins, content editors and reviewers.
+          </AlertDescription>
+        </Alert>
+        <Button asChild variant="outline">
+          <Link href="/dashboard">Back to Dashboard</Link>
+        </Button>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
@@ -1,9 +1,10 @@
 'use client';
 
 import { useState, useCallback } from 'react';
-import { useAuth } from '@/hooks/useAuth';
-import { isDevMode } from '@/lib/dev-mode';
-import { QuestionUploadService, FileUploadResult } from '@/services/questionUploadService';
+import Link from 'next/link';
+import { useAdminRoles } from '@/hooks/useAdminRoles';
+import { ROLE_LABELS } from '@/lib/admin-roles';
+import { FileUploadResult } from '@/services/questionUploadService';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -23,7 +24,7 @@ interface UploadState {
 }
 
 export default function QuestionUploadPage() {
-  const { user } = useAuth();
+  const { user, roles, loading, can } = useAdminRoles();
   const [examType, setExamType] = useState<'Prelims' | 'Mains'>('Prelims');
   const [year, setYear] = useState<number>(new Date().getFullYear());
   const [paper, setPaper] = useState<string>('');
@@ -34,11 +35,11 @@ export default function QuestionUploadPage() {
     error: null
   });
 
-  // Check if user has dev access
-  const hasDevAccess = isDevMode(user?.email);
+  // Content editors and admins can import; the API route enforces the same permission
+  const canImport = can('questions:import');
 
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    if (!user || !hasDevAccess || acceptedFiles.length === 0) return;
+    if (!user || !canImport || acceptedFiles.length === 0) return;
 
     const file = acceptedFiles[0];
     setUploadState({
@@ -57,13 +58,23 @@ export default function QuestionUploadPage() {
         }));
       }, 200);
 
-      const result = await QuestionUploadService.uploadFile(
-        file,
-        examType,
-        user.uid,
-        year,
-        paper || undefined
-      );
+      // Imports go through the API so they are authorized and recorded in the audit trail
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('examType', examType);
+      formData.append('year', year.toString());
+      if (paper) formData.append('paper', paper);
+
+      const response = await fetch('/api/admin/question-upload', {
+        method: 'POST',
+        headers: { Authorization: `Bearer ${await user.getIdToken()}` },
+        body: formData
+      });
+      const data = await response.json();
+      // Authorization and server failures come back as { error } rather than an upload result
+      const result: FileUploadResult = data.message !== undefined
+        ? data
+        : { success: false, message: data.error || 'Upload failed' };
 
       clearInterval(progressInterval);
 
@@ -82,7 +93,7 @@ export default function QuestionUploadPage() {
         error: error instanceof Error ? error.message : 'Upload failed'
       });
     }
-  }, [user, hasDevAccess, examType, year, paper]);
+  }, [user, canImport, examType, year, paper]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -93,7 +104,7 @@ export default function QuestionUploadPage() {
       'application/json': ['.json']
     },
     maxFiles: 1,
-    disabled: uploadState.isUploading || !hasDevAccess
+    disabled: uploadState.isUploading || !canImport
   });
 
   const resetUpload = () => {
@@ -105,13 +116,17 @@ export default function QuestionUploadPage() {
     });
   };
 
-  if (!hasDevAccess) {
+  if (loading) {
+    return null;
+  }
+
+  if (!canImport) {
     return (
       <div className="container mx-auto py-8">
         <Alert>
           <AlertCircle className="h-4 w-4" />
           <AlertDescription>
-            Access denied. This page is only available for developers and administrators.
+            Access denied. This page is only available to admins and content editors.
           </AlertDescription>
         </Alert>
       </div>
@@ -128,7 +143,7 @@ export default function QuestionUploadPage() {
           </p>
         </div>
         <Badge variant="secondary" className="text-blue-600">
-          🚀 Dev Mode
+          {roles.map(role => ROLE_LABELS[role]).join(', ')}
         </Badge>
       </div>
 
@@ -259,7 +274,15 @@ export default function QuestionUploadPage() {
                   </div>
                 </Alert>
 
-                {uploadState.result.stats && (
+                {uploadState.result.requiresReview && uploadState.result.batchId && (
+                  <Button asChild className="mt-4 w-full">
+                    <Link href={`/admin/question-upload/review/${uploadState.result.batchId}`}>
+                      Review {uploadState.result.duplicates?.length} Possible Duplicates
+                    </Link>
+                  </Button>
+                )}
+
+                {uploadState.result.stats && !uploadState.result.requiresReview && (
                   <div className="mt-4 grid grid-cols-2 gap-4 text-sm">
                     <div className="bg-muted p-3 rounded">
                       <div className="font-medium">Total Records</div>
@@ -0,0 +1,288 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useAdminRoles } from '@/hooks/useAdminRoles';
+import { useToast } from '@/hooks/use-toast';
+import { DuplicateMatch, DuplicateResolution } from '@/lib/question-dedup';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, ArrowLeft, CheckCircle, Loader2 } from 'lucide-react';
+
+type QuestionRecord = Record<string, unknown>;
+
+interface StagedRow {
+  index: number;
+  question: QuestionRecord;
+  match?: DuplicateMatch;
+}
+
+interface ReviewData {
+  batch: {
+    id: string;
+    fileName: string;
+    examType: 'Prelims' | 'Mains';
+    year: number;
+    paper: string | null;
+    status: string;
+  };
+  rows: StagedRow[];
+  matchedQuestions: Record<string, QuestionRecord>;
+}
+
+interface CommitResult {
+  success: boolean;
+  message: string;
+}
+
+const RESOLUTION_LABELS: Record<DuplicateResolution, { label: string; description: string }> = {
+  skip: { label: 'Skip', description: 'Do not import this row' },
+  merge: { label: 'Merge', description: 'Fill fields the match is missing, then drop this row' },
+  'keep-both': { label: 'Keep both', description: 'Import this row as a separate question' }
+};
+
+function QuestionPreview({ title, question }: { title: string; question?: QuestionRecord }) {
+  if (!question) {
+    return (
+      <div className="rounded border p-3 text-sm text-muted-foreground">
+        {title}: no longer available
+      </div>
+    );
+  }
+
+  const options = question.options as Record<string, string> | undefined;
+  return (
+    <div className="rounded border p-3 space-y-2">
+      <div className="text-xs font-medium uppercase text-muted-foreground">{title}</div>
+      <p className="text-sm whitespace-pre-wrap">{String(question.question ?? '')}</p>
+      {options && (
+        <ul className="text-sm space-y-1">
+          {Object.entries(options).map(([key, value]) => (
+            <li key={key}>
+              <span className="font-medium">{key}.</span> {value}
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+        {question.year !== undefined && <span>Year {String(question.year)}</span>}
+        {question.paper !== undefined && <span>{String(question.paper)}</span>}
+        {question.questionHi ? <span>Hindi available</span> : null}
+        {question.explanation ? <span>Has explanation</span> : null}
+      </div>
+    </div>
+  );
+}
+
+export default function ImportReviewPage() {
+  const { batchId } = useParams<{ batchId: string }>();
+  const { user, can, loading: rolesLoading } = useAdminRoles();
+  const { toast } = useToast();
+  const [data, setData] = useState<ReviewData | null>(null);
+  const [decisions, setDecisions] = useState<Record<number, DuplicateResolution>>({});
+  const [loading, setLoading] = useState(true);
+  const [committing, setCommitting] = useState(false);
+  const [commitResult, setCommitResult] = useState<CommitResult | null>(null);
+
+  const canImport = can('questions:import');
+
+  const loadReview = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/admin/question-upload/${batchId}`, {
+        headers: { Authorization: `Bearer ${await user.getIdToken()}` }
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to load upload');
+      }
+
+      setData(body);
+      // Nothing is imported twice unless someone chooses to
+      setDecisions(Object.fromEntries(
+        (body.rows as StagedRow[]).filter(row => row.match).map(row => [row.index, 'skip'])
+      ));
+    } catch (error) {
+      console.error('Error loading import review:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Could not load the upload',
+        description: error instanceof Error ? error.message : 'Please try again.'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, batchId, toast]);
+
+  useEffect(() => {
+    if (canImport) {
+      loadReview();
+    }
+  }, [canImport, loadReview]);
+
+  const commitImport = async () => {
+    if (!user) return;
+
+    setCommitting(true);
+    try {
+      const response = await fetch(`/api/admin/question-upload/${batchId}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${await user.getIdToken()}`
+        },
+        body: JSON.stringify({ decisions })
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to commit import');
+      }
+      setCommitResult(body);
+    } catch (error) {
+      console.error('Error committing import:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Import not committed',
+        description: error instanceof Error ? error.message : 'Please try again.'
+      });
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  if (rolesLoading) {
+    return null;
+  }
+
+  if (!canImport) {
+    return (
+      <div className="container mx-auto py-8">
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Access denied. Only admins and content editors can review imports.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const flaggedRows = data?.rows.filter(row => row.match) ?? [];
+  const rowsByIndex = new Map(data?.rows.map(row => [row.index, row]) ?? []);
+  const pendingReview = data?.batch.status === 'Pending Review';
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <Button asChild variant="ghost" size="sm">
+        <Link href="/admin/question-upload">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Upload
+        </Link>
+      </Button>
+
+      <div>
+        <h1 className="text-3xl font-bold">Review Possible Duplicates</h1>
+        {data && (
+          <p className="text-muted-foreground mt-2">
+            {data.batch.fileName} · {data.batch.examType} {data.batch.year}
+            {data.batch.paper ? ` · ${data.batch.paper}` : ''} · {data.rows.length} questions, {flaggedRows.length} flagged
+          </p>
+        )}
+      </div>
+
+      {loading && (
+        <div className="space-y-4">
+          <Skeleton className="h-48 w-full" />
+          <Skeleton className="h-48 w-full" />
+        </div>
+      )}
+
+      {commitResult && (
+        <Alert className={commitResult.success ? 'border-green-200 bg-green-50' : 'border-red-200 bg-red-50'}>
+          {commitResult.success ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+          <AlertDescription>{commitResult.message}</AlertDescription>
+        </Alert>
+      )}
+
+      {data && !pendingReview && !commitResult && (
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            This upload is not awaiting review (status: {data.batch.status}).
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {data && pendingReview && !commitResult && (
+        <>
+          {flaggedRows.map(row => {
+            const match = row.match!;
+            const matchedQuestion = match.source === 'existing'
+              ? data.matchedQuestions[match.matchId!]
+              : rowsByIndex.get(match.matchIndex!)?.question;
+
+            return (
+              <Card key={row.index}>
+                <CardHeader>
+                  <div className="flex items-center justify-between gap-4">
+                    <CardTitle className="text-lg">Question {row.index + 1}</CardTitle>
+                    <Badge variant={match.exact ? 'destructive' : 'secondary'}>
+                      {match.exact ? 'Exact duplicate' : `${Math.round(match.similarity * 100)}% similar`}
+                    </Badge>
+                  </div>
+                  <CardDescription>
+                    {match.source === 'existing'
+                      ? `Matches question ${match.matchId} already in the question bank`
+                      : `Matches question ${match.matchIndex! + 1} of this upload`}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid gap-4 md:grid-cols-2">
+                    <QuestionPreview title="This upload" question={row.question} />
+                    <QuestionPreview
+                      title={match.source === 'existing' ? 'In the question bank' : `Question ${match.matchIndex! + 1}`}
+                      question={matchedQuestion}
+                    />
+                  </div>
+                  <RadioGroup
+                    className="grid gap-3 md:grid-cols-3"
+                    value={decisions[row.index]}
+                    onValueChange={value => setDecisions(prev => ({ ...prev, [row.index]: value as DuplicateResolution }))}
+                  >
+                    {(Object.keys(RESOLUTION_LABELS) as DuplicateResolution[]).map(resolution => (
+                      <div key={resolution} className="flex items-start gap-2">
+                        <RadioGroupItem value={resolution} id={`row-${row.index}-${resolution}`} className="mt-1" />
+                        <Label htmlFor={`row-${row.index}-${resolution}`} className="font-normal">
+                          <span className="font-medium">{RESOLUTION_LABELS[resolution].label}</span>
+                          <span className="block text-xs text-muted-foreground">{RESOLUTION_LABELS[resolution].description}</span>
+                        </Label>
+                      </div>
+                    ))}
+                  </RadioGroup>
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-sm text-muted-foreground">
+              The {data.rows.length - flaggedRows.length} unflagged questions are imported as they are.
+            </p>
+            <Button onClick={commitImport} disabled={committing}>
+              {committing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Commit Import
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,398 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams, useSearchParams } from 'next/navigation';
+import { useAdminRoles } from '@/hooks/useAdminRoles';
+import { useToast } from '@/hooks/use-toast';
+import { diffRecords } from '@/lib/audit-log';
+import {
+  QuestionRevision,
+  QuestionStatus,
+  ReviewComment,
+  STATUS_LABELS,
+  WorkflowAction
+} from '@/lib/question-workflow';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, ArrowLeft, Loader2, RotateCcw } from 'lucide-react';
+
+type ExamType = 'Prelims' | 'Mains';
+
+interface QuestionHistoryData {
+  question: Record<string, unknown> & { status: QuestionStatus };
+  revisions: QuestionRevision[];
+  comments: ReviewComment[];
+  availableActions: WorkflowAction[];
+}
+
+const STATUS_COLORS: Record<QuestionStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  'in-review': 'bg-yellow-100 text-yellow-800',
+  verified: 'bg-green-100 text-green-800',
+  retired: 'bg-red-100 text-red-800'
+};
+
+const ACTION_LABELS: Record<WorkflowAction, string> = {
+  submit: 'Submit for Review',
+  approve: 'Approve',
+  'request-changes': 'Request Changes',
+  retire: 'Retire',
+  restore: 'Restore'
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+}
+
+export default function AdminQuestionDetailPage() {
+  const { id } = useParams<{ id: string }>();
+  const examType = (useSearchParams().get('examType') || 'Prelims') as ExamType;
+  const { user, can, loading: rolesLoading } = useAdminRoles();
+  const { toast } = useToast();
+  const [data, setData] = useState<QuestionHistoryData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [actionComment, setActionComment] = useState('');
+  const [newComment, setNewComment] = useState('');
+  const [reviewerEmail, setReviewerEmail] = useState('');
+  const [compareFrom, setCompareFrom] = useState<string>('');
+  const [compareTo, setCompareTo] = useState<string>('');
+
+  const canView = can('questions:update') || can('questions:review');
+  const canEdit = can('questions:update');
+
+  const loadHistory = useCallback(async () => {
+    if (!user) return;
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/questions/${id}/history?examType=${examType}`, {
+        headers: { Authorization: `Bearer ${await user.getIdToken()}` }
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Failed to load question');
+      }
+
+      setData(body);
+      setReviewerEmail(body.question.reviewerEmail || '');
+      // Compare the current revision with the one before it
+      const versions = (body.revisions as QuestionRevision[]).map(revision => String(revision.version));
+      setCompareTo(versions[0] ?? '');
+      setCompareFrom(versions[1] ?? versions[0] ?? '');
+    } catch (error) {
+      console.error('Error loading question history:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Could not load the question',
+        description: error instanceof Error ? error.message : 'Please try again.'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, id, examType, toast]);
+
+  useEffect(() => {
+    if (canView) {
+      loadHistory();
+    }
+  }, [canView, loadHistory]);
+
+  // Sends a request to one of the question's review endpoints and reloads on success
+  const send = async (path: string, method: 'POST' | 'PUT', payload: Record<string, unknown>, success: string) => {
+    if (!user) return false;
+
+    setBusy(true);
+    try {
+      const response = await fetch(`/api/questions/${id}/${path}`, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${await user.getIdToken()}`
+        },
+        body: JSON.stringify({ examType, ...payload })
+      });
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.error || 'Request failed');
+      }
+
+      toast({ title: body.message || success });
+      await loadHistory();
+      return true;
+    } catch (error) {
+      console.error(`Error calling ${path}:`, error);
+      toast({
+        variant: 'destructive',
+        title: 'Not saved',
+        description: error instanceof Error ? error.message : 'Please try again.'
+      });
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const runAction = async (action: WorkflowAction) => {
+    const comment = actionComment.trim();
+    if (await send('review', 'POST', { action, ...(comment && { comment }) }, `${ACTION_LABELS[action]}: done`)) {
+      setActionComment('');
+    }
+  };
+
+  const addComment = async () => {
+    if (await send('comments', 'POST', { body: newComment }, 'Comment added')) {
+      setNewComment('');
+    }
+  };
+
+  if (rolesLoading) {
+    return null;
+  }
+
+  if (!canView) {
+    return (
+      <div className="container mx-auto py-8">
+        <Alert>
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>
+            Access denied. Only admins, content editors and reviewers can view question history.
+          </AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const currentVersion = data?.revisions[0]?.version;
+  const servedVersion = typeof data?.question.version === 'number' ? data.question.version : 1;
+  const pendingVersion = typeof data?.question.pendingVersion === 'number' ? data.question.pendingVersion : undefined;
+  const fromRevision = data?.revisions.find(revision => String(revision.version) === compareFrom);
+  const toRevision = data?.revisions.find(revision => String(revision.version) === compareTo);
+  const changes = fromRevision && toRevision ? diffRecords(fromRevision.content, toRevision.content) : [];
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <Button asChild variant="ghost" size="sm">
+        <Link href="/admin/questions">
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Question Bank
+        </Link>
+      </Button>
+
+      {loading && !data && (
+        <div className="space-y-4">
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      )}
+
+      {data && (
+        <>
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between gap-4">
+                <CardTitle className="text-lg">{examType} question · version {servedVersion}</CardTitle>
+                <Badge className={STATUS_COLORS[data.question.status]} variant="secondary">
+                  {STATUS_LABELS[data.question.status]}
+                </Badge>
+              </div>
+              <CardDescription className="font-mono">{id}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {pendingVersion !== undefined && (
+                <Alert>
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertDescription>
+                    Version {pendingVersion} is awaiting review. Users see version {servedVersion} until it is approved.
+                  </AlertDescription>
+                </Alert>
+              )}
+              <p className="text-sm whitespace-pre-wrap">{String(data.question.question ?? '')}</p>
+
+              {data.availableActions.length > 0 && (
+                <div className="space-y-2">
+                  <Textarea
+                    value={actionComment}
+                    onChange={event => setActionComment(event.target.value)}
+                    placeholder="Comment for the reviewer or author (required when requesting changes)"
+                    rows={2}
+                  />
+                  <div className="flex flex-wrap gap-2">
+                    {data.availableActions.map(action => (
+                      <Button
+                        key={action}
+                        variant={action === 'retire' || action === 'request-changes' ? 'outline' : 'default'}
+                        disabled={busy}
+                        onClick={() => runAction(action)}
+                      >
+                        {ACTION_LABELS[action]}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex flex-col gap-2 md:flex-row md:items-center">
+                <span className="text-sm font-medium md:w-24">Reviewer</span>
+                <Input
+                  value={reviewerEmail}
+                  onChange={event => setReviewerEmail(event.target.value)}
+                  placeholder="reviewer@example.com (blank to unassign)"
+                  className="flex-1"
+                />
+                <Button
+                  variant="outline"
+                  disabled={busy}
+                  onClick={() => send('review', 'PUT', { reviewerEmail: reviewerEmail.trim() || null }, 'Reviewer updated')}
+                >
+                  Assign
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Compare Versions</CardTitle>
+              <CardDescription>Content fields that differ between two revisions</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-3">
+                {[{ value: compareFrom, onChange: setCompareFrom }, { value: compareTo, onChange: setCompareTo }].map((picker, index) => (
+                  <Select key={index} value={picker.value} onValueChange={picker.onChange}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {data.revisions.map(revision => (
+                        <SelectItem key={revision.version} value={String(revision.version)}>
+                          Version {revision.version}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ))}
+              </div>
+              {changes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No differences</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-40">Field</TableHead>
+                      <TableHead>Version {compareFrom}</TableHead>
+                      <TableHead>Version {compareTo}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changes.map(change => (
+                      <TableRow key={change.field}>
+                        <TableCell className="font-mono text-xs align-top">{change.field}</TableCell>
+                        <TableCell className="text-xs whitespace-pre-wrap align-top bg-red-50">{formatValue(change.before)}</TableCell>
+                        <TableCell className="text-xs whitespace-pre-wrap align-top bg-green-50">{formatValue(change.after)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Revision History</CardTitle>
+              <CardDescription>Rolling back restores an earlier revision as a new draft for review</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Version</TableHead>
+                    <TableHead>When</TableHead>
+                    <TableHead>Edited by</TableHead>
+                    <TableHead>Changed fields</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {data.revisions.map(revision => (
+                    <TableRow key={revision.version}>
+                      <TableCell>
+                        {revision.version}
+                        {revision.restoredFrom !== undefined && (
+                          <span className="block text-xs text-muted-foreground">restored from {revision.restoredFrom}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(revision.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>{revision.editedByEmail || revision.editedBy}</TableCell>
+                      <TableCell className="text-xs">
+                        {revision.changes.map(change => change.field).join(', ') || '—'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {canEdit && revision.version !== currentVersion && data.question.status !== 'retired' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={busy}
+                            onClick={() => send('rollback', 'POST', { version: revision.version }, 'Rolled back')}
+                          >
+                            <RotateCcw className="w-3 h-3 mr-1" />
+                            Rollback
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">Review Comments</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {data.comments.length === 0 && (
+                <p className="text-sm text-muted-foreground">No comments yet</p>
+              )}
+              {data.comments.map(comment => (
+                <div key={comment.id} className="rounded border p-3 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">{comment.authorEmail || comment.authorId}</span>
+                    <span>on version {comment.version}</span>
+                    {comment.action && <Badge variant="outline">{ACTION_LABELS[comment.action]}</Badge>}
+                    <span className="ml-auto">{new Date(comment.createdAt).toLocaleString()}</span>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{comment.body}</p>
+                </div>
+              ))}
+              <div className="space-y-2">
+                <Textarea
+                  value={newComment}
+                  onChange={event => setNewComment(event.target.value)}
+                  placeholder="Add a comment"
+                  rows={3}
+                />
+                <Button onClick={addComment} disabled={busy || !newComment.trim()}>
+                  {busy && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Comment
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useAdminRoles } from '@/hooks/useAdminRoles';
+import { useToast } from '@/hooks/use-toast';
+import { FacetCounts, SEARCH_FACETS, SearchFacet, SearchSort } from '@/lib/question-search';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Search } from 'lucide-react';
+
+type ExamType = 'Prelims' | 'Mains';
+
+type FacetSelection = Record<SearchFacet, string[]>;
+
+interface QuestionResult {
+  id: string;
+  question: string;
+  year?: number;
+  paper?: string;
+  subject?: string[];
+  difficultyLevel?: string;
+  questionType?: string;
+  verified?: boolean;
+}
+
+const FACET_LABELS: Record<SearchFacet, string> = {
+  year: 'Year',
+  paper: 'Paper',
+  subject: 'Subject',
+  difficultyLevel: 'Difficulty',
+  questionType: 'Question type'
+};
+
+// Query parameter for each facet's filter on /api/questions
+const FACET_PARAMS: Record<SearchFacet, string> = {
+  year: 'years',
+  paper: 'papers',
+  subject: 'subjects',
+  difficultyLevel: 'difficultyLevel',
+  questionType: 'questionType'
+};
+
+const SORT_LABELS: Record<SearchSort, string> = {
+  relevance: 'Relevance',
+  year: 'Year',
+  difficulty: 'Difficulty',
+  successRate: 'Success rate',
+  attemptCount: 'Attempts'
+};
+
+const EMPTY_SELECTION: FacetSelection = { year: [], paper: [], subject: [], difficultyLevel: [], questionType: [] };
+
+const FACET_VALUE_LIMIT = 12;
+
+export default function AdminQuestionsPage() {
+  const { user } = useAdminRoles();
+  const { toast } = useToast();
+  const [examType, setExamType] = useState<ExamType>('Prelims');
+  const [queryInput, setQueryInput] = useState('');
+  const [query, setQuery] = useState('');
+  const [sortBy, setSortBy] = useState<SearchSort | 'default'>('default');
+  const [selection, setSelection] = useState<FacetSelection>(EMPTY_SELECTION);
+  const [questions, setQuestions] = useState<QuestionResult[]>([]);
+  const [facets, setFacets] = useState<FacetCounts | null>(null);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const search = useCallback(async (cursor?: string) => {
+    if (!user) return;
+
+    const params = new URLSearchParams({ examType, limit: '20' });
+    if (query) params.set('q', query);
+    if (sortBy !== 'default') params.set('sortBy', sortBy);
+    SEARCH_FACETS.forEach(facet => {
+      if (selection[facet].length > 0) params.set(FACET_PARAMS[facet], selection[facet].join(','));
+    });
+    if (cursor) params.set('cursor', cursor);
+
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/questions?${params.toString()}`, {
+        headers: { Authorization: `Bearer ${await user.getIdToken()}` }
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Search failed');
+      }
+
+      setQuestions(prev => cursor ? [...prev, ...data.data] : data.data);
+      setFacets(data.facets);
+      setTotal(data.total);
+      setNextCursor(data.nextCursor);
+    } catch (error) {
+      console.error('Error searching questions:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Search failed',
+        description: error instanceof Error ? error.message : 'Please try again.'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, examType, query, sortBy, selection, toast]);
+
+  useEffect(() => {
+    search();
+  }, [search]);
+
+  const toggleFacetValue = (facet: SearchFacet, value: string) => {
+    setSelection(prev => ({
+      ...prev,
+      [facet]: prev[facet].includes(value) ? prev[facet].filter(item => item !== value) : [...prev[facet], value]
+    }));
+  };
+
+  return (
+    <div className="container mx-auto py-8 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Question Bank</h1>
+        <p className="text-muted-foreground mt-2">
+          Search question text, options, explanations and tags. Use &quot;quotes&quot; for phrases, word* for prefixes and -word to exclude.
+        </p>
+      </div>
+
+      <form
+        className="flex flex-col gap-3 md:flex-row"
+        onSubmit={event => {
+          event.preventDefault();
+          setQuery(queryInput.trim());
+        }}
+      >
+        <Select
+          value={examType}
+          onValueChange={value => {
+            setExamType(value as ExamType);
+            setSelection(EMPTY_SELECTION);
+          }}
+        >
+          <SelectTrigger className="md:w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="Prelims">Prelims</SelectItem>
+            <SelectItem value="Mains">Mains</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          value={queryInput}
+          onChange={event => setQueryInput(event.target.value)}
+          placeholder='e.g. "fundamental duties" article 51*'
+          className="flex-1"
+        />
+        <Select value={sortBy} onValueChange={value => setSortBy(value as SearchSort | 'default')}>
+          <SelectTrigger className="md:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="default">Best match</SelectItem>
+            {(Object.keys(SORT_LABELS) as SearchSort[]).map(sort => (
+              <SelectItem key={sort} value={sort}>{SORT_LABELS[sort]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={loading}>
+          <Search className="w-4 h-4 mr-2" />
+          Search
+        </Button>
+      </form>
+
+      <div className="grid gap-6 md:grid-cols-[16rem_1fr]">
+        <div className="space-y-4">
+          {facets && SEARCH_FACETS.map(facet => {
+            const values = Object.entries(facets[facet])
+              .sort((a, b) => facet === 'year' ? Number(b[0]) - Number(a[0]) : b[1] - a[1])
+              .slice(0, FACET_VALUE_LIMIT);
+            if (values.length === 0) return null;
+
+            return (
+              <Card key={facet}>
+                <CardHeader className="py-3">
+                  <CardTitle className="text-sm">{FACET_LABELS[facet]}</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-2 pb-3">
+                  {values.map(([value, count]) => (
+                    <div key={value} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`${facet}-${value}`}
+                        checked={selection[facet].includes(value)}
+                        onCheckedChange={() => toggleFacetValue(facet, value)}
+                      />
+                      <Label htmlFor={`${facet}-${value}`} className="flex-1 font-normal text-sm">{value}</Label>
+                      <span className="text-xs text-muted-foreground">{count}</span>
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">{total} question{total === 1 ? '' : 's'}</p>
+          {questions.map(question => (
+            <Card key={question.id}>
+              <CardContent className="py-4 space-y-2">
+                <Link href={`/admin/questions/${question.id}?examType=${examType}`} className="block hover:underline">
+                  <p className="text-sm whitespace-pre-wrap line-clamp-4">{question.question}</p>
+                </Link>
+                <div className="flex flex-wrap gap-2">
+                  {question.year && <Badge variant="outline">{question.year}</Badge>}
+                  {question.paper && <Badge variant="outline">{question.paper}</Badge>}
+                  {question.difficultyLevel && <Badge variant="secondary">{question.difficultyLevel}</Badge>}
+                  {question.questionType && <Badge variant="secondary">{question.questionType}</Badge>}
+                  {question.subject?.map(subject => <Badge key={subject} variant="secondary">{subject}</Badge>)}
+                  {question.verified && <Badge className="bg-green-100 text-green-800" variant="secondary">Verified</Badge>}
+                  <span className="ml-auto text-xs text-muted-foreground font-mono">{question.id}</span>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+          {!loading && questions.length === 0 && (
+            <p className="text-center text-muted-foreground py-8">No questions match this search</p>
+          )}
+          {(nextCursor || loading) && (
+            <div className="flex justify-center">
+              <Button variant="outline" disabled={loading} onClick={() => nextCursor && search(nextCursor)}>
+                {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {loading ? 'Loading...' : 'Load More'}
+              </Button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
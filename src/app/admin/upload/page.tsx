@@ -2,7 +2,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { useAuth } from '@/contexts/AuthContext';
+import { useAdminRoles } from '@/hooks/useAdminRoles';
 import { useRouter } from 'next/navigation';
 import Header from '@/components/layout/header';
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
@@ -20,9 +20,6 @@ import { Loader2, Upload, FileText, Image, Book, Newspaper, Users, BarChart3, Al
 import { type Question } from '@/types/quiz';
 import { uploadBulkPastYearQuestions, uploadContentByType } from '@/services/adminService';
 
-// In a real app, this should come from a secure source like custom claims
-const ADMIN_UID = 'qjDA9FVi48QidKnbYjMEkdFf3QP2';
-
 // Content types for admin upload
 type ContentType = 'questions' | 'pdf-to-quiz' | 'books' | 'images' | 'news' | 'syllabus' | 'users' | 'analytics';
 
@@ -61,7 +58,7 @@ const exampleJson = `
 `;
 
 export default function AdminUploadPage() {
-  const { user, loading } = useAuth();
+  const { user, loading, can } = useAdminRoles();
   const router = useRouter();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState<ContentType>('questions');
@@ -77,7 +74,7 @@ export default function AdminUploadPage() {
 
   useEffect(() => {
     if (!loading) {
-      if (!user || user.uid !== ADMIN_UID) {
+      if (!user || !can('questions:import')) {
         toast({
           variant: 'destructive',
           title: 'Unauthorized',
@@ -88,7 +85,7 @@ export default function AdminUploadPage() {
         setIsAuthorized(true);
       }
     }
-  }, [user, loading, router, toast]);
+  }, [user, loading, can, router, toast]);
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -132,7 +132,7 @@ describe('/api/subscription/upgrade', () => {
     getAuth().verifyIdToken.mockResolvedValue({ uid: 'test-user-123' });
 
     // Mock successful upgrade
-    mockSubscriptionService.updateSubscriptionTier.mockResolvedValue(undefined);
+    mockSubscriptionService.updateSubscriptionTier.mockResolvedValue(0);
 
     const response = await UpgradePost(mockRequest);
     const responseData = await response.json();
@@ -0,0 +1,76 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { z } from 'zod';
+import { AuthorizedRequest, createRoleAuthorizedHandler } from '@/lib/auth-middleware';
+import {
+  ANALYTICS_ACTIVITY_EVENTS,
+  ANALYTICS_FUNNEL_STEPS,
+  WEB_VITAL_EVENT,
+  computeFunnel,
+  computeRetentionCohorts,
+  computeWebVitalPercentiles,
+  getAnalyticsDays
+} from '@/lib/analytics-warehouse';
+import { listAnalyticsEventsAdmin } from '@/lib/analytics-warehouse-admin';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const paramsSchema = z.object({
+  days: z.coerce.number().int().min(1).max(90).default(28)
+});
+
+// GET /api/admin/analytics - Signup funnel, weekly retention cohorts and Web Vitals
+// percentiles per route over the last `days` days (admins)
+async function reportHandler(request: AuthorizedRequest) {
+  try {
+    const { days } = paramsSchema.parse(Object.fromEntries(new URL(request.url).searchParams.entries()));
+    const to = new Date();
+    const from = new Date(to.getTime() - (days - 1) * DAY_MS);
+
+    const events = await listAnalyticsEventsAdmin(db, getAnalyticsDays(from, to), [
+      ...ANALYTICS_FUNNEL_STEPS.map(step => step.event),
+      ...ANALYTICS_ACTIVITY_EVENTS,
+      WEB_VITAL_EVENT
+    ]);
+
+    return NextResponse.json({
+      from: from.toISOString(),
+      to: to.toISOString(),
+      funnel: computeFunnel(events),
+      retention: computeRetentionCohorts(events, to),
+      webVitals: computeWebVitalPercentiles(events)
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid filters',
+          details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error building analytics report:', error);
+    return NextResponse.json(
+      { error: 'Failed to load analytics' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createRoleAuthorizedHandler('analytics:read', reportHandler);
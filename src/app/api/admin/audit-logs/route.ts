@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { z } from 'zod';
+import { AuthorizedRequest, createRoleAuthorizedHandler } from '@/lib/auth-middleware';
+import { AUDIT_ACTIONS, AUDIT_ENTITY_TYPES } from '@/lib/audit-log';
+import { listAuditLogsAdmin } from '@/lib/audit-log-admin';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+const PAGE_SIZE = 50;
+
+const filtersSchema = z.object({
+  action: z.enum(AUDIT_ACTIONS).optional(),
+  entityType: z.enum(AUDIT_ENTITY_TYPES).optional(),
+  entityId: z.string().min(1).optional(),
+  actorId: z.string().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  before: z.coerce.date().optional()
+});
+
+// GET /api/admin/audit-logs - Audit trail, newest first, with optional filters (admins and reviewers)
+async function listHandler(request: AuthorizedRequest) {
+  try {
+    const params = Object.fromEntries(
+      Array.from(new URL(request.url).searchParams.entries()).filter(([, value]) => value !== '')
+    );
+    const { before, ...filters } = filtersSchema.parse(params);
+
+    const entries = await listAuditLogsAdmin(db, filters, PAGE_SIZE, before);
+
+    return NextResponse.json({
+      entries: entries.map(entry => ({ ...entry, createdAt: entry.createdAt.toISOString() })),
+      hasMore: entries.length === PAGE_SIZE
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid filters',
+          details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error listing audit logs:', error);
+    return NextResponse.json(
+      { error: 'Failed to load audit logs' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createRoleAuthorizedHandler('audit:read', listHandler);
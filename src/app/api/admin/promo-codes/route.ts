@@ -0,0 +1,105 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { z } from 'zod';
+import { AuthorizedRequest, createRoleAuthorizedHandler, getAuditActor } from '@/lib/auth-middleware';
+import { buildAuditEntry, diffRecords } from '@/lib/audit-log';
+import { writeAuditLogAdmin } from '@/lib/audit-log-admin';
+import { normalizePromoCode } from '@/lib/payment/promotions';
+import { listPromoCodesAdmin, savePromoCodeAdmin } from '@/lib/payment/promotions-admin';
+import { SUBSCRIPTION_PLANS, SubscriptionTier } from '@/lib/subscription-tiers';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+const PAID_TIERS = Object.keys(SUBSCRIPTION_PLANS).filter(tier => tier !== 'free') as [SubscriptionTier, ...SubscriptionTier[]];
+
+const promoCodeSchema = z.object({
+  code: z.string().trim().min(3).max(32).regex(/^[A-Za-z0-9_-]+$/, 'Use letters, numbers, dashes and underscores'),
+  discountType: z.enum(['percentage', 'flat']),
+  discountValue: z.number().positive(),
+  active: z.boolean().default(true),
+  expiresAt: z.string().datetime().nullable().optional(),
+  maxRedemptions: z.number().int().positive().nullable().optional(),
+  tiers: z.array(z.enum(PAID_TIERS)).default([]),
+  billingCycles: z.array(z.enum(['monthly', 'yearly'])).default([]),
+  partner: z.string().trim().max(100).optional()
+}).refine(promo => promo.discountType !== 'percentage' || promo.discountValue <= 100, {
+  message: 'A percentage discount cannot exceed 100',
+  path: ['discountValue']
+});
+
+// GET /api/admin/promo-codes - All promo codes with their redemption counts
+async function listPromoCodesHandler() {
+  try {
+    const promoCodes = await listPromoCodesAdmin(db);
+    return NextResponse.json({ promoCodes });
+  } catch (error) {
+    console.error('Error listing promo codes:', error);
+    return NextResponse.json(
+      { error: 'Failed to list promo codes' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/promo-codes - Create or update a promo code; deactivate with active: false
+async function savePromoCodeHandler(request: AuthorizedRequest) {
+  try {
+    const { code, expiresAt, maxRedemptions, partner, ...promo } = promoCodeSchema.parse(await request.json());
+
+    const { before, after } = await savePromoCodeAdmin(db, {
+      ...promo,
+      code: normalizePromoCode(code),
+      expiresAt: expiresAt ? new Date(expiresAt) : null,
+      maxRedemptions: maxRedemptions ?? null,
+      ...(partner && { partner })
+    });
+
+    const changes = diffRecords(
+      before as unknown as Record<string, unknown> | null,
+      after as unknown as Record<string, unknown>
+    );
+    if (changes.length > 0) {
+      await writeAuditLogAdmin(db, buildAuditEntry(
+        getAuditActor(request),
+        before ? (before.active && !after.active ? 'deactivate' : 'update') : 'create',
+        'promo-code',
+        after.code,
+        changes,
+        after.partner ? { partner: after.partner } : undefined
+      ));
+    }
+
+    return NextResponse.json({ success: true, promoCode: after }, { status: before ? 200 : 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error saving promo code:', error);
+    return NextResponse.json(
+      { error: 'Failed to save promo code' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createRoleAuthorizedHandler('promotions:manage', listPromoCodesHandler);
+export const POST = createRoleAuthorizedHandler('promotions:manage', savePromoCodeHandler);
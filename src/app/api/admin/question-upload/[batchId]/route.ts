@@ -0,0 +1,117 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { z } from 'zod';
+import { AuthorizedRequest, createRoleAuthorizedHandler, getAuditActor } from '@/lib/auth-middleware';
+import { commitStagedImportAdmin, getStagedImportAdmin } from '@/lib/question-import-admin';
+import { DUPLICATE_RESOLUTIONS, DuplicateResolution } from '@/lib/question-dedup';
+
+// Initialize Firebase Admin SDK
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID!,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL!,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY!.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+// Keyed by upload row; flagged rows without a decision are skipped
+const commitSchema = z.object({
+  decisions: z.record(z.string().regex(/^\d+$/), z.enum(DUPLICATE_RESOLUTIONS))
+});
+
+// GET /api/admin/question-upload/[batchId] - Staged rows of an upload held for duplicate review
+async function reviewHandler(
+  request: AuthorizedRequest,
+  context?: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    const { batchId } = await context!.params;
+    const staged = await getStagedImportAdmin(db, batchId);
+
+    if (!staged) {
+      return NextResponse.json(
+        { error: 'Upload batch not found' },
+        { status: 404 }
+      );
+    }
+
+    const { batch, rows, matchedQuestions } = staged;
+    return NextResponse.json({
+      batch: {
+        id: batchId,
+        fileName: batch.fileName,
+        examType: batch.examType,
+        year: batch.year,
+        paper: batch.paper ?? null,
+        status: batch.status
+      },
+      rows,
+      matchedQuestions
+    });
+
+  } catch (error) {
+    console.error('Error loading staged import:', error);
+    return NextResponse.json(
+      { error: 'Failed to load upload for review' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/question-upload/[batchId] - Commit a reviewed upload with a merge/skip/keep-both decision per flagged row
+async function commitHandler(
+  request: AuthorizedRequest,
+  context?: { params: Promise<{ batchId: string }> }
+) {
+  try {
+    const { batchId } = await context!.params;
+    const { decisions } = commitSchema.parse(await request.json());
+
+    const result = await commitStagedImportAdmin(
+      db,
+      batchId,
+      Object.fromEntries(
+        Object.entries(decisions).map(([index, decision]) => [Number(index), decision])
+      ) as Record<number, DuplicateResolution>,
+      getAuditActor(request)
+    );
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'This upload is not awaiting review. It may already have been committed.' },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: result.failed === 0,
+      message: `Import committed. ${result.inserted.length} added, ${result.merged.length} merged, ${result.skipped} skipped, ${result.failed} failed`,
+      ...result
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid review decisions',
+          details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error committing reviewed import:', error);
+    return NextResponse.json(
+      { error: 'Failed to commit import' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createRoleAuthorizedHandler('questions:import', reviewHandler);
+export const POST = createRoleAuthorizedHandler('questions:import', commitHandler);
@@ -1,8 +1,11 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getAuth } from 'firebase-admin/auth';
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
-import { QuestionUploadService } from '@/services/questionUploadService';
-import { isDevMode } from '@/lib/dev-mode';
+import { DuplicateCheck, QuestionUploadService } from '@/services/questionUploadService';
+import { AuthorizedRequest, createRoleAuthorizedHandler, getAuditActor } from '@/lib/auth-middleware';
+import { buildAuditEntry } from '@/lib/audit-log';
+import { writeAuditLogAdmin } from '@/lib/audit-log-admin';
+import { findDuplicatesAdmin, stageImportAdmin } from '@/lib/question-import-admin';
 
 // Initialize Firebase Admin SDK
 if (!getApps().length) {
@@ -15,42 +18,20 @@ if (!getApps().length) {
   });
 }
 
-async function verifyAuthToken(request: NextRequest): Promise<{ uid: string; email?: string } | null> {
-  try {
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return null;
-    }
+const db = getFirestore();
 
-    const token = authHeader.substring(7);
-    const decodedToken = await getAuth().verifyIdToken(token);
-    return { uid: decodedToken.uid, email: decodedToken.email };
-  } catch (error) {
-    console.error('Error verifying auth token:', error);
-    return null;
+// Flagged uploads are staged for review instead of imported
+const duplicateCheck: DuplicateCheck = async (questions, examType, batchId) => {
+  const matches = await findDuplicatesAdmin(db, examType, questions);
+  if (matches.length > 0) {
+    await stageImportAdmin(db, batchId, questions, matches);
   }
-}
+  return matches;
+};
 
 // POST /api/admin/question-upload - Handle file upload for question import
-export async function POST(request: NextRequest) {
+async function uploadHandler(request: AuthorizedRequest) {
   try {
-    // Verify authentication
-    const userAuth = await verifyAuthToken(request);
-    if (!userAuth) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
-    // Check dev mode access
-    if (!isDevMode(userAuth.email)) {
-      return NextResponse.json(
-        { error: 'Access denied. Admin privileges required.' },
-        { status: 403 }
-      );
-    }
-
     // Parse form data
     const formData = await request.formData();
     const file = formData.get('file') as File;
@@ -83,17 +64,38 @@ export async function POST(request: NextRequest) {
     const result = await QuestionUploadService.uploadFile(
       file,
       examType,
-      userAuth.uid,
+      request.user.uid,
       year,
-      paper || undefined
+      paper || undefined,
+      duplicateCheck
     );
 
+    if (result.batchId) {
+      await writeAuditLogAdmin(db, buildAuditEntry(
+        getAuditActor(request),
+        'bulk-import',
+        'question-upload',
+        result.batchId,
+        [],
+        {
+          fileName: file.name,
+          examType,
+          year,
+          ...(paper && { paper }),
+          success: result.success,
+          ...(result.requiresReview && { pendingReview: true, duplicates: result.duplicates?.length }),
+          ...(result.stats && { stats: result.stats })
+        }
+      ));
+    }
+
     if (result.success) {
       return NextResponse.json({
         success: true,
         message: result.message,
         batchId: result.batchId,
-        stats: result.stats
+        stats: result.stats,
+        ...(result.requiresReview && { requiresReview: true, duplicates: result.duplicates })
       });
     } else {
       return NextResponse.json(
@@ -116,25 +118,8 @@ export async function POST(request: NextRequest) {
 }
 
 // GET /api/admin/question-upload - Get upload batch status
-export async function GET(request: NextRequest) {
+async function batchStatusHandler(request: AuthorizedRequest) {
   try {
-    // Verify authentication
-    const userAuth = await verifyAuthToken(request);
-    if (!userAuth) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
-    // Check dev mode access
-    if (!isDevMode(userAuth.email)) {
-      return NextResponse.json(
-        { error: 'Access denied. Admin privileges required.' },
-        { status: 403 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const batchId = searchParams.get('batchId');
 
@@ -166,4 +151,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const POST = createRoleAuthorizedHandler('questions:import', uploadHandler);
+export const GET = createRoleAuthorizedHandler('questions:import', batchStatusHandler);
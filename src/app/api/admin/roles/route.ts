@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { z } from 'zod';
+import { AuthorizedRequest, createRoleAuthorizedHandler, getAuditActor } from '@/lib/auth-middleware';
+import { ADMIN_ROLES, isAdminRole } from '@/lib/admin-roles';
+import { buildAuditEntry, diffRecords } from '@/lib/audit-log';
+import { writeAuditLogAdmin } from '@/lib/audit-log-admin';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+const updateRolesSchema = z.object({
+  email: z.string().email(),
+  roles: z.array(z.enum(ADMIN_ROLES))
+});
+
+function isUserNotFound(error: unknown): boolean {
+  return (error as { code?: string })?.code === 'auth/user-not-found';
+}
+
+// GET /api/admin/roles?email= - Roles currently granted to a user (admin only)
+async function getRolesHandler(request: AuthorizedRequest) {
+  const email = new URL(request.url).searchParams.get('email');
+  if (!email) {
+    return NextResponse.json(
+      { error: 'email parameter is required' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const user = await getAuth().getUserByEmail(email);
+    const claimedRoles = user.customClaims?.roles;
+
+    return NextResponse.json({
+      uid: user.uid,
+      email: user.email,
+      roles: Array.isArray(claimedRoles) ? claimedRoles.filter(isAdminRole) : []
+    });
+  } catch (error) {
+    if (isUserNotFound(error)) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    console.error('Error reading user roles:', error);
+    return NextResponse.json(
+      { error: 'Failed to read user roles' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/admin/roles - Replace a user's roles; takes effect when their ID token refreshes (admin only)
+async function updateRolesHandler(request: AuthorizedRequest) {
+  try {
+    const { email, roles } = updateRolesSchema.parse(await request.json());
+    const user = await getAuth().getUserByEmail(email);
+
+    if (user.uid === request.user.uid && !roles.includes('admin')) {
+      return NextResponse.json(
+        { error: 'You cannot remove your own admin role' },
+        { status: 400 }
+      );
+    }
+
+    const claimedRoles = user.customClaims?.roles;
+    const previousRoles = Array.isArray(claimedRoles) ? claimedRoles.filter(isAdminRole) : [];
+    const nextRoles = Array.from(new Set(roles));
+
+    // Other custom claims are kept as they are
+    await getAuth().setCustomUserClaims(user.uid, { ...user.customClaims, roles: nextRoles });
+
+    const changes = diffRecords({ roles: [...previousRoles].sort() }, { roles: [...nextRoles].sort() });
+    if (changes.length > 0) {
+      await writeAuditLogAdmin(db, buildAuditEntry(
+        getAuditActor(request),
+        'roles-update',
+        'user-roles',
+        user.uid,
+        changes,
+        { email: user.email }
+      ));
+    }
+
+    return NextResponse.json({ success: true, uid: user.uid, roles: nextRoles });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+        },
+        { status: 400 }
+      );
+    }
+    if (isUserNotFound(error)) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    console.error('Error updating user roles:', error);
+    return NextResponse.json(
+      { error: 'Failed to update user roles' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createRoleAuthorizedHandler('roles:manage', getRolesHandler);
+export const POST = createRoleAuthorizedHandler('roles:manage', updateRolesHandler);
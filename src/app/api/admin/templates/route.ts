@@ -1,7 +1,6 @@
-import { NextRequest, NextResponse } from 'next/server';
-import { getAuth } from 'firebase-admin/auth';
+import { NextResponse } from 'next/server';
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
-import { isDevMode } from '@/lib/dev-mode';
+import { AuthorizedRequest, createRoleAuthorizedHandler } from '@/lib/auth-middleware';
 import * as XLSX from 'xlsx';
 
 // Initialize Firebase Admin SDK
@@ -15,22 +14,6 @@ if (!getApps().length) {
   });
 }
 
-async function verifyAuthToken(request: NextRequest): Promise<{ uid: string; email?: string } | null> {
-  try {
-    const authHeader = request.headers.get('authorization');
-    if (!authHeader || !authHeader.startsWith('Bearer ')) {
-      return null;
-    }
-
-    const token = authHeader.substring(7);
-    const decodedToken = await getAuth().verifyIdToken(token);
-    return { uid: decodedToken.uid, email: decodedToken.email };
-  } catch (error) {
-    console.error('Error verifying auth token:', error);
-    return null;
-  }
-}
-
 // Prelims template data
 const PRELIMS_TEMPLATE = [
   {
@@ -43,6 +26,12 @@ const PRELIMS_TEMPLATE = [
     'Option D': 'Mars',
     'Correct Answer': 'B',
     'Explanation': 'Jupiter is the largest planet in our solar system by both mass and volume.',
+    'Question (Hindi)': 'निम्नलिखित में से कौन-सा हमारे सौरमंडल का सबसे बड़ा ग्रह है?',
+    'Option A (Hindi)': 'पृथ्वी',
+    'Option B (Hindi)': 'बृहस्पति',
+    'Option C (Hindi)': 'शनि',
+    'Option D (Hindi)': 'मंगल',
+    'Explanation (Hindi)': 'द्रव्यमान और आयतन दोनों के आधार पर बृहस्पति हमारे सौरमंडल का सबसे बड़ा ग्रह है।',
     'Year': 2023,
     'Paper': 'GS1',
     'Question Number': 1,
@@ -63,6 +52,7 @@ const MAINS_TEMPLATE = [
   {
     'Question ID': 'UPSC-2023-GS1-Q1',
     'Question': 'Discuss the impact of climate change on agricultural productivity in India. Suggest measures to mitigate these impacts.',
+    'Question (Hindi)': 'भारत में कृषि उत्पादकता पर जलवायु परिवर्तन के प्रभाव की चर्चा कीजिए। इन प्रभावों को कम करने के उपाय सुझाइए।',
     'Question Type': 'Analytical',
     'Sub Parts': JSON.stringify([
       { part: 'a', question: 'Analyze the impact of climate change on agricultural productivity', marks: 10, expectedLength: 150 },
@@ -87,25 +77,8 @@ const MAINS_TEMPLATE = [
 ];
 
 // GET /api/admin/templates - Download Excel templates
-export async function GET(request: NextRequest) {
+async function templateHandler(request: AuthorizedRequest) {
   try {
-    // Verify authentication
-    const userAuth = await verifyAuthToken(request);
-    if (!userAuth) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
-    // Check dev mode access
-    if (!isDevMode(userAuth.email)) {
-      return NextResponse.json(
-        { error: 'Access denied. Admin privileges required.' },
-        { status: 403 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const templateType = searchParams.get('type') as 'prelims' | 'mains';
 
@@ -140,6 +113,12 @@ export async function GET(request: NextRequest) {
         { wch: 30 }, // Option D
         { wch: 15 }, // Correct Answer
         { wch: 60 }, // Explanation
+        { wch: 60 }, // Question (Hindi)
+        { wch: 30 }, // Option A (Hindi)
+        { wch: 30 }, // Option B (Hindi)
+        { wch: 30 }, // Option C (Hindi)
+        { wch: 30 }, // Option D (Hindi)
+        { wch: 60 }, // Explanation (Hindi)
         { wch: 10 }, // Year
         { wch: 10 }, // Paper
         { wch: 15 }, // Question Number
@@ -168,6 +147,7 @@ export async function GET(request: NextRequest) {
       const colWidths = [
         { wch: 20 }, // Question ID
         { wch: 80 }, // Question
+        { wch: 80 }, // Question (Hindi)
         { wch: 15 }, // Question Type
         { wch: 40 }, // Sub Parts
         { wch: 10 }, // Year
@@ -205,6 +185,12 @@ export async function GET(request: NextRequest) {
         'Required': 'Yes',
         'Format': 'Text'
       },
+      {
+        'Field': 'Question (Hindi)',
+        'Description': 'Hindi version of the question, shown when the student switches language. Hindi options and explanation columns follow the same pattern; fill all four Hindi options or none',
+        'Required': 'No',
+        'Format': 'Text (Devanagari)'
+      },
       {
         'Field': 'Year',
         'Description': 'Exam year',
@@ -259,4 +245,6 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const GET = createRoleAuthorizedHandler('questions:import', templateHandler);
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { z } from 'zod';
+import {
+  MAX_BATCH_BYTES,
+  StoredAnalyticsEvent,
+  collectBatchSchema,
+  collectedEventSchema,
+  hasAnalyticsConsent,
+  isBotUserAgent,
+  toStoredEvent
+} from '@/lib/analytics-warehouse';
+import { appendAnalyticsEventsAdmin } from '@/lib/analytics-warehouse-admin';
+import { authenticateRequest, getRateLimitKey, rateLimit } from '@/lib/auth-middleware';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+// POST /api/analytics/collect - Event batches from AnalyticsManager. Anonymous visitors send
+// these with sendBeacon, which cannot set headers, so the body is parsed from text. Signed-in
+// users send an ID token, and only its uid is stored: the body's userId is never trusted.
+// Dropped batches still get a 202: clients have nothing to retry.
+export async function POST(request: NextRequest) {
+  // Rate limiting - 60 batches per minute per client
+  if (!rateLimit(`analytics:${getRateLimitKey(request)}`, 60, 60000)) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  let userId: string | null = null;
+  if (request.headers.has('authorization')) {
+    const { user, error } = await authenticateRequest(request);
+    if (error || !user) {
+      return NextResponse.json({ error: error || 'Authentication required' }, { status: 401 });
+    }
+    userId = user.uid;
+  }
+
+  try {
+    const body = await request.text();
+    if (body.length > MAX_BATCH_BYTES) {
+      return NextResponse.json({ error: 'Batch too large' }, { status: 413 });
+    }
+
+    const batch = collectBatchSchema.parse(JSON.parse(body));
+
+    if (!hasAnalyticsConsent(batch.consent, request.headers)) {
+      return NextResponse.json({ accepted: 0, dropped: 'no-consent' }, { status: 202 });
+    }
+    if (isBotUserAgent(request.headers.get('user-agent'))) {
+      return NextResponse.json({ accepted: 0, dropped: 'bot' }, { status: 202 });
+    }
+
+    const receivedAt = new Date();
+    const events: StoredAnalyticsEvent[] = [];
+    let rejected = 0;
+    batch.events.forEach(raw => {
+      const parsed = collectedEventSchema.safeParse(raw);
+      if (parsed.success && !isBotUserAgent(parsed.data.userAgent ?? request.headers.get('user-agent'))) {
+        events.push(toStoredEvent(parsed.data, receivedAt, userId));
+      } else {
+        rejected += 1;
+      }
+    });
+
+    const accepted = await appendAnalyticsEventsAdmin(db, events);
+
+    return NextResponse.json({ accepted, rejected }, { status: 202 });
+  } catch (error) {
+    if (error instanceof SyntaxError) {
+      return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 });
+    }
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error collecting analytics events:', error);
+    return NextResponse.json({ error: 'Failed to collect events' }, { status: 500 });
+  }
+}
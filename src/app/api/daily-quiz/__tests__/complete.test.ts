@@ -0,0 +1,129 @@
+/**
+ * @jest-environment node
+ */
+import { NextRequest } from 'next/server';
+
+type StoredDoc = Record<string, unknown>;
+
+const mockStore = new Map<string, StoredDoc>();
+
+function mockDocRef(collection: string, id: string) {
+  const key = `${collection}/${id}`;
+  return {
+    key,
+    get: jest.fn(async () => ({
+      exists: mockStore.has(key),
+      data: () => mockStore.get(key),
+    })),
+    set: jest.fn(async (data: StoredDoc) => { mockStore.set(key, data); }),
+    update: jest.fn(async (data: StoredDoc) => { mockStore.set(key, { ...mockStore.get(key), ...data }); }),
+  };
+}
+
+jest.mock('firebase-admin/app', () => ({
+  initializeApp: jest.fn(),
+  getApps: jest.fn(() => [{}]),
+  cert: jest.fn(),
+}));
+
+jest.mock('firebase-admin/firestore', () => ({
+  getFirestore: jest.fn(() => ({
+    collection: (collection: string) => ({
+      doc: (id: string) => mockDocRef(collection, id),
+      where: () => ({ select: () => ({ get: async () => ({ docs: [] }) }) }),
+    }),
+    batch: () => {
+      const writes: Array<() => void> = [];
+      return {
+        set: (ref: { key: string }, data: StoredDoc) => { writes.push(() => mockStore.set(ref.key, data)); },
+        update: (ref: { key: string }, data: StoredDoc) => {
+          writes.push(() => mockStore.set(ref.key, { ...mockStore.get(ref.key), ...data }));
+        },
+        commit: async () => { writes.forEach(write => write()); },
+      };
+    },
+  })),
+}));
+
+jest.mock('@/lib/review-queue-admin', () => ({
+  enqueueReviewEntriesAdmin: jest.fn(async () => undefined),
+}));
+
+import { POST } from '../complete/route';
+
+const questions = ['A', 'B', 'C', 'D'].map((correctAnswer, index) => ({
+  id: `q${index}`,
+  question: `Question ${index}`,
+  options: ['A', 'B', 'C', 'D'],
+  correctAnswer,
+  explanation: '',
+  subject: 'Polity',
+  difficulty: 'medium',
+}));
+
+function seedSession(quizType: string, startedSecondsAgo: number) {
+  mockStore.set('quizSessions/session-1', {
+    userId: 'user-1',
+    quizType,
+    questions,
+    answers: ['A', null, null, null],
+    answerTimestamps: [1000, null, null, null],
+    timeSpent: { 0: 40 },
+    timeLimit: 7200,
+    startTime: { toDate: () => new Date(Date.now() - startedSecondsAgo * 1000) },
+    completed: false,
+  });
+}
+
+function complete(body: Record<string, unknown>) {
+  return POST(new NextRequest('http://localhost/api/daily-quiz/complete', {
+    method: 'POST',
+    body: JSON.stringify({ sessionId: 'session-1', ...body }),
+  }));
+}
+
+const lateBody = {
+  finalAnswers: ['A', 'B', 'C', 'D'],
+  answerTimestamps: [1000, 2000, 3000, 4000],
+  questionTimes: [1, 1, 1, 1],
+  timeTaken: 60,
+};
+
+describe('POST /api/daily-quiz/complete', () => {
+  beforeEach(() => {
+    mockStore.clear();
+  });
+
+  it('should score only the answers recorded in time once a mock exam has run out', async () => {
+    seedSession('mock-prelims', 7200 + 600);
+
+    const response = await complete(lateBody);
+    const results = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(results.correctAnswers).toBe(1);
+    expect(results.timeTaken).toBe(7200);
+    expect(results.detailedResults.map((result: { timeSpent: number }) => result.timeSpent)).toEqual([40, 0, 0, 0]);
+    expect(mockStore.get('quizSessions/session-1')?.answers).toEqual(['A', null, null, null]);
+  });
+
+  it('should take final answers but not client timings from a mock exam still on the clock', async () => {
+    seedSession('mock-prelims', 600);
+
+    const results = await (await complete(lateBody)).json();
+
+    expect(results.correctAnswers).toBe(4);
+    expect(results.timeTaken).toBe(600);
+    expect(results.detailedResults[0].timeSpent).toBe(40);
+  });
+
+  it('should keep trusting the client clock on practice quizzes', async () => {
+    seedSession('free-daily', 7200 + 600);
+
+    const results = await (await complete(lateBody)).json();
+
+    expect(results.correctAnswers).toBe(4);
+    expect(results.timeTaken).toBe(60);
+    expect(results.detailedResults[0].timeSpent).toBe(1);
+  });
+});
@@ -1,6 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getFirestore } from 'firebase-admin/firestore';
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import {
+  ScoreBreakdown,
+  getScoringScheme,
+  getScoringSchemeForQuizType,
+  scoreQuiz
+} from '@/lib/quiz-scoring';
+import { REVIEW_QUIZ_TYPE, ReviewQuestion, ReviewQueueEntry } from '@/lib/spaced-repetition';
+import { enqueueReviewEntriesAdmin } from '@/lib/review-queue-admin';
+import { mergeSessionAnswers } from '@/lib/quiz-offline';
+import {
+  MockExamReport,
+  buildTimeHeatmap,
+  computePercentile,
+  evaluateQualification,
+  getMockPaperForQuizType,
+  isExamTimeUp,
+  isMockExamQuizType
+} from '@/lib/prelims-mock';
 
 // Initialize Firebase Admin
 if (!getApps().length) {
@@ -18,6 +36,9 @@ const db = getFirestore();
 interface CompletionRequest {
   sessionId: string;
   finalAnswers?: (string | null)[];
+  finalBookmarked?: boolean[];
+  questionTimes?: number[]; // seconds spent on each question, tracked by the client
+  answerTimestamps?: number[]; // client time each final answer was chosen
   timeTaken?: number;
 }
 
@@ -34,8 +55,11 @@ interface QuizResults {
     isCorrect: boolean;
     selectedAnswer: string;
     correctAnswer: string;
+    explanation?: string;
     timeSpent: number;
   }[];
+  scoring: ScoreBreakdown;
+  mockReport?: MockExamReport;
 }
 
 async function validateAndGetSession(sessionId: string): Promise<any> {
@@ -73,10 +97,15 @@ async function getExistingResults(sessionId: string): Promise<QuizResults | null
   }
 }
 
-async function calculateResults(sessionData: any): Promise<QuizResults> {
+async function calculateResults(sessionData: any, clientTimeTaken?: number): Promise<QuizResults> {
   const { questions, answers, userId, quizType, startTime } = sessionData;
   const endTime = new Date();
-  const timeTaken = Math.floor((endTime.getTime() - startTime.toDate().getTime()) / 1000);
+  const elapsed = Math.floor((endTime.getTime() - startTime.toDate().getTime()) / 1000);
+  // Downloaded sessions start long after they were generated, so prefer the client's clock when it is plausible.
+  // Mock exams are timed by the server alone and end at the time limit.
+  const timeTaken = isMockExamQuizType(quizType)
+    ? Math.min(elapsed, sessionData.timeLimit)
+    : clientTimeTaken !== undefined && clientTimeTaken >= 0 ? Math.min(clientTimeTaken, elapsed) : elapsed;
 
   let correctAnswers = 0;
   const subjectWiseResults: { [subject: string]: { correct: number; total: number } } = {};
@@ -107,7 +136,8 @@ async function calculateResults(sessionData: any): Promise<QuizResults> {
       isCorrect,
       selectedAnswer: userAnswer || 'Not answered',
       correctAnswer: question.correctAnswer,
-      timeSpent: sessionData.timeSpent?.[index] || 0
+      explanation: question.explanation || '',
+      timeSpent: sessionData.questionTimes?.[index] ?? sessionData.timeSpent?.[index] ?? 0
     });
   });
 
@@ -116,13 +146,20 @@ async function calculateResults(sessionData: any): Promise<QuizResults> {
   const score = totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0;
   const accuracy = answeredQuestions > 0 ? Math.round((correctAnswers / answeredQuestions) * 100) : 0;
 
+  // Apply the marking scheme pinned on the session (older sessions fall back to the quiz type's scheme)
+  const scheme = sessionData.scoringScheme
+    ? getScoringScheme(sessionData.scoringScheme)
+    : getScoringSchemeForQuizType(quizType);
+  const scoring = scoreQuiz(questions, answers, scheme);
+
   // Generate personalized recommendations
   const recommendations = generateRecommendations(
     score,
     accuracy,
     subjectWiseResults,
     quizType,
-    timeTaken
+    timeTaken,
+    scoring
   );
 
   return {
@@ -133,7 +170,8 @@ async function calculateResults(sessionData: any): Promise<QuizResults> {
     timeTaken,
     subjectWiseResults,
     recommendations,
-    detailedResults
+    detailedResults,
+    scoring
   };
 }
 
@@ -142,10 +180,16 @@ function generateRecommendations(
   accuracy: number,
   subjectWiseResults: { [subject: string]: { correct: number; total: number } },
   quizType: string,
-  timeTaken: number
+  timeTaken: number,
+  scoring: ScoreBreakdown
 ): string[] {
   const recommendations: string[] = [];
 
+  // Negative-marking strategy comes first when the paper penalises wrong answers
+  if (getScoringScheme(scoring.schemeId).negativeFraction > 0) {
+    recommendations.push(scoring.attemptAnalysis.recommendation);
+  }
+
   // Score-based recommendations
   if (score >= 80) {
     recommendations.push('Excellent performance! You\'re well-prepared for this topic.');
@@ -202,6 +246,7 @@ async function saveResults(sessionId: string, results: QuizResults, sessionData:
       ...results,
       userId: sessionData.userId,
       quizType: sessionData.quizType,
+      ...(sessionData.paperId && { paperId: sessionData.paperId }),
       completedAt: new Date(),
       sessionId
     });
@@ -211,7 +256,8 @@ async function saveResults(sessionId: string, results: QuizResults, sessionData:
     batch.update(sessionRef, {
       completed: true,
       completedAt: new Date(),
-      finalScore: results.score
+      finalScore: results.score,
+      netScore: results.scoring.netScore
     });
 
     // Update user progress/stats
@@ -287,10 +333,86 @@ async function updateUserProgress(userId: string, quizType: string, results: Qui
   }
 }
 
+// Ranks the attempt against everyone else who sat the same edition of a mock paper
+async function buildMockExamReport(sessionId: string, sessionData: { quizType: string; paperId?: string }, results: QuizResults): Promise<MockExamReport | undefined> {
+  const paper = getMockPaperForQuizType(sessionData.quizType);
+  if (!paper || !sessionData.paperId) return undefined;
+
+  let otherScores: number[] = [];
+  try {
+    const attempts = await db.collection('quizResults')
+      .where('paperId', '==', sessionData.paperId)
+      .select('scoring.netScore')
+      .get();
+    otherScores = attempts.docs
+      .filter(doc => doc.id !== sessionId)
+      .map(doc => doc.get('scoring.netScore'))
+      .filter((score): score is number => typeof score === 'number');
+  } catch (error) {
+    console.error('Percentile lookup error:', error);
+    // Report without a rank rather than failing the submission
+  }
+
+  const secondsPerQuestion = results.detailedResults.map(result => result.timeSpent);
+  const answeredTimes = secondsPerQuestion.filter(seconds => seconds > 0);
+
+  return {
+    paperId: sessionData.paperId,
+    paperName: paper.name,
+    percentile: computePercentile(results.scoring.netScore, otherScores),
+    attemptsCompared: otherScores.length,
+    qualification: evaluateQualification(paper, results.scoring.netScore, results.scoring.maxScore),
+    heatmap: buildTimeHeatmap(paper, secondsPerQuestion),
+    averageSecondsPerQuestion: answeredTimes.length > 0
+      ? Math.round(answeredTimes.reduce((sum, seconds) => sum + seconds, 0) / answeredTimes.length)
+      : 0
+  };
+}
+
+// Queues wrong and bookmarked questions for spaced review. Review sessions are
+// skipped because their answers were already rescheduled on submit.
+async function queueForReview(
+  sessionId: string,
+  sessionData: {
+    userId: string;
+    quizType: string;
+    questions: Array<Omit<ReviewQuestion, 'explanation'> & { explanation?: string }>;
+    answers?: (string | null)[];
+    bookmarked?: boolean[];
+  },
+  results: QuizResults
+): Promise<void> {
+  if (sessionData.quizType === REVIEW_QUIZ_TYPE) return;
+
+  const entries: ReviewQueueEntry[] = [];
+  sessionData.questions.forEach((question, index) => {
+    const reviewQuestion: ReviewQuestion = {
+      question: question.question,
+      options: question.options,
+      correctAnswer: question.correctAnswer,
+      explanation: question.explanation || '',
+      subject: question.subject || 'General',
+      difficulty: question.difficulty || 'medium',
+      ...(question.year !== undefined && { year: question.year })
+    };
+    const source = { type: 'daily-quiz' as const, sessionId };
+    const result = results.detailedResults[index];
+
+    if (result && sessionData.answers?.[index] && !result.isCorrect) {
+      entries.push({ source, reason: 'wrong', question: reviewQuestion });
+    }
+    if (sessionData.bookmarked?.[index]) {
+      entries.push({ source, reason: 'bookmarked', question: reviewQuestion });
+    }
+  });
+
+  await enqueueReviewEntriesAdmin(db, sessionData.userId, entries);
+}
+
 export async function POST(request: NextRequest) {
   try {
     const body: CompletionRequest = await request.json();
-    const { sessionId, finalAnswers, timeTaken } = body;
+    const { sessionId, finalAnswers, finalBookmarked, questionTimes, answerTimestamps, timeTaken } = body;
 
     // Validate required fields
     if (!sessionId) {
@@ -308,17 +430,38 @@ export async function POST(request: NextRequest) {
       return NextResponse.json(existingResults);
     }
 
-    // Update final answers if provided
-    if (finalAnswers) {
+    // Once a mock exam's time is up only the answers /submit recorded in time count, and
+    // per-question times come from those submissions rather than the client's own tally
+    const examMode = isMockExamQuizType(sessionData.quizType);
+    const examTimeUp = examMode && isExamTimeUp(sessionData.startTime.toDate(), sessionData.timeLimit);
+
+    // Update final answers if provided, keeping answers given later on another device
+    if (finalAnswers && !examTimeUp) {
+      const answers = answerTimestamps
+        ? mergeSessionAnswers(
+            { answers: sessionData.answers || [], answerTimestamps: sessionData.answerTimestamps },
+            { answers: finalAnswers, answerTimestamps }
+          ).answers
+        : finalAnswers;
       await db.collection('quizSessions').doc(sessionId).update({
-        answers: finalAnswers,
+        answers,
         updatedAt: new Date()
       });
-      sessionData.answers = finalAnswers;
+      sessionData.answers = answers;
+    }
+    if (finalBookmarked) {
+      sessionData.bookmarked = finalBookmarked;
+    }
+    if (questionTimes && !examMode) {
+      sessionData.questionTimes = questionTimes;
     }
 
     // Calculate results
-    const results = await calculateResults(sessionData);
+    const results = await calculateResults(sessionData, timeTaken);
+    const mockReport = await buildMockExamReport(sessionId, sessionData, results);
+    if (mockReport) {
+      results.mockReport = mockReport;
+    }
 
     // Save results and update session
     await saveResults(sessionId, results, sessionData);
@@ -326,6 +469,8 @@ export async function POST(request: NextRequest) {
     // Update user progress asynchronously
     updateUserProgress(sessionData.userId, sessionData.quizType, results)
       .catch(error => console.error('User progress update failed:', error));
+    queueForReview(sessionId, sessionData, results)
+      .catch(error => console.error('Review queue update failed:', error));
 
     return NextResponse.json(results);
 
@@ -333,9 +478,10 @@ export async function POST(request: NextRequest) {
     console.error('Quiz completion error:', error);
     
     if (error instanceof Error) {
+      // Storage failures are 5xx so a completion replayed from the offline outbox is retried
       return NextResponse.json(
         { error: error.message },
-        { status: error.message.includes('not found') ? 404 : 400 }
+        { status: error.message.includes('not found') ? 404 : error.message.startsWith('Failed to') ? 500 : 400 }
       );
     }
 
@@ -2,6 +2,15 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from 'firebase-admin/auth';
 import { getFirestore } from 'firebase-admin/firestore';
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { getScoringSchemeForQuizType } from '@/lib/quiz-scoring';
+import { REVIEW_QUIZ_TYPE, ReviewSource } from '@/lib/spaced-repetition';
+import { getDueReviewItemsAdmin, REVIEW_QUEUE_COLLECTION } from '@/lib/review-queue-admin';
+import {
+  MockPaperBlueprint,
+  assembleMockPaper,
+  getMockPaperEditionId,
+  getMockPaperForQuizType
+} from '@/lib/prelims-mock';
 
 // Initialize Firebase Admin
 if (!getApps().length) {
@@ -36,6 +45,10 @@ interface QuizQuestion {
   source?: string;
   year?: number;
   tags?: string[];
+  reviewSource?: ReviewSource;
+  questionHi?: string;
+  optionsHi?: string[];
+  explanationHi?: string;
 }
 
 // Quiz type configurations
@@ -45,6 +58,12 @@ const QUIZ_CONFIGS = {
     timeLimit: 15 * 60,
     allowedTiers: ['free', 'foundation', 'practice', 'mains', 'interview', 'elite']
   },
+  // Served from the user's own spaced-repetition queue rather than a shared pool
+  [REVIEW_QUIZ_TYPE]: {
+    questionPool: REVIEW_QUEUE_COLLECTION,
+    timeLimit: 20 * 60,
+    allowedTiers: ['free', 'foundation', 'practice', 'mains', 'interview', 'elite']
+  },
   'ncert-foundation': {
     questionPool: 'ncert-questions',
     timeLimit: 20 * 60,
@@ -75,6 +94,11 @@ const QUIZ_CONFIGS = {
     timeLimit: 120 * 60,
     allowedTiers: ['mains', 'interview', 'elite']
   },
+  'mock-prelims-csat': {
+    questionPool: 'csat-questions',
+    timeLimit: 120 * 60,
+    allowedTiers: ['mains', 'interview', 'elite']
+  },
   'adaptive': {
     questionPool: 'adaptive-questions',
     timeLimit: 45 * 60,
@@ -162,6 +186,74 @@ async function generateQuizQuestions(
   }
 }
 
+// Questions due for review today; the review item id becomes the question id so
+// answers can be fed back into the schedule
+async function getReviewQuestions(userId: string, maxQuestions: number): Promise<QuizQuestion[]> {
+  try {
+    const items = await getDueReviewItemsAdmin(db, userId, maxQuestions);
+    return items.map(item => ({
+      id: item.id,
+      ...item.question,
+      tags: [REVIEW_QUIZ_TYPE, ...item.reasons],
+      reviewSource: item.source
+    }));
+  } catch (error) {
+    console.error('Review question lookup error:', error);
+    throw new Error('Failed to load review questions');
+  }
+}
+
+// Every attempt in the same week sits the same edition of a mock paper, so the
+// assembled paper is stored once and reused
+async function getMockPaperEdition(paper: MockPaperBlueprint): Promise<{ paperId: string; questions: QuizQuestion[] }> {
+  const paperId = getMockPaperEditionId(paper);
+  const paperRef = db.collection('mockPapers').doc(paperId);
+
+  try {
+    const existing = await paperRef.get();
+    if (existing.exists) {
+      return { paperId, questions: existing.data()?.questions as QuizQuestion[] };
+    }
+
+    const config = QUIZ_CONFIGS[paper.quizType as keyof typeof QUIZ_CONFIGS];
+    const poolSnapshot = await db.collection(config.questionPool).limit(paper.questionCount * 6).get();
+    const pool = poolSnapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as QuizQuestion));
+    const { questions, shortfall } = assembleMockPaper(paper, pool);
+
+    // Top up subjects the pool could not cover so the paper keeps its full length and split
+    for (const [subject, count] of Object.entries(shortfall)) {
+      const generated = await generateMockQuestions(count, 'hard', subject, paper.quizType);
+      // Generated ids are timestamp-based and can collide across subjects
+      questions.push(...generated.map((question, index) => ({ ...question, id: `${paperId}-${questions.length + index}` })));
+    }
+
+    try {
+      await paperRef.create({ paperId, blueprint: paper.id, questions, createdAt: new Date() });
+      return { paperId, questions };
+    } catch (error) {
+      // Another request assembled this edition first; use theirs
+      const winner = await paperRef.get();
+      if (winner.exists) {
+        return { paperId, questions: winner.data()?.questions as QuizQuestion[] };
+      }
+      throw error;
+    }
+  } catch (error) {
+    console.error('Mock paper assembly error:', error);
+    throw new Error('Failed to assemble mock paper');
+  }
+}
+
+// Exam mode: answers and explanations stay on the server until the paper is submitted
+function hideAnswers(questions: QuizQuestion[]): QuizQuestion[] {
+  return questions.map(question => ({
+    ...question,
+    correctAnswer: '',
+    explanation: '',
+    ...(question.explanationHi !== undefined && { explanationHi: '' })
+  }));
+}
+
 async function generateMockQuestions(
   count: number,
   difficulty: string,
@@ -198,7 +290,9 @@ async function createQuizSession(
   userId: string,
   quizType: string,
   questions: QuizQuestion[],
-  timeLimit: number
+  timeLimit: number,
+  scoringScheme: string,
+  paperId?: string
 ): Promise<string> {
   try {
     const sessionData = {
@@ -206,6 +300,9 @@ async function createQuizSession(
       quizType,
       questions,
       timeLimit,
+      // Pin the marking scheme so later scheme changes don't alter this session's result
+      scoringScheme,
+      ...(paperId && { paperId }),
       startTime: new Date(),
       currentQuestionIndex: 0,
       answers: new Array(questions.length).fill(null),
@@ -246,18 +343,25 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate quiz questions
-    const questions = await generateQuizQuestions(quizType, difficulty, subject, maxQuestions);
+    const mockPaper = getMockPaperForQuizType(quizType);
+    const mockEdition = mockPaper ? await getMockPaperEdition(mockPaper) : null;
+    const questions = mockEdition
+      ? mockEdition.questions
+      : quizType === REVIEW_QUIZ_TYPE
+        ? await getReviewQuestions(userId, maxQuestions)
+        : await generateQuizQuestions(quizType, difficulty, subject, maxQuestions);
     
     if (questions.length === 0) {
       return NextResponse.json(
-        { error: 'No questions available for the specified criteria' },
+        { error: quizType === REVIEW_QUIZ_TYPE ? 'Nothing is due for review today' : 'No questions available for the specified criteria' },
         { status: 404 }
       );
     }
 
     // Create quiz session
     const config = QUIZ_CONFIGS[quizType as keyof typeof QUIZ_CONFIGS];
-    const sessionId = await createQuizSession(userId, quizType, questions, config.timeLimit);
+    const scoringScheme = getScoringSchemeForQuizType(quizType);
+    const sessionId = await createQuizSession(userId, quizType, questions, config.timeLimit, scoringScheme.id, mockEdition?.paperId);
 
     // Log quiz generation for analytics
     await db.collection('quizAnalytics').add({
@@ -272,8 +376,10 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json({
       sessionId,
-      questions,
+      questions: mockEdition ? hideAnswers(questions) : questions,
       timeLimit: config.timeLimit,
+      scoringScheme: scoringScheme.id,
+      ...(mockEdition && { paperId: mockEdition.paperId, examMode: true }),
       success: true
     });
 
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getFirestore } from 'firebase-admin/firestore';
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { mergeSessionAnswers } from '@/lib/quiz-offline';
 
 // Initialize Firebase Admin
 if (!getApps().length) {
@@ -21,6 +22,8 @@ interface SaveProgressRequest {
   answers: (string | null)[];
   bookmarked: boolean[];
   timeRemaining: number;
+  answerTimestamps?: number[]; // client time each answer was chosen
+  clientTimestamp?: number; // when the save was made; older than the stored save means an offline replay
 }
 
 async function validateSession(sessionId: string): Promise<boolean> {
@@ -39,24 +42,43 @@ async function validateSession(sessionId: string): Promise<boolean> {
   }
 }
 
+/**
+ * Merges the saved progress into the session. Answers are merged per question
+ * by timestamp; position and bookmarks follow whichever save was made last, and
+ * the clock keeps the lower of the two remaining times.
+ */
 async function saveSessionProgress(
   sessionId: string,
-  currentQuestionIndex: number,
-  answers: (string | null)[],
-  bookmarked: boolean[],
-  timeRemaining: number
+  progress: Omit<SaveProgressRequest, 'sessionId'>
 ): Promise<void> {
   try {
-    const updateData = {
-      currentQuestionIndex,
-      answers,
-      bookmarked,
-      timeRemaining,
-      updatedAt: new Date(),
-      lastProgressSave: new Date()
-    };
+    const sessionRef = db.collection('quizSessions').doc(sessionId);
+    const clientTimestamp = progress.clientTimestamp ?? Date.now();
+
+    await db.runTransaction(async transaction => {
+      const sessionDoc = await transaction.get(sessionRef);
+      const sessionData = sessionDoc.data() || {};
+      const isLatestSave = clientTimestamp >= (sessionData.progressTimestamp || 0);
 
-    await db.collection('quizSessions').doc(sessionId).update(updateData);
+      const merged = mergeSessionAnswers(
+        { answers: sessionData.answers || [], answerTimestamps: sessionData.answerTimestamps },
+        { answers: progress.answers, answerTimestamps: progress.answerTimestamps }
+      );
+
+      transaction.update(sessionRef, {
+        ...merged,
+        ...(isLatestSave && {
+          currentQuestionIndex: progress.currentQuestionIndex,
+          bookmarked: progress.bookmarked,
+          progressTimestamp: clientTimestamp
+        }),
+        timeRemaining: typeof sessionData.timeRemaining === 'number'
+          ? Math.min(sessionData.timeRemaining, progress.timeRemaining)
+          : progress.timeRemaining,
+        updatedAt: new Date(),
+        lastProgressSave: new Date()
+      });
+    });
   } catch (error) {
     console.error('Progress save error:', error);
     throw new Error('Failed to save progress');
@@ -80,7 +102,7 @@ async function logProgressSave(sessionId: string): Promise<void> {
 export async function POST(request: NextRequest) {
   try {
     const body: SaveProgressRequest = await request.json();
-    const { sessionId, currentQuestionIndex, answers, bookmarked, timeRemaining } = body;
+    const { sessionId, currentQuestionIndex, answers, bookmarked, timeRemaining, answerTimestamps, clientTimestamp } = body;
 
     // Validate required fields
     if (!sessionId || currentQuestionIndex === undefined || !answers || !bookmarked || timeRemaining === undefined) {
@@ -122,7 +144,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Save progress
-    await saveSessionProgress(sessionId, currentQuestionIndex, answers, bookmarked, timeRemaining);
+    await saveSessionProgress(sessionId, { currentQuestionIndex, answers, bookmarked, timeRemaining, answerTimestamps, clientTimestamp });
 
     // Log progress save asynchronously
     logProgressSave(sessionId)
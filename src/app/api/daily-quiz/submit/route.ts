@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getFirestore } from 'firebase-admin/firestore';
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { REVIEW_QUIZ_TYPE } from '@/lib/spaced-repetition';
+import { recordReviewAnswerAdmin } from '@/lib/review-queue-admin';
+import { isExamTimeUp, isMockExamQuizType } from '@/lib/prelims-mock';
+import { getAnswerFeedback } from '@/lib/quiz-offline';
 
 // Initialize Firebase Admin
 if (!getApps().length) {
@@ -20,12 +24,15 @@ interface SubmissionRequest {
   questionIndex: number;
   selectedAnswer: string;
   timeSpent: number;
+  clientTimestamp?: number; // when the answer was chosen; set on answers replayed from the offline outbox
 }
 
 interface SubmissionResponse {
   isCorrect: boolean;
   explanation: string;
+  explanationHi?: string; // bilingual questions only
   correctAnswer: string;
+  nextReviewAt?: Date; // review sessions only
   success: boolean;
 }
 
@@ -50,28 +57,47 @@ async function validateSession(sessionId: string): Promise<any> {
   }
 }
 
+/**
+ * Records the answer unless the session already holds a later one for the
+ * question (an offline replay arriving after the user answered again elsewhere).
+ * Returns whether the answer was applied.
+ */
 async function updateSessionAnswer(
   sessionId: string,
   questionIndex: number,
   selectedAnswer: string,
-  timeSpent: number
-): Promise<void> {
+  timeSpent: number,
+  clientTimestamp: number = Date.now()
+): Promise<boolean> {
   try {
     const sessionRef = db.collection('quizSessions').doc(sessionId);
-    const sessionDoc = await sessionRef.get();
-    
-    if (!sessionDoc.exists) {
-      throw new Error('Session not found');
-    }
 
-    const sessionData = sessionDoc.data();
-    const answers = [...(sessionData?.answers || [])];
-    answers[questionIndex] = selectedAnswer;
+    return await db.runTransaction(async transaction => {
+      const sessionDoc = await transaction.get(sessionRef);
+      if (!sessionDoc.exists) {
+        throw new Error('Session not found');
+      }
 
-    await sessionRef.update({
-      answers,
-      updatedAt: new Date(),
-      [`timeSpent.${questionIndex}`]: timeSpent
+      const sessionData = sessionDoc.data();
+      const answerTimestamps: number[] = [...(sessionData?.answerTimestamps || [])];
+      if ((answerTimestamps[questionIndex] || 0) > clientTimestamp) {
+        return false;
+      }
+
+      const answers = [...(sessionData?.answers || [])];
+      answers[questionIndex] = selectedAnswer;
+      answerTimestamps[questionIndex] = clientTimestamp;
+      for (let index = 0; index < answerTimestamps.length; index++) {
+        answerTimestamps[index] = answerTimestamps[index] || 0;
+      }
+
+      transaction.update(sessionRef, {
+        answers,
+        answerTimestamps,
+        updatedAt: new Date(),
+        [`timeSpent.${questionIndex}`]: timeSpent
+      });
+      return true;
     });
   } catch (error) {
     console.error('Answer update error:', error);
@@ -101,27 +127,10 @@ async function logSubmission(
   }
 }
 
-async function getQuestionFeedback(
-  question: any,
-  selectedAnswer: string
-): Promise<{ isCorrect: boolean; explanation: string }> {
-  const isCorrect = selectedAnswer === question.correctAnswer;
-  
-  // In a real implementation, you might want to enhance explanations
-  // based on the selected answer vs correct answer
-  let explanation = question.explanation || 'No explanation available.';
-  
-  if (!isCorrect) {
-    explanation = `The correct answer is ${question.correctAnswer}. ${explanation}`;
-  }
-
-  return { isCorrect, explanation };
-}
-
 export async function POST(request: NextRequest) {
   try {
     const body: SubmissionRequest = await request.json();
-    const { sessionId, questionIndex, selectedAnswer, timeSpent } = body;
+    const { sessionId, questionIndex, selectedAnswer, timeSpent, clientTimestamp } = body;
 
     // Validate required fields
     if (!sessionId || questionIndex === undefined || !selectedAnswer || timeSpent === undefined) {
@@ -142,6 +151,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Mock exams run on a strict clock: nothing is accepted once time is up
+    const examMode = isMockExamQuizType(sessionData.quizType);
+    if (examMode && isExamTimeUp(sessionData.startTime.toDate(), sessionData.timeLimit)) {
+      return NextResponse.json(
+        { error: 'Exam time is over' },
+        { status: 403 }
+      );
+    }
+
     // Get the current question
     const currentQuestion = sessionData.questions[questionIndex];
     
@@ -154,19 +172,39 @@ export async function POST(request: NextRequest) {
     }
 
     // Update session with the answer
-    await updateSessionAnswer(sessionId, questionIndex, selectedAnswer, timeSpent);
+    const applied = await updateSessionAnswer(sessionId, questionIndex, selectedAnswer, timeSpent, clientTimestamp);
+
+    // Exam mode records the bubble without revealing whether it was right
+    if (examMode) {
+      return NextResponse.json({ recorded: applied, success: true });
+    }
     
     // Get feedback for the answer
-    const { isCorrect, explanation } = await getQuestionFeedback(currentQuestion, selectedAnswer);
+    const { isCorrect, explanation, explanationHi } = getAnswerFeedback(currentQuestion, selectedAnswer);
     
     // Log the submission for analytics
     await logSubmission(sessionId, questionIndex, selectedAnswer, isCorrect, timeSpent);
 
+    // Review sessions feed the answer back into the question's SM-2 schedule; a stale
+    // offline replay has already been superseded, so it leaves the schedule alone
+    let nextReviewAt: Date | undefined;
+    if (sessionData.quizType === REVIEW_QUIZ_TYPE && applied) {
+      try {
+        const reviewItem = await recordReviewAnswerAdmin(db, currentQuestion.id, isCorrect, timeSpent);
+        nextReviewAt = reviewItem?.dueAt;
+      } catch (error) {
+        console.error('Review schedule update error:', error);
+        // Don't fail the answer if rescheduling fails
+      }
+    }
+
     // Prepare response
     const response: SubmissionResponse = {
       isCorrect,
       explanation,
+      explanationHi,
       correctAnswer: currentQuestion.correctAnswer,
+      nextReviewAt,
       success: true
     };
 
@@ -176,10 +214,12 @@ export async function POST(request: NextRequest) {
     console.error('Answer submission error:', error);
     
     if (error instanceof Error) {
-      return NextResponse.json(
-        { error: error.message },
-        { status: error.message.includes('not found') ? 404 : 400 }
-      );
+      // Replayed offline answers are dropped on 4xx and retried on 5xx, so keep the two apart
+      const status = error.message.includes('not found') ? 404
+        : error.message.includes('already completed') ? 409
+        : error.message.startsWith('Failed to') ? 500
+        : 400;
+      return NextResponse.json({ error: error.message }, { status });
     }
 
     return NextResponse.json(
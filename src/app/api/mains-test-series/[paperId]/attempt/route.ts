@@ -0,0 +1,123 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { AuthenticatedRequest, createAuthenticatedHandler } from '@/lib/auth-middleware';
+import {
+  MainsTestAttempt,
+  MainsTestPaper,
+  getTestWindowStatus,
+  getUploadDeadline,
+  getWritingDeadline
+} from '@/lib/mains-test-series';
+import {
+  getAttemptAdmin,
+  getScorecardAdmin,
+  getTestPaperAdmin,
+  startAttemptAdmin
+} from '@/lib/mains-test-series-admin';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+interface RouteContext {
+  params: Promise<{ paperId: string }>;
+}
+
+// Paper as the candidate sees it while writing: no model answers
+function toCandidatePaper(paper: MainsTestPaper) {
+  return {
+    id: paper.id,
+    title: paper.title,
+    paper: paper.paper,
+    totalMarks: paper.totalMarks,
+    durationMinutes: paper.durationMinutes,
+    questions: paper.questions.map(question => ({ ...question, modelAnswer: undefined }))
+  };
+}
+
+function toAttemptResponse(paper: MainsTestPaper, attempt: MainsTestAttempt) {
+  return {
+    attemptId: attempt.id,
+    status: attempt.status,
+    startedAt: attempt.startedAt.toISOString(),
+    writingEndsAt: getWritingDeadline(attempt.startedAt, paper.durationMinutes).toISOString(),
+    uploadEndsAt: getUploadDeadline(attempt.startedAt, paper.durationMinutes).toISOString(),
+    pageNumbers: attempt.pageNumbers
+  };
+}
+
+// POST /api/mains-test-series/[paperId]/attempt - Start writing the paper
+async function startHandler(request: AuthenticatedRequest, context?: RouteContext) {
+  try {
+    const { paperId } = await context!.params;
+    const paper = await getTestPaperAdmin(db, paperId);
+    if (!paper) {
+      return NextResponse.json({ error: 'Test paper not found' }, { status: 404 });
+    }
+
+    const existing = await getAttemptAdmin(db, paperId, request.user.uid);
+    if (!existing) {
+      const windowStatus = getTestWindowStatus(paper);
+      if (windowStatus !== 'open') {
+        return NextResponse.json(
+          { error: windowStatus === 'scheduled' ? 'This paper has not been released yet' : 'This paper is closed' },
+          { status: 403 }
+        );
+      }
+    }
+
+    const attempt = existing || await startAttemptAdmin(db, paperId, request.user.uid);
+    return NextResponse.json({
+      paper: toCandidatePaper(paper),
+      attempt: toAttemptResponse(paper, attempt)
+    });
+  } catch (error) {
+    console.error('Error starting Mains test attempt:', error);
+    return NextResponse.json(
+      { error: 'Failed to start the test' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/mains-test-series/[paperId]/attempt - Attempt progress and, once evaluated, the scorecard
+async function statusHandler(request: AuthenticatedRequest, context?: RouteContext) {
+  try {
+    const { paperId } = await context!.params;
+    const paper = await getTestPaperAdmin(db, paperId);
+    if (!paper) {
+      return NextResponse.json({ error: 'Test paper not found' }, { status: 404 });
+    }
+
+    const attempt = await getAttemptAdmin(db, paperId, request.user.uid);
+    if (!attempt) {
+      return NextResponse.json({ attempt: null });
+    }
+
+    const scorecard = attempt.status === 'evaluated' ? await getScorecardAdmin(db, attempt.id) : null;
+    return NextResponse.json({
+      paper: toCandidatePaper(paper),
+      attempt: toAttemptResponse(paper, attempt),
+      scorecard
+    });
+  } catch (error) {
+    console.error('Error loading Mains test attempt:', error);
+    return NextResponse.json(
+      { error: 'Failed to load the attempt' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createAuthenticatedHandler<RouteContext>(startHandler);
+export const GET = createAuthenticatedHandler<RouteContext>(statusHandler);
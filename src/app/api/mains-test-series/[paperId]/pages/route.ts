@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { AuthenticatedRequest, createAuthenticatedHandler, getRateLimitKey, rateLimit } from '@/lib/auth-middleware';
+import AnswerEvaluationService from '@/services/answerEvaluationService';
+import { canUploadPages } from '@/lib/mains-test-series';
+import { getAttemptAdmin, getTestPaperAdmin, saveBookletPageAdmin } from '@/lib/mains-test-series-admin';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+const MAX_PAGE_SIZE = 10 * 1024 * 1024; // 10MB
+const MAX_BOOKLET_PAGES = 60;
+const ALLOWED_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic'];
+
+interface RouteContext {
+  params: Promise<{ paperId: string }>;
+}
+
+// POST /api/mains-test-series/[paperId]/pages - Upload and transcribe one scanned booklet page
+async function handler(request: AuthenticatedRequest, context?: RouteContext) {
+  // A 20-question booklet runs to a few dozen pages, uploaded in one sitting
+  if (!rateLimit(getRateLimitKey(request), 80, 3600000)) {
+    return NextResponse.json(
+      { error: 'Rate limit exceeded. Please try again later.' },
+      { status: 429 }
+    );
+  }
+
+  try {
+    const { paperId } = await context!.params;
+    const [paper, attempt] = await Promise.all([
+      getTestPaperAdmin(db, paperId),
+      getAttemptAdmin(db, paperId, request.user.uid)
+    ]);
+    if (!paper || !attempt) {
+      return NextResponse.json({ error: 'Start the test before uploading pages' }, { status: 404 });
+    }
+    if (!canUploadPages(attempt, paper.durationMinutes)) {
+      return NextResponse.json(
+        { error: attempt.status === 'writing' ? 'The upload window for this paper has ended' : 'This booklet has already been submitted' },
+        { status: 403 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+    const pageNumber = parseInt(formData.get('pageNumber') as string);
+    const questionField = formData.get('questionNumber') as string | null;
+    const questionNumber = questionField ? parseInt(questionField) : undefined;
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+    if (file.size > MAX_PAGE_SIZE) {
+      return NextResponse.json(
+        { error: `File size exceeds ${MAX_PAGE_SIZE / (1024 * 1024)}MB limit` },
+        { status: 400 }
+      );
+    }
+    if (!ALLOWED_MIME_TYPES.includes(file.type)) {
+      return NextResponse.json(
+        { error: 'Unsupported file type. Please upload each page as a JPG, PNG, WEBP or HEIC image.' },
+        { status: 400 }
+      );
+    }
+    if (!Number.isInteger(pageNumber) || pageNumber < 1 || pageNumber > MAX_BOOKLET_PAGES) {
+      return NextResponse.json(
+        { error: `Page number must be between 1 and ${MAX_BOOKLET_PAGES}` },
+        { status: 400 }
+      );
+    }
+    if (questionNumber !== undefined && !paper.questions.some(question => question.questionNumber === questionNumber)) {
+      return NextResponse.json({ error: 'Question number is not on this paper' }, { status: 400 });
+    }
+
+    const googleApiKey = process.env.GOOGLE_AI_API_KEY;
+    if (!googleApiKey) {
+      return NextResponse.json(
+        { error: 'Google AI API key not configured' },
+        { status: 500 }
+      );
+    }
+
+    const evaluationService = new AnswerEvaluationService({
+      google: googleApiKey,
+      openai: process.env.OPENAI_API_KEY,
+      anthropic: process.env.ANTHROPIC_API_KEY
+    });
+    const transcript = await evaluationService.extractTextFromHandwriting(Buffer.from(await file.arrayBuffer()));
+
+    const pageNumbers = await saveBookletPageAdmin(db, attempt.id, {
+      pageNumber,
+      text: transcript.text,
+      confidence: transcript.confidence,
+      readabilityScore: transcript.readabilityScore,
+      ...(questionNumber !== undefined && { questionNumber })
+    });
+
+    return NextResponse.json({
+      success: true,
+      pageNumber,
+      pageNumbers,
+      confidence: transcript.confidence,
+      readabilityScore: transcript.readabilityScore,
+      preview: transcript.text.slice(0, 300)
+    });
+  } catch (error) {
+    console.error('Error uploading booklet page:', error);
+    return NextResponse.json(
+      { error: 'Failed to process the page. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createAuthenticatedHandler<RouteContext>(handler);
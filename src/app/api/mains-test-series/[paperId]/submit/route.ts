@@ -0,0 +1,135 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { AuthenticatedRequest, createAuthenticatedHandler } from '@/lib/auth-middleware';
+import AnswerEvaluationService from '@/services/answerEvaluationService';
+import {
+  QuestionResult,
+  buildScorecard,
+  evaluatedResult,
+  notAttemptedResult,
+  segmentBooklet
+} from '@/lib/mains-test-series';
+import {
+  getAttemptAdmin,
+  getBookletPagesAdmin,
+  getScorecardAdmin,
+  getTestPaperAdmin,
+  getTopperAnswersAdmin,
+  markAttemptSubmittedAdmin,
+  reopenAttemptAdmin,
+  saveScorecardAdmin
+} from '@/lib/mains-test-series-admin';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+interface RouteContext {
+  params: Promise<{ paperId: string }>;
+}
+
+// POST /api/mains-test-series/[paperId]/submit - Segment the booklet, evaluate every answer and build the scorecard
+async function handler(request: AuthenticatedRequest, context?: RouteContext) {
+  let submittedAttemptId: string | null = null;
+
+  try {
+    const { paperId } = await context!.params;
+    const userId = request.user.uid;
+    const [paper, attempt] = await Promise.all([
+      getTestPaperAdmin(db, paperId),
+      getAttemptAdmin(db, paperId, userId)
+    ]);
+    if (!paper || !attempt) {
+      return NextResponse.json({ error: 'Test attempt not found' }, { status: 404 });
+    }
+    if (attempt.status === 'evaluated') {
+      return NextResponse.json({ scorecard: await getScorecardAdmin(db, attempt.id) });
+    }
+    if (attempt.pageNumbers.length === 0) {
+      return NextResponse.json({ error: 'Upload at least one booklet page before submitting' }, { status: 400 });
+    }
+
+    const googleApiKey = process.env.GOOGLE_AI_API_KEY;
+    if (!googleApiKey) {
+      return NextResponse.json(
+        { error: 'Google AI API key not configured' },
+        { status: 500 }
+      );
+    }
+
+    // Only one request gets to evaluate the booklet
+    if (!await markAttemptSubmittedAdmin(db, attempt.id)) {
+      return NextResponse.json({ error: 'This booklet is already being evaluated' }, { status: 409 });
+    }
+    submittedAttemptId = attempt.id;
+
+    const pages = await getBookletPagesAdmin(db, attempt.id);
+    const { segments, unassigned } = segmentBooklet(pages, paper.questions.map(question => question.questionNumber));
+
+    const evaluationService = new AnswerEvaluationService({
+      google: googleApiKey,
+      openai: process.env.OPENAI_API_KEY,
+      anthropic: process.env.ANTHROPIC_API_KEY
+    });
+
+    // Sequential to stay inside provider rate limits; a failed answer is left for manual review
+    const results: QuestionResult[] = [];
+    for (const question of paper.questions) {
+      const segment = segments.find(item => item.questionNumber === question.questionNumber);
+      if (!segment) continue;
+
+      try {
+        const evaluation = await evaluationService.evaluateTranscribedAnswer(segment.text, {
+          questionText: question.question,
+          modelAnswer: question.modelAnswer,
+          subject: question.subject.join(', ') || paper.paper,
+          maxMarks: question.marks,
+          gradingCriteria: question.gradingCriteria,
+          answerType: 'handwritten'
+        });
+        results.push(evaluatedResult(question, segment, evaluation));
+      } catch (error) {
+        console.error(`Error evaluating answer ${question.questionNumber}:`, error);
+        results.push({
+          ...notAttemptedResult(question),
+          status: 'review-required',
+          answerText: segment.text,
+          pageNumbers: segment.pageNumbers
+        });
+      }
+    }
+
+    const toppers = await getTopperAnswersAdmin(db, paper, userId);
+    const scorecard = buildScorecard(paper, userId, results, toppers);
+    await saveScorecardAdmin(db, paper, attempt.id, scorecard);
+
+    return NextResponse.json({
+      scorecard,
+      unassignedPages: unassigned.map(page => page.pageNumber)
+    });
+  } catch (error) {
+    console.error('Error submitting Mains test booklet:', error);
+    if (submittedAttemptId) {
+      // Let the candidate submit again instead of leaving the booklet stuck in evaluation
+      await reopenAttemptAdmin(db, submittedAttemptId).catch(reopenError => {
+        console.error('Error reopening Mains test attempt:', reopenError);
+      });
+    }
+    return NextResponse.json(
+      { error: 'Failed to evaluate the booklet. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createAuthenticatedHandler<RouteContext>(handler);
@@ -0,0 +1,95 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { z } from 'zod';
+import { AuthorizedRequest, createAuthenticatedHandler, createRoleAuthorizedHandler } from '@/lib/auth-middleware';
+import { MAINS_TEST_FORMATS, getTestWindowStatus } from '@/lib/mains-test-series';
+import { listTestPapersAdmin, scheduleTestPaperAdmin } from '@/lib/mains-test-series-admin';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+const scheduleSchema = z.object({
+  title: z.string().min(3),
+  paper: z.enum(['GS1', 'GS2', 'GS3', 'GS4', 'Essay']),
+  format: z.union([z.literal(10), z.literal(20)]),
+  questionIds: z.array(z.string().min(1)),
+  releaseAt: z.coerce.date(),
+  closesAt: z.coerce.date()
+}).refine(input => input.closesAt > input.releaseAt, {
+  message: 'The paper must close after it is released',
+  path: ['closesAt']
+}).refine(input => input.questionIds.length === MAINS_TEST_FORMATS[input.format].slots.length, {
+  message: 'Question count does not match the paper format',
+  path: ['questionIds']
+});
+
+// GET /api/mains-test-series - Scheduled and released papers (questions are only sent once an attempt starts)
+async function listHandler() {
+  try {
+    const papers = await listTestPapersAdmin(db);
+    const now = new Date();
+
+    return NextResponse.json({
+      papers: papers.map(paper => ({
+        id: paper.id,
+        title: paper.title,
+        paper: paper.paper,
+        format: paper.format,
+        totalMarks: paper.totalMarks,
+        durationMinutes: paper.durationMinutes,
+        releaseAt: paper.releaseAt.toISOString(),
+        closesAt: paper.closesAt.toISOString(),
+        status: getTestWindowStatus(paper, now)
+      }))
+    });
+  } catch (error) {
+    console.error('Error listing Mains test papers:', error);
+    return NextResponse.json(
+      { error: 'Failed to load test papers' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/mains-test-series - Schedule a paper from Mains bank questions (admin and content editors)
+async function scheduleHandler(request: AuthorizedRequest) {
+  try {
+    const input = scheduleSchema.parse(await request.json());
+    const paper = await scheduleTestPaperAdmin(db, { ...input, createdBy: request.user.uid });
+
+    return NextResponse.json({ success: true, paperId: paper.id, totalMarks: paper.totalMarks });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof Error && error.message.startsWith('Questions not found')) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    console.error('Error scheduling Mains test paper:', error);
+    return NextResponse.json(
+      { error: 'Failed to schedule test paper' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthenticatedHandler(listHandler);
+export const POST = createRoleAuthorizedHandler('tests:schedule', scheduleHandler);
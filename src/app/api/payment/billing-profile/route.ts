@@ -0,0 +1,93 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { z } from 'zod';
+import { AuthenticatedRequest, createAuthenticatedHandler } from '@/lib/auth-middleware';
+import { GST_STATE_CODES, isValidGstin, normalizeGstin } from '@/lib/payment/gst-invoices';
+import { getBillingProfileAdmin, saveBillingProfileAdmin } from '@/lib/payment/invoices-admin';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+const optionalText = (max: number) => z.string().trim().max(max).optional().transform(value => value || null);
+
+const billingProfileSchema = z.object({
+  name: z.string().trim().min(1).max(120),
+  gstin: optionalText(15)
+    .transform(gstin => gstin && normalizeGstin(gstin))
+    .refine(gstin => !gstin || isValidGstin(gstin), 'Enter a valid 15-character GSTIN'),
+  address: optionalText(300),
+  stateCode: optionalText(2).refine(code => !code || !!GST_STATE_CODES[code], 'Unknown state code')
+}).refine(
+  // A GSTIN fixes the place of supply, so it can't disagree with the chosen state
+  profile => !profile.gstin || !profile.stateCode || profile.gstin.startsWith(profile.stateCode),
+  { message: 'The state does not match the GSTIN', path: ['stateCode'] }
+);
+
+// GET /api/payment/billing-profile - Name, GSTIN and address printed on the user's invoices
+async function getBillingProfileHandler(request: AuthenticatedRequest) {
+  try {
+    const profile = await getBillingProfileAdmin(db, request.user.uid);
+
+    return NextResponse.json({
+      profile: profile || {
+        name: request.user.name || '',
+        email: request.user.email || null,
+        gstin: null,
+        address: null,
+        stateCode: null
+      },
+      states: GST_STATE_CODES
+    });
+  } catch (error) {
+    console.error('Error loading billing profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to load billing details' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/payment/billing-profile - Save billing details; only invoices issued afterwards use them
+async function saveBillingProfileHandler(request: AuthenticatedRequest) {
+  try {
+    const data = billingProfileSchema.parse(await request.json());
+    const profile = {
+      ...data,
+      stateCode: data.stateCode || (data.gstin ? data.gstin.slice(0, 2) : null),
+      email: request.user.email || null
+    };
+
+    await saveBillingProfileAdmin(db, request.user.uid, profile);
+    return NextResponse.json({ profile });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error saving billing profile:', error);
+    return NextResponse.json(
+      { error: 'Failed to save billing details' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthenticatedHandler(getBillingProfileHandler);
+export const PUT = createAuthenticatedHandler(saveBillingProfileHandler);
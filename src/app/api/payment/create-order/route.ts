@@ -1,5 +1,39 @@
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
 import Razorpay from 'razorpay';
+import { AuthenticatedRequest, createAuthenticatedHandler } from '@/lib/auth-middleware';
+import { SUBSCRIPTION_PLANS, SubscriptionTier } from '@/lib/subscription-tiers';
+import {
+  MIN_ORDER_AMOUNT,
+  PROMO_REJECTION_MESSAGES,
+  PromoCode,
+  getAvailableCredit,
+  normalizePromoCode,
+  priceOrder,
+  validatePromoCode
+} from '@/lib/payment/promotions';
+import {
+  getPromoCodeAdmin,
+  getReferralAccountAdmin,
+  hasRedeemedPromoAdmin,
+  reserveReferralCreditAdmin
+} from '@/lib/payment/promotions-admin';
+import { getProrationCredit } from '@/lib/payment/subscription-lifecycle';
+import { getSubscriptionStateAdmin, startTrialAdmin } from '@/lib/payment/subscription-lifecycle-admin';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
 
 // Initialize Razorpay instance
 const razorpay = new Razorpay({
@@ -7,27 +41,87 @@ const razorpay = new Razorpay({
   key_secret: process.env.RAZORPAY_KEY_SECRET!,
 });
 
-export async function POST(request: NextRequest) {
+// POST /api/payment/create-order - Order for a paid plan, or the plan's free trial.
+// Upgrade proration, promo codes and referral credit are priced here; the notes identify
+// the buyer, plan and discounts to the payment webhook, so they are set here rather than
+// by the client. Credit is held for the order before it is handed to checkout.
+async function createOrderHandler(request: AuthenticatedRequest) {
   try {
-    const body = await request.json();
-    const { amount, currency, receipt, notes } = body;
+    const { tier, billingCycle, promoCode, useCredits, startTrial } = await request.json();
+    const plan = SUBSCRIPTION_PLANS[tier as SubscriptionTier];
 
     // Validate required fields
-    if (!amount || !currency || !receipt) {
+    if (!plan || tier === 'free' || (billingCycle !== 'monthly' && billingCycle !== 'yearly')) {
       return NextResponse.json(
-        { error: 'Missing required fields: amount, currency, receipt' },
+        { error: 'A paid tier and a monthly or yearly billing cycle are required' },
         { status: 400 }
       );
     }
 
+    const userId = request.user.uid;
+
+    if (startTrial) {
+      const trial = await startTrialAdmin(db, userId, tier);
+      if (!trial.started) {
+        return NextResponse.json({ error: trial.error }, { status: 400 });
+      }
+      return NextResponse.json({ trial: true, tier, trialEnd: trial.trialEnd.toISOString() });
+    }
+
+    // The redemption limit is checked here and counted when the payment lands,
+    // so orders created at the same moment can go slightly over it
+    let promo: PromoCode | null = null;
+    if (promoCode) {
+      const code = normalizePromoCode(String(promoCode));
+      const [found, alreadyRedeemed] = await Promise.all([
+        getPromoCodeAdmin(db, code),
+        hasRedeemedPromoAdmin(db, code, userId)
+      ]);
+
+      const validation = validatePromoCode(found, { tier, billingCycle, alreadyRedeemed });
+      if (!validation.valid) {
+        return NextResponse.json(
+          { error: PROMO_REJECTION_MESSAGES[validation.reason], reason: validation.reason },
+          { status: 400 }
+        );
+      }
+      promo = found;
+    }
+
+    const [account, currentSubscription] = await Promise.all([
+      useCredits ? getReferralAccountAdmin(db, userId) : Promise.resolve(null),
+      getSubscriptionStateAdmin(db, userId)
+    ]);
+    const listPrice = billingCycle === 'yearly' ? plan.price.yearly : plan.price.monthly;
+
+    // Upgrading mid-period credits what is left of the current plan before other discounts
+    const prorationCredit = Math.min(getProrationCredit(currentSubscription, tier, new Date()), listPrice - MIN_ORDER_AMOUNT);
+    const pricing = priceOrder(listPrice - prorationCredit, { promo, creditBalance: getAvailableCredit(account) });
+
     // Create order with Razorpay
     const order = await razorpay.orders.create({
-      amount: amount, // Amount in paise
-      currency: currency,
-      receipt: receipt,
-      notes: notes || {},
+      amount: pricing.amount * 100, // Amount in paise
+      currency: 'INR',
+      receipt: `${tier}_${billingCycle}_${Date.now()}`,
+      notes: {
+        tier,
+        billingCycle,
+        userId,
+        planName: plan.name,
+        ...(promo && { promoCode: promo.code, promoDiscount: pricing.promoDiscount }),
+        ...(pricing.creditApplied > 0 && { creditApplied: pricing.creditApplied }),
+        ...(prorationCredit > 0 && { prorationCredit })
+      },
     });
 
+    // A checkout opened at the same moment may have taken the credit; this order is never paid
+    if (pricing.creditApplied > 0 && !(await reserveReferralCreditAdmin(db, userId, order.id, pricing.creditApplied))) {
+      return NextResponse.json(
+        { error: 'Your referral credit is already held for another checkout. Please try again.' },
+        { status: 409 }
+      );
+    }
+
     return NextResponse.json({
       id: order.id,
       amount: order.amount,
@@ -35,6 +129,7 @@ export async function POST(request: NextRequest) {
       receipt: order.receipt,
       status: order.status,
       created_at: order.created_at,
+      pricing: { ...pricing, listPrice, prorationCredit }
     });
 
   } catch (error) {
@@ -44,4 +139,6 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const POST = createAuthenticatedHandler(createOrderHandler);
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { AuthenticatedRequest, createAuthenticatedHandler } from '@/lib/auth-middleware';
+import { getInvoiceAdmin } from '@/lib/payment/invoices-admin';
+import { renderInvoicePdf } from '@/lib/payment/invoice-pdf';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+// GET /api/payment/invoices/[id] - PDF of one of the user's invoices or credit notes
+async function downloadInvoiceHandler(
+  request: AuthenticatedRequest,
+  context?: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await context!.params;
+    const invoice = await getInvoiceAdmin(db, id);
+
+    // Someone else's invoice is reported as missing rather than forbidden
+    if (!invoice || invoice.userId !== request.user.uid) {
+      return NextResponse.json(
+        { error: 'Invoice not found' },
+        { status: 404 }
+      );
+    }
+
+    const pdf = await renderInvoicePdf(invoice);
+    const fileName = `${invoice.number.replace(/\//g, '-')}.pdf`;
+
+    return new NextResponse(Buffer.from(pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Content-Length': pdf.length.toString()
+      }
+    });
+  } catch (error) {
+    console.error('Error rendering invoice:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate invoice' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthenticatedHandler(downloadInvoiceHandler);
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { AuthenticatedRequest, createAuthenticatedHandler } from '@/lib/auth-middleware';
+import { listInvoicesAdmin } from '@/lib/payment/invoices-admin';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+// GET /api/payment/invoices - The user's tax invoices and refund credit notes, newest first
+async function listInvoicesHandler(request: AuthenticatedRequest) {
+  try {
+    const invoices = await listInvoicesAdmin(db, request.user.uid);
+
+    return NextResponse.json({
+      invoices: invoices.map(invoice => ({
+        id: invoice.id,
+        type: invoice.type,
+        number: invoice.number,
+        issuedAt: invoice.issuedAt.toISOString(),
+        description: invoice.lineItem.description,
+        paymentId: invoice.paymentId,
+        refundId: invoice.refundId ?? null,
+        originalInvoiceNumber: invoice.originalInvoiceNumber ?? null,
+        taxableValue: invoice.taxableValue,
+        tax: invoice.cgst + invoice.sgst + invoice.igst,
+        total: invoice.total,
+        currency: invoice.currency
+      }))
+    });
+  } catch (error) {
+    console.error('Error listing invoices:', error);
+    return NextResponse.json(
+      { error: 'Failed to load billing history' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthenticatedHandler(listInvoicesHandler);
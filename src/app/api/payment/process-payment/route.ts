@@ -1,85 +1,86 @@
-import { NextRequest, NextResponse } from 'next/server';
-import crypto from 'crypto';
-import { SubscriptionService } from '@/services/subscriptionService';
-import { SubscriptionTier } from '@/lib/subscription-tiers';
-import { doc, setDoc, serverTimestamp } from 'firebase/firestore';
-import { db } from '@/lib/firebase';
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import Razorpay from 'razorpay';
+import { AuthenticatedRequest, createAuthenticatedHandler } from '@/lib/auth-middleware';
+import { RAZORPAY_CONFIG } from '@/lib/payment/razorpay';
+import { BillingEvent, RazorpayNotes, promotionsFromNotes, verifyPaymentSignature } from '@/lib/payment/razorpay-webhooks';
+import { processBillingEventAdmin } from '@/lib/payment/subscription-lifecycle-admin';
+import { SUBSCRIPTION_PLANS, SubscriptionTier } from '@/lib/subscription-tiers';
 
-export async function POST(request: NextRequest) {
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+const razorpay = new Razorpay({
+  key_id: RAZORPAY_CONFIG.keyId,
+  key_secret: RAZORPAY_CONFIG.keySecret,
+});
+
+// POST /api/payment/process-payment - Activate the plan as soon as checkout completes.
+// The order.paid webhook applies the same payment if the browser never gets here.
+async function processPaymentHandler(request: AuthenticatedRequest) {
   try {
-    const body = await request.json();
-    const {
-      paymentId,
-      orderId,
-      signature,
-      tier,
-      billingCycle,
-      userId
-    } = body;
+    const { paymentId, orderId, signature } = await request.json();
 
     // Validate required fields
-    if (!paymentId || !orderId || !signature || !tier || !billingCycle || !userId) {
+    if (!paymentId || !orderId || !signature) {
       return NextResponse.json(
         { error: 'Missing required payment details' },
         { status: 400 }
       );
     }
 
-    // Verify payment signature
-    const body_string = orderId + '|' + paymentId;
-    const expectedSignature = crypto
-      .createHmac('sha256', process.env.RAZORPAY_KEY_SECRET!)
-      .update(body_string)
-      .digest('hex');
-
-    if (expectedSignature !== signature) {
+    if (!verifyPaymentSignature(orderId, paymentId, signature, RAZORPAY_CONFIG.keySecret)) {
       return NextResponse.json(
         { error: 'Invalid payment signature' },
         { status: 400 }
       );
     }
 
-    // Get payment amount from tier and billing cycle
-    const { SUBSCRIPTION_PLANS } = await import('@/lib/subscription-tiers');
-    const plan = SUBSCRIPTION_PLANS[tier as SubscriptionTier];
-    const amount = billingCycle === 'yearly' ? plan.price.yearly : plan.price.monthly;
+    // The plan and buyer come from the order notes set by create-order, not from the client
+    const order = await razorpay.orders.fetch(orderId);
+    const notes = order.notes || {};
+    const tier = String(notes.tier || '') as SubscriptionTier;
+    const billingCycle = notes.billingCycle === 'yearly' ? 'yearly' : 'monthly';
 
-    try {
-      // Create or update subscription
-      await SubscriptionService.createSubscription(
-        userId,
-        tier as SubscriptionTier,
-        billingCycle,
-        {
-          provider: 'razorpay',
-          subscriptionId: paymentId,
-          customerId: userId,
-          amount: amount
-        }
+    if (notes.userId !== request.user.uid) {
+      return NextResponse.json(
+        { error: 'This order belongs to a different user' },
+        { status: 403 }
+      );
+    }
+    if (!SUBSCRIPTION_PLANS[tier]) {
+      return NextResponse.json(
+        { error: 'Order has no subscription plan' },
+        { status: 400 }
       );
+    }
 
-      // Record payment transaction
-      const transactionId = `${userId}_${paymentId}_${Date.now()}`;
-      await setDoc(doc(db, 'paymentTransactions', transactionId), {
-        userId,
-        subscriptionId: paymentId,
-        transactionId: paymentId,
-        amount,
-        currency: 'INR',
-        status: 'success',
-        provider: 'razorpay',
-        providerTransactionId: paymentId,
-        billingPeriodStart: serverTimestamp(),
-        billingPeriodEnd: serverTimestamp(), // Will be calculated properly in service
-        metadata: {
-          orderId,
-          signature,
-          tier,
-          billingCycle
-        },
-        createdAt: serverTimestamp(),
-        updatedAt: serverTimestamp()
-      });
+    const event: BillingEvent = {
+      id: `checkout_${paymentId}`,
+      type: 'payment_captured',
+      occurredAt: new Date(),
+      userId: request.user.uid,
+      paymentId,
+      orderId,
+      tier,
+      billingCycle,
+      amount: Number(order.amount) / 100,
+      ...promotionsFromNotes(notes as RazorpayNotes)
+    };
+
+    try {
+      await processBillingEventAdmin(db, event);
 
       return NextResponse.json({
         success: true,
@@ -90,12 +91,11 @@ export async function POST(request: NextRequest) {
 
     } catch (dbError) {
       console.error('Database error after successful payment:', dbError);
-      
-      // Payment was successful but database update failed
-      // This should trigger manual intervention
+
+      // The order.paid webhook will retry the activation
       return NextResponse.json({
         success: false,
-        message: 'Payment successful but subscription update failed. Please contact support.',
+        message: 'Payment received. Your plan will be activated shortly; contact support if it is not.',
         requiresManualReview: true,
         paymentId,
         orderId
@@ -105,7 +105,7 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('Error processing payment:', error);
     return NextResponse.json(
-      { 
+      {
         success: false,
         message: 'Payment processing failed',
         error: error instanceof Error ? error.message : 'Unknown error'
@@ -113,4 +113,6 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const POST = createAuthenticatedHandler(processPaymentHandler);
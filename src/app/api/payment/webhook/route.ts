@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { RAZORPAY_CONFIG } from '@/lib/payment/razorpay';
+import { parseWebhookEvent, verifyWebhookSignature } from '@/lib/payment/razorpay-webhooks';
+import { processBillingEventAdmin } from '@/lib/payment/subscription-lifecycle-admin';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+// POST /api/payment/webhook - Razorpay payment, subscription and refund events
+export async function POST(request: NextRequest) {
+  // The signature covers the exact bytes Razorpay sent
+  const rawBody = await request.text();
+
+  if (!verifyWebhookSignature(rawBody, request.headers.get('x-razorpay-signature'), RAZORPAY_CONFIG.webhookSecret)) {
+    return NextResponse.json({ error: 'Invalid webhook signature' }, { status: 400 });
+  }
+
+  try {
+    const event = parseWebhookEvent(rawBody, request.headers.get('x-razorpay-event-id'));
+    if (!event) {
+      return NextResponse.json({ status: 'ignored' });
+    }
+
+    const outcome = await processBillingEventAdmin(db, event);
+    return NextResponse.json({ status: outcome });
+  } catch (error) {
+    // A 5xx makes Razorpay retry the delivery; duplicates are skipped by event ID
+    console.error('Error processing Razorpay webhook:', error);
+    return NextResponse.json({ error: 'Failed to process webhook' }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { z } from 'zod';
+import { AuthorizedRequest, createRoleAuthorizedHandler, getAuditActor } from '@/lib/auth-middleware';
+import { addReviewCommentAdmin } from '@/lib/question-bank-admin';
+
+// Initialize Firebase Admin SDK
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID!,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL!,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY!.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+const commentSchema = z.object({
+  examType: z.enum(['Prelims', 'Mains']),
+  body: z.string().trim().min(1, 'Comment cannot be empty').max(2000)
+});
+
+// POST /api/questions/[id]/comments - Add a review comment on the current revision (editors and reviewers)
+async function commentHandler(
+  request: AuthorizedRequest,
+  context?: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: questionId } = await context!.params;
+    const { examType, body } = commentSchema.parse(await request.json());
+
+    const comment = await addReviewCommentAdmin(db, examType, questionId, body, getAuditActor(request));
+    if (!comment) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: comment
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid comment',
+          details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error adding review comment:', error);
+    return NextResponse.json(
+      { error: 'Failed to add comment' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createRoleAuthorizedHandler(['questions:update', 'questions:review'], commentHandler);
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { AuthorizedRequest, createRoleAuthorizedHandler } from '@/lib/auth-middleware';
+import { getQuestionHistoryAdmin } from '@/lib/question-bank-admin';
+import { getAvailableActions, getQuestionStatus } from '@/lib/question-workflow';
+
+// Initialize Firebase Admin SDK
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID!,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL!,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY!.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+// GET /api/questions/[id]/history?examType= - Revisions, review comments and workflow state of a question (editors and reviewers)
+async function historyHandler(
+  request: AuthorizedRequest,
+  context?: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: questionId } = await context!.params;
+    const examType = new URL(request.url).searchParams.get('examType') as 'Prelims' | 'Mains';
+
+    if (!examType || !['Prelims', 'Mains'].includes(examType)) {
+      return NextResponse.json(
+        { error: 'examType parameter is required (Prelims or Mains)' },
+        { status: 400 }
+      );
+    }
+
+    const history = await getQuestionHistoryAdmin(db, examType, questionId);
+    if (!history) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      ...history,
+      availableActions: getAvailableActions(getQuestionStatus(history.question), request.roles)
+    });
+
+  } catch (error) {
+    console.error('Error loading question history:', error);
+    return NextResponse.json(
+      { error: 'Failed to load question history' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createRoleAuthorizedHandler(['questions:update', 'questions:review'], historyHandler);
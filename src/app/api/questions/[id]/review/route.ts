@@ -0,0 +1,148 @@
+import { NextResponse } from 'next/server';
+import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { z } from 'zod';
+import { getRolesFromClaims, hasPermission } from '@/lib/admin-roles';
+import { AuthorizedRequest, createRoleAuthorizedHandler, getAuditActor } from '@/lib/auth-middleware';
+import { assignReviewerAdmin, transitionQuestionAdmin } from '@/lib/question-bank-admin';
+import { applyQuestionWriteToSearchIndex } from '@/lib/question-search-admin';
+import { QuestionWorkflowError, WORKFLOW_ACTIONS, getWorkflowErrorStatus } from '@/lib/question-workflow';
+
+// Initialize Firebase Admin SDK
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID!,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL!,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY!.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+const transitionSchema = z.object({
+  examType: z.enum(['Prelims', 'Mains']),
+  action: z.enum(WORKFLOW_ACTIONS),
+  comment: z.string().max(2000).optional()
+});
+
+// A null email unassigns the current reviewer
+const assignSchema = z.object({
+  examType: z.enum(['Prelims', 'Mains']),
+  reviewerEmail: z.string().email().nullable()
+});
+
+function isUserNotFound(error: unknown): boolean {
+  return (error as { code?: string })?.code === 'auth/user-not-found';
+}
+
+function invalidRequest(error: z.ZodError) {
+  return NextResponse.json(
+    {
+      error: 'Invalid request',
+      details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+    },
+    { status: 400 }
+  );
+}
+
+// POST /api/questions/[id]/review - Submit, approve, send back, retire or restore a question; permissions depend on the action
+async function transitionHandler(
+  request: AuthorizedRequest,
+  context?: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: questionId } = await context!.params;
+    const { examType, action, comment } = transitionSchema.parse(await request.json());
+
+    const question = await transitionQuestionAdmin(db, examType, questionId, action, getAuditActor(request), comment);
+    if (!question) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+    applyQuestionWriteToSearchIndex(examType, questionId, question);
+
+    return NextResponse.json({
+      success: true,
+      status: question.status
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return invalidRequest(error);
+    }
+    if (error instanceof QuestionWorkflowError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: getWorkflowErrorStatus(error) }
+      );
+    }
+
+    console.error('Error changing question status:', error);
+    return NextResponse.json(
+      { error: 'Failed to change question status' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/questions/[id]/review - Assign the reviewer who must sign off on a question (editors and reviewers)
+async function assignHandler(
+  request: AuthorizedRequest,
+  context?: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: questionId } = await context!.params;
+    const { examType, reviewerEmail } = assignSchema.parse(await request.json());
+
+    let reviewer: { uid: string; email?: string } | null = null;
+    if (reviewerEmail) {
+      const user = await getAuth().getUserByEmail(reviewerEmail);
+      if (!hasPermission(getRolesFromClaims(user.customClaims || {}), 'questions:review')) {
+        return NextResponse.json(
+          { error: 'This user cannot review questions' },
+          { status: 400 }
+        );
+      }
+      reviewer = { uid: user.uid, ...(user.email && { email: user.email }) };
+    }
+
+    const found = await assignReviewerAdmin(db, examType, questionId, reviewer, getAuditActor(request));
+    if (!found) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      reviewerId: reviewer?.uid ?? null,
+      reviewerEmail: reviewer?.email ?? null
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return invalidRequest(error);
+    }
+    if (isUserNotFound(error)) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+
+    console.error('Error assigning reviewer:', error);
+    return NextResponse.json(
+      { error: 'Failed to assign reviewer' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createRoleAuthorizedHandler(
+  ['questions:update', 'questions:review', 'questions:deactivate'],
+  transitionHandler
+);
+export const PUT = createRoleAuthorizedHandler(['questions:update', 'questions:review'], assignHandler);
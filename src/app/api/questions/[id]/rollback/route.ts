@@ -0,0 +1,77 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { z } from 'zod';
+import { AuthorizedRequest, createRoleAuthorizedHandler, getAuditActor } from '@/lib/auth-middleware';
+import { rollbackQuestionAdmin } from '@/lib/question-bank-admin';
+import { applyQuestionWriteToSearchIndex } from '@/lib/question-search-admin';
+import { QuestionWorkflowError, getWorkflowErrorStatus } from '@/lib/question-workflow';
+
+// Initialize Firebase Admin SDK
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID!,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL!,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY!.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+const rollbackSchema = z.object({
+  examType: z.enum(['Prelims', 'Mains']),
+  version: z.number().int().positive()
+});
+
+// POST /api/questions/[id]/rollback - Restore an earlier revision's content as a new revision awaiting review (admin and content editors)
+async function rollbackHandler(
+  request: AuthorizedRequest,
+  context?: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id: questionId } = await context!.params;
+    const { examType, version } = rollbackSchema.parse(await request.json());
+
+    const question = await rollbackQuestionAdmin(db, examType, questionId, version, getAuditActor(request));
+    if (!question) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+    applyQuestionWriteToSearchIndex(examType, questionId, question);
+
+    return NextResponse.json({
+      success: true,
+      data: question,
+      message: `Restored version ${version} as version ${question.pendingVersion}, awaiting review`
+    });
+
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid rollback request',
+          details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+        },
+        { status: 400 }
+      );
+    }
+    if (error instanceof QuestionWorkflowError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: getWorkflowErrorStatus(error) }
+      );
+    }
+
+    console.error('Error rolling back question:', error);
+    return NextResponse.json(
+      { error: 'Failed to roll back question' },
+      { status: 500 }
+    );
+  }
+}
+
+export const POST = createRoleAuthorizedHandler('questions:update', rollbackHandler);
@@ -1,7 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
 import { QuestionBankService } from '@/services/questionBankService';
+import { AuthorizedRequest, createRoleAuthorizedHandler, getAuditActor } from '@/lib/auth-middleware';
+import { deactivateQuestionAdmin, updateQuestionAdmin } from '@/lib/question-bank-admin';
+import { QuestionWorkflowError, getWorkflowErrorStatus } from '@/lib/question-workflow';
+import { applyQuestionWriteToSearchIndex } from '@/lib/question-search-admin';
 
 // Initialize Firebase Admin SDK
 if (!getApps().length) {
@@ -14,6 +19,8 @@ if (!getApps().length) {
   });
 }
 
+const db = getFirestore();
+
 async function verifyAuthToken(request: NextRequest): Promise<string | null> {
   try {
     const authHeader = request.headers.get('authorization');
@@ -158,25 +165,13 @@ export async function POST(
   }
 }
 
-// PUT /api/questions/[id] - Update a question (admin only)
-export async function PUT(
-  request: NextRequest,
-  { params }: { params: { id: string } }
+// PUT /api/questions/[id] - Record an edit as a revision awaiting review; the current content stays live until it is approved (admin and content editors)
+async function updateHandler(
+  request: AuthorizedRequest,
+  context?: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Verify authentication
-    const userId = await verifyAuthToken(request);
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
-    // This would require admin access check
-    // For now, we'll implement a basic structure
-
-    const questionId = params.id;
+    const { id: questionId } = await context!.params;
     const body = await request.json();
     const { examType, updates } = body;
 
@@ -187,22 +182,36 @@ export async function PUT(
       );
     }
 
-    if (!updates || typeof updates !== 'object') {
+    if (!updates || typeof updates !== 'object' || Array.isArray(updates)) {
       return NextResponse.json(
         { error: 'Updates object is required' },
         { status: 400 }
       );
     }
 
-    // This would require implementing update methods in QuestionBankService
-    // For now, return a placeholder response
+    const question = await updateQuestionAdmin(db, examType, questionId, updates, getAuditActor(request));
+    if (!question) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+    applyQuestionWriteToSearchIndex(examType, questionId, question);
 
     return NextResponse.json({
       success: true,
-      message: 'Question updated successfully'
+      data: question,
+      message: 'Edit saved for review'
     });
 
   } catch (error) {
+    if (error instanceof QuestionWorkflowError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: getWorkflowErrorStatus(error) }
+      );
+    }
+
     console.error('Error updating question:', error);
     return NextResponse.json(
       { error: 'Failed to update question' },
@@ -211,25 +220,13 @@ export async function PUT(
   }
 }
 
-// DELETE /api/questions/[id] - Delete/deactivate a question (admin only)
-export async function DELETE(
-  request: NextRequest,
-  { params }: { params: { id: string } }
+// DELETE /api/questions/[id] - Deactivate a question (admin and content editors)
+async function deactivateHandler(
+  request: AuthorizedRequest,
+  context?: { params: Promise<{ id: string }> }
 ) {
   try {
-    // Verify authentication
-    const userId = await verifyAuthToken(request);
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
-    // This would require admin access check
-    // For now, we'll implement a basic structure
-
-    const questionId = params.id;
+    const { id: questionId } = await context!.params;
     const { searchParams } = new URL(request.url);
     const examType = searchParams.get('examType') as 'Prelims' | 'Mains';
 
@@ -241,7 +238,20 @@ export async function DELETE(
     }
 
     // Instead of hard delete, mark as inactive
-    // This would require implementing deactivate methods in QuestionBankService
+    const found = await deactivateQuestionAdmin(
+      db,
+      examType,
+      questionId,
+      getAuditActor(request),
+      searchParams.get('reason') || undefined
+    );
+    if (!found) {
+      return NextResponse.json(
+        { error: 'Question not found' },
+        { status: 404 }
+      );
+    }
+    applyQuestionWriteToSearchIndex(examType, questionId, null);
 
     return NextResponse.json({
       success: true,
@@ -255,4 +265,7 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const PUT = createRoleAuthorizedHandler('questions:update', updateHandler);
+export const DELETE = createRoleAuthorizedHandler('questions:deactivate', deactivateHandler);
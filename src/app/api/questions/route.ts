@@ -1,7 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getAuth } from 'firebase-admin/auth';
+import { getFirestore } from 'firebase-admin/firestore';
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
-import { QuestionBankService, QuestionSearchOptions } from '@/services/questionBankService';
+import { QuestionBankService } from '@/services/questionBankService';
+import { AuthorizedRequest, createRoleAuthorizedHandler, getAuditActor } from '@/lib/auth-middleware';
+import { buildAuditEntry, diffRecords, getQuestionEntityType } from '@/lib/audit-log';
+import { writeAuditLogAdmin } from '@/lib/audit-log-admin';
+import { QUESTION_COLLECTIONS } from '@/lib/question-bank-admin';
+import {
+  DEFAULT_SEARCH_LIMIT,
+  InvalidCursorError,
+  MAX_SEARCH_LIMIT,
+  SEARCH_SORTS,
+  SearchRequest,
+  SearchSort
+} from '@/lib/question-search';
+import { applyQuestionWriteToSearchIndex, getQuestionSearchIndexAdmin } from '@/lib/question-search-admin';
 
 // Initialize Firebase Admin SDK
 if (!getApps().length) {
@@ -14,6 +28,8 @@ if (!getApps().length) {
   });
 }
 
+const db = getFirestore();
+
 async function verifyAuthToken(request: NextRequest): Promise<string | null> {
   try {
     const authHeader = request.headers.get('authorization');
@@ -30,7 +46,10 @@ async function verifyAuthToken(request: NextRequest): Promise<string | null> {
   }
 }
 
-// GET /api/questions - Search and retrieve questions
+const listParam = (searchParams: URLSearchParams, name: string): string[] | undefined =>
+  searchParams.get(name)?.split(',').map(value => value.trim()).filter(value => value);
+
+// GET /api/questions - Full-text and faceted search over the question bank
 export async function GET(request: NextRequest) {
   try {
     // Verify authentication
@@ -46,17 +65,18 @@ export async function GET(request: NextRequest) {
     
     // Parse search parameters
     const examType = searchParams.get('examType') as 'Prelims' | 'Mains';
-    const years = searchParams.get('years')?.split(',').map(y => parseInt(y.trim())).filter(y => !isNaN(y));
-    const papers = searchParams.get('papers')?.split(',').map(p => p.trim()).filter(p => p);
-    const subjects = searchParams.get('subjects')?.split(',').map(s => s.trim()).filter(s => s);
-    const subtopics = searchParams.get('subtopics')?.split(',').map(s => s.trim()).filter(s => s);
-    const difficultyLevel = searchParams.get('difficultyLevel')?.split(',').map(d => d.trim()).filter(d => d) as ('Easy' | 'Medium' | 'Hard')[];
-    const questionType = searchParams.get('questionType')?.split(',').map(t => t.trim()).filter(t => t);
+    const query = searchParams.get('q')?.trim() || undefined;
+    const years = listParam(searchParams, 'years')?.map(y => parseInt(y)).filter(y => !isNaN(y));
+    const papers = listParam(searchParams, 'papers');
+    const subjects = listParam(searchParams, 'subjects');
+    const subtopics = listParam(searchParams, 'subtopics');
+    const difficultyLevel = listParam(searchParams, 'difficultyLevel');
+    const questionType = listParam(searchParams, 'questionType');
     const verified = searchParams.get('verified') === 'true' ? true : searchParams.get('verified') === 'false' ? false : undefined;
-    const limit = parseInt(searchParams.get('limit') || '20');
-    const offset = parseInt(searchParams.get('offset') || '0');
-    const sortBy = searchParams.get('sortBy') as 'year' | 'difficulty' | 'successRate' | 'attemptCount';
-    const sortOrder = searchParams.get('sortOrder') as 'asc' | 'desc';
+    const limit = Math.min(parseInt(searchParams.get('limit') || String(DEFAULT_SEARCH_LIMIT)) || DEFAULT_SEARCH_LIMIT, MAX_SEARCH_LIMIT);
+    const cursor = searchParams.get('cursor') || undefined;
+    const sortBy = searchParams.get('sortBy') as SearchSort | null;
+    const sortOrder = searchParams.get('sortOrder') === 'asc' ? 'asc' : 'desc';
 
     // Validate required parameters
     if (!examType || !['Prelims', 'Mains'].includes(examType)) {
@@ -66,9 +86,15 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Build search options
-    const searchOptions: QuestionSearchOptions = {
-      examType,
+    if (sortBy && !SEARCH_SORTS.includes(sortBy)) {
+      return NextResponse.json(
+        { error: `Invalid sortBy. Must be one of ${SEARCH_SORTS.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const searchRequest: SearchRequest = {
+      query,
       years,
       papers,
       subjects,
@@ -76,34 +102,43 @@ export async function GET(request: NextRequest) {
       difficultyLevel,
       questionType,
       verified,
-      limit: Math.min(limit, 100), // Cap at 100 questions per request
-      offset,
-      sortBy,
+      limit,
+      cursor,
+      sortBy: sortBy || undefined,
       sortOrder
     };
 
-    // Search questions
-    let questions;
-    if (examType === 'Prelims') {
-      questions = await QuestionBankService.searchPrelimsQuestions(searchOptions);
-    } else {
-      questions = await QuestionBankService.searchMainsQuestions(searchOptions);
+    const index = await getQuestionSearchIndexAdmin(db, examType);
+    let result;
+    try {
+      result = index.search(searchRequest);
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        return NextResponse.json({ error: error.message }, { status: 400 });
+      }
+      throw error;
     }
 
+    // The index holds only searchable fields; return the current questions in ranked order
+    const collection = db.collection(QUESTION_COLLECTIONS[examType]);
+    const snapshots = result.hits.length > 0
+      ? await db.getAll(...result.hits.map(hit => collection.doc(hit.id)))
+      : [];
+    const questions = snapshots
+      .filter(snapshot => snapshot.exists)
+      .map(snapshot => ({ ...snapshot.data(), id: snapshot.id }));
+
     return NextResponse.json({
       success: true,
       data: questions,
       count: questions.length,
+      total: result.total,
+      facets: result.facets,
+      nextCursor: result.nextCursor,
       searchOptions: {
         examType,
-        years,
-        papers,
-        subjects,
-        subtopics,
-        difficultyLevel,
-        verified,
-        limit,
-        offset
+        ...searchRequest,
+        cursor: cursor ?? null
       }
     });
 
@@ -116,21 +151,10 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/questions - Create a new question (admin only)
-export async function POST(request: NextRequest) {
+// POST /api/questions - Create a new question (admin and content editors)
+async function createHandler(request: AuthorizedRequest) {
   try {
-    // Verify authentication
-    const userId = await verifyAuthToken(request);
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'Unauthorized' },
-        { status: 401 }
-      );
-    }
-
-    // This would require admin access check
-    // For now, allowing any authenticated user to add questions in dev mode
-
+    const userId = request.user.uid;
     const body = await request.json();
     const { examType, questionData } = body;
 
@@ -168,6 +192,15 @@ export async function POST(request: NextRequest) {
       questionId = await QuestionBankService.createMainsQuestion(enrichedQuestionData);
     }
 
+    await writeAuditLogAdmin(db, buildAuditEntry(
+      getAuditActor(request),
+      'create',
+      getQuestionEntityType(examType),
+      questionId,
+      diffRecords(null, enrichedQuestionData)
+    ));
+    applyQuestionWriteToSearchIndex(examType, questionId, enrichedQuestionData);
+
     return NextResponse.json({
       success: true,
       questionId,
@@ -181,4 +214,6 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
+
+export const POST = createRoleAuthorizedHandler('questions:create', createHandler);
@@ -0,0 +1,78 @@
+import { NextResponse } from 'next/server';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { z } from 'zod';
+import { AuthenticatedRequest, createAuthenticatedHandler } from '@/lib/auth-middleware';
+import { REFERRAL_CREDIT, getReferralLink } from '@/lib/payment/promotions';
+import { claimReferralAdmin, ensureReferralAccountAdmin } from '@/lib/payment/promotions-admin';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+const claimSchema = z.object({
+  code: z.string().trim().min(1).max(32).transform(code => code.toUpperCase())
+});
+
+// GET /api/referrals - The user's referral link, credit balance and rewarded referrals
+async function getReferralsHandler(request: AuthenticatedRequest) {
+  try {
+    const account = await ensureReferralAccountAdmin(db, request.user.uid);
+
+    return NextResponse.json({
+      code: account.code,
+      link: getReferralLink(account.code),
+      creditBalance: account.creditBalance,
+      referralsCount: account.referralsCount,
+      referred: !!account.referredBy,
+      rewardPerReferral: REFERRAL_CREDIT
+    });
+  } catch (error) {
+    console.error('Error loading referral account:', error);
+    return NextResponse.json(
+      { error: 'Failed to load referral account' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/referrals - Apply a referral code; both users are credited on the first payment
+async function claimReferralHandler(request: AuthenticatedRequest) {
+  try {
+    const { code } = claimSchema.parse(await request.json());
+    const error = await claimReferralAdmin(db, request.user.uid, code);
+
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error claiming referral:', error);
+    return NextResponse.json(
+      { error: 'Failed to apply referral code' },
+      { status: 500 }
+    );
+  }
+}
+
+export const GET = createAuthenticatedHandler(getReferralsHandler);
+export const POST = createAuthenticatedHandler(claimReferralHandler);
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { runSubscriptionLifecycleAdmin } from '@/lib/payment/subscription-lifecycle-admin';
+
+// Initialize Firebase Admin
+if (!getApps().length) {
+  initializeApp({
+    credential: cert({
+      projectId: process.env.FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n'),
+    }),
+  });
+}
+
+const db = getFirestore();
+
+function isScheduler(request: NextRequest): boolean {
+  const secret = process.env.SUBSCRIPTION_JOB_SECRET;
+  const expected = Buffer.from(`Bearer ${secret}`);
+  const actual = Buffer.from(request.headers.get('authorization') || '');
+  return !!secret && expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// POST /api/subscription/lifecycle - Daily job (Cloud Scheduler) for grace periods, payment reminders and downgrades
+export async function POST(request: NextRequest) {
+  if (!isScheduler(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const summary = await runSubscriptionLifecycleAdmin(db);
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error running subscription lifecycle job:', error);
+    return NextResponse.json(
+      { error: 'Failed to run subscription lifecycle job' },
+      { status: 500 }
+    );
+  }
+}
@@ -77,7 +77,7 @@ export async function POST(request: NextRequest) {
 
     try {
       // Update subscription tier
-      await SubscriptionService.updateSubscriptionTier(
+      const prorationCredit = await SubscriptionService.updateSubscriptionTier(
         userId,
         targetTier as SubscriptionTier,
         paymentDetails
@@ -87,7 +87,8 @@ export async function POST(request: NextRequest) {
         success: true,
         message: 'Subscription upgraded successfully',
         newTier: targetTier,
-        billingCycle
+        billingCycle,
+        prorationCredit
       });
 
     } catch (upgradeError) {
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { CANONICAL_SYLLABUS, getSyllabusPath, getSyllabusSections, resolveSyllabusId } from '@/lib/syllabus';
+
+const querySchema = z.object({
+  exam: z.enum(['prelims', 'mains']).optional(),
+  paper: z.string().refine(id => CANONICAL_SYLLABUS.papers.includes(id), 'Unknown syllabus paper').optional(),
+  depth: z.coerce.number().int().min(1).max(5).optional(),
+  ids: z.string().optional()
+});
+
+// GET /api/syllabus - The canonical syllabus tree, optionally for one exam or paper.
+// `ids` (comma separated) maps current or retired node ids to their canonical node.
+export async function GET(request: NextRequest) {
+  try {
+    const params = querySchema.parse(Object.fromEntries(request.nextUrl.searchParams));
+
+    const response: Record<string, unknown> = {
+      version: CANONICAL_SYLLABUS.version,
+      sections: getSyllabusSections({
+        exam: params.exam,
+        paperIds: params.paper ? [params.paper] : undefined,
+        depth: params.depth
+      })
+    };
+
+    if (params.ids) {
+      response.resolved = Object.fromEntries(
+        params.ids.split(',').map(id => id.trim()).filter(Boolean).map(id => {
+          const canonicalId = resolveSyllabusId(id);
+          return [id, canonicalId && {
+            id: canonicalId,
+            path: getSyllabusPath(canonicalId).map(node => ({ id: node.id, name: node.name }))
+          }];
+        })
+      );
+    }
+
+    return NextResponse.json(response, {
+      headers: { 'Cache-Control': 'public, max-age=3600' }
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request data',
+          details: error.errors.map(e => ({ field: e.path.join('.'), message: e.message }))
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error fetching syllabus:', error);
+    return NextResponse.json({ error: 'Failed to fetch syllabus' }, { status: 500 });
+  }
+}
@@ -3,12 +3,12 @@
  * Provides quick suggestions while user is typing
  */
 
-import { NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
 import { WritingEvaluationService } from '@/services/writingEvaluationService';
-import { createAuthenticatedHandler, getRateLimitKey, rateLimit } from '@/lib/auth-middleware';
+import { AuthenticatedRequest, createAuthenticatedHandler, getRateLimitKey, rateLimit } from '@/lib/auth-middleware';
 import { z } from 'zod';
 
-async function handler(request: NextRequest) {
+async function handler(request: AuthenticatedRequest) {
   // Rate limiting - 30 realtime suggestions per minute per user
   const rateLimitKey = getRateLimitKey(request);
   if (!rateLimit(rateLimitKey, 30, 60000)) {
@@ -36,7 +36,7 @@ async function handler(request: NextRequest) {
       return NextResponse.json({ suggestions: [] });
     }
 
-    const evaluationService = new WritingEvaluationService();
+    const evaluationService = new WritingEvaluationService({ userId: request.user.uid });
     const suggestions = await evaluationService.getRealtimeSuggestions(
       content, 
       context || questionText || `${examType} answer`
@@ -5,10 +5,11 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { WritingEvaluationService } from '@/services/writingEvaluationService';
-import { createAuthenticatedHandler, getRateLimitKey, rateLimit } from '@/lib/auth-middleware';
+import { AI_PRICING } from '@/lib/ai-providers';
+import { AuthenticatedRequest, createAuthenticatedHandler, getRateLimitKey, rateLimit } from '@/lib/auth-middleware';
 import { z } from 'zod';
 
-async function handler(request: NextRequest) {
+async function handler(request: AuthenticatedRequest) {
   // Rate limiting - 10 evaluations per minute per user
   const rateLimitKey = getRateLimitKey(request);
   if (!rateLimit(rateLimitKey, 10, 60000)) {
@@ -40,7 +41,7 @@ async function handler(request: NextRequest) {
     const validatedData = requestSchema.parse(body);
 
     // Initialize evaluation service
-    const evaluationService = new WritingEvaluationService();
+    const evaluationService = new WritingEvaluationService({ userId: request.user.uid });
 
     // Perform evaluation
     const result = await evaluationService.evaluateWriting(validatedData);
@@ -92,10 +93,8 @@ function healthCheckHandler(request: NextRequest) {
     status: 'healthy',
     service: 'writing-evaluation',
     timestamp: new Date().toISOString(),
-    models: {
-      openai: ['gpt-4-turbo-preview', 'gpt-4', 'gpt-3.5-turbo'],
-      anthropic: ['claude-3-5-sonnet-20241022', 'claude-3-haiku-20240307']
-    }
+    // Models the router can choose from; each call picks one per task
+    models: Object.fromEntries(Object.entries(AI_PRICING).map(([provider, models]) => [provider, Object.keys(models)]))
   });
 }
 
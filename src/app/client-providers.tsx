@@ -1,10 +1,29 @@
 'use client';
 
 import React from 'react';
-import { AuthProvider } from '@/contexts/AuthContext';
+import { AuthProvider, useAuth } from '@/contexts/AuthContext';
 import { Toaster } from '@/components/ui/toaster';
 import { ErrorBoundary } from '@/components/error-boundary';
-import { setupWebVitals } from '@/lib/analytics';
+import AnalyticsConsentBanner from '@/components/analytics/AnalyticsConsentBanner';
+import { analytics, setupWebVitals } from '@/lib/analytics';
+
+// Starts the analytics session and attributes events to the signed-in user
+function AnalyticsSession() {
+  const { user } = useAuth();
+
+  React.useEffect(() => {
+    analytics.initialize();
+  }, []);
+
+  React.useEffect(() => {
+    analytics.setIdTokenProvider(user ? () => user.getIdToken() : null);
+    if (user && analytics.getUserId() !== user.uid) {
+      analytics.setUserId(user.uid);
+    }
+  }, [user]);
+
+  return null;
+}
 
 export function ClientProviders({ children }: { children: React.ReactNode }) {
   // Setup analytics and performance monitoring on the client
@@ -15,7 +34,9 @@ export function ClientProviders({ children }: { children: React.ReactNode }) {
   return (
     <ErrorBoundary>
       <AuthProvider>
+        <AnalyticsSession />
         {children}
+        <AnalyticsConsentBanner />
         <Toaster />
       </AuthProvider>
     </ErrorBoundary>
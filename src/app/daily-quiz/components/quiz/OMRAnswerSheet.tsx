@@ -0,0 +1,111 @@
+'use client';
+
+import React from 'react';
+import { useQuizSession } from './QuizSessionContext';
+import { Flag } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+const BUBBLES = ['A', 'B', 'C', 'D'];
+
+interface OMRAnswerSheetProps {
+  className?: string;
+}
+
+// OMR-style answer sheet for mock exams: one row of bubbles per question plus a review mark
+export const OMRAnswerSheet: React.FC<OMRAnswerSheetProps> = ({ className }) => {
+  const {
+    session,
+    selectAnswer,
+    goToQuestion,
+    toggleMarkForReview,
+    isSubmitting
+  } = useQuizSession();
+
+  const markedForReview = session.markedForReview || [];
+  const answeredCount = session.answers.filter(answer => answer !== null).length;
+  const markedCount = markedForReview.filter(Boolean).length;
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="grid grid-cols-3 gap-2 text-center text-xs">
+        <div className="rounded bg-gray-900 text-white py-1">
+          <div className="font-semibold">{answeredCount}</div>
+          <div>Filled</div>
+        </div>
+        <div className="rounded bg-purple-100 text-purple-700 py-1">
+          <div className="font-semibold">{markedCount}</div>
+          <div>Review</div>
+        </div>
+        <div className="rounded bg-gray-100 text-gray-700 py-1">
+          <div className="font-semibold">{session.questions.length - answeredCount}</div>
+          <div>Blank</div>
+        </div>
+      </div>
+
+      <div className="max-h-[60vh] overflow-y-auto pr-1 space-y-1" role="group" aria-label="OMR answer sheet">
+        {session.questions.map((question, index) => {
+          const isCurrent = index === session.currentQuestionIndex;
+          const isMarked = markedForReview[index];
+
+          return (
+            <div
+              key={question.id}
+              className={cn(
+                "flex items-center space-x-2 rounded px-1 py-0.5",
+                isCurrent && "bg-blue-50 ring-1 ring-blue-200",
+                isMarked && !isCurrent && "bg-purple-50"
+              )}
+            >
+              <button
+                type="button"
+                onClick={() => goToQuestion(index)}
+                className="w-8 text-right text-xs font-mono text-gray-600 hover:text-blue-600"
+                aria-label={`Go to question ${index + 1}`}
+              >
+                {index + 1}
+              </button>
+              {BUBBLES.map(letter => {
+                const isFilled = session.answers[index] === letter;
+                return (
+                  <button
+                    key={letter}
+                    type="button"
+                    disabled={isSubmitting || session.completed}
+                    onClick={() => selectAnswer(letter, index)}
+                    aria-pressed={isFilled}
+                    aria-label={`Question ${index + 1} option ${letter}`}
+                    className={cn(
+                      "w-6 h-6 rounded-full border text-[10px] font-medium transition-colors",
+                      isFilled
+                        ? "bg-gray-900 border-gray-900 text-white"
+                        : "border-gray-400 text-gray-500 hover:border-gray-700"
+                    )}
+                  >
+                    {letter}
+                  </button>
+                );
+              })}
+              <button
+                type="button"
+                onClick={() => toggleMarkForReview(index)}
+                disabled={session.completed}
+                aria-pressed={!!isMarked}
+                aria-label={`Mark question ${index + 1} for review`}
+                className={cn(
+                  "ml-1 p-1 rounded",
+                  isMarked ? "text-purple-600" : "text-gray-300 hover:text-gray-500"
+                )}
+              >
+                <Flag className="w-3 h-3" />
+              </button>
+            </div>
+          );
+        })}
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Choose another bubble to change an answer. Answers are checked only after you submit the paper.
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { Download, Play, Trash2, WifiOff, RefreshCw } from 'lucide-react';
+import {
+  OfflineQuizSession,
+  deleteOfflineSession,
+  listOfflineSessions,
+  saveOfflineSession,
+  startQuizOutboxSync
+} from '@/services/quizOfflineService';
+import { QUIZ_TYPE_CONFIG, QuizType, canDownloadQuizType, checkUserAccess, generateQuizSession } from '../../utils/quiz-session';
+
+const DOWNLOADABLE_TYPES = (Object.keys(QUIZ_TYPE_CONFIG) as QuizType[]).filter(canDownloadQuizType);
+
+interface OfflineDownloadsProps {
+  userId: string;
+}
+
+/**
+ * Lets a user download practice sessions while online and take them later
+ * without a connection. Answers given offline sync when the device reconnects.
+ */
+export const OfflineDownloads: React.FC<OfflineDownloadsProps> = ({ userId }) => {
+  const { toast } = useToast();
+  const [downloads, setDownloads] = useState<OfflineQuizSession[]>([]);
+  const [selectedType, setSelectedType] = useState<QuizType>(DOWNLOADABLE_TYPES[0]);
+  const [isDownloading, setIsDownloading] = useState(false);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+
+  const loadDownloads = useCallback(async () => {
+    const sessions = await listOfflineSessions();
+    setDownloads(sessions.filter(download => download.session.userId === userId));
+  }, [userId]);
+
+  // Also replays anything left in the outbox from an earlier offline session
+  useEffect(() => {
+    loadDownloads();
+    return startQuizOutboxSync(setPendingSyncCount);
+  }, [loadDownloads]);
+
+  const handleDownload = async () => {
+    if (isDownloading) return;
+
+    setIsDownloading(true);
+    try {
+      const hasAccess = await checkUserAccess(userId, QUIZ_TYPE_CONFIG[selectedType].tier);
+      if (!hasAccess) {
+        toast({ title: 'Upgrade required', description: 'Your plan does not include this quiz.', variant: 'destructive' });
+        return;
+      }
+
+      const session = await generateQuizSession(userId, selectedType);
+      await saveOfflineSession(session);
+      await loadDownloads();
+      toast({ title: 'Quiz downloaded', description: `${QUIZ_TYPE_CONFIG[selectedType].name} is ready to take offline.` });
+    } catch (error) {
+      console.error('Quiz download failed:', error);
+      toast({
+        title: 'Download failed',
+        description: error instanceof Error ? error.message : 'Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setIsDownloading(false);
+    }
+  };
+
+  const handleDelete = async (quizType: string) => {
+    await deleteOfflineSession(quizType);
+    await loadDownloads();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-lg">
+            <WifiOff className="w-5 h-5" />
+            Practice Offline
+          </CardTitle>
+          {pendingSyncCount > 0 && (
+            <Badge variant="secondary" className="flex items-center gap-1">
+              <RefreshCw className="w-3 h-3" />
+              {pendingSyncCount} waiting to sync
+            </Badge>
+          )}
+        </div>
+        <CardDescription>
+          Download a practice set before you travel. Mock exams need a connection for their strict timer.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Select value={selectedType} onValueChange={value => setSelectedType(value as QuizType)}>
+            <SelectTrigger className="sm:w-72">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DOWNLOADABLE_TYPES.map(quizType => (
+                <SelectItem key={quizType} value={quizType}>{QUIZ_TYPE_CONFIG[quizType].name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleDownload} disabled={isDownloading}>
+            <Download className="w-4 h-4 mr-2" />
+            {isDownloading ? 'Downloading...' : 'Download'}
+          </Button>
+        </div>
+
+        {downloads.length > 0 && (
+          <ul className="divide-y rounded-lg border">
+            {downloads.map(download => (
+              <li key={download.quizType} className="flex items-center justify-between p-3 text-sm">
+                <div>
+                  <p className="font-medium">
+                    {QUIZ_TYPE_CONFIG[download.quizType as QuizType]?.name || download.quizType}
+                  </p>
+                  <p className="text-muted-foreground">
+                    {download.session.questions.length} questions • downloaded {new Date(download.downloadedAt).toLocaleString()}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button asChild size="sm">
+                    <Link href={`/daily-quiz/session/${download.quizType}`}>
+                      <Play className="w-4 h-4 mr-1" />
+                      Start
+                    </Link>
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => handleDelete(download.quizType)}
+                    aria-label="Remove download"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { useState } from 'react';
+import Link from 'next/link';
 import { useQuizSession } from './QuizSessionContext';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
@@ -11,9 +12,12 @@ import {
   BookOpen, 
   Eye, 
   EyeOff, 
-  Image as ImageIcon 
+  Image as ImageIcon,
+  Languages
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { getReviewSourceHref, getReviewSourceLabel } from '@/lib/spaced-repetition';
+import { QUESTION_LANGUAGE_LABELS, QuestionLanguage, getLocalizedQuestion, hasHindiContent } from '@/lib/bilingual';
 
 export const QuestionCard: React.FC = () => {
   const {
@@ -27,6 +31,8 @@ export const QuestionCard: React.FC = () => {
 
   const [imageError, setImageError] = useState(false);
   const [showExplanation, setShowExplanation] = useState(false);
+  // Like the printed bilingual paper, the reader's language carries over to the next question
+  const [preferredLanguage, setPreferredLanguage] = useState<QuestionLanguage>('en');
 
   if (!currentQuestion) {
     return (
@@ -40,6 +46,12 @@ export const QuestionCard: React.FC = () => {
 
   const currentAnswer = session.answers[session.currentQuestionIndex];
   const isBookmarked = session.bookmarked[session.currentQuestionIndex];
+  const isBilingual = hasHindiContent(currentQuestion);
+  const language: QuestionLanguage = isBilingual ? preferredLanguage : 'en';
+  const localized = getLocalizedQuestion(currentQuestion, language);
+  const submissionExplanation = language === 'hi' && lastSubmissionResult?.explanationHi
+    ? lastSubmissionResult.explanationHi
+    : lastSubmissionResult?.explanation;
 
   const handleAnswerSelect = async (optionIndex: number) => {
     if (isSubmitting || session.completed) return;
@@ -82,10 +94,24 @@ export const QuestionCard: React.FC = () => {
                   {currentQuestion.year}
                 </Badge>
               )}
+              {currentQuestion.reviewSource && (
+                <Badge variant="outline" className="text-xs">
+                  {getReviewSourceHref(currentQuestion.reviewSource) ? (
+                    <Link href={getReviewSourceHref(currentQuestion.reviewSource)!} className="hover:underline">
+                      {getReviewSourceLabel(currentQuestion.reviewSource)}
+                    </Link>
+                  ) : (
+                    getReviewSourceLabel(currentQuestion.reviewSource)
+                  )}
+                </Badge>
+              )}
             </div>
             
-            <h2 className="text-lg font-medium leading-relaxed text-gray-900">
-              {currentQuestion.question}
+            <h2
+              className="text-lg font-medium leading-relaxed text-gray-900"
+              lang={language}
+            >
+              {localized.question}
             </h2>
             
             {currentQuestion.tags && currentQuestion.tags.length > 0 && (
@@ -103,18 +129,32 @@ export const QuestionCard: React.FC = () => {
             )}
           </div>
           
-          <Button 
-            variant="ghost" 
-            size="sm" 
-            onClick={toggleBookmark}
-            className={cn(
-              "ml-4 flex-shrink-0",
-              isBookmarked && "text-yellow-500 hover:text-yellow-600"
+          <div className="ml-4 flex flex-shrink-0 items-center space-x-1">
+            {isBilingual && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setPreferredLanguage(language === 'en' ? 'hi' : 'en')}
+                className="h-8 gap-1 text-xs"
+                aria-label={`Show this question in ${QUESTION_LANGUAGE_LABELS[language === 'en' ? 'hi' : 'en']}`}
+              >
+                <Languages className="w-3 h-3" />
+                {QUESTION_LANGUAGE_LABELS[language === 'en' ? 'hi' : 'en']}
+              </Button>
             )}
-            disabled={session.completed}
-          >
-            <Flag className="w-4 h-4" />
-          </Button>
+            <Button 
+              variant="ghost" 
+              size="sm" 
+              onClick={toggleBookmark}
+              className={cn(
+                "flex-shrink-0",
+                isBookmarked && "text-yellow-500 hover:text-yellow-600"
+              )}
+              disabled={session.completed}
+            >
+              <Flag className="w-4 h-4" />
+            </Button>
+          </div>
         </div>
       </CardHeader>
 
@@ -141,7 +181,7 @@ export const QuestionCard: React.FC = () => {
 
         {/* Options */}
         <div className="space-y-3">
-          {currentQuestion.options.map((option, index) => {
+          {localized.options.map((option, index) => {
             const optionLetter = String.fromCharCode(65 + index); // A, B, C, D
             const isSelected = currentAnswer === optionLetter;
             
@@ -168,7 +208,7 @@ export const QuestionCard: React.FC = () => {
                   )}>
                     {optionLetter}
                   </span>
-                  <span className="flex-1 leading-relaxed">{option}</span>
+                  <span className="flex-1 leading-relaxed" lang={language}>{option}</span>
                   {isSelected && (
                     <div className="flex-shrink-0">
                       <div className="w-2 h-2 bg-blue-500 rounded-full"></div>
@@ -214,8 +254,8 @@ export const QuestionCard: React.FC = () => {
                         <EyeOff className="w-3 h-3" />
                       </Button>
                     </div>
-                    <div className="text-sm leading-relaxed">
-                      <strong>Explanation:</strong> {lastSubmissionResult.explanation}
+                    <div className="text-sm leading-relaxed" lang={language}>
+                      <strong>{language === 'hi' ? 'व्याख्या' : 'Explanation'}:</strong> {submissionExplanation}
                     </div>
                   </div>
                 </AlertDescription>
@@ -7,6 +7,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Alert, AlertDescription } from '@/components/ui/alert';
 import { 
   Trophy, 
   Target, 
@@ -21,9 +22,14 @@ import {
   Flag,
   RotateCcw,
   Share2,
-  Download
+  Download,
+  Scale,
+  Users,
+  WifiOff
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ScoreBreakdown } from '@/lib/quiz-scoring';
+import { MockExamReport } from '@/lib/prelims-mock';
 
 interface QuizResults {
   score: number;
@@ -39,9 +45,15 @@ interface QuizResults {
     selectedAnswer: string;
     correctAnswer: string;
     timeSpent: number;
+    explanation?: string;
   }[];
+  scoring: ScoreBreakdown;
+  mockReport?: MockExamReport;
+  pendingSync?: boolean;
 }
 
+const HEATMAP_COLORS = ['bg-green-100', 'bg-green-300', 'bg-yellow-300', 'bg-orange-400', 'bg-red-500'];
+
 interface QuizResultsProps {
   results: QuizResults;
   session: QuizSessionData;
@@ -80,10 +92,26 @@ export const QuizResults: React.FC<QuizResultsProps> = ({
   };
 
   const scoreBadge = getScoreBadge(results.score);
+  const { scoring } = results;
+  const hasNegativeMarking = scoring.attemptAnalysis.breakEvenAccuracy > 0;
+  const { mockReport } = results;
+
+  const formatMarks = (marks: number): string => {
+    return Number.isInteger(marks) ? marks.toString() : marks.toFixed(2);
+  };
 
   return (
     <div className={cn("min-h-screen bg-gray-50", className)}>
       <div className="container mx-auto px-4 py-8 max-w-6xl">
+        {results.pendingSync && (
+          <Alert className="mb-6">
+            <WifiOff className="h-4 w-4" />
+            <AlertDescription>
+              Scored on this device while offline. Your answers will sync and appear in your history once you reconnect.
+            </AlertDescription>
+          </Alert>
+        )}
+
         {/* Header */}
         <Card className="mb-6">
           <CardHeader className="text-center">
@@ -126,6 +154,15 @@ export const QuizResults: React.FC<QuizResultsProps> = ({
               <div className="text-xs text-gray-500">
                 {results.correctAnswers} out of {results.totalQuestions} correct
               </div>
+              <div className="mt-4 pt-4 border-t">
+                <div className="text-2xl font-bold text-gray-900">
+                  {formatMarks(scoring.netScore)}
+                  <span className="text-sm font-normal text-gray-500"> / {formatMarks(scoring.maxScore)}</span>
+                </div>
+                <div className="text-xs text-gray-500">
+                  Net marks ({scoring.schemeName})
+                </div>
+              </div>
             </CardContent>
           </Card>
 
@@ -177,8 +214,10 @@ export const QuizResults: React.FC<QuizResultsProps> = ({
         <Card>
           <CardContent className="p-6">
             <Tabs value={activeTab} onValueChange={setActiveTab}>
-              <TabsList className="grid w-full grid-cols-4">
+              <TabsList className={cn("grid w-full", mockReport ? "grid-cols-6" : "grid-cols-5")}>
                 <TabsTrigger value="overview">Overview</TabsTrigger>
+                {mockReport && <TabsTrigger value="exam">Exam Report</TabsTrigger>}
+                <TabsTrigger value="marking">Marking</TabsTrigger>
                 <TabsTrigger value="subjects">By Subject</TabsTrigger>
                 <TabsTrigger value="detailed">Questions</TabsTrigger>
                 <TabsTrigger value="recommendations">Tips</TabsTrigger>
@@ -246,6 +285,167 @@ export const QuizResults: React.FC<QuizResultsProps> = ({
                 </div>
               </TabsContent>
 
+              {/* Mock Exam Report Tab */}
+              {mockReport && (
+                <TabsContent value="exam" className="space-y-6">
+                  <h3 className="text-lg font-semibold flex items-center mb-4">
+                    <Users className="w-5 h-5 mr-2" />
+                    {mockReport.paperName} Report
+                  </h3>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <Card>
+                      <CardContent className="p-4 text-center">
+                        <div className="text-2xl font-bold text-purple-600">
+                          {mockReport.percentile !== null ? `${formatMarks(mockReport.percentile)}` : '—'}
+                        </div>
+                        <div className="text-sm text-gray-600">Percentile</div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          {mockReport.attemptsCompared > 0
+                            ? `Against ${mockReport.attemptsCompared} other attempt${mockReport.attemptsCompared === 1 ? '' : 's'} of this paper`
+                            : 'First attempt of this paper'}
+                        </div>
+                      </CardContent>
+                    </Card>
+                    <Card>
+                      <CardContent className="p-4 text-center">
+                        <div className="text-2xl font-bold text-blue-600">
+                          {formatTime(Math.round(mockReport.averageSecondsPerQuestion))}
+                        </div>
+                        <div className="text-sm text-gray-600">Average per Question</div>
+                        <div className="text-xs text-gray-500 mt-1">
+                          Paper pace {formatTime(Math.round(session.timeLimit / results.totalQuestions))}
+                        </div>
+                      </CardContent>
+                    </Card>
+                    {mockReport.qualification && (
+                      <Card>
+                        <CardContent className="p-4 text-center">
+                          <div className={cn(
+                            "text-2xl font-bold",
+                            mockReport.qualification.qualified ? "text-green-600" : "text-red-600"
+                          )}>
+                            {mockReport.qualification.qualified ? 'Qualified' : 'Not Qualified'}
+                          </div>
+                          <div className="text-sm text-gray-600">
+                            Cut-off {formatMarks(mockReport.qualification.qualifyingMarks)} marks
+                          </div>
+                          <div className="text-xs text-gray-500 mt-1">
+                            {mockReport.qualification.margin >= 0 ? '+' : ''}{formatMarks(mockReport.qualification.margin)} from the cut-off
+                          </div>
+                        </CardContent>
+                      </Card>
+                    )}
+                  </div>
+
+                  <div>
+                    <h4 className="font-medium mb-3">Time per Question</h4>
+                    <div className="space-y-1">
+                      {mockReport.heatmap.map((row, rowIndex) => (
+                        <div key={rowIndex} className="grid grid-cols-10 gap-1">
+                          {row.map(cell => (
+                            <div
+                              key={cell.questionNumber}
+                              title={`Q${cell.questionNumber}: ${formatTime(cell.seconds)}`}
+                              className={cn(
+                                "h-8 rounded text-[10px] flex items-center justify-center",
+                                HEATMAP_COLORS[cell.intensity],
+                                cell.intensity === 4 ? "text-white" : "text-gray-700"
+                              )}
+                            >
+                              {cell.questionNumber}
+                            </div>
+                          ))}
+                        </div>
+                      ))}
+                    </div>
+                    <div className="flex items-center space-x-2 text-xs text-gray-500 mt-2">
+                      <span>Faster</span>
+                      {HEATMAP_COLORS.map(color => (
+                        <div key={color} className={cn("w-4 h-4 rounded", color)} />
+                      ))}
+                      <span>Slower than the paper&apos;s pace</span>
+                    </div>
+                  </div>
+                </TabsContent>
+              )}
+
+              {/* Marking Scheme Tab */}
+              <TabsContent value="marking" className="space-y-6">
+                <h3 className="text-lg font-semibold flex items-center mb-4">
+                  <Scale className="w-5 h-5 mr-2" />
+                  {scoring.schemeName} Marking
+                </h3>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <Card>
+                    <CardContent className="p-4 text-center">
+                      <div className="text-2xl font-bold text-green-600">+{formatMarks(scoring.rawScore)}</div>
+                      <div className="text-sm text-gray-600">Raw Score</div>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="p-4 text-center">
+                      <div className="text-2xl font-bold text-red-600">-{formatMarks(scoring.negativeMarks)}</div>
+                      <div className="text-sm text-gray-600">Negative Marks</div>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="p-4 text-center">
+                      <div className={cn("text-2xl font-bold", getScoreColor(scoring.netPercentage))}>
+                        {formatMarks(scoring.netScore)}
+                      </div>
+                      <div className="text-sm text-gray-600">Net Score</div>
+                    </CardContent>
+                  </Card>
+                  <Card>
+                    <CardContent className="p-4 text-center">
+                      <div className="text-2xl font-bold text-gray-700">
+                        {scoring.attempted}/{scoring.attempted + scoring.skipped}
+                      </div>
+                      <div className="text-sm text-gray-600">Attempted</div>
+                    </CardContent>
+                  </Card>
+                </div>
+
+                {hasNegativeMarking && (
+                  <div>
+                    <h4 className="font-medium mb-3">Attempt vs Skip</h4>
+                    <div className="space-y-2 text-sm text-gray-700">
+                      <div className="flex justify-between">
+                        <span>Break-even accuracy</span>
+                        <span className="font-medium">{Math.round(scoring.attemptAnalysis.breakEvenAccuracy * 100)}%</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Expected value of a blind guess</span>
+                        <span className="font-medium">{formatMarks(scoring.attemptAnalysis.guessExpectedValue.blind)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Guess after eliminating one option</span>
+                        <span className="font-medium">+{formatMarks(scoring.attemptAnalysis.guessExpectedValue.oneEliminated)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Guess after eliminating two options</span>
+                        <span className="font-medium">+{formatMarks(scoring.attemptAnalysis.guessExpectedValue.twoEliminated)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Marks lost to wrong answers</span>
+                        <span className="font-medium text-red-600">{formatMarks(scoring.attemptAnalysis.marksLostToPenalty)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                        <span>Potential from skipped questions</span>
+                        <span className="font-medium text-green-600">{formatMarks(scoring.attemptAnalysis.skippedOpportunity)}</span>
+                      </div>
+                    </div>
+                    <p className="text-xs text-gray-500 mt-2">
+                      Guess values are per question, as a fraction of that question&apos;s marks.
+                    </p>
+                  </div>
+                )}
+
+                <Alert>
+                  <AlertDescription>{scoring.attemptAnalysis.recommendation}</AlertDescription>
+                </Alert>
+              </TabsContent>
+
               {/* Subject-wise Results Tab */}
               <TabsContent value="subjects" className="space-y-4">
                 <h3 className="text-lg font-semibold flex items-center mb-4">
@@ -255,6 +455,7 @@ export const QuizResults: React.FC<QuizResultsProps> = ({
                 <div className="space-y-4">
                   {Object.entries(results.subjectWiseResults).map(([subject, result]) => {
                     const percentage = Math.round((result.correct / result.total) * 100);
+                    const subjectScore = scoring.subjectWise[subject];
                     return (
                       <Card key={subject}>
                         <CardContent className="p-4">
@@ -270,6 +471,19 @@ export const QuizResults: React.FC<QuizResultsProps> = ({
                               {percentage}%
                             </span>
                           </div>
+                          {subjectScore && (
+                            <div className="flex justify-between text-xs text-gray-600 mt-2">
+                              <span>
+                                {subjectScore.incorrect} wrong · {subjectScore.skipped} skipped
+                              </span>
+                              <span>
+                                Net {formatMarks(subjectScore.netScore)} / {formatMarks(subjectScore.maxScore)}
+                                {subjectScore.negativeMarks > 0 && (
+                                  <span className="text-red-600"> (-{formatMarks(subjectScore.negativeMarks)})</span>
+                                )}
+                              </span>
+                            </div>
+                          )}
                         </CardContent>
                       </Card>
                     );
@@ -285,9 +499,13 @@ export const QuizResults: React.FC<QuizResultsProps> = ({
                 </h3>
                 <div className="space-y-3">
                   {session.questions.map((question, index) => {
-                    const isCorrect = session.answers[index] === question.correctAnswer;
+                    // Exam sessions are served without answers, so take them from the graded results
+                    const graded = results.detailedResults[index];
+                    const correctAnswer = graded?.correctAnswer || question.correctAnswer;
+                    const isCorrect = session.answers[index] === correctAnswer;
                     const isBookmarked = session.bookmarked[index];
                     const userAnswer = session.answers[index];
+                    const explanation = graded?.explanation || question.explanation;
                     
                     return (
                       <Card key={question.id}>
@@ -314,9 +532,12 @@ export const QuizResults: React.FC<QuizResultsProps> = ({
                           <div className="text-xs text-gray-600 space-y-1">
                             <div>Your answer: <span className="font-medium">{userAnswer || 'Not answered'}</span></div>
                             {!isCorrect && (
-                              <div>Correct answer: <span className="font-medium text-green-600">{question.correctAnswer}</span></div>
+                              <div>Correct answer: <span className="font-medium text-green-600">{correctAnswer}</span></div>
                             )}
                           </div>
+                          {session.examMode && explanation && (
+                            <p className="text-xs text-gray-600 mt-2 border-t pt-2">{explanation}</p>
+                          )}
                         </CardContent>
                       </Card>
                     );
@@ -1,7 +1,15 @@
 'use client';
 
-import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect, useRef } from 'react';
 import { QuizSessionData, QuizQuestion } from '../../session/[type]/page';
+import { ScoreBreakdown, getScoringScheme, scoreQuiz } from '@/lib/quiz-scoring';
+import type { MockExamReport } from '@/lib/prelims-mock';
+import { OUTBOX_ENDPOINTS, OutboxKind, buildProvisionalResults, classifyReplayResponse, getAnswerFeedback } from '@/lib/quiz-offline';
+import { queueQuizRequest, startQuizOutboxSync } from '@/services/quizOfflineService';
+import { analytics } from '@/lib/analytics';
+
+// How often a mock exam completed offline checks for the connection again
+const RECONNECT_RETRY_MS = 15000;
 
 interface QuizResults {
   score: number;
@@ -16,8 +24,12 @@ interface QuizResults {
     isCorrect: boolean;
     selectedAnswer: string;
     correctAnswer: string;
+    explanation?: string;
     timeSpent: number;
   }[];
+  scoring: ScoreBreakdown;
+  mockReport?: MockExamReport;
+  pendingSync?: boolean; // scored on the device while offline
 }
 
 interface QuizSessionContextType {
@@ -29,17 +41,20 @@ interface QuizSessionContextType {
   progress: number;
   
   // Actions
-  selectAnswer: (answer: string) => Promise<void>;
+  selectAnswer: (answer: string, questionIndex?: number) => Promise<void>;
   goToQuestion: (index: number) => void;
   nextQuestion: () => void;
   previousQuestion: () => void;
   toggleBookmark: () => void;
+  toggleMarkForReview: (questionIndex?: number) => void;
   completeQuiz: () => Promise<QuizResults | null>;
   saveProgress: () => Promise<void>;
   
   // State
   isSubmitting: boolean;
-  lastSubmissionResult: { isCorrect: boolean; explanation: string } | null;
+  lastSubmissionResult: { isCorrect: boolean; explanation: string; explanationHi?: string } | null;
+  isOnline: boolean;
+  pendingSyncCount: number; // requests waiting in the offline outbox
 }
 
 const QuizSessionContext = createContext<QuizSessionContextType | null>(null);
@@ -52,6 +67,38 @@ export const useQuizSession = () => {
   return context;
 };
 
+/**
+ * Sends a quiz request, or returns null when it did not reach the server
+ * (offline, network failure or a server error) so the caller can queue it.
+ */
+async function sendQuizRequest(kind: OutboxKind, body: Record<string, unknown>): Promise<Response | null> {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return null;
+
+  try {
+    const response = await fetch(OUTBOX_ENDPOINTS[kind], {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    return !response.ok && classifyReplayResponse(response.status) === 'retry' ? null : response;
+  } catch (error) {
+    console.warn(`Quiz ${kind} request failed, keeping it for later:`, error);
+    return null;
+  }
+}
+
+function waitForConnection(): Promise<void> {
+  return new Promise(resolve => {
+    const done = () => {
+      window.removeEventListener('online', done);
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(done, RECONNECT_RETRY_MS);
+    window.addEventListener('online', done);
+  });
+}
+
 interface QuizSessionProviderProps {
   session: QuizSessionData;
   onSessionUpdate: (session: QuizSessionData) => void;
@@ -66,7 +113,36 @@ export const QuizSessionProvider: React.FC<QuizSessionProviderProps> = ({
   const [session, setSession] = useState(initialSession);
   const [timeRemaining, setTimeRemaining] = useState(initialSession.timeLimit);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [lastSubmissionResult, setLastSubmissionResult] = useState<{ isCorrect: boolean; explanation: string } | null>(null);
+  const [lastSubmissionResult, setLastSubmissionResult] = useState<{ isCorrect: boolean; explanation: string; explanationHi?: string } | null>(null);
+  const [isOnline, setIsOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+  const [pendingSyncCount, setPendingSyncCount] = useState(0);
+
+  // Client time each answer was chosen, so the server can settle offline replays per question
+  const answerTimestampsRef = useRef<number[]>(new Array(initialSession.questions.length).fill(0));
+
+  // Seconds spent on each question, for the mock exam time heatmap
+  const questionTimesRef = useRef<number[]>(new Array(initialSession.questions.length).fill(0));
+  const questionStartRef = useRef<number>(Date.now());
+
+  const recordQuestionTime = useCallback((questionIndex: number) => {
+    const now = Date.now();
+    questionTimesRef.current[questionIndex] += (now - questionStartRef.current) / 1000;
+    questionStartRef.current = now;
+  }, []);
+
+  // Track connectivity and replay queued requests whenever the connection returns
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    const stopSync = startQuizOutboxSync(setPendingSyncCount);
+
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+      stopSync();
+    };
+  }, []);
 
   // Update parent when session changes
   useEffect(() => {
@@ -86,7 +162,8 @@ export const QuizSessionProvider: React.FC<QuizSessionProviderProps> = ({
   const progress = ((session.currentQuestionIndex + 1) / session.questions.length) * 100;
 
   // Select answer for current question
-  const selectAnswer = useCallback(async (answer: string) => {
+  // Answers the current question, or any question when filling the OMR sheet directly
+  const selectAnswer = useCallback(async (answer: string, questionIndex: number = session.currentQuestionIndex) => {
     if (isSubmitting || session.completed) return;
 
     setIsSubmitting(true);
@@ -95,29 +172,38 @@ export const QuizSessionProvider: React.FC<QuizSessionProviderProps> = ({
     try {
       // Update local state immediately
       const newAnswers = [...session.answers];
-      newAnswers[session.currentQuestionIndex] = answer;
+      newAnswers[questionIndex] = answer;
       
       const updatedSession = { ...session, answers: newAnswers };
       setSession(updatedSession);
 
-      // Submit to backend
-      const response = await fetch('/api/daily-quiz/submit', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sessionId: session.id,
-          questionIndex: session.currentQuestionIndex,
-          selectedAnswer: answer,
-          timeSpent: session.timeLimit - timeRemaining
-        })
-      });
+      // Submit to backend, or keep it in the outbox until the connection is back
+      answerTimestampsRef.current[questionIndex] = Date.now();
+      const body = {
+        sessionId: session.id,
+        questionIndex,
+        selectedAnswer: answer,
+        timeSpent: session.timeLimit - timeRemaining,
+        clientTimestamp: answerTimestampsRef.current[questionIndex]
+      };
+      const response = await sendQuizRequest('answer', body);
 
-      if (response.ok) {
+      if (!response) {
+        await queueQuizRequest(session.id, 'answer', body);
+        // Practice questions carry their answers, so feedback does not have to wait for the server
+        if (!session.examMode) {
+          setLastSubmissionResult(getAnswerFeedback(session.questions[questionIndex], answer));
+        }
+      } else if (response.ok) {
         const result = await response.json();
-        setLastSubmissionResult({
-          isCorrect: result.isCorrect,
-          explanation: result.explanation
-        });
+        // Exam-mode submissions are only acknowledged; correctness comes with the results
+        if (result.isCorrect !== undefined) {
+          setLastSubmissionResult({
+            isCorrect: result.isCorrect,
+            explanation: result.explanation,
+            explanationHi: result.explanationHi
+          });
+        }
       }
     } catch (error) {
       console.error('Failed to submit answer:', error);
@@ -132,12 +218,13 @@ export const QuizSessionProvider: React.FC<QuizSessionProviderProps> = ({
   const goToQuestion = useCallback((index: number) => {
     if (index < 0 || index >= session.questions.length || session.completed) return;
     
+    recordQuestionTime(session.currentQuestionIndex);
     setSession(prev => ({ 
       ...prev, 
       currentQuestionIndex: index 
     }));
     setLastSubmissionResult(null);
-  }, [session.questions.length, session.completed]);
+  }, [session.questions.length, session.completed, session.currentQuestionIndex, recordQuestionTime]);
 
   const nextQuestion = useCallback(() => {
     goToQuestion(session.currentQuestionIndex + 1);
@@ -157,20 +244,32 @@ export const QuizSessionProvider: React.FC<QuizSessionProviderProps> = ({
     setSession(prev => ({ ...prev, bookmarked: newBookmarked }));
   }, [session.completed, session.currentQuestionIndex, session.bookmarked]);
 
-  // Save progress to backend
+  // Mock exams keep a separate mark-for-review flag, like the OMR sheet's review column
+  const toggleMarkForReview = useCallback((questionIndex: number = session.currentQuestionIndex) => {
+    if (session.completed) return;
+
+    setSession(prev => {
+      const marked = prev.markedForReview ? [...prev.markedForReview] : new Array(prev.questions.length).fill(false);
+      marked[questionIndex] = !marked[questionIndex];
+      return { ...prev, markedForReview: marked };
+    });
+  }, [session.completed, session.currentQuestionIndex]);
+
+  // Save progress to backend; offline saves are queued and only the latest is replayed
   const saveProgress = useCallback(async () => {
     try {
-      await fetch('/api/daily-quiz/save-progress', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sessionId: session.id,
-          currentQuestionIndex: session.currentQuestionIndex,
-          answers: session.answers,
-          bookmarked: session.bookmarked,
-          timeRemaining
-        })
-      });
+      const body = {
+        sessionId: session.id,
+        currentQuestionIndex: session.currentQuestionIndex,
+        answers: session.answers,
+        bookmarked: session.bookmarked,
+        timeRemaining,
+        answerTimestamps: answerTimestampsRef.current,
+        clientTimestamp: Date.now()
+      };
+      if (!await sendQuizRequest('progress', body)) {
+        await queueQuizRequest(session.id, 'progress', body);
+      }
     } catch (error) {
       console.error('Failed to save progress:', error);
     }
@@ -182,21 +281,43 @@ export const QuizSessionProvider: React.FC<QuizSessionProviderProps> = ({
 
     try {
       // Mark session as completed
+      recordQuestionTime(session.currentQuestionIndex);
       setSession(prev => ({ ...prev, completed: true }));
 
-      // Submit completion to backend
-      const response = await fetch('/api/daily-quiz/complete', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ 
-          sessionId: session.id,
-          finalAnswers: session.answers,
-          timeTaken: session.timeLimit - timeRemaining
-        })
-      });
+      const timeTaken = session.timeLimit - timeRemaining;
+      const body = {
+        sessionId: session.id,
+        finalAnswers: session.answers,
+        finalBookmarked: session.bookmarked,
+        answerTimestamps: answerTimestampsRef.current,
+        ...(session.examMode && { questionTimes: questionTimesRef.current.map(Math.round) }),
+        timeTaken
+      };
+
+      let response = await sendQuizRequest('complete', body);
+      if (!response && !session.examMode) {
+        await queueQuizRequest(session.id, 'complete', body);
+        return buildProvisionalResults(session, questionTimesRef.current, timeTaken);
+      }
+      // Mock exams are only scored on the server, so the paper is held until the connection returns
+      while (!response) {
+        await waitForConnection();
+        response = await sendQuizRequest('complete', body);
+      }
 
       if (response.ok) {
         const results: QuizResults = await response.json();
+        // Results saved before the scoring engine existed carry no breakdown; score them locally
+        if (!results.scoring) {
+          results.scoring = scoreQuiz(session.questions, session.answers, getScoringScheme(session.scoringScheme));
+        }
+        analytics.trackQuizSession({
+          quizType: session.quizType,
+          questionsCount: results.totalQuestions,
+          score: results.score,
+          duration: timeTaken,
+          accuracy: results.accuracy
+        });
         return results;
       } else {
         throw new Error('Failed to complete quiz');
@@ -207,7 +328,7 @@ export const QuizSessionProvider: React.FC<QuizSessionProviderProps> = ({
       setSession(prev => ({ ...prev, completed: false }));
       return null;
     }
-  }, [session, timeRemaining]);
+  }, [session, timeRemaining, recordQuestionTime]);
 
   const contextValue: QuizSessionContextType = {
     session,
@@ -221,10 +342,13 @@ export const QuizSessionProvider: React.FC<QuizSessionProviderProps> = ({
     nextQuestion,
     previousQuestion,
     toggleBookmark,
+    toggleMarkForReview,
     completeQuiz,
     saveProgress,
     isSubmitting,
-    lastSubmissionResult
+    lastSubmissionResult,
+    isOnline,
+    pendingSyncCount
   };
 
   return (
@@ -8,6 +8,7 @@ import { QuizTimer } from './QuizTimer';
 import { ProgressBar } from './ProgressBar';
 import { QuizNavigation } from './QuizNavigation';
 import { QuestionGrid } from './QuestionGrid';
+import { OMRAnswerSheet } from './OMRAnswerSheet';
 import { QuizResults } from './QuizResults';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -20,8 +21,11 @@ import {
   BookOpen,
   Grid3X3,
   Eye,
-  EyeOff 
+  EyeOff,
+  WifiOff,
+  RefreshCw
 } from 'lucide-react';
+import { cn } from '@/lib/utils';
 
 interface QuizSessionLayoutProps {
   onComplete: () => void;
@@ -43,7 +47,9 @@ export const QuizSessionLayout: React.FC<QuizSessionLayoutProps> = ({
     answeredCount,
     progress,
     completeQuiz,
-    lastSubmissionResult
+    lastSubmissionResult,
+    isOnline,
+    pendingSyncCount
   } = useQuizSession();
 
   // UI State
@@ -51,6 +57,7 @@ export const QuizSessionLayout: React.FC<QuizSessionLayoutProps> = ({
   const [showNavigationGrid, setShowNavigationGrid] = useState(false);
   const [quizResults, setQuizResults] = useState(null);
   const [isCompleting, setIsCompleting] = useState(false);
+  const examMode = !!session.examMode;
 
   // Timer effect
   useEffect(() => {
@@ -59,6 +66,18 @@ export const QuizSessionLayout: React.FC<QuizSessionLayoutProps> = ({
     }
   }, [timeRemaining]);
 
+  // Strict exam conditions: warn before the paper is abandoned mid-way
+  useEffect(() => {
+    if (!examMode || quizResults) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = '';
+    };
+    window.addEventListener('beforeunload', handleBeforeUnload);
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload);
+  }, [examMode, quizResults]);
+
   // Show explanation when answer is submitted
   useEffect(() => {
     if (lastSubmissionResult) {
@@ -109,6 +128,8 @@ export const QuizSessionLayout: React.FC<QuizSessionLayoutProps> = ({
       'current-affairs-basic': 'Current Affairs Basics',
       'current-affairs-advanced': 'Advanced Current Affairs',
       'mock-prelims': 'Mock Prelims Test',
+      'mock-prelims-csat': 'Mock Prelims CSAT (Paper II)',
+      'review-due': 'Review Due Today',
       'adaptive': 'Adaptive Practice',
       'topper-bank': 'Topper Question Bank',
       'final-revision': 'Final Revision Series'
@@ -136,15 +157,17 @@ export const QuizSessionLayout: React.FC<QuizSessionLayoutProps> = ({
           <div className="flex items-center justify-between">
             {/* Left: Back button and title */}
             <div className="flex items-center space-x-4">
-              <Button 
-                variant="ghost" 
-                size="sm" 
-                onClick={() => router.push('/daily-quiz')}
-                className="flex items-center"
-              >
-                <ChevronLeft className="w-4 h-4" />
-                <span className="ml-1 hidden sm:inline">Back</span>
-              </Button>
+              {!examMode && (
+                <Button 
+                  variant="ghost" 
+                  size="sm" 
+                  onClick={() => router.push('/daily-quiz')}
+                  className="flex items-center"
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                  <span className="ml-1 hidden sm:inline">Back</span>
+                </Button>
+              )}
               <div>
                 <h1 className="font-semibold text-lg">{getQuizTitle()}</h1>
                 <p className="text-sm text-gray-600">
@@ -162,6 +185,17 @@ export const QuizSessionLayout: React.FC<QuizSessionLayoutProps> = ({
               <Badge variant="outline" className="hidden md:inline-flex">
                 {answeredCount}/{session.questions.length} answered
               </Badge>
+              {!isOnline ? (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  <WifiOff className="w-3 h-3" />
+                  <span className="hidden sm:inline">Offline</span>
+                </Badge>
+              ) : pendingSyncCount > 0 && (
+                <Badge variant="secondary" className="flex items-center gap-1">
+                  <RefreshCw className="w-3 h-3 animate-spin" />
+                  <span className="hidden sm:inline">Syncing {pendingSyncCount}</span>
+                </Badge>
+              )}
               <Button
                 variant="ghost"
                 size="sm"
@@ -190,11 +224,21 @@ export const QuizSessionLayout: React.FC<QuizSessionLayoutProps> = ({
               <QuizTimer timeRemaining={timeRemaining} />
             </div>
 
+            {/* A mock exam submitted offline is held until it reaches the server */}
+            {examMode && isCompleting && !isOnline && (
+              <Alert>
+                <WifiOff className="h-4 w-4" />
+                <AlertDescription>
+                  You are offline. Your answer sheet is saved and will be submitted as soon as you reconnect.
+                </AlertDescription>
+              </Alert>
+            )}
+
             {/* Question Card */}
             <QuestionCard />
 
-            {/* Explanation Alert */}
-            {showExplanation && lastSubmissionResult && (
+            {/* Explanation Alert (never shown in exam mode, where results come after submit) */}
+            {!examMode && showExplanation && lastSubmissionResult && (
               <Alert className="border-blue-200 bg-blue-50">
                 <BookOpen className="h-4 w-4" />
                 <AlertDescription>
@@ -221,7 +265,7 @@ export const QuizSessionLayout: React.FC<QuizSessionLayoutProps> = ({
             )}
 
             {/* Show explanation button when answer selected but hidden */}
-            {!showExplanation && lastSubmissionResult && (
+            {!examMode && !showExplanation && lastSubmissionResult && (
               <div className="text-center">
                 <Button
                   variant="outline"
@@ -246,7 +290,7 @@ export const QuizSessionLayout: React.FC<QuizSessionLayoutProps> = ({
             <Card className="sticky top-24">
               <CardHeader className="pb-3">
                 <div className="flex items-center justify-between">
-                  <h3 className="font-medium text-sm">Navigation</h3>
+                  <h3 className="font-medium text-sm">{examMode ? 'OMR Answer Sheet' : 'Navigation'}</h3>
                   <Button
                     variant="ghost"
                     size="sm"
@@ -258,10 +302,10 @@ export const QuizSessionLayout: React.FC<QuizSessionLayoutProps> = ({
                 </div>
               </CardHeader>
               <CardContent className="pt-0">
-                <QuestionGrid />
+                {examMode ? <OMRAnswerSheet /> : <QuestionGrid />}
                 
                 {/* Legend */}
-                <div className="mt-4 space-y-2 text-xs text-gray-600">
+                <div className={cn("mt-4 space-y-2 text-xs text-gray-600", examMode && "hidden")}>
                   <div className="flex items-center space-x-2">
                     <div className="w-3 h-3 bg-green-100 border border-green-300 rounded"></div>
                     <span>Answered</span>
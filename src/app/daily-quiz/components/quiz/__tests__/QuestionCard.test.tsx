@@ -32,6 +32,7 @@ const mockSession = {
   answers: [null],
   bookmarked: [false],
   completed: false,
+  scoringScheme: 'practice' as const,
   metadata: {
     difficulty: 'easy',
     subject: 'General Studies',
@@ -45,8 +46,11 @@ const defaultMockContext = {
   session: mockSession,
   selectAnswer: jest.fn(),
   toggleBookmark: jest.fn(),
+  toggleMarkForReview: jest.fn(),
   isSubmitting: false,
   lastSubmissionResult: null,
+  isOnline: true,
+  pendingSyncCount: 0,
   timeRemaining: 900,
   isLastQuestion: true,
   answeredCount: 0,
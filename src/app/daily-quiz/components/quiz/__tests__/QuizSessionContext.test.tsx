@@ -38,6 +38,7 @@ const mockSession = {
   answers: [null, null],
   bookmarked: [false, false],
   completed: false,
+  scoringScheme: 'practice' as const,
   metadata: {
     difficulty: 'easy',
     subject: 'General Studies',
@@ -148,15 +149,16 @@ describe('QuizSessionContext', () => {
         fireEvent.click(selectButton);
       });
 
-      expect(mockFetch).toHaveBeenCalledWith('/api/daily-quiz/submit', {
+      expect(mockFetch).toHaveBeenCalledWith('/api/daily-quiz/submit', expect.objectContaining({
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          sessionId: 'test-session-1',
-          questionIndex: 0,
-          selectedAnswer: 'A',
-          timeSpent: 0
-        })
+        headers: { 'Content-Type': 'application/json' }
+      }));
+      expect(JSON.parse(mockFetch.mock.calls[0][1]!.body as string)).toEqual({
+        sessionId: 'test-session-1',
+        questionIndex: 0,
+        selectedAnswer: 'A',
+        timeSpent: 0,
+        clientTimestamp: expect.any(Number)
       });
 
       await waitFor(() => {
@@ -179,6 +181,23 @@ describe('QuizSessionContext', () => {
       expect(screen.getByTestId('is-submitting')).toHaveTextContent('false');
     });
 
+    it('should show local feedback without calling the server while offline', async () => {
+      const onLineSpy = jest.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+      renderWithProvider();
+
+      await act(async () => {
+        fireEvent.click(screen.getByTestId('select-answer-a'));
+      });
+
+      expect(mockFetch).not.toHaveBeenCalledWith('/api/daily-quiz/submit', expect.anything());
+      await waitFor(() => {
+        expect(screen.getByTestId('submission-result')).toHaveTextContent('Correct');
+      });
+
+      onLineSpy.mockRestore();
+    });
+
     it('should prevent multiple submissions while submitting', async () => {
       mockFetch.mockImplementation(() => new Promise(resolve => setTimeout(resolve, 1000)));
 
@@ -296,6 +315,7 @@ describe('QuizSessionContext', () => {
         body: JSON.stringify({ 
           sessionId: 'test-session-1',
           finalAnswers: [null, null],
+          finalBookmarked: [false, false],
           timeTaken: 900
         })
       });
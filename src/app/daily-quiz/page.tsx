@@ -8,8 +8,9 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { ArrowLeft, Clock, Lock, Star, Trophy, Target, TrendingUp, Users, Calendar, CheckCircle, Play, Zap } from 'lucide-react';
+import { ArrowLeft, Clock, Lock, Star, Trophy, Target, TrendingUp, Users, Calendar, CheckCircle, Play, Zap, RotateCcw } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { OfflineDownloads } from './components/quiz/OfflineDownloads';
 
 // Stage-based quiz structure
 const STAGE_CONFIGS = {
@@ -66,6 +67,17 @@ const QUIZ_CATEGORIES = [
     href: '/daily-quiz/free-daily',
     priority: 1
   },
+  {
+    id: 'review-due',
+    title: 'Review Due Today',
+    description: 'Revisit questions you got wrong or bookmarked, spaced out so they stick',
+    icon: <RotateCcw />,
+    stage: 'FOUNDATION',
+    isFree: true,
+    features: ['Spaced repetition', 'Wrong and bookmarked questions', 'Links back to the source'],
+    href: '/daily-quiz/session/review-due',
+    priority: 1
+  },
   
   // FOUNDATION TIER (₹99/month)
   {
@@ -134,8 +146,19 @@ const QUIZ_CATEGORIES = [
     icon: <Trophy />,
     stage: 'TEST',
     tier: 'test',
-    features: ['100 questions', '2-hour timer', 'Detailed analysis', 'All India rank'],
-    href: '/daily-quiz/mock-prelims',
+    features: ['100 questions', 'OMR answer sheet', 'Strict 2-hour timer', 'Rank percentile'],
+    href: '/daily-quiz/session/mock-prelims',
+    priority: 7
+  },
+  {
+    id: 'mock-prelims-csat',
+    title: 'Mock CSAT (Paper II)',
+    description: 'Qualifying CSAT paper under exam conditions with the 33% cut-off',
+    icon: <Trophy />,
+    stage: 'TEST',
+    tier: 'test',
+    features: ['80 questions', 'OMR answer sheet', 'Strict 2-hour timer', 'Qualifying check'],
+    href: '/daily-quiz/session/mock-prelims-csat',
     priority: 7
   },
   {
@@ -433,6 +456,13 @@ export default function DailyQuizRevamped() {
           ))}
         </div>
 
+        {/* Offline practice downloads */}
+        {user && (
+          <div className="mt-12">
+            <OfflineDownloads userId={user.uid} />
+          </div>
+        )}
+
         {/* Upgrade CTA for free users */}
         {userProgress.tier === 'free' && (
           <div className="mt-12 text-center">
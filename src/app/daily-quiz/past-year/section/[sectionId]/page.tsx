@@ -35,26 +35,8 @@ export default function SyllabusDetailPage() {
       try {
         setLoading(true);
 
-        // First, get the section info
-        const allSections = await PastYearQuestionService.getAvailableSyllabusSections();
-        let foundSection = null;
-
-        // Look for the section in main sections and their children
-        for (const section of allSections) {
-          if (section.id === sectionId) {
-            foundSection = { id: section.id, name: section.name };
-            break;
-          }
-          
-          // Check children
-          if (section.children) {
-            const child = section.children.find(child => child.id === sectionId);
-            if (child) {
-              foundSection = { id: child.id, name: child.name };
-              break;
-            }
-          }
-        }
+        // First, get the section info (old links may still use a retired section id)
+        const foundSection = PastYearQuestionService.getSyllabusSection(sectionId);
 
         if (!foundSection) {
           throw new Error('Syllabus section not found');
@@ -63,7 +45,7 @@ export default function SyllabusDetailPage() {
         setSectionInfo(foundSection);
         
         // Then get the questions for this section
-        const fetchedQuestionSet = await PastYearQuestionService.fetchQuestionsBySyllabusSection(sectionId);
+        const fetchedQuestionSet = await PastYearQuestionService.fetchQuestionsBySyllabusSection(foundSection.id);
         setQuestionSet(fetchedQuestionSet);
         setError(null);
       } catch (err) {
@@ -7,6 +7,10 @@ import { QuizSessionProvider } from '../../components/quiz/QuizSessionContext';
 import { QuizSessionLayout } from '../../components/quiz/QuizSessionLayout';
 import { QuizLoading } from '../../components/quiz/QuizLoading';
 import { QuizError } from '../../components/quiz/QuizError';
+import type { ScoringSchemeId } from '@/lib/quiz-scoring';
+import type { ReviewSource } from '@/lib/spaced-repetition';
+import { QUIZ_TYPE_CONFIG, QuizType, checkUserAccess, generateQuizSession } from '../../utils/quiz-session';
+import { deleteOfflineSession, getOfflineSession } from '@/services/quizOfflineService';
 
 // Types
 export interface QuizQuestion {
@@ -21,6 +25,10 @@ export interface QuizQuestion {
   source?: string;
   year?: number;
   tags?: string[];
+  reviewSource?: ReviewSource; // set for questions served from the review queue
+  questionHi?: string; // Hindi version, for the bilingual language toggle
+  optionsHi?: string[];
+  explanationHi?: string;
 }
 
 export interface QuizSessionData {
@@ -34,6 +42,10 @@ export interface QuizSessionData {
   answers: (string | null)[];
   bookmarked: boolean[];
   completed: boolean;
+  scoringScheme: ScoringSchemeId; // marking scheme pinned when the session was generated
+  examMode?: boolean; // full-length mock: strict timer, answers hidden until submit
+  paperId?: string; // mock paper edition shared by everyone sitting it this week
+  markedForReview?: boolean[];
   metadata: {
     difficulty: string;
     subject: string;
@@ -44,89 +56,6 @@ export interface QuizSessionData {
 
 type SessionState = 'loading' | 'active' | 'completed' | 'error' | 'timeUp' | 'unauthorized';
 
-const QUIZ_TYPE_CONFIG = {
-  'free-daily': {
-    name: 'Daily Free Questions',
-    timeLimit: 15 * 60, // 15 minutes
-    maxQuestions: 5,
-    difficulty: 'easy',
-    subject: 'General Studies',
-    tier: 'free'
-  },
-  'ncert-foundation': {
-    name: 'NCERT Foundation',
-    timeLimit: 20 * 60, // 20 minutes
-    maxQuestions: 10,
-    difficulty: 'easy',
-    subject: 'General Studies',
-    tier: 'foundation'
-  },
-  'past-year': {
-    name: 'Previous Year Questions',
-    timeLimit: 25 * 60, // 25 minutes
-    maxQuestions: 15,
-    difficulty: 'medium',
-    subject: 'General Studies',
-    tier: 'practice'
-  },
-  'subject-wise': {
-    name: 'Subject-wise Practice',
-    timeLimit: 30 * 60, // 30 minutes
-    maxQuestions: 20,
-    difficulty: 'medium',
-    subject: 'General Studies',
-    tier: 'practice'
-  },
-  'current-affairs-basic': {
-    name: 'Current Affairs Basics',
-    timeLimit: 20 * 60, // 20 minutes
-    maxQuestions: 10,
-    difficulty: 'easy',
-    subject: 'Current Affairs',
-    tier: 'foundation'
-  },
-  'current-affairs-advanced': {
-    name: 'Advanced Current Affairs',
-    timeLimit: 30 * 60, // 30 minutes
-    maxQuestions: 15,
-    difficulty: 'medium',
-    subject: 'Current Affairs',
-    tier: 'practice'
-  },
-  'mock-prelims': {
-    name: 'Mock Prelims Test',
-    timeLimit: 120 * 60, // 2 hours
-    maxQuestions: 100,
-    difficulty: 'hard',
-    subject: 'General Studies',
-    tier: 'test'
-  },
-  'adaptive': {
-    name: 'Adaptive Practice',
-    timeLimit: 45 * 60, // 45 minutes
-    maxQuestions: 25,
-    difficulty: 'medium',
-    subject: 'General Studies',
-    tier: 'test'
-  },
-  'topper-bank': {
-    name: 'Topper Question Bank',
-    timeLimit: 60 * 60, // 60 minutes
-    maxQuestions: 40,
-    difficulty: 'hard',
-    subject: 'General Studies',
-    tier: 'advanced'
-  },
-  'final-revision': {
-    name: 'Final Revision Series',
-    timeLimit: 30 * 60, // 30 minutes
-    maxQuestions: 20,
-    difficulty: 'medium',
-    subject: 'General Studies',
-    tier: 'advanced'
-  }
-};
-
 export default function QuizSessionPage() {
   const params = useParams();
   const router = useRouter();
@@ -139,7 +68,7 @@ export default function QuizSessionPage() {
   const [error, setError] = useState<string | null>(null);
 
   // Get quiz configuration
-  const quizConfig = QUIZ_TYPE_CONFIG[quizType as keyof typeof QUIZ_TYPE_CONFIG];
+  const quizConfig = QUIZ_TYPE_CONFIG[quizType as QuizType];
 
   // Initialize Quiz Session
   const initializeQuiz = useCallback(async () => {
@@ -159,6 +88,19 @@ export default function QuizSessionPage() {
       setSessionState('loading');
       setError(null);
 
+      // A session downloaded for offline use is started in place of a new one
+      const offlineSession = await getOfflineSession(quizType);
+      if (offlineSession && offlineSession.session.userId === user.uid) {
+        await deleteOfflineSession(quizType);
+        setSession({ ...offlineSession.session, startTime: new Date() });
+        setSessionState('active');
+        return;
+      }
+
+      if (typeof navigator !== 'undefined' && !navigator.onLine) {
+        throw new Error('You are offline. Download this quiz from the Question Bank while online to take it offline.');
+      }
+
       // Check user subscription tier access
       const hasAccess = await checkUserAccess(user.uid, quizConfig.tier);
       if (!hasAccess) {
@@ -167,43 +109,7 @@ export default function QuizSessionPage() {
       }
 
       // Generate quiz session
-      const response = await fetch('/api/daily-quiz/generate', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userId: user.uid,
-          quizType,
-          difficulty: quizConfig.difficulty,
-          subject: quizConfig.subject,
-          maxQuestions: quizConfig.maxQuestions
-        })
-      });
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || 'Failed to generate quiz');
-      }
-
-      const data = await response.json();
-      
-      const newSession: QuizSessionData = {
-        id: data.sessionId,
-        userId: user.uid,
-        quizType,
-        questions: data.questions,
-        timeLimit: quizConfig.timeLimit,
-        startTime: new Date(),
-        currentQuestionIndex: 0,
-        answers: new Array(data.questions.length).fill(null),
-        bookmarked: new Array(data.questions.length).fill(false),
-        completed: false,
-        metadata: {
-          difficulty: quizConfig.difficulty,
-          subject: quizConfig.subject,
-          tier: quizConfig.tier,
-          maxQuestions: quizConfig.maxQuestions
-        }
-      };
+      const newSession = await generateQuizSession(user.uid, quizType as QuizType);
 
       setSession(newSession);
       setSessionState('active');
@@ -215,27 +121,6 @@ export default function QuizSessionPage() {
     }
   }, [user, quizType, quizConfig]);
 
-  // Check user access to quiz tier
-  const checkUserAccess = async (userId: string, requiredTier: string): Promise<boolean> => {
-    try {
-      const response = await fetch('/api/subscription/check-access', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, requiredTier })
-      });
-      
-      if (response.ok) {
-        const { hasAccess } = await response.json();
-        return hasAccess;
-      }
-      
-      return false;
-    } catch (error) {
-      console.error('Access check failed:', error);
-      return false;
-    }
-  };
-
   // Initialize quiz on mount
   useEffect(() => {
     if (user) {
@@ -0,0 +1,180 @@
+// Quiz type configuration and session generation, shared by the session page and offline downloads
+import type { QuizSessionData } from '../session/[type]/page';
+import { getScoringSchemeForQuizType } from '@/lib/quiz-scoring';
+import { isMockExamQuizType } from '@/lib/prelims-mock';
+
+export const QUIZ_TYPE_CONFIG = {
+  'free-daily': {
+    name: 'Daily Free Questions',
+    timeLimit: 15 * 60, // 15 minutes
+    maxQuestions: 5,
+    difficulty: 'easy',
+    subject: 'General Studies',
+    tier: 'free'
+  },
+  'review-due': {
+    name: 'Review Due Today',
+    timeLimit: 20 * 60, // 20 minutes
+    maxQuestions: 20,
+    difficulty: 'medium',
+    subject: 'General Studies',
+    tier: 'free'
+  },
+  'ncert-foundation': {
+    name: 'NCERT Foundation',
+    timeLimit: 20 * 60, // 20 minutes
+    maxQuestions: 10,
+    difficulty: 'easy',
+    subject: 'General Studies',
+    tier: 'foundation'
+  },
+  'past-year': {
+    name: 'Previous Year Questions',
+    timeLimit: 25 * 60, // 25 minutes
+    maxQuestions: 15,
+    difficulty: 'medium',
+    subject: 'General Studies',
+    tier: 'practice'
+  },
+  'subject-wise': {
+    name: 'Subject-wise Practice',
+    timeLimit: 30 * 60, // 30 minutes
+    maxQuestions: 20,
+    difficulty: 'medium',
+    subject: 'General Studies',
+    tier: 'practice'
+  },
+  'current-affairs-basic': {
+    name: 'Current Affairs Basics',
+    timeLimit: 20 * 60, // 20 minutes
+    maxQuestions: 10,
+    difficulty: 'easy',
+    subject: 'Current Affairs',
+    tier: 'foundation'
+  },
+  'current-affairs-advanced': {
+    name: 'Advanced Current Affairs',
+    timeLimit: 30 * 60, // 30 minutes
+    maxQuestions: 15,
+    difficulty: 'medium',
+    subject: 'Current Affairs',
+    tier: 'practice'
+  },
+  'mock-prelims': {
+    name: 'Mock Prelims Test',
+    timeLimit: 120 * 60, // 2 hours
+    maxQuestions: 100,
+    difficulty: 'hard',
+    subject: 'General Studies',
+    tier: 'test'
+  },
+  'mock-prelims-csat': {
+    name: 'Mock Prelims CSAT (Paper II)',
+    timeLimit: 120 * 60, // 2 hours
+    maxQuestions: 80,
+    difficulty: 'hard',
+    subject: 'CSAT',
+    tier: 'test'
+  },
+  'adaptive': {
+    name: 'Adaptive Practice',
+    timeLimit: 45 * 60, // 45 minutes
+    maxQuestions: 25,
+    difficulty: 'medium',
+    subject: 'General Studies',
+    tier: 'test'
+  },
+  'topper-bank': {
+    name: 'Topper Question Bank',
+    timeLimit: 60 * 60, // 60 minutes
+    maxQuestions: 40,
+    difficulty: 'hard',
+    subject: 'General Studies',
+    tier: 'advanced'
+  },
+  'final-revision': {
+    name: 'Final Revision Series',
+    timeLimit: 30 * 60, // 30 minutes
+    maxQuestions: 20,
+    difficulty: 'medium',
+    subject: 'General Studies',
+    tier: 'advanced'
+  }
+};
+
+export type QuizType = keyof typeof QUIZ_TYPE_CONFIG;
+
+// Mock exams run on a strict server-side timer from generation, so they cannot be taken offline
+export function canDownloadQuizType(quizType: string): boolean {
+  return quizType in QUIZ_TYPE_CONFIG && !isMockExamQuizType(quizType);
+}
+
+// Generates a fresh session on the server and builds the client-side session state for it
+export async function generateQuizSession(userId: string, quizType: QuizType): Promise<QuizSessionData> {
+  const quizConfig = QUIZ_TYPE_CONFIG[quizType];
+
+  const response = await fetch('/api/daily-quiz/generate', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      userId,
+      quizType,
+      difficulty: quizConfig.difficulty,
+      subject: quizConfig.subject,
+      maxQuestions: quizConfig.maxQuestions
+    })
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json();
+    throw new Error(errorData.error || 'Failed to generate quiz');
+  }
+
+  const data = await response.json();
+
+  return {
+    id: data.sessionId,
+    userId,
+    quizType,
+    questions: data.questions,
+    timeLimit: quizConfig.timeLimit,
+    startTime: new Date(),
+    currentQuestionIndex: 0,
+    answers: new Array(data.questions.length).fill(null),
+    bookmarked: new Array(data.questions.length).fill(false),
+    completed: false,
+    scoringScheme: data.scoringScheme || getScoringSchemeForQuizType(quizType).id,
+    ...(data.examMode && {
+      examMode: true,
+      paperId: data.paperId,
+      markedForReview: new Array(data.questions.length).fill(false)
+    }),
+    metadata: {
+      difficulty: quizConfig.difficulty,
+      subject: quizConfig.subject,
+      tier: quizConfig.tier,
+      maxQuestions: quizConfig.maxQuestions
+    }
+  };
+}
+
+// Check user access to quiz tier
+export async function checkUserAccess(userId: string, requiredTier: string): Promise<boolean> {
+  try {
+    const response = await fetch('/api/subscription/check-access', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ userId, requiredTier })
+    });
+
+    if (response.ok) {
+      const { hasAccess } = await response.json();
+      return hasAccess;
+    }
+
+    return false;
+  } catch (error) {
+    console.error('Access check failed:', error);
+    return false;
+  }
+}
@@ -128,6 +128,11 @@ const LeftSidebar: React.FC<LeftSidebarProps> = ({
       href: "/writing-practice",
       icon: <PenLine className="w-5 h-5" />,
       label: "Writing Practice"
+    },
+    {
+      href: "/mains-test-series",
+      icon: <FileText className="w-5 h-5" />,
+      label: "Mains Test Series"
     }
   ];
 
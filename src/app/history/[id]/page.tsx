@@ -8,7 +8,8 @@ import { useAuth } from '@/contexts/AuthContext';
 import { getHistoryEntry, type HistoryEntry } from '@/services/historyService';
 import { saveQuizAttempt, getQuizAttemptsForHistory } from '@/services/quizAttemptsService';
 import { getMainsAnswersForHistory, saveMainsAnswer } from '@/services/mainsAnswerService';
-import { saveQuestion, unsaveQuestion, getSavedStatus, getSavedQuestionId, type SavedQuestion } from '@/services/savedQuestionsService';
+import { saveQuestion, unsaveQuestion, getSavedStatus, getSavedQuestionId, getNewspaperReviewSource, type SavedQuestion } from '@/services/savedQuestionsService';
+import { toReviewQuestionFromMCQ } from '@/lib/spaced-repetition';
 
 import Header from '@/components/layout/header';
 import { Button } from '@/components/ui/button';
@@ -202,7 +203,9 @@ const MCQList = ({ mcqs, userId, historyId, savedQuestionIds, onAnswer, onSaveTo
     }, [userId, historyId]);
 
     const handleAnswer = (question: string, selectedOption: string, isCorrect: boolean, subject?: string, difficulty?: number) => {
-        saveQuizAttempt(userId, historyId, question, selectedOption, isCorrect, subject, difficulty);
+        const mcq = mcqs.find(q => q.question === question);
+        const review = mcq ? { question: toReviewQuestionFromMCQ(mcq), source: getNewspaperReviewSource(mcq) } : undefined;
+        saveQuizAttempt(userId, historyId, question, selectedOption, isCorrect, subject, difficulty, review);
         setAttempts(prev => ({ ...prev, [question]: selectedOption }));
     };
 
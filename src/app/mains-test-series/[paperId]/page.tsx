@@ -0,0 +1,300 @@
+'use client';
+
+import React, { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import Header from '@/components/layout/header';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Skeleton } from '@/components/ui/skeleton';
+import { useToast } from '@/hooks/use-toast';
+import { ArrowLeft, Clock, Loader2, Upload } from 'lucide-react';
+import type { AttemptStatus, MainsScorecard, MainsTestQuestion } from '@/lib/mains-test-series';
+import { ScorecardView } from '../components/ScorecardView';
+
+interface CandidatePaper {
+  id: string;
+  title: string;
+  paper: string;
+  totalMarks: number;
+  durationMinutes: number;
+  questions: Omit<MainsTestQuestion, 'modelAnswer'>[];
+}
+
+interface AttemptState {
+  attemptId: string;
+  status: AttemptStatus;
+  startedAt: string;
+  writingEndsAt: string;
+  uploadEndsAt: string;
+  pageNumbers: number[];
+}
+
+function formatRemaining(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.floor(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours}:${String(minutes).padStart(2, '0')}:${String(seconds).padStart(2, '0')}`;
+}
+
+export default function MainsTestPaperPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const { paperId } = useParams<{ paperId: string }>();
+  const { toast } = useToast();
+
+  const [paper, setPaper] = useState<CandidatePaper | null>(null);
+  const [attempt, setAttempt] = useState<AttemptState | null>(null);
+  const [scorecard, setScorecard] = useState<MainsScorecard | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [pageFile, setPageFile] = useState<File | null>(null);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [questionTag, setQuestionTag] = useState('');
+  const [now, setNow] = useState(() => Date.now());
+
+  const authorizedFetch = useCallback(async (path: string, init: RequestInit = {}) => {
+    const token = await user!.getIdToken();
+    const response = await fetch(path, {
+      ...init,
+      headers: { ...init.headers, 'Authorization': `Bearer ${token}` }
+    });
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Request failed');
+    return data;
+  }, [user]);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+      return;
+    }
+    if (!user) return;
+
+    authorizedFetch(`/api/mains-test-series/${paperId}/attempt`)
+      .then(data => {
+        if (data.attempt) {
+          setPaper(data.paper);
+          setAttempt(data.attempt);
+          setScorecard(data.scorecard);
+          setPageNumber((data.attempt.pageNumbers.at(-1) || 0) + 1);
+        }
+      })
+      .catch(error => {
+        console.error('Failed to load test attempt:', error);
+        toast({ variant: 'destructive', title: 'Could not load the paper', description: error.message });
+      })
+      .finally(() => setIsLoading(false));
+  }, [user, authLoading, router, paperId, authorizedFetch, toast]);
+
+  useEffect(() => {
+    if (attempt?.status !== 'writing') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [attempt?.status]);
+
+  const handleStart = async () => {
+    setIsStarting(true);
+    try {
+      const data = await authorizedFetch(`/api/mains-test-series/${paperId}/attempt`, { method: 'POST' });
+      setPaper(data.paper);
+      setAttempt(data.attempt);
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Could not start the test', description: (error as Error).message });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleUpload = async () => {
+    if (!pageFile || !attempt) return;
+    setIsUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('file', pageFile);
+      formData.append('pageNumber', String(pageNumber));
+      if (questionTag) formData.append('questionNumber', questionTag);
+
+      const data = await authorizedFetch(`/api/mains-test-series/${paperId}/pages`, { method: 'POST', body: formData });
+      setAttempt({ ...attempt, pageNumbers: data.pageNumbers });
+      setPageNumber(data.pageNumbers.at(-1) + 1);
+      setPageFile(null);
+      setQuestionTag('');
+      toast({
+        title: `Page ${data.pageNumber} uploaded`,
+        description: data.confidence < 0.6 ? 'The handwriting was hard to read. Rescan this page if you can.' : undefined
+      });
+    } catch (error) {
+      toast({ variant: 'destructive', title: 'Upload failed', description: (error as Error).message });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!attempt) return;
+    setIsSubmitting(true);
+    setAttempt({ ...attempt, status: 'evaluating' });
+    try {
+      const data = await authorizedFetch(`/api/mains-test-series/${paperId}/submit`, { method: 'POST' });
+      setScorecard(data.scorecard);
+      setAttempt({ ...attempt, status: 'evaluated' });
+      if (data.unassignedPages?.length > 0) {
+        toast({
+          title: 'Some text was not matched to a question',
+          description: `Pages ${data.unassignedPages.join(', ')} had writing before the first question number.`
+        });
+      }
+    } catch (error) {
+      setAttempt({ ...attempt, status: 'writing' });
+      toast({ variant: 'destructive', title: 'Evaluation failed', description: (error as Error).message });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (authLoading || !user) {
+    return null;
+  }
+
+  const writingRemaining = attempt ? new Date(attempt.writingEndsAt).getTime() - now : 0;
+  const uploadRemaining = attempt ? new Date(attempt.uploadEndsAt).getTime() - now : 0;
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50 dark:bg-gray-900">
+      <Header />
+      <main className="flex-1 container mx-auto px-4 py-24 sm:py-32">
+        <Link href="/mains-test-series" className="inline-flex items-center text-sm text-muted-foreground hover:text-primary transition-colors mb-8">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Test Series
+        </Link>
+
+        <div className="max-w-4xl mx-auto space-y-6">
+          {isLoading ? (
+            <Card className="glassmorphic shadow-sm">
+              <CardHeader>
+                <Skeleton className="h-6 w-1/2" />
+                <Skeleton className="h-4 w-1/3 mt-2" />
+              </CardHeader>
+            </Card>
+          ) : !attempt || !paper ? (
+            <Card className="text-center p-8 glassmorphic">
+              <CardHeader>
+                <CardTitle>Ready to write?</CardTitle>
+                <CardDescription>
+                  The three-hour clock starts when you open the paper. Write on paper, number each answer
+                  (Q1, Q2, …), then upload the booklet one page at a time. You get 30 extra minutes to upload.
+                </CardDescription>
+              </CardHeader>
+              <CardFooter className="justify-center">
+                <Button onClick={handleStart} disabled={isStarting}>
+                  {isStarting && <Loader2 className="animate-spin" />}
+                  Start the Test
+                </Button>
+              </CardFooter>
+            </Card>
+          ) : attempt.status === 'evaluated' && scorecard ? (
+            <>
+              <h1 className="font-headline text-3xl font-bold">{paper.title}</h1>
+              <ScorecardView scorecard={scorecard} questions={paper.questions} />
+            </>
+          ) : (
+            <>
+              <Card className="glassmorphic shadow-sm">
+                <CardHeader>
+                  <div className="flex justify-between items-start">
+                    <CardTitle className="font-headline text-2xl">{paper.title}</CardTitle>
+                    <div className="flex items-center font-mono text-lg" aria-live="polite">
+                      <Clock className="w-5 h-5 mr-2" />
+                      {writingRemaining > 0 ? formatRemaining(writingRemaining) : `Upload ${formatRemaining(uploadRemaining)}`}
+                    </div>
+                  </div>
+                  <CardDescription>
+                    {paper.paper} · {paper.totalMarks} marks · Answer in the word limit given with each question
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <ol className="space-y-4">
+                    {paper.questions.map(question => (
+                      <li key={question.questionNumber} className="text-sm">
+                        <div className="flex justify-between">
+                          <span className="font-semibold">Q{question.questionNumber}.</span>
+                          <span className="text-muted-foreground">{question.marks} marks · {question.wordLimit} words</span>
+                        </div>
+                        <p>{question.question}</p>
+                        {question.questionHi && <p lang="hi" className="text-muted-foreground">{question.questionHi}</p>}
+                      </li>
+                    ))}
+                  </ol>
+                </CardContent>
+              </Card>
+
+              <Card className="glassmorphic shadow-sm">
+                <CardHeader>
+                  <CardTitle className="text-xl">Answer Booklet</CardTitle>
+                  <CardDescription>
+                    {attempt.pageNumbers.length > 0
+                      ? `Uploaded pages: ${attempt.pageNumbers.join(', ')}`
+                      : 'No pages uploaded yet'}
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="grid gap-4 sm:grid-cols-3">
+                  <div className="space-y-2 sm:col-span-3">
+                    <Label htmlFor="booklet-page">Scanned page</Label>
+                    <Input
+                      id="booklet-page"
+                      type="file"
+                      accept="image/jpeg,image/png,image/webp,image/heic"
+                      onChange={(e) => setPageFile(e.target.files?.[0] || null)}
+                      disabled={attempt.status !== 'writing'}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="page-number">Page number</Label>
+                    <Input
+                      id="page-number"
+                      type="number"
+                      min={1}
+                      value={pageNumber}
+                      onChange={(e) => setPageNumber(parseInt(e.target.value) || 1)}
+                    />
+                  </div>
+                  <div className="space-y-2 sm:col-span-2">
+                    <Label htmlFor="question-tag">Page starts with question (optional)</Label>
+                    <select
+                      id="question-tag"
+                      value={questionTag}
+                      onChange={(e) => setQuestionTag(e.target.value)}
+                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm"
+                    >
+                      <option value="">Read from the page</option>
+                      {paper.questions.map(question => (
+                        <option key={question.questionNumber} value={question.questionNumber}>Q{question.questionNumber}</option>
+                      ))}
+                    </select>
+                  </div>
+                </CardContent>
+                <CardFooter className="justify-between">
+                  <Button variant="outline" onClick={handleUpload} disabled={!pageFile || isUploading || attempt.status !== 'writing' || uploadRemaining <= 0}>
+                    {isUploading ? <Loader2 className="animate-spin" /> : <Upload className="w-4 h-4" />}
+                    Upload Page
+                  </Button>
+                  <Button onClick={handleSubmit} disabled={isSubmitting || attempt.pageNumbers.length === 0 || attempt.status !== 'writing'}>
+                    {isSubmitting && <Loader2 className="animate-spin" />}
+                    {attempt.status === 'evaluating' ? 'Evaluating answers…' : 'Submit Booklet'}
+                  </Button>
+                </CardFooter>
+              </Card>
+            </>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,117 @@
+'use client';
+
+import React from 'react';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
+import type { MainsScorecard, MainsTestQuestion, QuestionResultStatus } from '@/lib/mains-test-series';
+
+const STATUS_LABELS: Record<QuestionResultStatus, string> = {
+  'evaluated': 'Evaluated',
+  'not-attempted': 'Not attempted',
+  'review-required': 'Under review'
+};
+
+interface ScorecardViewProps {
+  scorecard: MainsScorecard;
+  questions: Omit<MainsTestQuestion, 'modelAnswer'>[];
+}
+
+// Paper scorecard: totals, subject split and per-question marks with the topper's answer alongside
+export const ScorecardView: React.FC<ScorecardViewProps> = ({ scorecard, questions }) => {
+  return (
+    <div className="space-y-6">
+      <Card className="glassmorphic shadow-sm">
+        <CardHeader>
+          <CardTitle className="font-headline text-2xl">
+            {scorecard.awardedMarks} / {scorecard.totalMarks}
+          </CardTitle>
+          <CardDescription>
+            {scorecard.percentage}% · {scorecard.attempted} of {questions.length} questions attempted
+            {scorecard.reviewRequired > 0 && ` · ${scorecard.reviewRequired} sent for manual review`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {Object.entries(scorecard.subjectWise).map(([subject, score]) => (
+            <div key={subject}>
+              <div className="flex justify-between text-sm mb-1">
+                <span>{subject}</span>
+                <span className="text-muted-foreground">{score.awarded} / {score.max}</span>
+              </div>
+              <Progress value={score.max > 0 ? (score.awarded / score.max) * 100 : 0} />
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Accordion type="multiple" className="space-y-2">
+        {scorecard.questions.map(result => {
+          const question = questions.find(item => item.questionNumber === result.questionNumber);
+          const topper = scorecard.topperComparison.find(item => item.questionNumber === result.questionNumber);
+
+          return (
+            <AccordionItem key={result.questionNumber} value={String(result.questionNumber)} className="bg-background rounded-md border px-4">
+              <AccordionTrigger>
+                <div className="flex flex-1 items-center justify-between pr-4 text-left">
+                  <span className="font-medium">Q{result.questionNumber}. {question?.question.slice(0, 80)}{(question?.question.length || 0) > 80 && '…'}</span>
+                  <span className="flex items-center space-x-2">
+                    {result.status !== 'evaluated' && <Badge variant="secondary">{STATUS_LABELS[result.status]}</Badge>}
+                    <span className="font-semibold">{result.awardedMarks} / {result.maxMarks}</span>
+                  </span>
+                </div>
+              </AccordionTrigger>
+              <AccordionContent className="space-y-4">
+                {question && <p className="text-sm">{question.question}</p>}
+
+                {result.status !== 'not-attempted' && (
+                  <>
+                    <p className="text-xs text-muted-foreground">
+                      {result.wordCount} words{question && ` (limit ${question.wordLimit})`} · pages {result.pageNumbers.join(', ')}
+                    </p>
+                    <div className="space-y-2">
+                      {result.criteria.map(criterion => (
+                        <div key={criterion.criterion} className="text-sm">
+                          <div className="flex justify-between">
+                            <span>{criterion.criterion}</span>
+                            <span className="text-muted-foreground">{criterion.marks} / {criterion.maxMarks}</span>
+                          </div>
+                          {criterion.feedback && <p className="text-xs text-muted-foreground">{criterion.feedback}</p>}
+                        </div>
+                      ))}
+                    </div>
+                    {result.strengths.length > 0 && (
+                      <div>
+                        <h4 className="text-sm font-semibold text-green-700">Strengths</h4>
+                        <ul className="list-disc pl-5 text-sm">{result.strengths.map(item => <li key={item}>{item}</li>)}</ul>
+                      </div>
+                    )}
+                    {(result.weaknesses.length > 0 || result.missingPoints.length > 0) && (
+                      <div>
+                        <h4 className="text-sm font-semibold text-red-700">To improve</h4>
+                        <ul className="list-disc pl-5 text-sm">
+                          {[...result.weaknesses, ...result.missingPoints].map(item => <li key={item}>{item}</li>)}
+                        </ul>
+                      </div>
+                    )}
+                  </>
+                )}
+
+                {topper && (
+                  <div className="rounded-md bg-muted p-3">
+                    <h4 className="text-sm font-semibold mb-1">
+                      {topper.source === 'candidate'
+                        ? `Topper's answer (${topper.topperMarks} / ${result.maxMarks}, ${topper.gap! > 0 ? `${topper.gap} ahead of you` : 'you matched it'})`
+                        : 'Model answer'}
+                    </h4>
+                    <p className="text-sm whitespace-pre-line">{topper.topperAnswer}</p>
+                  </div>
+                )}
+              </AccordionContent>
+            </AccordionItem>
+          );
+        })}
+      </Accordion>
+    </div>
+  );
+};
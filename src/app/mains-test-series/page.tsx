@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/contexts/AuthContext';
+import Header from '@/components/layout/header';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { ArrowLeft, CalendarClock, FileText } from 'lucide-react';
+import type { TestWindowStatus } from '@/lib/mains-test-series';
+
+interface TestPaperSummary {
+  id: string;
+  title: string;
+  paper: string;
+  format: number;
+  totalMarks: number;
+  durationMinutes: number;
+  releaseAt: string;
+  closesAt: string;
+  status: TestWindowStatus;
+}
+
+const STATUS_LABELS: Record<TestWindowStatus, string> = {
+  scheduled: 'Upcoming',
+  open: 'Live',
+  closed: 'Closed'
+};
+
+export default function MainsTestSeriesPage() {
+  const { user, loading: authLoading } = useAuth();
+  const router = useRouter();
+  const [papers, setPapers] = useState<TestPaperSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      router.push('/login');
+      return;
+    }
+    if (!user) return;
+
+    const loadPapers = async () => {
+      try {
+        const token = await user.getIdToken();
+        const response = await fetch('/api/mains-test-series', {
+          headers: { 'Authorization': `Bearer ${token}` }
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error || 'Failed to load test papers');
+        setPapers(data.papers);
+      } catch (loadError) {
+        console.error('Failed to load Mains test papers:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Failed to load test papers');
+      } finally {
+        setIsLoading(false);
+      }
+    };
+    loadPapers();
+  }, [user, authLoading, router]);
+
+  if (authLoading || !user) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-col min-h-screen bg-gray-50 dark:bg-gray-900">
+      <Header />
+      <main className="flex-1 container mx-auto px-4 py-24 sm:py-32">
+        <Link href="/dashboard" className="inline-flex items-center text-sm text-muted-foreground hover:text-primary transition-colors mb-8">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          Back to Dashboard
+        </Link>
+        <div className="text-center mb-16">
+          <h1 className="font-headline text-4xl sm:text-5xl font-bold tracking-tighter">
+            Mains Test Series
+          </h1>
+          <p className="text-muted-foreground mt-4 max-w-2xl mx-auto text-lg">
+            Write a full GS paper in three hours on paper, upload your answer booklet page by page and get marks for every answer.
+          </p>
+        </div>
+
+        <div className="max-w-4xl mx-auto space-y-6">
+          {isLoading ? (
+            Array.from({ length: 3 }).map((_, i) => (
+              <Card key={i} className="glassmorphic shadow-sm">
+                <CardHeader>
+                  <Skeleton className="h-6 w-1/2" />
+                  <Skeleton className="h-4 w-1/3 mt-2" />
+                </CardHeader>
+              </Card>
+            ))
+          ) : error ? (
+            <Card className="text-center p-8 glassmorphic">
+              <CardHeader>
+                <CardTitle>Could not load the test series</CardTitle>
+                <CardDescription>{error}</CardDescription>
+              </CardHeader>
+            </Card>
+          ) : papers.length > 0 ? (
+            papers.map(paper => (
+              <Card key={paper.id} className="glassmorphic shadow-sm">
+                <CardHeader>
+                  <div className="flex justify-between items-start">
+                    <CardTitle className="font-headline text-xl">{paper.title}</CardTitle>
+                    <Badge variant={paper.status === 'open' ? 'default' : 'secondary'}>{STATUS_LABELS[paper.status]}</Badge>
+                  </div>
+                  <CardDescription>
+                    {paper.paper} · {paper.format} questions · {paper.totalMarks} marks · {paper.durationMinutes / 60} hours
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="text-sm text-muted-foreground flex items-center">
+                  <CalendarClock className="w-4 h-4 mr-2" />
+                  {new Date(paper.releaseAt).toLocaleString()} – {new Date(paper.closesAt).toLocaleString()}
+                </CardContent>
+                <CardFooter>
+                  {paper.status === 'scheduled' ? (
+                    <Button disabled variant="outline">Not Released Yet</Button>
+                  ) : (
+                    <Button asChild variant={paper.status === 'open' ? 'default' : 'outline'}>
+                      <Link href={`/mains-test-series/${paper.id}`}>
+                        {paper.status === 'closed' ? 'View Scorecard' : 'Open Paper'}
+                      </Link>
+                    </Button>
+                  )}
+                </CardFooter>
+              </Card>
+            ))
+          ) : (
+            <Card className="text-center p-8 glassmorphic">
+              <CardHeader>
+                <FileText className="mx-auto w-12 h-12 text-muted-foreground/50 mb-4" />
+                <CardTitle>No Papers Scheduled Yet</CardTitle>
+                <CardDescription>
+                  New test papers appear here as soon as they are scheduled.
+                </CardDescription>
+              </CardHeader>
+            </Card>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
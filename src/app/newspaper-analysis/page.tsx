@@ -478,6 +478,7 @@ export default function NewspaperAnalysisRevamped() {
                       <SelectContent>
                         <SelectItem value="English">English</SelectItem>
                         <SelectItem value="Hindi">Hindi</SelectItem>
+                        <SelectItem value="Bilingual">Hindi + English</SelectItem>
                         <SelectItem value="Tamil">Tamil</SelectItem>
                         <SelectItem value="Bengali">Bengali</SelectItem>
                         <SelectItem value="Telugu">Telugu</SelectItem>
@@ -5,7 +5,8 @@ import React, { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useAuth } from '@/contexts/AuthContext';
 // NEW: Import from savedQuestionsService
-import { getSavedQuestions, unsaveQuestion, type SavedQuestion } from '@/services/savedQuestionsService';
+import { getSavedQuestions, unsaveQuestion, getNewspaperReviewSource, type SavedQuestion } from '@/services/savedQuestionsService';
+import { toReviewQuestionFromMCQ } from '@/lib/spaced-repetition';
 // We still need attempts service
 import { saveQuizAttempt, getAllUserAttempts } from '@/services/quizAttemptsService';
 import { useRouter } from 'next/navigation';
@@ -220,7 +221,10 @@ export default function PrelimsQuestionBankPage() {
         setAttempts(prev => ({ ...prev, [question]: selectedOption }));
         const questionData = savedQuestions.find(q => q.question === question);
         if (questionData) {
-            saveQuizAttempt(user.uid, questionData.historyId, question, selectedOption, isCorrect, subject, difficulty);
+            saveQuizAttempt(user.uid, questionData.historyId, question, selectedOption, isCorrect, subject, difficulty, {
+                question: toReviewQuestionFromMCQ(questionData),
+                source: getNewspaperReviewSource(questionData),
+            });
         }
     };
     
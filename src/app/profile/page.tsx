@@ -11,6 +11,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import Header from '@/components/layout/header';
+import BillingHistory from '@/components/subscription/BillingHistory';
 import { ArrowLeft, Loader2 } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { storage } from '@/lib/firebase';
@@ -234,6 +235,9 @@ export default function ProfilePage() {
                 </Button>
             </CardFooter>
           </Card>
+          <div className="mt-8">
+            <BillingHistory />
+          </div>
         </div>
       </main>
     </div>
@@ -9,6 +9,7 @@ import Link from 'next/link';
 import { signInWithEmailAndPassword, createUserWithEmailAndPassword } from 'firebase/auth';
 import { auth } from '@/lib/firebase';
 import { useToast } from '@/hooks/use-toast';
+import { analytics } from '@/lib/analytics';
 
 import { Eye, EyeOff, Mail, Lock, Github, Chrome, ArrowRight, Sparkles, Bot, FileQuestion, Mic, PenLine, Users, Book, Zap, Target, TrendingUp, Award, Loader2 } from 'lucide-react';
 import { cn } from '@/lib/utils';
@@ -100,7 +101,9 @@ export default function SignupPage() {
       }
     } else { // signup
       try {
-        await createUserWithEmailAndPassword(auth, data.email, data.password);
+        const credential = await createUserWithEmailAndPassword(auth, data.email, data.password);
+        analytics.setUserId(credential.user.uid);
+        analytics.trackEvent('sign_up', { method: 'password' });
         toast({ title: 'Account created!', description: "Redirecting to your dashboard..." });
         router.push('/dashboard');
       } catch (error: any) {
@@ -0,0 +1,43 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { analytics } from '@/lib/analytics';
+import type { AnalyticsConsent } from '@/lib/analytics-warehouse';
+import { Button } from '@/components/ui/button';
+
+// Asks once; analytics stay off until the visitor accepts
+export default function AnalyticsConsentBanner() {
+  const [visible, setVisible] = useState(false);
+
+  // The stored choice is only readable in the browser, so the banner waits for mount
+  useEffect(() => {
+    setVisible(analytics.getConsent() === null);
+  }, []);
+
+  const choose = (consent: AnalyticsConsent) => {
+    analytics.setConsent(consent);
+    if (consent === 'granted') {
+      analytics.trackPageView();
+    }
+    setVisible(false);
+  };
+
+  if (!visible) return null;
+
+  return (
+    <div
+      role="region"
+      aria-label="Analytics consent"
+      className="fixed inset-x-4 bottom-4 z-50 mx-auto max-w-2xl rounded-lg border bg-background p-4 shadow-lg sm:flex sm:items-center sm:gap-4"
+    >
+      <p className="text-sm text-muted-foreground">
+        We use first-party analytics to see which features help your preparation and how fast pages load.
+        Nothing is shared with advertisers.
+      </p>
+      <div className="mt-3 flex shrink-0 gap-2 sm:mt-0">
+        <Button variant="outline" size="sm" onClick={() => choose('denied')}>Decline</Button>
+        <Button size="sm" onClick={() => choose('granted')}>Accept</Button>
+      </div>
+    </div>
+  );
+}
@@ -25,6 +25,7 @@ describe('FeatureGuard', () => {
       loading: false,
       error: null,
       upgradeSubscription: jest.fn(),
+      startTrial: jest.fn(),
       cancelSubscription: jest.fn(),
       refetch: jest.fn(),
       hasFeature: jest.fn(() => true),
@@ -74,6 +75,7 @@ describe('FeatureGuard', () => {
       loading: false,
       error: null,
       upgradeSubscription: jest.fn(),
+      startTrial: jest.fn(),
       cancelSubscription: jest.fn(),
       refetch: jest.fn(),
       hasFeature: jest.fn(() => false),
@@ -124,6 +126,7 @@ describe('FeatureGuard', () => {
       loading: false,
       error: null,
       upgradeSubscription: jest.fn(),
+      startTrial: jest.fn(),
       cancelSubscription: jest.fn(),
       refetch: jest.fn(),
       hasFeature: jest.fn(() => true),
@@ -174,6 +177,7 @@ describe('FeatureGuard', () => {
       loading: true,
       error: null,
       upgradeSubscription: jest.fn(),
+      startTrial: jest.fn(),
       cancelSubscription: jest.fn(),
       refetch: jest.fn(),
       hasFeature: jest.fn(() => true),
@@ -223,6 +227,7 @@ describe('FeatureGuard', () => {
       loading: false,
       error: null,
       upgradeSubscription: jest.fn(),
+      startTrial: jest.fn(),
       cancelSubscription: jest.fn(),
       refetch: jest.fn(),
       hasFeature: jest.fn(() => false),
@@ -279,6 +284,7 @@ describe('useFeatureAccess', () => {
       loading: false,
       error: null,
       upgradeSubscription: jest.fn(),
+      startTrial: jest.fn(),
       cancelSubscription: jest.fn(),
       refetch: jest.fn(),
       hasFeature: jest.fn(() => true),
@@ -333,6 +339,7 @@ describe('useFeatureAccess', () => {
       loading: false,
       error: null,
       upgradeSubscription: jest.fn(),
+      startTrial: jest.fn(),
       cancelSubscription: jest.fn(),
       refetch: jest.fn(),
       hasFeature: jest.fn(() => false),
@@ -0,0 +1,251 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useToast } from '@/hooks/use-toast';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Download, Loader2 } from 'lucide-react';
+
+interface InvoiceSummary {
+  id: string;
+  type: 'invoice' | 'credit_note';
+  number: string;
+  issuedAt: string;
+  description: string;
+  originalInvoiceNumber: string | null;
+  total: number;
+  tax: number;
+}
+
+interface BillingDetails {
+  name: string;
+  gstin: string;
+  address: string;
+  stateCode: string;
+}
+
+const EMPTY_DETAILS: BillingDetails = { name: '', gstin: '', address: '', stateCode: '' };
+
+function formatAmount(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export default function BillingHistory() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [invoices, setInvoices] = useState<InvoiceSummary[]>([]);
+  const [details, setDetails] = useState<BillingDetails>(EMPTY_DETAILS);
+  const [states, setStates] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [downloading, setDownloading] = useState<string | null>(null);
+
+  const authorizedFetch = useCallback(async (url: string, init: RequestInit = {}) => {
+    if (!user) throw new Error('Not signed in');
+    return fetch(url, {
+      ...init,
+      headers: { ...init.headers, Authorization: `Bearer ${await user.getIdToken()}` }
+    });
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) return;
+
+    (async () => {
+      try {
+        const [invoicesResponse, profileResponse] = await Promise.all([
+          authorizedFetch('/api/payment/invoices'),
+          authorizedFetch('/api/payment/billing-profile')
+        ]);
+        const [invoicesData, profileData] = await Promise.all([invoicesResponse.json(), profileResponse.json()]);
+        if (!invoicesResponse.ok) throw new Error(invoicesData.error || 'Failed to load billing history');
+        if (!profileResponse.ok) throw new Error(profileData.error || 'Failed to load billing details');
+
+        setInvoices(invoicesData.invoices);
+        setStates(profileData.states);
+        setDetails({
+          name: profileData.profile.name || '',
+          gstin: profileData.profile.gstin || '',
+          address: profileData.profile.address || '',
+          stateCode: profileData.profile.stateCode || ''
+        });
+      } catch (error) {
+        console.error('Error loading billing history:', error);
+        toast({
+          variant: 'destructive',
+          title: 'Could not load billing history',
+          description: error instanceof Error ? error.message : 'Please try again.'
+        });
+      } finally {
+        setLoading(false);
+      }
+    })();
+  }, [user, authorizedFetch, toast]);
+
+  const handleSaveDetails = async () => {
+    setSaving(true);
+    try {
+      const response = await authorizedFetch('/api/payment/billing-profile', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: details.name,
+          gstin: details.gstin || undefined,
+          address: details.address || undefined,
+          stateCode: details.stateCode || undefined
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details?.[0]?.message || data.error || 'Failed to save billing details');
+      }
+
+      setDetails(prev => ({ ...prev, gstin: data.profile.gstin || '', stateCode: data.profile.stateCode || '' }));
+      toast({ title: 'Billing details saved.', description: 'They will appear on your next invoice.' });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Could not save billing details',
+        description: error instanceof Error ? error.message : 'Please try again.'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownload = async (invoice: InvoiceSummary) => {
+    setDownloading(invoice.id);
+    try {
+      const response = await authorizedFetch(`/api/payment/invoices/${encodeURIComponent(invoice.id)}`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to download invoice');
+      }
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${invoice.number.replace(/\//g, '-')}.pdf`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Download failed',
+        description: error instanceof Error ? error.message : 'Please try again.'
+      });
+    } finally {
+      setDownloading(null);
+    }
+  };
+
+  const updateDetail = (field: keyof BillingDetails, value: string) => {
+    setDetails(prev => ({ ...prev, [field]: value }));
+  };
+
+  return (
+    <Card className="glassmorphic shadow-2xl shadow-primary/10">
+      <CardHeader>
+        <CardTitle className="font-headline text-2xl">Billing History</CardTitle>
+        <CardDescription>GST invoices for your payments and credit notes for refunds.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-8">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : invoices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No payments yet. Invoices appear here once a payment goes through.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Date</TableHead>
+                <TableHead>Document</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoices.map(invoice => (
+                <TableRow key={invoice.id}>
+                  <TableCell className="whitespace-nowrap">{new Date(invoice.issuedAt).toLocaleDateString('en-IN')}</TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium">{invoice.number}</span>
+                      {invoice.type === 'credit_note' && <Badge variant="secondary">Refund</Badge>}
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {invoice.type === 'credit_note' ? `Against ${invoice.originalInvoiceNumber}` : invoice.description}
+                    </p>
+                  </TableCell>
+                  <TableCell className="text-right whitespace-nowrap">
+                    {invoice.type === 'credit_note' ? '-' : ''}{formatAmount(invoice.total)}
+                    <p className="text-xs text-muted-foreground">incl. {formatAmount(invoice.tax)} GST</p>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleDownload(invoice)} disabled={downloading === invoice.id}>
+                      {downloading === invoice.id ? <Loader2 className="animate-spin" /> : <Download />}
+                      PDF
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+
+        <div className="space-y-4">
+          <div>
+            <h3 className="font-semibold">GST details</h3>
+            <p className="text-sm text-muted-foreground">Add your GSTIN to claim input tax credit. Changes apply to future invoices only.</p>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="billing-name">Name on invoice</Label>
+              <Input id="billing-name" value={details.name} onChange={(e) => updateDetail('name', e.target.value)} disabled={saving} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="billing-gstin">GSTIN (optional)</Label>
+              <Input
+                id="billing-gstin"
+                placeholder="22AAAAA0000A1Z5"
+                maxLength={15}
+                value={details.gstin}
+                onChange={(e) => updateDetail('gstin', e.target.value.toUpperCase())}
+                disabled={saving}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="billing-state">State</Label>
+              <Select value={details.stateCode} onValueChange={(value) => updateDetail('stateCode', value)} disabled={saving}>
+                <SelectTrigger id="billing-state">
+                  <SelectValue placeholder="Select your state" />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(states).map(([code, name]) => (
+                    <SelectItem key={code} value={code}>{name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="billing-address">Billing address (optional)</Label>
+              <Input id="billing-address" value={details.address} onChange={(e) => updateDetail('address', e.target.value)} disabled={saving} />
+            </div>
+          </div>
+          <Button variant="outline" onClick={handleSaveDetails} disabled={saving || loading || !details.name.trim()}>
+            {saving && <Loader2 className="animate-spin" />}
+            {saving ? 'Saving...' : 'Save GST Details'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -181,7 +181,8 @@ describe('useSubscription', () => {
       'foundation',
       'monthly',
       'test-user-123',
-      'test@example.com'
+      'test@example.com',
+      {}
     );
     expect(upgradeResult.success).toBe(true);
     expect(mockToast).toHaveBeenCalledWith({
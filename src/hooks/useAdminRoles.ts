@@ -0,0 +1,51 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { AdminPermission, AdminRole, getRolesFromClaims, hasPermission } from '@/lib/admin-roles';
+
+interface AdminRolesState {
+  roles: AdminRole[];
+  loading: boolean;
+}
+
+/**
+ * Staff roles of the signed-in user, read from their ID token's custom claims.
+ * The API routes enforce the same roles; this only decides what the UI shows.
+ */
+export function useAdminRoles() {
+  const { user, loading: authLoading } = useAuth();
+  const [state, setState] = useState<AdminRolesState>({ roles: [], loading: true });
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      setState({ roles: [], loading: false });
+      return;
+    }
+
+    let cancelled = false;
+    // Force a refresh so a role granted since sign-in is picked up
+    user.getIdTokenResult(true)
+      .then(result => {
+        if (!cancelled) {
+          setState({ roles: getRolesFromClaims(result.claims), loading: false });
+        }
+      })
+      .catch(error => {
+        console.error('Failed to read admin roles:', error);
+        if (!cancelled) setState({ roles: [], loading: false });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, authLoading]);
+
+  const can = useCallback(
+    (permission: AdminPermission) => hasPermission(state.roles, permission),
+    [state.roles]
+  );
+
+  return { user, roles: state.roles, loading: state.loading, can };
+}
+
+export default useAdminRoles;
@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { SubscriptionTier, UserStage } from '@/lib/subscription-tiers';
 import { useToast } from '@/hooks/use-toast';
+import { analytics } from '@/lib/analytics';
 
 // Types
 interface OnboardingData {
@@ -252,6 +253,8 @@ export function useOnboarding() {
         } : null
       }));
 
+      analytics.trackEvent('onboarding_completed', { stage: determinedStage, recommendedTier });
+
       toast({
         title: "Onboarding Complete!",
         description: `Your preparation journey is now personalized for ${determinedStage} stage`,
@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useAuth } from '@/hooks/useAuth';
 import { SubscriptionTier, UserStage } from '@/lib/subscription-tiers';
-import { useRazorpayPayment } from '@/lib/payment/razorpay';
+import { OrderOptions, RazorpayService, useRazorpayPayment } from '@/lib/payment/razorpay';
 import { useToast } from '@/hooks/use-toast';
+import { analytics } from '@/lib/analytics';
 import { isDevMode, getDevTier, hasDevFeature } from '@/lib/dev-mode';
 
 // Types
@@ -88,7 +89,8 @@ export function useSubscription() {
   // Upgrade subscription
   const upgradeSubscription = useCallback(async (
     targetTier: SubscriptionTier,
-    billingCycle: 'monthly' | 'yearly' = 'monthly'
+    billingCycle: 'monthly' | 'yearly' = 'monthly',
+    orderOptions: OrderOptions = {}
   ): Promise<{ success: boolean; message?: string }> => {
     if (!user) {
       return { success: false, message: 'User not authenticated' };
@@ -128,11 +130,13 @@ export function useSubscription() {
         targetTier,
         billingCycle,
         user.uid,
-        user.email || ''
+        user.email || '',
+        orderOptions
       );
 
       if (paymentResult.success) {
         await fetchSubscriptionData(); // Refresh data
+        analytics.trackEvent('subscription_upgraded', { tier: targetTier, billingCycle });
         toast({
           title: "Subscription Upgraded!",
           description: `Successfully upgraded to ${targetTier} plan`
@@ -161,6 +165,35 @@ export function useSubscription() {
     }
   }, [user, initiatePayment, fetchSubscriptionData, toast]);
 
+  // Start the one free trial of a plan
+  const startTrial = useCallback(async (
+    targetTier: SubscriptionTier
+  ): Promise<{ success: boolean; message?: string }> => {
+    if (!user) {
+      return { success: false, message: 'User not authenticated' };
+    }
+
+    try {
+      const { trialEnd } = await RazorpayService.startTrial(targetTier);
+      await fetchSubscriptionData(); // Refresh data
+      toast({
+        title: "Trial Started!",
+        description: `Your ${targetTier} trial runs until ${new Date(trialEnd).toLocaleDateString()}`
+      });
+
+      return { success: true, message: 'Trial started successfully' };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Could not start trial';
+      toast({
+        title: "Trial Unavailable",
+        description: errorMessage,
+        variant: "destructive"
+      });
+
+      return { success: false, message: errorMessage };
+    }
+  }, [user, fetchSubscriptionData, toast]);
+
   // Cancel subscription
   const cancelSubscription = useCallback(async (
     cancelAtPeriodEnd: boolean = true
@@ -264,6 +297,7 @@ export function useSubscription() {
     
     // Actions
     upgradeSubscription,
+    startTrial,
     cancelSubscription,
     refetch: fetchSubscriptionData,
     
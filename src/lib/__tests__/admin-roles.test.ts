@@ -0,0 +1,45 @@
+import { getPermissions, getRolesFromClaims, hasPermission } from '../admin-roles';
+
+describe('Admin Roles', () => {
+  describe('getRolesFromClaims', () => {
+    it('should read known roles from custom claims', () => {
+      expect(getRolesFromClaims({ roles: ['reviewer', 'content-editor'] })).toEqual(['reviewer', 'content-editor']);
+    });
+
+    it('should ignore unknown and malformed claims', () => {
+      expect(getRolesFromClaims({ roles: ['superuser', 'admin', 7] })).toEqual(['admin']);
+      expect(getRolesFromClaims({ roles: 'admin' })).toEqual([]);
+      expect(getRolesFromClaims({})).toEqual([]);
+    });
+
+    it('should not grant roles to dev-mode accounts without claims', () => {
+      const claims = { email: 'admin@preptalk.com', email_verified: true };
+      expect(getRolesFromClaims(claims)).toEqual([]);
+    });
+  });
+
+  describe('hasPermission', () => {
+    it('should let editors change content but not manage roles or read the audit trail', () => {
+      expect(hasPermission(['content-editor'], 'questions:update')).toBe(true);
+      expect(hasPermission(['content-editor'], 'questions:import')).toBe(true);
+      expect(hasPermission(['content-editor'], 'roles:manage')).toBe(false);
+      expect(hasPermission(['content-editor'], 'audit:read')).toBe(false);
+    });
+
+    it('should let reviewers read but not write', () => {
+      expect(hasPermission(['reviewer'], 'audit:read')).toBe(true);
+      expect(hasPermission(['reviewer'], 'questions:deactivate')).toBe(false);
+    });
+
+    it('should deny everything without a role', () => {
+      expect(hasPermission([], 'questions:create')).toBe(false);
+    });
+  });
+
+  it('should combine permissions across roles without duplicates', () => {
+    const permissions = getPermissions(['content-editor', 'reviewer']);
+    expect(permissions).toContain('questions:import');
+    expect(permissions).toContain('audit:read');
+    expect(new Set(permissions).size).toBe(permissions.length);
+  });
+});
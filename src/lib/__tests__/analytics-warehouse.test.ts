@@ -0,0 +1,172 @@
+import {
+  CollectedEvent,
+  ReportEvent,
+  collectedEventSchema,
+  computeFunnel,
+  computeRetentionCohorts,
+  computeWebVitalPercentiles,
+  getAnalyticsDay,
+  getAnalyticsDays,
+  hasAnalyticsConsent,
+  isBotUserAgent,
+  normalizeRoute,
+  toStoredEvent
+} from '../analytics-warehouse';
+
+const CHROME = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/124.0 Safari/537.36';
+
+const collected = (overrides: Partial<CollectedEvent> = {}): CollectedEvent => ({
+  eventId: '6f1c2f0e-0f6b-4c1e-9d2a-6c1f0b8e7a11',
+  eventName: 'page_view',
+  eventData: { path: '/daily-quiz', timestamp: '2025-06-10T10:00:00.000Z' },
+  userId: 'user_1',
+  sessionId: 'b7d1e1a4-2c4e-4f0a-8d3b-0f5d2c9e6a22',
+  timestamp: '2025-06-10T10:00:00.000Z',
+  url: 'https://preptalk.in/daily-quiz?token=secret',
+  userAgent: CHROME,
+  referrer: 'https://www.google.com/search?q=upsc',
+  ...overrides
+});
+
+const event = (name: string, userId: string | null, occurredAt: string, extra: Partial<ReportEvent> = {}): ReportEvent => ({
+  name,
+  userId,
+  occurredAt: new Date(occurredAt),
+  route: '/',
+  properties: {},
+  ...extra
+});
+
+describe('collection checks', () => {
+  it('recognises crawlers and scripted clients', () => {
+    expect(isBotUserAgent(CHROME)).toBe(false);
+    expect(isBotUserAgent('Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)')).toBe(true);
+    expect(isBotUserAgent('Mozilla/5.0 HeadlessChrome/124.0')).toBe(true);
+    expect(isBotUserAgent('')).toBe(true);
+  });
+
+  it('needs explicit consent and honours privacy signals', () => {
+    expect(hasAnalyticsConsent('granted', new Headers())).toBe(true);
+    expect(hasAnalyticsConsent(undefined, new Headers())).toBe(false);
+    expect(hasAnalyticsConsent('denied', new Headers())).toBe(false);
+    expect(hasAnalyticsConsent('granted', new Headers({ 'Sec-GPC': '1' }))).toBe(false);
+  });
+
+  it('rejects malformed events', () => {
+    expect(collectedEventSchema.safeParse(collected()).success).toBe(true);
+    expect(collectedEventSchema.safeParse(collected({ eventName: 'Page View' })).success).toBe(false);
+    expect(collectedEventSchema.safeParse(collected({ eventData: { blob: 'x'.repeat(9000) } })).success).toBe(false);
+  });
+
+  it('only accepts event IDs that are safe as document IDs', () => {
+    expect(collectedEventSchema.safeParse(collected({ eventId: 'abc_DEF-123' })).success).toBe(true);
+    expect(collectedEventSchema.safeParse(collected({ eventId: '../../users/admin' })).success).toBe(false);
+    expect(collectedEventSchema.safeParse(collected({ eventId: 'event.with.dots' })).success).toBe(false);
+    expect(collectedEventSchema.safeParse(collected({ eventId: '__reserved__' })).success).toBe(false);
+    expect(collectedEventSchema.safeParse(collected({ eventId: 'short' })).success).toBe(false);
+  });
+});
+
+describe('toStoredEvent', () => {
+  const receivedAt = new Date('2025-06-10T10:00:05.000Z');
+
+  it('strips query strings and groups the path into a route', () => {
+    const stored = toStoredEvent(collected({
+      url: 'https://preptalk.in/questions/a1b2c3d4e5f6g7h8?ref=mail',
+      eventData: { url: 'https://preptalk.in/questions/a1b2c3d4e5f6g7h8?ref=mail', timestamp: 'x' }
+    }), receivedAt, 'user_1');
+
+    expect(stored).toMatchObject({
+      name: 'page_view',
+      day: '2025-06-10',
+      path: '/questions/a1b2c3d4e5f6g7h8',
+      route: '/questions/[id]',
+      referrerHost: 'www.google.com',
+      properties: { url: 'https://preptalk.in/questions/a1b2c3d4e5f6g7h8' }
+    });
+  });
+
+  it('falls back to the receive time when the client clock is far off', () => {
+    expect(toStoredEvent(collected({ timestamp: '2025-06-12T00:00:00.000Z' }), receivedAt, null).occurredAt).toEqual(receivedAt);
+    expect(toStoredEvent(collected(), receivedAt, null).occurredAt).toEqual(new Date('2025-06-10T10:00:00.000Z'));
+  });
+
+  it('attributes events to the authenticated user, not the one the client reports', () => {
+    expect(toStoredEvent(collected({ userId: 'someone_else' }), receivedAt, 'user_1').userId).toBe('user_1');
+    expect(toStoredEvent(collected({ userId: 'someone_else' }), receivedAt, null).userId).toBeNull();
+  });
+});
+
+describe('day partitions', () => {
+  it('uses the IST calendar day', () => {
+    expect(getAnalyticsDay(new Date('2025-06-10T18:29:59Z'))).toBe('2025-06-10');
+    expect(getAnalyticsDay(new Date('2025-06-10T18:30:00Z'))).toBe('2025-06-11');
+  });
+
+  it('lists every day in a range', () => {
+    expect(getAnalyticsDays(new Date('2025-06-29T12:00:00Z'), new Date('2025-07-01T12:00:00Z'))).toEqual([
+      '2025-06-29',
+      '2025-06-30',
+      '2025-07-01'
+    ]);
+  });
+
+  it('keeps readable path segments', () => {
+    expect(normalizeRoute('/daily-quiz/past-year/section/pre_gs_history/')).toBe('/daily-quiz/past-year/section/pre_gs_history');
+    expect(normalizeRoute('/mains-test-series/2025/attempt/9c1f3e2a-7b7d-4d2e-9a7c-1e2f3a4b5c6d')).toBe('/mains-test-series/[id]/attempt/[id]');
+  });
+});
+
+describe('computeFunnel', () => {
+  it('counts steps only when taken in order', () => {
+    const funnel = computeFunnel([
+      event('sign_up', 'a', '2025-06-01T10:00:00Z'),
+      event('onboarding_completed', 'a', '2025-06-01T10:05:00Z'),
+      event('quiz_completed', 'a', '2025-06-02T09:00:00Z'),
+      event('quiz_completed', 'a', '2025-06-03T09:00:00Z'),
+      event('sign_up', 'b', '2025-06-01T11:00:00Z'),
+      event('onboarding_completed', 'b', '2025-06-01T11:05:00Z'),
+      // Upgraded before finishing a quiz, so stops at onboarding
+      event('subscription_upgraded', 'b', '2025-06-01T11:10:00Z'),
+      event('onboarding_completed', 'c', '2025-06-01T12:00:00Z'),
+      event('sign_up', null, '2025-06-01T12:00:00Z')
+    ]);
+
+    expect(funnel.map(step => step.users)).toEqual([2, 2, 1, 0]);
+    expect(funnel[2]).toMatchObject({ event: 'quiz_completed', conversionFromPrevious: 50, conversionFromStart: 50 });
+  });
+});
+
+describe('computeRetentionCohorts', () => {
+  it('groups users by signup week and counts later active weeks', () => {
+    const cohorts = computeRetentionCohorts([
+      event('sign_up', 'a', '2025-06-02T10:00:00Z'), // Monday
+      event('session_start', 'a', '2025-06-10T10:00:00Z'),
+      event('sign_up', 'b', '2025-06-08T10:00:00Z'), // Sunday of the same week
+      event('page_view', 'b', '2025-06-17T10:00:00Z'),
+      event('sign_up', 'c', '2025-06-09T10:00:00Z'),
+      // Active before the window's signups are not counted as a cohort
+      event('session_start', 'd', '2025-06-09T10:00:00Z')
+    ], new Date('2025-06-18T00:00:00Z'));
+
+    expect(cohorts).toEqual([
+      { cohortStart: '2025-06-02', users: 2, retained: [2, 1, 1] },
+      { cohortStart: '2025-06-09', users: 1, retained: [1, 0] }
+    ]);
+  });
+});
+
+describe('computeWebVitalPercentiles', () => {
+  it('reports nearest-rank percentiles per route and metric', () => {
+    const vitals = [100, 200, 300, 400, 500, 600, 700, 800, 900, 1000].map((value, index) =>
+      event('web_vital', null, '2025-06-01T10:00:00Z', { route: '/dashboard', properties: { name: 'LCP', value, id: `v${index}` } })
+    );
+    vitals.push(event('web_vital', null, '2025-06-01T10:00:00Z', { route: '/dashboard', properties: { name: 'CLS', value: 0.02 } }));
+    vitals.push(event('web_vital', null, '2025-06-01T10:00:00Z', { route: '/dashboard', properties: { name: 'LCP' } }));
+
+    expect(computeWebVitalPercentiles(vitals)).toEqual([
+      { route: '/dashboard', metric: 'CLS', samples: 1, p50: 0.02, p75: 0.02, p95: 0.02 },
+      { route: '/dashboard', metric: 'LCP', samples: 10, p50: 500, p75: 800, p95: 1000 }
+    ]);
+  });
+});
@@ -0,0 +1,50 @@
+import { buildAuditEntry, diffRecords } from '../audit-log';
+
+describe('Audit Log', () => {
+  describe('diffRecords', () => {
+    it('should list changed, added and removed fields', () => {
+      const changes = diffRecords(
+        { question: 'Old text', difficulty: 'Easy', tags: ['polity'], source: 'UPSC' },
+        { question: 'New text', difficulty: 'Easy', tags: ['polity', 'economy'], year: 2023 }
+      );
+
+      expect(changes).toEqual([
+        { field: 'question', before: 'Old text', after: 'New text' },
+        { field: 'source', before: 'UPSC', after: null },
+        { field: 'tags', before: ['polity'], after: ['polity', 'economy'] },
+        { field: 'year', before: null, after: 2023 }
+      ]);
+    });
+
+    it('should ignore key order in nested values and bookkeeping timestamps', () => {
+      const changes = diffRecords(
+        { options: { A: 'One', B: 'Two' }, updatedAt: new Date('2024-01-01') },
+        { options: { B: 'Two', A: 'One' }, updatedAt: new Date('2024-02-01') }
+      );
+
+      expect(changes).toEqual([]);
+    });
+
+    it('should treat a create as a diff from nothing', () => {
+      expect(diffRecords(null, { question: 'Q', isActive: true })).toEqual([
+        { field: 'isActive', before: null, after: true },
+        { field: 'question', before: null, after: 'Q' }
+      ]);
+    });
+  });
+
+  it('should build an entry without undefined fields', () => {
+    const now = new Date('2024-03-01T10:00:00Z');
+    const entry = buildAuditEntry({ uid: 'u1', roles: ['content-editor'] }, 'deactivate', 'prelims-question', 'q1', [], undefined, now);
+
+    expect(entry).toEqual({
+      action: 'deactivate',
+      entityType: 'prelims-question',
+      entityId: 'q1',
+      actorId: 'u1',
+      actorRoles: ['content-editor'],
+      changes: [],
+      createdAt: now
+    });
+  });
+});
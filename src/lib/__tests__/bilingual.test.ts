@@ -0,0 +1,67 @@
+import {
+  getLocalizedQuestion,
+  getPrimaryOutputLanguage,
+  hasHindiContent,
+  isBilingualOutput,
+  splitBilingualOptions
+} from '../bilingual';
+import { toReviewQuestionFromMCQ } from '../spaced-repetition';
+
+const question = {
+  question: 'Which Article guarantees the right to life?',
+  options: ['Article 14', 'Article 21', 'Article 32', 'Article 19'],
+  explanation: 'Article 21 protects life and personal liberty.',
+  questionHi: 'कौन-सा अनुच्छेद जीवन के अधिकार की गारंटी देता है?',
+  optionsHi: ['अनुच्छेद 14', 'अनुच्छेद 21', '', 'अनुच्छेद 19'],
+  explanationHi: 'अनुच्छेद 21 प्राण और दैहिक स्वतंत्रता का संरक्षण करता है।'
+};
+
+describe('Bilingual', () => {
+  describe('output language', () => {
+    it('should recognise bilingual requests and keep English as the primary language', () => {
+      expect(isBilingualOutput('Bilingual')).toBe(true);
+      expect(isBilingualOutput('Hindi and English')).toBe(true);
+      expect(isBilingualOutput('Hindi')).toBe(false);
+      expect(getPrimaryOutputLanguage('Bilingual')).toBe('English');
+      expect(getPrimaryOutputLanguage('Hindi')).toBe('Hindi');
+      expect(getPrimaryOutputLanguage(undefined)).toBe('English');
+    });
+  });
+
+  describe('getLocalizedQuestion', () => {
+    it('should switch to Hindi and fall back to English per option', () => {
+      const hindi = getLocalizedQuestion(question, 'hi');
+      expect(hindi.question).toBe(question.questionHi);
+      expect(hindi.options).toEqual(['अनुच्छेद 14', 'अनुच्छेद 21', 'Article 32', 'अनुच्छेद 19']);
+      expect(hindi.explanation).toBe(question.explanationHi);
+    });
+
+    it('should stay in English for questions without Hindi text', () => {
+      const englishOnly = { question: 'Q', options: ['A1', 'B1'], explanation: 'E', questionHi: ' ' };
+      expect(hasHindiContent(englishOnly)).toBe(false);
+      expect(getLocalizedQuestion(englishOnly, 'hi')).toEqual({ question: 'Q', options: ['A1', 'B1'], explanation: 'E' });
+    });
+  });
+
+  describe('splitBilingualOptions', () => {
+    it('should only keep Hindi options when every option has one', () => {
+      expect(splitBilingualOptions([{ text: 'One', textHi: 'एक' }, { text: 'Two', textHi: 'दो' }]))
+        .toEqual({ options: ['One', 'Two'], optionsHi: ['एक', 'दो'] });
+      expect(splitBilingualOptions([{ text: 'One', textHi: 'एक' }, { text: 'Two' }]))
+        .toEqual({ options: ['One', 'Two'] });
+    });
+  });
+
+  describe('review queue questions', () => {
+    it('should carry generated Hindi text into the review snapshot', () => {
+      const review = toReviewQuestionFromMCQ({
+        question: 'Q',
+        questionHi: 'प्रश्न',
+        options: [{ text: 'One', textHi: 'एक', correct: true }, { text: 'Two', textHi: 'दो' }]
+      });
+      expect(review.questionHi).toBe('प्रश्न');
+      expect(review.optionsHi).toEqual(['एक', 'दो']);
+      expect('explanationHi' in review).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import {
+  BillingProfile,
+  InvoiceParty,
+  buildCreditNote,
+  buildInvoice,
+  calculateGst,
+  formatInvoiceNumber,
+  getFinancialYear,
+  getInvoiceCounterId,
+  getPlaceOfSupply,
+  isValidGstin
+} from '../payment/gst-invoices';
+
+const SELLER: InvoiceParty = { name: 'PrepTalk Learning Pvt Ltd', gstin: '29AAACP1234A1Z5', stateCode: '29' };
+
+const invoiceFor = (profile: BillingProfile | null, amount = 499) => buildInvoice({
+  paymentId: 'pay_NQnAZu3Rbyg0MH',
+  userId: 'user_1',
+  sequence: 42,
+  issuedAt: new Date('2025-06-10T10:00:00Z'),
+  amount,
+  lineItem: { description: 'Mains plan - monthly subscription', sac: '999293', listPrice: amount, adjustments: [] },
+  seller: SELLER,
+  profile
+});
+
+describe('isValidGstin', () => {
+  it('accepts a registered GSTIN in any case', () => {
+    expect(isValidGstin('27AAPFU0939F1ZV')).toBe(true);
+    expect(isValidGstin(' 27aapfu0939f1zv ')).toBe(true);
+  });
+
+  it('rejects a bad check character, format or state code', () => {
+    expect(isValidGstin('27AAPFU0939F1ZW')).toBe(false);
+    expect(isValidGstin('27AAPFU0939F1Z')).toBe(false);
+    expect(isValidGstin('99AAPFU0939F1ZV')).toBe(false);
+  });
+});
+
+describe('calculateGst', () => {
+  it('splits an intra-state amount into CGST and SGST', () => {
+    expect(calculateGst(499, '29', '29')).toEqual({
+      taxableValue: 422.88,
+      cgst: 38.06,
+      sgst: 38.06,
+      igst: 0,
+      total: 499,
+      interState: false
+    });
+  });
+
+  it('charges IGST across states', () => {
+    expect(calculateGst(499, '29', '27')).toMatchObject({ taxableValue: 422.88, cgst: 0, sgst: 0, igst: 76.12, interState: true });
+  });
+
+  it('keeps the parts adding up to the total when the tax does not halve evenly', () => {
+    const gst = calculateGst(199, '29', '29');
+    expect(Math.round((gst.taxableValue + gst.cgst + gst.sgst) * 100)).toBe(19900);
+  });
+});
+
+describe('getPlaceOfSupply', () => {
+  it('prefers the GSTIN state, then the chosen state, then the seller state', () => {
+    expect(getPlaceOfSupply({ name: 'Acme', gstin: '27AAPFU0939F1ZV', stateCode: '07' }, '29')).toBe('27');
+    expect(getPlaceOfSupply({ name: 'Asha', stateCode: '07' }, '29')).toBe('07');
+    expect(getPlaceOfSupply(null, '29')).toBe('29');
+  });
+});
+
+describe('invoice numbering', () => {
+  it('follows the April-March financial year in IST', () => {
+    expect(getFinancialYear(new Date('2025-03-31T18:29:59Z'))).toBe('24-25');
+    expect(getFinancialYear(new Date('2025-03-31T18:30:00Z'))).toBe('25-26');
+    expect(getFinancialYear(new Date('2099-12-01T00:00:00Z'))).toBe('99-00');
+  });
+
+  it('keeps a separate series per document type and year', () => {
+    const issuedAt = new Date('2025-06-10T10:00:00Z');
+    expect(formatInvoiceNumber('invoice', issuedAt, 42)).toBe('INV/25-26/000042');
+    expect(formatInvoiceNumber('credit_note', issuedAt, 7)).toBe('CN/25-26/000007');
+    expect(getInvoiceCounterId('invoice', issuedAt)).toBe('INV_25-26');
+  });
+});
+
+describe('buildInvoice', () => {
+  it('bills a registered business at its GSTIN state', () => {
+    const invoice = invoiceFor({ name: 'Acme Coaching', gstin: '27aapfu0939f1zv', address: 'Pune' });
+
+    expect(invoice).toMatchObject({
+      id: 'pay_NQnAZu3Rbyg0MH',
+      type: 'invoice',
+      number: 'INV/25-26/000042',
+      placeOfSupply: '27',
+      buyer: { name: 'Acme Coaching', gstin: '27AAPFU0939F1ZV', stateCode: '27', address: 'Pune' },
+      igst: 76.12,
+      total: 499
+    });
+  });
+
+  it('drops an invalid GSTIN and bills as a consumer', () => {
+    const invoice = invoiceFor({ name: 'Asha', gstin: '27AAPFU0939F1ZW' });
+
+    expect(invoice.buyer.gstin).toBeNull();
+    expect(invoice).toMatchObject({ placeOfSupply: '29', cgst: 38.06, sgst: 38.06, igst: 0 });
+  });
+});
+
+describe('buildCreditNote', () => {
+  const original = invoiceFor({ name: 'Acme Coaching', gstin: '27AAPFU0939F1ZV' });
+
+  it('reverses a partial refund the way the invoice charged it', () => {
+    const note = buildCreditNote(original, {
+      refundId: 'rfnd_1',
+      sequence: 3,
+      issuedAt: new Date('2026-04-02T00:00:00Z'),
+      amount: 100
+    });
+
+    expect(note).toMatchObject({
+      id: 'rfnd_1',
+      type: 'credit_note',
+      number: 'CN/26-27/000003',
+      paymentId: 'pay_NQnAZu3Rbyg0MH',
+      originalInvoiceNumber: 'INV/25-26/000042',
+      placeOfSupply: '27',
+      taxableValue: 84.75,
+      igst: 15.25,
+      total: 100
+    });
+  });
+
+  it('never credits more than was invoiced', () => {
+    const note = buildCreditNote(original, { refundId: 'rfnd_2', sequence: 4, issuedAt: new Date(), amount: 1000 });
+    expect(note.total).toBe(499);
+  });
+});
@@ -0,0 +1,91 @@
+import {
+  BOARD_QUESTION_COUNT,
+  INTERVIEW_BOARD,
+  INTERVIEW_MAX_MARKS,
+  compileBoardReport,
+  getBoardMemberForTurn,
+  getDafContextForMember,
+  getBoardMember,
+  DafProfile
+} from '../interview-board';
+
+const profile: DafProfile = {
+  homeState: 'Kerala',
+  homeDistrict: 'Kozhikode',
+  education: [{ degree: 'B.Tech', discipline: 'Civil Engineering', institution: 'NIT Calicut', year: 2019 }],
+  hobbies: ['Birdwatching', 'Chess'],
+  optionalSubject: 'Geography',
+  servicePreferences: ['IAS', 'IFS', 'IPS'],
+  achievements: []
+};
+
+describe('Interview Board', () => {
+  describe('getBoardMemberForTurn', () => {
+    it('should have the chairman open and close the interview', () => {
+      expect(getBoardMemberForTurn(0).role).toBe('chairman');
+      expect(getBoardMemberForTurn(BOARD_QUESTION_COUNT - 1).role).toBe('chairman');
+    });
+
+    it('should rotate the members in between', () => {
+      const askers = Array.from({ length: BOARD_QUESTION_COUNT - 2 }, (_, i) => getBoardMemberForTurn(i + 1).id);
+      expect(askers.slice(0, 4)).toEqual(['academic', 'diplomat', 'administrator', 'social']);
+      expect(askers[4]).toBe('academic');
+      expect(askers).not.toContain('chairman');
+    });
+  });
+
+  describe('getDafContextForMember', () => {
+    it('should only include the fields the member focuses on', () => {
+      const context = getDafContextForMember(profile, getBoardMember('academic'));
+      expect(context).toEqual({ education: profile.education, optionalSubject: 'Geography' });
+    });
+
+    it('should skip empty fields and keep the district with the home state', () => {
+      const context = getDafContextForMember(profile, getBoardMember('chairman'));
+      expect(context).toEqual({
+        servicePreferences: ['IAS', 'IFS', 'IPS'],
+        homeState: 'Kerala',
+        homeDistrict: 'Kozhikode'
+      });
+    });
+
+    it('should fall back to the home state when the member has nothing to draw on', () => {
+      const context = getDafContextForMember({ ...profile, hobbies: [] }, getBoardMember('social'));
+      expect(context).toEqual({ homeState: 'Kerala' });
+    });
+  });
+
+  describe('compileBoardReport', () => {
+    it('should scale each member to 275 and average across the board', () => {
+      const report = compileBoardReport([
+        { turn: 0, memberId: 'chairman', score: 8, remarks: 'Composed and honest' },
+        { turn: 1, memberId: 'academic', score: 6 },
+        { turn: 2, memberId: 'diplomat', score: 4 },
+        { turn: 9, memberId: 'chairman', score: 6 }
+      ]);
+
+      expect(report.maxMarks).toBe(INTERVIEW_MAX_MARKS);
+      expect(report.members.map(member => member.memberId)).toEqual(['chairman', 'academic', 'diplomat']);
+      expect(report.members[0]).toMatchObject({ questionsAsked: 2, averageScore: 7, marks: 192.5 });
+      expect(report.members[0].remarks).toEqual(['Composed and honest']);
+      // (192.5 + 165 + 110) / 3
+      expect(report.marks).toBe(156);
+      expect(report.grade).toBe('Good');
+      expect(report.strongestField).toBe('servicePreferences');
+      expect(['languages', 'hobbies']).toContain(report.weakestField);
+    });
+
+    it('should clamp out-of-range scores', () => {
+      const report = compileBoardReport([{ turn: 0, memberId: 'chairman', score: 14 }]);
+      expect(report.marks).toBe(INTERVIEW_MAX_MARKS);
+      expect(report.grade).toBe('Outstanding');
+    });
+
+    it('should return zero marks for an empty interview', () => {
+      const report = compileBoardReport([], INTERVIEW_BOARD);
+      expect(report.marks).toBe(0);
+      expect(report.members).toEqual([]);
+      expect(report.grade).toBe('Below Average');
+    });
+  });
+});
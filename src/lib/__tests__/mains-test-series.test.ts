@@ -0,0 +1,170 @@
+import {
+  DEFAULT_GRADING_CRITERIA,
+  MAINS_TEST_FORMATS,
+  buildScorecard,
+  buildTestPaperQuestions,
+  canUploadPages,
+  evaluatedResult,
+  getTestWindowStatus,
+  scoreAgainstCriteria,
+  segmentBooklet
+} from '../mains-test-series';
+
+const sourceQuestion = (id: string, subject = 'Polity') => ({
+  id,
+  question: `Question ${id}`,
+  subject: [subject],
+  gradingCriteria: [],
+  modelAnswers: []
+});
+
+describe('Mains Test Series', () => {
+  describe('paper formats', () => {
+    it('should add up to the paper total', () => {
+      Object.values(MAINS_TEST_FORMATS).forEach(format => {
+        expect(format.slots.reduce((sum, slot) => sum + slot.marks, 0)).toBe(format.totalMarks);
+      });
+      expect(MAINS_TEST_FORMATS[20].totalMarks).toBe(250);
+    });
+
+    it('should lay questions out with format marks and fallback criteria', () => {
+      const questions = Array.from({ length: 10 }, (_, i) => sourceQuestion(`q${i}`));
+      questions[9] = {
+        ...questions[9],
+        modelAnswers: [
+          { id: 'm1', content: 'Weak answer', score: 4, feedback: '', answerType: 'text' },
+          { id: 'm2', content: 'Best answer', score: 9, feedback: '', answerType: 'text' }
+        ]
+      } as typeof questions[number];
+
+      const laidOut = buildTestPaperQuestions(questions, 10);
+
+      expect(laidOut[0]).toMatchObject({ questionNumber: 1, marks: 10, wordLimit: 150 });
+      expect(laidOut[9]).toMatchObject({ questionNumber: 10, marks: 15, wordLimit: 250, modelAnswer: 'Best answer' });
+      expect(laidOut[0].gradingCriteria).toBe(DEFAULT_GRADING_CRITERIA);
+      expect(() => buildTestPaperQuestions(questions.slice(0, 9), 10)).toThrow('exactly 10');
+    });
+  });
+
+  describe('test window', () => {
+    const paper = { releaseAt: new Date('2025-06-01T04:30:00Z'), closesAt: new Date('2025-06-08T18:30:00Z') };
+
+    it('should follow the release and close times', () => {
+      expect(getTestWindowStatus(paper, new Date('2025-06-01T04:00:00Z'))).toBe('scheduled');
+      expect(getTestWindowStatus(paper, new Date('2025-06-03T10:00:00Z'))).toBe('open');
+      expect(getTestWindowStatus(paper, new Date('2025-06-09T00:00:00Z'))).toBe('closed');
+    });
+
+    it('should accept pages until the upload grace period ends', () => {
+      const attempt = { status: 'writing' as const, startedAt: new Date('2025-06-03T10:00:00Z') };
+      expect(canUploadPages(attempt, 180, new Date('2025-06-03T13:29:00Z'))).toBe(true);
+      expect(canUploadPages(attempt, 180, new Date('2025-06-03T13:31:00Z'))).toBe(false);
+      expect(canUploadPages({ ...attempt, status: 'evaluating' }, 180, new Date('2025-06-03T11:00:00Z'))).toBe(false);
+    });
+  });
+
+  describe('segmentBooklet', () => {
+    it('should split answers on question markers across pages', () => {
+      const { segments, unassigned } = segmentBooklet([
+        { pageNumber: 2, text: 'continues the federalism answer\nQ.3) Inflation targeting is', confidence: 0.7 },
+        { pageNumber: 1, text: 'Roll No. 1234\nQ1. Federalism in India\n1. Cooperative\n2. Competitive', confidence: 0.9 },
+        { pageNumber: 3, text: 'उत्तर 2: पंचायती राज', confidence: 0.8 }
+      ], [1, 2, 3]);
+
+      expect(unassigned).toEqual([{ pageNumber: 1, text: 'Roll No. 1234' }]);
+      expect(segments.map(segment => segment.questionNumber)).toEqual([1, 2, 3]);
+      expect(segments[0]).toMatchObject({
+        text: 'Federalism in India\n1. Cooperative\n2. Competitive\ncontinues the federalism answer',
+        pageNumbers: [1, 2],
+        confidence: 0.7
+      });
+      expect(segments[1].text).toBe('पंचायती राज');
+      expect(segments[2].text).toBe('Inflation targeting is');
+    });
+
+    it('should use page tags and ignore markers outside the paper', () => {
+      const { segments } = segmentBooklet([
+        { pageNumber: 1, text: 'Answer to the first question', confidence: 0.9, questionNumber: 1 },
+        { pageNumber: 2, text: 'Q 25 is not on this paper', confidence: 0.9 }
+      ], [1, 2]);
+
+      expect(segments).toHaveLength(1);
+      expect(segments[0].text).toBe('Answer to the first question\nQ 25 is not on this paper');
+    });
+  });
+
+  describe('scoreAgainstCriteria', () => {
+    const criteria = [
+      { criterion: 'Content', weightage: 60, description: '' },
+      { criterion: 'Structure', weightage: 40, description: '' }
+    ];
+
+    it('should scale reported criterion marks to the question and round to halves', () => {
+      const scored = scoreAgainstCriteria(criteria, [
+        { criterion: 'content', marks: 7.2, feedback: 'Good data' },
+        { criterion: 'Structure', marks: 9 }
+      ], 0, 15);
+
+      expect(scored.criteria[0]).toMatchObject({ marks: 7.2, maxMarks: 9, feedback: 'Good data' });
+      expect(scored.criteria[1]).toMatchObject({ marks: 6, maxMarks: 6 });
+      expect(scored.awardedMarks).toBe(13);
+    });
+
+    it('should split the overall award by weightage when criteria are missing', () => {
+      const scored = scoreAgainstCriteria(criteria, undefined, 5, 10);
+      expect(scored.criteria.map(score => score.marks)).toEqual([3, 2]);
+      expect(scored.awardedMarks).toBe(5);
+    });
+  });
+
+  describe('evaluatedResult', () => {
+    it('should flag low-confidence transcriptions for review', () => {
+      const [question] = buildTestPaperQuestions(Array.from({ length: 10 }, (_, i) => sourceQuestion(`q${i}`)), 10);
+      const evaluation = {
+        awardedMarks: 6,
+        confidence: 0.9,
+        criteriaBreakdown: [],
+        analysis: { strengths: ['Clear intro'], weaknesses: [], missingPoints: [] }
+      };
+      const segment = { questionNumber: 1, text: 'Federalism is a compound polity', pageNumbers: [1, 2], confidence: 0.8 };
+
+      expect(evaluatedResult(question, segment, evaluation)).toMatchObject({ awardedMarks: 6, status: 'evaluated', wordCount: 5 });
+      expect(evaluatedResult(question, { ...segment, confidence: 0.4 }, evaluation).status).toBe('review-required');
+    });
+  });
+
+  describe('buildScorecard', () => {
+    it('should fill unattempted questions and compare with the topper', () => {
+      const questions = buildTestPaperQuestions(Array.from({ length: 10 }, (_, i) => sourceQuestion(`q${i}`, i < 5 ? 'Polity' : 'Economy')), 10);
+      const paper = { id: 'p1', questions, totalMarks: 125 };
+      const result = {
+        questionNumber: 1,
+        questionId: 'q0',
+        maxMarks: 10,
+        awardedMarks: 6,
+        status: 'evaluated' as const,
+        answerText: 'My answer',
+        wordCount: 2,
+        pageNumbers: [1],
+        criteria: [],
+        strengths: [],
+        weaknesses: [],
+        missingPoints: []
+      };
+
+      const scorecard = buildScorecard(paper, 'u1', [result], [
+        { userId: 'u2', questionNumber: 1, awardedMarks: 8, answerText: 'Topper answer' },
+        { userId: 'u1', questionNumber: 1, awardedMarks: 6, answerText: 'My answer' },
+        { userId: 'u3', questionNumber: 1, awardedMarks: 7.5, answerText: 'Second' }
+      ], new Date('2025-06-03T14:00:00Z'));
+
+      expect(scorecard.questions).toHaveLength(10);
+      expect(scorecard.questions[1].status).toBe('not-attempted');
+      expect(scorecard).toMatchObject({ awardedMarks: 6, attempted: 1, percentage: 4.8 });
+      expect(scorecard.subjectWise).toEqual({ Polity: { awarded: 6, max: 50 }, Economy: { awarded: 0, max: 75 } });
+      expect(scorecard.topperComparison).toEqual([
+        { questionNumber: 1, yourMarks: 6, topperMarks: 8, gap: 2, topperAnswer: 'Topper answer', source: 'candidate' }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  AICallRecord,
+  MockModelProvider,
+  ModelRoute,
+  ModelRouter,
+  ModelRouterConfig,
+  ModelRouterError,
+  buildModelRoutes
+} from '../model-router';
+
+const routes: ModelRoute[] = [
+  { provider: 'openai', model: 'gpt-premium', tier: 'premium', latencyMs: 9000, pricing: { input: 0.01, output: 0.03 } },
+  { provider: 'openai', model: 'gpt-basic', tier: 'basic', latencyMs: 1500, pricing: { input: 0.0005, output: 0.0015 } },
+  { provider: 'anthropic', model: 'claude-premium', tier: 'premium', latencyMs: 8000, pricing: { input: 0.003, output: 0.015 } },
+  { provider: 'google', model: 'gemini-standard', tier: 'standard', latencyMs: 2500, pricing: { input: 0.0001, output: 0.0003 } }
+];
+
+function createRouter(options: { failing?: string[]; rateLimits?: ModelRouterConfig['rateLimits'] } = {}) {
+  const records: AICallRecord[] = [];
+  let clock = 0;
+  const respond = (model: string) => {
+    if (options.failing?.includes(model)) throw Object.assign(new Error('429 Too Many Requests'), { status: 429 });
+    return `answer from ${model}`;
+  };
+  const router = new ModelRouter({
+    routes,
+    providers: [
+      new MockModelProvider('openai', respond),
+      new MockModelProvider('anthropic', respond),
+      new MockModelProvider('google', respond)
+    ],
+    rateLimits: options.rateLimits,
+    recordCall: record => { records.push(record); },
+    now: () => clock
+  });
+  return { router, records, advance: (ms: number) => { clock += ms; } };
+}
+
+describe('Model Router', () => {
+  describe('rankRoutes', () => {
+    it('should prefer the cheapest model that meets the task tier', () => {
+      const { router } = createRouter();
+      expect(router.rankRoutes({ task: 'quiz-generation' }).map(route => route.model)).toEqual(['claude-premium', 'gpt-premium']);
+    });
+
+    it('should prefer the fastest model for latency-sensitive tasks', () => {
+      const { router } = createRouter();
+      expect(router.rankRoutes({ task: 'writing-suggestions' }).map(route => route.model)).toEqual(['gpt-basic', 'gemini-standard']);
+    });
+
+    it('should only consider the providers the caller can reach', () => {
+      const { router } = createRouter();
+      expect(router.rankRoutes({ task: 'interview', providers: ['google'] }).map(route => route.model)).toEqual(['gemini-standard']);
+    });
+  });
+
+  describe('generate', () => {
+    it('should log token usage and cost against the user', async () => {
+      const { router, records } = createRouter();
+      const response = await router.generate({ task: 'quiz-generation', userId: 'user-1', prompt: 'x'.repeat(4000) });
+
+      expect(response.result).toBe('answer from claude-premium');
+      expect(response.usage).toEqual({ inputTokens: 1000, outputTokens: 7 });
+      expect(response.costUsd).toBeCloseTo(0.003 + 0.007 * 0.015);
+      expect(records).toEqual([expect.objectContaining({
+        userId: 'user-1',
+        task: 'quiz-generation',
+        provider: 'anthropic',
+        model: 'claude-premium',
+        success: true,
+        inputTokens: 1000,
+        outputTokens: 7
+      })]);
+    });
+
+    it('should fall back to the next model and cool down a provider that ran out of quota', async () => {
+      const { router, records, advance } = createRouter({ failing: ['claude-premium'] });
+
+      const first = await router.generate({ task: 'quiz-generation', userId: 'user-1', prompt: 'Q' });
+      expect(first.result).toBe('answer from gpt-premium');
+      expect(first.failedAttempts).toEqual([expect.objectContaining({ provider: 'anthropic', reason: 'quota' })]);
+      expect(records.map(record => record.success)).toEqual([false, true]);
+
+      const second = await router.generate({ task: 'quiz-generation', prompt: 'Q' });
+      expect(second.failedAttempts[0].message).toContain('cooling down');
+      expect(records).toHaveLength(3);
+
+      advance(61 * 1000);
+      await expect(router.generate({ task: 'quiz-generation', prompt: 'Q' })).resolves.toMatchObject({ route: { provider: 'openai' } });
+      expect(records).toHaveLength(5);
+    });
+
+    it('should skip a provider whose requests per minute are used up', async () => {
+      const { router, advance } = createRouter({
+        rateLimits: { anthropic: { requestsPerMinute: 1, tokensPerMinute: 100000 } }
+      });
+
+      await expect(router.generate({ task: 'quiz-generation', prompt: 'Q' })).resolves.toMatchObject({ route: { provider: 'anthropic' } });
+      await expect(router.generate({ task: 'quiz-generation', prompt: 'Q' })).resolves.toMatchObject({ route: { provider: 'openai' } });
+
+      advance(61 * 1000);
+      await expect(router.generate({ task: 'quiz-generation', prompt: 'Q' })).resolves.toMatchObject({ route: { provider: 'anthropic' } });
+    });
+
+    it('should throw with every attempt when all models fail', async () => {
+      const { router } = createRouter({ failing: ['claude-premium', 'gpt-premium'] });
+
+      const error = await router.generate({ task: 'quiz-generation', prompt: 'Q' }).catch(caught => caught);
+      expect(error).toBeInstanceOf(ModelRouterError);
+      expect(error.attempts.map((attempt: { model: string }) => attempt.model)).toEqual(['claude-premium', 'gpt-premium']);
+    });
+
+    it('should not fail the call when usage logging fails', async () => {
+      const router = new ModelRouter({
+        routes,
+        providers: [new MockModelProvider('google')],
+        recordCall: () => { throw new Error('Firestore unavailable'); }
+      });
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(router.generate({ task: 'interview', prompt: 'Hello' })).resolves.toMatchObject({ result: 'Hello' });
+      warn.mockRestore();
+    });
+  });
+
+  describe('callProvider', () => {
+    it('should fail over when a caller rejects the reply', async () => {
+      const { router, records } = createRouter();
+      const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+      const call = await router.run({ task: 'quiz-generation' }, async route => {
+        const { text, usage } = await router.callProvider(route, { prompt: 'Q', json: true });
+        if (route.provider === 'anthropic') throw new Error('Model output does not match the schema');
+        return { result: text, usage };
+      });
+
+      expect(call).toMatchObject({ result: 'answer from gpt-premium', failedAttempts: [{ provider: 'anthropic', reason: 'error' }] });
+      expect(records.map(record => record.success)).toEqual([false, true]);
+      warn.mockRestore();
+    });
+
+    it('should reject routes whose provider is not registered', async () => {
+      const { router } = createRouter();
+
+      await expect(router.callProvider({ ...routes[0], provider: 'mock' }, { prompt: 'Q' })).rejects.toThrow('No mock provider is registered');
+    });
+  });
+
+  describe('buildModelRoutes', () => {
+    it('should build routes for models with both a price and a profile', () => {
+      const built = buildModelRoutes(
+        { google: { 'gemini-1.5-flash': { input: 0.000075, output: 0.0003 }, 'gemini-unknown': { input: 1, output: 1 } } },
+        { 'gemini-1.5-flash': { tier: 'standard', latencyMs: 2500 } }
+      );
+
+      expect(built).toEqual([{
+        provider: 'google',
+        model: 'gemini-1.5-flash',
+        tier: 'standard',
+        latencyMs: 2500,
+        pricing: { input: 0.000075, output: 0.0003 }
+      }]);
+    });
+  });
+});
@@ -0,0 +1,109 @@
+import {
+  MOCK_PAPERS,
+  assembleMockPaper,
+  buildTimeHeatmap,
+  computePercentile,
+  evaluateQualification,
+  getMockPaperEditionId,
+  getMockPaperForQuizType,
+  isMockExamQuizType,
+  resolveBlueprintSubject
+} from '../prelims-mock';
+
+const question = (id: string, subject: string) => ({ id, subject });
+
+describe('Prelims Mock', () => {
+  describe('paper blueprints', () => {
+    it('should add up to the paper length', () => {
+      Object.values(MOCK_PAPERS).forEach(paper => {
+        const total = Object.values(paper.distribution).reduce((sum, count) => sum + count, 0);
+        expect(total).toBe(paper.questionCount);
+      });
+      expect(MOCK_PAPERS.gs1.questionCount).toBe(100);
+      expect(MOCK_PAPERS.csat.questionCount).toBe(80);
+    });
+
+    it('should look papers up by quiz type', () => {
+      expect(getMockPaperForQuizType('mock-prelims-csat')?.id).toBe('csat');
+      expect(isMockExamQuizType('mock-prelims')).toBe(true);
+      expect(isMockExamQuizType('current-affairs')).toBe(false);
+    });
+
+    it('should resolve pool subject names case-insensitively', () => {
+      expect(resolveBlueprintSubject(MOCK_PAPERS.gs1, 'Indian Polity')).toBe('Polity & Governance');
+      expect(resolveBlueprintSubject(MOCK_PAPERS.gs1, ' Art & Culture ')).toBe('History & Culture');
+      expect(resolveBlueprintSubject(MOCK_PAPERS.gs1, 'Quantitative Aptitude')).toBeNull();
+    });
+  });
+
+  describe('assembleMockPaper', () => {
+    it('should follow the distribution and report the shortfall', () => {
+      const pool = [
+        ...Array.from({ length: 20 }, (_, i) => question(`h${i}`, 'Modern History')),
+        ...Array.from({ length: 5 }, (_, i) => question(`g${i}`, 'Geography')),
+        question('h0', 'History'),
+        question('x1', 'Astrology')
+      ];
+
+      const { questions, shortfall } = assembleMockPaper(MOCK_PAPERS.gs1, pool, () => 0.5);
+
+      expect(questions).toHaveLength(21);
+      expect(questions.slice(0, 16).every(q => q.id.startsWith('h'))).toBe(true);
+      expect(new Set(questions.map(q => q.id)).size).toBe(21);
+      expect(shortfall['History & Culture']).toBeUndefined();
+      expect(shortfall['Geography']).toBe(9);
+      expect(shortfall['Economy']).toBe(15);
+    });
+  });
+
+  describe('getMockPaperEditionId', () => {
+    it('should share an edition across an ISO week', () => {
+      const monday = getMockPaperEditionId(MOCK_PAPERS.gs1, new Date('2025-03-10T00:30:00Z'));
+      const sunday = getMockPaperEditionId(MOCK_PAPERS.gs1, new Date('2025-03-16T23:00:00Z'));
+      expect(monday).toBe('gs1-2025-W11');
+      expect(sunday).toBe(monday);
+      expect(getMockPaperEditionId(MOCK_PAPERS.csat, new Date('2025-03-17T00:00:00Z'))).toBe('csat-2025-W12');
+    });
+
+    it('should use the ISO week-numbering year at year boundaries', () => {
+      expect(getMockPaperEditionId(MOCK_PAPERS.gs1, new Date('2024-12-30T12:00:00Z'))).toBe('gs1-2025-W01');
+    });
+  });
+
+  describe('computePercentile', () => {
+    it('should count ties as half', () => {
+      expect(computePercentile(100, [80, 90, 100, 120])).toBe(62.5);
+      expect(computePercentile(150, [80, 90])).toBe(100);
+      expect(computePercentile(50, [80, 90])).toBe(0);
+    });
+
+    it('should return null without other attempts', () => {
+      expect(computePercentile(100, [])).toBeNull();
+    });
+  });
+
+  describe('evaluateQualification', () => {
+    it('should apply the 33% CSAT cut-off', () => {
+      expect(evaluateQualification(MOCK_PAPERS.csat, 70, 200)).toEqual({ qualifyingMarks: 66, qualified: true, margin: 4 });
+      expect(evaluateQualification(MOCK_PAPERS.csat, 65.83, 200)?.qualified).toBe(false);
+    });
+
+    it('should not apply to merit papers', () => {
+      expect(evaluateQualification(MOCK_PAPERS.gs1, 90, 200)).toBeNull();
+    });
+  });
+
+  describe('buildTimeHeatmap', () => {
+    it('should shade time against the paper pace in rows', () => {
+      // GS Paper I pace is 72 seconds per question
+      const heatmap = buildTimeHeatmap(MOCK_PAPERS.gs1, [10, 60, 90, 130, 200, 72.4], 4);
+
+      expect(heatmap).toHaveLength(2);
+      expect(heatmap[0].map(cell => cell.intensity)).toEqual([0, 1, 2, 3]);
+      expect(heatmap[1]).toEqual([
+        { questionNumber: 5, seconds: 200, intensity: 4 },
+        { questionNumber: 6, seconds: 72, intensity: 2 }
+      ]);
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  MIN_ORDER_AMOUNT,
+  PromoCode,
+  TRIAL_DAYS,
+  getAvailableCredit,
+  getReferralClaimError,
+  getReferralCode,
+  getTrialEnd,
+  getTrialError,
+  normalizePromoCode,
+  priceOrder,
+  validatePromoCode
+} from '../payment/promotions';
+
+const promo = (overrides: Partial<PromoCode> = {}): PromoCode => ({
+  code: 'PARTNER20',
+  discountType: 'percentage',
+  discountValue: 20,
+  active: true,
+  expiresAt: new Date('2025-06-30T00:00:00Z'),
+  maxRedemptions: 100,
+  redemptionCount: 12,
+  tiers: ['practice', 'mains'],
+  billingCycles: [],
+  partner: 'Vision Academy',
+  ...overrides
+});
+
+const order = { tier: 'practice' as const, billingCycle: 'yearly' as const, alreadyRedeemed: false };
+const now = new Date('2025-03-01T00:00:00Z');
+
+describe('normalizePromoCode', () => {
+  it('ignores case and stray whitespace', () => {
+    expect(normalizePromoCode(' partner 20 ')).toBe('PARTNER20');
+  });
+});
+
+describe('validatePromoCode', () => {
+  it('accepts a live code for an eligible plan', () => {
+    expect(validatePromoCode(promo(), order, now)).toEqual({ valid: true });
+  });
+
+  it('rejects unknown, inactive, expired and exhausted codes', () => {
+    expect(validatePromoCode(null, order, now)).toEqual({ valid: false, reason: 'not_found' });
+    expect(validatePromoCode(promo({ active: false }), order, now)).toEqual({ valid: false, reason: 'inactive' });
+    expect(validatePromoCode(promo({ expiresAt: now }), order, now)).toEqual({ valid: false, reason: 'expired' });
+    expect(validatePromoCode(promo({ redemptionCount: 100 }), order, now)).toEqual({ valid: false, reason: 'exhausted' });
+  });
+
+  it('applies tier and billing cycle restrictions', () => {
+    expect(validatePromoCode(promo(), { ...order, tier: 'interview' }, now)).toEqual({ valid: false, reason: 'not_eligible' });
+    expect(validatePromoCode(promo({ billingCycles: ['monthly'] }), order, now)).toEqual({ valid: false, reason: 'not_eligible' });
+    expect(validatePromoCode(promo({ tiers: [] }), { ...order, tier: 'interview' }, now)).toEqual({ valid: true });
+  });
+
+  it('allows one redemption per user and no limit when none is set', () => {
+    expect(validatePromoCode(promo(), { ...order, alreadyRedeemed: true }, now)).toEqual({ valid: false, reason: 'already_redeemed' });
+    expect(validatePromoCode(promo({ maxRedemptions: null, expiresAt: null, redemptionCount: 5000 }), order, now)).toEqual({ valid: true });
+  });
+});
+
+describe('priceOrder', () => {
+  it('takes a percentage off the list price', () => {
+    expect(priceOrder(1999, { promo: promo() })).toEqual({ listPrice: 1999, promoDiscount: 400, creditApplied: 0, amount: 1599 });
+  });
+
+  it('applies referral credit after the promo discount', () => {
+    expect(priceOrder(199, { promo: promo({ discountType: 'flat', discountValue: 50 }), creditBalance: 100 }))
+      .toEqual({ listPrice: 199, promoDiscount: 50, creditApplied: 100, amount: 49 });
+  });
+
+  it('never prices an order below the payment minimum', () => {
+    const pricing = priceOrder(99, { promo: promo({ discountType: 'flat', discountValue: 80 }), creditBalance: 300 });
+
+    expect(pricing.amount).toBe(MIN_ORDER_AMOUNT);
+    expect(pricing).toMatchObject({ promoDiscount: 80, creditApplied: 18 });
+    expect(priceOrder(99, { promo: promo({ discountValue: 100 }) }).amount).toBe(MIN_ORDER_AMOUNT);
+  });
+
+  it('charges the list price without discounts', () => {
+    expect(priceOrder(499)).toEqual({ listPrice: 499, promoDiscount: 0, creditApplied: 0, amount: 499 });
+  });
+});
+
+describe('referrals', () => {
+  it('gives each user a stable code', () => {
+    expect(getReferralCode('user_1')).toBe(getReferralCode('user_1'));
+    expect(getReferralCode('user_1')).not.toBe(getReferralCode('user_2'));
+    expect(getReferralCode('user_1')).toMatch(/^[0-9A-F]{8}$/);
+  });
+
+  it('only lets new, unreferred users claim someone else\'s code', () => {
+    expect(getReferralClaimError(null, 'referrer', 'user_1', false)).toBeNull();
+    expect(getReferralClaimError(null, null, 'user_1', false)).toMatch(/does not exist/);
+    expect(getReferralClaimError(null, 'user_1', 'user_1', false)).toMatch(/your own/);
+    expect(getReferralClaimError(null, 'referrer', 'user_1', true)).toMatch(/first paid plan/);
+
+    const referred = { userId: 'user_1', code: 'ABCD1234', creditBalance: 0, referredBy: 'other', referralsCount: 0 };
+    expect(getReferralClaimError(referred, 'referrer', 'user_1', false)).toMatch(/already been applied/);
+  });
+
+  it('holds credit priced into open orders until the hold lapses', () => {
+    const account = {
+      userId: 'user_1',
+      code: 'ABCD1234',
+      creditBalance: 200,
+      referralsCount: 0,
+      creditReservations: {
+        order_open: { amount: 150, expiresAt: new Date('2025-03-01T00:20:00Z') },
+        order_lapsed: { amount: 100, expiresAt: new Date('2025-02-28T23:50:00Z') }
+      }
+    };
+
+    expect(getAvailableCredit(account, now)).toBe(50);
+    expect(getAvailableCredit({ ...account, creditReservations: { order_open: { amount: 300, expiresAt: new Date('2025-03-01T00:20:00Z') } } }, now)).toBe(0);
+    expect(getAvailableCredit(null, now)).toBe(0);
+  });
+});
+
+describe('trials', () => {
+  it('offers free users one trial per paid tier', () => {
+    expect(getTrialError(null, 'practice')).toBeNull();
+    expect(getTrialError({ tier: 'free', status: 'active', trialTiers: ['practice'] }, 'mains')).toBeNull();
+    expect(getTrialError({ tier: 'free', status: 'active', trialTiers: ['practice'] }, 'practice')).toMatch(/already used/);
+    expect(getTrialError(null, 'free')).toMatch(/no trial/);
+  });
+
+  it('is not available to paying or trialling users', () => {
+    expect(getTrialError({ tier: 'practice', status: 'active' }, 'mains')).toMatch(/before you subscribe/);
+    expect(getTrialError({ tier: 'practice', status: 'active', isTrial: true }, 'mains')).toMatch(/already on a trial/);
+    expect(getTrialError({ tier: 'mains', status: 'expired', trialTiers: [] }, 'practice')).toBeNull();
+  });
+
+  it(`lasts ${TRIAL_DAYS} days`, () => {
+    expect(getTrialEnd(now)).toEqual(new Date(now.getTime() + TRIAL_DAYS * 24 * 60 * 60 * 1000));
+  });
+});
@@ -0,0 +1,151 @@
+import {
+  findDuplicates,
+  fingerprintQuestion,
+  getDedupFields,
+  jaccardSimilarity,
+  getShingles,
+  mergeQuestionFields,
+  normalizeQuestionText,
+  planImport
+} from '../question-dedup';
+
+const preamble = {
+  question: 'Which of the following is a fundamental duty under Article 51A of the Constitution?',
+  options: {
+    A: 'To vote in elections',
+    B: 'To protect and improve the natural environment',
+    C: 'To pay income tax',
+    D: 'To join the armed forces'
+  }
+};
+
+describe('Question Dedup', () => {
+  describe('normalizeQuestionText', () => {
+    it('should drop numbering, punctuation, case and extra whitespace', () => {
+      expect(normalizeQuestionText('Q12.  Consider the  following: (GDP)?')).toBe('consider the following gdp');
+      expect(normalizeQuestionText('3) Consider the following')).toBe('consider the following');
+    });
+
+    it('should keep Devanagari text', () => {
+      expect(normalizeQuestionText('निम्नलिखित पर विचार कीजिए।')).toBe('निम्नलिखित पर विचार कीजिए');
+    });
+  });
+
+  describe('fingerprintQuestion', () => {
+    it('should match questions that differ only in formatting and option order', () => {
+      const reformatted = {
+        question: '1. Which of the following is a Fundamental Duty under Article 51A of the Constitution',
+        options: {
+          A: 'To protect and improve the natural environment.',
+          B: 'To vote in elections',
+          C: 'To pay income tax',
+          D: 'To join the armed forces'
+        }
+      };
+
+      expect(fingerprintQuestion(reformatted)).toBe(fingerprintQuestion(preamble));
+    });
+
+    it('should tell apart questions with different options', () => {
+      const changed = { ...preamble, options: { ...preamble.options, D: 'To respect the National Flag' } };
+      expect(fingerprintQuestion(changed)).not.toBe(fingerprintQuestion(preamble));
+    });
+  });
+
+  describe('getDedupFields', () => {
+    it('should give near-identical questions a shared LSH band', () => {
+      const typo = { ...preamble, question: preamble.question.replace('following', 'folowing') };
+      const a = getDedupFields(preamble).dedupBands;
+      const b = getDedupFields(typo).dedupBands;
+
+      expect(a).toHaveLength(16);
+      expect(a.some(band => b.includes(band))).toBe(true);
+    });
+  });
+
+  describe('findDuplicates', () => {
+    const unrelated = {
+      question: 'With reference to the Indian monsoon, consider the role of El Nino in rainfall deficits.',
+      options: { A: '1 only', B: '2 only', C: 'Both 1 and 2', D: 'Neither 1 nor 2' }
+    };
+
+    it('should flag near matches against existing questions', () => {
+      const typo = { ...preamble, question: preamble.question.replace('following', 'folowing') };
+      const matches = findDuplicates([unrelated, typo], [{ id: 'q1', ...preamble }]);
+
+      expect(matches).toHaveLength(1);
+      expect(matches[0]).toMatchObject({ index: 1, source: 'existing', matchId: 'q1', exact: false });
+      expect(matches[0].similarity).toBeGreaterThan(0.75);
+    });
+
+    it('should flag repeats within the same upload against the earlier row', () => {
+      const matches = findDuplicates([preamble, unrelated, { ...preamble }], []);
+
+      expect(matches).toEqual([
+        { index: 2, source: 'batch', matchIndex: 0, similarity: 1, exact: true }
+      ]);
+    });
+
+    it('should not flag unrelated questions', () => {
+      expect(findDuplicates([unrelated], [{ id: 'q1', ...preamble }])).toEqual([]);
+      expect(jaccardSimilarity(getShingles(unrelated), getShingles(preamble))).toBeLessThan(0.3);
+    });
+  });
+
+  describe('planImport', () => {
+    it('should insert unflagged rows and skip undecided matches', () => {
+      const plan = planImport(3, [{ index: 1, source: 'existing', matchId: 'q1', similarity: 1, exact: true }], {});
+
+      expect(plan.insert).toEqual([0, 2]);
+      expect(plan.skip).toEqual([1]);
+    });
+
+    it('should follow a batch merge to wherever its target ends up', () => {
+      const plan = planImport(
+        4,
+        [
+          { index: 1, source: 'existing', matchId: 'q1', similarity: 0.9, exact: false },
+          { index: 2, source: 'batch', matchIndex: 1, similarity: 1, exact: true },
+          { index: 3, source: 'batch', matchIndex: 0, similarity: 1, exact: true }
+        ],
+        { 1: 'merge', 2: 'merge', 3: 'merge' }
+      );
+
+      expect(plan.insert).toEqual([0]);
+      expect(plan.mergeIntoExisting).toEqual([
+        { index: 1, existingId: 'q1' },
+        { index: 2, existingId: 'q1' }
+      ]);
+      expect(plan.mergeIntoBatch).toEqual([{ index: 3, targetIndex: 0 }]);
+    });
+
+    it('should insert a row merged into a skipped row in its place', () => {
+      const plan = planImport(
+        2,
+        [
+          { index: 0, source: 'existing', matchId: 'q1', similarity: 1, exact: true },
+          { index: 1, source: 'batch', matchIndex: 0, similarity: 0.8, exact: false }
+        ],
+        { 0: 'skip', 1: 'merge' }
+      );
+
+      expect(plan.skip).toEqual([0]);
+      expect(plan.insert).toEqual([1]);
+    });
+  });
+
+  describe('mergeQuestionFields', () => {
+    it('should fill blanks and union string lists without overwriting', () => {
+      const updates = mergeQuestionFields(
+        { question: 'Q', explanation: '', correctAnswer: ['B'], subtopics: ['Duties'] },
+        { question: 'Q edited', explanation: 'Article 51A(g)', correctAnswer: ['A'], subtopics: ['Duties', 'Environment'], questionHi: 'प्रश्न' }
+      );
+
+      expect(updates).toEqual({
+        explanation: 'Article 51A(g)',
+        subtopics: ['Duties', 'Environment'],
+        questionHi: 'प्रश्न'
+      });
+    });
+  });
+});
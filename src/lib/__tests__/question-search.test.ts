@@ -0,0 +1,125 @@
+import { InvalidCursorError, QuestionSearchIndex, parseSearchQuery, toSearchDocument } from '../question-search';
+
+const questions: Record<string, Record<string, unknown>> = {
+  q1: {
+    question: 'Which of the following is a fundamental duty under the Constitution?',
+    options: { A: 'To vote', B: 'To protect the natural environment', C: 'To pay tax', D: 'None' },
+    explanation: 'Article 51A lists the fundamental duties.',
+    subject: ['Polity'],
+    subtopics: ['Fundamental Duties'],
+    year: 2023,
+    paper: 'GS1',
+    difficultyLevel: 'Easy',
+    questionType: 'MCQ',
+    verified: true
+  },
+  q2: {
+    question: 'Consider the following statements about Directive Principles and fundamental rights.',
+    options: { A: '1 only', B: '2 only', C: 'Both', D: 'Neither' },
+    explanation: 'Duties and directives are both non-justiciable.',
+    subject: ['Polity'],
+    subtopics: ['DPSP'],
+    year: 2022,
+    paper: 'GS1',
+    difficultyLevel: 'Medium',
+    questionType: 'Statement-Based',
+    verified: false
+  },
+  q3: {
+    question: 'With reference to monsoon, which factors influence rainfall deficits in India?',
+    options: { A: 'El Nino', B: 'IOD', C: 'Both', D: 'Neither' },
+    explanation: 'El Nino years often bring below normal rainfall.',
+    subject: ['Geography'],
+    subtopics: ['Climate'],
+    year: 2023,
+    paper: 'GS1',
+    difficultyLevel: 'Hard',
+    questionType: 'MCQ',
+    verified: true
+  }
+};
+
+function buildIndex(): QuestionSearchIndex {
+  return new QuestionSearchIndex(Object.entries(questions).map(([id, data]) => toSearchDocument(id, data)));
+}
+
+describe('Question Search', () => {
+  describe('parseSearchQuery', () => {
+    it('should split keywords, phrases, prefixes and exclusions', () => {
+      expect(parseSearchQuery('"Fundamental Duties" the article 51* -directive')).toEqual({
+        terms: ['article'],
+        prefixes: ['51'],
+        phrases: [['fundamental', 'duties']],
+        excluded: ['directive']
+      });
+    });
+  });
+
+  describe('QuestionSearchIndex', () => {
+    it('should require every keyword and rank stem matches first', () => {
+      const result = buildIndex().search({ query: 'fundamental' });
+
+      expect(result.hits.map(hit => hit.id)).toEqual(['q1', 'q2']);
+      expect(result.total).toBe(2);
+    });
+
+    it('should match phrases only in order', () => {
+      const index = buildIndex();
+
+      expect(index.search({ query: '"fundamental duty"' }).hits.map(hit => hit.id)).toEqual(['q1']);
+      expect(index.search({ query: '"duty fundamental"' }).total).toBe(0);
+    });
+
+    it('should search options, explanations and tags, with prefixes and exclusions', () => {
+      const index = buildIndex();
+
+      expect(index.search({ query: 'nino' }).hits.map(hit => hit.id)).toEqual(['q3']);
+      expect(index.search({ query: 'dpsp' }).hits.map(hit => hit.id)).toEqual(['q2']);
+      expect(index.search({ query: 'direct*' }).hits.map(hit => hit.id)).toEqual(['q2']);
+      expect(index.search({ query: 'fundamental -directive' }).hits.map(hit => hit.id)).toEqual(['q1']);
+    });
+
+    it('should count each facet without its own filter', () => {
+      const result = buildIndex().search({ years: [2023], subjects: ['Polity'] });
+
+      expect(result.hits.map(hit => hit.id)).toEqual(['q1']);
+      expect(result.facets.year).toEqual({ 2022: 1, 2023: 1 });
+      expect(result.facets.subject).toEqual({ Polity: 1, Geography: 1 });
+      expect(result.facets.difficultyLevel).toEqual({ Easy: 1 });
+    });
+
+    it('should apply subtopic and verified filters', () => {
+      const index = buildIndex();
+
+      expect(index.search({ subtopics: ['Climate'] }).hits.map(hit => hit.id)).toEqual(['q3']);
+      expect(index.search({ verified: false }).hits.map(hit => hit.id)).toEqual(['q2']);
+    });
+
+    it('should page with cursors that stay stable across inserts', () => {
+      const index = buildIndex();
+      const first = index.search({ sortBy: 'year', limit: 2 });
+      expect(first.hits.map(hit => hit.id)).toEqual(['q1', 'q3']);
+
+      // A question landing on the first page must not shift the second
+      index.upsert(toSearchDocument('q0', { question: 'A newer question', year: 2024 }));
+      const second = index.search({ sortBy: 'year', limit: 2, cursor: first.nextCursor! });
+
+      expect(second.hits.map(hit => hit.id)).toEqual(['q2']);
+      expect(second.nextCursor).toBeNull();
+    });
+
+    it('should reject a malformed cursor', () => {
+      expect(() => buildIndex().search({ cursor: 'not-a-cursor' })).toThrow(InvalidCursorError);
+    });
+
+    it('should reflect updates and removals', () => {
+      const index = buildIndex();
+      index.upsert(toSearchDocument('q3', { ...questions.q3, question: 'Monsoon and fundamental climate drivers' }));
+      index.remove('q1');
+
+      expect(index.search({ query: 'fundamental' }).hits.map(hit => hit.id).sort()).toEqual(['q2', 'q3']);
+      expect(index.search({ query: 'deficits' }).total).toBe(0);
+      expect(index.size).toBe(2);
+    });
+  });
+});
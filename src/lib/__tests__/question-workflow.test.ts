@@ -0,0 +1,142 @@
+import {
+  QuestionWorkflowError,
+  applyTransition,
+  getAvailableActions,
+  getPendingEditors,
+  getPendingVersion,
+  getQuestionStatus,
+  getRevisionContent,
+  getStatusAfterEdit,
+  getStatusFields
+} from '../question-workflow';
+
+function expectWorkflowError(run: () => unknown, code: string) {
+  try {
+    run();
+  } catch (error) {
+    expect(error).toBeInstanceOf(QuestionWorkflowError);
+    expect((error as QuestionWorkflowError).code).toBe(code);
+    return;
+  }
+  throw new Error(`Expected a ${code} error`);
+}
+
+describe('Question Workflow', () => {
+  describe('getQuestionStatus', () => {
+    it('should derive a status for questions created before the workflow', () => {
+      expect(getQuestionStatus({ verified: true, isActive: true })).toBe('verified');
+      expect(getQuestionStatus({ verified: false })).toBe('draft');
+      expect(getQuestionStatus({ verified: true, isActive: false })).toBe('retired');
+      expect(getQuestionStatus({ status: 'in-review', verified: false })).toBe('in-review');
+    });
+  });
+
+  describe('getStatusFields', () => {
+    it('should keep the verified and active flags in step with the status', () => {
+      expect(getStatusFields('verified')).toEqual({ status: 'verified', verified: true, isActive: true });
+      expect(getStatusFields('retired')).toEqual({ status: 'retired', verified: false, isActive: false });
+    });
+
+    it('should leave the served content verified while an edit awaits review', () => {
+      expect(getStatusFields('draft', true)).toEqual({ status: 'draft', isActive: true });
+      expect(getStatusFields('in-review', true)).toEqual({ status: 'in-review', isActive: true });
+    });
+  });
+
+  describe('getPendingVersion', () => {
+    it('should read the revision awaiting review', () => {
+      expect(getPendingVersion({ version: 2, pendingVersion: 3 })).toBe(3);
+      expect(getPendingVersion({ version: 2 })).toBeUndefined();
+    });
+  });
+
+  describe('getPendingEditors', () => {
+    it('should list everyone who edited the pending revision', () => {
+      expect(getPendingEditors({ pendingVersion: 3, pendingEditors: ['editor', 'reviewer'], lastEditedBy: 'reviewer' }))
+        .toEqual(['editor', 'reviewer']);
+      expect(getPendingEditors({ pendingVersion: 3, lastEditedBy: 'editor' })).toEqual(['editor']);
+      expect(getPendingEditors({ version: 2, lastEditedBy: 'editor' })).toEqual([]);
+    });
+  });
+
+  describe('getRevisionContent', () => {
+    it('should keep content and drop workflow state and analytics', () => {
+      expect(getRevisionContent({
+        question: 'Q',
+        options: { A: '1' },
+        status: 'draft',
+        version: 3,
+        pendingVersion: 4,
+        attemptCount: 10,
+        updatedAt: new Date()
+      })).toEqual({ question: 'Q', options: { A: '1' } });
+    });
+  });
+
+  describe('getStatusAfterEdit', () => {
+    it('should send edited content back to draft and refuse retired questions', () => {
+      expect(getStatusAfterEdit('verified')).toBe('draft');
+      expectWorkflowError(() => getStatusAfterEdit('retired'), 'retired');
+    });
+  });
+
+  describe('applyTransition', () => {
+    const editor = { actorId: 'editor', actorRoles: ['content-editor' as const] };
+    const reviewer = { actorId: 'reviewer', actorRoles: ['reviewer' as const], lastEditedBy: 'editor' };
+
+    it('should move a question from draft through review to verified', () => {
+      expect(applyTransition('draft', 'submit', editor)).toBe('in-review');
+      expect(applyTransition('in-review', 'approve', reviewer)).toBe('verified');
+      expect(applyTransition('verified', 'retire', editor)).toBe('retired');
+      expect(applyTransition('retired', 'restore', editor)).toBe('draft');
+    });
+
+    it('should reject transitions the status does not allow', () => {
+      expectWorkflowError(() => applyTransition('draft', 'approve', reviewer), 'invalid-transition');
+    });
+
+    it('should check the role for each action', () => {
+      expectWorkflowError(() => applyTransition('in-review', 'approve', editor), 'forbidden');
+      expectWorkflowError(() => applyTransition('draft', 'submit', reviewer), 'forbidden');
+    });
+
+    it('should not let anyone approve their own edit', () => {
+      const admin = { actorId: 'admin', actorRoles: ['admin' as const], lastEditedBy: 'admin' };
+
+      expectWorkflowError(() => applyTransition('in-review', 'approve', admin), 'self-review');
+    });
+
+    it('should not let an earlier editor approve after someone else edits the revision', () => {
+      const coEditor = { actorId: 'reviewer', actorRoles: ['reviewer' as const], lastEditedBy: 'other-reviewer', pendingEditors: ['reviewer', 'other-reviewer'] };
+
+      expectWorkflowError(() => applyTransition('in-review', 'approve', coEditor), 'self-review');
+      expect(applyTransition('in-review', 'approve', { ...coEditor, actorId: 'third-reviewer' })).toBe('verified');
+    });
+
+    it('should leave an assigned review to that reviewer or an admin', () => {
+      expectWorkflowError(
+        () => applyTransition('in-review', 'approve', { ...reviewer, reviewerId: 'someone-else' }),
+        'not-assigned-reviewer'
+      );
+      expect(applyTransition('in-review', 'approve', {
+        actorId: 'admin',
+        actorRoles: ['admin'],
+        lastEditedBy: 'editor',
+        reviewerId: 'someone-else'
+      })).toBe('verified');
+    });
+
+    it('should require a comment when requesting changes', () => {
+      expectWorkflowError(() => applyTransition('in-review', 'request-changes', reviewer), 'comment-required');
+      expect(applyTransition('in-review', 'request-changes', { ...reviewer, comment: 'Fix option C' })).toBe('draft');
+    });
+  });
+
+  describe('getAvailableActions', () => {
+    it('should offer only the actions a role can take from a status', () => {
+      expect(getAvailableActions('in-review', ['reviewer'])).toEqual(['approve', 'request-changes']);
+      expect(getAvailableActions('in-review', ['content-editor'])).toEqual(['retire']);
+      expect(getAvailableActions('retired', ['admin'])).toEqual(['restore']);
+    });
+  });
+});
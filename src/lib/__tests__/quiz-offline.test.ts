@@ -0,0 +1,115 @@
+import {
+  buildProvisionalResults,
+  classifyReplayResponse,
+  createOutboxEntry,
+  findSupersededEntries,
+  getAnswerFeedback,
+  getReplayOrder,
+  getRetryDelay,
+  mergeSessionAnswers
+} from '../quiz-offline';
+
+describe('Quiz Offline', () => {
+  describe('outbox', () => {
+    it('should keep only the latest answer per question and the latest progress save', () => {
+      const entries = [
+        createOutboxEntry('s1', 'answer', { questionIndex: 0, selectedAnswer: 'A' }, 1000),
+        createOutboxEntry('s1', 'progress', { answers: ['A'] }, 1100),
+        createOutboxEntry('s1', 'answer', { questionIndex: 0, selectedAnswer: 'C' }, 1200),
+        createOutboxEntry('s1', 'answer', { questionIndex: 1, selectedAnswer: 'B' }, 1300),
+        createOutboxEntry('s1', 'progress', { answers: ['C', 'B'] }, 1400),
+        createOutboxEntry('s2', 'progress', { answers: [null] }, 1500)
+      ];
+
+      expect(findSupersededEntries(entries)).toEqual([
+        's1:answer:0:1000',
+        's1:progress:1100'
+      ]);
+      expect(entries[0].body.clientTimestamp).toBe(1000);
+    });
+
+    it('should drop progress saves once the session has a queued completion', () => {
+      const entries = [
+        createOutboxEntry('s1', 'progress', { answers: ['A'] }, 1000),
+        createOutboxEntry('s1', 'complete', { finalAnswers: ['A'] }, 1100),
+        createOutboxEntry('s1', 'answer', { questionIndex: 0, selectedAnswer: 'A' }, 900)
+      ];
+
+      expect(findSupersededEntries(entries)).toEqual(['s1:progress:1000']);
+    });
+
+    it('should replay due entries in order with completion last', () => {
+      const complete = createOutboxEntry('s1', 'complete', {}, 1000);
+      const lateAnswer = createOutboxEntry('s1', 'answer', { questionIndex: 3 }, 1200);
+      const otherSession = createOutboxEntry('s2', 'answer', { questionIndex: 0 }, 1100);
+      const backedOff = { ...createOutboxEntry('s3', 'answer', { questionIndex: 0 }, 500), nextAttemptAt: 5000 };
+
+      expect(getReplayOrder([complete, lateAnswer, otherSession, backedOff], 2000).map(entry => entry.id))
+        .toEqual([otherSession.id, lateAnswer.id, complete.id]);
+    });
+
+    it('should back off exponentially up to five minutes', () => {
+      expect(getRetryDelay(1)).toBe(2000);
+      expect(getRetryDelay(3)).toBe(8000);
+      expect(getRetryDelay(20)).toBe(300000);
+    });
+
+    it('should retry network and server failures but not rejections', () => {
+      expect(classifyReplayResponse(undefined)).toBe('retry');
+      expect(classifyReplayResponse(503)).toBe('retry');
+      expect(classifyReplayResponse(429)).toBe('retry');
+      expect(classifyReplayResponse(200)).toBe('synced');
+      expect(classifyReplayResponse(400)).toBe('rejected');
+      expect(classifyReplayResponse(403)).toBe('rejected');
+    });
+  });
+
+  describe('mergeSessionAnswers', () => {
+    it('should keep the later answer for each question', () => {
+      const merged = mergeSessionAnswers(
+        { answers: ['A', 'B', null, 'D'], answerTimestamps: [100, 500, 0, 300] },
+        { answers: ['C', 'A', 'B', null], answerTimestamps: [200, 400, 150, 0] }
+      );
+
+      expect(merged).toEqual({ answers: ['C', 'B', 'B', 'D'], answerTimestamps: [200, 500, 150, 300] });
+    });
+
+    it('should only let untimed answers fill blanks', () => {
+      const merged = mergeSessionAnswers(
+        { answers: ['A', null] },
+        { answers: ['C', 'D'] }
+      );
+
+      expect(merged.answers).toEqual(['A', 'D']);
+    });
+  });
+
+  describe('local fallbacks', () => {
+    it('should word feedback like the submit route', () => {
+      const question = { correctAnswer: 'B', explanation: 'Because.', explanationHi: 'क्योंकि।' };
+      expect(getAnswerFeedback(question, 'B')).toEqual({ isCorrect: true, explanation: 'Because.', explanationHi: 'क्योंकि।' });
+      expect(getAnswerFeedback(question, 'A')).toEqual({
+        isCorrect: false,
+        explanation: 'The correct answer is B. Because.',
+        explanationHi: 'सही उत्तर B है। क्योंकि।'
+      });
+    });
+
+    it('should score an offline session and mark it pending', () => {
+      const results = buildProvisionalResults({
+        questions: [
+          { id: 'q1', correctAnswer: 'A', subject: 'Polity' },
+          { id: 'q2', correctAnswer: 'B', subject: 'Polity' },
+          { id: 'q3', correctAnswer: 'C', subject: 'Economy' }
+        ],
+        answers: ['A', 'C', null],
+        scoringScheme: 'practice'
+      }, [12.4, 30, 0], 90);
+
+      expect(results).toMatchObject({ score: 33, accuracy: 50, correctAnswers: 1, timeTaken: 90, pendingSync: true });
+      expect(results.subjectWiseResults).toEqual({ Polity: { correct: 1, total: 2 }, Economy: { correct: 0, total: 1 } });
+      expect(results.detailedResults[2]).toMatchObject({ selectedAnswer: 'Not answered', timeSpent: 0 });
+      expect(results.scoring.skipped).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,107 @@
+import {
+  SCORING_SCHEMES,
+  getScoringScheme,
+  getScoringSchemeForQuizType,
+  scoreQuiz,
+  ScorableQuestion
+} from '../quiz-scoring';
+
+const gsQuestion = (id: string, subject = 'Polity'): ScorableQuestion => ({
+  id,
+  correctAnswer: 'A',
+  subject,
+  options: ['a', 'b', 'c', 'd']
+});
+
+describe('Quiz Scoring', () => {
+  describe('scheme lookup', () => {
+    it('should map quiz types to their schemes', () => {
+      expect(getScoringSchemeForQuizType('mock-prelims').id).toBe('upsc-prelims');
+      expect(getScoringSchemeForQuizType('past-year').id).toBe('upsc-prelims');
+      expect(getScoringSchemeForQuizType('free-daily').id).toBe('practice');
+    });
+
+    it('should fall back to practice for unknown ids', () => {
+      expect(getScoringSchemeForQuizType('unknown-type').id).toBe('practice');
+      expect(getScoringScheme(undefined).id).toBe('practice');
+    });
+  });
+
+  describe('scoreQuiz', () => {
+    it('should apply one-third negative marking for Prelims GS', () => {
+      const questions = [gsQuestion('q1'), gsQuestion('q2'), gsQuestion('q3'), gsQuestion('q4')];
+      const result = scoreQuiz(questions, ['A', 'A', 'B', null], SCORING_SCHEMES['upsc-prelims']);
+
+      expect(result.maxScore).toBe(8);
+      expect(result.rawScore).toBe(4);
+      expect(result.negativeMarks).toBe(0.67);
+      expect(result.netScore).toBe(3.33);
+      expect(result.correct).toBe(2);
+      expect(result.incorrect).toBe(1);
+      expect(result.skipped).toBe(1);
+      expect(result.attempted).toBe(3);
+    });
+
+    it('should award 2.5 marks to CSAT questions in a mixed paper', () => {
+      const questions = [gsQuestion('q1'), gsQuestion('q2', 'CSAT')];
+      const result = scoreQuiz(questions, ['A', 'B'], SCORING_SCHEMES['upsc-prelims']);
+
+      expect(result.maxScore).toBe(4.5);
+      expect(result.subjectWise['CSAT'].negativeMarks).toBe(0.83);
+      expect(result.netScore).toBe(1.17);
+    });
+
+    it('should not deduct marks under the practice scheme', () => {
+      const questions = [gsQuestion('q1'), gsQuestion('q2')];
+      const result = scoreQuiz(questions, ['A', 'C'], SCORING_SCHEMES.practice);
+
+      expect(result.negativeMarks).toBe(0);
+      expect(result.netScore).toBe(1);
+      expect(result.attemptAnalysis.breakEvenAccuracy).toBe(0);
+    });
+
+    it('should report per-subject net scores', () => {
+      const questions = [gsQuestion('q1', 'History'), gsQuestion('q2', 'History'), gsQuestion('q3', 'Economy')];
+      const result = scoreQuiz(questions, ['A', 'D', 'A'], SCORING_SCHEMES['upsc-prelims']);
+
+      expect(result.subjectWise['History']).toMatchObject({
+        correct: 1,
+        incorrect: 1,
+        total: 2,
+        rawScore: 2,
+        netScore: 1.33,
+        maxScore: 4
+      });
+      expect(result.subjectWise['Economy'].netScore).toBe(2);
+    });
+  });
+
+  describe('attempt analysis', () => {
+    it('should show a blind guess breaks even and elimination pays off', () => {
+      const result = scoreQuiz([gsQuestion('q1')], [null], SCORING_SCHEMES['upsc-prelims']);
+      const { attemptAnalysis } = result;
+
+      expect(attemptAnalysis.breakEvenAccuracy).toBe(0.25);
+      expect(attemptAnalysis.guessExpectedValue.blind).toBe(0);
+      expect(attemptAnalysis.guessExpectedValue.oneEliminated).toBeGreaterThan(0);
+      expect(attemptAnalysis.guessExpectedValue.twoEliminated)
+        .toBeGreaterThan(attemptAnalysis.guessExpectedValue.oneEliminated);
+    });
+
+    it('should value skipped questions at the observed accuracy', () => {
+      const questions = [gsQuestion('q1'), gsQuestion('q2'), gsQuestion('q3')];
+      const result = scoreQuiz(questions, ['A', 'A', null], SCORING_SCHEMES['upsc-prelims']);
+
+      // 100% observed accuracy means the skipped question was worth its full 2 marks
+      expect(result.attemptAnalysis.skippedOpportunity).toBe(2);
+    });
+
+    it('should advise caution when accuracy is below break-even', () => {
+      const questions = [gsQuestion('q1'), gsQuestion('q2'), gsQuestion('q3'), gsQuestion('q4'), gsQuestion('q5')];
+      const result = scoreQuiz(questions, ['A', 'B', 'B', 'B', 'B'], SCORING_SCHEMES['upsc-prelims']);
+
+      expect(result.attemptAnalysis.observedExpectedValue).toBeLessThan(0);
+      expect(result.attemptAnalysis.recommendation).toContain('below');
+    });
+  });
+});
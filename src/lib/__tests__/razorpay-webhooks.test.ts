@@ -0,0 +1,124 @@
+import crypto from 'crypto';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import {
+  getPlanForRazorpayPlanId,
+  parseWebhookEvent,
+  promotionsFromNotes,
+  verifyPaymentSignature,
+  verifyWebhookSignature
+} from '../payment/razorpay-webhooks';
+
+const WEBHOOK_SECRET = 'whsec_test_preptalk';
+
+// Recorded webhook bodies, kept byte-for-byte so signatures match
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', 'razorpay', `${name}.json`), 'utf8');
+const sign = (body: string, secret = WEBHOOK_SECRET) => crypto.createHmac('sha256', secret).update(body).digest('hex');
+
+describe('verifyWebhookSignature', () => {
+  const body = fixture('payment-captured');
+
+  it('accepts the signature Razorpay computes over the raw body', () => {
+    expect(verifyWebhookSignature(body, sign(body), WEBHOOK_SECRET)).toBe(true);
+  });
+
+  it('rejects a body that was re-serialized or tampered with', () => {
+    expect(verifyWebhookSignature(JSON.stringify(JSON.parse(body)), sign(body), WEBHOOK_SECRET)).toBe(false);
+    expect(verifyWebhookSignature(body.replace('19900', '100'), sign(body), WEBHOOK_SECRET)).toBe(false);
+  });
+
+  it('rejects missing signatures, other secrets and an unset secret', () => {
+    expect(verifyWebhookSignature(body, null, WEBHOOK_SECRET)).toBe(false);
+    expect(verifyWebhookSignature(body, sign(body, 'other'), WEBHOOK_SECRET)).toBe(false);
+    expect(verifyWebhookSignature(body, 'short', WEBHOOK_SECRET)).toBe(false);
+    expect(verifyWebhookSignature(body, sign(body, ''), '')).toBe(false);
+  });
+});
+
+describe('verifyPaymentSignature', () => {
+  it('checks the checkout signature over order and payment IDs', () => {
+    const signature = sign('order_1|pay_1', 'key_secret');
+    expect(verifyPaymentSignature('order_1', 'pay_1', signature, 'key_secret')).toBe(true);
+    expect(verifyPaymentSignature('order_2', 'pay_1', signature, 'key_secret')).toBe(false);
+  });
+});
+
+describe('parseWebhookEvent', () => {
+  it('reads the buyer and plan from the order notes, not the payment notes', () => {
+    expect(parseWebhookEvent(fixture('order-paid'), 'evt_1')).toEqual({
+      id: 'evt_1',
+      type: 'payment_captured',
+      occurredAt: new Date(1735689606 * 1000),
+      userId: 'user_practice_1',
+      paymentId: 'pay_NQnAZu3Rbyg0MH',
+      orderId: 'order_NQn9hFJkq1qgx2',
+      amount: 199,
+      tier: 'practice',
+      billingCycle: 'monthly'
+    });
+  });
+
+  it('takes the discounts priced into the order, ignoring any the checkout attached to the payment', () => {
+    const body = JSON.parse(fixture('order-paid'));
+    Object.assign(body.payload.order.entity.notes, { promoCode: 'PARTNER20', promoDiscount: 40, creditApplied: 100 });
+    Object.assign(body.payload.payment.entity.notes, { promoCode: 'FREE100', promoDiscount: 199, creditApplied: 199, prorationCredit: 199 });
+    const event = parseWebhookEvent(JSON.stringify(body), 'evt_1');
+
+    expect(event).toMatchObject({ promoCode: 'PARTNER20', promoDiscount: 40, creditApplied: 100 });
+    expect(event).not.toHaveProperty('prorationCredit');
+  });
+
+  it('maps a subscription without notes to its plan and charged period', () => {
+    const event = parseWebhookEvent(fixture('subscription-charged'), 'evt_2');
+
+    expect(event).toMatchObject({
+      type: 'subscription_charged',
+      subscriptionId: 'sub_NQp2QZ8rW6ufE1',
+      paymentId: 'pay_NQp3hYwqV9xkLm',
+      tier: 'mains',
+      billingCycle: 'monthly',
+      amount: 499,
+      periodEnd: new Date(1740787200 * 1000)
+    });
+    expect(event?.userId).toBeUndefined();
+  });
+
+  it('parses halted, cancelled and refund events', () => {
+    expect(parseWebhookEvent(fixture('subscription-halted'), 'evt_3')).toMatchObject({ type: 'subscription_halted', subscriptionId: 'sub_NQp2QZ8rW6ufE1' });
+    expect(parseWebhookEvent(fixture('subscription-cancelled'), 'evt_4')).toMatchObject({ type: 'subscription_cancelled', subscriptionId: 'sub_NQp2QZ8rW6ufE1' });
+    expect(parseWebhookEvent(fixture('refund-processed'), 'evt_5')).toMatchObject({
+      type: 'payment_refunded',
+      paymentId: 'pay_NQnAZu3Rbyg0MH',
+      refundId: 'rfnd_NQr8bC2kPz1yUv',
+      amount: 199
+    });
+  });
+
+  it('ignores events it does not handle', () => {
+    // order.paid carries the same payment with the server-set order notes
+    expect(parseWebhookEvent(fixture('payment-captured'), 'evt_6')).toBeNull();
+  });
+
+  it('falls back to a body hash so redeliveries share an ID', () => {
+    const body = fixture('order-paid');
+    expect(parseWebhookEvent(body, null)?.id).toBe(parseWebhookEvent(body, null)?.id);
+    expect(parseWebhookEvent(body, null)?.id).not.toBe(parseWebhookEvent(fixture('refund-processed'), null)?.id);
+  });
+});
+
+describe('promotionsFromNotes', () => {
+  it('reads the discounts create-order wrote into the notes', () => {
+    expect(promotionsFromNotes({ tier: 'practice', promoCode: 'PARTNER20', promoDiscount: 40, creditApplied: '100' }))
+      .toEqual({ promoCode: 'PARTNER20', promoDiscount: 40, creditApplied: 100 });
+    expect(promotionsFromNotes({ tier: 'elite', prorationCredit: '249' })).toEqual({ prorationCredit: 249 });
+    expect(promotionsFromNotes({ tier: 'practice' })).toEqual({});
+    expect(promotionsFromNotes([])).toEqual({});
+  });
+});
+
+describe('getPlanForRazorpayPlanId', () => {
+  it('maps dashboard plan IDs to tiers', () => {
+    expect(getPlanForRazorpayPlanId('plan_elite_yearly')).toEqual({ tier: 'elite', billingCycle: 'yearly' });
+    expect(getPlanForRazorpayPlanId('plan_unknown')).toBeNull();
+  });
+});
@@ -0,0 +1,154 @@
+import {
+  DEFAULT_EASE_FACTOR,
+  MIN_EASE_FACTOR,
+  ReviewItem,
+  ReviewQueueEntry,
+  applySm2,
+  getReviewItemId,
+  isReviewDue,
+  mergeReviewEntry,
+  qualityForAnswer,
+  recordReviewAnswer,
+  removeReviewReason,
+  reviewItemFromFirestore,
+  sortReviewItems,
+  toReviewQuestionFromMCQ,
+  toReviewQuestionFromPastYear
+} from '../spaced-repetition';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2025-03-10T08:00:00Z');
+
+const entry = (reason: ReviewQueueEntry['reason'] = 'wrong'): ReviewQueueEntry => ({
+  source: { type: 'newspaper', historyId: 'history-1', articleUrl: undefined },
+  reason,
+  question: toReviewQuestionFromMCQ({
+    question: 'Which Article guarantees the right to life?',
+    options: [{ text: 'Article 14' }, { text: 'Article 21', correct: true }, { text: 'Article 32' }],
+    subject: 'Polity',
+    difficulty: 4
+  })
+});
+
+describe('Spaced Repetition', () => {
+  describe('question conversion', () => {
+    it('should map MCQ options to answer letters', () => {
+      const question = entry().question;
+      expect(question.correctAnswer).toBe('B');
+      expect(question.options).toEqual(['Article 14', 'Article 21', 'Article 32']);
+      expect(question.difficulty).toBe('medium');
+    });
+
+    it('should map past-year option ids to answer letters', () => {
+      const question = toReviewQuestionFromPastYear({
+        question: 'Q',
+        options: [{ id: 'a', text: 'One' }, { id: 'b', text: 'Two' }, { id: 'c', text: 'Three' }],
+        correctOptionId: 'c',
+        year: 2019
+      });
+      expect(question.correctAnswer).toBe('C');
+      expect(question.year).toBe(2019);
+    });
+  });
+
+  describe('getReviewItemId', () => {
+    it('should key past-year questions by their id and others by source and text', () => {
+      expect(getReviewItemId('u1', { type: 'past-year', pastYearQuestionId: 'py-42' }, 'Q')).toBe('u1_py_py-42');
+      const id = getReviewItemId('u1', { type: 'newspaper', historyId: 'h1' }, 'A question?/with slash');
+      expect(id.startsWith('u1_h1_')).toBe(true);
+      expect(id).not.toContain('/');
+    });
+  });
+
+  describe('applySm2', () => {
+    const fresh = { easeFactor: DEFAULT_EASE_FACTOR, interval: 1, repetitions: 0, lapses: 0, dueAt: NOW, lastReviewedAt: null };
+
+    it('should step intervals 1, 6 then multiply by the ease factor', () => {
+      const first = applySm2(fresh, 5, NOW);
+      const second = applySm2(first, 5, NOW);
+      const third = applySm2(second, 5, NOW);
+
+      expect([first.interval, second.interval, third.interval]).toEqual([1, 6, 16]);
+      expect(first.easeFactor).toBe(2.6);
+      expect(third.repetitions).toBe(3);
+      expect(third.dueAt.getTime()).toBe(NOW.getTime() + 16 * DAY);
+    });
+
+    it('should reset on a failed recall and never drop below the minimum ease', () => {
+      let schedule = applySm2(applySm2(fresh, 5, NOW), 5, NOW);
+      for (let i = 0; i < 10; i++) {
+        schedule = applySm2(schedule, 0, NOW);
+      }
+      expect(schedule.interval).toBe(1);
+      expect(schedule.repetitions).toBe(0);
+      expect(schedule.lapses).toBe(10);
+      expect(schedule.easeFactor).toBe(MIN_EASE_FACTOR);
+    });
+  });
+
+  describe('qualityForAnswer', () => {
+    it('should grade by correctness and speed', () => {
+      expect(qualityForAnswer(false, 5)).toBe(1);
+      expect(qualityForAnswer(true, 10)).toBe(5);
+      expect(qualityForAnswer(true, 60)).toBe(4);
+      expect(qualityForAnswer(true, 200)).toBe(3);
+      expect(qualityForAnswer(true)).toBe(4);
+    });
+  });
+
+  describe('queue entries', () => {
+    it('should create an item due tomorrow with its source link', () => {
+      const item = mergeReviewEntry(null, 'u1', entry(), NOW);
+      expect(item.dueAt.getTime()).toBe(NOW.getTime() + DAY);
+      expect(item.reasons).toEqual(['wrong']);
+      expect(item.source).toEqual({ type: 'newspaper', historyId: 'history-1' });
+      expect(item.lapses).toBe(1);
+    });
+
+    it('should add reasons and treat a repeated mistake as a lapse', () => {
+      const bookmarked = mergeReviewEntry(null, 'u1', entry('bookmarked'), NOW);
+      const reviewed = recordReviewAnswer(recordReviewAnswer(bookmarked, true, 10, NOW), true, 10, NOW);
+      expect(reviewed.interval).toBe(6);
+
+      const later = new Date(NOW.getTime() + 7 * DAY);
+      const wrongAgain = mergeReviewEntry(reviewed, 'u1', entry('wrong'), later);
+      expect(wrongAgain.reasons).toEqual(['bookmarked', 'wrong']);
+      expect(wrongAgain.interval).toBe(1);
+      expect(wrongAgain.lastReviewedAt).toEqual(reviewed.lastReviewedAt);
+    });
+
+    it('should drop the item once no reason is left', () => {
+      const item = mergeReviewEntry(mergeReviewEntry(null, 'u1', entry('bookmarked'), NOW), 'u1', entry('wrong'), NOW);
+      expect(removeReviewReason(item, 'bookmarked')?.reasons).toEqual(['wrong']);
+      expect(removeReviewReason(removeReviewReason(item, 'bookmarked')!, 'wrong')).toBeNull();
+    });
+  });
+
+  describe('due items', () => {
+    it('should treat anything due before the end of the day as due', () => {
+      expect(isReviewDue({ dueAt: new Date('2025-03-10T23:00:00Z') }, NOW)).toBe(true);
+      expect(isReviewDue({ dueAt: new Date('2025-03-11T00:30:00Z') }, NOW)).toBe(false);
+    });
+
+    it('should order by due date then lowest ease', () => {
+      const items = [
+        { id: 'b', dueAt: new Date(NOW.getTime() - DAY), easeFactor: 2.5 },
+        { id: 'c', dueAt: NOW, easeFactor: 1.3 },
+        { id: 'a', dueAt: new Date(NOW.getTime() - DAY), easeFactor: 1.8 }
+      ];
+      expect(sortReviewItems(items).map(item => item.id)).toEqual(['a', 'b', 'c']);
+    });
+
+    it('should convert Firestore timestamps back to dates', () => {
+      const stored = mergeReviewEntry(null, 'u1', entry(), NOW);
+      const item: ReviewItem = reviewItemFromFirestore({
+        ...stored,
+        dueAt: { toDate: () => stored.dueAt },
+        createdAt: { toDate: () => NOW },
+        updatedAt: { toDate: () => NOW }
+      });
+      expect(item.dueAt).toEqual(stored.dueAt);
+      expect(item.lastReviewedAt).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,240 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { BillingEvent, parseWebhookEvent } from '../payment/razorpay-webhooks';
+import { TRIAL_DAYS } from '../payment/promotions';
+import {
+  GRACE_PERIOD_DAYS,
+  SubscriptionLifecycleState,
+  addBillingPeriod,
+  advanceSubscription,
+  applyBillingEvent,
+  getProrationCredit,
+  startTrial
+} from '../payment/subscription-lifecycle';
+
+const DAY = 24 * 60 * 60 * 1000;
+const fixtureEvent = (name: string) =>
+  parseWebhookEvent(readFileSync(join(__dirname, 'fixtures', 'razorpay', `${name}.json`), 'utf8'), `evt_${name}`)!;
+
+const paidState = (overrides: Partial<SubscriptionLifecycleState> = {}): SubscriptionLifecycleState => ({
+  tier: 'mains',
+  status: 'active',
+  billingCycle: 'monthly',
+  amount: 499,
+  subscriptionId: 'sub_NQp2QZ8rW6ufE1',
+  currentPeriodStart: new Date('2025-02-01T00:00:00Z'),
+  currentPeriodEnd: new Date('2025-03-01T00:00:00Z'),
+  cancelAtPeriodEnd: false,
+  gracePeriodEnd: null,
+  dunningRemindersSent: 0,
+  lastPaymentId: 'pay_previous',
+  ...overrides
+});
+
+describe('addBillingPeriod', () => {
+  it('adds a calendar month or year', () => {
+    expect(addBillingPeriod(new Date('2025-01-15T00:00:00Z'), 'monthly')).toEqual(new Date('2025-02-15T00:00:00Z'));
+    expect(addBillingPeriod(new Date('2025-01-15T00:00:00Z'), 'yearly')).toEqual(new Date('2026-01-15T00:00:00Z'));
+  });
+});
+
+describe('applyBillingEvent', () => {
+  it('activates a first-time buyer from a captured payment', () => {
+    const event = fixtureEvent('order-paid');
+    const { state, changed, effects } = applyBillingEvent(null, event);
+
+    expect(changed).toBe(true);
+    expect(state).toMatchObject({
+      tier: 'practice',
+      status: 'active',
+      amount: 199,
+      currentPeriodStart: event.occurredAt,
+      currentPeriodEnd: addBillingPeriod(event.occurredAt, 'monthly'),
+      lastPaymentId: 'pay_NQnAZu3Rbyg0MH'
+    });
+    expect(effects.map(effect => effect.type)).toEqual(['payment_recorded', 'tier_changed']);
+  });
+
+  it('applies a payment once even when checkout and the webhook both report it', () => {
+    const event = fixtureEvent('order-paid');
+    const first = applyBillingEvent(null, event);
+    const checkout: BillingEvent = { ...event, id: 'checkout_pay_NQnAZu3Rbyg0MH' };
+
+    expect(applyBillingEvent(first.state, checkout)).toEqual({ state: first.state, changed: false, effects: [] });
+  });
+
+  it('renews a recurring subscription for the period Razorpay charged', () => {
+    const { state, effects } = applyBillingEvent(
+      paidState({ status: 'past_due', gracePeriodEnd: new Date('2025-03-08T00:00:00Z'), dunningRemindersSent: 2 }),
+      fixtureEvent('subscription-charged')
+    );
+
+    expect(state).toMatchObject({
+      status: 'active',
+      currentPeriodEnd: new Date(1740787200 * 1000),
+      gracePeriodEnd: null,
+      dunningRemindersSent: 0,
+      lastPaymentId: 'pay_NQp3hYwqV9xkLm'
+    });
+    expect(effects.map(effect => effect.type)).toEqual(['payment_recorded']);
+  });
+
+  it('carries the discounts priced into the order onto the payment', () => {
+    const event: BillingEvent = { ...fixtureEvent('order-paid'), amount: 159, promoCode: 'PARTNER20', promoDiscount: 40 };
+    const { effects } = applyBillingEvent(null, event);
+
+    expect(effects[0]).toMatchObject({ type: 'payment_recorded', amount: 159, promoCode: 'PARTNER20', promoDiscount: 40 });
+  });
+
+  it('extends rather than restarts the period when paying early', () => {
+    const current = paidState({ tier: 'practice', currentPeriodEnd: new Date('2025-01-20T00:00:00Z') });
+    const { state } = applyBillingEvent(current, fixtureEvent('order-paid'));
+
+    expect(state?.currentPeriodStart).toEqual(new Date('2025-01-20T00:00:00Z'));
+    expect(state?.currentPeriodEnd).toEqual(new Date('2025-02-20T00:00:00Z'));
+  });
+
+  it('starts the grace period with a first reminder when Razorpay halts the subscription', () => {
+    const event = fixtureEvent('subscription-halted');
+    const { state, effects } = applyBillingEvent(paidState(), event);
+
+    expect(state).toMatchObject({ status: 'past_due', tier: 'mains', dunningRemindersSent: 1 });
+    expect(state?.gracePeriodEnd).toEqual(new Date(event.occurredAt.getTime() + GRACE_PERIOD_DAYS * DAY));
+    expect(effects).toEqual([{ type: 'dunning_reminder', attempt: 1, gracePeriodEnd: state?.gracePeriodEnd }]);
+  });
+
+  it('keeps access until the period ends after a cancellation', () => {
+    const { state, effects } = applyBillingEvent(paidState(), fixtureEvent('subscription-cancelled'));
+
+    expect(state).toMatchObject({ status: 'active', tier: 'mains', cancelAtPeriodEnd: true });
+    expect(effects).toEqual([]);
+  });
+
+  it('downgrades at once when a past-due subscription is cancelled', () => {
+    const { state, effects } = applyBillingEvent(paidState({ status: 'past_due' }), fixtureEvent('subscription-cancelled'));
+
+    expect(state).toMatchObject({ status: 'cancelled', tier: 'free' });
+    expect(effects).toEqual([{ type: 'tier_changed', from: 'mains', to: 'free', reason: 'cancellation' }]);
+  });
+
+  it('revokes the plan when its latest payment is refunded', () => {
+    const active = applyBillingEvent(null, fixtureEvent('order-paid')).state;
+    const { state, effects } = applyBillingEvent(active, fixtureEvent('refund-processed'));
+
+    expect(state).toMatchObject({ status: 'cancelled', tier: 'free' });
+    expect(effects.map(effect => effect.type)).toEqual(['refund_recorded', 'tier_changed']);
+  });
+
+  it('only records refunds of older payments', () => {
+    const current = paidState({ lastPaymentId: 'pay_newer' });
+    const { state, changed, effects } = applyBillingEvent(current, fixtureEvent('refund-processed'));
+
+    expect(changed).toBe(false);
+    expect(state).toBe(current);
+    expect(effects).toEqual([{ type: 'refund_recorded', paymentId: 'pay_NQnAZu3Rbyg0MH', refundId: 'rfnd_NQr8bC2kPz1yUv', amount: 199 }]);
+  });
+
+  it('ignores subscription events for users without a paid plan', () => {
+    expect(applyBillingEvent(null, fixtureEvent('subscription-halted')).changed).toBe(false);
+  });
+});
+
+describe('startTrial', () => {
+  const now = new Date('2025-01-01T00:00:00Z');
+
+  it('grants the tier until the trial ends and remembers it was used', () => {
+    const { state, effects } = startTrial(null, 'practice', now);
+    const trialEnd = new Date(now.getTime() + TRIAL_DAYS * DAY);
+
+    expect(state).toMatchObject({ tier: 'practice', status: 'active', amount: 0, isTrial: true, trialTiers: ['practice'], currentPeriodEnd: trialEnd });
+    expect(effects).toEqual([{ type: 'tier_changed', from: 'free', to: 'practice', reason: 'trial', trialEnd }]);
+  });
+
+  it('ends when the user pays, starting the paid period at once', () => {
+    const trial = startTrial(null, 'practice', new Date('2024-12-30T00:00:00Z')).state;
+    const event = fixtureEvent('order-paid');
+    const { state, effects } = applyBillingEvent(trial, event);
+
+    expect(state).toMatchObject({ isTrial: false, trialTiers: ['practice'], currentPeriodStart: event.occurredAt });
+    expect(effects.map(effect => effect.type)).toEqual(['payment_recorded', 'tier_changed']);
+  });
+});
+
+describe('getProrationCredit', () => {
+  it('credits the unused share of the current period towards a higher tier', () => {
+    const halfway = new Date('2025-02-15T00:00:00Z');
+    expect(getProrationCredit(paidState(), 'elite', halfway)).toBe(249);
+    expect(getProrationCredit(paidState(), 'elite', new Date('2025-02-01T00:00:00Z'))).toBe(499);
+  });
+
+  it('gives nothing for a downgrade, a trial or a lapsed period', () => {
+    const halfway = new Date('2025-02-15T00:00:00Z');
+    expect(getProrationCredit(paidState(), 'practice', halfway)).toBe(0);
+    expect(getProrationCredit(paidState({ isTrial: true, amount: 0 }), 'elite', halfway)).toBe(0);
+    expect(getProrationCredit(paidState({ status: 'past_due' }), 'elite', halfway)).toBe(0);
+    expect(getProrationCredit(paidState(), 'elite', new Date('2025-03-02T00:00:00Z'))).toBe(0);
+    expect(getProrationCredit(null, 'elite', halfway)).toBe(0);
+  });
+
+  it('is passed through to the recorded payment so the invoice can show it', () => {
+    const event: BillingEvent = { ...fixtureEvent('order-paid'), prorationCredit: 120 };
+    const { effects } = applyBillingEvent(null, event);
+
+    expect(effects[0]).toMatchObject({ type: 'payment_recorded', prorationCredit: 120 });
+  });
+});
+
+describe('advanceSubscription', () => {
+  const periodEnd = new Date('2025-03-01T00:00:00Z');
+  const at = (days: number) => new Date(periodEnd.getTime() + days * DAY);
+
+  it('leaves current and free subscriptions alone', () => {
+    expect(advanceSubscription(paidState(), at(-1)).changed).toBe(false);
+    expect(advanceSubscription(paidState({ tier: 'free', status: 'active' }), at(30)).changed).toBe(false);
+  });
+
+  it('moves a lapsed subscription into the grace period', () => {
+    const { state, effects } = advanceSubscription(paidState(), at(0.5));
+
+    expect(state).toMatchObject({ status: 'past_due', tier: 'mains', gracePeriodEnd: at(GRACE_PERIOD_DAYS), dunningRemindersSent: 1 });
+    expect(effects).toEqual([{ type: 'dunning_reminder', attempt: 1, gracePeriodEnd: at(GRACE_PERIOD_DAYS) }]);
+  });
+
+  it('sends reminders on the dunning schedule, one per run', () => {
+    let state = advanceSubscription(paidState(), at(0)).state!;
+
+    expect(advanceSubscription(state, at(2)).changed).toBe(false);
+
+    const third = advanceSubscription(state, at(3));
+    expect(third.effects).toEqual([{ type: 'dunning_reminder', attempt: 2, gracePeriodEnd: at(GRACE_PERIOD_DAYS) }]);
+    state = third.state!;
+
+    // A run that missed day 6 still sends only the next reminder
+    expect(advanceSubscription(state, at(6.5)).effects).toEqual([{ type: 'dunning_reminder', attempt: 3, gracePeriodEnd: at(GRACE_PERIOD_DAYS) }]);
+  });
+
+  it('downgrades to free when the grace period runs out', () => {
+    const pastDue = advanceSubscription(paidState(), at(0)).state!;
+    const { state, effects } = advanceSubscription(pastDue, at(GRACE_PERIOD_DAYS));
+
+    expect(state).toMatchObject({ tier: 'free', status: 'expired', gracePeriodEnd: null });
+    expect(effects).toEqual([{ type: 'tier_changed', from: 'mains', to: 'free', reason: 'payment_failed' }]);
+  });
+
+  it('downgrades an unpaid trial when it ends, without a grace period', () => {
+    const trial = startTrial(null, 'mains', new Date(periodEnd.getTime() - TRIAL_DAYS * DAY)).state!;
+
+    expect(advanceSubscription(trial, at(-1)).changed).toBe(false);
+
+    const { state, effects } = advanceSubscription(trial, at(0));
+    expect(state).toMatchObject({ tier: 'free', status: 'expired', isTrial: false, trialTiers: ['mains'] });
+    expect(effects).toEqual([{ type: 'tier_changed', from: 'mains', to: 'free', reason: 'trial_ended' }]);
+  });
+
+  it('downgrades a cancelled subscription at the end of its period without dunning', () => {
+    const { state, effects } = advanceSubscription(paidState({ cancelAtPeriodEnd: true }), at(1));
+
+    expect(state).toMatchObject({ tier: 'free', status: 'expired', currentPeriodEnd: periodEnd });
+    expect(effects).toEqual([{ type: 'tier_changed', from: 'mains', to: 'free', reason: 'cancellation' }]);
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  CANONICAL_SYLLABUS,
+  buildSyllabus,
+  formatSyllabusOutline,
+  getLegacySyllabusIds,
+  getSyllabusPath,
+  getSyllabusSections,
+  migrateSyllabusRecord,
+  resolveSyllabusId
+} from '../syllabus';
+import { UPSC_SYLLABUS_TAXONOMY, syllabusMapper } from '@/ai/multi-agent-framework/syllabus/upsc-syllabus-taxonomy';
+
+describe('canonical syllabus', () => {
+  it('covers Prelims GS, CSAT, Mains GS1-4, the essay and optionals', () => {
+    expect(CANONICAL_SYLLABUS.papers).toEqual(['pre_gs', 'csat', 'essay', 'gs1', 'gs2', 'gs3', 'gs4', 'optional']);
+    expect(CANONICAL_SYLLABUS.nodes.opt_sociology_p2).toMatchObject({ level: 'unit', exam: 'mains', paperId: 'optional' });
+  });
+
+  it('keeps every taxonomy node under the same parent', () => {
+    Object.values(UPSC_SYLLABUS_TAXONOMY.nodes).forEach(node => {
+      expect(CANONICAL_SYLLABUS.nodes[node.id]).toMatchObject({ level: node.level, parentId: node.parent ?? null });
+      node.children.forEach(childId => expect(CANONICAL_SYLLABUS.nodes[childId]?.parentId).toBe(node.id));
+    });
+  });
+
+  it('rejects duplicate ids and migrations to nowhere', () => {
+    const paper = { id: 'p', code: 'P', exam: 'mains' as const, name: 'Paper', children: [{ id: 'p', name: 'Again' }] };
+    expect(() => buildSyllabus('test', [paper], {})).toThrow('Duplicate syllabus node id: p');
+    expect(() => buildSyllabus('test', [{ ...paper, children: [] }], { old: 'missing' })).toThrow('unknown node');
+  });
+});
+
+describe('resolveSyllabusId', () => {
+  it('maps retired ids onto canonical nodes', () => {
+    expect(resolveSyllabusId('gs3_economy')).toBe('gs3_economy');
+    expect(resolveSyllabusId('gs-science-tech')).toBe('pre_gs_science_technology');
+    // The old topic list labelled GS1 content as GS2
+    expect(resolveSyllabusId('GS2_5b60fd')).toBe('gs1_hist_ancient');
+    expect(resolveSyllabusId('nonsense')).toBeNull();
+  });
+
+  it('lists the retired ids of a node', () => {
+    expect(getLegacySyllabusIds('gs3_economy_agriculture')).toEqual(['GS4_2608b9']);
+  });
+});
+
+describe('getSyllabusPath', () => {
+  it('runs from the paper down to the node', () => {
+    expect(getSyllabusPath('GS4_dee305').map(node => node.id)).toEqual([
+      'gs3',
+      'gs3_economy',
+      'gs3_economy_agriculture',
+      'gs3_economy_agriculture_pds'
+    ]);
+  });
+});
+
+describe('getSyllabusSections', () => {
+  it('cuts the tree at the requested depth', () => {
+    const [csat] = getSyllabusSections({ paperIds: ['csat'], depth: 2 });
+    expect(csat.children?.[0]).toEqual({ id: 'csat_comprehension', name: 'Comprehension', parentId: 'csat' });
+
+    const papers = getSyllabusSections({ exam: 'prelims', depth: 1 });
+    expect(papers.map(paper => paper.id)).toEqual(['pre_gs', 'csat']);
+    expect(papers[0].children).toBeUndefined();
+  });
+});
+
+describe('migrateSyllabusRecord', () => {
+  it('re-keys onto canonical ids and merges collisions', () => {
+    const progress = {
+      'gs-history-ancient': { attempted: 3, correct: 1 },
+      pre_gs_history_ancient: { attempted: 2, correct: 2 },
+      custom: { attempted: 1, correct: 0 }
+    };
+
+    expect(migrateSyllabusRecord(progress, (a, b) => ({ attempted: a.attempted + b.attempted, correct: a.correct + b.correct }))).toEqual({
+      pre_gs_history_ancient: { attempted: 5, correct: 3 },
+      custom: { attempted: 1, correct: 0 }
+    });
+  });
+});
+
+describe('formatSyllabusOutline', () => {
+  it('renders one exam for prompts', () => {
+    const outline = formatSyllabusOutline('prelims');
+    expect(outline).toContain('## General Studies Paper II (CSAT)');
+    expect(outline).toContain('- Basic Numeracy - Numbers and their relations');
+    expect(outline).not.toContain('General Studies Paper 1');
+  });
+});
+
+describe('syllabusMapper', () => {
+  it('keeps taxonomy metadata and fills in the rest of the syllabus', () => {
+    expect(syllabusMapper.getTopicPath('gs3_security_border').map(node => node.id)).toEqual(['gs3', 'gs3_security', 'gs3_security_border']);
+    expect(syllabusMapper.calculateTopicImportance('gs1_hist_ancient_indus').factors.weightage)
+      .toBe(UPSC_SYLLABUS_TAXONOMY.nodes.gs1_hist_ancient_indus.weightage / 100);
+  });
+});
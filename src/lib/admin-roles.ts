@@ -0,0 +1,69 @@
+// Staff roles for the admin tools, held in Firebase custom claims as `roles: AdminRole[]`
+
+export const ADMIN_ROLES = ['admin', 'content-editor', 'reviewer'] as const;
+
+export type AdminRole = typeof ADMIN_ROLES[number];
+
+export type AdminPermission =
+  | 'questions:create'
+  | 'questions:update'
+  | 'questions:deactivate'
+  | 'questions:import'
+  | 'questions:review'
+  | 'tests:schedule'
+  | 'audit:read'
+  | 'roles:manage'
+  | 'promotions:manage'
+  | 'analytics:read';
+
+// Admins can do everything; editors write content; reviewers check it
+const ROLE_PERMISSIONS: Record<AdminRole, AdminPermission[]> = {
+  admin: [
+    'questions:create',
+    'questions:update',
+    'questions:deactivate',
+    'questions:import',
+    'questions:review',
+    'tests:schedule',
+    'audit:read',
+    'roles:manage',
+    'promotions:manage',
+    'analytics:read'
+  ],
+  'content-editor': [
+    'questions:create',
+    'questions:update',
+    'questions:deactivate',
+    'questions:import',
+    'tests:schedule'
+  ],
+  reviewer: ['questions:review', 'audit:read']
+};
+
+export const ROLE_LABELS: Record<AdminRole, string> = {
+  admin: 'Admin',
+  'content-editor': 'Content Editor',
+  reviewer: 'Reviewer'
+};
+
+export function isAdminRole(value: unknown): value is AdminRole {
+  return typeof value === 'string' && (ADMIN_ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Roles from a decoded ID token's custom claims. Unknown entries are ignored.
+ * Only claims grant roles; the first admin is set up with the Admin SDK
+ * (`setCustomUserClaims(uid, { roles: ['admin'] })`), never from dev mode.
+ */
+export function getRolesFromClaims(claims: Record<string, unknown>): AdminRole[] {
+  const roles = Array.isArray(claims.roles) ? claims.roles.filter(isAdminRole) : [];
+  return Array.from(new Set(roles));
+}
+
+export function hasPermission(roles: AdminRole[], permission: AdminPermission): boolean {
+  return roles.some(role => ROLE_PERMISSIONS[role].includes(permission));
+}
+
+export function getPermissions(roles: AdminRole[]): AdminPermission[] {
+  return Array.from(new Set(roles.flatMap(role => ROLE_PERMISSIONS[role])));
+}
@@ -29,10 +29,12 @@ export const AI_MODELS = {
   },
   google: {
     vision: 'projects/your-project-id/locations/us-central1/endpoints/your-endpoint',
+    gemini15Pro: 'gemini-1.5-pro',
+    gemini15Flash: 'gemini-1.5-flash',
   }
 } as const;
 
-// Pricing configuration (tokens per dollar)
+// Pricing configuration (USD per 1K tokens)
 export const AI_PRICING = {
   openai: {
     'gpt-4-turbo-preview': { input: 0.01, output: 0.03 },
@@ -42,6 +44,10 @@ export const AI_PRICING = {
   anthropic: {
     'claude-3-5-sonnet-20241022': { input: 0.003, output: 0.015 },
     'claude-3-haiku-20240307': { input: 0.00025, output: 0.00125 },
+  },
+  google: {
+    'gemini-1.5-pro': { input: 0.00125, output: 0.005 },
+    'gemini-1.5-flash': { input: 0.000075, output: 0.0003 },
   }
 } as const;
 
@@ -54,9 +60,24 @@ export const RATE_LIMITS = {
   anthropic: {
     requestsPerMinute: 50,
     tokensPerMinute: 100000,
+  },
+  google: {
+    requestsPerMinute: 360,
+    tokensPerMinute: 4000000,
   }
 } as const;
 
+// Quality tier and typical latency of each priced model, used by the model router
+export const MODEL_PROFILES = {
+  'gpt-4-turbo-preview': { tier: 'premium', latencyMs: 9000 },
+  'gpt-4': { tier: 'premium', latencyMs: 12000 },
+  'gpt-3.5-turbo': { tier: 'basic', latencyMs: 2000 },
+  'claude-3-5-sonnet-20241022': { tier: 'premium', latencyMs: 8000 },
+  'claude-3-haiku-20240307': { tier: 'standard', latencyMs: 2500 },
+  'gemini-1.5-pro': { tier: 'premium', latencyMs: 7000 },
+  'gemini-1.5-flash': { tier: 'standard', latencyMs: 2500 },
+} as const;
+
 // Default parameters for different use cases
 export const DEFAULT_PARAMS = {
   evaluation: {
@@ -0,0 +1,35 @@
+// Server-side log of AI calls and their cost per user (Admin SDK)
+
+import { FieldValue, type Firestore } from 'firebase-admin/firestore';
+import type { AICallRecord } from './model-router';
+
+export const AI_CALL_LOG_COLLECTION = 'aiCallLogs';
+export const AI_USAGE_DAILY_COLLECTION = 'aiUsageDaily';
+
+// Every call is logged; successful ones also add to the user's daily totals
+export async function recordAICallAdmin(db: Firestore, record: AICallRecord): Promise<void> {
+  const batch = db.batch();
+  const { error, ...entry } = record;
+  batch.set(db.collection(AI_CALL_LOG_COLLECTION).doc(), error ? { ...entry, error } : entry);
+
+  if (record.success) {
+    const date = record.createdAt.toISOString().split('T')[0];
+    const usage = {
+      calls: FieldValue.increment(1),
+      inputTokens: FieldValue.increment(record.inputTokens),
+      outputTokens: FieldValue.increment(record.outputTokens),
+      costUsd: FieldValue.increment(record.costUsd)
+    };
+
+    batch.set(db.collection(AI_USAGE_DAILY_COLLECTION).doc(`${record.userId || 'anonymous'}_${date}`), {
+      userId: record.userId,
+      date,
+      ...usage,
+      byTask: { [record.task]: usage },
+      byProvider: { [record.provider]: usage },
+      updatedAt: FieldValue.serverTimestamp()
+    }, { merge: true });
+  }
+
+  await batch.commit();
+}
@@ -0,0 +1,82 @@
+// Server-side analytics event store (Admin SDK). Events are append-only and
+// partitioned by IST day: analyticsEvents/{day}/events/{eventId}
+
+import { FieldValue, type Firestore } from 'firebase-admin/firestore';
+import type { ReportEvent, StoredAnalyticsEvent } from './analytics-warehouse';
+
+export const ANALYTICS_EVENTS_COLLECTION = 'analyticsEvents';
+const PARTITION_EVENTS_COLLECTION = 'events';
+
+// gRPC status Firestore reports when `create` finds the document already written
+const ALREADY_EXISTS = 6;
+
+function toDate(value: unknown): Date {
+  if (value instanceof Date) return value;
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return new Date(value as string);
+}
+
+/**
+ * Stores events that are not already stored; a batch the client resends after
+ * a lost response is not counted twice. Returns how many events were new.
+ * Callers keep batches to MAX_EVENTS_PER_BATCH, well inside one Firestore batch.
+ * When a concurrent request stores one of the events first, the batch fails as
+ * a whole and is retried with the events that are still missing.
+ */
+export async function appendAnalyticsEventsAdmin(db: Firestore, events: StoredAnalyticsEvent[]): Promise<number> {
+  const unique = Array.from(new Map(events.map(event => [`${event.day}/${event.eventId}`, event])).values());
+  if (unique.length === 0) return 0;
+
+  const writes = unique.map(event => ({
+    event,
+    ref: db.collection(ANALYTICS_EVENTS_COLLECTION).doc(event.day).collection(PARTITION_EVENTS_COLLECTION).doc(event.eventId)
+  }));
+  const existing = await db.getAll(...writes.map(write => write.ref));
+  const fresh = writes.filter((_, index) => !existing[index].exists);
+  if (fresh.length === 0) return 0;
+
+  const perDay = new Map<string, number>();
+  const batch = db.batch();
+  fresh.forEach(({ event, ref }) => {
+    batch.create(ref, event);
+    perDay.set(event.day, (perDay.get(event.day) || 0) + 1);
+  });
+  perDay.forEach((count, day) => {
+    batch.set(db.collection(ANALYTICS_EVENTS_COLLECTION).doc(day), {
+      day,
+      eventCount: FieldValue.increment(count),
+      updatedAt: FieldValue.serverTimestamp()
+    }, { merge: true });
+  });
+
+  try {
+    await batch.commit();
+  } catch (error) {
+    if ((error as { code?: unknown }).code !== ALREADY_EXISTS) throw error;
+    return appendAnalyticsEventsAdmin(db, fresh.map(write => write.event));
+  }
+  return fresh.length;
+}
+
+// Events with the given names (at most 30, Firestore's `in` limit) from each day partition
+export async function listAnalyticsEventsAdmin(db: Firestore, days: string[], names: string[]): Promise<ReportEvent[]> {
+  const snapshots = await Promise.all(days.map(day =>
+    db.collection(ANALYTICS_EVENTS_COLLECTION).doc(day).collection(PARTITION_EVENTS_COLLECTION)
+      .where('name', 'in', names)
+      .select('name', 'userId', 'occurredAt', 'route', 'properties')
+      .get()
+  ));
+
+  return snapshots.flatMap(snapshot => snapshot.docs.map(eventDoc => {
+    const data = eventDoc.data();
+    return {
+      name: data.name,
+      userId: data.userId ?? null,
+      occurredAt: toDate(data.occurredAt),
+      route: data.route,
+      properties: data.properties || {}
+    };
+  }));
+}
@@ -0,0 +1,301 @@
+// First-party product analytics: validating collected events, and the funnel,
+// retention and Web Vitals reports built from the stored events
+
+import { z } from 'zod';
+
+export type AnalyticsConsent = 'granted' | 'denied';
+
+export const MAX_EVENTS_PER_BATCH = 100;
+export const MAX_BATCH_BYTES = 256 * 1024;
+const MAX_PROPERTIES_BYTES = 8 * 1024;
+
+// Client clocks drift; timestamps further out than this are replaced by the receive time
+const MAX_CLOCK_AHEAD_MS = 5 * 60 * 1000;
+const MAX_EVENT_AGE_MS = 24 * 60 * 60 * 1000;
+
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Crawlers, uptime checks, headless browsers and scripted clients
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|headless|lighthouse|pagespeed|pingdom|uptime|monitor|preview|curl|wget|python-requests|axios|node-fetch|go-http-client|java\/|okhttp/i;
+
+// Property keys that may carry full URLs, whose query strings can hold tokens or emails
+const URL_PROPERTY_KEYS = new Set(['url', 'href', 'referrer']);
+
+export const ANALYTICS_FUNNEL_STEPS = [
+  { event: 'sign_up', label: 'Signed up' },
+  { event: 'onboarding_completed', label: 'Completed onboarding' },
+  { event: 'quiz_completed', label: 'Finished first quiz' },
+  { event: 'subscription_upgraded', label: 'Upgraded' }
+] as const;
+
+// Events that count as a user being active for retention
+export const ANALYTICS_ACTIVITY_EVENTS = ['session_start', 'page_view'];
+
+export const WEB_VITAL_EVENT = 'web_vital';
+
+export const collectedEventSchema = z.object({
+  // Becomes a Firestore document ID, so no path separators or reserved __names__
+  eventId: z.string().regex(/^[A-Za-z0-9_-]{8,64}$/, 'Event IDs are 8-64 letters, digits, _ or -')
+    .refine(id => !/^__.*__$/.test(id), 'Event IDs cannot be reserved names'),
+  eventName: z.string().regex(/^[a-z][a-z0-9_]{0,63}$/, 'Event names are snake_case'),
+  eventData: z.record(z.unknown()).default({})
+    .refine(data => JSON.stringify(data).length <= MAX_PROPERTIES_BYTES, 'Event data is too large'),
+  userId: z.string().min(1).max(128).nullish(),
+  sessionId: z.string().min(8).max(64),
+  timestamp: z.string().datetime(),
+  url: z.string().url().max(2048),
+  userAgent: z.string().max(512).optional(),
+  referrer: z.string().max(2048).optional(),
+  viewport: z.object({ width: z.number().int().nonnegative(), height: z.number().int().nonnegative() }).optional()
+});
+
+// Events are validated one by one so a single bad event does not cost the whole batch
+export const collectBatchSchema = z.object({
+  consent: z.enum(['granted', 'denied']).optional(),
+  events: z.array(z.unknown()).max(MAX_EVENTS_PER_BATCH)
+});
+
+export type CollectedEvent = z.infer<typeof collectedEventSchema>;
+
+export interface StoredAnalyticsEvent {
+  eventId: string;
+  name: string;
+  userId: string | null; // from the verified ID token sent with the batch; null when anonymous
+  sessionId: string;
+  day: string; // YYYY-MM-DD in IST, the partition the event is stored under
+  occurredAt: Date;
+  receivedAt: Date;
+  path: string;
+  route: string; // path with id-like segments collapsed, for grouping
+  referrerHost: string | null;
+  properties: Record<string, unknown>;
+  viewport: { width: number; height: number } | null;
+}
+
+export type ReportEvent = Pick<StoredAnalyticsEvent, 'name' | 'userId' | 'occurredAt' | 'route' | 'properties'>;
+
+export interface FunnelStepResult {
+  event: string;
+  label: string;
+  users: number;
+  conversionFromPrevious: number; // percent
+  conversionFromStart: number; // percent
+}
+
+export interface RetentionCohort {
+  cohortStart: string; // Monday the cohort week starts on
+  users: number;
+  retained: number[]; // active users in week 0, 1, 2... after signing up
+}
+
+export interface WebVitalSummary {
+  route: string;
+  metric: string;
+  samples: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export function isBotUserAgent(userAgent: string | null | undefined): boolean {
+  return !userAgent || BOT_USER_AGENT.test(userAgent);
+}
+
+/**
+ * Events are only kept with the visitor's explicit consent, and never when the
+ * browser sends a Global Privacy Control or Do Not Track signal.
+ */
+export function hasAnalyticsConsent(consent: AnalyticsConsent | undefined, headers: Headers): boolean {
+  return consent === 'granted' && headers.get('sec-gpc') !== '1' && headers.get('dnt') !== '1';
+}
+
+// Calendar day in IST, used to partition stored events
+export function getAnalyticsDay(date: Date): string {
+  return new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+// Each day from `from` to `to`, inclusive
+export function getAnalyticsDays(from: Date, to: Date): string[] {
+  const days: string[] = [];
+  for (let time = from.getTime(); getAnalyticsDay(new Date(time)) <= getAnalyticsDay(to); time += DAY_MS) {
+    days.push(getAnalyticsDay(new Date(time)));
+  }
+  return days;
+}
+
+// Collapses ids so /questions/abc123 and /questions/def456 report as one route
+export function normalizeRoute(path: string): string {
+  const segments = path.split('/').map(segment =>
+    /^\d+$/.test(segment) || /^[0-9a-f-]{16,}$/i.test(segment) || (/\d/.test(segment) && /^[A-Za-z0-9_-]{12,}$/.test(segment))
+      ? '[id]'
+      : segment
+  );
+  return segments.join('/').replace(/\/+$/, '') || '/';
+}
+
+function stripQuery(value: unknown): unknown {
+  if (typeof value !== 'string') return value;
+  try {
+    const url = new URL(value);
+    return `${url.origin}${url.pathname}`;
+  } catch {
+    return value.split(/[?#]/)[0];
+  }
+}
+
+function getHost(value: string | undefined): string | null {
+  if (!value) return null;
+  try {
+    return new URL(value).host;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Shapes a validated client event for storage. The client's own timestamp is
+ * kept unless it is implausibly far from when the event arrived; the user is
+ * the one the collector authenticated, never the `userId` the client reports.
+ */
+export function toStoredEvent(event: CollectedEvent, receivedAt: Date, userId: string | null): StoredAnalyticsEvent {
+  const reported = new Date(event.timestamp);
+  const drift = reported.getTime() - receivedAt.getTime();
+  const occurredAt = drift > MAX_CLOCK_AHEAD_MS || -drift > MAX_EVENT_AGE_MS ? receivedAt : reported;
+  const path = new URL(event.url).pathname;
+
+  const properties: Record<string, unknown> = {};
+  Object.entries(event.eventData).forEach(([key, value]) => {
+    // Every event repeats its timestamp in its data
+    if (key === 'timestamp') return;
+    properties[key] = URL_PROPERTY_KEYS.has(key) ? stripQuery(value) : value;
+  });
+
+  return {
+    eventId: event.eventId,
+    name: event.eventName,
+    userId,
+    sessionId: event.sessionId,
+    day: getAnalyticsDay(occurredAt),
+    occurredAt,
+    receivedAt,
+    path,
+    route: normalizeRoute(path),
+    referrerHost: getHost(event.referrer),
+    properties,
+    viewport: event.viewport || null
+  };
+}
+
+function percent(part: number, whole: number): number {
+  return whole > 0 ? Math.round((part / whole) * 1000) / 10 : 0;
+}
+
+/**
+ * Users who went through the funnel steps in order. A step only counts if it
+ * happened after the user reached the step before it.
+ */
+export function computeFunnel(events: ReportEvent[]): FunnelStepResult[] {
+  const stepIndex = new Map<string, number>(ANALYTICS_FUNNEL_STEPS.map((step, index) => [step.event, index]));
+  const byUser = new Map<string, ReportEvent[]>();
+  events.forEach(event => {
+    if (!event.userId || !stepIndex.has(event.name)) return;
+    byUser.set(event.userId, [...(byUser.get(event.userId) || []), event]);
+  });
+
+  const reached = ANALYTICS_FUNNEL_STEPS.map(() => 0);
+  byUser.forEach(userEvents => {
+    const sorted = [...userEvents].sort((a, b) => a.occurredAt.getTime() - b.occurredAt.getTime());
+    let nextStep = 0;
+    sorted.forEach(event => {
+      if (stepIndex.get(event.name) === nextStep) {
+        reached[nextStep] += 1;
+        nextStep += 1;
+      }
+    });
+  });
+
+  return ANALYTICS_FUNNEL_STEPS.map((step, index) => ({
+    event: step.event,
+    label: step.label,
+    users: reached[index],
+    conversionFromPrevious: index === 0 ? 100 : percent(reached[index], reached[index - 1]),
+    conversionFromStart: percent(reached[index], reached[0])
+  }));
+}
+
+// Monday of the IST week the date falls in
+function getWeekStart(date: Date): string {
+  const day = new Date(`${getAnalyticsDay(date)}T00:00:00Z`);
+  return new Date(day.getTime() - ((day.getUTCDay() + 6) % 7) * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Weekly cohorts by signup week, with how many of each cohort were active in
+ * each following week up to `now`.
+ */
+export function computeRetentionCohorts(events: ReportEvent[], now: Date, maxWeeks = 8): RetentionCohort[] {
+  const signupWeek = new Map<string, string>();
+  const activeWeeks = new Map<string, Set<string>>();
+
+  events.forEach(event => {
+    if (!event.userId) return;
+    const week = getWeekStart(event.occurredAt);
+    if (event.name === ANALYTICS_FUNNEL_STEPS[0].event) {
+      const current = signupWeek.get(event.userId);
+      if (!current || week < current) signupWeek.set(event.userId, week);
+    }
+    if (event.name === ANALYTICS_FUNNEL_STEPS[0].event || ANALYTICS_ACTIVITY_EVENTS.includes(event.name)) {
+      activeWeeks.set(event.userId, (activeWeeks.get(event.userId) || new Set()).add(week));
+    }
+  });
+
+  const currentWeek = new Date(`${getWeekStart(now)}T00:00:00Z`).getTime();
+  const cohorts = new Map<string, string[]>();
+  signupWeek.forEach((week, userId) => cohorts.set(week, [...(cohorts.get(week) || []), userId]));
+
+  return Array.from(cohorts.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([cohortStart, userIds]) => {
+      const start = new Date(`${cohortStart}T00:00:00Z`).getTime();
+      const weeksSoFar = Math.min(maxWeeks, Math.floor((currentWeek - start) / (7 * DAY_MS)) + 1);
+      const retained = Array.from({ length: weeksSoFar }, (_, offset) => {
+        const week = new Date(start + offset * 7 * DAY_MS).toISOString().slice(0, 10);
+        return userIds.filter(userId => activeWeeks.get(userId)?.has(week)).length;
+      });
+      return { cohortStart, users: userIds.length, retained };
+    });
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+export function computeWebVitalPercentiles(events: ReportEvent[]): WebVitalSummary[] {
+  const samples = new Map<string, { route: string; metric: string; values: number[] }>();
+  events.forEach(event => {
+    if (event.name !== WEB_VITAL_EVENT) return;
+    const { name, value } = event.properties;
+    if (typeof name !== 'string' || typeof value !== 'number' || !Number.isFinite(value)) return;
+
+    const key = `${event.route} ${name}`;
+    const group = samples.get(key) || { route: event.route, metric: name, values: [] };
+    group.values.push(value);
+    samples.set(key, group);
+  });
+
+  return Array.from(samples.values())
+    .map(({ route, metric, values }) => {
+      const sorted = [...values].sort((a, b) => a - b);
+      return {
+        route,
+        metric,
+        samples: sorted.length,
+        p50: percentile(sorted, 50),
+        p75: percentile(sorted, 75),
+        p95: percentile(sorted, 95)
+      };
+    })
+    .sort((a, b) => a.route.localeCompare(b.route) || a.metric.localeCompare(b.metric));
+}
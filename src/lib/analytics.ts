@@ -1,5 +1,10 @@
 'use client';
 
+import type { AnalyticsConsent } from './analytics-warehouse';
+
+// Where the visitor's answer to the analytics consent banner is kept
+export const ANALYTICS_CONSENT_STORAGE_KEY = 'analyticsConsent';
+
 // Analytics Event Types
 export interface AnalyticsEvent {
   eventId: string;
@@ -44,9 +49,12 @@ export class AnalyticsManager {
   private flushInterval: NodeJS.Timeout | null = null;
   private userProperties: UserProperties | null = null;
   private isOnline = true;
+  private consent: AnalyticsConsent | null = null;
+  private getIdToken: (() => Promise<string>) | null = null;
 
   private constructor() {
     this.sessionId = this.generateUUID();
+    this.consent = this.readStoredConsent();
     this.setupNetworkListeners();
     this.setupPageVisibilityListeners();
     this.setupUnloadListeners();
@@ -87,14 +95,36 @@ export class AnalyticsManager {
     this.trackEvent('user_identified', { userId });
   }
 
+  // The collector attributes events to the user whose ID token comes with the batch
+  setIdTokenProvider(getIdToken: (() => Promise<string>) | null): void {
+    this.getIdToken = getIdToken;
+  }
+
   setUserProperties(properties: Partial<UserProperties>): void {
     this.userProperties = { ...this.userProperties, ...properties } as UserProperties;
     this.trackEvent('user_properties_updated', properties);
   }
 
+  // Consent - nothing is tracked until the visitor accepts analytics
+  getConsent(): AnalyticsConsent | null {
+    return this.consent;
+  }
+
+  setConsent(consent: AnalyticsConsent): void {
+    this.consent = consent;
+    if (consent === 'denied') {
+      this.eventQueue = [];
+    }
+    try {
+      localStorage.setItem(ANALYTICS_CONSENT_STORAGE_KEY, consent);
+    } catch {
+      // Storage can be unavailable (private mode); the choice then lasts for this page load
+    }
+  }
+
   // Track events
   trackEvent(eventName: string, eventData: Record<string, any> = {}): void {
-    if (typeof window === 'undefined') return;
+    if (typeof window === 'undefined' || this.consent !== 'granted') return;
     
     const event: AnalyticsEvent = {
       eventId: this.generateUUID(),
@@ -340,11 +370,13 @@ export class AnalyticsManager {
     this.eventQueue = [];
     
     try {
-      // Use sendBeacon if available for reliability
-      if (navigator.sendBeacon && this.isOnline) {
+      const idToken = this.getIdToken ? await this.getIdToken() : null;
+
+      // Use sendBeacon if available for reliability; it cannot carry the ID token
+      if (!idToken && navigator.sendBeacon && this.isOnline) {
         const success = navigator.sendBeacon(
           '/api/analytics/collect',
-          JSON.stringify({ events: eventsToSend })
+          JSON.stringify({ consent: this.consent, events: eventsToSend })
         );
         
         if (!success) {
@@ -356,8 +388,9 @@ export class AnalyticsManager {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
+            ...(idToken && { Authorization: `Bearer ${idToken}` }),
           },
-          body: JSON.stringify({ events: eventsToSend }),
+          body: JSON.stringify({ consent: this.consent, events: eventsToSend }),
           keepalive: true,
         });
       }
@@ -375,6 +408,16 @@ export class AnalyticsManager {
     }
   }
 
+  private readStoredConsent(): AnalyticsConsent | null {
+    if (typeof window === 'undefined') return null;
+    try {
+      const stored = localStorage.getItem(ANALYTICS_CONSENT_STORAGE_KEY);
+      return stored === 'granted' || stored === 'denied' ? stored : null;
+    } catch {
+      return null;
+    }
+  }
+
   private generateUUID(): string {
     return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
       const r = Math.random() * 16 | 0;
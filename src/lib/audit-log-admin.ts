@@ -0,0 +1,54 @@
+// Server-side access to the admin audit trail (Admin SDK)
+
+import type { Firestore, Query, Transaction } from 'firebase-admin/firestore';
+import { AuditLogEntry, AuditLogFilters } from './audit-log';
+
+export const AUDIT_LOG_COLLECTION = 'adminAuditLogs';
+
+function toDate(value: unknown): Date {
+  if (value instanceof Date) return value;
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return new Date(value as string);
+}
+
+export async function writeAuditLogAdmin(db: Firestore, entry: Omit<AuditLogEntry, 'id'>): Promise<string> {
+  const ref = db.collection(AUDIT_LOG_COLLECTION).doc();
+  await ref.set(entry);
+  return ref.id;
+}
+
+// Records the entry inside the mutation's transaction, so it is written if and only if the change is
+export function addAuditLogToTransaction(db: Firestore, transaction: Transaction, entry: Omit<AuditLogEntry, 'id'>): void {
+  transaction.set(db.collection(AUDIT_LOG_COLLECTION).doc(), entry);
+}
+
+// Newest first; `before` pages back from the oldest entry already shown
+export async function listAuditLogsAdmin(
+  db: Firestore,
+  filters: AuditLogFilters,
+  maxEntries: number,
+  before?: Date
+): Promise<AuditLogEntry[]> {
+  let query: Query = db.collection(AUDIT_LOG_COLLECTION);
+
+  if (filters.action) query = query.where('action', '==', filters.action);
+  if (filters.entityType) query = query.where('entityType', '==', filters.entityType);
+  if (filters.entityId) query = query.where('entityId', '==', filters.entityId);
+  if (filters.actorId) query = query.where('actorId', '==', filters.actorId);
+  if (filters.from) query = query.where('createdAt', '>=', filters.from);
+  if (filters.to) query = query.where('createdAt', '<=', filters.to);
+  if (before) query = query.where('createdAt', '<', before);
+
+  const snapshot = await query.orderBy('createdAt', 'desc').limit(maxEntries).get();
+
+  return snapshot.docs.map(entryDoc => {
+    const data = entryDoc.data();
+    return {
+      ...data,
+      id: entryDoc.id,
+      createdAt: toDate(data.createdAt)
+    } as AuditLogEntry;
+  });
+}
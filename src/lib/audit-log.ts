@@ -0,0 +1,106 @@
+// Audit trail for admin mutations (question bank edits, imports, role changes and promo codes)
+
+import type { AdminRole } from './admin-roles';
+
+export const AUDIT_ACTIONS = ['create', 'update', 'deactivate', 'bulk-import', 'roles-update', 'status-change', 'rollback'] as const;
+
+export const AUDIT_ENTITY_TYPES = ['prelims-question', 'mains-question', 'question-upload', 'user-roles', 'promo-code'] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export type AuditEntityType = typeof AUDIT_ENTITY_TYPES[number];
+
+// Bookkeeping fields that change on every write and would only add noise to a diff
+const IGNORED_DIFF_FIELDS = new Set(['updatedAt', 'lastUpdated']);
+
+export interface AuditFieldChange {
+  field: string;
+  before: unknown; // null when the field was added
+  after: unknown; // null when the field was removed
+}
+
+export interface AuditActor {
+  uid: string;
+  email?: string;
+  roles: AdminRole[];
+}
+
+export interface AuditLogEntry {
+  id: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  actorId: string;
+  actorEmail?: string;
+  actorRoles: AdminRole[];
+  changes: AuditFieldChange[];
+  metadata?: Record<string, unknown>; // e.g. import stats or the uploaded file name
+  createdAt: Date;
+}
+
+export interface AuditLogFilters {
+  action?: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+// Key order does not matter when comparing two stored values
+function stableStringify(value: unknown): string {
+  if (value === undefined) return 'null';
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+
+  const record = value as Record<string, unknown>;
+  return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+}
+
+/**
+ * Top-level field changes between two versions of a document. A create is a
+ * diff from null and a hard delete a diff to null.
+ */
+export function diffRecords(
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown> | null
+): AuditFieldChange[] {
+  const fields = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+
+  return Array.from(fields)
+    .filter(field => !IGNORED_DIFF_FIELDS.has(field))
+    .sort()
+    .filter(field => stableStringify(before?.[field]) !== stableStringify(after?.[field]))
+    .map(field => ({
+      field,
+      before: before?.[field] ?? null,
+      after: after?.[field] ?? null
+    }));
+}
+
+export function buildAuditEntry(
+  actor: AuditActor,
+  action: AuditAction,
+  entityType: AuditEntityType,
+  entityId: string,
+  changes: AuditFieldChange[],
+  metadata?: Record<string, unknown>,
+  now: Date = new Date()
+): Omit<AuditLogEntry, 'id'> {
+  return {
+    action,
+    entityType,
+    entityId,
+    actorId: actor.uid,
+    ...(actor.email && { actorEmail: actor.email }),
+    actorRoles: actor.roles,
+    changes,
+    ...(metadata && { metadata }),
+    createdAt: now
+  };
+}
+
+export function getQuestionEntityType(examType: 'Prelims' | 'Mains'): AuditEntityType {
+  return examType === 'Prelims' ? 'prelims-question' : 'mains-question';
+}
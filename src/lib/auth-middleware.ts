@@ -3,6 +3,8 @@ import { auth as firebaseAuth } from '@/lib/firebase';
 import { DecodedIdToken } from 'firebase-admin/auth';
 import { getAuth } from 'firebase-admin/auth';
 import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { AdminPermission, AdminRole, getRolesFromClaims, hasPermission } from '@/lib/admin-roles';
+import type { AuditActor } from '@/lib/audit-log';
 
 // Initialize Firebase Admin SDK
 if (!getApps().length) {
@@ -22,6 +24,10 @@ export interface AuthenticatedRequest extends NextRequest {
   user: DecodedIdToken;
 }
 
+export interface AuthorizedRequest extends AuthenticatedRequest {
+  roles: AdminRole[];
+}
+
 export async function authenticateRequest(request: NextRequest): Promise<{ user: DecodedIdToken | null; error: string | null }> {
   try {
     const authHeader = request.headers.get('authorization');
@@ -66,6 +72,38 @@ export function createAuthenticatedHandler<T = any>(
   };
 }
 
+// Like createAuthenticatedHandler, but also requires a staff role granting `permission` (any of them, for a list)
+export function createRoleAuthorizedHandler<T = unknown>(
+  permission: AdminPermission | AdminPermission[],
+  handler: (request: AuthorizedRequest, context?: T) => Promise<Response>
+) {
+  const permissions = Array.isArray(permission) ? permission : [permission];
+
+  return createAuthenticatedHandler<T>(async (request, context) => {
+    const roles = getRolesFromClaims(request.user);
+
+    if (!permissions.some(required => hasPermission(roles, required))) {
+      return Response.json(
+        { error: 'Access denied. Your role does not allow this action.' },
+        { status: 403 }
+      );
+    }
+
+    (request as AuthorizedRequest).roles = roles;
+
+    return handler(request as AuthorizedRequest, context);
+  });
+}
+
+// Who to record in the audit trail for a mutation made through an authorized handler
+export function getAuditActor(request: AuthorizedRequest): AuditActor {
+  return {
+    uid: request.user.uid,
+    ...(request.user.email && { email: request.user.email }),
+    roles: request.roles
+  };
+}
+
 // Rate limiting utilities
 const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
 
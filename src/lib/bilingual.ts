@@ -0,0 +1,76 @@
+// Parallel Hindi/English question content, mirroring the bilingual UPSC question paper
+
+export type QuestionLanguage = 'en' | 'hi';
+
+export const QUESTION_LANGUAGE_LABELS: Record<QuestionLanguage, string> = {
+  en: 'English',
+  hi: 'हिन्दी'
+};
+
+// outputLanguage value that asks the generation flows for both languages in one call
+export const BILINGUAL_OUTPUT_LANGUAGE = 'Bilingual';
+
+export function isBilingualOutput(outputLanguage?: string): boolean {
+  const normalized = (outputLanguage || '').trim().toLowerCase();
+  return normalized === 'bilingual' || normalized === 'hindi and english' || normalized === 'english and hindi';
+}
+
+/**
+ * Language the primary (non-Hi) fields are written in. Bilingual output keeps
+ * English in the primary fields and Hindi alongside, as on the printed paper.
+ */
+export function getPrimaryOutputLanguage(outputLanguage?: string): string {
+  return !outputLanguage || isBilingualOutput(outputLanguage) ? 'English' : outputLanguage;
+}
+
+// Hindi fields carried next to the English ones on quiz questions
+export interface HindiQuestionFields {
+  questionHi?: string;
+  optionsHi?: string[];
+  explanationHi?: string;
+}
+
+export interface LocalizedQuestionText {
+  question: string;
+  options: string[];
+  explanation: string;
+}
+
+export function hasHindiContent(question: HindiQuestionFields): boolean {
+  return !!question.questionHi && question.questionHi.trim() !== '';
+}
+
+/**
+ * Text to render for the chosen language. Anything without a Hindi version
+ * falls back to English field by field, so a partly translated question
+ * still shows complete options.
+ */
+export function getLocalizedQuestion(
+  question: HindiQuestionFields & { question: string; options: string[]; explanation?: string },
+  language: QuestionLanguage
+): LocalizedQuestionText {
+  const english = {
+    question: question.question,
+    options: question.options,
+    explanation: question.explanation || ''
+  };
+  if (language === 'en' || !hasHindiContent(question)) return english;
+
+  return {
+    question: question.questionHi!,
+    options: question.options.map((option, index) => question.optionsHi?.[index] || option),
+    explanation: question.explanationHi || english.explanation
+  };
+}
+
+/**
+ * Splits generated options ({ text, textHi }) into the parallel arrays the
+ * quiz session uses. Hindi options are only kept when every option has one.
+ */
+export function splitBilingualOptions(options: { text: string; textHi?: string }[]): { options: string[]; optionsHi?: string[] } {
+  const texts = options.map(option => option.text);
+  const hindi = options.map(option => option.textHi || '');
+  return hindi.every(text => text.trim() !== '')
+    ? { options: texts, optionsHi: hindi }
+    : { options: texts };
+}
@@ -0,0 +1,249 @@
+// UPSC personality-test board: DAF profile, board personas, turn order and marks roll-up
+
+export const INTERVIEW_MAX_MARKS = 275;
+export const MAX_ANSWER_SCORE = 10;
+export const BOARD_QUESTION_COUNT = 10;
+
+export type DafField =
+  | 'homeState'
+  | 'education'
+  | 'hobbies'
+  | 'optionalSubject'
+  | 'servicePreferences'
+  | 'workExperience'
+  | 'achievements'
+  | 'languages';
+
+// Structured Detailed Application Form, the document the real board prepares from
+export interface DafProfile {
+  name?: string;
+  homeState: string;
+  homeDistrict?: string;
+  education: Array<{
+    degree: string;
+    discipline: string;
+    institution: string;
+    year?: number;
+  }>;
+  hobbies: string[];
+  optionalSubject: string;
+  // Ordered from most to least preferred, e.g. ['IAS', 'IFS', 'IPS']
+  servicePreferences: string[];
+  cadrePreferences?: string[];
+  workExperience?: Array<{ organisation: string; role: string; years: number }>;
+  achievements?: string[];
+  languages?: string[];
+}
+
+export interface BoardMember {
+  id: string;
+  name: string;
+  role: 'chairman' | 'member';
+  background: string;
+  // DAF fields this member draws questions from
+  focusFields: DafField[];
+  // Current affairs areas this member brings into questions
+  currentAffairsAreas: string[];
+}
+
+export interface AnswerEvaluation {
+  turn: number;
+  memberId: string;
+  score: number; // 0 to MAX_ANSWER_SCORE
+  remarks?: string;
+}
+
+export interface MemberAssessment {
+  memberId: string;
+  memberName: string;
+  questionsAsked: number;
+  averageScore: number;
+  marks: number; // out of INTERVIEW_MAX_MARKS
+  remarks: string[];
+}
+
+export type InterviewGrade = 'Outstanding' | 'Very Good' | 'Good' | 'Average' | 'Below Average';
+
+export interface BoardReport {
+  maxMarks: number;
+  marks: number;
+  percentage: number;
+  grade: InterviewGrade;
+  members: MemberAssessment[];
+  strongestField?: DafField;
+  weakestField?: DafField;
+}
+
+export const INTERVIEW_BOARD: BoardMember[] = [
+  {
+    id: 'chairman',
+    name: 'Dr. Rajesh Kumar',
+    role: 'chairman',
+    background: 'Retired IAS officer and former Chief Secretary',
+    focusFields: ['servicePreferences', 'homeState', 'achievements'],
+    currentAffairsAreas: ['governance', 'ethics in public life']
+  },
+  {
+    id: 'academic',
+    name: 'Prof. Meera Sharma',
+    role: 'member',
+    background: 'Professor and subject expert from a central university',
+    focusFields: ['education', 'optionalSubject'],
+    currentAffairsAreas: ['science and technology', 'education policy']
+  },
+  {
+    id: 'diplomat',
+    name: 'Ambassador Vikram Singh',
+    role: 'member',
+    background: 'Former IFS officer who served as ambassador',
+    focusFields: ['languages', 'hobbies'],
+    currentAffairsAreas: ['international relations', 'national security']
+  },
+  {
+    id: 'administrator',
+    name: 'Mr. Arun Mehta',
+    role: 'member',
+    background: 'Retired IPS officer with district and state experience',
+    focusFields: ['homeState', 'workExperience'],
+    currentAffairsAreas: ['internal security', 'state politics and development']
+  },
+  {
+    id: 'social',
+    name: 'Ms. Kavita Rao',
+    role: 'member',
+    background: 'Social sector leader and former member of a national commission',
+    focusFields: ['hobbies', 'achievements'],
+    currentAffairsAreas: ['social justice', 'environment']
+  }
+];
+
+const roundMarks = (value: number): number => Math.round(value * 100) / 100;
+
+export function getBoardMember(memberId: string, board: BoardMember[] = INTERVIEW_BOARD): BoardMember {
+  const member = board.find(candidate => candidate.id === memberId);
+  if (!member) {
+    throw new Error(`Unknown board member: ${memberId}`);
+  }
+  return member;
+}
+
+/**
+ * The chairman opens and closes the interview; members take the turns in
+ * between in seating order.
+ */
+export function getBoardMemberForTurn(
+  turn: number,
+  totalQuestions: number = BOARD_QUESTION_COUNT,
+  board: BoardMember[] = INTERVIEW_BOARD
+): BoardMember {
+  const chairman = board.find(member => member.role === 'chairman') || board[0];
+  const members = board.filter(member => member !== chairman);
+
+  if (turn <= 0 || turn >= totalQuestions - 1 || members.length === 0) {
+    return chairman;
+  }
+  return members[(turn - 1) % members.length];
+}
+
+/**
+ * DAF fields a member should ground the next question in. Fields the
+ * candidate left empty are skipped so the board never asks about them.
+ */
+export function getDafContextForMember(profile: DafProfile, member: BoardMember): Partial<DafProfile> {
+  const context: Partial<DafProfile> = {};
+
+  member.focusFields.forEach(field => {
+    const value = profile[field];
+    const isEmpty = value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+    if (!isEmpty) {
+      Object.assign(context, { [field]: value });
+    }
+  });
+
+  if (context.homeState && profile.homeDistrict) {
+    context.homeDistrict = profile.homeDistrict;
+  }
+
+  // A member with nothing to draw on falls back to the home state, which every DAF has
+  if (Object.keys(context).length === 0) {
+    context.homeState = profile.homeState;
+  }
+  return context;
+}
+
+export function getInterviewGrade(marks: number): InterviewGrade {
+  const percentage = (marks / INTERVIEW_MAX_MARKS) * 100;
+  if (percentage >= 75) return 'Outstanding';
+  if (percentage >= 65) return 'Very Good';
+  if (percentage >= 55) return 'Good';
+  if (percentage >= 45) return 'Average';
+  return 'Below Average';
+}
+
+/**
+ * Each member marks the answers to their own questions. A member's average
+ * answer score is scaled to 275, and the board's final mark is the mean of
+ * the members who asked at least one question, as the board agrees a single
+ * mark rather than summing individual ones.
+ */
+export function compileBoardReport(
+  evaluations: AnswerEvaluation[],
+  board: BoardMember[] = INTERVIEW_BOARD
+): BoardReport {
+  const members: MemberAssessment[] = board
+    .map(member => {
+      const own = evaluations.filter(evaluation => evaluation.memberId === member.id);
+      const averageScore = own.length > 0
+        ? own.reduce((sum, evaluation) => sum + clampScore(evaluation.score), 0) / own.length
+        : 0;
+
+      return {
+        memberId: member.id,
+        memberName: member.name,
+        questionsAsked: own.length,
+        averageScore: roundMarks(averageScore),
+        marks: roundMarks((averageScore / MAX_ANSWER_SCORE) * INTERVIEW_MAX_MARKS),
+        remarks: own.map(evaluation => evaluation.remarks).filter((remark): remark is string => !!remark)
+      };
+    })
+    .filter(assessment => assessment.questionsAsked > 0);
+
+  const marks = members.length > 0
+    ? Math.round(members.reduce((sum, assessment) => sum + assessment.marks, 0) / members.length)
+    : 0;
+
+  const fieldScores = scoreByField(evaluations, board);
+
+  return {
+    maxMarks: INTERVIEW_MAX_MARKS,
+    marks,
+    percentage: roundMarks((marks / INTERVIEW_MAX_MARKS) * 100),
+    grade: getInterviewGrade(marks),
+    members,
+    strongestField: fieldScores[0]?.field,
+    weakestField: fieldScores.length > 1 ? fieldScores[fieldScores.length - 1].field : undefined
+  };
+}
+
+function clampScore(score: number): number {
+  return Math.min(MAX_ANSWER_SCORE, Math.max(0, score));
+}
+
+// Average score per DAF field, credited through the focus fields of the member who asked
+function scoreByField(evaluations: AnswerEvaluation[], board: BoardMember[]): Array<{ field: DafField; average: number }> {
+  const totals = new Map<DafField, { sum: number; count: number }>();
+
+  evaluations.forEach(evaluation => {
+    const member = board.find(candidate => candidate.id === evaluation.memberId);
+    member?.focusFields.forEach(focus => {
+      const total = totals.get(focus) || { sum: 0, count: 0 };
+      total.sum += clampScore(evaluation.score);
+      total.count += 1;
+      totals.set(focus, total);
+    });
+  });
+
+  return Array.from(totals.entries())
+    .map(([focus, total]) => ({ field: focus, average: total.sum / total.count }))
+    .sort((a, b) => b.average - a.average);
+}
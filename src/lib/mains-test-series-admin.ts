@@ -0,0 +1,246 @@
+// Server-side storage for the Mains test series API routes (Admin SDK)
+
+import type { Firestore } from 'firebase-admin/firestore';
+import {
+  BookletPage,
+  CandidateAnswer,
+  MAINS_TEST_DURATION_MINUTES,
+  MAINS_TEST_FORMATS,
+  MainsScorecard,
+  MainsTestAttempt,
+  MainsTestFormat,
+  MainsTestPaper,
+  MainsTestQuestion,
+  QuestionResult,
+  TestSourceQuestion,
+  buildTestPaperQuestions
+} from './mains-test-series';
+
+export const MAINS_TEST_PAPERS_COLLECTION = 'mainsTestPapers';
+export const MAINS_TEST_ATTEMPTS_COLLECTION = 'mainsTestAttempts';
+export const MAINS_TEST_ANSWERS_COLLECTION = 'mainsTestAnswers';
+const BOOKLET_PAGES_SUBCOLLECTION = 'pages';
+
+function toDate(value: unknown): Date {
+  if (value instanceof Date) return value;
+  if (value && typeof (value as { toDate?: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return new Date(value as string);
+}
+
+// One attempt per candidate per paper
+export function getAttemptId(paperId: string, userId: string): string {
+  return `${paperId}_${userId}`;
+}
+
+function paperFromFirestore(id: string, data: Record<string, unknown>): MainsTestPaper {
+  return {
+    ...(data as Omit<MainsTestPaper, 'id' | 'releaseAt' | 'closesAt'>),
+    id,
+    releaseAt: toDate(data.releaseAt),
+    closesAt: toDate(data.closesAt)
+  };
+}
+
+function attemptFromFirestore(id: string, data: Record<string, unknown>): MainsTestAttempt {
+  return {
+    ...(data as Omit<MainsTestAttempt, 'id' | 'startedAt' | 'submittedAt'>),
+    id,
+    startedAt: toDate(data.startedAt),
+    submittedAt: data.submittedAt ? toDate(data.submittedAt) : null
+  };
+}
+
+export interface ScheduleTestPaperInput {
+  title: string;
+  paper: MainsTestPaper['paper'];
+  format: MainsTestFormat;
+  questionIds: string[];
+  releaseAt: Date;
+  closesAt: Date;
+  createdBy: string;
+}
+
+/**
+ * Creates a paper from bank questions in the given order. Throws when a
+ * question is missing from the bank or the count does not fit the format.
+ */
+export async function scheduleTestPaperAdmin(db: Firestore, input: ScheduleTestPaperInput): Promise<MainsTestPaper> {
+  const refs = input.questionIds.map(questionId => db.collection('mains_questions').doc(questionId));
+  const snapshots = refs.length > 0 ? await db.getAll(...refs) : [];
+  const missing = snapshots.filter(snapshot => !snapshot.exists).map(snapshot => snapshot.id);
+  if (missing.length > 0) {
+    throw new Error(`Questions not found in the bank: ${missing.join(', ')}`);
+  }
+
+  const questions = buildTestPaperQuestions(
+    snapshots.map(snapshot => ({ ...(snapshot.data() as Omit<TestSourceQuestion, 'id'>), id: snapshot.id })),
+    input.format
+  );
+
+  const paperRef = db.collection(MAINS_TEST_PAPERS_COLLECTION).doc();
+  const paper: Omit<MainsTestPaper, 'id'> = {
+    title: input.title,
+    paper: input.paper,
+    format: input.format,
+    questions,
+    totalMarks: MAINS_TEST_FORMATS[input.format].totalMarks,
+    durationMinutes: MAINS_TEST_DURATION_MINUTES,
+    releaseAt: input.releaseAt,
+    closesAt: input.closesAt,
+    createdBy: input.createdBy
+  };
+  await paperRef.set({ ...paper, createdAt: new Date() });
+  return { ...paper, id: paperRef.id };
+}
+
+export async function listTestPapersAdmin(db: Firestore, maxPapers: number = 20): Promise<MainsTestPaper[]> {
+  const snapshot = await db.collection(MAINS_TEST_PAPERS_COLLECTION)
+    .orderBy('releaseAt', 'desc')
+    .limit(maxPapers)
+    .get();
+  return snapshot.docs.map(paperDoc => paperFromFirestore(paperDoc.id, paperDoc.data()));
+}
+
+export async function getTestPaperAdmin(db: Firestore, paperId: string): Promise<MainsTestPaper | null> {
+  const snapshot = await db.collection(MAINS_TEST_PAPERS_COLLECTION).doc(paperId).get();
+  return snapshot.exists ? paperFromFirestore(snapshot.id, snapshot.data() as Record<string, unknown>) : null;
+}
+
+export async function getAttemptAdmin(db: Firestore, paperId: string, userId: string): Promise<MainsTestAttempt | null> {
+  const attemptId = getAttemptId(paperId, userId);
+  const snapshot = await db.collection(MAINS_TEST_ATTEMPTS_COLLECTION).doc(attemptId).get();
+  return snapshot.exists ? attemptFromFirestore(attemptId, snapshot.data() as Record<string, unknown>) : null;
+}
+
+// Starting twice returns the running attempt, so the writing clock cannot be reset
+export async function startAttemptAdmin(db: Firestore, paperId: string, userId: string, now: Date = new Date()): Promise<MainsTestAttempt> {
+  const attemptId = getAttemptId(paperId, userId);
+  const attemptRef = db.collection(MAINS_TEST_ATTEMPTS_COLLECTION).doc(attemptId);
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(attemptRef);
+    if (snapshot.exists) {
+      return attemptFromFirestore(attemptId, snapshot.data() as Record<string, unknown>);
+    }
+
+    const attempt: Omit<MainsTestAttempt, 'id'> = {
+      paperId,
+      userId,
+      status: 'writing',
+      startedAt: now,
+      submittedAt: null,
+      pageNumbers: []
+    };
+    transaction.set(attemptRef, attempt);
+    return { ...attempt, id: attemptId };
+  });
+}
+
+// Re-uploading a page number replaces the earlier scan
+export async function saveBookletPageAdmin(db: Firestore, attemptId: string, page: BookletPage & { readabilityScore: number }): Promise<number[]> {
+  const attemptRef = db.collection(MAINS_TEST_ATTEMPTS_COLLECTION).doc(attemptId);
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(attemptRef);
+    const pageNumbers = Array.from(new Set([...(snapshot.data()?.pageNumbers || []), page.pageNumber])).sort((a, b) => a - b);
+
+    transaction.set(attemptRef.collection(BOOKLET_PAGES_SUBCOLLECTION).doc(String(page.pageNumber)), {
+      ...page,
+      uploadedAt: new Date()
+    });
+    transaction.update(attemptRef, { pageNumbers });
+    return pageNumbers;
+  });
+}
+
+export async function getBookletPagesAdmin(db: Firestore, attemptId: string): Promise<BookletPage[]> {
+  const snapshot = await db.collection(MAINS_TEST_ATTEMPTS_COLLECTION).doc(attemptId)
+    .collection(BOOKLET_PAGES_SUBCOLLECTION)
+    .orderBy('pageNumber')
+    .get();
+
+  return snapshot.docs.map(pageDoc => {
+    const data = pageDoc.data();
+    return {
+      pageNumber: data.pageNumber,
+      text: data.text,
+      confidence: data.confidence,
+      ...(data.questionNumber !== undefined && { questionNumber: data.questionNumber })
+    };
+  });
+}
+
+// Moves the attempt out of 'writing'; returns false if it had already been submitted
+export async function markAttemptSubmittedAdmin(db: Firestore, attemptId: string, now: Date = new Date()): Promise<boolean> {
+  const attemptRef = db.collection(MAINS_TEST_ATTEMPTS_COLLECTION).doc(attemptId);
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(attemptRef);
+    if (!snapshot.exists || snapshot.data()?.status !== 'writing') return false;
+    transaction.update(attemptRef, { status: 'evaluating', submittedAt: now });
+    return true;
+  });
+}
+
+// Puts a submitted attempt back to 'writing' when its evaluation could not finish
+export async function reopenAttemptAdmin(db: Firestore, attemptId: string): Promise<void> {
+  await db.collection(MAINS_TEST_ATTEMPTS_COLLECTION).doc(attemptId).update({ status: 'writing', submittedAt: null });
+}
+
+/**
+ * Stores the scorecard on the attempt and one answer document per evaluated
+ * question, which is what other candidates' topper comparison reads.
+ */
+export async function saveScorecardAdmin(
+  db: Firestore,
+  paper: Pick<MainsTestPaper, 'id' | 'questions'>,
+  attemptId: string,
+  scorecard: MainsScorecard
+): Promise<void> {
+  const batch = db.batch();
+  scorecard.questions
+    .filter((result: QuestionResult) => result.status !== 'not-attempted')
+    .forEach(result => {
+      const question = paper.questions.find((item: MainsTestQuestion) => item.questionNumber === result.questionNumber);
+      batch.set(db.collection(MAINS_TEST_ANSWERS_COLLECTION).doc(`${attemptId}_${result.questionNumber}`), {
+        paperId: paper.id,
+        userId: scorecard.userId,
+        questionNumber: result.questionNumber,
+        questionId: question?.questionId || result.questionId,
+        awardedMarks: result.awardedMarks,
+        answerText: result.answerText,
+        evaluatedAt: scorecard.evaluatedAt
+      });
+    });
+  batch.update(db.collection(MAINS_TEST_ATTEMPTS_COLLECTION).doc(attemptId), {
+    status: 'evaluated',
+    scorecard
+  });
+  await batch.commit();
+}
+
+export async function getScorecardAdmin(db: Firestore, attemptId: string): Promise<MainsScorecard | null> {
+  const snapshot = await db.collection(MAINS_TEST_ATTEMPTS_COLLECTION).doc(attemptId).get();
+  const scorecard = snapshot.data()?.scorecard;
+  return scorecard ? { ...scorecard, evaluatedAt: toDate(scorecard.evaluatedAt) } : null;
+}
+
+// Best answer per question from candidates already evaluated on this paper
+export async function getTopperAnswersAdmin(db: Firestore, paper: Pick<MainsTestPaper, 'id' | 'questions'>, excludeUserId: string): Promise<CandidateAnswer[]> {
+  const toppers = await Promise.all(paper.questions.map(async question => {
+    const snapshot = await db.collection(MAINS_TEST_ANSWERS_COLLECTION)
+      .where('paperId', '==', paper.id)
+      .where('questionNumber', '==', question.questionNumber)
+      .orderBy('awardedMarks', 'desc')
+      .limit(2)
+      .get();
+
+    return snapshot.docs
+      .map(answerDoc => answerDoc.data() as CandidateAnswer)
+      .find(answer => answer.userId !== excludeUserId) || null;
+  }));
+
+  return toppers.filter((answer): answer is CandidateAnswer => answer !== null);
+}
@@ -0,0 +1,448 @@
+// Mains answer-writing test series: paper formats, answer booklet segmentation and the paper scorecard
+
+import type { MainsQuestion } from '@/services/questionBankService';
+
+export type MainsTestFormat = 10 | 20;
+export type GradingCriterion = MainsQuestion['gradingCriteria'][number];
+
+export const MAINS_TEST_DURATION_MINUTES = 180;
+// Time after the writing window to scan and upload the booklet
+export const BOOKLET_UPLOAD_GRACE_MINUTES = 30;
+
+interface QuestionSlot {
+  marks: number;
+  wordLimit: number;
+}
+
+/**
+ * GS papers set 10-mark (150 words) questions first and 15-mark (250 words)
+ * questions after them. The 20-question format is the full 250-mark paper;
+ * the 10-question format is the half paper most test series run weekly.
+ */
+export const MAINS_TEST_FORMATS: Record<MainsTestFormat, { totalMarks: number; slots: QuestionSlot[] }> = {
+  20: {
+    totalMarks: 250,
+    slots: [
+      ...Array.from({ length: 10 }, () => ({ marks: 10, wordLimit: 150 })),
+      ...Array.from({ length: 10 }, () => ({ marks: 15, wordLimit: 250 }))
+    ]
+  },
+  10: {
+    totalMarks: 125,
+    slots: [
+      ...Array.from({ length: 5 }, () => ({ marks: 10, wordLimit: 150 })),
+      ...Array.from({ length: 5 }, () => ({ marks: 15, wordLimit: 250 }))
+    ]
+  }
+};
+
+// Used for bank questions that have no grading criteria of their own
+export const DEFAULT_GRADING_CRITERIA: GradingCriterion[] = [
+  { criterion: 'Content Accuracy', weightage: 40, description: 'Facts, data and arguments are correct and relevant' },
+  { criterion: 'Conceptual Understanding', weightage: 25, description: 'Demand of the question is understood and addressed' },
+  { criterion: 'Structure and Presentation', weightage: 20, description: 'Introduction, body and conclusion within the word limit' },
+  { criterion: 'Examples and Evidence', weightage: 15, description: 'Use of examples, reports, cases and data' }
+];
+
+export interface MainsTestQuestion {
+  questionId: string;
+  questionNumber: number; // 1-based position in the paper
+  question: string;
+  questionHi?: string;
+  subject: string[];
+  marks: number;
+  wordLimit: number;
+  gradingCriteria: GradingCriterion[];
+  // Best model answer, the topper reference until a candidate has been evaluated
+  modelAnswer?: string;
+}
+
+export interface MainsTestPaper {
+  id: string;
+  title: string;
+  paper: MainsQuestion['paper'];
+  format: MainsTestFormat;
+  questions: MainsTestQuestion[];
+  totalMarks: number;
+  durationMinutes: number;
+  releaseAt: Date;
+  closesAt: Date;
+  createdBy: string;
+}
+
+export type TestSourceQuestion = Pick<MainsQuestion, 'id' | 'question' | 'subject' | 'gradingCriteria' | 'modelAnswers'> & {
+  questionHi?: string;
+};
+
+/**
+ * Lays bank questions out in paper order, taking marks and word limits from
+ * the format rather than the bank so every attempt of the paper is marked alike.
+ */
+export function buildTestPaperQuestions(questions: TestSourceQuestion[], format: MainsTestFormat): MainsTestQuestion[] {
+  const { slots } = MAINS_TEST_FORMATS[format];
+  if (questions.length !== slots.length) {
+    throw new Error(`A ${format}-question paper needs exactly ${slots.length} questions, got ${questions.length}`);
+  }
+
+  return questions.map((question, index) => {
+    const modelAnswer = [...(question.modelAnswers || [])].sort((a, b) => b.score - a.score)[0];
+    return {
+      questionId: question.id,
+      questionNumber: index + 1,
+      question: question.question,
+      ...(question.questionHi && { questionHi: question.questionHi }),
+      subject: question.subject || [],
+      marks: slots[index].marks,
+      wordLimit: slots[index].wordLimit,
+      gradingCriteria: question.gradingCriteria?.length ? question.gradingCriteria : DEFAULT_GRADING_CRITERIA,
+      ...(modelAnswer && { modelAnswer: modelAnswer.content })
+    };
+  });
+}
+
+export type TestWindowStatus = 'scheduled' | 'open' | 'closed';
+
+export function getTestWindowStatus(paper: Pick<MainsTestPaper, 'releaseAt' | 'closesAt'>, now: Date = new Date()): TestWindowStatus {
+  if (now.getTime() < paper.releaseAt.getTime()) return 'scheduled';
+  if (now.getTime() > paper.closesAt.getTime()) return 'closed';
+  return 'open';
+}
+
+export type AttemptStatus = 'writing' | 'evaluating' | 'evaluated';
+
+export interface MainsTestAttempt {
+  id: string;
+  paperId: string;
+  userId: string;
+  status: AttemptStatus;
+  startedAt: Date;
+  submittedAt: Date | null;
+  pageNumbers: number[];
+}
+
+export function getWritingDeadline(startedAt: Date, durationMinutes: number = MAINS_TEST_DURATION_MINUTES): Date {
+  return new Date(startedAt.getTime() + durationMinutes * 60 * 1000);
+}
+
+export function getUploadDeadline(startedAt: Date, durationMinutes: number = MAINS_TEST_DURATION_MINUTES): Date {
+  return new Date(getWritingDeadline(startedAt, durationMinutes).getTime() + BOOKLET_UPLOAD_GRACE_MINUTES * 60 * 1000);
+}
+
+export function canUploadPages(attempt: Pick<MainsTestAttempt, 'status' | 'startedAt'>, durationMinutes: number, now: Date = new Date()): boolean {
+  return attempt.status === 'writing' && now.getTime() <= getUploadDeadline(attempt.startedAt, durationMinutes).getTime();
+}
+
+// --- Booklet segmentation ---
+
+export interface BookletPage {
+  pageNumber: number;
+  text: string;
+  confidence: number;
+  // Question the candidate said the page starts with, if they tagged it on upload
+  questionNumber?: number;
+}
+
+export interface AnswerSegment {
+  questionNumber: number;
+  text: string;
+  pageNumbers: number[];
+  confidence: number; // lowest OCR confidence among the pages it spans
+}
+
+export interface SegmentedBooklet {
+  segments: AnswerSegment[];
+  // Text read before any question marker, e.g. a cover page
+  unassigned: { pageNumber: number; text: string }[];
+}
+
+// "Q.3", "Q 3)", "Question 3", "Ans 3:", "Answer No. 3", "प्रश्न 3", "उत्तर 3" at the start of a line
+const ANSWER_MARKER = /^\s*(?:Q(?:uestion|ues)?|Ans(?:wer)?|प्रश्न|उत्तर)\s*(?:No\.?)?\s*[.:)-]?\s*(\d{1,2})(?!\d)\s*[.:)-]?\s*/i;
+
+/**
+ * Splits the transcribed booklet into one answer per question. Answers start
+ * at a question marker (or at a page the candidate tagged) and run across
+ * pages until the next marker. Numbered points inside an answer ("1.", "2.")
+ * are not markers, and markers for numbers outside the paper are read as text.
+ */
+export function segmentBooklet(pages: BookletPage[], questionNumbers: number[]): SegmentedBooklet {
+  const valid = new Set(questionNumbers);
+  const buffers = new Map<number, { lines: string[]; pageNumbers: Set<number>; confidence: number }>();
+  const unassigned: { pageNumber: number; text: string }[] = [];
+  let current: number | null = null;
+
+  const append = (questionNumber: number, page: BookletPage, line: string) => {
+    const buffer = buffers.get(questionNumber) || { lines: [], pageNumbers: new Set<number>(), confidence: 1 };
+    buffer.lines.push(line);
+    buffer.pageNumbers.add(page.pageNumber);
+    buffer.confidence = Math.min(buffer.confidence, page.confidence);
+    buffers.set(questionNumber, buffer);
+  };
+
+  [...pages].sort((a, b) => a.pageNumber - b.pageNumber).forEach(page => {
+    if (page.questionNumber !== undefined && valid.has(page.questionNumber)) {
+      current = page.questionNumber;
+    }
+
+    const stray: string[] = [];
+    page.text.split('\n').forEach(line => {
+      const marker = line.match(ANSWER_MARKER);
+      const markedNumber = marker ? Number(marker[1]) : null;
+      if (markedNumber !== null && valid.has(markedNumber)) {
+        current = markedNumber;
+        const rest = line.slice(marker![0].length);
+        if (rest.trim()) append(current, page, rest);
+        return;
+      }
+      if (current === null) {
+        stray.push(line);
+      } else {
+        append(current, page, line);
+      }
+    });
+
+    const strayText = stray.join('\n').trim();
+    if (strayText) unassigned.push({ pageNumber: page.pageNumber, text: strayText });
+  });
+
+  const segments = Array.from(buffers.entries())
+    .map(([questionNumber, buffer]) => ({
+      questionNumber,
+      text: buffer.lines.join('\n').trim(),
+      pageNumbers: Array.from(buffer.pageNumbers).sort((a, b) => a - b),
+      confidence: buffer.confidence
+    }))
+    .filter(segment => segment.text !== '')
+    .sort((a, b) => a.questionNumber - b.questionNumber);
+
+  return { segments, unassigned };
+}
+
+export function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// --- Scoring ---
+
+export interface CriterionScore {
+  criterion: string;
+  weightage: number;
+  marks: number;
+  maxMarks: number;
+  feedback?: string;
+}
+
+export interface ReportedCriterionScore {
+  criterion: string;
+  marks: number;
+  feedback?: string;
+}
+
+// UPSC examiners award marks in halves
+function roundToHalf(value: number): number {
+  return Math.round(value * 2) / 2;
+}
+
+/**
+ * Marks per grading criterion, scaled so the criteria add up to the
+ * question's marks. Criteria the evaluator did not report get the overall
+ * award split by weightage.
+ */
+export function scoreAgainstCriteria(
+  criteria: GradingCriterion[],
+  reported: ReportedCriterionScore[] | undefined,
+  awardedMarks: number,
+  maxMarks: number
+): { awardedMarks: number; criteria: CriterionScore[] } {
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weightage, 0) || 1;
+  const overallRatio = maxMarks > 0 ? Math.min(1, Math.max(0, awardedMarks / maxMarks)) : 0;
+
+  const scores = criteria.map(criterion => {
+    const criterionMax = (maxMarks * criterion.weightage) / totalWeight;
+    const match = reported?.find(score => score.criterion.trim().toLowerCase() === criterion.criterion.trim().toLowerCase());
+    const marks = match ? Math.min(criterionMax, Math.max(0, match.marks)) : criterionMax * overallRatio;
+    return {
+      criterion: criterion.criterion,
+      weightage: criterion.weightage,
+      marks: Math.round(marks * 100) / 100,
+      maxMarks: Math.round(criterionMax * 100) / 100,
+      ...(match?.feedback && { feedback: match.feedback })
+    };
+  });
+
+  const total = scores.reduce((sum, score) => sum + score.marks, 0);
+  return { awardedMarks: Math.min(maxMarks, roundToHalf(total)), criteria: scores };
+}
+
+export type QuestionResultStatus = 'evaluated' | 'not-attempted' | 'review-required';
+
+export interface QuestionResult {
+  questionNumber: number;
+  questionId: string;
+  maxMarks: number;
+  awardedMarks: number;
+  status: QuestionResultStatus;
+  answerText: string;
+  wordCount: number;
+  pageNumbers: number[];
+  criteria: CriterionScore[];
+  strengths: string[];
+  weaknesses: string[];
+  missingPoints: string[];
+}
+
+export function notAttemptedResult(question: MainsTestQuestion): QuestionResult {
+  return {
+    questionNumber: question.questionNumber,
+    questionId: question.questionId,
+    maxMarks: question.marks,
+    awardedMarks: 0,
+    status: 'not-attempted',
+    answerText: '',
+    wordCount: 0,
+    pageNumbers: [],
+    criteria: question.gradingCriteria.map(criterion => ({
+      criterion: criterion.criterion,
+      weightage: criterion.weightage,
+      marks: 0,
+      maxMarks: 0
+    })),
+    strengths: [],
+    weaknesses: [],
+    missingPoints: []
+  };
+}
+
+// Below this OCR or evaluator confidence a question is flagged for manual review
+export const REVIEW_CONFIDENCE_THRESHOLD = 0.6;
+
+export interface AnswerEvaluation {
+  awardedMarks: number;
+  confidence: number;
+  criteriaBreakdown: ReportedCriterionScore[];
+  analysis: { strengths: string[]; weaknesses: string[]; missingPoints: string[] };
+}
+
+export function evaluatedResult(question: MainsTestQuestion, segment: AnswerSegment, evaluation: AnswerEvaluation): QuestionResult {
+  const scored = scoreAgainstCriteria(question.gradingCriteria, evaluation.criteriaBreakdown, evaluation.awardedMarks, question.marks);
+  const lowConfidence = Math.min(segment.confidence, evaluation.confidence) < REVIEW_CONFIDENCE_THRESHOLD;
+
+  return {
+    questionNumber: question.questionNumber,
+    questionId: question.questionId,
+    maxMarks: question.marks,
+    awardedMarks: scored.awardedMarks,
+    status: lowConfidence ? 'review-required' : 'evaluated',
+    answerText: segment.text,
+    wordCount: countWords(segment.text),
+    pageNumbers: segment.pageNumbers,
+    criteria: scored.criteria,
+    strengths: evaluation.analysis.strengths,
+    weaknesses: evaluation.analysis.weaknesses,
+    missingPoints: evaluation.analysis.missingPoints
+  };
+}
+
+export interface CandidateAnswer {
+  userId: string;
+  questionNumber: number;
+  awardedMarks: number;
+  answerText: string;
+}
+
+export interface TopperComparison {
+  questionNumber: number;
+  yourMarks: number;
+  topperMarks: number | null; // null when only the model answer is available
+  gap: number | null;
+  topperAnswer: string;
+  source: 'candidate' | 'model';
+}
+
+/**
+ * The best-scoring answer from other candidates on the same paper, falling
+ * back to the question's model answer before anyone else has been evaluated.
+ */
+export function compareWithToppers(
+  paper: Pick<MainsTestPaper, 'questions'>,
+  results: QuestionResult[],
+  otherAnswers: CandidateAnswer[]
+): TopperComparison[] {
+  return paper.questions.flatMap((question): TopperComparison[] => {
+    const yourMarks = results.find(result => result.questionNumber === question.questionNumber)?.awardedMarks ?? 0;
+    const topper = otherAnswers
+      .filter(answer => answer.questionNumber === question.questionNumber)
+      .sort((a, b) => b.awardedMarks - a.awardedMarks)[0];
+
+    if (topper) {
+      return [{
+        questionNumber: question.questionNumber,
+        yourMarks,
+        topperMarks: topper.awardedMarks,
+        gap: Math.round((topper.awardedMarks - yourMarks) * 100) / 100,
+        topperAnswer: topper.answerText,
+        source: 'candidate'
+      }];
+    }
+    if (question.modelAnswer) {
+      return [{
+        questionNumber: question.questionNumber,
+        yourMarks,
+        topperMarks: null,
+        gap: null,
+        topperAnswer: question.modelAnswer,
+        source: 'model'
+      }];
+    }
+    return [];
+  });
+}
+
+export interface MainsScorecard {
+  paperId: string;
+  userId: string;
+  totalMarks: number;
+  awardedMarks: number;
+  percentage: number;
+  attempted: number;
+  reviewRequired: number;
+  questions: QuestionResult[];
+  topperComparison: TopperComparison[];
+  subjectWise: Record<string, { awarded: number; max: number }>;
+  evaluatedAt: Date;
+}
+
+export function buildScorecard(
+  paper: Pick<MainsTestPaper, 'id' | 'questions' | 'totalMarks'>,
+  userId: string,
+  results: QuestionResult[],
+  otherAnswers: CandidateAnswer[],
+  now: Date = new Date()
+): MainsScorecard {
+  const ordered = paper.questions.map(question =>
+    results.find(result => result.questionNumber === question.questionNumber) || notAttemptedResult(question)
+  );
+  const awardedMarks = ordered.reduce((sum, result) => sum + result.awardedMarks, 0);
+
+  const subjectWise: Record<string, { awarded: number; max: number }> = {};
+  paper.questions.forEach((question, index) => {
+    const subject = question.subject[0] || 'General Studies';
+    const entry = subjectWise[subject] || { awarded: 0, max: 0 };
+    entry.awarded += ordered[index].awardedMarks;
+    entry.max += question.marks;
+    subjectWise[subject] = entry;
+  });
+
+  return {
+    paperId: paper.id,
+    userId,
+    totalMarks: paper.totalMarks,
+    awardedMarks,
+    percentage: paper.totalMarks > 0 ? Math.round((awardedMarks / paper.totalMarks) * 10000) / 100 : 0,
+    attempted: ordered.filter(result => result.status !== 'not-attempted').length,
+    reviewRequired: ordered.filter(result => result.status === 'review-required').length,
+    questions: ordered,
+    topperComparison: compareWithToppers(paper, ordered, otherAnswers.filter(answer => answer.userId !== userId)),
+    subjectWise,
+    evaluatedAt: now
+  };
+}
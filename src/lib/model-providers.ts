@@ -0,0 +1,130 @@
+// Server-side model router: SDK adapters for each configured provider, routed
+// with AI_PRICING, RATE_LIMITS and MODEL_PROFILES, logging every call per user
+
+import OpenAI from 'openai';
+import Anthropic from '@anthropic-ai/sdk';
+import { GoogleGenerativeAI } from '@google/generative-ai';
+import { getFirestore } from 'firebase-admin/firestore';
+import { initializeApp, getApps, cert } from 'firebase-admin/app';
+import { AI_PRICING, MODEL_PROFILES, RATE_LIMITS } from './ai-providers';
+import {
+  MOCK_MODEL_ROUTE,
+  MockModelProvider,
+  ModelProvider,
+  ModelRouter,
+  buildModelRoutes
+} from './model-router';
+import { recordAICallAdmin } from './ai-usage-admin';
+
+function createOpenAIProvider(apiKey: string): ModelProvider {
+  const client = new OpenAI({ apiKey });
+  return {
+    name: 'openai',
+    async generate(model, request) {
+      const response = await client.chat.completions.create({
+        model,
+        messages: [
+          ...(request.system ? [{ role: 'system' as const, content: request.system }] : []),
+          { role: 'user' as const, content: request.prompt }
+        ],
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        ...(request.json && { response_format: { type: 'json_object' as const } })
+      });
+      return {
+        text: response.choices[0].message.content || '',
+        usage: { inputTokens: response.usage?.prompt_tokens || 0, outputTokens: response.usage?.completion_tokens || 0 }
+      };
+    }
+  };
+}
+
+function createAnthropicProvider(apiKey: string): ModelProvider {
+  const client = new Anthropic({ apiKey });
+  return {
+    name: 'anthropic',
+    async generate(model, request) {
+      const message = await client.messages.create({
+        model,
+        system: request.system,
+        max_tokens: request.maxTokens || 4000,
+        temperature: request.temperature,
+        messages: [{ role: 'user', content: request.prompt }]
+      });
+      const content = message.content[0];
+      return {
+        text: content?.type === 'text' ? content.text : '',
+        usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens }
+      };
+    }
+  };
+}
+
+function createGoogleProvider(apiKey: string): ModelProvider {
+  const client = new GoogleGenerativeAI(apiKey);
+  return {
+    name: 'google',
+    async generate(model, request) {
+      const result = await client.getGenerativeModel({
+        model,
+        systemInstruction: request.system,
+        generationConfig: {
+          temperature: request.temperature,
+          maxOutputTokens: request.maxTokens,
+          ...(request.json && { responseMimeType: 'application/json' })
+        }
+      }).generateContent(request.prompt);
+      const usage = result.response.usageMetadata;
+      return {
+        text: result.response.text(),
+        usage: { inputTokens: usage?.promptTokenCount || 0, outputTokens: usage?.candidatesTokenCount || 0 }
+      };
+    }
+  };
+}
+
+function getAdminDb() {
+  if (!getApps().length) {
+    initializeApp({
+      credential: cert({
+        projectId: process.env.FIREBASE_PROJECT_ID!,
+        clientEmail: process.env.FIREBASE_CLIENT_EMAIL!,
+        privateKey: process.env.FIREBASE_PRIVATE_KEY!.replace(/\\n/g, '\n'),
+      }),
+    });
+  }
+  return getFirestore();
+}
+
+let router: ModelRouter | null = null;
+
+/**
+ * The shared router. Providers are enabled by their API keys; AI_PROVIDER=mock
+ * swaps them all for the deterministic mock provider. Google is enabled by any
+ * of the keys the Genkit googleAI plugin reads.
+ */
+export function getModelRouter(): ModelRouter {
+  if (router) return router;
+
+  const recordCall = (record: Parameters<typeof recordAICallAdmin>[1]) => recordAICallAdmin(getAdminDb(), record);
+
+  if (process.env.AI_PROVIDER === 'mock') {
+    router = new ModelRouter({ routes: [MOCK_MODEL_ROUTE], providers: [new MockModelProvider()] });
+    return router;
+  }
+
+  const googleApiKey = process.env.GEMINI_API_KEY || process.env.GOOGLE_API_KEY || process.env.GOOGLE_GENAI_API_KEY;
+  const providers = [
+    process.env.OPENAI_API_KEY && createOpenAIProvider(process.env.OPENAI_API_KEY),
+    process.env.ANTHROPIC_API_KEY && createAnthropicProvider(process.env.ANTHROPIC_API_KEY),
+    googleApiKey && createGoogleProvider(googleApiKey)
+  ].filter((provider): provider is ModelProvider => !!provider);
+
+  router = new ModelRouter({
+    routes: buildModelRoutes(AI_PRICING, MODEL_PROFILES),
+    providers,
+    rateLimits: RATE_LIMITS,
+    recordCall
+  });
+  return router;
+}
@@ -0,0 +1,370 @@
+// Central model routing for AI calls: picks a model per task by cost, latency
+// and quality tier, and fails over to the next model on errors or exhausted quotas
+
+export const PROVIDER_NAMES = ['openai', 'anthropic', 'google', 'mock'] as const;
+export type ProviderName = typeof PROVIDER_NAMES[number];
+
+export const QUALITY_TIERS = ['basic', 'standard', 'premium'] as const;
+export type QualityTier = typeof QUALITY_TIERS[number];
+
+export interface ModelRoute {
+  provider: ProviderName;
+  model: string;
+  tier: QualityTier;
+  latencyMs: number; // typical, for ranking
+  pricing: { input: number; output: number }; // USD per 1K tokens
+}
+
+export interface ProviderRateLimit {
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+export const AI_TASKS = [
+  'quiz-generation',
+  'quiz-verification',
+  'interview',
+  'interview-evaluation',
+  'writing-evaluation',
+  'writing-suggestions',
+  'answer-comparison'
+] as const;
+export type AITask = typeof AI_TASKS[number];
+
+export interface TaskRouting {
+  minTier: QualityTier;
+  optimizeFor: 'cost' | 'latency' | 'quality';
+  maxLatencyMs?: number; // preferred ceiling; ignored when no model meets it
+}
+
+export const TASK_ROUTING: Record<AITask, TaskRouting> = {
+  'quiz-generation': { minTier: 'premium', optimizeFor: 'cost' },
+  'quiz-verification': { minTier: 'premium', optimizeFor: 'cost' },
+  'interview': { minTier: 'standard', optimizeFor: 'latency', maxLatencyMs: 5000 },
+  'interview-evaluation': { minTier: 'standard', optimizeFor: 'cost' },
+  'writing-evaluation': { minTier: 'premium', optimizeFor: 'quality' },
+  'writing-suggestions': { minTier: 'basic', optimizeFor: 'latency', maxLatencyMs: 3000 },
+  'answer-comparison': { minTier: 'premium', optimizeFor: 'cost' }
+};
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface GenerateRequest {
+  system?: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // ask for a JSON object response
+}
+
+export interface ModelProvider {
+  name: ProviderName;
+  generate(model: string, request: GenerateRequest): Promise<{ text: string; usage: TokenUsage }>;
+}
+
+export interface ModelCallOptions {
+  task: AITask;
+  userId?: string;
+  providers?: ProviderName[]; // only the providers the caller can reach
+  estimatedInputTokens?: number;
+  maxTokens?: number;
+}
+
+export interface FailedAttempt {
+  provider: ProviderName;
+  model: string;
+  reason: 'error' | 'quota';
+  message: string;
+}
+
+export interface ModelCallResult<T> {
+  result: T;
+  route: ModelRoute;
+  usage: TokenUsage;
+  costUsd: number;
+  latencyMs: number;
+  failedAttempts: FailedAttempt[];
+}
+
+// One logged call, successful or not; failed calls carry no tokens or cost
+export interface AICallRecord {
+  userId: string | null;
+  task: AITask;
+  provider: ProviderName;
+  model: string;
+  success: boolean;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  latencyMs: number;
+  error?: string;
+  createdAt: Date;
+}
+
+export type AICallRecorder = (record: AICallRecord) => void | Promise<void>;
+
+export class ModelRouterError extends Error {
+  constructor(message: string, public readonly task: AITask, public readonly attempts: FailedAttempt[]) {
+    super(message);
+    this.name = 'ModelRouterError';
+  }
+}
+
+const RATE_WINDOW_MS = 60 * 1000;
+const DEFAULT_INPUT_TOKENS = 1000;
+const DEFAULT_OUTPUT_TOKENS = 1000;
+
+// Rough token count (about four characters per token) for ranking and quota checks before a call
+export function estimateTokens(...texts: Array<string | undefined>): number {
+  return Math.ceil(texts.join('').length / 4);
+}
+
+// Routes for every model that has both a price and a profile
+export function buildModelRoutes(
+  pricing: Record<string, Record<string, { input: number; output: number }>>,
+  profiles: Record<string, { tier: QualityTier; latencyMs: number }>
+): ModelRoute[] {
+  return Object.entries(pricing).flatMap(([provider, models]) =>
+    Object.entries(models)
+      .filter(([model]) => model in profiles)
+      .map(([model, price]) => ({
+        provider: provider as ProviderName,
+        model,
+        tier: profiles[model].tier,
+        latencyMs: profiles[model].latencyMs,
+        pricing: { input: price.input, output: price.output }
+      }))
+  );
+}
+
+export function estimateCostUsd(route: ModelRoute, usage: TokenUsage): number {
+  return (usage.inputTokens / 1000) * route.pricing.input + (usage.outputTokens / 1000) * route.pricing.output;
+}
+
+export function isQuotaError(error: unknown): boolean {
+  if ((error as { status?: unknown } | null)?.status === 429) return true;
+  const message = error instanceof Error ? error.message : String(error);
+  return /quota|rate limit|resource[_ ]exhausted|\b429\b/i.test(message);
+}
+
+export interface ModelRouterConfig {
+  routes: ModelRoute[];
+  providers: ModelProvider[];
+  rateLimits?: Partial<Record<ProviderName, ProviderRateLimit>>;
+  recordCall?: AICallRecorder;
+  now?: () => number;
+}
+
+export class ModelRouter {
+  private providers: Map<ProviderName, ModelProvider>;
+  // Calls per provider over the last minute. Quotas are tracked per server instance,
+  // so provider-side 429s still trigger failover when several instances share a key.
+  private calls = new Map<ProviderName, Array<{ at: number; tokens: number }>>();
+  private cooldownUntil = new Map<ProviderName, number>();
+  private now: () => number;
+
+  constructor(private config: ModelRouterConfig) {
+    this.providers = new Map(config.providers.map(provider => [provider.name, provider]));
+    this.now = config.now || Date.now;
+  }
+
+  // Candidate models for a task, best first
+  rankRoutes(options: ModelCallOptions): ModelRoute[] {
+    const routing = TASK_ROUTING[options.task];
+    const minTier = QUALITY_TIERS.indexOf(routing.minTier);
+    const available = this.config.routes.filter(route =>
+      this.providers.has(route.provider) &&
+      (!options.providers || options.providers.includes(route.provider)) &&
+      QUALITY_TIERS.indexOf(route.tier) >= minTier
+    );
+
+    const fastEnough = routing.maxLatencyMs
+      ? available.filter(route => route.latencyMs <= routing.maxLatencyMs!)
+      : available;
+    const candidates = fastEnough.length > 0 ? fastEnough : available;
+
+    const expectedUsage = {
+      inputTokens: options.estimatedInputTokens ?? DEFAULT_INPUT_TOKENS,
+      outputTokens: options.maxTokens ?? DEFAULT_OUTPUT_TOKENS
+    };
+    const cost = (route: ModelRoute) => estimateCostUsd(route, expectedUsage);
+    const tier = (route: ModelRoute) => QUALITY_TIERS.indexOf(route.tier);
+
+    return [...candidates].sort((a, b) => {
+      switch (routing.optimizeFor) {
+        case 'latency':
+          return a.latencyMs - b.latencyMs || cost(a) - cost(b);
+        case 'quality':
+          return tier(b) - tier(a) || cost(a) - cost(b);
+        default:
+          return cost(a) - cost(b) || a.latencyMs - b.latencyMs;
+      }
+    });
+  }
+
+  /**
+   * Runs `call` on the best model for the task, moving down the ranking when a
+   * provider fails or is out of quota. `call` reports the tokens it used so the
+   * cost can be logged against the user.
+   */
+  async run<T>(
+    options: ModelCallOptions,
+    call: (route: ModelRoute) => Promise<{ result: T; usage: TokenUsage }>
+  ): Promise<ModelCallResult<T>> {
+    const routes = this.rankRoutes(options);
+    const expectedTokens = (options.estimatedInputTokens ?? DEFAULT_INPUT_TOKENS) + (options.maxTokens ?? DEFAULT_OUTPUT_TOKENS);
+    const failedAttempts: FailedAttempt[] = [];
+
+    for (const route of routes) {
+      const quotaProblem = this.checkQuota(route.provider, expectedTokens);
+      if (quotaProblem) {
+        failedAttempts.push({ provider: route.provider, model: route.model, reason: 'quota', message: quotaProblem });
+        continue;
+      }
+
+      const startedAt = this.now();
+      try {
+        const { result, usage } = await call(route);
+        const latencyMs = this.now() - startedAt;
+        const costUsd = estimateCostUsd(route, usage);
+        this.trackCall(route.provider, usage.inputTokens + usage.outputTokens);
+        await this.record({
+          userId: options.userId || null,
+          task: options.task,
+          provider: route.provider,
+          model: route.model,
+          success: true,
+          inputTokens: usage.inputTokens,
+          outputTokens: usage.outputTokens,
+          costUsd,
+          latencyMs,
+          createdAt: new Date(this.now())
+        });
+        return { result, route, usage, costUsd, latencyMs, failedAttempts };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        const quota = isQuotaError(error);
+        this.trackCall(route.provider, 0);
+        if (quota) {
+          this.cooldownUntil.set(route.provider, this.now() + RATE_WINDOW_MS);
+        }
+        failedAttempts.push({ provider: route.provider, model: route.model, reason: quota ? 'quota' : 'error', message });
+        await this.record({
+          userId: options.userId || null,
+          task: options.task,
+          provider: route.provider,
+          model: route.model,
+          success: false,
+          inputTokens: 0,
+          outputTokens: 0,
+          costUsd: 0,
+          latencyMs: this.now() - startedAt,
+          error: message,
+          createdAt: new Date(this.now())
+        });
+        console.warn(`AI call for ${options.task} failed on ${route.provider}/${route.model}:`, message);
+      }
+    }
+
+    throw new ModelRouterError(
+      routes.length === 0 ? `No model is available for ${options.task}` : `All models failed for ${options.task}`,
+      options.task,
+      failedAttempts
+    );
+  }
+
+  // Plain text generation through the registered provider adapters
+  generate(options: ModelCallOptions & GenerateRequest): Promise<ModelCallResult<string>> {
+    const request: GenerateRequest = {
+      system: options.system,
+      prompt: options.prompt,
+      temperature: options.temperature,
+      maxTokens: options.maxTokens,
+      json: options.json
+    };
+
+    return this.run(
+      { ...options, estimatedInputTokens: options.estimatedInputTokens ?? estimateTokens(options.system, options.prompt) },
+      async route => {
+        const { text, usage } = await this.callProvider(route, request);
+        return { result: text, usage };
+      }
+    );
+  }
+
+  // One request on a route's provider adapter, for callers of `run` that build their own requests
+  callProvider(route: ModelRoute, request: GenerateRequest): Promise<{ text: string; usage: TokenUsage }> {
+    const provider = this.providers.get(route.provider);
+    if (!provider) {
+      return Promise.reject(new Error(`No ${route.provider} provider is registered`));
+    }
+    return provider.generate(route.model, request);
+  }
+
+  private checkQuota(provider: ProviderName, expectedTokens: number): string | null {
+    const now = this.now();
+    if ((this.cooldownUntil.get(provider) ?? 0) > now) {
+      return `${provider} is cooling down after a quota error`;
+    }
+
+    const limit = this.config.rateLimits?.[provider];
+    if (!limit) return null;
+
+    const recent = (this.calls.get(provider) || []).filter(call => call.at > now - RATE_WINDOW_MS);
+    this.calls.set(provider, recent);
+
+    if (recent.length >= limit.requestsPerMinute) {
+      return `${provider} requests per minute exhausted`;
+    }
+    if (recent.reduce((sum, call) => sum + call.tokens, 0) + expectedTokens > limit.tokensPerMinute) {
+      return `${provider} tokens per minute exhausted`;
+    }
+    return null;
+  }
+
+  private trackCall(provider: ProviderName, tokens: number): void {
+    this.calls.set(provider, [...(this.calls.get(provider) || []), { at: this.now(), tokens }]);
+  }
+
+  private async record(record: AICallRecord): Promise<void> {
+    try {
+      await this.config.recordCall?.(record);
+    } catch (error) {
+      console.warn('Failed to record AI call usage:', error);
+    }
+  }
+}
+
+export const MOCK_MODEL_ROUTE: ModelRoute = {
+  provider: 'mock',
+  model: 'mock-model',
+  tier: 'premium',
+  latencyMs: 0,
+  pricing: { input: 0, output: 0 }
+};
+
+/**
+ * Deterministic provider for tests and local development. Answers with
+ * `respond` (an empty JSON object or the prompt itself by default); throw from
+ * `respond` to simulate a provider failure.
+ */
+export class MockModelProvider implements ModelProvider {
+  readonly calls: Array<{ model: string; request: GenerateRequest }> = [];
+
+  constructor(
+    public readonly name: ProviderName = 'mock',
+    private respond: (model: string, request: GenerateRequest) => string = (_model, request) => request.json ? '{}' : request.prompt
+  ) {}
+
+  async generate(model: string, request: GenerateRequest): Promise<{ text: string; usage: TokenUsage }> {
+    this.calls.push({ model, request });
+    const text = this.respond(model, request);
+    return {
+      text,
+      usage: { inputTokens: estimateTokens(request.system, request.prompt), outputTokens: estimateTokens(text) }
+    };
+  }
+}
@@ -0,0 +1,259 @@
+// GST tax invoices and credit notes for plan payments and refunds
+
+import type { BillingCycle } from './razorpay-webhooks';
+
+// Plan prices are GST-inclusive; 18% on coaching and online education services
+export const GST_RATE_PERCENT = 18;
+// SAC for commercial training and coaching services
+export const SAC_CODE = '999293';
+export const INVOICE_CURRENCY = 'INR';
+
+// Rule 46 caps the serial number at 16 characters: INV/25-26/000123
+export const INVOICE_SERIES = { invoice: 'INV', credit_note: 'CN' } as const;
+export type InvoiceType = keyof typeof INVOICE_SERIES;
+
+// GST state codes, used for GSTIN validation and place of supply
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory'
+};
+
+const GSTIN_PATTERN = /^\d{2}[A-Z]{5}\d{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+const GSTIN_CHARSET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+const IST_OFFSET_MS = (5 * 60 + 30) * 60 * 1000;
+
+export interface InvoiceParty {
+  name: string;
+  gstin?: string | null;
+  stateCode: string;
+  address?: string | null;
+  email?: string | null;
+}
+
+// What the user enters on their profile; a GSTIN makes the invoice B2B
+export interface BillingProfile {
+  name: string;
+  email?: string | null;
+  gstin?: string | null;
+  address?: string | null;
+  stateCode?: string | null;
+}
+
+export interface GstBreakdown {
+  taxableValue: number; // rupees, 2 decimals
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number; // GST-inclusive amount paid or refunded
+  interState: boolean;
+}
+
+export interface InvoiceAdjustment {
+  label: string;
+  amount: number; // rupees taken off the plan price
+}
+
+export interface InvoiceLineItem {
+  description: string;
+  sac: string;
+  listPrice: number; // GST-inclusive plan price
+  adjustments: InvoiceAdjustment[];
+}
+
+export interface Invoice extends GstBreakdown {
+  id: string; // payment ID for invoices, refund ID for credit notes
+  type: InvoiceType;
+  number: string;
+  issuedAt: Date;
+  userId: string;
+  paymentId: string;
+  refundId?: string | null;
+  originalInvoiceNumber?: string | null; // credit notes only
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  placeOfSupply: string; // state code
+  lineItem: InvoiceLineItem;
+  currency: string;
+}
+
+const toPaise = (rupees: number) => Math.round(rupees * 100);
+const toRupees = (paise: number) => paise / 100;
+
+export function getSellerDetails(): InvoiceParty {
+  return {
+    name: process.env.BILLING_LEGAL_NAME || 'PrepTalk',
+    gstin: process.env.BILLING_GSTIN || null,
+    stateCode: process.env.BILLING_STATE_CODE || '29',
+    address: process.env.BILLING_ADDRESS || null
+  };
+}
+
+export function normalizeGstin(gstin: string): string {
+  return gstin.trim().toUpperCase();
+}
+
+/**
+ * Format, state code and check character. The check character is a base-36
+ * Luhn variant over the first 14 characters.
+ */
+export function isValidGstin(gstin: string): boolean {
+  const value = normalizeGstin(gstin);
+  if (!GSTIN_PATTERN.test(value) || !GST_STATE_CODES[value.slice(0, 2)]) return false;
+
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARSET.indexOf(value[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+  return GSTIN_CHARSET[(36 - (sum % 36)) % 36] === value[14];
+}
+
+/**
+ * Registered buyers are taxed where they are registered; consumers by the
+ * state they gave, falling back to the supplier's state when unknown.
+ */
+export function getPlaceOfSupply(profile: BillingProfile | null, sellerStateCode: string): string {
+  if (profile?.gstin && isValidGstin(profile.gstin)) return normalizeGstin(profile.gstin).slice(0, 2);
+  if (profile?.stateCode && GST_STATE_CODES[profile.stateCode]) return profile.stateCode;
+  return sellerStateCode;
+}
+
+/**
+ * Splits a GST-inclusive amount into taxable value and tax: CGST + SGST
+ * within the supplier's state, IGST across states. Rounded in paise so the
+ * parts always add up to the total.
+ */
+export function calculateGst(total: number, sellerStateCode: string, placeOfSupply: string): GstBreakdown {
+  const totalPaise = toPaise(total);
+  const taxablePaise = Math.round(totalPaise * 100 / (100 + GST_RATE_PERCENT));
+  const taxPaise = totalPaise - taxablePaise;
+  const interState = sellerStateCode !== placeOfSupply;
+  const cgstPaise = interState ? 0 : Math.round(taxPaise / 2);
+
+  return {
+    taxableValue: toRupees(taxablePaise),
+    cgst: toRupees(cgstPaise),
+    sgst: interState ? 0 : toRupees(taxPaise - cgstPaise),
+    igst: interState ? toRupees(taxPaise) : 0,
+    total: toRupees(totalPaise),
+    interState
+  };
+}
+
+// Indian financial year (April-March) of a date, in IST: "25-26"
+export function getFinancialYear(date: Date): string {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const startYear = ist.getUTCMonth() < 3 ? ist.getUTCFullYear() - 1 : ist.getUTCFullYear();
+  return `${String(startYear % 100).padStart(2, '0')}-${String((startYear + 1) % 100).padStart(2, '0')}`;
+}
+
+// Numbering restarts each financial year, one series per document type
+export function getInvoiceCounterId(type: InvoiceType, issuedAt: Date): string {
+  return `${INVOICE_SERIES[type]}_${getFinancialYear(issuedAt)}`;
+}
+
+export function formatInvoiceNumber(type: InvoiceType, issuedAt: Date, sequence: number): string {
+  return `${INVOICE_SERIES[type]}/${getFinancialYear(issuedAt)}/${String(sequence).padStart(6, '0')}`;
+}
+
+export function describePlan(planName: string, billingCycle: BillingCycle): string {
+  return `${planName} plan - ${billingCycle === 'yearly' ? 'annual' : 'monthly'} subscription`;
+}
+
+export function buildInvoice(input: {
+  paymentId: string;
+  userId: string;
+  sequence: number;
+  issuedAt: Date;
+  amount: number;
+  lineItem: InvoiceLineItem;
+  seller: InvoiceParty;
+  profile: BillingProfile | null;
+}): Invoice {
+  const { profile, seller } = input;
+  const placeOfSupply = getPlaceOfSupply(profile, seller.stateCode);
+  const gstin = profile?.gstin && isValidGstin(profile.gstin) ? normalizeGstin(profile.gstin) : null;
+
+  return {
+    id: input.paymentId,
+    type: 'invoice',
+    number: formatInvoiceNumber('invoice', input.issuedAt, input.sequence),
+    issuedAt: input.issuedAt,
+    userId: input.userId,
+    paymentId: input.paymentId,
+    refundId: null,
+    originalInvoiceNumber: null,
+    seller,
+    buyer: {
+      name: profile?.name || 'Customer',
+      gstin,
+      stateCode: placeOfSupply,
+      address: profile?.address || null,
+      email: profile?.email || null
+    },
+    placeOfSupply,
+    lineItem: input.lineItem,
+    currency: INVOICE_CURRENCY,
+    ...calculateGst(input.amount, seller.stateCode, placeOfSupply)
+  };
+}
+
+/**
+ * Credit note for a (partial) refund. It reverses tax the way the original
+ * invoice charged it, whatever the buyer's profile says today.
+ */
+export function buildCreditNote(original: Invoice, input: { refundId: string; sequence: number; issuedAt: Date; amount: number }): Invoice {
+  const amount = Math.min(input.amount, original.total);
+
+  return {
+    ...original,
+    id: input.refundId,
+    type: 'credit_note',
+    number: formatInvoiceNumber('credit_note', input.issuedAt, input.sequence),
+    issuedAt: input.issuedAt,
+    refundId: input.refundId,
+    originalInvoiceNumber: original.number,
+    lineItem: {
+      ...original.lineItem,
+      description: `Refund against invoice ${original.number}: ${original.lineItem.description}`,
+      listPrice: amount,
+      adjustments: []
+    },
+    ...calculateGst(amount, original.seller.stateCode, original.placeOfSupply)
+  };
+}
@@ -0,0 +1,156 @@
+// Renders a GST invoice or credit note as a one-page A4 PDF
+
+import { PDFDocument, PDFFont, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { GST_RATE_PERCENT, GST_STATE_CODES, Invoice, InvoiceParty } from './gst-invoices';
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 48;
+const RIGHT_EDGE = PAGE_WIDTH - MARGIN;
+
+const TEXT_COLOR = rgb(0.12, 0.16, 0.22);
+const MUTED_COLOR = rgb(0.42, 0.45, 0.5);
+const RULE_COLOR = rgb(0.85, 0.87, 0.9);
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+// The standard fonts only cover WinAnsi, so the rupee sign is spelled out
+function pdfText(text: string): string {
+  return text
+    .replace(/₹/g, 'Rs.')
+    .replace(/[–—]/g, '-')
+    .replace(/[^\x20-\x7E\xA0-\xFF]/g, '?');
+}
+
+export function formatRupees(amount: number): string {
+  return `Rs. ${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-IN', { day: '2-digit', month: 'short', year: 'numeric', timeZone: 'Asia/Kolkata' });
+}
+
+function stateLabel(code: string): string {
+  return `${GST_STATE_CODES[code] || 'Unknown'} (${code})`;
+}
+
+class InvoiceWriter {
+  private y = PAGE_HEIGHT - MARGIN;
+
+  constructor(private page: PDFPage, private fonts: Fonts) {}
+
+  text(value: string, options: { size?: number; bold?: boolean; muted?: boolean; x?: number; alignRight?: boolean } = {}): void {
+    const size = options.size || 10;
+    const font = options.bold ? this.fonts.bold : this.fonts.regular;
+    const safe = pdfText(value);
+    const x = options.alignRight ? RIGHT_EDGE - font.widthOfTextAtSize(safe, size) : options.x ?? MARGIN;
+    this.page.drawText(safe, { x, y: this.y, size, font, color: options.muted ? MUTED_COLOR : TEXT_COLOR });
+  }
+
+  line(height = 14): void {
+    this.y -= height;
+  }
+
+  rule(): void {
+    this.page.drawLine({ start: { x: MARGIN, y: this.y }, end: { x: RIGHT_EDGE, y: this.y }, thickness: 1, color: RULE_COLOR });
+    this.line(16);
+  }
+
+  // Label on the left, amount flush right
+  row(label: string, amount: string, bold = false): void {
+    this.text(label, { bold });
+    this.text(amount, { bold, alignRight: true });
+    this.line();
+  }
+
+  party(heading: string, party: InvoiceParty, x: number, startY: number): number {
+    this.y = startY;
+    this.text(heading, { size: 9, bold: true, muted: true, x });
+    this.line();
+    this.text(party.name, { bold: true, x });
+    this.line();
+    if (party.address) {
+      this.text(party.address, { x });
+      this.line();
+    }
+    this.text(`State: ${stateLabel(party.stateCode)}`, { x });
+    this.line();
+    this.text(`GSTIN: ${party.gstin || 'Unregistered'}`, { x });
+    this.line();
+    if (party.email) {
+      this.text(party.email, { x });
+      this.line();
+    }
+    return this.y;
+  }
+
+  get cursor(): number {
+    return this.y;
+  }
+}
+
+export async function renderInvoicePdf(invoice: Invoice): Promise<Uint8Array> {
+  const doc = await PDFDocument.create();
+  const fonts: Fonts = {
+    regular: await doc.embedFont(StandardFonts.Helvetica),
+    bold: await doc.embedFont(StandardFonts.HelveticaBold)
+  };
+  const title = invoice.type === 'credit_note' ? 'Credit Note' : 'Tax Invoice';
+
+  doc.setTitle(`${title} ${invoice.number}`);
+  doc.setCreator('PrepTalk Billing');
+  doc.setCreationDate(invoice.issuedAt);
+
+  const writer = new InvoiceWriter(doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]), fonts);
+
+  writer.text(title, { size: 20, bold: true });
+  writer.text(invoice.number, { size: 12, bold: true, alignRight: true });
+  writer.line(18);
+  writer.text(`Date: ${formatDate(invoice.issuedAt)}`, { muted: true });
+  writer.text(`Place of supply: ${stateLabel(invoice.placeOfSupply)}`, { muted: true, alignRight: true });
+  writer.line();
+  if (invoice.originalInvoiceNumber) {
+    writer.text(`Against invoice ${invoice.originalInvoiceNumber}`, { muted: true });
+    writer.line();
+  }
+  writer.line(10);
+  writer.rule();
+
+  const partiesTop = writer.cursor;
+  const sellerBottom = writer.party('FROM', invoice.seller, MARGIN, partiesTop);
+  const buyerBottom = writer.party('BILL TO', invoice.buyer, PAGE_WIDTH / 2, partiesTop);
+  // Continue below whichever column ran longer
+  writer.line(buyerBottom - Math.min(sellerBottom, buyerBottom) + 10);
+  writer.rule();
+
+  writer.text('Description', { size: 9, bold: true, muted: true });
+  writer.text('Amount', { size: 9, bold: true, muted: true, alignRight: true });
+  writer.line(16);
+  writer.row(`${invoice.lineItem.description} (SAC ${invoice.lineItem.sac})`, formatRupees(invoice.lineItem.listPrice));
+  invoice.lineItem.adjustments.forEach(adjustment => {
+    writer.row(`Less: ${adjustment.label}`, `- ${formatRupees(adjustment.amount)}`);
+  });
+  writer.line(4);
+  writer.rule();
+
+  writer.row('Taxable value', formatRupees(invoice.taxableValue));
+  if (invoice.interState) {
+    writer.row(`IGST @ ${GST_RATE_PERCENT}%`, formatRupees(invoice.igst));
+  } else {
+    writer.row(`CGST @ ${GST_RATE_PERCENT / 2}%`, formatRupees(invoice.cgst));
+    writer.row(`SGST @ ${GST_RATE_PERCENT / 2}%`, formatRupees(invoice.sgst));
+  }
+  writer.line(4);
+  writer.rule();
+  writer.row(invoice.type === 'credit_note' ? 'Total refunded' : 'Total paid', formatRupees(invoice.total), true);
+
+  writer.line(24);
+  writer.text(`Payment reference: ${invoice.refundId || invoice.paymentId}`, { size: 9, muted: true });
+  writer.line();
+  writer.text('Prices are inclusive of GST. This is a computer-generated document and needs no signature.', { size: 9, muted: true });
+
+  return await doc.save();
+}
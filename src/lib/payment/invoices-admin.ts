@@ -0,0 +1,183 @@
+// GST invoices and credit notes issued with billing events (Admin SDK)
+
+import { FieldValue, type Firestore, type Transaction } from 'firebase-admin/firestore';
+import type { BillingEvent } from './razorpay-webhooks';
+import type { LifecycleEffect } from './subscription-lifecycle';
+import {
+  BillingProfile,
+  Invoice,
+  InvoiceAdjustment,
+  InvoiceType,
+  SAC_CODE,
+  buildCreditNote,
+  buildInvoice,
+  describePlan,
+  getInvoiceCounterId,
+  getSellerDetails
+} from './gst-invoices';
+import { SUBSCRIPTION_PLANS } from '@/lib/subscription-tiers';
+
+// Invoices are keyed by payment ID and credit notes by refund ID, so reprocessing can't issue twice
+export const INVOICES_COLLECTION = 'invoices';
+// Next serial number per series and financial year; only advanced inside a transaction
+export const INVOICE_COUNTERS_COLLECTION = 'invoiceCounters';
+export const BILLING_PROFILES_COLLECTION = 'billingProfiles';
+
+export interface InvoiceContext {
+  profile: BillingProfile | null;
+  nextSequence: Partial<Record<InvoiceType, number>>;
+  originalInvoice: Invoice | null; // the refunded payment's invoice
+}
+
+function toDate(value: unknown): Date {
+  if (value instanceof Date) return value;
+  if (value && typeof (value as { toDate?: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return new Date(value as string);
+}
+
+function invoiceFromFirestore(data: Record<string, unknown>): Invoice {
+  return {
+    ...(data as Omit<Invoice, 'issuedAt'>),
+    issuedAt: toDate(data.issuedAt)
+  };
+}
+
+function profileFromFirestore(data: Record<string, unknown>): BillingProfile {
+  return {
+    name: String(data.name || ''),
+    email: (data.email as string | undefined) || null,
+    gstin: (data.gstin as string | undefined) || null,
+    address: (data.address as string | undefined) || null,
+    stateCode: (data.stateCode as string | undefined) || null
+  };
+}
+
+export async function getBillingProfileAdmin(db: Firestore, userId: string): Promise<BillingProfile | null> {
+  const snapshot = await db.collection(BILLING_PROFILES_COLLECTION).doc(userId).get();
+  return snapshot.exists ? profileFromFirestore(snapshot.data() as Record<string, unknown>) : null;
+}
+
+// Applies to invoices issued from now on; issued invoices keep the details they were issued with
+export async function saveBillingProfileAdmin(db: Firestore, userId: string, profile: BillingProfile): Promise<void> {
+  await db.collection(BILLING_PROFILES_COLLECTION).doc(userId).set({
+    ...profile,
+    userId,
+    updatedAt: FieldValue.serverTimestamp()
+  });
+}
+
+export async function listInvoicesAdmin(db: Firestore, userId: string): Promise<Invoice[]> {
+  const snapshot = await db.collection(INVOICES_COLLECTION)
+    .where('userId', '==', userId)
+    .orderBy('issuedAt', 'desc')
+    .get();
+  return snapshot.docs.map(invoiceDoc => invoiceFromFirestore(invoiceDoc.data()));
+}
+
+export async function getInvoiceAdmin(db: Firestore, id: string): Promise<Invoice | null> {
+  const snapshot = await db.collection(INVOICES_COLLECTION).doc(id).get();
+  return snapshot.exists ? invoiceFromFirestore(snapshot.data() as Record<string, unknown>) : null;
+}
+
+async function readNextSequence(db: Firestore, transaction: Transaction, type: InvoiceType, now: Date): Promise<number> {
+  const counter = await transaction.get(db.collection(INVOICE_COUNTERS_COLLECTION).doc(getInvoiceCounterId(type, now)));
+  return Number(counter.data()?.next) || 1;
+}
+
+// Reads for writeInvoices; transactions need every read before the first write
+export async function readInvoiceContext(
+  db: Firestore,
+  transaction: Transaction,
+  userId: string,
+  event: BillingEvent,
+  now: Date
+): Promise<InvoiceContext> {
+  const isPayment = event.type === 'payment_captured' || event.type === 'subscription_charged';
+  const isRefund = event.type === 'payment_refunded' && !!event.paymentId;
+
+  const [profileDoc, invoiceSequence, creditNoteSequence, originalDoc] = await Promise.all([
+    transaction.get(db.collection(BILLING_PROFILES_COLLECTION).doc(userId)),
+    isPayment ? readNextSequence(db, transaction, 'invoice', now) : Promise.resolve(undefined),
+    isRefund ? readNextSequence(db, transaction, 'credit_note', now) : Promise.resolve(undefined),
+    isRefund ? transaction.get(db.collection(INVOICES_COLLECTION).doc(event.paymentId!)) : Promise.resolve(null)
+  ]);
+
+  return {
+    profile: profileDoc.exists ? profileFromFirestore(profileDoc.data() as Record<string, unknown>) : null,
+    nextSequence: { invoice: invoiceSequence, credit_note: creditNoteSequence },
+    originalInvoice: originalDoc?.exists ? invoiceFromFirestore(originalDoc.data() as Record<string, unknown>) : null
+  };
+}
+
+function paymentAdjustments(effect: Extract<LifecycleEffect, { type: 'payment_recorded' }>): InvoiceAdjustment[] {
+  const adjustments: InvoiceAdjustment[] = [];
+  if (effect.prorationCredit) adjustments.push({ label: 'Unused time on previous plan', amount: effect.prorationCredit });
+  if (effect.promoCode) adjustments.push({ label: `Promo code ${effect.promoCode}`, amount: effect.promoDiscount || 0 });
+  if (effect.creditApplied) adjustments.push({ label: 'Referral credit', amount: effect.creditApplied });
+  return adjustments;
+}
+
+function writeInvoice(db: Firestore, transaction: Transaction, invoice: Invoice, sequence: number): void {
+  transaction.set(db.collection(INVOICES_COLLECTION).doc(invoice.id), {
+    ...invoice,
+    createdAt: FieldValue.serverTimestamp()
+  });
+  transaction.set(db.collection(INVOICE_COUNTERS_COLLECTION).doc(getInvoiceCounterId(invoice.type, invoice.issuedAt)), {
+    next: sequence + 1,
+    updatedAt: FieldValue.serverTimestamp()
+  });
+}
+
+/**
+ * Issues a tax invoice for each recorded payment and a credit note for each
+ * refund of an invoiced payment, in the billing event's transaction.
+ */
+export function writeInvoices(
+  db: Firestore,
+  transaction: Transaction,
+  userId: string,
+  context: InvoiceContext,
+  effects: LifecycleEffect[],
+  now: Date
+): void {
+  const seller = getSellerDetails();
+
+  effects.forEach(effect => {
+    if (effect.type === 'payment_recorded' && context.nextSequence.invoice) {
+      const adjustments = paymentAdjustments(effect);
+      const sequence = context.nextSequence.invoice;
+      writeInvoice(db, transaction, buildInvoice({
+        paymentId: effect.paymentId,
+        userId,
+        sequence,
+        issuedAt: now,
+        amount: effect.amount,
+        lineItem: {
+          description: describePlan(SUBSCRIPTION_PLANS[effect.tier].name, effect.billingCycle),
+          sac: SAC_CODE,
+          listPrice: effect.amount + adjustments.reduce((sum, adjustment) => sum + adjustment.amount, 0),
+          adjustments
+        },
+        seller,
+        profile: context.profile
+      }), sequence);
+    }
+
+    if (effect.type === 'refund_recorded' && context.nextSequence.credit_note) {
+      // Payments from before invoicing started have nothing to credit against
+      if (!context.originalInvoice) {
+        console.warn(`Refund ${effect.refundId} has no invoice for payment ${effect.paymentId}; no credit note issued`);
+        return;
+      }
+      const sequence = context.nextSequence.credit_note;
+      writeInvoice(db, transaction, buildCreditNote(context.originalInvoice, {
+        refundId: effect.refundId,
+        sequence,
+        issuedAt: now,
+        amount: effect.amount
+      }), sequence);
+    }
+  });
+}
@@ -0,0 +1,285 @@
+// Promo codes and referral accounts on the server (Admin SDK)
+
+import { FieldValue, type Firestore, type Transaction } from 'firebase-admin/firestore';
+import {
+  CREDIT_RESERVATION_MINUTES,
+  CreditReservation,
+  PromoCode,
+  REFERRAL_CREDIT,
+  ReferralAccount,
+  getAvailableCredit,
+  getReferralClaimError,
+  getReferralCode
+} from './promotions';
+
+export const PROMO_CODES_COLLECTION = 'promoCodes';
+// One document per code and user: `${code}_${userId}`
+export const PROMO_REDEMPTIONS_COLLECTION = 'promoRedemptions';
+export const REFERRAL_ACCOUNTS_COLLECTION = 'referralAccounts';
+// Referral code -> referrer, so a link resolves without a query
+export const REFERRAL_CODES_COLLECTION = 'referralCodes';
+const USER_SUBSCRIPTIONS_COLLECTION = 'userSubscriptions';
+
+// Discounts applied to a payment, as recorded on its order
+export interface PaymentPromotions {
+  paymentId: string;
+  orderId?: string;
+  promoCode?: string;
+  promoDiscount?: number;
+  creditApplied?: number;
+}
+
+export interface PaymentPromotionState {
+  account: ReferralAccount | null;
+  promoExists: boolean;
+}
+
+function toDate(value: unknown): Date {
+  if (value instanceof Date) return value;
+  if (value && typeof (value as { toDate?: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return new Date(value as string);
+}
+
+function promoFromFirestore(data: Record<string, unknown>): PromoCode {
+  return {
+    code: String(data.code),
+    discountType: data.discountType === 'flat' ? 'flat' : 'percentage',
+    discountValue: Number(data.discountValue) || 0,
+    active: !!data.active,
+    expiresAt: data.expiresAt ? toDate(data.expiresAt) : null,
+    maxRedemptions: (data.maxRedemptions as number | null | undefined) ?? null,
+    redemptionCount: Number(data.redemptionCount) || 0,
+    tiers: (data.tiers as PromoCode['tiers']) || [],
+    billingCycles: (data.billingCycles as PromoCode['billingCycles']) || [],
+    ...(data.partner ? { partner: String(data.partner) } : {})
+  };
+}
+
+function reservationsFromFirestore(data: unknown): Record<string, CreditReservation> {
+  const reservations: Record<string, CreditReservation> = {};
+  Object.entries((data as Record<string, { amount?: unknown; expiresAt?: unknown }> | undefined) || {}).forEach(([orderId, reservation]) => {
+    reservations[orderId] = { amount: Number(reservation.amount) || 0, expiresAt: toDate(reservation.expiresAt) };
+  });
+  return reservations;
+}
+
+function accountFromFirestore(data: Record<string, unknown>): ReferralAccount {
+  return {
+    userId: String(data.userId),
+    code: String(data.code),
+    creditBalance: Number(data.creditBalance) || 0,
+    creditReservations: reservationsFromFirestore(data.creditReservations),
+    referredBy: (data.referredBy as string | undefined) || null,
+    referralRewarded: !!data.referralRewarded,
+    referralsCount: Number(data.referralsCount) || 0
+  };
+}
+
+const redemptionId = (code: string, userId: string) => `${code}_${userId}`;
+
+export async function getPromoCodeAdmin(db: Firestore, code: string): Promise<PromoCode | null> {
+  const snapshot = await db.collection(PROMO_CODES_COLLECTION).doc(code).get();
+  return snapshot.exists ? promoFromFirestore(snapshot.data() as Record<string, unknown>) : null;
+}
+
+export async function listPromoCodesAdmin(db: Firestore): Promise<PromoCode[]> {
+  const snapshot = await db.collection(PROMO_CODES_COLLECTION).orderBy('code').get();
+  return snapshot.docs.map(promoDoc => promoFromFirestore(promoDoc.data()));
+}
+
+/**
+ * Creates or replaces a promo code. The redemption count belongs to the
+ * payment path and survives edits. Returns the previous version for the
+ * audit diff.
+ */
+export async function savePromoCodeAdmin(
+  db: Firestore,
+  promo: Omit<PromoCode, 'redemptionCount'>
+): Promise<{ before: PromoCode | null; after: PromoCode }> {
+  const promoRef = db.collection(PROMO_CODES_COLLECTION).doc(promo.code);
+
+  return db.runTransaction(async transaction => {
+    const existing = await transaction.get(promoRef);
+    const before = existing.exists ? promoFromFirestore(existing.data() as Record<string, unknown>) : null;
+    const after: PromoCode = { ...promo, expiresAt: promo.expiresAt || null, redemptionCount: before?.redemptionCount || 0 };
+
+    transaction.set(promoRef, {
+      ...after,
+      ...(!before && { createdAt: FieldValue.serverTimestamp() }),
+      updatedAt: FieldValue.serverTimestamp()
+    }, { merge: true });
+    return { before, after };
+  });
+}
+
+export async function hasRedeemedPromoAdmin(db: Firestore, code: string, userId: string): Promise<boolean> {
+  const snapshot = await db.collection(PROMO_REDEMPTIONS_COLLECTION).doc(redemptionId(code, userId)).get();
+  return snapshot.exists;
+}
+
+export async function getReferralAccountAdmin(db: Firestore, userId: string): Promise<ReferralAccount | null> {
+  const snapshot = await db.collection(REFERRAL_ACCOUNTS_COLLECTION).doc(userId).get();
+  return snapshot.exists ? accountFromFirestore(snapshot.data() as Record<string, unknown>) : null;
+}
+
+function createReferralAccount(db: Firestore, transaction: Transaction, userId: string, referredBy: string | null): ReferralAccount {
+  const account: ReferralAccount = { userId, code: getReferralCode(userId), creditBalance: 0, referredBy, referralRewarded: false, referralsCount: 0 };
+  transaction.set(db.collection(REFERRAL_CODES_COLLECTION).doc(account.code), { userId });
+  transaction.set(db.collection(REFERRAL_ACCOUNTS_COLLECTION).doc(userId), {
+    ...account,
+    createdAt: FieldValue.serverTimestamp(),
+    updatedAt: FieldValue.serverTimestamp()
+  });
+  return account;
+}
+
+// The account (and its shareable code) is created the first time the user asks for their link
+export async function ensureReferralAccountAdmin(db: Firestore, userId: string): Promise<ReferralAccount> {
+  const accountRef = db.collection(REFERRAL_ACCOUNTS_COLLECTION).doc(userId);
+
+  return db.runTransaction(async transaction => {
+    const existing = await transaction.get(accountRef);
+    if (existing.exists) return accountFromFirestore(existing.data() as Record<string, unknown>);
+    return createReferralAccount(db, transaction, userId, null);
+  });
+}
+
+/**
+ * Links a new user to the referrer whose code they signed up with. Credits
+ * are only granted on the referred user's first payment. Returns an error
+ * message when the claim is refused.
+ */
+export async function claimReferralAdmin(db: Firestore, userId: string, code: string): Promise<string | null> {
+  const accountRef = db.collection(REFERRAL_ACCOUNTS_COLLECTION).doc(userId);
+
+  return db.runTransaction(async transaction => {
+    const [codeDoc, accountDoc, subscriptionDoc] = await Promise.all([
+      transaction.get(db.collection(REFERRAL_CODES_COLLECTION).doc(code)),
+      transaction.get(accountRef),
+      transaction.get(db.collection(USER_SUBSCRIPTIONS_COLLECTION).doc(userId))
+    ]);
+
+    const account = accountDoc.exists ? accountFromFirestore(accountDoc.data() as Record<string, unknown>) : null;
+    const referrerId = codeDoc.exists ? String(codeDoc.data()?.userId) : null;
+    const hasPaid = !!subscriptionDoc.data()?.lastPaymentId;
+
+    const error = getReferralClaimError(account, referrerId, userId, hasPaid);
+    if (error) return error;
+
+    if (account) {
+      transaction.update(accountRef, { referredBy: referrerId, updatedAt: FieldValue.serverTimestamp() });
+    } else {
+      createReferralAccount(db, transaction, userId, referrerId);
+    }
+    return null;
+  });
+}
+
+/**
+ * Holds referral credit priced into a new order so a second checkout can't
+ * spend it too. Expired holds are dropped. Returns false when the credit is
+ * no longer available.
+ */
+export async function reserveReferralCreditAdmin(
+  db: Firestore,
+  userId: string,
+  orderId: string,
+  amount: number,
+  now: Date = new Date()
+): Promise<boolean> {
+  const accountRef = db.collection(REFERRAL_ACCOUNTS_COLLECTION).doc(userId);
+
+  return db.runTransaction(async transaction => {
+    const accountDoc = await transaction.get(accountRef);
+    const account = accountDoc.exists ? accountFromFirestore(accountDoc.data() as Record<string, unknown>) : null;
+    if (!account || getAvailableCredit(account, now) < amount) return false;
+
+    const expired = Object.entries(account.creditReservations || {})
+      .filter(([, reservation]) => reservation.expiresAt <= now)
+      .map(([expiredOrderId]) => expiredOrderId);
+    transaction.update(accountRef, {
+      ...Object.fromEntries(expired.map(expiredOrderId => [`creditReservations.${expiredOrderId}`, FieldValue.delete()])),
+      [`creditReservations.${orderId}`]: {
+        amount,
+        expiresAt: new Date(now.getTime() + CREDIT_RESERVATION_MINUTES * 60 * 1000)
+      },
+      updatedAt: FieldValue.serverTimestamp()
+    });
+    return true;
+  });
+}
+
+// Reads for recordPaymentPromotions; transactions need every read before the first write
+export async function readPaymentPromotionState(
+  db: Firestore,
+  transaction: Transaction,
+  userId: string,
+  promoCode?: string
+): Promise<PaymentPromotionState> {
+  const [accountDoc, promoDoc] = await Promise.all([
+    transaction.get(db.collection(REFERRAL_ACCOUNTS_COLLECTION).doc(userId)),
+    promoCode ? transaction.get(db.collection(PROMO_CODES_COLLECTION).doc(promoCode)) : Promise.resolve(null)
+  ]);
+
+  return {
+    account: accountDoc.exists ? accountFromFirestore(accountDoc.data() as Record<string, unknown>) : null,
+    promoExists: !!promoDoc?.exists
+  };
+}
+
+/**
+ * Settles the discounts of a newly recorded payment: counts the promo
+ * redemption, spends the referral credit held for its order, and on a
+ * referred user's first payment credits both them and their referrer.
+ */
+export function recordPaymentPromotions(
+  db: Firestore,
+  transaction: Transaction,
+  userId: string,
+  { account, promoExists }: PaymentPromotionState,
+  payment: PaymentPromotions,
+  now: Date
+): void {
+  if (payment.promoCode) {
+    if (promoExists) {
+      transaction.update(db.collection(PROMO_CODES_COLLECTION).doc(payment.promoCode), {
+        redemptionCount: FieldValue.increment(1),
+        updatedAt: FieldValue.serverTimestamp()
+      });
+    }
+    transaction.set(db.collection(PROMO_REDEMPTIONS_COLLECTION).doc(redemptionId(payment.promoCode, userId)), {
+      code: payment.promoCode,
+      userId,
+      paymentId: payment.paymentId,
+      discount: payment.promoDiscount || 0,
+      redeemedAt: now
+    });
+  }
+
+  if (!account) return;
+
+  // A payment made after its hold lapsed still can't take the balance below zero
+  let creditChange = -Math.min(payment.creditApplied || 0, account.creditBalance);
+  const rewardReferral = !!account.referredBy && !account.referralRewarded;
+  const releaseReservation = !!payment.orderId && !!account.creditReservations?.[payment.orderId];
+
+  if (rewardReferral) {
+    creditChange += REFERRAL_CREDIT;
+    transaction.update(db.collection(REFERRAL_ACCOUNTS_COLLECTION).doc(account.referredBy!), {
+      creditBalance: FieldValue.increment(REFERRAL_CREDIT),
+      referralsCount: FieldValue.increment(1),
+      updatedAt: FieldValue.serverTimestamp()
+    });
+  }
+
+  if (creditChange !== 0 || rewardReferral || releaseReservation) {
+    transaction.update(db.collection(REFERRAL_ACCOUNTS_COLLECTION).doc(userId), {
+      creditBalance: FieldValue.increment(creditChange),
+      ...(rewardReferral && { referralRewarded: true }),
+      ...(releaseReservation && { [`creditReservations.${payment.orderId}`]: FieldValue.delete() }),
+      updatedAt: FieldValue.serverTimestamp()
+    });
+  }
+}
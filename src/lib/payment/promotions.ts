@@ -0,0 +1,168 @@
+// Promo codes, referral credits and free trials for paid plans
+
+import crypto from 'crypto';
+import { SubscriptionTier, canUpgradeTo } from '@/lib/subscription-tiers';
+import type { BillingCycle } from './razorpay-webhooks';
+
+export const TRIAL_DAYS = 7;
+// Credited to both the referrer and the referred user when the referred user first pays
+export const REFERRAL_CREDIT = 100;
+// Razorpay rejects orders below ₹1
+export const MIN_ORDER_AMOUNT = 1;
+// Referral credit priced into an order is held for it this long, well past a checkout session
+export const CREDIT_RESERVATION_MINUTES = 30;
+
+export type PromoDiscountType = 'percentage' | 'flat';
+
+export interface PromoCode {
+  code: string; // normalized, also the document ID
+  discountType: PromoDiscountType;
+  discountValue: number; // percent (1-100) or rupees
+  active: boolean;
+  expiresAt?: Date | null;
+  maxRedemptions?: number | null; // across all users; checked when the order is created
+  redemptionCount: number;
+  tiers?: SubscriptionTier[]; // empty or missing = every paid tier
+  billingCycles?: BillingCycle[];
+  partner?: string; // coaching partner the code was issued to
+}
+
+export type PromoRejection = 'not_found' | 'inactive' | 'expired' | 'exhausted' | 'not_eligible' | 'already_redeemed';
+
+export const PROMO_REJECTION_MESSAGES: Record<PromoRejection, string> = {
+  not_found: 'This promo code does not exist',
+  inactive: 'This promo code is no longer active',
+  expired: 'This promo code has expired',
+  exhausted: 'This promo code has been fully redeemed',
+  not_eligible: 'This promo code does not apply to the selected plan',
+  already_redeemed: 'You have already used this promo code'
+};
+
+export interface OrderPricing {
+  listPrice: number;
+  promoDiscount: number;
+  creditApplied: number;
+  amount: number; // charged, in rupees
+}
+
+// Credit held for an unpaid order, keyed by Razorpay order ID on the account
+export interface CreditReservation {
+  amount: number; // rupees
+  expiresAt: Date;
+}
+
+export interface ReferralAccount {
+  userId: string;
+  code: string;
+  creditBalance: number; // rupees, spent on future orders
+  creditReservations?: Record<string, CreditReservation>;
+  referredBy?: string | null; // referrer's user ID
+  referralRewarded?: boolean; // both users were credited for this user's first payment
+  referralsCount: number;
+}
+
+// Subscription fields that decide trial eligibility
+export interface TrialEligibilityState {
+  tier: SubscriptionTier;
+  status: string;
+  trialTiers?: SubscriptionTier[];
+  isTrial?: boolean;
+}
+
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase().replace(/\s+/g, '');
+}
+
+export function validatePromoCode(
+  promo: PromoCode | null,
+  order: { tier: SubscriptionTier; billingCycle: BillingCycle; alreadyRedeemed: boolean },
+  now: Date = new Date()
+): { valid: true } | { valid: false; reason: PromoRejection } {
+  if (!promo) return { valid: false, reason: 'not_found' };
+  if (!promo.active) return { valid: false, reason: 'inactive' };
+  if (promo.expiresAt && promo.expiresAt <= now) return { valid: false, reason: 'expired' };
+  if (promo.maxRedemptions != null && promo.redemptionCount >= promo.maxRedemptions) return { valid: false, reason: 'exhausted' };
+  if (order.tier === 'free') return { valid: false, reason: 'not_eligible' };
+  if (promo.tiers?.length && !promo.tiers.includes(order.tier)) return { valid: false, reason: 'not_eligible' };
+  if (promo.billingCycles?.length && !promo.billingCycles.includes(order.billingCycle)) return { valid: false, reason: 'not_eligible' };
+  if (order.alreadyRedeemed) return { valid: false, reason: 'already_redeemed' };
+  return { valid: true };
+}
+
+/**
+ * Price after the promo discount, then referral credit. Both are capped so
+ * the order never drops below Razorpay's minimum; credit left over stays in
+ * the balance.
+ */
+export function priceOrder(listPrice: number, options: { promo?: PromoCode | null; creditBalance?: number } = {}): OrderPricing {
+  const maxReduction = Math.max(0, listPrice - MIN_ORDER_AMOUNT);
+
+  let promoDiscount = 0;
+  if (options.promo) {
+    const raw = options.promo.discountType === 'percentage'
+      ? listPrice * Math.min(options.promo.discountValue, 100) / 100
+      : options.promo.discountValue;
+    promoDiscount = Math.min(Math.round(raw), maxReduction);
+  }
+
+  const creditApplied = Math.min(Math.max(0, Math.floor(options.creditBalance || 0)), maxReduction - promoDiscount);
+
+  return {
+    listPrice,
+    promoDiscount,
+    creditApplied,
+    amount: listPrice - promoDiscount - creditApplied
+  };
+}
+
+// Balance not yet held for another open order
+export function getAvailableCredit(account: ReferralAccount | null, now: Date = new Date()): number {
+  if (!account) return 0;
+  const reserved = Object.values(account.creditReservations || {})
+    .filter(reservation => reservation.expiresAt > now)
+    .reduce((sum, reservation) => sum + reservation.amount, 0);
+  return Math.max(0, account.creditBalance - reserved);
+}
+
+// Stable, shareable code for a user's referral link
+export function getReferralCode(userId: string): string {
+  return crypto.createHash('sha256').update(userId).digest('hex').slice(0, 8).toUpperCase();
+}
+
+export function getReferralLink(code: string, appUrl: string = process.env.NEXT_PUBLIC_APP_URL || ''): string {
+  return `${appUrl}/signup?ref=${encodeURIComponent(code)}`;
+}
+
+// Referrals only count for users who haven't paid yet and weren't referred before
+export function getReferralClaimError(
+  account: ReferralAccount | null,
+  referrerId: string | null,
+  userId: string,
+  hasPaid: boolean
+): string | null {
+  if (!referrerId) return 'This referral code does not exist';
+  if (referrerId === userId) return 'You cannot use your own referral code';
+  if (account?.referredBy) return 'A referral code has already been applied to your account';
+  if (hasPaid) return 'Referral codes only apply before your first paid plan';
+  return null;
+}
+
+/**
+ * One trial per tier. Trials are for upgrades, so a user already paying for a
+ * plan (or mid-trial) can't start one.
+ */
+export function getTrialError(subscription: TrialEligibilityState | null, tier: SubscriptionTier): string | null {
+  if (tier === 'free') return 'The free plan has no trial';
+  if (subscription?.trialTiers?.includes(tier)) return 'You have already used the trial for this plan';
+  if (subscription && subscription.status === 'active' && subscription.tier !== 'free') {
+    return subscription.isTrial ? 'You are already on a trial' : 'Trials are only available before you subscribe';
+  }
+  if (subscription && !canUpgradeTo(subscription.status === 'active' ? subscription.tier : 'free', tier)) {
+    return 'Trials are only available for higher plans';
+  }
+  return null;
+}
+
+export function getTrialEnd(start: Date): Date {
+  return new Date(start.getTime() + TRIAL_DAYS * 24 * 60 * 60 * 1000);
+}
@@ -0,0 +1,240 @@
+// Razorpay signature checks and webhook payload parsing (server only)
+
+import crypto from 'crypto';
+import { SubscriptionTier, SUBSCRIPTION_PLANS } from '@/lib/subscription-tiers';
+import { RAZORPAY_PLAN_IDS } from './razorpay';
+
+export type BillingCycle = 'monthly' | 'yearly';
+
+export const SUPPORTED_WEBHOOK_EVENTS = [
+  'order.paid',
+  'subscription.charged',
+  'subscription.halted',
+  'subscription.cancelled',
+  'refund.processed'
+] as const;
+export type RazorpayWebhookEventName = typeof SUPPORTED_WEBHOOK_EVENTS[number];
+
+// Razorpay sends an empty array instead of an empty object when there are no notes
+export type RazorpayNotes = Record<string, string | number> | [];
+
+interface RazorpayPaymentEntity {
+  id: string;
+  amount: number; // paise
+  currency: string;
+  status: string;
+  order_id: string | null;
+  notes: RazorpayNotes;
+  created_at: number; // unix seconds
+}
+
+// Created by create-order, so unlike a payment's notes the buyer cannot set its notes
+interface RazorpayOrderEntity {
+  id: string;
+  amount: number; // paise
+  amount_paid: number;
+  currency: string;
+  status: string;
+  notes: RazorpayNotes;
+  created_at: number;
+}
+
+interface RazorpaySubscriptionEntity {
+  id: string;
+  plan_id: string;
+  status: string;
+  current_start: number | null;
+  current_end: number | null;
+  notes: RazorpayNotes;
+}
+
+interface RazorpayRefundEntity {
+  id: string;
+  payment_id: string;
+  amount: number; // paise
+  notes: RazorpayNotes;
+  created_at: number;
+}
+
+export interface RazorpayWebhookPayload {
+  entity: 'event';
+  account_id: string;
+  event: string;
+  contains: string[];
+  payload: {
+    payment?: { entity: RazorpayPaymentEntity };
+    order?: { entity: RazorpayOrderEntity };
+    subscription?: { entity: RazorpaySubscriptionEntity };
+    refund?: { entity: RazorpayRefundEntity };
+  };
+  created_at: number;
+}
+
+export type BillingEventType =
+  | 'payment_captured'
+  | 'subscription_charged'
+  | 'subscription_halted'
+  | 'subscription_cancelled'
+  | 'payment_refunded';
+
+// Provider-neutral billing event consumed by the subscription state machine
+export interface BillingEvent {
+  id: string; // idempotency key
+  type: BillingEventType;
+  occurredAt: Date;
+  userId?: string; // from the server-set order/subscription notes
+  subscriptionId?: string; // Razorpay subscription for recurring plans
+  paymentId?: string;
+  orderId?: string;
+  refundId?: string;
+  tier?: SubscriptionTier;
+  billingCycle?: BillingCycle;
+  amount?: number; // rupees
+  periodEnd?: Date; // end of the period Razorpay charged for, when it says
+  promoCode?: string; // discounts create-order applied to this payment
+  promoDiscount?: number; // rupees
+  creditApplied?: number; // referral credit spent, rupees
+  prorationCredit?: number; // unused value of the plan being upgraded from, rupees
+}
+
+function safeEqual(expected: string, actual: string): boolean {
+  const expectedBuffer = Buffer.from(expected);
+  const actualBuffer = Buffer.from(actual);
+  return expectedBuffer.length === actualBuffer.length && crypto.timingSafeEqual(expectedBuffer, actualBuffer);
+}
+
+function hmac(secret: string, body: string): string {
+  return crypto.createHmac('sha256', secret).update(body).digest('hex');
+}
+
+// `X-Razorpay-Signature` is an HMAC of the raw request body, so verify before parsing it
+export function verifyWebhookSignature(rawBody: string, signature: string | null, secret: string): boolean {
+  if (!signature || !secret) return false;
+  return safeEqual(hmac(secret, rawBody), signature);
+}
+
+// Checkout handler signature over "order_id|payment_id", keyed with the API secret
+export function verifyPaymentSignature(orderId: string, paymentId: string, signature: string, secret: string): boolean {
+  if (!signature || !secret) return false;
+  return safeEqual(hmac(secret, `${orderId}|${paymentId}`), signature);
+}
+
+function isSubscriptionTier(value: unknown): value is SubscriptionTier {
+  return typeof value === 'string' && value in SUBSCRIPTION_PLANS;
+}
+
+function noteValue(notes: RazorpayNotes | undefined, key: string): string | undefined {
+  if (!notes || Array.isArray(notes)) return undefined;
+  const value = notes[key];
+  return value === undefined ? undefined : String(value);
+}
+
+// Plan IDs are named `plan_<tier>_<cycle>`, so a subscription without notes still maps to a tier
+export function getPlanForRazorpayPlanId(planId: string): { tier: SubscriptionTier; billingCycle: BillingCycle } | null {
+  const key = Object.keys(RAZORPAY_PLAN_IDS).find(planKey => RAZORPAY_PLAN_IDS[planKey as keyof typeof RAZORPAY_PLAN_IDS] === planId);
+  if (!key) return null;
+  const [tier, billingCycle] = key.split('_');
+  return isSubscriptionTier(tier) ? { tier, billingCycle: billingCycle as BillingCycle } : null;
+}
+
+function planFromNotes(notes: RazorpayNotes | undefined): Pick<BillingEvent, 'tier' | 'billingCycle'> {
+  const tier = noteValue(notes, 'tier');
+  const billingCycle = noteValue(notes, 'billingCycle');
+  return {
+    tier: isSubscriptionTier(tier) ? tier : undefined,
+    billingCycle: billingCycle === 'monthly' || billingCycle === 'yearly' ? billingCycle : undefined
+  };
+}
+
+// Discounts are priced into the order, so the notes are the record of what was applied
+export function promotionsFromNotes(
+  notes: RazorpayNotes | undefined
+): Pick<BillingEvent, 'promoCode' | 'promoDiscount' | 'creditApplied' | 'prorationCredit'> {
+  const promoCode = noteValue(notes, 'promoCode');
+  const promoDiscount = Number(noteValue(notes, 'promoDiscount')) || 0;
+  const creditApplied = Number(noteValue(notes, 'creditApplied')) || 0;
+  const prorationCredit = Number(noteValue(notes, 'prorationCredit')) || 0;
+  return {
+    ...(promoCode && { promoCode, promoDiscount }),
+    ...(creditApplied > 0 && { creditApplied }),
+    ...(prorationCredit > 0 && { prorationCredit })
+  };
+}
+
+function fromUnixSeconds(seconds: number | null | undefined): Date | undefined {
+  return seconds ? new Date(seconds * 1000) : undefined;
+}
+
+/**
+ * Maps a verified webhook body to a billing event. `eventId` is the
+ * `X-Razorpay-Event-Id` header, which stays the same when Razorpay redelivers;
+ * without it the body hash is used. Returns null for events we don't handle.
+ */
+export function parseWebhookEvent(rawBody: string, eventId: string | null): BillingEvent | null {
+  const body = JSON.parse(rawBody) as RazorpayWebhookPayload;
+  if (!SUPPORTED_WEBHOOK_EVENTS.includes(body.event as RazorpayWebhookEventName)) return null;
+
+  const id = eventId || crypto.createHash('sha256').update(rawBody).digest('hex');
+  const occurredAt = fromUnixSeconds(body.created_at) || new Date();
+  const payment = body.payload.payment?.entity;
+  const order = body.payload.order?.entity;
+  const subscription = body.payload.subscription?.entity;
+  const refund = body.payload.refund?.entity;
+
+  switch (body.event as RazorpayWebhookEventName) {
+    // Checkout can attach its own notes to a payment, so the buyer, plan and
+    // discounts are read from the order create-order made
+    case 'order.paid':
+      if (!payment || !order) return null;
+      return {
+        id,
+        type: 'payment_captured',
+        occurredAt,
+        userId: noteValue(order.notes, 'userId'),
+        paymentId: payment.id,
+        orderId: order.id,
+        amount: payment.amount / 100,
+        ...planFromNotes(order.notes),
+        ...promotionsFromNotes(order.notes)
+      };
+
+    case 'subscription.charged':
+    case 'subscription.halted':
+    case 'subscription.cancelled': {
+      if (!subscription) return null;
+      const notesPlan = planFromNotes(subscription.notes);
+      const plan = getPlanForRazorpayPlanId(subscription.plan_id);
+      const type = body.event === 'subscription.charged' ? 'subscription_charged'
+        : body.event === 'subscription.halted' ? 'subscription_halted'
+        : 'subscription_cancelled';
+
+      return {
+        id,
+        type,
+        occurredAt,
+        userId: noteValue(subscription.notes, 'userId'),
+        subscriptionId: subscription.id,
+        tier: notesPlan.tier || plan?.tier,
+        billingCycle: notesPlan.billingCycle || plan?.billingCycle,
+        ...(type === 'subscription_charged' && payment && {
+          paymentId: payment.id,
+          amount: payment.amount / 100,
+          periodEnd: fromUnixSeconds(subscription.current_end)
+        })
+      };
+    }
+
+    // The refunded payment's owner is looked up from the recorded payment
+    case 'refund.processed':
+      if (!refund) return null;
+      return {
+        id,
+        type: 'payment_refunded',
+        occurredAt,
+        userId: noteValue(refund.notes, 'userId'),
+        paymentId: refund.payment_id,
+        refundId: refund.id,
+        amount: refund.amount / 100
+      };
+  }
+}
@@ -1,5 +1,6 @@
 // Razorpay integration for subscription payments
 import { SubscriptionTier, SUBSCRIPTION_PLANS } from '@/lib/subscription-tiers';
+import { auth } from '@/lib/firebase';
 
 // Razorpay configuration
 export const RAZORPAY_CONFIG = {
@@ -18,6 +19,12 @@ export interface PaymentIntent {
   orderId: string;
 }
 
+// Discounts requested at checkout; the server validates and prices them
+export interface OrderOptions {
+  promoCode?: string;
+  useCredits?: boolean;
+}
+
 export interface PaymentResult {
   success: boolean;
   paymentId?: string;
@@ -47,6 +54,15 @@ export const RAZORPAY_PLAN_IDS = {
   elite_yearly: 'plan_elite_yearly',
 };
 
+// Payment routes act for the signed-in user, never a client-supplied user ID
+async function getAuthHeaders(): Promise<Record<string, string>> {
+  const token = await auth?.currentUser?.getIdToken();
+  if (!token) {
+    throw new Error('Sign in to continue with payment');
+  }
+  return { 'Content-Type': 'application/json', 'Authorization': `Bearer ${token}` };
+}
+
 // Razorpay Service
 export class RazorpayService {
   
@@ -54,38 +70,25 @@ export class RazorpayService {
   static async createOrder(
     tier: SubscriptionTier,
     billingCycle: 'monthly' | 'yearly',
-    userId: string
+    userId: string,
+    options: OrderOptions = {}
   ): Promise<PaymentIntent> {
     try {
-      const plan = SUBSCRIPTION_PLANS[tier];
-      const amount = billingCycle === 'yearly' ? plan.price.yearly : plan.price.monthly;
-      
-      const orderData = {
-        amount: amount * 100, // Convert to paise
-        currency: 'INR',
-        receipt: `${tier}_${billingCycle}_${userId}_${Date.now()}`,
-        notes: {
-          tier,
-          billingCycle,
-          userId,
-          planName: plan.name
-        }
-      };
-
+      // The server prices the order, discounts included, and records the buyer in its notes
       const response = await fetch('/api/payment/create-order', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(orderData)
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ tier, billingCycle, ...options })
       });
 
+      const order = await response.json();
       if (!response.ok) {
-        throw new Error('Failed to create order');
+        // Promo code rejections are worth showing as they are
+        throw new Error(order.error || 'Failed to create order');
       }
 
-      const order = await response.json();
-
       return {
-        amount: amount,
+        amount: order.amount / 100,
         currency: 'INR',
         tier,
         billingCycle,
@@ -99,6 +102,21 @@ export class RazorpayService {
     }
   }
 
+  // Start the one free trial of a plan; no payment is taken
+  static async startTrial(tier: SubscriptionTier): Promise<{ trialEnd: string }> {
+    const response = await fetch('/api/payment/create-order', {
+      method: 'POST',
+      headers: await getAuthHeaders(),
+      body: JSON.stringify({ tier, billingCycle: 'monthly', startTrial: true })
+    });
+
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to start trial');
+    }
+    return { trialEnd: result.trialEnd };
+  }
+
   // Create subscription
   static async createSubscription(
     tier: SubscriptionTier,
@@ -171,28 +189,17 @@ export class RazorpayService {
   static async processSuccessfulPayment(
     paymentId: string,
     orderId: string,
-    signature: string,
-    tier: SubscriptionTier,
-    billingCycle: 'monthly' | 'yearly',
-    userId: string
+    signature: string
   ): Promise<{ success: boolean; message: string }> {
     try {
-      // Verify signature
-      if (!this.verifyPaymentSignature(paymentId, orderId, signature)) {
-        throw new Error('Invalid payment signature');
-      }
-
-      // Process payment on backend
+      // The signature is checked on the server, which holds the key secret
       const response = await fetch('/api/payment/process-payment', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: await getAuthHeaders(),
         body: JSON.stringify({
           paymentId,
           orderId,
-          signature,
-          tier,
-          billingCycle,
-          userId
+          signature
         })
       });
 
@@ -342,11 +349,12 @@ export function useRazorpayPayment() {
     tier: SubscriptionTier,
     billingCycle: 'monthly' | 'yearly',
     userId: string,
-    userEmail: string
+    userEmail: string,
+    options: OrderOptions = {}
   ): Promise<PaymentResult> => {
     try {
       // Create order
-      const paymentIntent = await RazorpayService.createOrder(tier, billingCycle, userId);
+      const paymentIntent = await RazorpayService.createOrder(tier, billingCycle, userId, options);
       
       return new Promise((resolve) => {
         RazorpayService.initializeCheckout(
@@ -356,10 +364,7 @@ export function useRazorpayPayment() {
             const result = await RazorpayService.processSuccessfulPayment(
               response.razorpay_payment_id,
               response.razorpay_order_id,
-              response.razorpay_signature,
-              tier,
-              billingCycle,
-              userId
+              response.razorpay_signature
             );
             
             resolve({
@@ -0,0 +1,317 @@
+// Server-side subscription lifecycle for the payment webhook and scheduled job (Admin SDK)
+
+import { FieldValue, type Firestore, type Transaction } from 'firebase-admin/firestore';
+import type { SubscriptionTier } from '@/lib/subscription-tiers';
+import type { BillingEvent } from './razorpay-webhooks';
+import { getTrialError } from './promotions';
+import { InvoiceContext, readInvoiceContext, writeInvoices } from './invoices-admin';
+import { PaymentPromotionState, readPaymentPromotionState, recordPaymentPromotions } from './promotions-admin';
+import {
+  LifecycleEffect,
+  LifecycleTransition,
+  SubscriptionLifecycleState,
+  advanceSubscription,
+  applyBillingEvent,
+  startTrial
+} from './subscription-lifecycle';
+
+export const USER_SUBSCRIPTIONS_COLLECTION = 'userSubscriptions';
+export const PAYMENT_TRANSACTIONS_COLLECTION = 'paymentTransactions';
+export const BILLING_EVENTS_COLLECTION = 'billingEvents';
+// Outbox of payment reminders for the notification sender
+export const BILLING_REMINDERS_COLLECTION = 'billingReminders';
+const USER_PROFILES_COLLECTION = 'userProfiles';
+
+export type BillingEventOutcome = 'processed' | 'duplicate' | 'unmatched';
+
+export type TrialStartResult = { started: true; trialEnd: Date } | { started: false; error: string };
+
+// State read up front for the payment side effects of a billing event
+interface BillingEventContext {
+  promotions?: PaymentPromotionState;
+  invoices?: InvoiceContext;
+}
+
+export interface LifecycleRunSummary {
+  checked: number;
+  remindersSent: number;
+  downgraded: number;
+}
+
+function toDate(value: unknown): Date {
+  if (value instanceof Date) return value;
+  if (value && typeof (value as { toDate?: () => Date }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return new Date(value as string);
+}
+
+function stateFromFirestore(data: Record<string, unknown>): SubscriptionLifecycleState {
+  return {
+    ...(data as Omit<SubscriptionLifecycleState, 'currentPeriodStart' | 'currentPeriodEnd' | 'gracePeriodEnd'>),
+    currentPeriodStart: toDate(data.currentPeriodStart),
+    currentPeriodEnd: toDate(data.currentPeriodEnd),
+    gracePeriodEnd: data.gracePeriodEnd ? toDate(data.gracePeriodEnd) : null
+  };
+}
+
+// Extra detail for the profile's subscription history entry
+function historyDetails(effects: LifecycleEffect[]): Record<string, unknown> {
+  const details: Record<string, unknown> = {};
+  effects.forEach(effect => {
+    if (effect.type === 'payment_recorded') {
+      if (effect.promoCode) {
+        details.promoCode = effect.promoCode;
+        details.discount = effect.promoDiscount || 0;
+      }
+      if (effect.creditApplied) details.creditApplied = effect.creditApplied;
+      if (effect.prorationCredit) details.prorationCredit = effect.prorationCredit;
+    }
+    if (effect.type === 'tier_changed' && effect.trialEnd) {
+      details.trialEnd = effect.trialEnd;
+    }
+  });
+  return details;
+}
+
+// Writes the new state and its side effects in the caller's transaction
+function writeTransition(
+  db: Firestore,
+  transaction: Transaction,
+  userId: string,
+  existed: boolean,
+  transition: LifecycleTransition,
+  now: Date,
+  context: BillingEventContext = {}
+): void {
+  const { state } = transition;
+  if (!state) return;
+
+  if (transition.changed) {
+    const subscriptionRef = db.collection(USER_SUBSCRIPTIONS_COLLECTION).doc(userId);
+    transaction.set(subscriptionRef, {
+      userId,
+      ...state,
+      gracePeriodEnd: state.gracePeriodEnd || null,
+      // Trials aren't billed, so the payment-lapse query skips them
+      paymentProvider: state.isTrial ? 'none' : 'razorpay',
+      currency: 'INR',
+      ...(!existed && { customerId: userId, isTrialUsed: false, createdAt: FieldValue.serverTimestamp() }),
+      ...(state.isTrial && { trialStart: state.currentPeriodStart, trialEnd: state.currentPeriodEnd, isTrialUsed: true }),
+      updatedAt: FieldValue.serverTimestamp()
+    }, { merge: true });
+  }
+
+  const profileUpdate: Record<string, unknown> = {};
+  if (transition.changed) {
+    profileUpdate.subscriptionStatus = state.status;
+  }
+
+  transition.effects.forEach(effect => {
+    switch (effect.type) {
+      case 'payment_recorded':
+        transaction.set(db.collection(PAYMENT_TRANSACTIONS_COLLECTION).doc(effect.paymentId), {
+          userId,
+          subscriptionId: state.subscriptionId,
+          transactionId: effect.paymentId,
+          amount: effect.amount,
+          currency: 'INR',
+          status: 'success',
+          provider: 'razorpay',
+          providerTransactionId: effect.paymentId,
+          billingPeriodStart: effect.periodStart,
+          billingPeriodEnd: effect.periodEnd,
+          metadata: {
+            orderId: effect.orderId || null,
+            tier: effect.tier,
+            billingCycle: effect.billingCycle,
+            promoCode: effect.promoCode || null,
+            promoDiscount: effect.promoDiscount || 0,
+            creditApplied: effect.creditApplied || 0,
+            prorationCredit: effect.prorationCredit || 0
+          },
+          createdAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp()
+        }, { merge: true });
+        if (context.promotions) {
+          recordPaymentPromotions(db, transaction, userId, context.promotions, effect, now);
+        }
+        break;
+
+      case 'refund_recorded':
+        transaction.set(db.collection(PAYMENT_TRANSACTIONS_COLLECTION).doc(effect.refundId), {
+          userId,
+          subscriptionId: state.subscriptionId,
+          transactionId: effect.refundId,
+          amount: -effect.amount,
+          currency: 'INR',
+          status: 'refunded',
+          provider: 'razorpay',
+          providerTransactionId: effect.refundId,
+          metadata: { paymentId: effect.paymentId },
+          createdAt: FieldValue.serverTimestamp(),
+          updatedAt: FieldValue.serverTimestamp()
+        });
+        break;
+
+      case 'dunning_reminder':
+        transaction.set(db.collection(BILLING_REMINDERS_COLLECTION).doc(`${userId}_${state.currentPeriodEnd.getTime()}_${effect.attempt}`), {
+          userId,
+          tier: state.tier,
+          attempt: effect.attempt,
+          gracePeriodEnd: effect.gracePeriodEnd,
+          status: 'pending',
+          createdAt: now
+        });
+        break;
+
+      case 'tier_changed':
+        profileUpdate.currentTier = effect.to;
+        profileUpdate.subscriptionHistory = FieldValue.arrayUnion({
+          tier: effect.to,
+          startDate: now,
+          reason: effect.reason,
+          ...historyDetails(transition.effects)
+        });
+        break;
+    }
+  });
+
+  if (context.invoices) {
+    writeInvoices(db, transaction, userId, context.invoices, transition.effects, now);
+  }
+
+  if (Object.keys(profileUpdate).length > 0) {
+    transaction.set(db.collection(USER_PROFILES_COLLECTION).doc(userId), {
+      ...profileUpdate,
+      updatedAt: FieldValue.serverTimestamp()
+    }, { merge: true });
+  }
+}
+
+async function findSubscriptionOwner(db: Firestore, transaction: Transaction, subscriptionId: string): Promise<string | undefined> {
+  const snapshot = await transaction.get(
+    db.collection(USER_SUBSCRIPTIONS_COLLECTION).where('subscriptionId', '==', subscriptionId).limit(1)
+  );
+  return snapshot.empty ? undefined : snapshot.docs[0].id;
+}
+
+/**
+ * Applies a billing event exactly once: the event ID is stored with the
+ * outcome in the same transaction as the subscription change, so Razorpay
+ * redeliveries are harmless. The checkout callback and the webhook report a
+ * payment under different event IDs, so a payment that already has a
+ * transaction record is a duplicate too.
+ */
+export async function processBillingEventAdmin(db: Firestore, event: BillingEvent, now: Date = new Date()): Promise<BillingEventOutcome> {
+  const eventRef = db.collection(BILLING_EVENTS_COLLECTION).doc(event.id);
+
+  return db.runTransaction(async transaction => {
+    const existingEvent = await transaction.get(eventRef);
+    if (existingEvent.exists) return 'duplicate';
+
+    const recordedPayment = event.paymentId
+      ? await transaction.get(db.collection(PAYMENT_TRANSACTIONS_COLLECTION).doc(event.paymentId))
+      : null;
+    const userId = event.userId
+      || (event.subscriptionId ? await findSubscriptionOwner(db, transaction, event.subscriptionId) : undefined)
+      || (event.type === 'payment_refunded' && recordedPayment?.exists ? recordedPayment.get('userId') as string : undefined);
+    const record = {
+      type: event.type,
+      occurredAt: event.occurredAt,
+      userId: userId || null,
+      subscriptionId: event.subscriptionId || null,
+      paymentId: event.paymentId || null,
+      receivedAt: now
+    };
+    const isPayment = event.type === 'payment_captured' || event.type === 'subscription_charged';
+
+    if (isPayment && recordedPayment?.exists) {
+      transaction.set(eventRef, { ...record, outcome: 'duplicate' });
+      return 'duplicate';
+    }
+
+    if (!userId) {
+      console.warn(`Billing event ${event.id} (${event.type}) does not match a user`);
+      transaction.set(eventRef, { ...record, outcome: 'unmatched' });
+      return 'unmatched';
+    }
+
+    const subscriptionRef = db.collection(USER_SUBSCRIPTIONS_COLLECTION).doc(userId);
+    const subscription = await transaction.get(subscriptionRef);
+    const current = subscription.exists ? stateFromFirestore(subscription.data() as Record<string, unknown>) : null;
+    const context: BillingEventContext = {
+      promotions: isPayment ? await readPaymentPromotionState(db, transaction, userId, event.promoCode) : undefined,
+      invoices: await readInvoiceContext(db, transaction, userId, event, now)
+    };
+    const transition = applyBillingEvent(current, event);
+
+    writeTransition(db, transaction, userId, subscription.exists, transition, now, context);
+    transaction.set(eventRef, { ...record, outcome: 'processed', changed: transition.changed });
+    return 'processed';
+  });
+}
+
+// Current subscription as the lifecycle sees it, for pricing upgrades
+export async function getSubscriptionStateAdmin(db: Firestore, userId: string): Promise<SubscriptionLifecycleState | null> {
+  const snapshot = await db.collection(USER_SUBSCRIPTIONS_COLLECTION).doc(userId).get();
+  return snapshot.exists ? stateFromFirestore(snapshot.data() as Record<string, unknown>) : null;
+}
+
+/**
+ * Starts the user's one free trial of `tier`, checked against the stored
+ * subscription inside the transaction so a double submit can't start two.
+ */
+export async function startTrialAdmin(db: Firestore, userId: string, tier: SubscriptionTier, now: Date = new Date()): Promise<TrialStartResult> {
+  const subscriptionRef = db.collection(USER_SUBSCRIPTIONS_COLLECTION).doc(userId);
+
+  return db.runTransaction(async (transaction): Promise<TrialStartResult> => {
+    const subscription = await transaction.get(subscriptionRef);
+    const current = subscription.exists ? stateFromFirestore(subscription.data() as Record<string, unknown>) : null;
+
+    const error = getTrialError(current, tier);
+    if (error) return { started: false, error };
+
+    const transition = startTrial(current, tier, now);
+    writeTransition(db, transaction, userId, subscription.exists, transition, now);
+    return { started: true, trialEnd: transition.state!.currentPeriodEnd };
+  });
+}
+
+/**
+ * Scheduled job: moves lapsed paid subscriptions through the grace period,
+ * downgrades them when it runs out and ends expired trials. Each subscription
+ * is re-read in its own transaction, so a renewal arriving mid-run wins.
+ */
+export async function runSubscriptionLifecycleAdmin(db: Firestore, now: Date = new Date()): Promise<LifecycleRunSummary> {
+  const subscriptions = db.collection(USER_SUBSCRIPTIONS_COLLECTION);
+  const [lapsed, pastDue, endedTrials] = await Promise.all([
+    // Free plans have no provider and never lapse
+    subscriptions.where('status', '==', 'active').where('paymentProvider', '==', 'razorpay').where('currentPeriodEnd', '<=', now).get(),
+    subscriptions.where('status', '==', 'past_due').get(),
+    subscriptions.where('isTrial', '==', true).where('status', '==', 'active').where('currentPeriodEnd', '<=', now).get()
+  ]);
+
+  const summary: LifecycleRunSummary = { checked: 0, remindersSent: 0, downgraded: 0 };
+  for (const subscriptionDoc of [...lapsed.docs, ...pastDue.docs, ...endedTrials.docs]) {
+    summary.checked++;
+    try {
+      const effects = await db.runTransaction(async transaction => {
+        const snapshot = await transaction.get(subscriptionDoc.ref);
+        if (!snapshot.exists) return [];
+
+        const transition = advanceSubscription(stateFromFirestore(snapshot.data() as Record<string, unknown>), now);
+        writeTransition(db, transaction, subscriptionDoc.id, true, transition, now);
+        return transition.effects;
+      });
+
+      summary.remindersSent += effects.filter(effect => effect.type === 'dunning_reminder').length;
+      summary.downgraded += effects.filter(effect => effect.type === 'tier_changed' && effect.to === 'free').length;
+    } catch (error) {
+      // One bad document shouldn't stop the rest of the run
+      console.error(`Subscription lifecycle failed for ${subscriptionDoc.id}:`, error);
+    }
+  }
+
+  return summary;
+}
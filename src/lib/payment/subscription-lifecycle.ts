@@ -0,0 +1,286 @@
+// Subscription state machine driven by billing events and the daily lifecycle job
+
+import { SubscriptionTier, canUpgradeTo } from '@/lib/subscription-tiers';
+import type { BillingCycle, BillingEvent } from './razorpay-webhooks';
+import { getTrialEnd } from './promotions';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Paid access continues this long after a missed renewal before the downgrade to free
+export const GRACE_PERIOD_DAYS = 7;
+// Payment reminders go out on these days of the grace period
+export const DUNNING_REMINDER_DAYS = [0, 3, 6];
+
+export type SubscriptionStatus = 'active' | 'cancelled' | 'expired' | 'past_due';
+
+export interface SubscriptionLifecycleState {
+  tier: SubscriptionTier;
+  status: SubscriptionStatus;
+  billingCycle: BillingCycle;
+  amount: number;
+  subscriptionId: string;
+  currentPeriodStart: Date;
+  currentPeriodEnd: Date;
+  cancelAtPeriodEnd: boolean;
+  gracePeriodEnd?: Date | null;
+  dunningRemindersSent?: number;
+  lastPaymentId?: string;
+  isTrial?: boolean; // current period is a free trial, not a paid one
+  trialTiers?: SubscriptionTier[]; // tiers whose one trial has been used
+}
+
+export type TierChangeReason = 'payment' | 'renewal' | 'trial' | 'trial_ended' | 'cancellation' | 'payment_failed' | 'refund';
+
+export type LifecycleEffect =
+  | {
+      type: 'payment_recorded';
+      paymentId: string;
+      orderId?: string;
+      amount: number;
+      tier: SubscriptionTier;
+      billingCycle: BillingCycle;
+      periodStart: Date;
+      periodEnd: Date;
+      promoCode?: string;
+      promoDiscount?: number;
+      creditApplied?: number;
+      prorationCredit?: number;
+    }
+  | { type: 'refund_recorded'; paymentId: string; refundId: string; amount: number }
+  | { type: 'dunning_reminder'; attempt: number; gracePeriodEnd: Date }
+  | { type: 'tier_changed'; from: SubscriptionTier; to: SubscriptionTier; reason: TierChangeReason; trialEnd?: Date };
+
+export interface LifecycleTransition {
+  state: SubscriptionLifecycleState | null;
+  changed: boolean;
+  effects: LifecycleEffect[];
+}
+
+const unchanged = (state: SubscriptionLifecycleState | null): LifecycleTransition => ({ state, changed: false, effects: [] });
+
+export function addBillingPeriod(start: Date, billingCycle: BillingCycle): Date {
+  const end = new Date(start);
+  if (billingCycle === 'yearly') {
+    end.setUTCFullYear(end.getUTCFullYear() + 1);
+  } else {
+    end.setUTCMonth(end.getUTCMonth() + 1);
+  }
+  return end;
+}
+
+function downgrade(
+  state: SubscriptionLifecycleState,
+  status: SubscriptionStatus,
+  at: Date,
+  reason: 'trial_ended' | 'cancellation' | 'payment_failed' | 'refund'
+): { state: SubscriptionLifecycleState; effect: LifecycleEffect } {
+  return {
+    state: {
+      ...state,
+      tier: 'free',
+      status,
+      amount: 0,
+      currentPeriodEnd: at,
+      cancelAtPeriodEnd: false,
+      gracePeriodEnd: null,
+      dunningRemindersSent: 0,
+      isTrial: false
+    },
+    effect: { type: 'tier_changed', from: state.tier, to: 'free', reason }
+  };
+}
+
+function applyPayment(current: SubscriptionLifecycleState | null, event: BillingEvent): LifecycleTransition {
+  // The checkout callback and the order.paid webhook report the same payment; once a later
+  // payment has replaced lastPaymentId, the stored transaction record catches repeats
+  if (!event.paymentId || current?.lastPaymentId === event.paymentId) return unchanged(current);
+
+  const tier = event.tier || current?.tier;
+  const billingCycle = event.billingCycle || current?.billingCycle || 'monthly';
+  if (!tier || tier === 'free') return unchanged(current);
+
+  // Paying early for the same plan extends the current period instead of restarting it;
+  // paying during a trial ends the trial and starts the paid period now
+  const isEarlyRenewal = current?.status === 'active' && !current.isTrial && current.tier === tier && current.currentPeriodEnd > event.occurredAt;
+  const periodStart = isEarlyRenewal ? current!.currentPeriodEnd : event.occurredAt;
+  const periodEnd = event.periodEnd && event.periodEnd > periodStart ? event.periodEnd : addBillingPeriod(periodStart, billingCycle);
+  const amount = event.amount ?? current?.amount ?? 0;
+
+  const state: SubscriptionLifecycleState = {
+    tier,
+    status: 'active',
+    billingCycle,
+    amount,
+    subscriptionId: event.subscriptionId || current?.subscriptionId || event.paymentId,
+    currentPeriodStart: periodStart,
+    currentPeriodEnd: periodEnd,
+    cancelAtPeriodEnd: false,
+    gracePeriodEnd: null,
+    dunningRemindersSent: 0,
+    lastPaymentId: event.paymentId,
+    isTrial: false,
+    trialTiers: current?.trialTiers || []
+  };
+
+  const effects: LifecycleEffect[] = [{
+    type: 'payment_recorded',
+    paymentId: event.paymentId,
+    orderId: event.orderId,
+    amount,
+    tier,
+    billingCycle,
+    periodStart,
+    periodEnd,
+    ...(event.promoCode && { promoCode: event.promoCode, promoDiscount: event.promoDiscount || 0 }),
+    ...(event.creditApplied && { creditApplied: event.creditApplied }),
+    ...(event.prorationCredit && { prorationCredit: event.prorationCredit })
+  }];
+  if (current?.tier !== tier || current?.isTrial) {
+    effects.push({ type: 'tier_changed', from: current?.tier || 'free', to: tier, reason: event.type === 'subscription_charged' ? 'renewal' : 'payment' });
+  }
+
+  return { state, changed: true, effects };
+}
+
+function startGracePeriod(state: SubscriptionLifecycleState, from: Date): LifecycleTransition {
+  const gracePeriodEnd = new Date(from.getTime() + GRACE_PERIOD_DAYS * DAY_MS);
+  return {
+    state: { ...state, status: 'past_due', gracePeriodEnd, dunningRemindersSent: 1 },
+    changed: true,
+    effects: [{ type: 'dunning_reminder', attempt: 1, gracePeriodEnd }]
+  };
+}
+
+/**
+ * Applies a webhook or checkout event to the stored subscription. Events for
+ * users without a subscription only matter when they pay.
+ */
+export function applyBillingEvent(current: SubscriptionLifecycleState | null, event: BillingEvent): LifecycleTransition {
+  switch (event.type) {
+    case 'payment_captured':
+    case 'subscription_charged':
+      return applyPayment(current, event);
+
+    case 'subscription_halted':
+      // Razorpay has given up retrying the card; keep access through the grace period
+      if (!current || current.tier === 'free' || current.status !== 'active') return unchanged(current);
+      return startGracePeriod(current, event.occurredAt);
+
+    case 'subscription_cancelled': {
+      if (!current || current.tier === 'free') return unchanged(current);
+      if (current.status === 'past_due') {
+        const { state, effect } = downgrade(current, 'cancelled', event.occurredAt, 'cancellation');
+        return { state, changed: true, effects: [effect] };
+      }
+      if (current.cancelAtPeriodEnd) return unchanged(current);
+      // Access runs to the end of the paid period; the lifecycle job downgrades then
+      return { state: { ...current, cancelAtPeriodEnd: true }, changed: true, effects: [] };
+    }
+
+    case 'payment_refunded': {
+      if (!current || !event.paymentId || !event.refundId) return unchanged(current);
+      const refund: LifecycleEffect = { type: 'refund_recorded', paymentId: event.paymentId, refundId: event.refundId, amount: event.amount || 0 };
+
+      // Refunding an older payment leaves the current period alone
+      if (current.lastPaymentId !== event.paymentId || current.tier === 'free') {
+        return { state: current, changed: false, effects: [refund] };
+      }
+      const { state, effect } = downgrade(current, 'cancelled', event.occurredAt, 'refund');
+      return { state, changed: true, effects: [refund, effect] };
+    }
+  }
+}
+
+/**
+ * Unused value of the current paid period, credited against an upgrade to a
+ * higher tier. The new plan's period starts on payment, so without this the
+ * rest of the old period would be paid for twice.
+ */
+export function getProrationCredit(
+  state: Pick<SubscriptionLifecycleState, 'tier' | 'status' | 'amount' | 'currentPeriodStart' | 'currentPeriodEnd' | 'isTrial'> | null,
+  targetTier: SubscriptionTier,
+  now: Date
+): number {
+  if (!state || state.status !== 'active' || state.isTrial || !canUpgradeTo(state.tier, targetTier)) return 0;
+
+  const periodMs = state.currentPeriodEnd.getTime() - state.currentPeriodStart.getTime();
+  const remainingMs = Math.min(state.currentPeriodEnd.getTime() - now.getTime(), periodMs);
+  if (periodMs <= 0 || remainingMs <= 0) return 0;
+  return Math.floor(state.amount * remainingMs / periodMs);
+}
+
+/**
+ * Starts the one free trial of `tier`. Eligibility (see getTrialError) is
+ * checked by the caller against the same state.
+ */
+export function startTrial(current: SubscriptionLifecycleState | null, tier: SubscriptionTier, now: Date): LifecycleTransition {
+  const trialEnd = getTrialEnd(now);
+  const state: SubscriptionLifecycleState = {
+    tier,
+    status: 'active',
+    billingCycle: current?.billingCycle || 'monthly',
+    amount: 0,
+    subscriptionId: `trial_${tier}`,
+    currentPeriodStart: now,
+    currentPeriodEnd: trialEnd,
+    cancelAtPeriodEnd: false,
+    gracePeriodEnd: null,
+    dunningRemindersSent: 0,
+    ...(current?.lastPaymentId && { lastPaymentId: current.lastPaymentId }),
+    isTrial: true,
+    trialTiers: [...(current?.trialTiers || []), tier]
+  };
+
+  return {
+    state,
+    changed: true,
+    effects: [{ type: 'tier_changed', from: current?.status === 'active' ? current.tier : 'free', to: tier, reason: 'trial', trialEnd }]
+  };
+}
+
+/**
+ * Daily lifecycle step: paid periods that ended without a renewal enter the
+ * grace period, reminders go out on the dunning schedule, and subscriptions
+ * still unpaid (or cancelled) at the end are downgraded to free.
+ */
+export function advanceSubscription(state: SubscriptionLifecycleState, now: Date): LifecycleTransition {
+  if (state.tier === 'free') return unchanged(state);
+
+  // Nothing was paid for a trial, so it ends without a grace period
+  if (state.isTrial && state.status === 'active') {
+    if (now < state.currentPeriodEnd) return unchanged(state);
+    const downgraded = downgrade(state, 'expired', state.currentPeriodEnd, 'trial_ended');
+    return { state: downgraded.state, changed: true, effects: [downgraded.effect] };
+  }
+
+  if (state.status === 'active') {
+    if (now < state.currentPeriodEnd) return unchanged(state);
+    if (state.cancelAtPeriodEnd) {
+      const downgraded = downgrade(state, 'expired', state.currentPeriodEnd, 'cancellation');
+      return { state: downgraded.state, changed: true, effects: [downgraded.effect] };
+    }
+    return startGracePeriod(state, state.currentPeriodEnd);
+  }
+
+  if (state.status === 'past_due') {
+    const gracePeriodEnd = state.gracePeriodEnd || new Date(state.currentPeriodEnd.getTime() + GRACE_PERIOD_DAYS * DAY_MS);
+    if (now >= gracePeriodEnd) {
+      const downgraded = downgrade(state, 'expired', now, 'payment_failed');
+      return { state: downgraded.state, changed: true, effects: [downgraded.effect] };
+    }
+
+    const graceStart = gracePeriodEnd.getTime() - GRACE_PERIOD_DAYS * DAY_MS;
+    const due = DUNNING_REMINDER_DAYS.filter(day => now.getTime() >= graceStart + day * DAY_MS).length;
+    const sent = state.dunningRemindersSent || 0;
+    if (due <= sent) return unchanged(state);
+
+    // A job that missed days sends one reminder, not a burst
+    return {
+      state: { ...state, gracePeriodEnd, dunningRemindersSent: due },
+      changed: true,
+      effects: [{ type: 'dunning_reminder', attempt: due, gracePeriodEnd }]
+    };
+  }
+
+  return unchanged(state);
+}
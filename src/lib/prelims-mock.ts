@@ -0,0 +1,226 @@
+// Full-length Prelims mock exams: paper blueprints, paper assembly and the post-exam report
+
+import type { ScoringSchemeId } from './quiz-scoring';
+
+export type MockPaperId = 'gs1' | 'csat';
+
+export interface MockPaperBlueprint {
+  id: MockPaperId;
+  quizType: string;
+  name: string;
+  questionCount: number;
+  timeLimit: number; // seconds
+  scoringScheme: ScoringSchemeId;
+  // Questions per subject; the counts add up to questionCount
+  distribution: Record<string, number>;
+  // Subject names used by the question pools, lower-cased, mapped to a blueprint subject
+  subjectAliases: Record<string, string[]>;
+  // Paper II is qualifying only; null for papers that count towards the merit list
+  qualifyingPercent: number | null;
+}
+
+const EXAM_DURATION = 120 * 60;
+
+/**
+ * Subject split based on recent UPSC Prelims papers. UPSC does not publish a
+ * fixed distribution, so these follow the average of the last few years.
+ */
+export const MOCK_PAPERS: Record<MockPaperId, MockPaperBlueprint> = {
+  gs1: {
+    id: 'gs1',
+    quizType: 'mock-prelims',
+    name: 'General Studies Paper I',
+    questionCount: 100,
+    timeLimit: EXAM_DURATION,
+    scoringScheme: 'upsc-prelims',
+    distribution: {
+      'History & Culture': 16,
+      'Geography': 14,
+      'Polity & Governance': 15,
+      'Economy': 15,
+      'Environment & Ecology': 15,
+      'Science & Technology': 10,
+      'Current Affairs': 15
+    },
+    subjectAliases: {
+      'History & Culture': ['history', 'ancient history', 'medieval history', 'modern history', 'art and culture', 'art & culture', 'culture', 'history & culture'],
+      'Geography': ['geography', 'indian geography', 'world geography'],
+      'Polity & Governance': ['polity', 'indian polity', 'governance', 'constitution', 'polity & governance'],
+      'Economy': ['economy', 'economics', 'indian economy'],
+      'Environment & Ecology': ['environment', 'ecology', 'environment & ecology', 'biodiversity'],
+      'Science & Technology': ['science', 'technology', 'science & technology', 'science and technology', 's&t'],
+      'Current Affairs': ['current affairs', 'international relations', 'general studies']
+    },
+    qualifyingPercent: null
+  },
+  csat: {
+    id: 'csat',
+    quizType: 'mock-prelims-csat',
+    name: 'CSAT Paper II',
+    questionCount: 80,
+    timeLimit: EXAM_DURATION,
+    scoringScheme: 'upsc-csat',
+    distribution: {
+      'Reading Comprehension': 27,
+      'Quantitative Aptitude': 28,
+      'Logical Reasoning': 20,
+      'Data Interpretation': 5
+    },
+    subjectAliases: {
+      'Reading Comprehension': ['reading comprehension', 'comprehension', 'english'],
+      'Quantitative Aptitude': ['quantitative aptitude', 'maths', 'mathematics', 'basic numeracy', 'numeracy'],
+      'Logical Reasoning': ['logical reasoning', 'reasoning', 'analytical ability', 'decision making'],
+      'Data Interpretation': ['data interpretation', 'data sufficiency']
+    },
+    qualifyingPercent: 33
+  }
+};
+
+export function getMockPaperForQuizType(quizType: string): MockPaperBlueprint | null {
+  return Object.values(MOCK_PAPERS).find(paper => paper.quizType === quizType) || null;
+}
+
+// Exam-mode sessions hide correctness and explanations until the paper is submitted
+export function isMockExamQuizType(quizType: string): boolean {
+  return getMockPaperForQuizType(quizType) !== null;
+}
+
+// Allowance for network latency on answers marked as the exam clock runs out
+export const EXAM_SUBMISSION_GRACE_SECONDS = 30;
+
+// Mock exams run on a strict clock: nothing the client sends is accepted once it has run out
+export function isExamTimeUp(startTime: Date, timeLimitSeconds: number, now: Date = new Date()): boolean {
+  return (now.getTime() - startTime.getTime()) / 1000 > timeLimitSeconds + EXAM_SUBMISSION_GRACE_SECONDS;
+}
+
+export function resolveBlueprintSubject(paper: MockPaperBlueprint, subject?: string): string | null {
+  const normalized = (subject || '').trim().toLowerCase();
+  const match = Object.entries(paper.subjectAliases)
+    .find(([, aliases]) => aliases.includes(normalized));
+  return match ? match[0] : null;
+}
+
+export interface AssembledPaper<Q> {
+  questions: Q[];
+  // Questions still needed per subject when the pool ran short
+  shortfall: Record<string, number>;
+}
+
+/**
+ * Picks questions from the pool to match the paper's subject distribution,
+ * shuffling within each subject. Questions are grouped subject by subject,
+ * in blueprint order, the way the paper booklet is laid out.
+ */
+export function assembleMockPaper<Q extends { id: string; subject?: string }>(
+  paper: MockPaperBlueprint,
+  pool: Q[],
+  random: () => number = Math.random
+): AssembledPaper<Q> {
+  const bySubject = new Map<string, Q[]>();
+  const seen = new Set<string>();
+
+  pool.forEach(question => {
+    const subject = resolveBlueprintSubject(paper, question.subject);
+    if (!subject || seen.has(question.id)) return;
+    seen.add(question.id);
+    bySubject.set(subject, [...(bySubject.get(subject) || []), question]);
+  });
+
+  const questions: Q[] = [];
+  const shortfall: Record<string, number> = {};
+
+  Object.entries(paper.distribution).forEach(([subject, count]) => {
+    const candidates = shuffle(bySubject.get(subject) || [], random);
+    questions.push(...candidates.slice(0, count));
+    if (candidates.length < count) {
+      shortfall[subject] = count - candidates.length;
+    }
+  });
+
+  return { questions, shortfall };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Everyone attempting a paper in the same ISO week gets the same edition,
+ * which is what makes the rank percentile meaningful.
+ */
+export function getMockPaperEditionId(paper: MockPaperBlueprint, now: Date = new Date()): string {
+  const date = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const weekday = date.getUTCDay() || 7;
+  date.setUTCDate(date.getUTCDate() + 4 - weekday);
+  const yearStart = new Date(Date.UTC(date.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((date.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+  return `${paper.id}-${date.getUTCFullYear()}-W${String(week).padStart(2, '0')}`;
+}
+
+/**
+ * Percentile rank among other attempts: the share scoring below, counting
+ * ties as half. Null when nobody else has attempted the paper yet.
+ */
+export function computePercentile(score: number, otherScores: number[]): number | null {
+  if (otherScores.length === 0) return null;
+  const below = otherScores.filter(other => other < score).length;
+  const ties = otherScores.filter(other => other === score).length;
+  return Math.round(((below + ties / 2) / otherScores.length) * 10000) / 100;
+}
+
+export interface QualificationResult {
+  qualifyingMarks: number;
+  qualified: boolean;
+  margin: number; // net marks above (or below, if negative) the cut-off
+}
+
+export function evaluateQualification(paper: MockPaperBlueprint, netScore: number, maxScore: number): QualificationResult | null {
+  if (paper.qualifyingPercent === null) return null;
+  const qualifyingMarks = Math.round(maxScore * paper.qualifyingPercent) / 100;
+  return {
+    qualifyingMarks,
+    qualified: netScore >= qualifyingMarks,
+    margin: Math.round((netScore - qualifyingMarks) * 100) / 100
+  };
+}
+
+export interface HeatmapCell {
+  questionNumber: number;
+  seconds: number;
+  // 0 (well under the paper's pace) to 4 (more than twice the pace)
+  intensity: 0 | 1 | 2 | 3 | 4;
+}
+
+/**
+ * Time spent per question laid out in rows like the OMR sheet, shaded
+ * against the pace the paper demands (120 minutes over its question count).
+ */
+export function buildTimeHeatmap(paper: MockPaperBlueprint, secondsPerQuestion: number[], columns: number = 10): HeatmapCell[][] {
+  const pace = paper.timeLimit / paper.questionCount;
+  const cells: HeatmapCell[] = secondsPerQuestion.map((seconds, index) => {
+    const ratio = seconds / pace;
+    const intensity = ratio < 0.5 ? 0 : ratio < 1 ? 1 : ratio < 1.5 ? 2 : ratio < 2 ? 3 : 4;
+    return { questionNumber: index + 1, seconds: Math.round(seconds), intensity };
+  });
+
+  const rows: HeatmapCell[][] = [];
+  for (let i = 0; i < cells.length; i += columns) {
+    rows.push(cells.slice(i, i + columns));
+  }
+  return rows;
+}
+
+export interface MockExamReport {
+  paperId: string; // edition id, e.g. gs1-2025-W11
+  paperName: string;
+  percentile: number | null;
+  attemptsCompared: number;
+  qualification: QualificationResult | null;
+  heatmap: HeatmapCell[][];
+  averageSecondsPerQuestion: number;
+}
@@ -0,0 +1,433 @@
+// Server-side question bank mutations for the admin API routes (Admin SDK), each recorded in the audit trail
+
+import { FieldValue, type DocumentReference, type Firestore, type Transaction } from 'firebase-admin/firestore';
+import { AuditActor, buildAuditEntry, diffRecords, getQuestionEntityType } from './audit-log';
+import { addAuditLogToTransaction } from './audit-log-admin';
+import { getDedupFields } from './question-dedup';
+import {
+  QuestionRevision,
+  QuestionWorkflowError,
+  ReviewComment,
+  WorkflowAction,
+  applyTransition,
+  getPendingEditors,
+  getPendingVersion,
+  getQuestionStatus,
+  getRevisionContent,
+  getStatusAfterEdit,
+  getStatusFields
+} from './question-workflow';
+
+export type QuestionExamType = 'Prelims' | 'Mains';
+
+export const QUESTION_COLLECTIONS: Record<QuestionExamType, string> = {
+  Prelims: 'prelims_questions',
+  Mains: 'mains_questions'
+};
+
+// Subcollections of a question document
+export const QUESTION_REVISIONS_COLLECTION = 'revisions'; // keyed by version, never updated
+export const REVIEW_COMMENTS_COLLECTION = 'reviewComments';
+
+// Identity, authorship, attempt analytics, derived dedup keys and workflow state are never edited by hand
+const PROTECTED_QUESTION_FIELDS = [
+  'id',
+  'createdAt',
+  'updatedAt',
+  'createdBy',
+  'version',
+  'pendingVersion',
+  'pendingEditors',
+  'attemptCount',
+  'correctAttempts',
+  'averageTime',
+  'successRate',
+  'dedupFingerprint',
+  'dedupBands',
+  'status',
+  'verified',
+  'isActive',
+  'reviewerId',
+  'reviewerEmail',
+  'lastEditedBy',
+  'statusUpdatedAt'
+];
+
+export interface QuestionHistory {
+  question: Record<string, unknown>;
+  revisions: QuestionRevision[]; // newest first
+  comments: ReviewComment[]; // oldest first
+}
+
+export function sanitizeQuestionUpdates(updates: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(updates).filter(([field, value]) => !PROTECTED_QUESTION_FIELDS.includes(field) && value !== undefined)
+  );
+}
+
+function toDate(value: unknown): Date {
+  if (value instanceof Date) return value;
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return value ? new Date(value as string) : new Date(0);
+}
+
+// Revision users are served
+function getVersion(question: Record<string, unknown>): number {
+  return typeof question.version === 'number' ? question.version : 1;
+}
+
+// Revision edits and review comments apply to: the pending one while there is one
+function getLatestVersion(question: Record<string, unknown>): number {
+  return getPendingVersion(question) ?? getVersion(question);
+}
+
+// Revision a question already had before its history started being recorded
+function getBaseRevision(question: Record<string, unknown>): QuestionRevision {
+  return {
+    version: getVersion(question),
+    content: getRevisionContent(question),
+    changes: [],
+    editedBy: String(question.lastEditedBy || question.createdBy || 'unknown'),
+    createdAt: toDate(question.updatedAt || question.createdAt)
+  };
+}
+
+interface UpdateOptions {
+  restoredFrom?: number; // rolling back to this version
+}
+
+/**
+ * Records an edit as a new immutable revision that waits for review. The
+ * question document keeps serving the current content until a reviewer
+ * approves the revision (see transitionQuestionAdmin); further edits build on
+ * the pending revision. Returns the question, or null when it does not exist.
+ * A no-op edit is not audited.
+ */
+export async function updateQuestionAdmin(
+  db: Firestore,
+  examType: QuestionExamType,
+  questionId: string,
+  updates: Record<string, unknown>,
+  actor: AuditActor,
+  options: UpdateOptions = {}
+): Promise<Record<string, unknown> | null> {
+  const ref = db.collection(QUESTION_COLLECTIONS[examType]).doc(questionId);
+  const revisions = ref.collection(QUESTION_REVISIONS_COLLECTION);
+  const allowed = sanitizeQuestionUpdates(updates);
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists) return null;
+
+    const before = snapshot.data() as Record<string, unknown>;
+    const status = getStatusAfterEdit(getQuestionStatus(before));
+    const servedVersion = getVersion(before);
+    const latestVersion = getLatestVersion(before);
+    const baseRevision = await transaction.get(revisions.doc(String(servedVersion)));
+    const latestRevision = latestVersion !== servedVersion
+      ? await transaction.get(revisions.doc(String(latestVersion)))
+      : baseRevision;
+
+    const current = latestRevision.exists
+      ? (latestRevision.data() as QuestionRevision).content
+      : getRevisionContent(before);
+    // A rollback replaces the content wholesale, so fields the old revision lacked are removed
+    const content = options.restoredFrom !== undefined ? allowed : { ...current, ...allowed };
+
+    const changes = diffRecords(current, content);
+    if (changes.length === 0) return before;
+
+    const now = new Date();
+    const version = latestVersion + 1;
+
+    if (!baseRevision.exists) {
+      transaction.create(revisions.doc(String(servedVersion)), getBaseRevision(before));
+    }
+    const revision: QuestionRevision = {
+      version,
+      content,
+      changes,
+      editedBy: actor.uid,
+      ...(actor.email && { editedByEmail: actor.email }),
+      ...(options.restoredFrom !== undefined && { restoredFrom: options.restoredFrom }),
+      createdAt: now
+    };
+    transaction.create(revisions.doc(String(version)), revision);
+
+    const updated = {
+      ...getStatusFields(status, true),
+      ...(status !== getQuestionStatus(before) && { statusUpdatedAt: now }),
+      pendingVersion: version,
+      // Later edits join the pending revision, so each of their authors is kept from approving it
+      pendingEditors: Array.from(new Set([...getPendingEditors(before), actor.uid])),
+      lastEditedBy: actor.uid,
+      updatedAt: now
+    };
+    transaction.update(ref, updated);
+    addAuditLogToTransaction(db, transaction, buildAuditEntry(
+      actor,
+      options.restoredFrom !== undefined ? 'rollback' : 'update',
+      getQuestionEntityType(examType),
+      questionId,
+      changes,
+      { version, ...(options.restoredFrom !== undefined && { restoredFrom: options.restoredFrom }) }
+    ));
+
+    return { ...before, ...updated };
+  });
+}
+
+/**
+ * Restores the content of an earlier revision. History is never rewritten:
+ * the restored content becomes a new pending revision and goes through review.
+ */
+export async function rollbackQuestionAdmin(
+  db: Firestore,
+  examType: QuestionExamType,
+  questionId: string,
+  toVersion: number,
+  actor: AuditActor
+): Promise<Record<string, unknown> | null> {
+  const ref = db.collection(QUESTION_COLLECTIONS[examType]).doc(questionId);
+  const revision = await ref.collection(QUESTION_REVISIONS_COLLECTION).doc(String(toVersion)).get();
+  if (!revision.exists) {
+    const question = await ref.get();
+    if (!question.exists) return null;
+    throw new QuestionWorkflowError('unknown-version', `Version ${toVersion} is not in this question's history.`);
+  }
+
+  const { content } = revision.data() as QuestionRevision;
+  return updateQuestionAdmin(db, examType, questionId, content, actor, { restoredFrom: toVersion });
+}
+
+function addCommentToTransaction(
+  transaction: Transaction,
+  ref: DocumentReference,
+  actor: AuditActor,
+  body: string,
+  version: number,
+  action?: WorkflowAction
+): ReviewComment {
+  const commentRef = ref.collection(REVIEW_COMMENTS_COLLECTION).doc();
+  const comment: ReviewComment = {
+    id: commentRef.id,
+    authorId: actor.uid,
+    ...(actor.email && { authorEmail: actor.email }),
+    body,
+    version,
+    ...(action && { action }),
+    createdAt: new Date()
+  };
+  transaction.set(commentRef, comment);
+  return comment;
+}
+
+/**
+ * Moves a question through draft → in-review → verified → retired. The rules
+ * live in applyTransition; an optional comment is stored with the action.
+ * Approving a pending revision makes its content the one users are served.
+ */
+export async function transitionQuestionAdmin(
+  db: Firestore,
+  examType: QuestionExamType,
+  questionId: string,
+  action: WorkflowAction,
+  actor: AuditActor,
+  comment?: string
+): Promise<Record<string, unknown> | null> {
+  const ref = db.collection(QUESTION_COLLECTIONS[examType]).doc(questionId);
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists) return null;
+
+    const before = snapshot.data() as Record<string, unknown>;
+    const status = getQuestionStatus(before);
+    const next = applyTransition(status, action, {
+      actorId: actor.uid,
+      actorRoles: actor.roles,
+      lastEditedBy: before.lastEditedBy as string | undefined,
+      pendingEditors: getPendingEditors(before),
+      reviewerId: before.reviewerId as string | undefined,
+      comment
+    });
+
+    const pendingVersion = getPendingVersion(before);
+    const version = getLatestVersion(before);
+    const pendingRevision = next === 'verified' && pendingVersion !== undefined
+      ? await transaction.get(ref.collection(QUESTION_REVISIONS_COLLECTION).doc(String(pendingVersion)))
+      : null;
+
+    const now = new Date();
+    let after: Record<string, unknown>;
+    if (pendingRevision?.exists) {
+      // The approved content replaces the served content wholesale
+      const { content } = pendingRevision.data() as QuestionRevision;
+      const removed = Object.keys(getRevisionContent(before)).filter(field => !(field in content));
+      const updated = {
+        ...content,
+        // Keep the dedup keys in step with the text future imports are compared against
+        ...getDedupFields(content as { question: string; options?: Record<string, string> }),
+        ...getStatusFields(next),
+        statusUpdatedAt: now,
+        updatedAt: now,
+        version: pendingVersion
+      };
+      transaction.update(ref, {
+        ...updated,
+        pendingVersion: FieldValue.delete(),
+        pendingEditors: FieldValue.delete(),
+        ...Object.fromEntries(removed.map(field => [field, FieldValue.delete()]))
+      });
+
+      after = { ...before, ...updated };
+      delete after.pendingVersion;
+      delete after.pendingEditors;
+      removed.forEach(field => delete after[field]);
+    } else {
+      const updated = { ...getStatusFields(next, pendingVersion !== undefined), statusUpdatedAt: now, updatedAt: now };
+      transaction.update(ref, updated);
+      after = { ...before, ...updated };
+    }
+
+    if (comment?.trim()) {
+      addCommentToTransaction(transaction, ref, actor, comment.trim(), version, action);
+    }
+    addAuditLogToTransaction(db, transaction, buildAuditEntry(
+      actor,
+      'status-change',
+      getQuestionEntityType(examType),
+      questionId,
+      diffRecords({ status }, { status: next }),
+      { action, version }
+    ));
+
+    return after;
+  });
+}
+
+// Soft delete: the question stays for past results and reports but is no longer served
+export async function deactivateQuestionAdmin(
+  db: Firestore,
+  examType: QuestionExamType,
+  questionId: string,
+  actor: AuditActor,
+  reason?: string
+): Promise<boolean> {
+  const ref = db.collection(QUESTION_COLLECTIONS[examType]).doc(questionId);
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists) return false;
+
+    const before = snapshot.data() as Record<string, unknown>;
+    const status = getQuestionStatus(before);
+    if (status === 'retired') return true;
+
+    const now = new Date();
+    transaction.update(ref, { ...getStatusFields('retired'), statusUpdatedAt: now, updatedAt: now });
+    addAuditLogToTransaction(
+      db,
+      transaction,
+      buildAuditEntry(
+        actor,
+        'deactivate',
+        getQuestionEntityType(examType),
+        questionId,
+        diffRecords({ isActive: before.isActive ?? true, status }, { isActive: false, status: 'retired' }),
+        reason ? { reason } : undefined
+      )
+    );
+    return true;
+  });
+}
+
+// Pass null to unassign
+export async function assignReviewerAdmin(
+  db: Firestore,
+  examType: QuestionExamType,
+  questionId: string,
+  reviewer: { uid: string; email?: string } | null,
+  actor: AuditActor
+): Promise<boolean> {
+  const ref = db.collection(QUESTION_COLLECTIONS[examType]).doc(questionId);
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists) return false;
+
+    const before = snapshot.data() as Record<string, unknown>;
+    if ((before.reviewerId ?? null) === (reviewer?.uid ?? null)) return true;
+
+    transaction.update(ref, {
+      reviewerId: reviewer?.uid ?? FieldValue.delete(),
+      reviewerEmail: reviewer?.email ?? FieldValue.delete()
+    });
+    addAuditLogToTransaction(db, transaction, buildAuditEntry(
+      actor,
+      'update',
+      getQuestionEntityType(examType),
+      questionId,
+      diffRecords(
+        { reviewerId: before.reviewerId ?? null, reviewerEmail: before.reviewerEmail ?? null },
+        { reviewerId: reviewer?.uid ?? null, reviewerEmail: reviewer?.email ?? null }
+      )
+    ));
+    return true;
+  });
+}
+
+export async function addReviewCommentAdmin(
+  db: Firestore,
+  examType: QuestionExamType,
+  questionId: string,
+  body: string,
+  actor: AuditActor
+): Promise<ReviewComment | null> {
+  const ref = db.collection(QUESTION_COLLECTIONS[examType]).doc(questionId);
+
+  return db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(ref);
+    if (!snapshot.exists) return null;
+    return addCommentToTransaction(transaction, ref, actor, body, getLatestVersion(snapshot.data() as Record<string, unknown>));
+  });
+}
+
+/**
+ * The question with its revisions and review comments. A question never
+ * edited since history started has no stored revisions; its current state is
+ * returned as the only one.
+ */
+export async function getQuestionHistoryAdmin(
+  db: Firestore,
+  examType: QuestionExamType,
+  questionId: string
+): Promise<QuestionHistory | null> {
+  const ref = db.collection(QUESTION_COLLECTIONS[examType]).doc(questionId);
+  const [snapshot, revisionsSnapshot, commentsSnapshot] = await Promise.all([
+    ref.get(),
+    ref.collection(QUESTION_REVISIONS_COLLECTION).orderBy('version', 'desc').get(),
+    ref.collection(REVIEW_COMMENTS_COLLECTION).orderBy('createdAt').get()
+  ]);
+  if (!snapshot.exists) return null;
+
+  const question = snapshot.data() as Record<string, unknown>;
+  const revisions = revisionsSnapshot.docs.map(doc => {
+    const data = doc.data() as QuestionRevision;
+    return { ...data, createdAt: toDate(data.createdAt) };
+  });
+  if (!revisions.some(revision => revision.version === getVersion(question))) {
+    revisions.unshift(getBaseRevision(question));
+  }
+
+  return {
+    question: { ...question, id: snapshot.id, status: getQuestionStatus(question) },
+    revisions,
+    comments: commentsSnapshot.docs.map(doc => {
+      const data = doc.data() as ReviewComment;
+      return { ...data, createdAt: toDate(data.createdAt) };
+    })
+  };
+}
@@ -0,0 +1,305 @@
+// Near-duplicate detection for question imports: normalized fingerprints, character shingles and MinHash/LSH
+
+const SHINGLE_SIZE = 5;
+const MINHASH_SIZE = 64;
+const LSH_BANDS = 16;
+const LSH_ROWS = MINHASH_SIZE / LSH_BANDS;
+
+// Jaccard similarity of shingle sets at or above which two questions are flagged
+export const DUPLICATE_THRESHOLD = 0.75;
+
+export interface DedupQuestion {
+  question: string;
+  options?: Record<string, string> | string[];
+}
+
+// Stored on every question so later imports can find it without scanning the collection
+export interface DedupFields {
+  dedupFingerprint: string;
+  dedupBands: string[];
+}
+
+export interface DuplicateMatch {
+  index: number; // row in the upload (0-based)
+  source: 'existing' | 'batch';
+  matchId?: string; // existing question, when source is 'existing'
+  matchIndex?: number; // earlier row of the same upload, when source is 'batch'
+  similarity: number; // 0-1
+  exact: boolean; // same normalized stem and options
+}
+
+export const DUPLICATE_RESOLUTIONS = ['merge', 'skip', 'keep-both'] as const;
+
+export type DuplicateResolution = typeof DUPLICATE_RESOLUTIONS[number];
+
+export interface ImportPlan {
+  insert: number[];
+  skip: number[];
+  mergeIntoExisting: { index: number; existingId: string }[];
+  mergeIntoBatch: { index: number; targetIndex: number }[];
+}
+
+// --- Hashing ---
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// MurmurHash3 finalizer, to derive independent hash functions from one base hash
+function mix(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+const MINHASH_SEEDS = Array.from({ length: MINHASH_SIZE }, (_, i) => mix(Math.imul(i + 1, 0x9e3779b9)));
+
+// --- Normalization ---
+
+/**
+ * Lower-cases, drops punctuation and leading numbering ("Q12.", "3)", "(a)")
+ * and collapses whitespace, so formatting differences between sheets do not
+ * hide a duplicate. Devanagari letters and marks are kept.
+ */
+export function normalizeQuestionText(text: string): string {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/^\s*(?:q(?:uestion)?\s*\.?\s*)?(?:\(?\s*(?:\d+|[a-d])\s*[).:-])\s*/i, '')
+    .replace(/[^\p{L}\p{M}\p{N}\s]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Stem plus options; options are sorted because sheets sometimes shuffle them
+function getSignatureText(question: DedupQuestion): string {
+  const options = Array.isArray(question.options) ? question.options : Object.values(question.options || {});
+  const normalizedOptions = options
+    .filter(option => typeof option === 'string' && option.trim() !== '')
+    .map(normalizeQuestionText)
+    .sort();
+  return [normalizeQuestionText(question.question || ''), ...normalizedOptions].join(' | ');
+}
+
+export function fingerprintQuestion(question: DedupQuestion): string {
+  const text = getSignatureText(question);
+  return `${fnv1a(text).toString(16).padStart(8, '0')}${text.length.toString(16)}`;
+}
+
+export function getShingles(question: DedupQuestion): Set<string> {
+  const text = getSignatureText(question);
+  const shingles = new Set<string>();
+  if (text.length <= SHINGLE_SIZE) {
+    if (text) shingles.add(text);
+    return shingles;
+  }
+  for (let i = 0; i <= text.length - SHINGLE_SIZE; i++) {
+    shingles.add(text.slice(i, i + SHINGLE_SIZE));
+  }
+  return shingles;
+}
+
+export function jaccardSimilarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1;
+  let shared = 0;
+  a.forEach(shingle => {
+    if (b.has(shingle)) shared++;
+  });
+  return shared / (a.size + b.size - shared);
+}
+
+export function getMinHashSignature(shingles: Set<string>): number[] {
+  const signature = new Array(MINHASH_SIZE).fill(0xffffffff);
+  shingles.forEach(shingle => {
+    const base = fnv1a(shingle);
+    for (let i = 0; i < MINHASH_SIZE; i++) {
+      const hash = mix(base ^ MINHASH_SEEDS[i]);
+      if (hash < signature[i]) signature[i] = hash;
+    }
+  });
+  return signature;
+}
+
+/**
+ * Locality-sensitive hash buckets: two questions share at least one band with
+ * high probability once their similarity passes the threshold (~99% at 0.75).
+ */
+export function getLshBands(signature: number[]): string[] {
+  const bands: string[] = [];
+  for (let band = 0; band < LSH_BANDS; band++) {
+    const rows = signature.slice(band * LSH_ROWS, (band + 1) * LSH_ROWS);
+    bands.push(`${band}:${fnv1a(rows.join(',')).toString(16)}`);
+  }
+  return bands;
+}
+
+export function getDedupFields(question: DedupQuestion): DedupFields {
+  return {
+    dedupFingerprint: fingerprintQuestion(question),
+    dedupBands: getLshBands(getMinHashSignature(getShingles(question)))
+  };
+}
+
+// --- Matching ---
+
+interface PreparedQuestion {
+  fingerprint: string;
+  shingles: Set<string>;
+}
+
+function prepare(question: DedupQuestion): PreparedQuestion {
+  return { fingerprint: fingerprintQuestion(question), shingles: getShingles(question) };
+}
+
+function compare(a: PreparedQuestion, b: PreparedQuestion): { similarity: number; exact: boolean } {
+  if (a.fingerprint === b.fingerprint) return { similarity: 1, exact: true };
+  return { similarity: jaccardSimilarity(a.shingles, b.shingles), exact: false };
+}
+
+/**
+ * Flags each upload row that duplicates an existing question or an earlier
+ * row of the same upload, keeping only the closest match per row. An existing
+ * question wins a tie, since it is already live.
+ */
+export function findDuplicates(
+  incoming: DedupQuestion[],
+  existing: (DedupQuestion & { id: string })[],
+  threshold: number = DUPLICATE_THRESHOLD
+): DuplicateMatch[] {
+  const preparedIncoming = incoming.map(prepare);
+  const preparedExisting = existing.map(question => ({ id: question.id, prepared: prepare(question) }));
+  const matches: DuplicateMatch[] = [];
+
+  preparedIncoming.forEach((row, index) => {
+    let best: DuplicateMatch | null = null;
+    const consider = (candidate: Omit<DuplicateMatch, 'index'>) => {
+      if (candidate.similarity >= threshold && (!best || candidate.similarity > best.similarity)) {
+        best = { index, ...candidate };
+      }
+    };
+
+    preparedExisting.forEach(({ id, prepared }) => {
+      consider({ source: 'existing', matchId: id, ...compare(row, prepared) });
+    });
+    for (let earlier = 0; earlier < index; earlier++) {
+      consider({ source: 'batch', matchIndex: earlier, ...compare(row, preparedIncoming[earlier]) });
+    }
+
+    if (best) matches.push(best);
+  });
+
+  return matches;
+}
+
+// One line per flagged row, as stored on the upload batch
+export function describeDuplicate(match: DuplicateMatch): string {
+  const strength = match.exact ? 'exact match' : `${Math.round(match.similarity * 100)}% similar`;
+  const target = match.source === 'existing'
+    ? `existing question ${match.matchId}`
+    : `question ${(match.matchIndex ?? 0) + 1} of this upload`;
+  return `Question ${match.index + 1} duplicates ${target} (${strength})`;
+}
+
+/**
+ * Turns review decisions into an import plan. Rows without a match are
+ * inserted; undecided matches are skipped. A row merged into an earlier row
+ * follows that row: into the existing question it was merged into, or, if
+ * that row was skipped, it is inserted in its place so its content survives.
+ */
+export function planImport(
+  rowCount: number,
+  matches: DuplicateMatch[],
+  decisions: Record<number, DuplicateResolution>
+): ImportPlan {
+  const matchByIndex = new Map(matches.map(match => [match.index, match]));
+  const plan: ImportPlan = { insert: [], skip: [], mergeIntoExisting: [], mergeIntoBatch: [] };
+  const fate = new Map<number, { kind: 'insert' } | { kind: 'skip' } | { kind: 'existing'; existingId: string } | { kind: 'batch'; targetIndex: number }>();
+
+  for (let index = 0; index < rowCount; index++) {
+    const match = matchByIndex.get(index);
+    const decision = match ? decisions[index] || 'skip' : 'keep-both';
+
+    if (decision === 'keep-both') {
+      fate.set(index, { kind: 'insert' });
+    } else if (decision === 'skip') {
+      fate.set(index, { kind: 'skip' });
+    } else if (match!.source === 'existing') {
+      fate.set(index, { kind: 'existing', existingId: match!.matchId! });
+    } else {
+      // Earlier rows are already resolved, so follow the target to where it ends up
+      const target = fate.get(match!.matchIndex!)!;
+      if (target.kind === 'insert') {
+        fate.set(index, { kind: 'batch', targetIndex: match!.matchIndex! });
+      } else if (target.kind === 'skip') {
+        fate.set(index, { kind: 'insert' });
+      } else {
+        fate.set(index, target);
+      }
+    }
+  }
+
+  fate.forEach((destination, index) => {
+    if (destination.kind === 'insert') plan.insert.push(index);
+    else if (destination.kind === 'skip') plan.skip.push(index);
+    else if (destination.kind === 'existing') plan.mergeIntoExisting.push({ index, existingId: destination.existingId });
+    else plan.mergeIntoBatch.push({ index, targetIndex: destination.targetIndex });
+  });
+
+  return plan;
+}
+
+// Tag-like lists where both copies' entries belong on the merged question (never answers)
+const UNION_LIST_FIELDS = new Set([
+  'subject',
+  'subtopics',
+  'syllabusTopic',
+  'references',
+  'imageUrls',
+  'aiTags',
+  'conceptGraph',
+  'prerequisiteTopics',
+  'currentAffairsTopics'
+]);
+
+function isBlank(value: unknown): boolean {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object') return Object.keys(value as object).length === 0;
+  return false;
+}
+
+/**
+ * Fields to copy from a duplicate into the question it is merged into: blanks
+ * are filled (e.g. a Hindi translation or an explanation the original lacked)
+ * and tag lists such as subtopics are unioned. Nothing else already set is
+ * overwritten, so answers and stems stay as reviewed.
+ */
+export function mergeQuestionFields(
+  target: Record<string, unknown>,
+  duplicate: Record<string, unknown>
+): Record<string, unknown> {
+  const updates: Record<string, unknown> = {};
+
+  Object.entries(duplicate).forEach(([field, value]) => {
+    if (isBlank(value)) return;
+    const current = target[field];
+
+    if (isBlank(current)) {
+      updates[field] = value;
+    } else if (UNION_LIST_FIELDS.has(field) && Array.isArray(current) && Array.isArray(value)) {
+      const union = Array.from(new Set([...current, ...value]));
+      if (union.length > current.length) updates[field] = union;
+    }
+  });
+
+  return updates;
+}
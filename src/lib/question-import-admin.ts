@@ -0,0 +1,267 @@
+// Server-side duplicate review for bulk question imports (Admin SDK): flagged uploads are staged until an admin resolves them
+
+import { FieldValue, type Firestore } from 'firebase-admin/firestore';
+import { AuditActor, buildAuditEntry } from './audit-log';
+import { writeAuditLogAdmin } from './audit-log-admin';
+import { QUESTION_COLLECTIONS, QuestionExamType, updateQuestionAdmin } from './question-bank-admin';
+import { applyQuestionWriteToSearchIndex } from './question-search-admin';
+import {
+  DedupQuestion,
+  DuplicateMatch,
+  DuplicateResolution,
+  findDuplicates,
+  getDedupFields,
+  mergeQuestionFields,
+  planImport
+} from './question-dedup';
+
+export const UPLOAD_BATCH_COLLECTION = 'upload_batches';
+export const STAGED_QUESTIONS_COLLECTION = 'staged_questions'; // subcollection of an upload batch
+
+// Firestore caps array-contains-any and in at 30 values
+const QUERY_CHUNK_SIZE = 30;
+const WRITE_BATCH_SIZE = 500;
+
+type UploadedQuestion = Partial<DedupQuestion> & { year?: unknown };
+
+export interface StagedRow {
+  index: number;
+  question: Record<string, unknown>;
+  match?: DuplicateMatch;
+}
+
+export interface StagedImport {
+  batch: Record<string, unknown>;
+  rows: StagedRow[];
+  matchedQuestions: Record<string, Record<string, unknown>>; // existing questions the rows were matched against
+}
+
+export interface ImportCommitResult {
+  inserted: string[];
+  merged: string[]; // existing questions that received merged fields
+  skipped: number;
+  failed: number;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+function toDedupQuestion(question: UploadedQuestion): DedupQuestion {
+  return { question: question.question || '', options: question.options };
+}
+
+/**
+ * Existing questions worth comparing against: those sharing an LSH band with
+ * an upload row, plus every question from the years in the upload, which
+ * catches questions imported before dedup keys were stored.
+ */
+async function loadCandidatesAdmin(
+  db: Firestore,
+  examType: QuestionExamType,
+  questions: UploadedQuestion[]
+): Promise<(DedupQuestion & { id: string })[]> {
+  const collection = db.collection(QUESTION_COLLECTIONS[examType]);
+  const bands = Array.from(new Set(questions.flatMap(question => getDedupFields(toDedupQuestion(question)).dedupBands)));
+  const years = Array.from(new Set(questions.map(question => Number(question.year)).filter(year => Number.isInteger(year))));
+
+  const snapshots = await Promise.all([
+    ...chunk(bands, QUERY_CHUNK_SIZE).map(values =>
+      collection.where('dedupBands', 'array-contains-any', values).select('question', 'options', 'isActive').get()
+    ),
+    ...chunk(years, QUERY_CHUNK_SIZE).map(values =>
+      collection.where('year', 'in', values).select('question', 'options', 'isActive').get()
+    )
+  ]);
+
+  const candidates = new Map<string, DedupQuestion & { id: string }>();
+  snapshots.forEach(snapshot => {
+    snapshot.docs.forEach(doc => {
+      const data = doc.data();
+      if (data.isActive === false || candidates.has(doc.id)) return;
+      candidates.set(doc.id, { id: doc.id, question: data.question || '', options: data.options });
+    });
+  });
+  return Array.from(candidates.values());
+}
+
+export async function findDuplicatesAdmin(
+  db: Firestore,
+  examType: QuestionExamType,
+  questions: UploadedQuestion[]
+): Promise<DuplicateMatch[]> {
+  const candidates = await loadCandidatesAdmin(db, examType, questions);
+  return findDuplicates(questions.map(toDedupQuestion), candidates);
+}
+
+// Holds every parsed row of a flagged upload, so nothing is written to the question bank before review
+export async function stageImportAdmin(
+  db: Firestore,
+  batchId: string,
+  questions: object[],
+  matches: DuplicateMatch[]
+): Promise<void> {
+  const staged = db.collection(UPLOAD_BATCH_COLLECTION).doc(batchId).collection(STAGED_QUESTIONS_COLLECTION);
+  const matchByIndex = new Map(matches.map(match => [match.index, match]));
+
+  for (const rows of chunk(questions.map((question, index) => ({ question, index })), WRITE_BATCH_SIZE)) {
+    const batch = db.batch();
+    rows.forEach(({ question, index }) => {
+      const match = matchByIndex.get(index);
+      batch.set(staged.doc(String(index)), { index, question, ...(match && { match }) });
+    });
+    await batch.commit();
+  }
+}
+
+export async function getStagedImportAdmin(db: Firestore, batchId: string): Promise<StagedImport | null> {
+  const batchRef = db.collection(UPLOAD_BATCH_COLLECTION).doc(batchId);
+  const batchSnapshot = await batchRef.get();
+  if (!batchSnapshot.exists) return null;
+
+  const batch = batchSnapshot.data() as Record<string, unknown>;
+  const stagedSnapshot = await batchRef.collection(STAGED_QUESTIONS_COLLECTION).orderBy('index').get();
+  const rows = stagedSnapshot.docs.map(doc => doc.data() as StagedRow);
+
+  const matchedIds = Array.from(new Set(rows.map(row => row.match?.matchId).filter((id): id is string => !!id)));
+  const matchedQuestions: Record<string, Record<string, unknown>> = {};
+  if (matchedIds.length > 0) {
+    const collection = db.collection(QUESTION_COLLECTIONS[batch.examType as QuestionExamType]);
+    const snapshots = await db.getAll(...matchedIds.map(id => collection.doc(id)));
+    snapshots.forEach(snapshot => {
+      if (snapshot.exists) matchedQuestions[snapshot.id] = snapshot.data() as Record<string, unknown>;
+    });
+  }
+
+  return { batch, rows, matchedQuestions };
+}
+
+/**
+ * Applies the review decisions: unflagged and keep-both rows are inserted,
+ * merges fill gaps in the matched question (audited as question updates) and
+ * skipped rows are dropped. Returns null unless the batch is awaiting review,
+ * so a batch cannot be committed twice.
+ */
+export async function commitStagedImportAdmin(
+  db: Firestore,
+  batchId: string,
+  decisions: Record<number, DuplicateResolution>,
+  actor: AuditActor
+): Promise<ImportCommitResult | null> {
+  const batchRef = db.collection(UPLOAD_BATCH_COLLECTION).doc(batchId);
+
+  // Claim the batch before writing anything
+  const batch = await db.runTransaction(async transaction => {
+    const snapshot = await transaction.get(batchRef);
+    if (!snapshot.exists || snapshot.data()?.status !== 'Pending Review') return null;
+    transaction.update(batchRef, { status: 'Processing' });
+    return snapshot.data() as Record<string, unknown>;
+  });
+  if (!batch) return null;
+
+  const examType = batch.examType as QuestionExamType;
+  const stagedSnapshot = await batchRef.collection(STAGED_QUESTIONS_COLLECTION).orderBy('index').get();
+  const rows = stagedSnapshot.docs.map(doc => doc.data() as StagedRow);
+  const questions = rows.map(row => ({ ...row.question }));
+  const plan = planImport(
+    rows.length,
+    rows.flatMap(row => (row.match ? [row.match] : [])),
+    decisions
+  );
+
+  // Fold rows merged into another row of the upload before that row is inserted
+  plan.mergeIntoBatch.forEach(({ index, targetIndex }) => {
+    Object.assign(questions[targetIndex], mergeQuestionFields(questions[targetIndex], questions[index]));
+  });
+
+  const result: ImportCommitResult = { inserted: [], merged: [], skipped: plan.skip.length, failed: 0 };
+  const collection = db.collection(QUESTION_COLLECTIONS[examType]);
+
+  for (const indexes of chunk(plan.insert, WRITE_BATCH_SIZE)) {
+    const writeBatch = db.batch();
+    const written: Record<string, unknown>[] = [];
+    const now = new Date();
+    indexes.forEach(index => {
+      const ref = collection.doc();
+      const question = {
+        ...questions[index],
+        ...getDedupFields(toDedupQuestion(questions[index] as UploadedQuestion)),
+        id: ref.id,
+        createdAt: now,
+        updatedAt: now,
+        createdBy: batch.uploadedBy,
+        version: 1
+      };
+      writeBatch.set(ref, question);
+      written.push(question);
+    });
+
+    try {
+      await writeBatch.commit();
+      written.forEach(question => {
+        result.inserted.push(question.id as string);
+        applyQuestionWriteToSearchIndex(examType, question.id as string, question);
+      });
+    } catch (error) {
+      console.error('Error inserting reviewed questions:', error);
+      result.failed += indexes.length;
+    }
+  }
+
+  for (const { index, existingId } of plan.mergeIntoExisting) {
+    try {
+      const snapshot = await collection.doc(existingId).get();
+      if (!snapshot.exists) {
+        result.failed++;
+        continue;
+      }
+      const updates = mergeQuestionFields(snapshot.data() as Record<string, unknown>, questions[index]);
+      if (Object.keys(updates).length > 0) {
+        const updated = await updateQuestionAdmin(db, examType, existingId, updates, actor);
+        if (updated) applyQuestionWriteToSearchIndex(examType, existingId, updated);
+      }
+      if (!result.merged.includes(existingId)) result.merged.push(existingId);
+    } catch (error) {
+      console.error(`Error merging into question ${existingId}:`, error);
+      result.failed++;
+    }
+  }
+
+  const summary = `${result.inserted.length} inserted, ${result.merged.length} merged, ${result.skipped} skipped, ${result.failed} failed`;
+  await batchRef.update({
+    status: result.failed === 0 ? 'Completed' : result.inserted.length > 0 || result.merged.length > 0 ? 'Partial' : 'Failed',
+    stats: {
+      totalRecords: rows.length,
+      processedRecords: rows.length,
+      successfulRecords: rows.length - result.failed,
+      failedRecords: result.failed
+    },
+    processingLog: FieldValue.arrayUnion({
+      timestamp: new Date(),
+      action: 'Review Committed',
+      details: summary
+    })
+  });
+
+  for (const docs of chunk(stagedSnapshot.docs, WRITE_BATCH_SIZE)) {
+    const deleteBatch = db.batch();
+    docs.forEach(doc => deleteBatch.delete(doc.ref));
+    await deleteBatch.commit();
+  }
+
+  await writeAuditLogAdmin(db, buildAuditEntry(actor, 'bulk-import', 'question-upload', batchId, [], {
+    stage: 'review-commit',
+    fileName: batch.fileName,
+    examType,
+    inserted: result.inserted.length,
+    merged: result.merged,
+    skipped: result.skipped,
+    failed: result.failed
+  }));
+
+  return result;
+}
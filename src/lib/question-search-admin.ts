@@ -0,0 +1,105 @@
+// Server-side question search (Admin SDK): builds the in-memory index from Firestore and keeps it in step with writes
+
+import type { Firestore, QueryDocumentSnapshot } from 'firebase-admin/firestore';
+import { QUESTION_COLLECTIONS, QuestionExamType } from './question-bank-admin';
+import { QuestionSearchIndex, toSearchDocument } from './question-search';
+
+// Other instances' writes are picked up by polling `updatedAt` at most this often
+const SYNC_INTERVAL_MS = 5 * 1000;
+
+// A periodic full rebuild drops questions that were hard-deleted rather than deactivated
+const REBUILD_INTERVAL_MS = 30 * 60 * 1000;
+
+interface CachedIndex {
+  index: QuestionSearchIndex;
+  builtAt: number;
+  checkedAt: number;
+  syncedThrough: Date | null; // latest `updatedAt` applied
+}
+
+const cache = new Map<QuestionExamType, CachedIndex>();
+const pendingBuilds = new Map<QuestionExamType, Promise<CachedIndex>>();
+
+function toDate(value: unknown): Date | null {
+  if (value instanceof Date) return value;
+  if (value && typeof (value as { toDate?: unknown }).toDate === 'function') {
+    return (value as { toDate: () => Date }).toDate();
+  }
+  return null;
+}
+
+function latest(current: Date | null, value: unknown): Date | null {
+  const date = toDate(value);
+  if (!date) return current;
+  return !current || date > current ? date : current;
+}
+
+function applySnapshot(cached: CachedIndex, snapshot: QueryDocumentSnapshot): void {
+  const data = snapshot.data();
+  if (data.isActive === false) {
+    cached.index.remove(snapshot.id);
+  } else {
+    cached.index.upsert(toSearchDocument(snapshot.id, data));
+  }
+  cached.syncedThrough = latest(cached.syncedThrough, data.updatedAt);
+}
+
+async function buildIndexAdmin(db: Firestore, examType: QuestionExamType): Promise<CachedIndex> {
+  const snapshot = await db.collection(QUESTION_COLLECTIONS[examType]).where('isActive', '==', true).get();
+  const now = Date.now();
+  const cached: CachedIndex = { index: new QuestionSearchIndex(), builtAt: now, checkedAt: now, syncedThrough: null };
+  snapshot.docs.forEach(doc => applySnapshot(cached, doc));
+  return cached;
+}
+
+async function syncIndexAdmin(db: Firestore, examType: QuestionExamType, cached: CachedIndex): Promise<void> {
+  cached.checkedAt = Date.now();
+  if (!cached.syncedThrough) return;
+
+  // Inclusive, since two writes can share a timestamp; re-applying a question is harmless
+  const snapshot = await db.collection(QUESTION_COLLECTIONS[examType])
+    .where('updatedAt', '>=', cached.syncedThrough)
+    .get();
+  snapshot.docs.forEach(doc => applySnapshot(cached, doc));
+}
+
+/**
+ * The search index for an exam type, built on first use and then refreshed
+ * incrementally. Concurrent first requests share one build.
+ */
+export async function getQuestionSearchIndexAdmin(db: Firestore, examType: QuestionExamType): Promise<QuestionSearchIndex> {
+  const cached = cache.get(examType);
+  const now = Date.now();
+
+  if (!cached || now - cached.builtAt > REBUILD_INTERVAL_MS) {
+    let build = pendingBuilds.get(examType);
+    if (!build) {
+      build = buildIndexAdmin(db, examType).finally(() => pendingBuilds.delete(examType));
+      pendingBuilds.set(examType, build);
+    }
+    const built = await build;
+    cache.set(examType, built);
+    return built.index;
+  }
+
+  if (now - cached.checkedAt > SYNC_INTERVAL_MS) {
+    await syncIndexAdmin(db, examType, cached);
+  }
+  return cached.index;
+}
+
+// Applies a write made by this instance straight away; pass null when the question was deactivated or deleted
+export function applyQuestionWriteToSearchIndex(
+  examType: QuestionExamType,
+  questionId: string,
+  data: Record<string, unknown> | null
+): void {
+  const cached = cache.get(examType);
+  if (!cached) return;
+
+  if (!data || data.isActive === false) {
+    cached.index.remove(questionId);
+  } else {
+    cached.index.upsert(toSearchDocument(questionId, data));
+  }
+}
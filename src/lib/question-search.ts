@@ -0,0 +1,440 @@
+// Full-text and faceted search over the question bank: an in-memory inverted index built from question documents
+
+export const SEARCH_FACETS = ['year', 'paper', 'subject', 'difficultyLevel', 'questionType'] as const;
+
+export const SEARCH_SORTS = ['relevance', 'year', 'difficulty', 'successRate', 'attemptCount'] as const;
+
+export type SearchFacet = typeof SEARCH_FACETS[number];
+
+export type SearchSort = typeof SEARCH_SORTS[number];
+
+export type FacetCounts = Record<SearchFacet, Record<string, number>>;
+
+// The searchable and filterable parts of a question
+export interface SearchDocument {
+  id: string;
+  question: string;
+  options: string[];
+  explanation: string;
+  tags: string[]; // subjects, subtopics, syllabus topics and AI tags
+  year: number | null;
+  paper: string | null;
+  subject: string[];
+  subtopics: string[];
+  difficultyLevel: string | null;
+  questionType: string | null;
+  verified: boolean;
+  successRate: number;
+  attemptCount: number;
+}
+
+export interface SearchFilters {
+  years?: number[];
+  papers?: string[];
+  subjects?: string[];
+  subtopics?: string[];
+  difficultyLevel?: string[];
+  questionType?: string[];
+  verified?: boolean;
+}
+
+export interface SearchRequest extends SearchFilters {
+  query?: string;
+  sortBy?: SearchSort; // defaults to relevance with a query, newest year first without
+  sortOrder?: 'asc' | 'desc';
+  limit?: number;
+  cursor?: string;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+}
+
+export interface SearchResponse {
+  hits: SearchHit[];
+  total: number;
+  facets: FacetCounts;
+  nextCursor: string | null;
+}
+
+export interface ParsedQuery {
+  terms: string[];
+  prefixes: string[]; // from `term*`
+  phrases: string[][];
+  excluded: string[]; // from `-term`
+}
+
+// Matches in the stem count most, then tags, then options, then the explanation
+const FIELD_WEIGHTS = {
+  question: 3,
+  tags: 2,
+  options: 1.5,
+  explanation: 1
+};
+
+// Keeps phrases from matching across the end of one field and the start of the next
+const FIELD_POSITION_GAP = 50;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+// Only ignored as bare keywords; phrases still match them
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is', 'it',
+  'of', 'on', 'or', 'the', 'to', 'which', 'with'
+]);
+
+const DIFFICULTY_RANK: Record<string, number> = { Easy: 1, Medium: 2, Hard: 3 };
+
+// Which filter narrows which facet; facet counts ignore their own filter so other values stay selectable
+const FACET_FILTERS: Record<SearchFacet, keyof SearchFilters> = {
+  year: 'years',
+  paper: 'papers',
+  subject: 'subjects',
+  difficultyLevel: 'difficultyLevel',
+  questionType: 'questionType'
+};
+
+interface Posting {
+  weight: number; // field-weighted term frequency
+  positions: number[];
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(/[^\p{L}\p{M}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * Keywords must all match; "quoted phrases" must appear in order, `term*`
+ * matches any word starting with term and `-term` excludes questions
+ * containing it.
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], prefixes: [], phrases: [], excluded: [] };
+  const phrasePattern = /"([^"]*)"/g;
+
+  for (const match of Array.from(query.matchAll(phrasePattern))) {
+    const words = tokenize(match[1]);
+    if (words.length === 1) parsed.terms.push(words[0]);
+    else if (words.length > 1) parsed.phrases.push(words);
+  }
+
+  query.replace(phrasePattern, ' ').split(/\s+/).filter(Boolean).forEach(word => {
+    const excluded = word.startsWith('-');
+    const prefix = word.endsWith('*');
+    const tokens = tokenize(word);
+
+    if (excluded) {
+      parsed.excluded.push(...tokens);
+    } else if (prefix && tokens.length === 1) {
+      parsed.prefixes.push(tokens[0]);
+    } else {
+      parsed.terms.push(...tokens.filter(token => !STOPWORDS.has(token)));
+    }
+  });
+
+  return parsed;
+}
+
+function toStringArray(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string');
+  if (typeof value === 'string' && value) return [value];
+  return [];
+}
+
+function toStringOrNull(value: unknown): string | null {
+  return typeof value === 'string' && value ? value : null;
+}
+
+function toNumber(value: unknown, fallback: number): number {
+  const number = Number(value);
+  return Number.isFinite(number) ? number : fallback;
+}
+
+// Mains questions have no options or explanation, so their sub-parts and key points are searched instead
+export function toSearchDocument(id: string, data: Record<string, unknown>): SearchDocument {
+  const subParts = Array.isArray(data.subParts) ? data.subParts as Array<{ question?: unknown }> : [];
+  const options = data.options && typeof data.options === 'object'
+    ? Object.values(data.options as Record<string, unknown>)
+    : [];
+
+  return {
+    id,
+    question: [data.question, ...subParts.map(part => part.question)]
+      .filter((text): text is string => typeof text === 'string')
+      .join(' '),
+    options: toStringArray(options),
+    explanation: [
+      typeof data.explanation === 'string' ? data.explanation : '',
+      ...toStringArray(data.keyPoints)
+    ].join(' ').trim(),
+    tags: [
+      ...toStringArray(data.subject),
+      ...toStringArray(data.subtopics),
+      ...toStringArray(data.syllabusTopic),
+      ...toStringArray(data.aiTags)
+    ],
+    year: data.year === undefined || data.year === null ? null : toNumber(data.year, 0) || null,
+    paper: toStringOrNull(data.paper),
+    subject: toStringArray(data.subject),
+    subtopics: toStringArray(data.subtopics),
+    difficultyLevel: toStringOrNull(data.difficultyLevel),
+    questionType: toStringOrNull(data.questionType),
+    verified: data.verified === true,
+    successRate: toNumber(data.successRate, 0),
+    attemptCount: toNumber(data.attemptCount, 0)
+  };
+}
+
+function getFacetValues(document: SearchDocument, facet: SearchFacet): string[] {
+  const value = document[facet];
+  if (Array.isArray(value)) return value;
+  return value === null ? [] : [String(value)];
+}
+
+function matchesFilter(document: SearchDocument, filters: SearchFilters, facet: SearchFacet): boolean {
+  const selected = filters[FACET_FILTERS[facet]] as (string | number)[] | undefined;
+  if (!selected || selected.length === 0) return true;
+  const values = getFacetValues(document, facet);
+  return selected.some(value => values.includes(String(value)));
+}
+
+function matchesFilters(document: SearchDocument, filters: SearchFilters, ignoreFacet?: SearchFacet): boolean {
+  if (filters.verified !== undefined && document.verified !== filters.verified) return false;
+  if (filters.subtopics && filters.subtopics.length > 0 &&
+      !filters.subtopics.some(subtopic => document.subtopics.includes(subtopic))) {
+    return false;
+  }
+  return SEARCH_FACETS.every(facet => facet === ignoreFacet || matchesFilter(document, filters, facet));
+}
+
+function encodeCursor(value: number, id: string): string {
+  return Buffer.from(JSON.stringify([value, id])).toString('base64url');
+}
+
+function decodeCursor(cursor: string): [number, string] | null {
+  try {
+    const decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString());
+    if (Array.isArray(decoded) && typeof decoded[0] === 'number' && typeof decoded[1] === 'string') {
+      return [decoded[0], decoded[1]];
+    }
+  } catch {
+    // Fall through to an invalid cursor
+  }
+  return null;
+}
+
+export class InvalidCursorError extends Error {
+  constructor() {
+    super('Invalid search cursor');
+    this.name = 'InvalidCursorError';
+  }
+}
+
+/**
+ * Questions of one exam type, indexed per word with positions for phrase
+ * matching. Updates are incremental, so the index can follow writes without
+ * a rebuild.
+ */
+export class QuestionSearchIndex {
+  private documents = new Map<string, SearchDocument>();
+  private postings = new Map<string, Map<string, Posting>>();
+  private documentTokens = new Map<string, Set<string>>();
+  private lengths = new Map<string, number>();
+  private totalLength = 0;
+
+  constructor(documents: SearchDocument[] = []) {
+    documents.forEach(document => this.upsert(document));
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  get termCount(): number {
+    return this.postings.size;
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id);
+  }
+
+  upsert(document: SearchDocument): void {
+    this.remove(document.id);
+    this.documents.set(document.id, document);
+
+    const fields: [string[], number][] = [
+      [[document.question], FIELD_WEIGHTS.question],
+      [document.tags, FIELD_WEIGHTS.tags],
+      [document.options, FIELD_WEIGHTS.options],
+      [[document.explanation], FIELD_WEIGHTS.explanation]
+    ];
+
+    const tokens = new Set<string>();
+    let position = 0;
+    let length = 0;
+    fields.forEach(([texts, weight]) => {
+      texts.forEach(text => {
+        tokenize(text).forEach(token => {
+          let documentPostings = this.postings.get(token);
+          if (!documentPostings) {
+            documentPostings = new Map();
+            this.postings.set(token, documentPostings);
+          }
+          const posting = documentPostings.get(document.id) || { weight: 0, positions: [] };
+          posting.weight += weight;
+          posting.positions.push(position++);
+          documentPostings.set(document.id, posting);
+          tokens.add(token);
+          length++;
+        });
+        position += FIELD_POSITION_GAP;
+      });
+    });
+
+    this.documentTokens.set(document.id, tokens);
+    this.lengths.set(document.id, length);
+    this.totalLength += length;
+  }
+
+  remove(id: string): void {
+    if (!this.documents.has(id)) return;
+
+    this.documentTokens.get(id)?.forEach(token => {
+      const documentPostings = this.postings.get(token);
+      documentPostings?.delete(id);
+      if (documentPostings?.size === 0) this.postings.delete(token);
+    });
+    this.documentTokens.delete(id);
+    this.totalLength -= this.lengths.get(id) || 0;
+    this.lengths.delete(id);
+    this.documents.delete(id);
+  }
+
+  private idf(token: string): number {
+    const documentFrequency = this.postings.get(token)?.size || 0;
+    return Math.log(1 + (this.documents.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  private scoreTerm(token: string, id: string): number {
+    const posting = this.postings.get(token)?.get(id);
+    if (!posting) return 0;
+    const averageLength = this.totalLength / Math.max(this.documents.size, 1);
+    const lengthNorm = 1 - BM25_B + BM25_B * ((this.lengths.get(id) || 0) / Math.max(averageLength, 1));
+    return this.idf(token) * (posting.weight * (BM25_K1 + 1)) / (posting.weight + BM25_K1 * lengthNorm);
+  }
+
+  private prefixTokens(prefix: string): string[] {
+    return Array.from(this.postings.keys()).filter(token => token.startsWith(prefix));
+  }
+
+  private containsPhrase(id: string, phrase: string[]): boolean {
+    const first = this.postings.get(phrase[0])?.get(id);
+    if (!first) return false;
+    return first.positions.some(start =>
+      phrase.every((token, offset) => this.postings.get(token)?.get(id)?.positions.includes(start + offset))
+    );
+  }
+
+  // Documents matching the text part of the query, with their relevance scores
+  private matchQuery(parsed: ParsedQuery): Map<string, number> {
+    const required: Set<string>[] = [];
+    parsed.terms.forEach(term => required.push(new Set(this.postings.get(term)?.keys() || [])));
+    parsed.phrases.forEach(phrase => phrase.forEach(term => required.push(new Set(this.postings.get(term)?.keys() || []))));
+    parsed.prefixes.forEach(prefix => {
+      const ids = new Set<string>();
+      this.prefixTokens(prefix).forEach(token => this.postings.get(token)?.forEach((_, id) => ids.add(id)));
+      required.push(ids);
+    });
+
+    let candidates: string[];
+    if (required.length === 0) {
+      candidates = Array.from(this.documents.keys());
+    } else {
+      required.sort((a, b) => a.size - b.size);
+      candidates = Array.from(required[0]).filter(id => required.every(ids => ids.has(id)));
+    }
+
+    const excluded = new Set(parsed.excluded.flatMap(term => Array.from(this.postings.get(term)?.keys() || [])));
+    const scores = new Map<string, number>();
+
+    candidates
+      .filter(id => !excluded.has(id) && parsed.phrases.every(phrase => this.containsPhrase(id, phrase)))
+      .forEach(id => {
+        const terms = [...parsed.terms, ...parsed.phrases.flat()];
+        let score = terms.reduce((total, term) => total + this.scoreTerm(term, id), 0);
+        parsed.prefixes.forEach(prefix => {
+          score += Math.max(0, ...this.prefixTokens(prefix).map(token => this.scoreTerm(token, id)));
+        });
+        // Rounded so a cursor taken from one response compares equal in the next
+        scores.set(id, Math.round(score * 1e6) / 1e6);
+      });
+
+    return scores;
+  }
+
+  search(request: SearchRequest): SearchResponse {
+    const parsed = parseSearchQuery(request.query || '');
+    const hasText = parsed.terms.length + parsed.prefixes.length + parsed.phrases.length > 0;
+    const scores = this.matchQuery(parsed);
+    const matched = Array.from(scores.keys()).map(id => this.documents.get(id)!);
+
+    const facets = Object.fromEntries(SEARCH_FACETS.map(facet => [facet, {}])) as FacetCounts;
+    matched.forEach(document => {
+      SEARCH_FACETS.forEach(facet => {
+        if (!matchesFilters(document, request, facet)) return;
+        getFacetValues(document, facet).forEach(value => {
+          facets[facet][value] = (facets[facet][value] || 0) + 1;
+        });
+      });
+    });
+
+    const results = matched.filter(document => matchesFilters(document, request));
+
+    const sortBy = request.sortBy || (hasText ? 'relevance' : 'year');
+    const direction = sortBy === 'relevance' || request.sortOrder !== 'asc' ? -1 : 1;
+    const sortValue = (document: SearchDocument): number => {
+      switch (sortBy) {
+        case 'relevance': return scores.get(document.id) || 0;
+        case 'year': return document.year ?? 0;
+        case 'difficulty': return DIFFICULTY_RANK[document.difficultyLevel || ''] || 0;
+        case 'successRate': return document.successRate;
+        case 'attemptCount': return document.attemptCount;
+      }
+    };
+    // Ties break on ID, so every result has a unique position a cursor can point to
+    const compareKeys = (a: [number, string], b: [number, string]): number =>
+      a[0] !== b[0] ? (a[0] - b[0]) * direction : a[1] < b[1] ? -1 : a[1] > b[1] ? 1 : 0;
+
+    const keyed = results
+      .map(document => [sortValue(document), document.id] as [number, string])
+      .sort(compareKeys);
+
+    let start = 0;
+    if (request.cursor) {
+      const after = decodeCursor(request.cursor);
+      if (!after) throw new InvalidCursorError();
+      start = keyed.findIndex(key => compareKeys(key, after) > 0);
+      if (start === -1) start = keyed.length;
+    }
+
+    const limit = Math.min(Math.max(request.limit || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+    const page = keyed.slice(start, start + limit);
+    const last = page[page.length - 1];
+
+    return {
+      hits: page.map(([, id]) => ({ id, score: scores.get(id) || 0 })),
+      total: results.length,
+      facets,
+      nextCursor: last && start + limit < keyed.length ? encodeCursor(last[0], last[1]) : null
+    };
+  }
+}
@@ -0,0 +1,222 @@
+// Review workflow and revision history for question bank content: draft → in-review → verified → retired
+
+import type { AdminPermission, AdminRole } from './admin-roles';
+import { hasPermission } from './admin-roles';
+import type { AuditFieldChange } from './audit-log';
+
+export const QUESTION_STATUSES = ['draft', 'in-review', 'verified', 'retired'] as const;
+
+export const WORKFLOW_ACTIONS = ['submit', 'approve', 'request-changes', 'retire', 'restore'] as const;
+
+export type QuestionStatus = typeof QUESTION_STATUSES[number];
+
+export type WorkflowAction = typeof WORKFLOW_ACTIONS[number];
+
+interface WorkflowTransition {
+  from: QuestionStatus[];
+  to: QuestionStatus;
+  permission: AdminPermission;
+  requiresComment?: boolean;
+}
+
+const TRANSITIONS: Record<WorkflowAction, WorkflowTransition> = {
+  submit: { from: ['draft'], to: 'in-review', permission: 'questions:update' },
+  approve: { from: ['in-review'], to: 'verified', permission: 'questions:review' },
+  'request-changes': { from: ['in-review'], to: 'draft', permission: 'questions:review', requiresComment: true },
+  retire: { from: ['draft', 'in-review', 'verified'], to: 'retired', permission: 'questions:deactivate' },
+  restore: { from: ['retired'], to: 'draft', permission: 'questions:update' }
+};
+
+export const STATUS_LABELS: Record<QuestionStatus, string> = {
+  draft: 'Draft',
+  'in-review': 'In review',
+  verified: 'Verified',
+  retired: 'Retired'
+};
+
+// Workflow state and bookkeeping; everything else on a question is content and is versioned
+const NON_CONTENT_FIELDS = new Set([
+  'id',
+  'createdAt',
+  'updatedAt',
+  'createdBy',
+  'version',
+  'pendingVersion',
+  'pendingEditors',
+  'status',
+  'verified',
+  'isActive',
+  'reviewerId',
+  'reviewerEmail',
+  'lastEditedBy',
+  'statusUpdatedAt',
+  'attemptCount',
+  'correctAttempts',
+  'averageTime',
+  'successRate',
+  'averageScore',
+  'scoreDistribution',
+  'dedupFingerprint',
+  'dedupBands'
+]);
+
+export interface QuestionRevision {
+  version: number;
+  content: Record<string, unknown>;
+  changes: AuditFieldChange[]; // against the previous revision; empty for the first one recorded
+  editedBy: string;
+  editedByEmail?: string;
+  restoredFrom?: number; // set when the revision is a rollback
+  createdAt: Date;
+}
+
+export interface ReviewComment {
+  id: string;
+  authorId: string;
+  authorEmail?: string;
+  body: string;
+  version: number; // revision the comment was made on
+  action?: WorkflowAction; // when left as part of a transition
+  createdAt: Date;
+}
+
+export type WorkflowErrorCode =
+  | 'invalid-transition'
+  | 'forbidden'
+  | 'self-review'
+  | 'not-assigned-reviewer'
+  | 'comment-required'
+  | 'retired'
+  | 'unknown-version';
+
+export class QuestionWorkflowError extends Error {
+  constructor(public code: WorkflowErrorCode, message: string) {
+    super(message);
+    this.name = 'QuestionWorkflowError';
+  }
+}
+
+const ERROR_STATUS_CODES: Record<WorkflowErrorCode, number> = {
+  'invalid-transition': 409,
+  forbidden: 403,
+  'self-review': 403,
+  'not-assigned-reviewer': 403,
+  'comment-required': 400,
+  retired: 409,
+  'unknown-version': 404
+};
+
+// HTTP status for an API route to answer a rejected workflow request with
+export function getWorkflowErrorStatus(error: QuestionWorkflowError): number {
+  return ERROR_STATUS_CODES[error.code];
+}
+
+/**
+ * Questions created before the workflow have no status; derive one from the
+ * flags they do carry.
+ */
+export function getQuestionStatus(question: Record<string, unknown>): QuestionStatus {
+  if ((QUESTION_STATUSES as readonly unknown[]).includes(question.status)) {
+    return question.status as QuestionStatus;
+  }
+  if (question.isActive === false) return 'retired';
+  return question.verified === true ? 'verified' : 'draft';
+}
+
+/**
+ * The `verified` and `isActive` flags the rest of the app reads, kept in step
+ * with the status. While an edit awaits review users are still served the last
+ * approved content, so `verified` is left as it is.
+ */
+export function getStatusFields(
+  status: QuestionStatus,
+  hasPendingRevision = false
+): { status: QuestionStatus; verified?: boolean; isActive: boolean } {
+  return {
+    status,
+    ...(!hasPendingRevision && { verified: status === 'verified' }),
+    isActive: status !== 'retired'
+  };
+}
+
+// Revision waiting for review, if any; the question document still holds the served one
+export function getPendingVersion(question: Record<string, unknown>): number | undefined {
+  return typeof question.pendingVersion === 'number' ? question.pendingVersion : undefined;
+}
+
+// Everyone who edited the revision awaiting review; none of them may approve it
+export function getPendingEditors(question: Record<string, unknown>): string[] {
+  if (Array.isArray(question.pendingEditors)) return question.pendingEditors.map(String);
+  // Revisions left pending before editors were tracked only record the last one
+  return getPendingVersion(question) !== undefined && typeof question.lastEditedBy === 'string'
+    ? [question.lastEditedBy]
+    : [];
+}
+
+export function getRevisionContent(question: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(question).filter(([field]) => !NON_CONTENT_FIELDS.has(field)));
+}
+
+// An edit starts a new draft revision; users keep seeing the served content until it is approved
+export function getStatusAfterEdit(status: QuestionStatus): QuestionStatus {
+  if (status === 'retired') {
+    throw new QuestionWorkflowError('retired', 'Restore this question before editing it.');
+  }
+  return 'draft';
+}
+
+export interface TransitionContext {
+  actorId: string;
+  actorRoles: AdminRole[];
+  lastEditedBy?: string;
+  pendingEditors?: string[];
+  reviewerId?: string;
+  comment?: string;
+}
+
+/**
+ * Validates a workflow action and returns the status it leads to. Reviews
+ * follow the four-eyes rule: no one who edited the current revision can
+ * approve it, and an assigned reviewer's review is theirs (or an admin's).
+ */
+export function applyTransition(
+  status: QuestionStatus,
+  action: WorkflowAction,
+  context: TransitionContext
+): QuestionStatus {
+  const transition = TRANSITIONS[action];
+
+  if (!transition.from.includes(status)) {
+    throw new QuestionWorkflowError(
+      'invalid-transition',
+      `Cannot ${action.replace('-', ' ')} a question that is ${STATUS_LABELS[status].toLowerCase()}.`
+    );
+  }
+
+  if (!hasPermission(context.actorRoles, transition.permission)) {
+    throw new QuestionWorkflowError('forbidden', 'Your role does not allow this action.');
+  }
+
+  if (transition.requiresComment && !context.comment?.trim()) {
+    throw new QuestionWorkflowError('comment-required', 'Say what needs to change.');
+  }
+
+  if (transition.permission === 'questions:review') {
+    const editedRevision = context.lastEditedBy === context.actorId || !!context.pendingEditors?.includes(context.actorId);
+    if (action === 'approve' && editedRevision) {
+      throw new QuestionWorkflowError('self-review', 'You cannot approve your own edit. Ask another reviewer.');
+    }
+    if (context.reviewerId && context.reviewerId !== context.actorId && !context.actorRoles.includes('admin')) {
+      throw new QuestionWorkflowError('not-assigned-reviewer', 'This question is assigned to another reviewer.');
+    }
+  }
+
+  return transition.to;
+}
+
+// Actions the UI should offer for a question in this status to someone with these roles
+export function getAvailableActions(status: QuestionStatus, roles: AdminRole[]): WorkflowAction[] {
+  return WORKFLOW_ACTIONS.filter(action =>
+    TRANSITIONS[action].from.includes(status) && hasPermission(roles, TRANSITIONS[action].permission)
+  );
+}
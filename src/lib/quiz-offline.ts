@@ -0,0 +1,244 @@
+// Offline-first quiz sessions: outbox rules for queued requests and answer conflict resolution
+
+import { ScoreBreakdown, ScorableQuestion, getScoringScheme, scoreQuiz } from './quiz-scoring';
+
+export type OutboxKind = 'answer' | 'progress' | 'complete';
+
+export const OUTBOX_ENDPOINTS: Record<OutboxKind, string> = {
+  answer: '/api/daily-quiz/submit',
+  progress: '/api/daily-quiz/save-progress',
+  complete: '/api/daily-quiz/complete'
+};
+
+const MIN_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+export interface OutboxEntry {
+  id: string;
+  sessionId: string;
+  kind: OutboxKind;
+  // Request body; always carries clientTimestamp so the server can order replays
+  body: Record<string, unknown> & { clientTimestamp: number };
+  clientTimestamp: number;
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+export function createOutboxEntry(
+  sessionId: string,
+  kind: OutboxKind,
+  body: Record<string, unknown>,
+  now: number = Date.now()
+): OutboxEntry {
+  const questionIndex = kind === 'answer' ? `:${body.questionIndex}` : '';
+  return {
+    id: `${sessionId}:${kind}${questionIndex}:${now}`,
+    sessionId,
+    kind,
+    body: { ...body, clientTimestamp: now },
+    clientTimestamp: now,
+    attempts: 0,
+    nextAttemptAt: now
+  };
+}
+
+/**
+ * Drops entries a newer entry makes redundant: older answers to the same
+ * question, all but the latest progress save, and any progress save once the
+ * session has a queued completion (which carries the final answers).
+ * Returns the ids to delete from the outbox.
+ */
+export function findSupersededEntries(entries: OutboxEntry[]): string[] {
+  const latest = new Map<string, OutboxEntry>();
+  const completedSessions = new Set(entries.filter(entry => entry.kind === 'complete').map(entry => entry.sessionId));
+  const superseded: string[] = [];
+
+  entries.forEach(entry => {
+    if (entry.kind === 'progress' && completedSessions.has(entry.sessionId)) {
+      superseded.push(entry.id);
+      return;
+    }
+
+    const key = entry.kind === 'answer'
+      ? `${entry.sessionId}:answer:${entry.body.questionIndex}`
+      : `${entry.sessionId}:${entry.kind}`;
+    const current = latest.get(key);
+    if (!current) {
+      latest.set(key, entry);
+    } else if (entry.clientTimestamp >= current.clientTimestamp) {
+      superseded.push(current.id);
+      latest.set(key, entry);
+    } else {
+      superseded.push(entry.id);
+    }
+  });
+
+  return superseded;
+}
+
+// Replay in the order things happened, with each session's completion last
+export function getReplayOrder(entries: OutboxEntry[], now: number = Date.now()): OutboxEntry[] {
+  return entries
+    .filter(entry => entry.nextAttemptAt <= now)
+    .sort((a, b) => {
+      if (a.sessionId === b.sessionId && (a.kind === 'complete') !== (b.kind === 'complete')) {
+        return a.kind === 'complete' ? 1 : -1;
+      }
+      return a.clientTimestamp - b.clientTimestamp;
+    });
+}
+
+export function getRetryDelay(attempts: number): number {
+  return Math.min(MAX_RETRY_DELAY_MS, MIN_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)));
+}
+
+export type ReplayOutcome = 'synced' | 'retry' | 'rejected';
+
+/**
+ * How a replayed request went. A network failure (no status), a timeout,
+ * rate limiting or a server error is retried; any other 4xx means the server
+ * will never accept it (e.g. the session was completed on another device).
+ */
+export function classifyReplayResponse(status?: number): ReplayOutcome {
+  if (status === undefined || status === 408 || status === 429 || status >= 500) return 'retry';
+  return status >= 200 && status < 300 ? 'synced' : 'rejected';
+}
+
+// --- Conflict resolution against the server-side quizSessions document ---
+
+export interface TimestampedAnswers {
+  answers: (string | null)[];
+  // Client time (ms) each answer was chosen; 0 or missing when unknown
+  answerTimestamps?: number[];
+}
+
+/**
+ * Per-question last-writer-wins merge of two copies of a session's answers.
+ * An answer with no timestamp only fills a blank, so a stale full-array save
+ * cannot overwrite an answer given later on another device.
+ */
+export function mergeSessionAnswers(server: TimestampedAnswers, client: TimestampedAnswers): Required<TimestampedAnswers> {
+  const length = Math.max(server.answers.length, client.answers.length);
+  const answers: (string | null)[] = [];
+  const answerTimestamps: number[] = [];
+
+  for (let index = 0; index < length; index++) {
+    const serverAnswer = server.answers[index] ?? null;
+    const serverTime = server.answerTimestamps?.[index] || 0;
+    const clientAnswer = client.answers[index] ?? null;
+    const clientTime = client.answerTimestamps?.[index] || 0;
+
+    const useClient = clientAnswer !== null && (serverAnswer === null || (clientTime > 0 && clientTime >= serverTime));
+    answers.push(useClient ? clientAnswer : serverAnswer);
+    answerTimestamps.push(useClient ? clientTime : serverTime);
+  }
+
+  return { answers, answerTimestamps };
+}
+
+// --- Local fallbacks while offline ---
+
+export interface AnswerFeedback {
+  isCorrect: boolean;
+  explanation: string;
+  explanationHi?: string;
+}
+
+// Feedback for a submitted answer; the submit route and the offline session share the wording
+export function getAnswerFeedback(
+  question: { correctAnswer: string; explanation?: string; explanationHi?: string },
+  selectedAnswer: string
+): AnswerFeedback {
+  const isCorrect = selectedAnswer === question.correctAnswer;
+  let explanation = question.explanation || 'No explanation available.';
+  let explanationHi: string | undefined = question.explanationHi || undefined;
+
+  if (!isCorrect) {
+    explanation = `The correct answer is ${question.correctAnswer}. ${explanation}`;
+    if (explanationHi) {
+      explanationHi = `सही उत्तर ${question.correctAnswer} है। ${explanationHi}`;
+    }
+  }
+
+  return { isCorrect, explanation, explanationHi };
+}
+
+export interface ProvisionalQuizResults {
+  score: number;
+  accuracy: number;
+  totalQuestions: number;
+  correctAnswers: number;
+  timeTaken: number;
+  subjectWiseResults: { [subject: string]: { correct: number; total: number } };
+  recommendations: string[];
+  detailedResults: {
+    questionId: string;
+    isCorrect: boolean;
+    selectedAnswer: string;
+    correctAnswer: string;
+    explanation?: string;
+    timeSpent: number;
+  }[];
+  scoring: ScoreBreakdown;
+  // Scored on the device; the server result replaces it once the completion syncs
+  pendingSync: true;
+}
+
+/**
+ * Results for a practice session completed offline, scored the same way as
+ * the complete route. Mock exams hide answers from the client, so they have
+ * no provisional result and wait for the server instead.
+ */
+export function buildProvisionalResults(
+  session: {
+    questions: (ScorableQuestion & { explanation?: string })[];
+    answers: (string | null)[];
+    scoringScheme?: string;
+  },
+  questionTimes: number[],
+  timeTaken: number
+): ProvisionalQuizResults {
+  const subjectWiseResults: ProvisionalQuizResults['subjectWiseResults'] = {};
+  let correctAnswers = 0;
+
+  const detailedResults = session.questions.map((question, index) => {
+    const selectedAnswer = session.answers[index];
+    const isCorrect = selectedAnswer === question.correctAnswer;
+    const subject = question.subject || 'General Studies';
+    subjectWiseResults[subject] = subjectWiseResults[subject] || { correct: 0, total: 0 };
+    subjectWiseResults[subject].total++;
+    if (isCorrect) {
+      correctAnswers++;
+      subjectWiseResults[subject].correct++;
+    }
+
+    return {
+      questionId: question.id,
+      isCorrect,
+      selectedAnswer: selectedAnswer || 'Not answered',
+      correctAnswer: question.correctAnswer,
+      explanation: question.explanation || '',
+      timeSpent: Math.round(questionTimes[index] || 0)
+    };
+  });
+
+  const totalQuestions = session.questions.length;
+  const answered = session.answers.filter(answer => answer !== null).length;
+  const scoring = scoreQuiz(session.questions, session.answers, getScoringScheme(session.scoringScheme));
+
+  return {
+    score: totalQuestions > 0 ? Math.round((correctAnswers / totalQuestions) * 100) : 0,
+    accuracy: answered > 0 ? Math.round((correctAnswers / answered) * 100) : 0,
+    totalQuestions,
+    correctAnswers,
+    timeTaken,
+    subjectWiseResults,
+    recommendations: [
+      scoring.attemptAnalysis.recommendation,
+      'You completed this quiz offline. Your results will be saved to your history once you reconnect.'
+    ],
+    detailedResults,
+    scoring,
+    pendingSync: true
+  };
+}
@@ -0,0 +1,259 @@
+// UPSC-style scoring engine for quiz sessions and mock prelims
+
+export type ScoringSchemeId = 'practice' | 'upsc-prelims' | 'upsc-csat';
+
+export interface QuestionMarking {
+  marks: number; // awarded for a correct answer
+  penalty: number; // deducted for a wrong answer (positive number)
+}
+
+export interface ScoringScheme {
+  id: ScoringSchemeId;
+  name: string;
+  description: string;
+  // Fraction of a question's marks deducted for each wrong answer
+  negativeFraction: number;
+  // Resolves marks for an individual question, so mixed papers (GS + CSAT) score correctly
+  getMarking: (question: ScorableQuestion) => QuestionMarking;
+}
+
+// Minimal shape the engine needs; compatible with QuizQuestion in the session page
+export interface ScorableQuestion {
+  id: string;
+  correctAnswer: string;
+  subject?: string;
+  tags?: string[];
+  options?: unknown[];
+}
+
+export interface SubjectScore {
+  correct: number;
+  incorrect: number;
+  skipped: number;
+  total: number;
+  rawScore: number;
+  negativeMarks: number;
+  netScore: number;
+  maxScore: number;
+}
+
+export interface AttemptAnalysis {
+  // Accuracy at which attempting a question has zero expected value
+  breakEvenAccuracy: number;
+  // Expected marks per question for a blind guess with 0, 1 or 2 options eliminated
+  guessExpectedValue: { blind: number; oneEliminated: number; twoEliminated: number };
+  // Expected marks per attempt at the accuracy the user actually achieved
+  observedExpectedValue: number;
+  // Marks the skipped questions would have been worth at the observed accuracy
+  skippedOpportunity: number;
+  // Marks lost to negative marking
+  marksLostToPenalty: number;
+  recommendation: string;
+}
+
+export interface ScoreBreakdown {
+  schemeId: ScoringSchemeId;
+  schemeName: string;
+  maxScore: number;
+  rawScore: number;
+  negativeMarks: number;
+  netScore: number;
+  netPercentage: number;
+  correct: number;
+  incorrect: number;
+  skipped: number;
+  attempted: number;
+  subjectWise: { [subject: string]: SubjectScore };
+  attemptAnalysis: AttemptAnalysis;
+}
+
+const PRELIMS_NEGATIVE_FRACTION = 1 / 3;
+const GS_MARKS_PER_QUESTION = 2;
+const CSAT_MARKS_PER_QUESTION = 2.5;
+
+const roundMarks = (value: number): number => Math.round(value * 100) / 100;
+
+export function isCsatQuestion(question: ScorableQuestion): boolean {
+  const subject = question.subject?.toLowerCase() || '';
+  return subject === 'csat' || (question.tags || []).some(tag => tag.toLowerCase() === 'csat');
+}
+
+function withPenalty(marks: number, negativeFraction: number): QuestionMarking {
+  return { marks, penalty: marks * negativeFraction };
+}
+
+export const SCORING_SCHEMES: Record<ScoringSchemeId, ScoringScheme> = {
+  practice: {
+    id: 'practice',
+    name: 'Practice',
+    description: 'One mark per correct answer, no negative marking',
+    negativeFraction: 0,
+    getMarking: () => withPenalty(1, 0)
+  },
+  'upsc-prelims': {
+    id: 'upsc-prelims',
+    name: 'UPSC Prelims',
+    description: '2 marks per GS question (2.5 for CSAT), one-third deducted for each wrong answer',
+    negativeFraction: PRELIMS_NEGATIVE_FRACTION,
+    getMarking: (question) => withPenalty(
+      isCsatQuestion(question) ? CSAT_MARKS_PER_QUESTION : GS_MARKS_PER_QUESTION,
+      PRELIMS_NEGATIVE_FRACTION
+    )
+  },
+  'upsc-csat': {
+    id: 'upsc-csat',
+    name: 'UPSC CSAT (Paper II)',
+    description: '2.5 marks per question, one-third deducted for each wrong answer',
+    negativeFraction: PRELIMS_NEGATIVE_FRACTION,
+    getMarking: () => withPenalty(CSAT_MARKS_PER_QUESTION, PRELIMS_NEGATIVE_FRACTION)
+  }
+};
+
+// Scheme used by each quiz type in QUIZ_CONFIGS; anything unlisted is scored as practice
+export const QUIZ_TYPE_SCORING: Record<string, ScoringSchemeId> = {
+  'free-daily': 'practice',
+  'review-due': 'practice',
+  'ncert-foundation': 'practice',
+  'past-year': 'upsc-prelims',
+  'subject-wise': 'practice',
+  'current-affairs-basic': 'practice',
+  'current-affairs-advanced': 'upsc-prelims',
+  'mock-prelims': 'upsc-prelims',
+  'mock-prelims-csat': 'upsc-csat',
+  'adaptive': 'practice',
+  'topper-bank': 'upsc-prelims',
+  'final-revision': 'upsc-prelims'
+};
+
+export function getScoringScheme(schemeId?: string | null): ScoringScheme {
+  return SCORING_SCHEMES[schemeId as ScoringSchemeId] || SCORING_SCHEMES.practice;
+}
+
+export function getScoringSchemeForQuizType(quizType: string): ScoringScheme {
+  return getScoringScheme(QUIZ_TYPE_SCORING[quizType]);
+}
+
+// Expected marks for attempting a question answered correctly with the given probability
+export function expectedValue(probability: number, marking: QuestionMarking): number {
+  return probability * marking.marks - (1 - probability) * marking.penalty;
+}
+
+function analyseAttempts(
+  scheme: ScoringScheme,
+  correct: number,
+  attempted: number,
+  skippedMarkings: QuestionMarking[],
+  negativeMarks: number,
+  optionCount: number
+): AttemptAnalysis {
+  // Every question in a paper shares the same marks-to-penalty ratio, so break-even is scheme-wide
+  const breakEvenAccuracy = scheme.negativeFraction / (1 + scheme.negativeFraction);
+  const unitMarking = withPenalty(1, scheme.negativeFraction);
+  const observedAccuracy = attempted > 0 ? correct / attempted : 0;
+
+  const guessExpectedValue = {
+    blind: roundMarks(expectedValue(1 / optionCount, unitMarking)),
+    oneEliminated: roundMarks(expectedValue(1 / Math.max(1, optionCount - 1), unitMarking)),
+    twoEliminated: roundMarks(expectedValue(1 / Math.max(1, optionCount - 2), unitMarking))
+  };
+
+  const skippedOpportunity = skippedMarkings.reduce(
+    (sum, marking) => sum + expectedValue(observedAccuracy, marking),
+    0
+  );
+
+  let recommendation: string;
+  if (scheme.negativeFraction === 0) {
+    recommendation = 'There is no negative marking here, so attempt every question.';
+  } else if (attempted === 0) {
+    recommendation = 'Attempt questions where you can eliminate at least one option; a blind guess only breaks even.';
+  } else if (observedAccuracy <= breakEvenAccuracy) {
+    recommendation = `Your accuracy (${Math.round(observedAccuracy * 100)}%) is below the ${Math.round(breakEvenAccuracy * 100)}% break-even point. Attempt fewer questions and only where you can eliminate options.`;
+  } else if (skippedMarkings.length > 0 && skippedOpportunity > 0) {
+    recommendation = `At your accuracy each extra attempt is worth about ${roundMarks(expectedValue(observedAccuracy, unitMarking))} of a question's marks. Attempting the ${skippedMarkings.length} skipped questions could have added around ${roundMarks(skippedOpportunity)} marks.`;
+  } else {
+    recommendation = 'Your attempt strategy is paying off. Keep eliminating options before you commit to an answer.';
+  }
+
+  return {
+    breakEvenAccuracy: roundMarks(breakEvenAccuracy),
+    guessExpectedValue,
+    observedExpectedValue: roundMarks(attempted > 0 ? expectedValue(observedAccuracy, unitMarking) : 0),
+    skippedOpportunity: roundMarks(Math.max(0, skippedOpportunity)),
+    marksLostToPenalty: roundMarks(negativeMarks),
+    recommendation
+  };
+}
+
+export function scoreQuiz(
+  questions: ScorableQuestion[],
+  answers: (string | null | undefined)[],
+  scheme: ScoringScheme
+): ScoreBreakdown {
+  const subjectWise: { [subject: string]: SubjectScore } = {};
+  const skippedMarkings: QuestionMarking[] = [];
+  let maxScore = 0;
+  let rawScore = 0;
+  let negativeMarks = 0;
+  let correct = 0;
+  let incorrect = 0;
+
+  questions.forEach((question, index) => {
+    const marking = scheme.getMarking(question);
+    const answer = answers[index];
+    const subject = question.subject || 'General Studies';
+
+    if (!subjectWise[subject]) {
+      subjectWise[subject] = {
+        correct: 0, incorrect: 0, skipped: 0, total: 0,
+        rawScore: 0, negativeMarks: 0, netScore: 0, maxScore: 0
+      };
+    }
+    const subjectScore = subjectWise[subject];
+    subjectScore.total++;
+    subjectScore.maxScore += marking.marks;
+    maxScore += marking.marks;
+
+    if (answer === null || answer === undefined || answer === '') {
+      subjectScore.skipped++;
+      skippedMarkings.push(marking);
+    } else if (answer === question.correctAnswer) {
+      correct++;
+      rawScore += marking.marks;
+      subjectScore.correct++;
+      subjectScore.rawScore += marking.marks;
+    } else {
+      incorrect++;
+      negativeMarks += marking.penalty;
+      subjectScore.incorrect++;
+      subjectScore.negativeMarks += marking.penalty;
+    }
+  });
+
+  Object.values(subjectWise).forEach(subjectScore => {
+    subjectScore.rawScore = roundMarks(subjectScore.rawScore);
+    subjectScore.negativeMarks = roundMarks(subjectScore.negativeMarks);
+    subjectScore.netScore = roundMarks(subjectScore.rawScore - subjectScore.negativeMarks);
+    subjectScore.maxScore = roundMarks(subjectScore.maxScore);
+  });
+
+  const attempted = correct + incorrect;
+  const netScore = rawScore - negativeMarks;
+  const optionCount = questions.find(q => q.options?.length)?.options?.length || 4;
+
+  return {
+    schemeId: scheme.id,
+    schemeName: scheme.name,
+    maxScore: roundMarks(maxScore),
+    rawScore: roundMarks(rawScore),
+    negativeMarks: roundMarks(negativeMarks),
+    netScore: roundMarks(netScore),
+    netPercentage: maxScore > 0 ? Math.round((netScore / maxScore) * 100) : 0,
+    correct,
+    incorrect,
+    skipped: questions.length - attempted,
+    attempted,
+    subjectWise,
+    attemptAnalysis: analyseAttempts(scheme, correct, attempted, skippedMarkings, negativeMarks, optionCount)
+  };
+}
@@ -0,0 +1,70 @@
+// Server-side access to the review queue for the daily quiz API routes (Admin SDK)
+
+import type { Firestore } from 'firebase-admin/firestore';
+import {
+  ReviewItem,
+  ReviewQueueEntry,
+  getReviewCutoff,
+  getReviewItemId,
+  mergeReviewEntry,
+  recordReviewAnswer,
+  reviewItemFromFirestore,
+  sortReviewItems,
+} from './spaced-repetition';
+
+export const REVIEW_QUEUE_COLLECTION = 'reviewQueue';
+
+export async function getDueReviewItemsAdmin(db: Firestore, userId: string, maxItems: number, now: Date = new Date()): Promise<ReviewItem[]> {
+  const snapshot = await db.collection(REVIEW_QUEUE_COLLECTION)
+    .where('userId', '==', userId)
+    .where('dueAt', '<=', getReviewCutoff(now))
+    .orderBy('dueAt')
+    .limit(maxItems)
+    .get();
+
+  return sortReviewItems(snapshot.docs.map(itemDoc => reviewItemFromFirestore(itemDoc.data())));
+}
+
+export async function enqueueReviewEntriesAdmin(db: Firestore, userId: string, entries: ReviewQueueEntry[], now: Date = new Date()): Promise<void> {
+  if (entries.length === 0) return;
+
+  // A question can be both wrong and bookmarked, so fold entries per item before writing
+  const itemIds = Array.from(new Set(entries.map(entry => getReviewItemId(userId, entry.source, entry.question.question))));
+  const refs = itemIds.map(itemId => db.collection(REVIEW_QUEUE_COLLECTION).doc(itemId));
+  const snapshots = await db.getAll(...refs);
+
+  const items = new Map<string, ReviewItem | null>();
+  snapshots.forEach((snapshot, index) => {
+    items.set(itemIds[index], snapshot.exists ? reviewItemFromFirestore(snapshot.data() as Record<string, unknown>) : null);
+  });
+  entries.forEach(entry => {
+    const itemId = getReviewItemId(userId, entry.source, entry.question.question);
+    items.set(itemId, mergeReviewEntry(items.get(itemId) || null, userId, entry, now));
+  });
+
+  const batch = db.batch();
+  refs.forEach((ref, index) => {
+    batch.set(ref, items.get(itemIds[index])!);
+  });
+  await batch.commit();
+}
+
+/**
+ * Reschedules a review item after it was answered in a review session.
+ * Returns the updated item, or null if it was removed from the queue meanwhile.
+ */
+export async function recordReviewAnswerAdmin(
+  db: Firestore,
+  itemId: string,
+  isCorrect: boolean,
+  timeSpentSeconds?: number,
+  now: Date = new Date()
+): Promise<ReviewItem | null> {
+  const itemRef = db.collection(REVIEW_QUEUE_COLLECTION).doc(itemId);
+  const snapshot = await itemRef.get();
+  if (!snapshot.exists) return null;
+
+  const updated = recordReviewAnswer(reviewItemFromFirestore(snapshot.data() as Record<string, unknown>), isCorrect, timeSpentSeconds, now);
+  await itemRef.set(updated);
+  return updated;
+}
@@ -0,0 +1,333 @@
+// SM-2 spaced-repetition scheduling for the "Review due today" quiz queue
+
+import { splitBilingualOptions } from './bilingual';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ANSWER_LETTERS = ['A', 'B', 'C', 'D', 'E', 'F'];
+
+export const REVIEW_QUIZ_TYPE = 'review-due';
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+// SM-2 treats grades below 3 as a failed recall
+export const PASSING_QUALITY = 3;
+
+export type ReviewSourceType = 'daily-quiz' | 'past-year' | 'newspaper';
+export type ReviewReason = 'wrong' | 'bookmarked';
+
+// Where a queued question came from, so the review screen can link back to it
+export interface ReviewSource {
+  type: ReviewSourceType;
+  historyId?: string; // newspaper analysis history entry
+  pastYearQuestionId?: string;
+  sessionId?: string; // daily quiz session
+  articleUrl?: string;
+}
+
+// Question snapshot in the shape the quiz session page renders
+export interface ReviewQuestion {
+  question: string;
+  options: string[];
+  correctAnswer: string; // 'A', 'B', 'C', 'D'
+  explanation: string;
+  subject: string;
+  difficulty: 'easy' | 'medium' | 'hard';
+  year?: number;
+  questionHi?: string;
+  optionsHi?: string[];
+  explanationHi?: string;
+}
+
+export interface ReviewSchedule {
+  easeFactor: number;
+  interval: number; // days
+  repetitions: number; // consecutive successful reviews
+  lapses: number;
+  dueAt: Date;
+  lastReviewedAt: Date | null;
+}
+
+export interface ReviewItem extends ReviewSchedule {
+  id: string;
+  userId: string;
+  source: ReviewSource;
+  reasons: ReviewReason[];
+  question: ReviewQuestion;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface ReviewQueueEntry {
+  source: ReviewSource;
+  reason: ReviewReason;
+  question: ReviewQuestion;
+}
+
+// Option shapes used by the AI-generated MCQs and the past-year bank
+export interface TextOption {
+  text: string;
+  textHi?: string;
+  correct?: boolean;
+}
+
+export interface IdentifiedOption {
+  id: string;
+  text: string;
+  textHi?: string;
+}
+
+function hashQuestion(question: string): string {
+  // Same scheme as saved questions, with '/' swapped out because it is not allowed in document ids
+  return btoa(unescape(encodeURIComponent(question))).substring(0, 30).replace(/\//g, '_');
+}
+
+const SOURCE_LABELS: Record<ReviewSourceType, string> = {
+  'daily-quiz': 'Daily quiz',
+  'past-year': 'Past year paper',
+  'newspaper': 'Newspaper analysis'
+};
+
+export function getReviewSourceLabel(source: ReviewSource): string {
+  return SOURCE_LABELS[source.type];
+}
+
+// Page the question was originally answered or saved on, if it has one
+export function getReviewSourceHref(source: ReviewSource): string | null {
+  if (source.type === 'newspaper' && source.historyId) return `/history/${source.historyId}`;
+  if (source.type === 'past-year') return '/daily-quiz/past-year';
+  return null;
+}
+
+/**
+ * Reproducible id so the same question from the same source is only ever queued once.
+ */
+export function getReviewItemId(userId: string, source: ReviewSource, questionText: string): string {
+  if (source.type === 'past-year' && source.pastYearQuestionId) {
+    return `${userId}_py_${source.pastYearQuestionId}`;
+  }
+  const sourceKey = source.historyId || source.sessionId || source.type;
+  return `${userId}_${sourceKey}_${hashQuestion(questionText)}`;
+}
+
+function toDifficultyLevel(difficulty?: number | string): ReviewQuestion['difficulty'] {
+  if (typeof difficulty === 'string') {
+    return difficulty === 'easy' || difficulty === 'hard' ? difficulty : 'medium';
+  }
+  if (difficulty === undefined) return 'medium';
+  if (difficulty <= 3) return 'easy';
+  if (difficulty >= 8) return 'hard';
+  return 'medium';
+}
+
+// Hindi fields are only set when present, since Firestore rejects undefined values
+function hindiFields(question: { questionHi?: string; explanationHi?: string }, options: { text: string; textHi?: string }[]) {
+  if (!question.questionHi) return {};
+  const { optionsHi } = splitBilingualOptions(options);
+  return {
+    questionHi: question.questionHi,
+    ...(optionsHi && { optionsHi }),
+    ...(question.explanationHi && { explanationHi: question.explanationHi })
+  };
+}
+
+export function toReviewQuestionFromMCQ(mcq: {
+  question: string;
+  questionHi?: string;
+  options: TextOption[];
+  explanation?: string;
+  explanationHi?: string;
+  subject?: string;
+  difficulty?: number;
+}): ReviewQuestion {
+  const correctIndex = mcq.options.findIndex(option => option.correct);
+  return {
+    question: mcq.question,
+    options: mcq.options.map(option => option.text),
+    correctAnswer: ANSWER_LETTERS[Math.max(correctIndex, 0)],
+    explanation: mcq.explanation || '',
+    subject: mcq.subject || 'General',
+    difficulty: toDifficultyLevel(mcq.difficulty),
+    ...hindiFields(mcq, mcq.options)
+  };
+}
+
+export function toReviewQuestionFromPastYear(question: {
+  question: string;
+  questionHi?: string;
+  options: IdentifiedOption[];
+  correctOptionId: string;
+  explanation?: string;
+  explanationHi?: string;
+  subject?: string;
+  difficulty?: 'easy' | 'medium' | 'hard';
+  year?: number;
+}): ReviewQuestion {
+  const correctIndex = question.options.findIndex(option => option.id === question.correctOptionId);
+  return {
+    question: question.question,
+    options: question.options.map(option => option.text),
+    correctAnswer: ANSWER_LETTERS[Math.max(correctIndex, 0)],
+    explanation: question.explanation || '',
+    subject: question.subject || 'General',
+    difficulty: toDifficultyLevel(question.difficulty),
+    ...(question.year !== undefined && { year: question.year }),
+    ...hindiFields(question, question.options)
+  };
+}
+
+/**
+ * Maps a quiz answer to an SM-2 grade (0-5). Quick correct answers count as
+ * perfect recall; slow ones as recalled with difficulty.
+ */
+export function qualityForAnswer(isCorrect: boolean, timeSpentSeconds?: number): number {
+  if (!isCorrect) return 1;
+  if (timeSpentSeconds === undefined) return 4;
+  if (timeSpentSeconds <= 30) return 5;
+  if (timeSpentSeconds <= 90) return 4;
+  return 3;
+}
+
+/**
+ * Standard SM-2 update: failed recalls restart the interval at one day,
+ * successful ones step 1 -> 6 -> interval x ease factor.
+ */
+export function applySm2(schedule: ReviewSchedule, quality: number, now: Date = new Date()): ReviewSchedule {
+  const grade = Math.min(5, Math.max(0, Math.round(quality)));
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    schedule.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  let interval: number;
+  let repetitions: number;
+  let lapses = schedule.lapses;
+
+  if (grade < PASSING_QUALITY) {
+    repetitions = 0;
+    interval = 1;
+    lapses += 1;
+  } else {
+    repetitions = schedule.repetitions + 1;
+    if (repetitions === 1) interval = 1;
+    else if (repetitions === 2) interval = 6;
+    else interval = Math.round(schedule.interval * schedule.easeFactor);
+  }
+
+  return {
+    easeFactor: Math.round(easeFactor * 100) / 100,
+    interval,
+    repetitions,
+    lapses,
+    dueAt: new Date(now.getTime() + interval * DAY_MS),
+    lastReviewedAt: now
+  };
+}
+
+/**
+ * Adds a mistake or bookmark to the queue. A question answered wrong again
+ * outside a review session counts as a lapse; a bookmark only adds its reason.
+ */
+export function mergeReviewEntry(
+  existing: ReviewItem | null,
+  userId: string,
+  entry: ReviewQueueEntry,
+  now: Date = new Date()
+): ReviewItem {
+  if (!existing) {
+    return {
+      id: getReviewItemId(userId, entry.source, entry.question.question),
+      userId,
+      // Firestore rejects undefined fields, so only keep the links that are set
+      source: Object.fromEntries(
+        Object.entries(entry.source).filter(([, value]) => value !== undefined)
+      ) as ReviewSource,
+      reasons: [entry.reason],
+      question: entry.question,
+      easeFactor: DEFAULT_EASE_FACTOR,
+      interval: 1,
+      repetitions: 0,
+      lapses: entry.reason === 'wrong' ? 1 : 0,
+      // New items come up in tomorrow's review
+      dueAt: new Date(now.getTime() + DAY_MS),
+      lastReviewedAt: null,
+      createdAt: now,
+      updatedAt: now
+    };
+  }
+
+  const reasons = existing.reasons.includes(entry.reason)
+    ? existing.reasons
+    : [...existing.reasons, entry.reason];
+  const schedule = entry.reason === 'wrong' ? applySm2(existing, 1, now) : existing;
+
+  return {
+    ...existing,
+    ...schedule,
+    // A lapse outside a review session is not a review
+    lastReviewedAt: existing.lastReviewedAt,
+    reasons,
+    question: entry.question,
+    updatedAt: now
+  };
+}
+
+/**
+ * Drops a reason (e.g. on unbookmark). Returns null when nothing keeps the
+ * item in the queue any more.
+ */
+export function removeReviewReason(item: ReviewItem, reason: ReviewReason, now: Date = new Date()): ReviewItem | null {
+  const reasons = item.reasons.filter(existing => existing !== reason);
+  return reasons.length > 0 ? { ...item, reasons, updatedAt: now } : null;
+}
+
+export function recordReviewAnswer(
+  item: ReviewItem,
+  isCorrect: boolean,
+  timeSpentSeconds?: number,
+  now: Date = new Date()
+): ReviewItem {
+  return {
+    ...item,
+    ...applySm2(item, qualityForAnswer(isCorrect, timeSpentSeconds), now),
+    updatedAt: now
+  };
+}
+
+// Everything due before the end of the given (UTC) day is due "today"
+export function getReviewCutoff(now: Date = new Date()): Date {
+  const cutoff = new Date(now);
+  cutoff.setUTCHours(23, 59, 59, 999);
+  return cutoff;
+}
+
+export function isReviewDue(item: Pick<ReviewSchedule, 'dueAt'>, now: Date = new Date()): boolean {
+  return item.dueAt.getTime() <= getReviewCutoff(now).getTime();
+}
+
+// Most overdue first, then the hardest (lowest ease) items
+export function sortReviewItems<T extends Pick<ReviewSchedule, 'dueAt' | 'easeFactor'>>(items: T[]): T[] {
+  return [...items].sort((a, b) =>
+    a.dueAt.getTime() - b.dueAt.getTime() || a.easeFactor - b.easeFactor
+  );
+}
+
+/**
+ * Firestore returns Timestamps for the date fields; both SDKs expose toDate().
+ */
+export function reviewItemFromFirestore(data: Record<string, unknown>): ReviewItem {
+  const toDate = (value: unknown): Date | null => {
+    if (!value) return null;
+    if (value instanceof Date) return value;
+    if (typeof (value as { toDate?: unknown }).toDate === 'function') {
+      return (value as { toDate: () => Date }).toDate();
+    }
+    return new Date(value as string | number);
+  };
+
+  return {
+    ...(data as unknown as ReviewItem),
+    dueAt: toDate(data.dueAt) || new Date(),
+    lastReviewedAt: toDate(data.lastReviewedAt),
+    createdAt: toDate(data.createdAt) || new Date(),
+    updatedAt: toDate(data.updatedAt) || new Date()
+  };
+}
@@ -0,0 +1,696 @@
+// Source data for the canonical syllabus (see syllabus.ts). Node ids are
+// permanent: rename a node freely, but retire an id only by adding it to
+// SYLLABUS_ID_MIGRATIONS and bumping SYLLABUS_VERSION
+
+import type { SyllabusOutline, SyllabusPaperOutline } from './syllabus';
+
+export const SYLLABUS_VERSION = '2025.1';
+
+const OPTIONAL_SUBJECTS: Array<[id: string, name: string]> = [
+  ['agriculture', 'Agriculture'],
+  ['animal_husbandry', 'Animal Husbandry and Veterinary Science'],
+  ['anthropology', 'Anthropology'],
+  ['botany', 'Botany'],
+  ['chemistry', 'Chemistry'],
+  ['civil_engineering', 'Civil Engineering'],
+  ['commerce', 'Commerce and Accountancy'],
+  ['economics', 'Economics'],
+  ['electrical_engineering', 'Electrical Engineering'],
+  ['geography', 'Geography'],
+  ['geology', 'Geology'],
+  ['history', 'History'],
+  ['law', 'Law'],
+  ['management', 'Management'],
+  ['mathematics', 'Mathematics'],
+  ['mechanical_engineering', 'Mechanical Engineering'],
+  ['medical_science', 'Medical Science'],
+  ['philosophy', 'Philosophy'],
+  ['physics', 'Physics'],
+  ['political_science', 'Political Science and International Relations'],
+  ['psychology', 'Psychology'],
+  ['public_administration', 'Public Administration'],
+  ['sociology', 'Sociology'],
+  ['statistics', 'Statistics'],
+  ['zoology', 'Zoology'],
+  ['literature', 'Literature of any one language']
+];
+
+// Every optional is examined in two papers
+function optionalSubject([id, name]: [string, string]): SyllabusOutline {
+  return {
+    id: `opt_${id}`,
+    name,
+    children: [
+      { id: `opt_${id}_p1`, name: `${name} Paper I` },
+      { id: `opt_${id}_p2`, name: `${name} Paper II` }
+    ]
+  };
+}
+
+export const SYLLABUS_PAPERS: SyllabusPaperOutline[] = [
+  // PRELIMS
+  {
+    id: 'pre_gs',
+    code: 'PRE-GS',
+    exam: 'prelims',
+    name: 'General Studies Paper I (Prelims)',
+    children: [
+      {
+        id: 'pre_gs_current_events',
+        name: 'Current Events',
+        description: 'Current events of national and international importance',
+        keywords: ['current affairs', 'news', 'events'],
+        children: [
+          { id: 'pre_gs_current_events_national', name: 'National Events' },
+          { id: 'pre_gs_current_events_international', name: 'International Events' }
+        ]
+      },
+      {
+        id: 'pre_gs_history',
+        name: 'History of India and Indian National Movement',
+        keywords: ['history', 'freedom struggle'],
+        children: [
+          { id: 'pre_gs_history_ancient', name: 'Ancient History' },
+          { id: 'pre_gs_history_medieval', name: 'Medieval History' },
+          { id: 'pre_gs_history_modern', name: 'Modern History' },
+          { id: 'pre_gs_history_national_movement', name: 'Indian National Movement' },
+          { id: 'pre_gs_history_art_culture', name: 'Art and Culture' }
+        ]
+      },
+      {
+        id: 'pre_gs_geography',
+        name: 'Indian and World Geography',
+        description: 'Physical, social and economic geography of India and the world',
+        keywords: ['geography', 'maps', 'climate'],
+        children: [
+          { id: 'pre_gs_geography_physical', name: 'Physical Geography' },
+          { id: 'pre_gs_geography_social', name: 'Social Geography' },
+          { id: 'pre_gs_geography_economic', name: 'Economic Geography' },
+          { id: 'pre_gs_geography_world', name: 'World Geography' }
+        ]
+      },
+      {
+        id: 'pre_gs_polity',
+        name: 'Indian Polity and Governance',
+        description: 'Constitution, political system, Panchayati Raj, public policy and rights issues',
+        keywords: ['polity', 'constitution', 'governance'],
+        children: [
+          { id: 'pre_gs_polity_constitution', name: 'Constitution' },
+          { id: 'pre_gs_polity_political_system', name: 'Political System' },
+          { id: 'pre_gs_polity_panchayati_raj', name: 'Panchayati Raj' },
+          { id: 'pre_gs_polity_public_policy', name: 'Public Policy' },
+          { id: 'pre_gs_polity_rights', name: 'Rights Issues' }
+        ]
+      },
+      {
+        id: 'pre_gs_economy',
+        name: 'Economic and Social Development',
+        description: 'Sustainable development, poverty, inclusion, demographics and social sector initiatives',
+        keywords: ['economy', 'development', 'poverty'],
+        children: [
+          { id: 'pre_gs_economy_sustainable_development', name: 'Sustainable Development' },
+          { id: 'pre_gs_economy_poverty', name: 'Poverty' },
+          { id: 'pre_gs_economy_inclusion', name: 'Inclusion' },
+          { id: 'pre_gs_economy_demographics', name: 'Demographics' },
+          { id: 'pre_gs_economy_social_sector', name: 'Social Sector Initiatives' }
+        ]
+      },
+      {
+        id: 'pre_gs_environment',
+        name: 'Environment and Ecology',
+        description: 'General issues on environmental ecology, biodiversity and climate change',
+        keywords: ['environment', 'ecology', 'biodiversity', 'climate change'],
+        children: [
+          { id: 'pre_gs_environment_ecology', name: 'Environmental Ecology' },
+          { id: 'pre_gs_environment_biodiversity', name: 'Biodiversity' },
+          { id: 'pre_gs_environment_climate', name: 'Climate Change' }
+        ]
+      },
+      {
+        id: 'pre_gs_science',
+        name: 'General Science',
+        keywords: ['science', 'technology'],
+        children: [
+          { id: 'pre_gs_science_physics', name: 'Physics' },
+          { id: 'pre_gs_science_chemistry', name: 'Chemistry' },
+          { id: 'pre_gs_science_biology', name: 'Biology' },
+          { id: 'pre_gs_science_technology', name: 'Science and Technology' }
+        ]
+      }
+    ]
+  },
+  {
+    id: 'csat',
+    code: 'CSAT',
+    exam: 'prelims',
+    name: 'General Studies Paper II (CSAT)',
+    description: 'Qualifying aptitude paper',
+    children: [
+      { id: 'csat_comprehension', name: 'Comprehension', keywords: ['reading comprehension', 'passage'] },
+      { id: 'csat_interpersonal', name: 'Interpersonal and Communication Skills' },
+      { id: 'csat_reasoning', name: 'Logical Reasoning and Analytical Ability', keywords: ['reasoning', 'logic'] },
+      { id: 'csat_decision_making', name: 'Decision Making and Problem Solving' },
+      { id: 'csat_mental_ability', name: 'General Mental Ability' },
+      { id: 'csat_numeracy', name: 'Basic Numeracy', description: 'Numbers and their relations, orders of magnitude (Class X level)' },
+      { id: 'csat_data_interpretation', name: 'Data Interpretation', description: 'Charts, graphs, tables and data sufficiency (Class X level)' }
+    ]
+  },
+
+  // MAINS
+  {
+    id: 'essay',
+    code: 'ESSAY',
+    exam: 'mains',
+    name: 'Essay',
+    description: 'Essays on multiple topics, written in an orderly and concise way',
+    children: [
+      { id: 'essay_philosophical', name: 'Philosophical and Abstract Themes' },
+      { id: 'essay_contemporary', name: 'Contemporary Issues' }
+    ]
+  },
+  {
+    id: 'gs1',
+    code: 'GS1',
+    exam: 'mains',
+    name: 'General Studies Paper 1',
+    description: 'Indian Heritage and Culture, History and Geography of the World and Society',
+    keywords: ['history', 'geography', 'society', 'culture'],
+    children: [
+      {
+        id: 'gs1_hist',
+        name: 'Indian History',
+        keywords: ['history', 'ancient', 'medieval', 'modern'],
+        children: [
+          {
+            id: 'gs1_hist_art_culture',
+            name: 'Indian Culture',
+            description: 'Salient aspects of art forms, literature and architecture from ancient to modern times',
+            keywords: ['art', 'architecture', 'literature', 'culture']
+          },
+          {
+            id: 'gs1_hist_ancient',
+            name: 'Ancient History',
+            keywords: ['ancient', 'indus', 'vedic', 'maurya', 'gupta'],
+            children: [
+              {
+                id: 'gs1_hist_ancient_indus',
+                name: 'Indus Valley Civilization',
+                keywords: ['harappa', 'mohenjodaro', 'indus'],
+                children: [
+                  { id: 'gs1_hist_ancient_indus_sites', name: 'Major Sites', keywords: ['harappa', 'mohenjodaro', 'dholavira', 'lothal'] },
+                  { id: 'gs1_hist_ancient_indus_features', name: 'Town Planning, Economy and Society' },
+                  { id: 'gs1_hist_ancient_indus_decline', name: 'Decline' }
+                ]
+              },
+              {
+                id: 'gs1_hist_ancient_vedic',
+                name: 'Vedic Period',
+                keywords: ['vedas', 'aryans', 'rigveda'],
+                children: [
+                  { id: 'gs1_hist_ancient_vedic_early', name: 'Early Vedic Period' },
+                  { id: 'gs1_hist_ancient_vedic_later', name: 'Later Vedic Period' },
+                  { id: 'gs1_hist_ancient_vedic_literature', name: 'Vedic Literature' }
+                ]
+              },
+              {
+                id: 'gs1_hist_ancient_maurya',
+                name: 'Mauryan Empire',
+                keywords: ['maurya', 'ashoka', 'chandragupta'],
+                children: [
+                  { id: 'gs1_hist_ancient_maurya_chandragupta', name: 'Chandragupta Maurya' },
+                  { id: 'gs1_hist_ancient_maurya_ashoka', name: 'Ashoka and Dhamma' },
+                  { id: 'gs1_hist_ancient_maurya_admin', name: 'Mauryan Administration' }
+                ]
+              },
+              { id: 'gs1_hist_ancient_gupta', name: 'Gupta Empire', keywords: ['gupta', 'golden age'] }
+            ]
+          },
+          {
+            id: 'gs1_hist_medieval',
+            name: 'Medieval History',
+            keywords: ['sultanate', 'mughal', 'vijayanagara', 'bhakti']
+          },
+          {
+            id: 'gs1_hist_modern',
+            name: 'Modern History',
+            description: 'Significant events, personalities and issues from the middle of the eighteenth century until the present',
+            keywords: ['british', 'colonial', 'independence', 'freedom struggle'],
+            children: [
+              { id: 'gs1_hist_modern_company', name: 'Expansion of Company Rule', keywords: ['east india company', 'plassey', 'buxar'] },
+              { id: 'gs1_hist_modern_revolt', name: 'Revolt of 1857' },
+              { id: 'gs1_hist_modern_nationalism', name: 'Rise of Nationalism', keywords: ['congress', 'moderates', 'extremists'] },
+              {
+                id: 'gs1_hist_modern_freedom',
+                name: 'Freedom Struggle',
+                description: 'Its various stages and important contributors and contributions from different parts of the country',
+                keywords: ['gandhi', 'non-cooperation', 'civil disobedience', 'quit india'],
+                children: [
+                  { id: 'gs1_hist_modern_freedom_gandhi', name: 'Gandhian Era' },
+                  { id: 'gs1_hist_modern_freedom_movements', name: 'Mass Movements' },
+                  { id: 'gs1_hist_modern_freedom_partition', name: 'Partition and Independence' }
+                ]
+              }
+            ]
+          },
+          {
+            id: 'gs1_hist_post_independence',
+            name: 'Post-independence Consolidation',
+            description: 'Post-independence consolidation and reorganisation within the country',
+            keywords: ['integration of states', 'reorganisation']
+          },
+          {
+            id: 'gs1_hist_world',
+            name: 'World History',
+            description: 'Events from the 18th century: industrial revolution, world wars, redrawal of national boundaries, colonization, decolonization, and political philosophies like communism, capitalism and socialism',
+            keywords: ['world war', 'industrial revolution', 'colonization', 'communism']
+          }
+        ]
+      },
+      {
+        id: 'gs1_soc',
+        name: 'Indian Society',
+        description: 'Salient features of Indian society, diversity, role of women, population, poverty, urbanization, globalization, social empowerment, communalism, regionalism and secularism',
+        keywords: ['society', 'women', 'urbanization', 'globalization', 'communalism', 'secularism']
+      },
+      {
+        id: 'gs1_geo',
+        name: 'Geography',
+        keywords: ['geography', 'physical', 'human', 'resources'],
+        children: [
+          {
+            id: 'gs1_geo_physical',
+            name: 'Physical Geography',
+            description: 'Salient features of world physical geography and important geophysical phenomena such as earthquakes, tsunami, volcanic activity and cyclones',
+            keywords: ['earthquake', 'volcano', 'cyclone', 'landforms'],
+            children: [
+              { id: 'gs1_geo_physical_landforms', name: 'Geomorphology and Landforms' },
+              { id: 'gs1_geo_physical_climate', name: 'Climatology' },
+              { id: 'gs1_geo_physical_drainage', name: 'Oceanography and Drainage' }
+            ]
+          },
+          {
+            id: 'gs1_geo_human',
+            name: 'Human and Economic Geography',
+            description: 'Distribution of key natural resources and factors for the location of industries across the world',
+            keywords: ['resources', 'industry location']
+          },
+          {
+            id: 'gs1_geo_india',
+            name: 'Geography of India',
+            keywords: ['monsoon', 'rivers', 'indian geography']
+          },
+          {
+            id: 'gs1_geo_world',
+            name: 'World Geography',
+            description: 'Changes in critical geographical features, including water bodies and ice caps, flora and fauna',
+            keywords: ['ice caps', 'water bodies', 'flora', 'fauna']
+          }
+        ]
+      }
+    ]
+  },
+  {
+    id: 'gs2',
+    code: 'GS2',
+    exam: 'mains',
+    name: 'General Studies Paper 2',
+    description: 'Governance, Constitution, Polity, Social Justice and International relations',
+    keywords: ['polity', 'governance', 'constitution', 'international relations'],
+    children: [
+      {
+        id: 'gs2_polity',
+        name: 'Indian Polity',
+        keywords: ['constitution', 'parliament', 'judiciary', 'executive'],
+        children: [
+          {
+            id: 'gs2_polity_constitution',
+            name: 'Indian Constitution',
+            description: 'Historical underpinnings, evolution, features, amendments, significant provisions and basic structure',
+            keywords: ['constitution', 'amendment', 'basic structure', 'preamble'],
+            children: [
+              { id: 'gs2_polity_constitution_preamble', name: 'Preamble' },
+              { id: 'gs2_polity_constitution_features', name: 'Salient Features and Basic Structure' },
+              { id: 'gs2_polity_constitution_amendments', name: 'Amendments' }
+            ]
+          },
+          {
+            id: 'gs2_polity_federalism',
+            name: 'Union and States',
+            description: 'Functions and responsibilities of the Union and the States and issues in the federal structure',
+            keywords: ['federalism', 'centre-state relations']
+          },
+          {
+            id: 'gs2_polity_local_government',
+            name: 'Local Government',
+            description: 'Devolution of powers and finances up to local levels and challenges therein',
+            keywords: ['panchayati raj', 'municipalities', '73rd amendment']
+          },
+          {
+            id: 'gs2_polity_separation',
+            name: 'Separation of Powers',
+            description: 'Separation of powers between various organs',
+            keywords: ['separation of powers', 'checks and balances']
+          },
+          {
+            id: 'gs2_polity_dispute_redressal',
+            name: 'Dispute Redressal',
+            description: 'Dispute redressal mechanisms and institutions',
+            keywords: ['tribunals', 'arbitration']
+          },
+          {
+            id: 'gs2_polity_comparison',
+            name: 'Comparison with Other Constitutions',
+            description: 'Comparison of the Indian constitutional scheme with that of other countries'
+          },
+          {
+            id: 'gs2_polity_parliament',
+            name: 'Parliament and State Legislatures',
+            description: 'Structure, functioning, conduct of business, powers and privileges',
+            keywords: ['parliament', 'lok sabha', 'rajya sabha', 'legislature']
+          },
+          {
+            id: 'gs2_polity_executive',
+            name: 'Executive and Judiciary',
+            description: 'Structure, organization and functioning of the Executive and the Judiciary; ministries and departments; pressure groups',
+            keywords: ['executive', 'president', 'prime minister', 'pressure groups']
+          },
+          {
+            id: 'gs2_polity_judiciary',
+            name: 'Judiciary',
+            keywords: ['supreme court', 'high court', 'judicial review']
+          },
+          {
+            id: 'gs2_polity_elections',
+            name: 'Representation of People\'s Act',
+            description: 'Salient features of the Representation of People\'s Act',
+            keywords: ['elections', 'election commission', 'rpa']
+          },
+          {
+            id: 'gs2_polity_constitutional_bodies',
+            name: 'Constitutional Bodies',
+            description: 'Appointment to various constitutional posts, powers, functions and responsibilities of constitutional bodies',
+            keywords: ['cag', 'upsc', 'election commission', 'finance commission']
+          },
+          {
+            id: 'gs2_polity_statutory_bodies',
+            name: 'Statutory, Regulatory and Quasi-judicial Bodies',
+            keywords: ['nhrc', 'regulators', 'quasi-judicial']
+          }
+        ]
+      },
+      {
+        id: 'gs2_governance',
+        name: 'Governance',
+        description: 'Government policies and interventions, development processes, transparency and accountability, e-governance, and the role of civil services in a democracy',
+        keywords: ['governance', 'e-governance', 'transparency', 'civil services', 'ngo']
+      },
+      {
+        id: 'gs2_social',
+        name: 'Social Justice',
+        description: 'Welfare schemes for vulnerable sections, social sector services relating to health, education and human resources, and issues of poverty and hunger',
+        keywords: ['welfare', 'health', 'education', 'poverty', 'hunger']
+      },
+      {
+        id: 'gs2_international',
+        name: 'International Relations',
+        description: 'India and its neighbourhood, bilateral, regional and global groupings, effect of policies of other countries on India, and important international institutions',
+        keywords: ['foreign policy', 'bilateral', 'united nations', 'diaspora']
+      }
+    ]
+  },
+  {
+    id: 'gs3',
+    code: 'GS3',
+    exam: 'mains',
+    name: 'General Studies Paper 3',
+    description: 'Technology, Economic Development, Bio-diversity, Environment, Security and Disaster Management',
+    keywords: ['economy', 'environment', 'security', 'technology', 'disaster'],
+    children: [
+      {
+        id: 'gs3_economy',
+        name: 'Indian Economy',
+        keywords: ['economy', 'gdp', 'growth', 'development'],
+        children: [
+          {
+            id: 'gs3_economy_growth',
+            name: 'Planning and Growth',
+            description: 'Issues relating to planning, mobilization of resources, growth, development and employment',
+            keywords: ['planning', 'growth', 'employment']
+          },
+          {
+            id: 'gs3_economy_inclusive',
+            name: 'Inclusive Growth',
+            description: 'Inclusive growth and issues arising from it',
+            keywords: ['inclusive growth', 'financial inclusion']
+          },
+          {
+            id: 'gs3_economy_budgeting',
+            name: 'Government Budgeting',
+            keywords: ['budget', 'fiscal policy']
+          },
+          {
+            id: 'gs3_economy_agriculture',
+            name: 'Agriculture',
+            keywords: ['agriculture', 'farming', 'crops', 'msp'],
+            children: [
+              { id: 'gs3_economy_agriculture_cropping', name: 'Cropping Patterns', description: 'Major crops and cropping patterns in various parts of the country' },
+              { id: 'gs3_economy_agriculture_irrigation', name: 'Irrigation', description: 'Different types of irrigation and irrigation systems, storage, transport and marketing of agricultural produce' },
+              { id: 'gs3_economy_agriculture_marketing', name: 'Agricultural Marketing' },
+              { id: 'gs3_economy_agriculture_technology', name: 'E-technology for Farmers' },
+              { id: 'gs3_economy_agriculture_subsidies', name: 'Farm Subsidies and MSP', description: 'Direct and indirect farm subsidies and minimum support prices' },
+              { id: 'gs3_economy_agriculture_pds', name: 'Public Distribution System', description: 'Objectives, functioning, limitations and revamping of the PDS, buffer stocks' },
+              { id: 'gs3_economy_agriculture_food_security', name: 'Food Security' },
+              { id: 'gs3_economy_agriculture_animal_rearing', name: 'Animal Rearing', description: 'Economics of animal rearing' },
+              { id: 'gs3_economy_agriculture_food_processing', name: 'Food Processing', description: 'Food processing and related industries: scope, significance, location, supply chain management' }
+            ]
+          },
+          {
+            id: 'gs3_economy_land_reforms',
+            name: 'Land Reforms',
+            keywords: ['land reforms', 'land records']
+          },
+          {
+            id: 'gs3_economy_liberalisation',
+            name: 'Liberalisation',
+            description: 'Effects of liberalisation on the economy, changes in industrial policy and their effects on industrial growth',
+            keywords: ['liberalisation', 'lpg reforms', 'industrial policy']
+          },
+          {
+            id: 'gs3_economy_industry',
+            name: 'Industry',
+            keywords: ['industry', 'manufacturing', 'msme']
+          },
+          {
+            id: 'gs3_economy_services',
+            name: 'Services',
+            keywords: ['services', 'banking', 'it services']
+          },
+          {
+            id: 'gs3_economy_infrastructure',
+            name: 'Infrastructure',
+            description: 'Energy, ports, roads, airports, railways and similar infrastructure',
+            keywords: ['infrastructure', 'energy', 'ports', 'railways']
+          },
+          {
+            id: 'gs3_economy_investment',
+            name: 'Investment Models',
+            keywords: ['ppp', 'investment', 'fdi']
+          }
+        ]
+      },
+      {
+        id: 'gs3_technology',
+        name: 'Science and Technology',
+        keywords: ['science', 'technology', 'space', 'biotechnology'],
+        children: [
+          { id: 'gs3_technology_applications', name: 'Developments and Applications', description: 'Developments in science and technology and their applications and effects in everyday life' },
+          { id: 'gs3_technology_achievements', name: 'Achievements of Indians', description: 'Achievements of Indians in science and technology' },
+          { id: 'gs3_technology_indigenisation', name: 'Indigenisation of Technology', description: 'Indigenisation of technology and developing new technology' },
+          { id: 'gs3_technology_awareness', name: 'Emerging Technologies', description: 'Awareness in IT, space, computers, robotics, nano-technology and bio-technology', keywords: ['space', 'robotics', 'nanotechnology', 'biotechnology'] },
+          { id: 'gs3_technology_ipr', name: 'Intellectual Property Rights', keywords: ['ipr', 'patents'] }
+        ]
+      },
+      {
+        id: 'gs3_environment',
+        name: 'Environment and Biodiversity',
+        keywords: ['environment', 'biodiversity', 'pollution', 'climate change'],
+        children: [
+          { id: 'gs3_environment_conservation', name: 'Conservation', keywords: ['conservation', 'biodiversity'] },
+          { id: 'gs3_environment_pollution', name: 'Environmental Pollution and Degradation', keywords: ['pollution', 'degradation'] },
+          { id: 'gs3_environment_eia', name: 'Environmental Impact Assessment', keywords: ['eia'] }
+        ]
+      },
+      {
+        id: 'gs3_disaster',
+        name: 'Disaster Management',
+        keywords: ['disaster', 'ndma', 'floods', 'earthquake']
+      },
+      {
+        id: 'gs3_security',
+        name: 'Internal Security',
+        keywords: ['security', 'terrorism', 'border', 'cyber'],
+        children: [
+          { id: 'gs3_security_extremism', name: 'Development and Extremism', description: 'Linkages between development and the spread of extremism', keywords: ['naxalism', 'extremism'] },
+          { id: 'gs3_security_external_actors', name: 'External Actors', description: 'Role of external state and non-state actors in creating challenges to internal security' },
+          { id: 'gs3_security_communication', name: 'Communication Networks and Cyber Security', description: 'Challenges to internal security through communication networks, role of media and social networking sites, basics of cyber security', keywords: ['cyber security', 'social media'] },
+          { id: 'gs3_security_money_laundering', name: 'Money Laundering', description: 'Money laundering and its prevention', keywords: ['money laundering', 'pmla'] },
+          { id: 'gs3_security_border', name: 'Border Management', description: 'Security challenges and their management in border areas, linkages of organized crime with terrorism', keywords: ['border', 'organized crime'] },
+          { id: 'gs3_security_forces', name: 'Security Forces', description: 'Various security forces and agencies and their mandate', keywords: ['capf', 'security forces'] }
+        ]
+      }
+    ]
+  },
+  {
+    id: 'gs4',
+    code: 'GS4',
+    exam: 'mains',
+    name: 'General Studies Paper 4',
+    description: 'Ethics, Integrity and Aptitude',
+    keywords: ['ethics', 'integrity', 'aptitude', 'values'],
+    children: [
+      {
+        id: 'gs4_ethics',
+        name: 'Ethics and Human Interface',
+        description: 'Essence, determinants and consequences of ethics in human actions; dimensions of ethics; ethics in private and public relationships; human values and lessons from great leaders',
+        keywords: ['ethics', 'values', 'morality']
+      },
+      {
+        id: 'gs4_integrity',
+        name: 'Probity in Governance',
+        description: 'Public service, philosophical basis of governance and probity, codes of ethics and conduct, citizen\'s charters, work culture and challenges of corruption',
+        keywords: ['probity', 'integrity', 'corruption', 'accountability']
+      },
+      {
+        id: 'gs4_aptitude',
+        name: 'Aptitude and Attitude',
+        description: 'Attitude, aptitude and foundational values for civil service, emotional intelligence, and contributions of moral thinkers',
+        keywords: ['attitude', 'aptitude', 'emotional intelligence', 'moral thinkers']
+      },
+      {
+        id: 'gs4_case_studies',
+        name: 'Case Studies',
+        description: 'Case studies on the issues above',
+        keywords: ['case study', 'ethical dilemma']
+      }
+    ]
+  },
+  {
+    id: 'optional',
+    code: 'OPT',
+    exam: 'mains',
+    name: 'Optional Subject',
+    description: 'Two papers on one optional subject chosen by the candidate',
+    children: OPTIONAL_SUBJECTS.map(optionalSubject)
+  }
+];
+
+// Retired ids and their canonical replacements
+export const SYLLABUS_ID_MIGRATIONS: Record<string, string> = {
+  // Section ids the past-year question browser used before the canonical syllabus
+  'gs-current-events': 'pre_gs_current_events',
+  'gs-current-events-national': 'pre_gs_current_events_national',
+  'gs-current-events-international': 'pre_gs_current_events_international',
+  'gs-history': 'pre_gs_history',
+  'gs-history-ancient': 'pre_gs_history_ancient',
+  'gs-history-medieval': 'pre_gs_history_medieval',
+  'gs-history-modern': 'pre_gs_history_modern',
+  'gs-history-national-movement': 'pre_gs_history_national_movement',
+  'gs-geography': 'pre_gs_geography',
+  'gs-geography-physical': 'pre_gs_geography_physical',
+  'gs-geography-social': 'pre_gs_geography_social',
+  'gs-geography-economic': 'pre_gs_geography_economic',
+  'gs-geography-world': 'pre_gs_geography_world',
+  'gs-polity': 'pre_gs_polity',
+  'gs-polity-constitution': 'pre_gs_polity_constitution',
+  'gs-polity-political-system': 'pre_gs_polity_political_system',
+  'gs-polity-panchayati-raj': 'pre_gs_polity_panchayati_raj',
+  'gs-polity-public-policy': 'pre_gs_polity_public_policy',
+  'gs-polity-rights': 'pre_gs_polity_rights',
+  'gs-economy': 'pre_gs_economy',
+  'gs-economy-sustainable-dev': 'pre_gs_economy_sustainable_development',
+  'gs-economy-poverty': 'pre_gs_economy_poverty',
+  'gs-economy-inclusion': 'pre_gs_economy_inclusion',
+  'gs-economy-demographics': 'pre_gs_economy_demographics',
+  'gs-economy-social-sector': 'pre_gs_economy_social_sector',
+  'gs-environment': 'pre_gs_environment',
+  'gs-environment-ecology': 'pre_gs_environment_ecology',
+  'gs-environment-biodiversity': 'pre_gs_environment_biodiversity',
+  'gs-environment-climate': 'pre_gs_environment_climate',
+  'gs-science': 'pre_gs_science',
+  'gs-science-physics': 'pre_gs_science_physics',
+  'gs-science-chemistry': 'pre_gs_science_chemistry',
+  'gs-science-biology': 'pre_gs_science_biology',
+  'gs-science-tech': 'pre_gs_science_technology',
+  'csat-comprehension': 'csat_comprehension',
+  'csat-reasoning': 'csat_reasoning',
+  'csat-decision-making': 'csat_decision_making',
+  'csat-mental-ability': 'csat_mental_ability',
+  'csat-numeracy': 'csat_numeracy',
+  'csat-data-interpretation': 'csat_data_interpretation',
+
+  // Topic ids from the retired topic list, whose GS paper labels were one paper out
+  'GS2_a9776f': 'gs1',
+  'GS2_c6e58f': 'gs1_hist_art_culture',
+  'GS2_5b60fd': 'gs1_hist_ancient',
+  'GS2_8afaf9': 'gs1_hist_medieval',
+  'GS2_e921f9': 'gs1_hist_modern',
+  'GS2_87b7e7': 'gs1_hist_post_independence',
+  'GS2_8a3965': 'gs1_hist_world',
+  'GS2_73b8cf': 'gs1_soc',
+  'GS2_7926e3': 'gs1_geo',
+  'GS3_1380e6': 'gs2',
+  'GS3_f45a7d': 'gs2_polity',
+  'GS3_cbbbcb': 'gs2_polity_constitution',
+  'GS3_2c7392': 'gs2_polity_federalism',
+  'GS3_721e51': 'gs2_polity_local_government',
+  'GS3_e1d9e4': 'gs2_polity_separation',
+  'GS3_98b83b': 'gs2_polity_dispute_redressal',
+  'GS3_2a965f': 'gs2_polity_comparison',
+  'GS3_94a0de': 'gs2_polity_parliament',
+  'GS3_772cc1': 'gs2_polity_executive',
+  'GS3_919f3d': 'gs2_polity_elections',
+  'GS3_4becce': 'gs2_polity_constitutional_bodies',
+  'GS3_339d05': 'gs2_polity_statutory_bodies',
+  'GS3_0fabf6': 'gs2_governance',
+  'GS3_a28316': 'gs2_social',
+  'GS3_9cf9c6': 'gs2_international',
+  'GS4_a7dcd1': 'gs3',
+  'GS4_ec8da5': 'gs3_economy',
+  'GS4_b5abd7': 'gs3_economy_growth',
+  'GS4_113728': 'gs3_economy_inclusive',
+  'GS4_b10dc6': 'gs3_economy_budgeting',
+  'GS4_2608b9': 'gs3_economy_agriculture',
+  'GS4_94a0a4': 'gs3_economy_agriculture_cropping',
+  'GS4_374f99': 'gs3_economy_agriculture_irrigation',
+  'GS4_38257b': 'gs3_economy_agriculture_marketing',
+  'GS4_f05a47': 'gs3_economy_agriculture_technology',
+  'GS4_18e434': 'gs3_economy_agriculture_subsidies',
+  'GS4_dee305': 'gs3_economy_agriculture_pds',
+  'GS4_ec65fc': 'gs3_economy_agriculture_food_security',
+  'GS4_0a7939': 'gs3_economy_agriculture_animal_rearing',
+  'GS4_6e455c': 'gs3_economy_agriculture_food_processing',
+  'GS4_fbe5a9': 'gs3_economy_land_reforms',
+  'GS4_b3b4a3': 'gs3_economy_liberalisation',
+  'GS4_b85f5a': 'gs3_economy_industry',
+  'GS4_39c31c': 'gs3_economy_infrastructure',
+  'GS4_5bae47': 'gs3_economy_investment',
+  'GS4_b0aa50': 'gs3_technology',
+  'GS4_20b60d': 'gs3_technology_applications',
+  'GS4_902e7a': 'gs3_technology_achievements',
+  'GS4_8d1b52': 'gs3_technology_indigenisation',
+  'GS4_13cfcc': 'gs3_technology_awareness',
+  'GS4_32b65b': 'gs3_technology_ipr',
+  'GS4_30b77e': 'gs3_environment',
+  'GS4_f9c488': 'gs3_environment_conservation',
+  'GS4_e567fd': 'gs3_environment_pollution',
+  'GS4_50a430': 'gs3_environment_eia',
+  'GS4_92325e': 'gs3_disaster',
+  'GS4_fad9fe': 'gs3_security',
+  'GS4_240b42': 'gs3_security_extremism',
+  'GS4_3282bc': 'gs3_security_external_actors',
+  'GS4_10a3bf': 'gs3_security_communication',
+  'GS4_b38cab': 'gs3_security_money_laundering',
+  'GS4_97b6b3': 'gs3_security_border',
+  'GS4_b4fee8': 'gs3_security_forces',
+  'GS5_e5b2e7': 'gs4'
+};
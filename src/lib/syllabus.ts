@@ -0,0 +1,194 @@
+// Canonical UPSC syllabus: one versioned tree with stable node ids, shared by
+// quizzes, progress tracking, content tagging and the syllabus browser
+
+import { SYLLABUS_ID_MIGRATIONS, SYLLABUS_PAPERS, SYLLABUS_VERSION } from './syllabus-data';
+
+export type SyllabusExam = 'prelims' | 'mains';
+
+// A node's level follows from its depth below the paper
+export const SYLLABUS_LEVELS = ['paper', 'subject', 'unit', 'topic', 'subtopic'] as const;
+export type SyllabusLevel = typeof SYLLABUS_LEVELS[number];
+
+// Hand-maintained source the tree is built from (see syllabus-data.ts)
+export interface SyllabusOutline {
+  id: string;
+  name: string;
+  description?: string;
+  keywords?: string[];
+  children?: SyllabusOutline[];
+}
+
+export interface SyllabusPaperOutline extends SyllabusOutline {
+  exam: SyllabusExam;
+  code: string;
+}
+
+export interface SyllabusNode {
+  id: string;
+  name: string;
+  description: string;
+  keywords: string[];
+  level: SyllabusLevel;
+  exam: SyllabusExam;
+  paperId: string;
+  parentId: string | null;
+  children: string[];
+}
+
+export interface Syllabus {
+  version: string;
+  papers: string[];
+  nodes: Record<string, SyllabusNode>;
+  // Retired or duplicate ids and the canonical id that replaced them
+  migrations: Record<string, string>;
+}
+
+// Shape the syllabus browser and quiz pickers render
+export interface SyllabusSection {
+  id: string;
+  name: string;
+  parentId?: string;
+  children?: SyllabusSection[];
+}
+
+/**
+ * Flattens the outline into nodes and checks that ids are unique and every
+ * migration lands on a node, so a bad edit fails at load rather than in use.
+ */
+export function buildSyllabus(
+  version: string,
+  papers: SyllabusPaperOutline[],
+  migrations: Record<string, string>
+): Syllabus {
+  const nodes: Record<string, SyllabusNode> = {};
+
+  const addNode = (outline: SyllabusOutline, paper: SyllabusPaperOutline, parentId: string | null, depth: number) => {
+    if (nodes[outline.id]) {
+      throw new Error(`Duplicate syllabus node id: ${outline.id}`);
+    }
+    if (depth >= SYLLABUS_LEVELS.length) {
+      throw new Error(`Syllabus node ${outline.id} is nested deeper than a subtopic`);
+    }
+
+    const children = outline.children || [];
+    nodes[outline.id] = {
+      id: outline.id,
+      name: outline.name,
+      description: outline.description || outline.name,
+      keywords: outline.keywords || [],
+      level: SYLLABUS_LEVELS[depth],
+      exam: paper.exam,
+      paperId: paper.id,
+      parentId,
+      children: children.map(child => child.id)
+    };
+    children.forEach(child => addNode(child, paper, outline.id, depth + 1));
+  };
+
+  papers.forEach(paper => addNode(paper, paper, null, 0));
+
+  Object.entries(migrations).forEach(([from, to]) => {
+    if (nodes[from]) {
+      throw new Error(`Syllabus migration ${from} -> ${to} shadows a live node`);
+    }
+    if (!nodes[to]) {
+      throw new Error(`Syllabus migration ${from} -> ${to} points at an unknown node`);
+    }
+  });
+
+  return { version, papers: papers.map(paper => paper.id), nodes, migrations };
+}
+
+export const CANONICAL_SYLLABUS = buildSyllabus(SYLLABUS_VERSION, SYLLABUS_PAPERS, SYLLABUS_ID_MIGRATIONS);
+
+/**
+ * Canonical id for a current or retired node id, or null when the id was
+ * never part of the syllabus.
+ */
+export function resolveSyllabusId(id: string, syllabus: Syllabus = CANONICAL_SYLLABUS): string | null {
+  if (syllabus.nodes[id]) return id;
+  const migrated = syllabus.migrations[id];
+  return migrated && syllabus.nodes[migrated] ? migrated : null;
+}
+
+export function getSyllabusNode(id: string, syllabus: Syllabus = CANONICAL_SYLLABUS): SyllabusNode | null {
+  const resolved = resolveSyllabusId(id, syllabus);
+  return resolved ? syllabus.nodes[resolved] : null;
+}
+
+// Paper first, the node itself last
+export function getSyllabusPath(id: string, syllabus: Syllabus = CANONICAL_SYLLABUS): SyllabusNode[] {
+  const path: SyllabusNode[] = [];
+  let node = getSyllabusNode(id, syllabus);
+  while (node) {
+    path.unshift(node);
+    node = node.parentId ? syllabus.nodes[node.parentId] : null;
+  }
+  return path;
+}
+
+// Retired ids that now mean `id`, for querying data stored before the migration
+export function getLegacySyllabusIds(id: string, syllabus: Syllabus = CANONICAL_SYLLABUS): string[] {
+  return Object.keys(syllabus.migrations).filter(from => syllabus.migrations[from] === id);
+}
+
+export function getSyllabusPapers(exam?: SyllabusExam, syllabus: Syllabus = CANONICAL_SYLLABUS): SyllabusNode[] {
+  return syllabus.papers
+    .map(paperId => syllabus.nodes[paperId])
+    .filter(paper => !exam || paper.exam === exam);
+}
+
+/**
+ * The tree below the given papers (all papers of `exam` by default), cut off
+ * `depth` levels down; depth 1 is just the papers.
+ */
+export function getSyllabusSections(
+  options: { exam?: SyllabusExam; paperIds?: string[]; depth?: number } = {},
+  syllabus: Syllabus = CANONICAL_SYLLABUS
+): SyllabusSection[] {
+  const depth = options.depth ?? SYLLABUS_LEVELS.length;
+  const papers = options.paperIds
+    ? options.paperIds.map(id => syllabus.nodes[id]).filter(Boolean)
+    : getSyllabusPapers(options.exam, syllabus);
+
+  const toSection = (node: SyllabusNode, remaining: number): SyllabusSection => ({
+    id: node.id,
+    name: node.name,
+    ...(node.parentId && { parentId: node.parentId }),
+    ...(remaining > 1 && node.children.length > 0 && {
+      children: node.children.map(childId => toSection(syllabus.nodes[childId], remaining - 1))
+    })
+  });
+
+  return papers.map(paper => toSection(paper, depth));
+}
+
+/**
+ * Re-keys a record stored against syllabus ids onto canonical ids, merging
+ * entries that migrate onto the same node. Unknown keys are kept as they are.
+ */
+export function migrateSyllabusRecord<T>(
+  record: Record<string, T>,
+  merge: (existing: T, incoming: T) => T,
+  syllabus: Syllabus = CANONICAL_SYLLABUS
+): Record<string, T> {
+  const migrated: Record<string, T> = {};
+  Object.entries(record).forEach(([id, value]) => {
+    const key = resolveSyllabusId(id, syllabus) || id;
+    migrated[key] = key in migrated ? merge(migrated[key], value) : value;
+  });
+  return migrated;
+}
+
+// Indented outline of an exam's syllabus, for prompts that need it as context
+export function formatSyllabusOutline(exam: SyllabusExam, syllabus: Syllabus = CANONICAL_SYLLABUS): string {
+  const lines: string[] = [];
+  const visit = (node: SyllabusNode, depth: number) => {
+    const detail = node.description !== node.name ? ` - ${node.description}` : '';
+    lines.push(depth === 0 ? `## ${node.name}` : `${'  '.repeat(depth - 1)}- ${node.name}${detail}`);
+    node.children.forEach(childId => visit(syllabus.nodes[childId], depth + 1));
+  };
+
+  getSyllabusPapers(exam, syllabus).forEach(paper => visit(paper, 0));
+  return lines.join('\n');
+}
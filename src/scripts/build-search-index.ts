@@ -0,0 +1,81 @@
+/**
+ * Builds the question search index locally and runs a query against it
+ *
+ * Reads questions from a JSON export (an array of questions with `id`, or an
+ * object keyed by question ID) or, without --file, from Firestore using the
+ * FIREBASE_* Admin SDK variables in .env.local.
+ *
+ * To run:
+ *   npm run search:build -- --exam Prelims --file prelims_questions.json --query '"fundamental duties" -directive'
+ *   npm run search:build -- --exam Mains --query federalism --years 2022,2023
+ */
+
+import * as dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' });
+
+import { readFileSync } from 'fs';
+import { QuestionSearchIndex, SEARCH_FACETS, toSearchDocument } from '../lib/question-search';
+
+type ExamType = 'Prelims' | 'Mains';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function loadFromFile(path: string): QuestionSearchIndex {
+  const parsed = JSON.parse(readFileSync(path, 'utf8'));
+  const entries: [string, Record<string, unknown>][] = Array.isArray(parsed)
+    ? parsed.map((question: Record<string, unknown>, index: number) => [String(question.id ?? index), question])
+    : Object.entries(parsed);
+
+  return new QuestionSearchIndex(
+    entries
+      .filter(([, question]) => question.isActive !== false)
+      .map(([id, question]) => toSearchDocument(id, question))
+  );
+}
+
+async function loadFromFirestore(examType: ExamType): Promise<QuestionSearchIndex> {
+  const { initializeApp, getApps, cert } = await import('firebase-admin/app');
+  const { getFirestore } = await import('firebase-admin/firestore');
+  const { getQuestionSearchIndexAdmin } = await import('../lib/question-search-admin');
+
+  if (!getApps().length) {
+    initializeApp({
+      credential: cert({
+        projectId: process.env.FIREBASE_PROJECT_ID!,
+        clientEmail: process.env.FIREBASE_CLIENT_EMAIL!,
+        privateKey: process.env.FIREBASE_PRIVATE_KEY!.replace(/\\n/g, '\n'),
+      }),
+    });
+  }
+
+  return getQuestionSearchIndexAdmin(getFirestore(), examType);
+}
+
+async function main() {
+  const examType = (getArg('exam') || 'Prelims') as ExamType;
+  const file = getArg('file');
+  const query = getArg('query');
+  const years = getArg('years')?.split(',').map(year => parseInt(year)).filter(year => !isNaN(year));
+
+  const started = Date.now();
+  const index = file ? loadFromFile(file) : await loadFromFirestore(examType);
+  console.log(`Indexed ${index.size} ${examType} questions (${index.termCount} terms) in ${Date.now() - started}ms`);
+
+  const result = index.search({ query, years, limit: 10 });
+  console.log(`\n${result.total} matches${query ? ` for ${query}` : ''}`);
+  result.hits.forEach((hit, position) => console.log(`${position + 1}. ${hit.id} (score ${hit.score})`));
+
+  console.log('\nFacets:');
+  SEARCH_FACETS.forEach(facet => {
+    const counts = Object.entries(result.facets[facet]).sort((a, b) => b[1] - a[1]);
+    console.log(`  ${facet}: ${counts.map(([value, count]) => `${value} (${count})`).join(', ') || '—'}`);
+  });
+}
+
+main().catch(error => {
+  console.error('Failed to build search index:', error);
+  process.exit(1);
+});
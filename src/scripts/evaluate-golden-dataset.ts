@@ -0,0 +1,113 @@
+/**
+ * Scores newspaper analysis against the golden dataset and gates on regressions
+ *
+ * Predictions are either recorded from live runs of the enhanced flow (which
+ * needs the model API keys in .env.local) or replayed from a fixtures file, so
+ * a prompt change can be compared with a saved baseline report. Exits with 1
+ * when --baseline is given and any metric regresses.
+ *
+ * To run:
+ *   npm run test:golden-dataset -- --record reports/golden-fixtures.json --out reports/golden-baseline.json
+ *   npm run test:golden-dataset -- --fixtures reports/golden-fixtures.json --baseline reports/golden-baseline.json
+ */
+
+import * as dotenv from 'dotenv';
+dotenv.config({ path: '.env.local' });
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+import { GOLDEN_DATASET } from '../ai/newspaper-analysis/tests/golden-dataset';
+import {
+  GoldenEvaluationReport,
+  GoldenPrediction,
+  compareReports,
+  evaluateGoldenDataset,
+  formatReport
+} from '../ai/newspaper-analysis/metrics/golden-evaluation';
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+function writeFile(path: string, content: string) {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, content);
+}
+
+async function recordPredictions(): Promise<GoldenPrediction[]> {
+  const { batchAnalyzeArticles } = await import('../ai/newspaper-analysis/enhanced-flow');
+
+  const results = await batchAnalyzeArticles(
+    GOLDEN_DATASET.map(sample => ({
+      id: sample.id,
+      input: {
+        sourceText: sample.article.text,
+        examType: 'UPSC Civil Services',
+        analysisFocus: 'Generate Questions (Mains & Prelims)',
+        outputLanguage: 'English'
+      }
+    })),
+    { userId: 'golden_dataset_evaluation', enableExperiments: false }
+  );
+
+  return results.map(({ id, result, metrics }) => ({
+    sampleId: id,
+    output: result,
+    ...(metrics.error && { error: String(metrics.error) })
+  }));
+}
+
+async function main() {
+  const fixtures = getArg('fixtures');
+  const record = getArg('record');
+  const out = getArg('out');
+  const baselinePath = getArg('baseline');
+
+  if (!fixtures && !record) {
+    throw new Error('Pass --fixtures <file> to replay recorded output or --record <file> to run the flow');
+  }
+
+  let predictions: GoldenPrediction[];
+  if (fixtures) {
+    predictions = JSON.parse(readFileSync(fixtures, 'utf8'));
+  } else {
+    console.log(`Running the enhanced flow on ${GOLDEN_DATASET.length} golden samples...`);
+    predictions = await recordPredictions();
+    writeFile(record!, JSON.stringify(predictions, null, 2) + '\n');
+    console.log(`Recorded predictions to ${record}`);
+  }
+
+  const report = evaluateGoldenDataset(predictions, { label: getArg('label') });
+  if (out) {
+    writeFile(out, formatReport(report));
+    console.log(`Wrote report to ${out}`);
+  }
+
+  const { summary } = report;
+  console.log(`\nGolden dataset: ${summary.samples} samples, ${summary.failures} failed`);
+  console.log(`  Relevance error:  ${summary.meanRelevanceError}`);
+  console.log(`  Topic accuracy:   ${summary.topicAccuracy}`);
+  console.log(`  Entity recall:    ${summary.meanEntityRecall}`);
+  console.log(`  Question quality: ${summary.meanQuestionQuality}`);
+
+  if (!baselinePath) return;
+
+  const baseline: GoldenEvaluationReport = JSON.parse(readFileSync(baselinePath, 'utf8'));
+  const regressions = compareReports(baseline, report);
+  if (regressions.length === 0) {
+    console.log(`\nNo regressions against ${baselinePath}`);
+    return;
+  }
+
+  console.error(`\n${regressions.length} regression(s) against ${baselinePath}:`);
+  regressions.forEach(regression => console.error(
+    `  ${regression.sampleId ? `${regression.sampleId} ` : ''}${regression.metric}: ${regression.baseline} -> ${regression.current}`
+  ));
+  process.exit(1);
+}
+
+main().catch(error => {
+  console.error('Golden dataset evaluation failed:', error);
+  process.exit(1);
+});
@@ -1,7 +1,7 @@
 import { GoogleGenerativeAI } from '@google/generative-ai';
 import { readFile } from 'fs/promises';
 import sharp from 'sharp';
-import MultiAIService from './multiAIService';
+import MultiAIService, { describeGradingCriteria } from './multiAIService';
 
 // Answer evaluation interfaces
 export interface AnswerEvaluationOptions {
@@ -12,6 +12,23 @@ export interface AnswerEvaluationOptions {
   evaluationCriteria?: string[];
   language?: 'english' | 'hindi' | 'mixed';
   answerType?: 'handwritten' | 'typed';
+  // Question-specific marking scheme (MainsQuestion.gradingCriteria)
+  gradingCriteria?: { criterion: string; weightage: number; description: string }[];
+}
+
+export interface TranscribedPage {
+  text: string;
+  confidence: number;
+  readabilityScore: number;
+}
+
+// Marks for an answer that was transcribed separately, e.g. one segment of a test booklet
+export interface TranscribedAnswerEvaluation {
+  totalMarks: number;
+  awardedMarks: number;
+  confidence: number;
+  criteriaBreakdown: { criterion: string; marks: number; feedback?: string }[];
+  analysis: EvaluatedAnswer['analysis'];
 }
 
 export interface EvaluatedAnswer {
@@ -146,12 +163,61 @@ export class AnswerEvaluationService {
     }
   }
 
+  /**
+   * Evaluates answer text that has already been transcribed. Multi-AI consensus
+   * is used when any provider answers, otherwise a single Gemini evaluation.
+   */
+  async evaluateTranscribedAnswer(
+    answerText: string,
+    options: AnswerEvaluationOptions
+  ): Promise<TranscribedAnswerEvaluation> {
+    const multiResult = await this.multiAI.evaluateAnswerMultiAI({
+      questionText: options.questionText,
+      studentAnswer: answerText,
+      modelAnswer: options.modelAnswer,
+      subject: options.subject,
+      maxMarks: options.maxMarks,
+      gradingCriteria: options.gradingCriteria
+    });
+
+    const consensus = multiResult.consensus;
+    if (consensus?.evaluation) {
+      return {
+        totalMarks: options.maxMarks,
+        awardedMarks: Number(consensus.evaluation.awardedMarks) || 0,
+        confidence: Number(consensus.evaluation.confidence ?? consensus.confidence) || 0,
+        criteriaBreakdown: Array.isArray(consensus.criteriaBreakdown) ? consensus.criteriaBreakdown : [],
+        analysis: {
+          strengths: consensus.analysis?.strengths || [],
+          weaknesses: consensus.analysis?.weaknesses || [],
+          missingPoints: consensus.analysis?.missingPoints || [],
+          incorrectPoints: consensus.analysis?.incorrectPoints || []
+        }
+      };
+    }
+
+    const fallback = await this.performAIEvaluation({ text: answerText, confidence: 1 }, options);
+    const criteriaWiseMarks: Record<string, { marks: number; feedback?: string }> = fallback.criteriaWiseMarks || {};
+    return {
+      totalMarks: options.maxMarks,
+      awardedMarks: Number(fallback.awardedMarks) || 0,
+      confidence: Number(fallback.confidence) || 0.5,
+      criteriaBreakdown: Object.entries(criteriaWiseMarks).map(([criterion, score]) => ({
+        criterion,
+        marks: Number(score.marks) || 0,
+        ...(score.feedback && { feedback: score.feedback })
+      })),
+      analysis: {
+        strengths: fallback.detailedAnalysis?.strengths || [],
+        weaknesses: fallback.detailedAnalysis?.weaknesses || [],
+        missingPoints: fallback.detailedAnalysis?.missingPoints || [],
+        incorrectPoints: fallback.detailedAnalysis?.incorrectPoints || []
+      }
+    };
+  }
+
   // Extract text from handwritten answer using Google Vision AI
-  private async extractTextFromHandwriting(answerImage: Buffer): Promise<{
-    text: string;
-    confidence: number;
-    readabilityScore: number;
-  }> {
+  async extractTextFromHandwriting(answerImage: Buffer): Promise<TranscribedPage> {
     try {
       // Enhance image for better OCR
       const enhancedImage = await this.enhanceImageForOCR(answerImage);
@@ -263,10 +329,10 @@ STUDENT ANSWER TO EVALUATE:
 ${extractedText.text}
 
 EVALUATION CRITERIA:
-1. Content Accuracy (40%)
+${options.gradingCriteria?.length ? describeGradingCriteria(options.gradingCriteria, options.maxMarks) : `1. Content Accuracy (40%)
 2. Conceptual Understanding (25%)
 3. Structure and Presentation (20%)
-4. Use of Examples and Evidence (15%)
+4. Use of Examples and Evidence (15%)`}
 
 PROVIDE DETAILED EVALUATION:
 
@@ -0,0 +1,41 @@
+import { db } from '@/lib/firebase';
+import { doc, getDoc, setDoc, serverTimestamp } from 'firebase/firestore';
+import type { DafProfile } from '@/lib/interview-board';
+
+// One DAF per user, kept apart from userProfiles because it is only read by the interview board
+const DAF_PROFILES_COLLECTION = 'dafProfiles';
+
+export async function saveDafProfile(userId: string, profile: DafProfile) {
+  if (!db) {
+    console.log("Firestore not initialized. Skipping saveDafProfile.");
+    return;
+  }
+  try {
+    const dafProfileRef = doc(db, DAF_PROFILES_COLLECTION, userId);
+    await setDoc(dafProfileRef, { ...profile, updatedAt: serverTimestamp() });
+  } catch (error) {
+    console.error("Error saving DAF profile: ", error);
+    throw error;
+  }
+}
+
+export async function getDafProfile(userId: string): Promise<DafProfile | null> {
+  if (!db) {
+    console.log("Firestore not initialized. Skipping getDafProfile.");
+    return null;
+  }
+  try {
+    const dafProfileRef = doc(db, DAF_PROFILES_COLLECTION, userId);
+    const docSnap = await getDoc(dafProfileRef);
+    if (docSnap.exists()) {
+      // updatedAt is a Firestore Timestamp and is not part of the profile
+      const profile = { ...docSnap.data() };
+      delete profile.updatedAt;
+      return profile as DafProfile;
+    }
+    return null;
+  } catch (error) {
+    console.error("Error fetching DAF profile: ", error);
+    return null;
+  }
+}
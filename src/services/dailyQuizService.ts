@@ -5,6 +5,7 @@ import { db } from '@/lib/firebase';
 import { Firestore } from 'firebase/firestore';
 import { collection, addDoc, query, where, getDocs, Timestamp, doc, setDoc, getDoc } from 'firebase/firestore';
 import { saveQuizAttempt } from './quizAttemptsService';
+import { toReviewQuestionFromMCQ } from '@/lib/spaced-repetition';
 
 export interface QuizSession {
   id?: string;
@@ -32,7 +33,8 @@ export async function createQuizSession(
       // Cast the difficulty to the enum type expected by generateDailyQuiz
       difficulty: difficulty as 'easy' | 'medium' | 'hard' | 'adaptive',
       examType: 'UPSC Civil Services',
-      outputLanguage: 'English'
+      outputLanguage: 'English',
+      userId
     });
     
     // Create a new quiz session in Firestore
@@ -125,7 +127,8 @@ export async function submitQuizAnswer(
       selectedOption,
       isCorrect,
       question.subject,
-      question.difficulty
+      question.difficulty,
+      { question: toReviewQuestionFromMCQ(question), source: { type: 'daily-quiz', sessionId } }
     );
     
     return { isCorrect };
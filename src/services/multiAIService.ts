@@ -39,6 +39,19 @@ export interface AnswerEvaluationPrompt {
   modelAnswer?: string;
   subject: string;
   maxMarks: number;
+  // Question-specific marking scheme; the standard four criteria are used without it
+  gradingCriteria?: { criterion: string; weightage: number; description: string }[];
+}
+
+// Numbered criteria list for evaluation prompts, with the marks each criterion carries
+export function describeGradingCriteria(criteria: { criterion: string; weightage: number; description: string }[], maxMarks: number): string {
+  const totalWeight = criteria.reduce((sum, criterion) => sum + criterion.weightage, 0) || 1;
+  return criteria
+    .map((criterion, index) => {
+      const marks = Math.round((maxMarks * criterion.weightage / totalWeight) * 100) / 100;
+      return `${index + 1}. ${criterion.criterion} (${criterion.weightage}%, ${marks} marks)${criterion.description ? ` - ${criterion.description}` : ''}`;
+    })
+    .join('\n');
 }
 
 export class MultiAIService {
@@ -374,6 +387,24 @@ If no questions are found, return {"pageAnalysis": {"hasQuestions": false, "ques
 
   // Build answer evaluation prompt
   private buildAnswerEvaluationPrompt(prompt: AnswerEvaluationPrompt): string {
+    const hasCriteria = !!prompt.gradingCriteria?.length;
+    const criteria = hasCriteria
+      ? describeGradingCriteria(prompt.gradingCriteria!, prompt.maxMarks)
+      : `1. Content Accuracy (40%)
+2. Conceptual Understanding (25%)
+3. Structure and Presentation (20%)
+4. Use of Examples and Evidence (15%)`;
+    const criteriaBreakdown = hasCriteria
+      ? `[
+    {"criterion": "criterion name exactly as listed", "marks": number, "feedback": "detailed feedback"}
+  ]`
+      : `{
+    "contentAccuracy": {"marks": number, "feedback": "detailed feedback"},
+    "conceptualUnderstanding": {"marks": number, "feedback": "detailed feedback"},
+    "structurePresentation": {"marks": number, "feedback": "detailed feedback"},
+    "examplesEvidence": {"marks": number, "feedback": "detailed feedback"}
+  }`;
+
     return `
 You are an expert UPSC examiner with 20+ years of experience evaluating ${prompt.subject} answers.
 
@@ -385,10 +416,7 @@ STUDENT ANSWER TO EVALUATE:
 ${prompt.studentAnswer}
 
 EVALUATION CRITERIA:
-1. Content Accuracy (40%)
-2. Conceptual Understanding (25%)
-3. Structure and Presentation (20%)
-4. Use of Examples and Evidence (15%)
+${criteria}
 
 PROVIDE COMPREHENSIVE EVALUATION:
 
@@ -407,12 +435,7 @@ OUTPUT FORMAT (JSON ONLY):
     "missingPoints": ["key point 1", "key point 2"],
     "incorrectPoints": ["error 1", "error 2"]
   },
-  "criteriaBreakdown": {
-    "contentAccuracy": {"marks": number, "feedback": "detailed feedback"},
-    "conceptualUnderstanding": {"marks": number, "feedback": "detailed feedback"},
-    "structurePresentation": {"marks": number, "feedback": "detailed feedback"},
-    "examplesEvidence": {"marks": number, "feedback": "detailed feedback"}
-  },
+  "criteriaBreakdown": ${criteriaBreakdown},
   "suggestions": {
     "immediate": ["specific improvement 1", "improvement 2"],
     "longTerm": ["strategy 1", "strategy 2"],
@@ -554,12 +577,35 @@ Return ONLY valid JSON. Be fair but strict according to UPSC standards.
         longTerm: [],
         resources: []
       },
+      criteriaBreakdown: this.mergeCriteriaBreakdowns(validResults.map(r => (r as { data: { criteriaBreakdown?: unknown } }).data.criteriaBreakdown)),
       consensus: true,
       sourceProviders: validResults.map((r: any) => r.provider),
       agreementScore: this.calculateAgreementScore(validResults)
     };
   }
 
+  // Average per-criterion marks across providers that returned a criteria list
+  private mergeCriteriaBreakdowns(breakdowns: unknown[]): { criterion: string; marks: number; feedback?: string }[] | undefined {
+    const lists = breakdowns.filter(Array.isArray) as { criterion: string; marks: number; feedback?: string }[][];
+    if (lists.length === 0) return undefined;
+
+    const merged = new Map<string, { criterion: string; total: number; count: number; feedback?: string }>();
+    lists.flat().forEach(item => {
+      if (!item?.criterion || typeof item.marks !== 'number') return;
+      const key = item.criterion.trim().toLowerCase();
+      const entry = merged.get(key) || { criterion: item.criterion, total: 0, count: 0, feedback: item.feedback };
+      entry.total += item.marks;
+      entry.count += 1;
+      merged.set(key, entry);
+    });
+
+    return Array.from(merged.values()).map(entry => ({
+      criterion: entry.criterion,
+      marks: Math.round((entry.total / entry.count) * 100) / 100,
+      ...(entry.feedback && { feedback: entry.feedback })
+    }));
+  }
+
   // Calculate confidence based on results and errors
   private calculateConfidence(results: any, errors: any): number {
     const totalProviders = this.providers.length;
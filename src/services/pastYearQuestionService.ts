@@ -2,6 +2,9 @@ import { User } from 'firebase/auth';
 import { Question, QuestionSet } from '../types/quiz';
 import { doc, collection, getDoc, getDocs, setDoc, updateDoc, query, where, Timestamp, addDoc, arrayUnion, serverTimestamp } from 'firebase/firestore';
 import { db } from '../config/firebase';
+import { toReviewQuestionFromPastYear } from '@/lib/spaced-repetition';
+import { addToReviewQueue } from './reviewQueueService';
+import { getLegacySyllabusIds, getSyllabusNode, getSyllabusPapers, migrateSyllabusRecord } from '@/lib/syllabus';
 
 export type PastYearFilter = {
   year?: number;
@@ -24,13 +27,31 @@ export type UserAnswer = {
   timestamp: Date;
 };
 
+export type SectionProgress = { attempted: number; correct: number; total: number };
+
+export type SyllabusSectionSummary = {
+  id: string;
+  name: string;
+  parentId?: string;
+  children?: Array<{ id: string; name: string }>;
+};
+
+// Progress recorded against retired section ids is folded into the section that replaced them
+function migrateSectionProgress(progress: Record<string, SectionProgress>): Record<string, SectionProgress> {
+  return migrateSyllabusRecord(progress, (existing, incoming) => ({
+    attempted: existing.attempted + incoming.attempted,
+    correct: existing.correct + incoming.correct,
+    total: Math.max(existing.total, incoming.total)
+  }));
+}
+
 export type UserProgressData = {
   userId: string;
   yearProgress: YearProgress[];
   lastActiveDate?: Date;
   currentStreak?: number;
   bestStreak?: number;
-  syllabusProgress?: Record<string, { attempted: number; correct: number; total: number }>;
+  syllabusProgress?: Record<string, SectionProgress>;
   
   // Additional fields for performance metrics
   total: number;
@@ -62,7 +83,10 @@ export default class PastYearQuestionService {
       const userProgressDoc = await getDoc(userProgressRef);
       
       if (userProgressDoc.exists()) {
-        return userProgressDoc.data() as UserProgressData;
+        const data = userProgressDoc.data() as UserProgressData;
+        return data.syllabusProgress
+          ? { ...data, syllabusProgress: migrateSectionProgress(data.syllabusProgress) }
+          : data;
       }
       
       return null;
@@ -188,9 +212,12 @@ export default class PastYearQuestionService {
         return { id: `py-section-${sectionId}`, title: `${sectionId.toUpperCase()} Questions`, description: `Questions from syllabus section ${sectionId}`, questions: mockQuestions, metadata: { source: 'past-year', syllabusSectionId: sectionId, }, };
     }
     try {
-      // Get questions collection reference
+      // Get questions collection reference; questions tagged before the section
+      // was renamed still carry its old id
+      const section = this.getSyllabusSection(sectionId);
+      const sectionIds = section ? [section.id, ...getLegacySyllabusIds(section.id)] : [sectionId];
       const questionsRef = collection(db, 'pastYearQuestions');
-      const q = query(questionsRef, where('metadata.syllabusSectionId', '==', sectionId));
+      const q = query(questionsRef, where('metadata.syllabusSectionId', 'in', sectionIds));
       
       try {
         // Try to fetch from database first
@@ -225,35 +252,16 @@ export default class PastYearQuestionService {
             questions.push(questionData);
           });
           
-          // Get the section name
-          let sectionName = sectionId;
-          const allSections = await this.getAvailableSyllabusSections();
-          
-          // Look for the section in main sections and their children
-          for (const section of allSections) {
-            if (section.id === sectionId) {
-              sectionName = section.name;
-              break;
-            }
-            
-            // Check children
-            if (section.children) {
-              const child = section.children.find(child => child.id === sectionId);
-              if (child) {
-                sectionName = child.name;
-                break;
-              }
-            }
-          }
+          const sectionName = section?.name || sectionId;
           
           return {
-            id: `py-section-${sectionId}`,
+            id: `py-section-${section?.id || sectionId}`,
             title: `${sectionName} Questions`,
             description: `Questions from syllabus section ${sectionName}`,
             questions,
             metadata: {
               source: 'past-year',
-              syllabusSectionId: sectionId,
+              syllabusSectionId: section?.id || sectionId,
             },
           };
         }
@@ -398,6 +406,15 @@ export default class PastYearQuestionService {
           syllabusSection: questionData?.metadata?.syllabusSectionId
         }
       });
+
+      // Wrong answers come back in the spaced-repetition review queue
+      if (questionData && !isCorrect && answer && answer !== 'skipped') {
+        await addToReviewQueue(userId, {
+          source: { type: 'past-year', pastYearQuestionId: questionId },
+          reason: 'wrong',
+          question: toReviewQuestionFromPastYear(questionData),
+        });
+      }
       
       // Get current user progress
       const userProgressDoc = await getDoc(userProgressRef);
@@ -459,9 +476,9 @@ export default class PastYearQuestionService {
           }
           
           // Update syllabus progress
-          const syllabusProgress = userData.syllabusProgress || {};
+          const syllabusProgress = migrateSectionProgress(userData.syllabusProgress || {});
           if (questionData?.metadata?.syllabusSectionId) {
-            const sectionId = questionData.metadata.syllabusSectionId;
+            const sectionId = this.getSyllabusSection(questionData.metadata.syllabusSectionId)?.id || questionData.metadata.syllabusSectionId;
             if (!syllabusProgress[sectionId]) {
               syllabusProgress[sectionId] = { attempted: 0, correct: 0, total: 20 };
             }
@@ -492,9 +509,9 @@ export default class PastYearQuestionService {
           });
         }
         
-        const syllabusProgress: Record<string, { attempted: number; correct: number; total: number }> = {};
+        const syllabusProgress: Record<string, SectionProgress> = {};
         if (questionData?.metadata?.syllabusSectionId) {
-          const sectionId = questionData.metadata.syllabusSectionId;
+          const sectionId = this.getSyllabusSection(questionData.metadata.syllabusSectionId)?.id || questionData.metadata.syllabusSectionId;
           syllabusProgress[sectionId] = { 
             attempted: 1, 
             correct: isCorrect ? 1 : 0, 
@@ -572,106 +589,31 @@ export default class PastYearQuestionService {
   }
 
   /**
-   * Gets all available syllabus sections
+   * Gets all available syllabus sections: the Prelims GS subjects and the CSAT
+   * paper from the canonical syllabus, each with its topics
    * @returns Promise resolving to an array of available syllabus sections
    */
-  static async getAvailableSyllabusSections(): Promise<
-    Array<{
-      id: string;
-      name: string;
-      parentId?: string;
-      children?: Array<{ id: string; name: string }>;
-    }>
-  > {
-    try {
-      // TODO: Replace with actual API call to fetch from database
-      // For now returning mock data based on actual UPSC syllabus
-      return [
-        {
-          id: 'gs-current-events',
-          name: 'Current Events of National and International Importance',
-          children: [
-            { id: 'gs-current-events-national', name: 'National Current Events' },
-            { id: 'gs-current-events-international', name: 'International Current Events' },
-          ],
-        },
-        {
-          id: 'gs-history',
-          name: 'History of India and Indian National Movement',
-          children: [
-            { id: 'gs-history-ancient', name: 'Ancient Indian History' },
-            { id: 'gs-history-medieval', name: 'Medieval Indian History' },
-            { id: 'gs-history-modern', name: 'Modern Indian History' },
-            { id: 'gs-history-national-movement', name: 'Indian National Movement' },
-          ],
-        },
-        {
-          id: 'gs-geography',
-          name: 'Indian and World Geography',
-          children: [
-            { id: 'gs-geography-physical', name: 'Physical Geography' },
-            { id: 'gs-geography-social', name: 'Social Geography' },
-            { id: 'gs-geography-economic', name: 'Economic Geography' },
-            { id: 'gs-geography-world', name: 'World Geography' },
-          ],
-        },
-        {
-          id: 'gs-polity',
-          name: 'Indian Polity and Governance',
-          children: [
-            { id: 'gs-polity-constitution', name: 'Constitution' },
-            { id: 'gs-polity-political-system', name: 'Political System' },
-            { id: 'gs-polity-panchayati-raj', name: 'Panchayati Raj' },
-            { id: 'gs-polity-public-policy', name: 'Public Policy' },
-            { id: 'gs-polity-rights', name: 'Rights Issues' },
-          ],
-        },
-        {
-          id: 'gs-economy',
-          name: 'Economic and Social Development',
-          children: [
-            { id: 'gs-economy-sustainable-dev', name: 'Sustainable Development' },
-            { id: 'gs-economy-poverty', name: 'Poverty' },
-            { id: 'gs-economy-inclusion', name: 'Inclusion' },
-            { id: 'gs-economy-demographics', name: 'Demographics' },
-            { id: 'gs-economy-social-sector', name: 'Social Sector Initiatives' },
-          ],
-        },
-        {
-          id: 'gs-environment',
-          name: 'Environment, Ecology, Biodiversity, and Climate Change',
-          children: [
-            { id: 'gs-environment-ecology', name: 'Ecology' },
-            { id: 'gs-environment-biodiversity', name: 'Biodiversity' },
-            { id: 'gs-environment-climate', name: 'Climate Change' },
-          ],
-        },
-        {
-          id: 'gs-science',
-          name: 'General Science',
-          children: [
-            { id: 'gs-science-physics', name: 'Physics' },
-            { id: 'gs-science-chemistry', name: 'Chemistry' },
-            { id: 'gs-science-biology', name: 'Biology' },
-            { id: 'gs-science-tech', name: 'Technology' },
-          ],
-        },
-        {
-          id: 'csat',
-          name: 'CSAT (Paper II)',
-          children: [
-            { id: 'csat-comprehension', name: 'Comprehension' },
-            { id: 'csat-reasoning', name: 'Logical Reasoning and Analytical Ability' },
-            { id: 'csat-decision-making', name: 'Decision Making and Problem Solving' },
-            { id: 'csat-mental-ability', name: 'General Mental Ability' },
-            { id: 'csat-numeracy', name: 'Basic Numeracy' },
-            { id: 'csat-data-interpretation', name: 'Data Interpretation' },
-          ],
-        },
-      ];
-    } catch (error) {
-      console.error('Error fetching available syllabus sections:', error);
-      throw error;
-    }
+  static async getAvailableSyllabusSections(): Promise<SyllabusSectionSummary[]> {
+    const [generalStudies, ...otherPapers] = getSyllabusPapers('prelims');
+    const toSection = (id: string): SyllabusSectionSummary => {
+      const node = getSyllabusNode(id)!;
+      return {
+        id: node.id,
+        name: node.name,
+        children: node.children.map(childId => ({ id: childId, name: getSyllabusNode(childId)!.name }))
+      };
+    };
+
+    return [...generalStudies.children, ...otherPapers.map(paper => paper.id)].map(toSection);
+  }
+
+  /**
+   * Looks up a syllabus section by its current or a retired id
+   * @param sectionId The section ID
+   * @returns The section under its canonical ID, or null if there is no such section
+   */
+  static getSyllabusSection(sectionId: string): { id: string; name: string } | null {
+    const node = getSyllabusNode(sectionId);
+    return node ? { id: node.id, name: node.name } : null;
   }
 }
@@ -9,7 +9,6 @@ import {
   query,
   where,
   orderBy,
-  limit,
   startAfter,
   serverTimestamp,
   Timestamp,
@@ -17,6 +16,8 @@ import {
   arrayUnion
 } from 'firebase/firestore';
 import { db } from '@/lib/firebase';
+import { getDedupFields } from '@/lib/question-dedup';
+import type { QuestionStatus } from '@/lib/question-workflow';
 
 // Types for Question Bank
 export interface PrelimsQuestion {
@@ -35,6 +36,16 @@ export interface PrelimsQuestion {
   correctAnswer: string[];
   explanation: string;
   
+  // Hindi version (the UPSC paper is bilingual)
+  questionHi?: string;
+  optionsHi?: {
+    A: string;
+    B: string;
+    C: string;
+    D: string;
+  };
+  explanationHi?: string;
+  
   // Classification
   year: number;
   paper: 'GS1' | 'GS2' | 'GS3' | 'GS4' | 'CSAT';
@@ -70,6 +81,18 @@ export interface PrelimsQuestion {
   createdBy: string;
   isActive: boolean;
   version: number;
+  
+  // Near-duplicate detection (see lib/question-dedup)
+  dedupFingerprint?: string;
+  dedupBands?: string[];
+
+  // Review workflow (see lib/question-workflow); derived from verified/isActive when absent
+  status?: QuestionStatus;
+  pendingVersion?: number; // edit awaiting review; the fields above stay the served revision
+  reviewerId?: string;
+  reviewerEmail?: string;
+  lastEditedBy?: string;
+  statusUpdatedAt?: Timestamp;
 }
 
 export interface MainsQuestion {
@@ -78,10 +101,12 @@ export interface MainsQuestion {
   
   // Question Content
   question: string;
+  questionHi?: string;
   questionType: 'Essay' | 'Analytical' | 'Case-Study' | 'Map-Based' | 'Diagram-Based';
   subParts: Array<{
     part: string;
     question: string;
+    questionHi?: string;
     marks: number;
     expectedLength: number;
   }>;
@@ -148,6 +173,18 @@ export interface MainsQuestion {
   createdBy: string;
   isActive: boolean;
   version: number;
+  
+  // Near-duplicate detection (see lib/question-dedup)
+  dedupFingerprint?: string;
+  dedupBands?: string[];
+
+  // Review workflow (see lib/question-workflow); derived from verified/isActive when absent
+  status?: QuestionStatus;
+  pendingVersion?: number; // edit awaiting review; the fields above stay the served revision
+  reviewerId?: string;
+  reviewerEmail?: string;
+  lastEditedBy?: string;
+  statusUpdatedAt?: Timestamp;
 }
 
 export interface QuestionSet {
@@ -196,7 +233,7 @@ export interface UploadBatch {
   uploadedBy: string;
   uploadedAt: Timestamp;
   
-  status: 'Processing' | 'Completed' | 'Failed' | 'Partial';
+  status: 'Processing' | 'Pending Review' | 'Completed' | 'Failed' | 'Partial';
   examType: 'Prelims' | 'Mains';
   year: number;
   paper?: string;
@@ -236,22 +273,6 @@ export interface UploadBatch {
   }>;
 }
 
-// Search and Filter Options
-export interface QuestionSearchOptions {
-  examType: 'Prelims' | 'Mains';
-  years?: number[];
-  papers?: string[];
-  subjects?: string[];
-  subtopics?: string[];
-  difficultyLevel?: ('Easy' | 'Medium' | 'Hard')[];
-  questionType?: string[];
-  verified?: boolean;
-  limit?: number;
-  offset?: number;
-  sortBy?: 'year' | 'difficulty' | 'successRate' | 'attemptCount';
-  sortOrder?: 'asc' | 'desc';
-}
-
 export class QuestionBankService {
   // === PRELIMS QUESTIONS ===
   
@@ -262,6 +283,7 @@ export class QuestionBankService {
       
       const question: PrelimsQuestion = {
         ...questionData,
+        ...getDedupFields(questionData),
         id: questionRef.id,
         createdAt: now as Timestamp,
         updatedAt: now as Timestamp,
@@ -289,52 +311,6 @@ export class QuestionBankService {
     }
   }
   
-  static async searchPrelimsQuestions(searchOptions: QuestionSearchOptions): Promise<PrelimsQuestion[]> {
-    try {
-      let q = query(collection(db, 'prelims_questions'));
-      
-      // Apply filters
-      if (searchOptions.years && searchOptions.years.length > 0) {
-        q = query(q, where('year', 'in', searchOptions.years));
-      }
-      
-      if (searchOptions.papers && searchOptions.papers.length > 0) {
-        q = query(q, where('paper', 'in', searchOptions.papers));
-      }
-      
-      if (searchOptions.subjects && searchOptions.subjects.length > 0) {
-        q = query(q, where('subject', 'array-contains-any', searchOptions.subjects));
-      }
-      
-      if (searchOptions.difficultyLevel && searchOptions.difficultyLevel.length > 0) {
-        q = query(q, where('difficultyLevel', 'in', searchOptions.difficultyLevel));
-      }
-      
-      if (searchOptions.verified !== undefined) {
-        q = query(q, where('verified', '==', searchOptions.verified));
-      }
-      
-      q = query(q, where('isActive', '==', true));
-      
-      // Apply sorting
-      if (searchOptions.sortBy) {
-        const sortOrder = searchOptions.sortOrder === 'desc' ? 'desc' : 'asc';
-        q = query(q, orderBy(searchOptions.sortBy, sortOrder));
-      }
-      
-      // Apply limit
-      if (searchOptions.limit) {
-        q = query(q, limit(searchOptions.limit));
-      }
-      
-      const snapshot = await getDocs(q);
-      return snapshot.docs.map(doc => doc.data() as PrelimsQuestion);
-    } catch (error) {
-      console.error('Error searching prelims questions:', error);
-      throw error;
-    }
-  }
-  
   // === MAINS QUESTIONS ===
   
   static async createMainsQuestion(questionData: Omit<MainsQuestion, 'id' | 'createdAt' | 'updatedAt'>): Promise<string> {
@@ -344,6 +320,7 @@ export class QuestionBankService {
       
       const question: MainsQuestion = {
         ...questionData,
+        ...getDedupFields(questionData),
         id: questionRef.id,
         createdAt: now as Timestamp,
         updatedAt: now as Timestamp,
@@ -371,46 +348,6 @@ export class QuestionBankService {
     }
   }
   
-  static async searchMainsQuestions(searchOptions: QuestionSearchOptions): Promise<MainsQuestion[]> {
-    try {
-      let q = query(collection(db, 'mains_questions'));
-      
-      // Apply filters similar to prelims
-      if (searchOptions.years && searchOptions.years.length > 0) {
-        q = query(q, where('year', 'in', searchOptions.years));
-      }
-      
-      if (searchOptions.papers && searchOptions.papers.length > 0) {
-        q = query(q, where('paper', 'in', searchOptions.papers));
-      }
-      
-      if (searchOptions.subjects && searchOptions.subjects.length > 0) {
-        q = query(q, where('subject', 'array-contains-any', searchOptions.subjects));
-      }
-      
-      if (searchOptions.difficultyLevel && searchOptions.difficultyLevel.length > 0) {
-        q = query(q, where('difficultyLevel', 'in', searchOptions.difficultyLevel));
-      }
-      
-      q = query(q, where('isActive', '==', true));
-      
-      if (searchOptions.sortBy) {
-        const sortOrder = searchOptions.sortOrder === 'desc' ? 'desc' : 'asc';
-        q = query(q, orderBy(searchOptions.sortBy, sortOrder));
-      }
-      
-      if (searchOptions.limit) {
-        q = query(q, limit(searchOptions.limit));
-      }
-      
-      const snapshot = await getDocs(q);
-      return snapshot.docs.map(doc => doc.data() as MainsQuestion);
-    } catch (error) {
-      console.error('Error searching mains questions:', error);
-      throw error;
-    }
-  }
-  
   // === BULK OPERATIONS ===
   
   static async bulkImportPrelimsQuestions(
@@ -434,6 +371,7 @@ export class QuestionBankService {
           
           const question: PrelimsQuestion = {
             ...questionData,
+            ...getDedupFields(questionData),
             id: questionRef.id,
             createdAt: now as Timestamp,
             updatedAt: now as Timestamp,
@@ -480,6 +418,7 @@ export class QuestionBankService {
           
           const question: MainsQuestion = {
             ...questionData,
+            ...getDedupFields(questionData),
             id: questionRef.id,
             createdAt: now as Timestamp,
             updatedAt: now as Timestamp,
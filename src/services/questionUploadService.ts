@@ -14,6 +14,7 @@ import {
 } from 'firebase/storage';
 import { db, storage } from '@/lib/firebase';
 import { QuestionBankService, PrelimsQuestion, MainsQuestion, UploadBatch } from './questionBankService';
+import { DuplicateMatch, describeDuplicate } from '@/lib/question-dedup';
 import * as XLSX from 'xlsx';
 
 // File upload types
@@ -30,8 +31,22 @@ export interface FileUploadResult {
     successfulRecords: number;
     failedRecords: number;
   };
+  requiresReview?: boolean; // duplicates were flagged and nothing has been imported yet
+  duplicates?: DuplicateMatch[];
 }
 
+type UploadedQuestion = Partial<PrelimsQuestion> | Partial<MainsQuestion>;
+
+/**
+ * Runs after validation and before anything is written. Returning matches
+ * holds the batch for review instead of importing it.
+ */
+export type DuplicateCheck = (
+  questions: UploadedQuestion[],
+  examType: 'Prelims' | 'Mains',
+  batchId: string
+) => Promise<DuplicateMatch[]>;
+
 export interface QuestionUploadData {
   examType: 'Prelims' | 'Mains';
   year: number;
@@ -50,6 +65,12 @@ export const PRELIMS_EXCEL_COLUMNS = {
   'Option D': 'options.D',
   'Correct Answer': 'correctAnswer',
   'Explanation': 'explanation',
+  'Question (Hindi)': 'questionHi',
+  'Option A (Hindi)': 'optionsHi.A',
+  'Option B (Hindi)': 'optionsHi.B',
+  'Option C (Hindi)': 'optionsHi.C',
+  'Option D (Hindi)': 'optionsHi.D',
+  'Explanation (Hindi)': 'explanationHi',
   'Year': 'year',
   'Paper': 'paper',
   'Question Number': 'questionNumber',
@@ -67,6 +88,7 @@ export const PRELIMS_EXCEL_COLUMNS = {
 export const MAINS_EXCEL_COLUMNS = {
   'Question ID': 'questionId',
   'Question': 'question',
+  'Question (Hindi)': 'questionHi',
   'Question Type': 'questionType',
   'Sub Parts': 'subParts',
   'Year': 'year',
@@ -95,7 +117,8 @@ export class QuestionUploadService {
     examType: 'Prelims' | 'Mains',
     userId: string,
     year: number,
-    paper?: string
+    paper?: string,
+    duplicateCheck?: DuplicateCheck
   ): Promise<FileUploadResult> {
     try {
       // Validate file
@@ -122,13 +145,13 @@ export class QuestionUploadService {
       
       switch (fileType) {
         case 'excel':
-          result = await this.processExcelFile(file, examType, userId, batchId);
+          result = await this.processExcelFile(file, examType, userId, batchId, duplicateCheck);
           break;
         case 'csv':
-          result = await this.processCsvFile(file, examType, userId, batchId);
+          result = await this.processCsvFile(file, examType, userId, batchId, duplicateCheck);
           break;
         case 'json':
-          result = await this.processJsonFile(file, examType, userId, batchId);
+          result = await this.processJsonFile(file, examType, userId, batchId, duplicateCheck);
           break;
         default:
           result = {
@@ -206,7 +229,8 @@ export class QuestionUploadService {
     file: File,
     examType: 'Prelims' | 'Mains',
     userId: string,
-    batchId: string
+    batchId: string,
+    duplicateCheck?: DuplicateCheck
   ): Promise<FileUploadResult> {
     try {
       const buffer = await file.arrayBuffer();
@@ -231,40 +255,7 @@ export class QuestionUploadService {
         };
       }
       
-      // Import questions
-      if (examType === 'Prelims') {
-        const result = await QuestionBankService.bulkImportPrelimsQuestions(
-          questions as Omit<PrelimsQuestion, 'id' | 'createdAt' | 'updatedAt'>[],
-          userId
-        );
-        
-        return {
-          success: result.failed.length === 0,
-          message: `Import completed. ${result.successful.length} successful, ${result.failed.length} failed`,
-          stats: {
-            totalRecords: questions.length,
-            processedRecords: questions.length,
-            successfulRecords: result.successful.length,
-            failedRecords: result.failed.length
-          }
-        };
-      } else {
-        const result = await QuestionBankService.bulkImportMainsQuestions(
-          questions as Omit<MainsQuestion, 'id' | 'createdAt' | 'updatedAt'>[],
-          userId
-        );
-        
-        return {
-          success: result.failed.length === 0,
-          message: `Import completed. ${result.successful.length} successful, ${result.failed.length} failed`,
-          stats: {
-            totalRecords: questions.length,
-            processedRecords: questions.length,
-            successfulRecords: result.successful.length,
-            failedRecords: result.failed.length
-          }
-        };
-      }
+      return this.importQuestions(questions, examType, userId, batchId, duplicateCheck);
       
     } catch (error) {
       console.error('Error processing Excel file:', error);
@@ -279,7 +270,8 @@ export class QuestionUploadService {
     file: File,
     examType: 'Prelims' | 'Mains',
     userId: string,
-    batchId: string
+    batchId: string,
+    duplicateCheck?: DuplicateCheck
   ): Promise<FileUploadResult> {
     try {
       const text = await file.text();
@@ -308,40 +300,7 @@ export class QuestionUploadService {
         };
       }
       
-      // Import questions (similar to Excel processing)
-      if (examType === 'Prelims') {
-        const result = await QuestionBankService.bulkImportPrelimsQuestions(
-          questions as Omit<PrelimsQuestion, 'id' | 'createdAt' | 'updatedAt'>[],
-          userId
-        );
-        
-        return {
-          success: result.failed.length === 0,
-          message: `Import completed. ${result.successful.length} successful, ${result.failed.length} failed`,
-          stats: {
-            totalRecords: questions.length,
-            processedRecords: questions.length,
-            successfulRecords: result.successful.length,
-            failedRecords: result.failed.length
-          }
-        };
-      } else {
-        const result = await QuestionBankService.bulkImportMainsQuestions(
-          questions as Omit<MainsQuestion, 'id' | 'createdAt' | 'updatedAt'>[],
-          userId
-        );
-        
-        return {
-          success: result.failed.length === 0,
-          message: `Import completed. ${result.successful.length} successful, ${result.failed.length} failed`,
-          stats: {
-            totalRecords: questions.length,
-            processedRecords: questions.length,
-            successfulRecords: result.successful.length,
-            failedRecords: result.failed.length
-          }
-        };
-      }
+      return this.importQuestions(questions, examType, userId, batchId, duplicateCheck);
       
     } catch (error) {
       console.error('Error processing CSV file:', error);
@@ -356,7 +315,8 @@ export class QuestionUploadService {
     file: File,
     examType: 'Prelims' | 'Mains',
     userId: string,
-    batchId: string
+    batchId: string,
+    duplicateCheck?: DuplicateCheck
   ): Promise<FileUploadResult> {
     try {
       const text = await file.text();
@@ -379,40 +339,7 @@ export class QuestionUploadService {
         };
       }
       
-      // Import questions
-      if (examType === 'Prelims') {
-        const result = await QuestionBankService.bulkImportPrelimsQuestions(
-          data as Omit<PrelimsQuestion, 'id' | 'createdAt' | 'updatedAt'>[],
-          userId
-        );
-        
-        return {
-          success: result.failed.length === 0,
-          message: `Import completed. ${result.successful.length} successful, ${result.failed.length} failed`,
-          stats: {
-            totalRecords: data.length,
-            processedRecords: data.length,
-            successfulRecords: result.successful.length,
-            failedRecords: result.failed.length
-          }
-        };
-      } else {
-        const result = await QuestionBankService.bulkImportMainsQuestions(
-          data as Omit<MainsQuestion, 'id' | 'createdAt' | 'updatedAt'>[],
-          userId
-        );
-        
-        return {
-          success: result.failed.length === 0,
-          message: `Import completed. ${result.successful.length} successful, ${result.failed.length} failed`,
-          stats: {
-            totalRecords: data.length,
-            processedRecords: data.length,
-            successfulRecords: result.successful.length,
-            failedRecords: result.failed.length
-          }
-        };
-      }
+      return this.importQuestions(data, examType, userId, batchId, duplicateCheck);
       
     } catch (error) {
       console.error('Error processing JSON file:', error);
@@ -423,6 +350,53 @@ export class QuestionUploadService {
     }
   }
   
+  // === IMPORT ===
+  
+  static async importQuestions(
+    questions: UploadedQuestion[],
+    examType: 'Prelims' | 'Mains',
+    userId: string,
+    batchId: string,
+    duplicateCheck?: DuplicateCheck
+  ): Promise<FileUploadResult> {
+    const duplicates = duplicateCheck ? await duplicateCheck(questions, examType, batchId) : [];
+    if (duplicates.length > 0) {
+      return {
+        success: true,
+        requiresReview: true,
+        duplicates,
+        message: `${duplicates.length} possible duplicate${duplicates.length === 1 ? '' : 's'} found. Review them before the import is committed.`,
+        stats: {
+          totalRecords: questions.length,
+          processedRecords: 0,
+          successfulRecords: 0,
+          failedRecords: 0
+        }
+      };
+    }
+    
+    const result = examType === 'Prelims'
+      ? await QuestionBankService.bulkImportPrelimsQuestions(
+          questions as Omit<PrelimsQuestion, 'id' | 'createdAt' | 'updatedAt'>[],
+          userId
+        )
+      : await QuestionBankService.bulkImportMainsQuestions(
+          questions as Omit<MainsQuestion, 'id' | 'createdAt' | 'updatedAt'>[],
+          userId
+        );
+    
+    return {
+      success: result.failed.length === 0,
+      message: `Import completed. ${result.successful.length} successful, ${result.failed.length} failed`,
+      stats: {
+        totalRecords: questions.length,
+        processedRecords: questions.length,
+        successfulRecords: result.successful.length,
+        failedRecords: result.failed.length
+      }
+    };
+  }
+  
   // === DATA TRANSFORMATION ===
   
   static transformExcelData(
@@ -526,6 +500,15 @@ export class QuestionUploadService {
         if (!question.correctAnswer || !Array.isArray(question.correctAnswer) || question.correctAnswer.length === 0) {
           errors.push(`Row ${index + 1}: Correct answer is required`);
         }
+        
+        // Hindi options are optional, but a partial set would mix languages within one question
+        if (question.optionsHi && (!question.optionsHi.A || !question.optionsHi.B || !question.optionsHi.C || !question.optionsHi.D)) {
+          errors.push(`Row ${index + 1}: Either all four Hindi options (A, B, C, D) or none are required`);
+        }
+        
+        if (question.optionsHi && !question.questionHi) {
+          errors.push(`Row ${index + 1}: Hindi options need the Hindi question text`);
+        }
       } else {
         // Mains specific validations
         if (!question.totalMarks || !Number.isInteger(question.totalMarks)) {
@@ -594,7 +577,7 @@ export class QuestionUploadService {
       const batchRef = doc(db, 'upload_batches', batchId);
       
       await updateDoc(batchRef, {
-        status: result.success ? 'Completed' : 'Failed',
+        status: result.requiresReview ? 'Pending Review' : result.success ? 'Completed' : 'Failed',
         stats: result.stats || {
           totalRecords: 0,
           processedRecords: 0,
@@ -602,9 +585,10 @@ export class QuestionUploadService {
           failedRecords: 0
         },
         errors: result.errors || [],
+        'validation.duplicateQuestions': (result.duplicates || []).map(describeDuplicate),
         processingLog: [{
           timestamp: serverTimestamp(),
-          action: 'Processing Completed',
+          action: result.requiresReview ? 'Duplicates Flagged' : 'Processing Completed',
           details: result.message
         }]
       });
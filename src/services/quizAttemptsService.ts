@@ -3,6 +3,8 @@
 
 import { db } from '@/lib/firebase';
 import { collection, addDoc, query, where, getDocs, Timestamp, doc, setDoc, orderBy } from 'firebase/firestore';
+import type { ReviewQuestion, ReviewSource } from '@/lib/spaced-repetition';
+import { addToReviewQueue } from './reviewQueueService';
 
 export interface QuizAttempt {
     userId: string;
@@ -15,8 +17,9 @@ export interface QuizAttempt {
     difficulty?: number;
 }
 
-// Using setDoc with a custom ID to prevent duplicate attempts for the same question
-export async function saveQuizAttempt(userId: string, historyId: string, question: string, selectedOption: string, isCorrect: boolean, subject?: string, difficulty?: number) {
+// Using setDoc with a custom ID to prevent duplicate attempts for the same question.
+// Pass `review` to queue wrong answers for spaced repetition.
+export async function saveQuizAttempt(userId: string, historyId: string, question: string, selectedOption: string, isCorrect: boolean, subject?: string, difficulty?: number, review?: { question: ReviewQuestion; source: ReviewSource }) {
   if (!db) {
     console.log("Firestore not initialized. Skipping saveQuizAttempt.");
     return;
@@ -40,6 +43,10 @@ export async function saveQuizAttempt(userId: string, historyId: string, questio
   } catch (error) {
     console.error("Error saving quiz attempt: ", error);
   }
+
+  if (!isCorrect && review) {
+    await addToReviewQueue(userId, { ...review, reason: 'wrong' });
+  }
 }
 
 export async function getQuizAttemptsForHistory(userId: string, historyId: string): Promise<{[question: string]: string}> {
@@ -0,0 +1,240 @@
+'use client';
+
+import type { QuizSessionData } from '@/app/daily-quiz/session/[type]/page';
+import {
+  OUTBOX_ENDPOINTS,
+  OutboxEntry,
+  OutboxKind,
+  classifyReplayResponse,
+  createOutboxEntry,
+  findSupersededEntries,
+  getReplayOrder,
+  getRetryDelay
+} from '@/lib/quiz-offline';
+
+const DB_NAME = 'preptalk-offline';
+const DB_VERSION = 1;
+const OUTBOX_STORE = 'quizOutbox';
+const SESSIONS_STORE = 'quizSessions';
+const SYNC_INTERVAL_MS = 30000;
+
+export interface OfflineQuizSession {
+  quizType: string;
+  downloadedAt: number;
+  session: QuizSessionData;
+}
+
+type OutboxListener = (pendingCount: number) => void;
+const outboxListeners = new Set<OutboxListener>();
+let flushInProgress: Promise<void> | null = null;
+
+function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openOfflineDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const database = request.result;
+      if (!database.objectStoreNames.contains(OUTBOX_STORE)) {
+        database.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+      }
+      if (!database.objectStoreNames.contains(SESSIONS_STORE)) {
+        database.createObjectStore(SESSIONS_STORE, { keyPath: 'quizType' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const database = await openOfflineDb();
+  try {
+    return await requestToPromise(run(database.transaction(storeName, mode).objectStore(storeName)));
+  } finally {
+    database.close();
+  }
+}
+
+async function getOutboxEntries(): Promise<OutboxEntry[]> {
+  return withStore<OutboxEntry[]>(OUTBOX_STORE, 'readonly', store => store.getAll());
+}
+
+async function deleteOutboxEntries(ids: string[]): Promise<void> {
+  for (const id of ids) {
+    await withStore(OUTBOX_STORE, 'readwrite', store => store.delete(id));
+  }
+}
+
+async function notifyOutboxListeners(): Promise<void> {
+  if (outboxListeners.size === 0) return;
+  const pending = (await getOutboxEntries()).length;
+  outboxListeners.forEach(listener => listener(pending));
+}
+
+// --- Outbox ---
+
+/**
+ * Queues a quiz request to be replayed once the device is back online.
+ * Requests the new one makes redundant are removed from the queue.
+ */
+export async function queueQuizRequest(sessionId: string, kind: OutboxKind, body: Record<string, unknown>): Promise<void> {
+  if (!isIndexedDbAvailable()) {
+    console.log("IndexedDB not available. Skipping queueQuizRequest.");
+    return;
+  }
+
+  try {
+    const entry = createOutboxEntry(sessionId, kind, body);
+    await withStore(OUTBOX_STORE, 'readwrite', store => store.put(entry));
+    const entries = await getOutboxEntries();
+    await deleteOutboxEntries(findSupersededEntries(entries));
+    await notifyOutboxListeners();
+  } catch (error) {
+    console.error("Error queueing quiz request: ", error);
+  }
+}
+
+export async function getPendingQuizRequestCount(): Promise<number> {
+  if (!isIndexedDbAvailable()) return 0;
+  try {
+    return (await getOutboxEntries()).length;
+  } catch (error) {
+    console.error("Error reading quiz outbox: ", error);
+    return 0;
+  }
+}
+
+async function replayOutbox(): Promise<void> {
+  const entries = await getOutboxEntries();
+
+  for (const entry of getReplayOrder(entries)) {
+    if (typeof navigator !== 'undefined' && !navigator.onLine) break;
+
+    let status: number | undefined;
+    try {
+      const response = await fetch(OUTBOX_ENDPOINTS[entry.kind], {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(entry.body)
+      });
+      status = response.status;
+    } catch (error) {
+      console.warn(`Quiz ${entry.kind} replay failed, will retry:`, error);
+    }
+
+    const outcome = classifyReplayResponse(status);
+    if (outcome === 'retry') {
+      const attempts = entry.attempts + 1;
+      await withStore(OUTBOX_STORE, 'readwrite', store => store.put({
+        ...entry,
+        attempts,
+        nextAttemptAt: Date.now() + getRetryDelay(attempts)
+      }));
+      continue;
+    }
+
+    if (outcome === 'rejected') {
+      console.warn(`Quiz ${entry.kind} for session ${entry.sessionId} was rejected by the server (${status}); dropping it`);
+    }
+    await deleteOutboxEntries([entry.id]);
+  }
+}
+
+// Replays every due request; concurrent calls share one run
+export async function flushQuizOutbox(): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  if (!flushInProgress) {
+    flushInProgress = replayOutbox()
+      .catch(error => console.error("Error replaying quiz outbox: ", error))
+      .finally(() => {
+        flushInProgress = null;
+      });
+  }
+  await flushInProgress;
+  await notifyOutboxListeners().catch(() => undefined);
+}
+
+/**
+ * Flushes the outbox now, whenever the browser reports it is back online and
+ * every 30 seconds. Returns a function that stops syncing for this listener.
+ */
+export function startQuizOutboxSync(onPendingChange?: OutboxListener): () => void {
+  if (typeof window === 'undefined') return () => undefined;
+
+  if (onPendingChange) outboxListeners.add(onPendingChange);
+  const flush = () => {
+    if (navigator.onLine) flushQuizOutbox();
+  };
+
+  window.addEventListener('online', flush);
+  const interval = setInterval(flush, SYNC_INTERVAL_MS);
+  flush();
+  getPendingQuizRequestCount().then(count => onPendingChange?.(count));
+
+  return () => {
+    if (onPendingChange) outboxListeners.delete(onPendingChange);
+    window.removeEventListener('online', flush);
+    clearInterval(interval);
+  };
+}
+
+// --- Downloaded sessions ---
+
+// One downloaded session per quiz type; downloading again replaces it
+export async function saveOfflineSession(session: QuizSessionData): Promise<void> {
+  if (!isIndexedDbAvailable()) {
+    console.log("IndexedDB not available. Skipping saveOfflineSession.");
+    return;
+  }
+
+  const record: OfflineQuizSession = { quizType: session.quizType, downloadedAt: Date.now(), session };
+  await withStore(SESSIONS_STORE, 'readwrite', store => store.put(record));
+}
+
+export async function getOfflineSession(quizType: string): Promise<OfflineQuizSession | null> {
+  if (!isIndexedDbAvailable()) return null;
+
+  try {
+    const record = await withStore<OfflineQuizSession | undefined>(SESSIONS_STORE, 'readonly', store => store.get(quizType));
+    return record || null;
+  } catch (error) {
+    console.error("Error reading offline quiz session: ", error);
+    return null;
+  }
+}
+
+export async function listOfflineSessions(): Promise<OfflineQuizSession[]> {
+  if (!isIndexedDbAvailable()) return [];
+
+  try {
+    return await withStore<OfflineQuizSession[]>(SESSIONS_STORE, 'readonly', store => store.getAll());
+  } catch (error) {
+    console.error("Error listing offline quiz sessions: ", error);
+    return [];
+  }
+}
+
+export async function deleteOfflineSession(quizType: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+
+  try {
+    await withStore(SESSIONS_STORE, 'readwrite', store => store.delete(quizType));
+  } catch (error) {
+    console.error("Error deleting offline quiz session: ", error);
+  }
+}
@@ -0,0 +1,93 @@
+'use client';
+
+import { db } from '@/lib/firebase';
+import {
+  collection,
+  doc,
+  getDoc,
+  setDoc,
+  deleteDoc,
+  query,
+  where,
+  getDocs,
+  orderBy,
+  limit,
+} from 'firebase/firestore';
+import {
+  ReviewItem,
+  ReviewQueueEntry,
+  ReviewReason,
+  ReviewSource,
+  getReviewCutoff,
+  getReviewItemId,
+  mergeReviewEntry,
+  removeReviewReason,
+  reviewItemFromFirestore,
+  sortReviewItems,
+} from '@/lib/spaced-repetition';
+
+const REVIEW_QUEUE_COLLECTION = 'reviewQueue';
+
+// Adds a wrong answer or bookmark to the user's spaced-repetition queue.
+export async function addToReviewQueue(userId: string, entry: ReviewQueueEntry): Promise<void> {
+  if (!db) {
+    console.log("Firestore not initialized. Skipping addToReviewQueue.");
+    return;
+  }
+  const itemId = getReviewItemId(userId, entry.source, entry.question.question);
+  const itemRef = doc(db, REVIEW_QUEUE_COLLECTION, itemId);
+
+  try {
+    const existing = await getDoc(itemRef);
+    const item = mergeReviewEntry(existing.exists() ? reviewItemFromFirestore(existing.data()) : null, userId, entry);
+    await setDoc(itemRef, item);
+  } catch (error) {
+    // The queue is a side effect of answering or bookmarking, so never block the caller on it
+    console.error("Error adding question to review queue: ", error);
+  }
+}
+
+export async function removeFromReviewQueue(userId: string, source: ReviewSource, questionText: string, reason: ReviewReason): Promise<void> {
+  if (!db) {
+    console.log("Firestore not initialized. Skipping removeFromReviewQueue.");
+    return;
+  }
+  const itemRef = doc(db, REVIEW_QUEUE_COLLECTION, getReviewItemId(userId, source, questionText));
+
+  try {
+    const existing = await getDoc(itemRef);
+    if (!existing.exists()) return;
+
+    const remaining = removeReviewReason(reviewItemFromFirestore(existing.data()), reason);
+    if (remaining) {
+      await setDoc(itemRef, remaining);
+    } else {
+      await deleteDoc(itemRef);
+    }
+  } catch (error) {
+    console.error("Error removing question from review queue: ", error);
+  }
+}
+
+export async function getDueReviewItems(userId: string, maxItems: number = 50): Promise<ReviewItem[]> {
+  if (!db) return [];
+
+  try {
+    const q = query(
+      collection(db, REVIEW_QUEUE_COLLECTION),
+      where('userId', '==', userId),
+      where('dueAt', '<=', getReviewCutoff()),
+      orderBy('dueAt'),
+      limit(maxItems)
+    );
+    const querySnapshot = await getDocs(q);
+    return sortReviewItems(querySnapshot.docs.map(itemDoc => reviewItemFromFirestore(itemDoc.data())));
+  } catch (error) {
+    console.error("Error fetching due review items: ", error);
+    return [];
+  }
+}
+
+export async function getDueReviewCount(userId: string): Promise<number> {
+  return (await getDueReviewItems(userId)).length;
+}
@@ -15,6 +15,8 @@ import {
   documentId,
 } from 'firebase/firestore';
 import type { PrelimsQuestionWithContext } from './historyService';
+import { ReviewSource, toReviewQuestionFromMCQ } from '@/lib/spaced-repetition';
+import { addToReviewQueue, removeFromReviewQueue } from './reviewQueueService';
 
 // This is the data structure for a question saved to the user's wall.
 export type SavedQuestion = PrelimsQuestionWithContext & {
@@ -23,6 +25,11 @@ export type SavedQuestion = PrelimsQuestionWithContext & {
   id?: string; // Added to support the id property when returning from Firestore
 };
 
+// Bookmarked newspaper MCQs are reviewed with a link back to their analysis.
+export function getNewspaperReviewSource(question: PrelimsQuestionWithContext): ReviewSource {
+  return { type: 'newspaper', historyId: question.historyId, articleUrl: question.articleUrl };
+}
+
 // Helper to create a unique, reproducible ID for a saved question document.
 export function getSavedQuestionId(userId: string, question: PrelimsQuestionWithContext): string {
   // A question is unique based on its text content and the history entry it came from.
@@ -48,6 +55,12 @@ export async function saveQuestion(userId: string, question: PrelimsQuestionWith
     console.error("Error saving question:", error);
     throw new Error("Failed to save question.");
   }
+
+  await addToReviewQueue(userId, {
+    source: getNewspaperReviewSource(question),
+    reason: 'bookmarked',
+    question: toReviewQuestionFromMCQ(question),
+  });
 }
 
 export async function unsaveQuestion(userId: string, question: PrelimsQuestionWithContext): Promise<void> {
@@ -64,6 +77,8 @@ export async function unsaveQuestion(userId: string, question: PrelimsQuestionWi
     console.error("Error unsaving question:", error);
     throw new Error("Failed to unsave question.");
   }
+
+  await removeFromReviewQueue(userId, getNewspaperReviewSource(question), question.question, 'bookmarked');
 }
 
 export async function getSavedQuestions(userId: string): Promise<SavedQuestion[]> {
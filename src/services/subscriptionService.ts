@@ -13,6 +13,7 @@ import {
 import { db } from '@/lib/firebase';
 import { SubscriptionTier, UserStage } from '@/lib/subscription-tiers';
 import { isDevMode, getDevTier, hasDevFeature } from '@/lib/dev-mode';
+import { getProrationCredit } from '@/lib/payment/subscription-lifecycle';
 
 // Types
 export interface UserSubscription {
@@ -41,6 +42,24 @@ export interface UserSubscription {
   trialStart?: Timestamp;
   trialEnd?: Timestamp;
   isTrialUsed: boolean;
+  isTrial?: boolean;
+  trialTiers?: SubscriptionTier[]; // one trial per tier
+}
+
+// Discounts and trial details are kept on the entry they applied to
+export interface SubscriptionHistoryDetails {
+  promoCode?: string;
+  discount?: number;
+  creditApplied?: number;
+  prorationCredit?: number; // unused value of the previous plan credited on upgrade
+  trialEnd?: Timestamp;
+}
+
+export interface SubscriptionHistoryEntry extends SubscriptionHistoryDetails {
+  tier: string;
+  startDate: Timestamp;
+  endDate?: Timestamp;
+  reason?: string;
 }
 
 export interface UserProfile {
@@ -50,12 +69,7 @@ export interface UserProfile {
   stageUpdatedAt: Timestamp;
   onboardingCompleted: boolean;
   onboardingCompletedAt?: Timestamp;
-  subscriptionHistory: {
-    tier: string;
-    startDate: Timestamp;
-    endDate?: Timestamp;
-    reason?: string;
-  }[];
+  subscriptionHistory: SubscriptionHistoryEntry[];
 }
 
 export interface OnboardingData {
@@ -149,7 +163,7 @@ export class SubscriptionService {
     }
   }
 
-  // Update subscription tier
+  // Update subscription tier; returns the proration credit for an upgrade mid-period
   static async updateSubscriptionTier(
     userId: string, 
     newTier: SubscriptionTier,
@@ -157,9 +171,22 @@ export class SubscriptionService {
       provider: 'razorpay' | 'stripe';
       subscriptionId: string;
       amount: number;
+      promoCode?: string;
+      discount?: number;
+      creditApplied?: number;
     }
-  ): Promise<void> {
+  ): Promise<number> {
     try {
+      const current = await this.getUserSubscription(userId);
+      const prorationCredit = current ? getProrationCredit({
+        tier: current.tier,
+        status: current.status,
+        amount: current.amount,
+        currentPeriodStart: current.currentPeriodStart.toDate(),
+        currentPeriodEnd: current.currentPeriodEnd.toDate(),
+        isTrial: current.isTrial
+      }, newTier, new Date()) : 0;
+
       const subscriptionRef = doc(db, 'userSubscriptions', userId);
       const updateData: Partial<UserSubscription> = {
         tier: newTier,
@@ -180,8 +207,13 @@ export class SubscriptionService {
       });
 
       // Add to subscription history
-      await this.addToSubscriptionHistory(userId, newTier, 'upgrade');
-      
+      await this.addToSubscriptionHistory(userId, newTier, 'upgrade', {
+        ...(paymentDetails?.promoCode && { promoCode: paymentDetails.promoCode, discount: paymentDetails.discount || 0 }),
+        ...(paymentDetails?.creditApplied && { creditApplied: paymentDetails.creditApplied }),
+        ...(prorationCredit > 0 && { prorationCredit })
+      });
+
+      return prorationCredit;
     } catch (error) {
       console.error('Error updating subscription tier:', error);
       throw error;
@@ -270,7 +302,8 @@ export class SubscriptionService {
   private static async addToSubscriptionHistory(
     userId: string, 
     tier: SubscriptionTier, 
-    reason: string
+    reason: string,
+    details: SubscriptionHistoryDetails = {}
   ): Promise<void> {
     try {
       const profileDoc = await getDoc(doc(db, 'userProfiles', userId));
@@ -287,7 +320,8 @@ export class SubscriptionService {
         history.push({
           tier,
           startDate: serverTimestamp() as Timestamp,
-          reason
+          reason,
+          ...details
         });
 
         await updateDoc(doc(db, 'userProfiles', userId), {
@@ -1,9 +1,12 @@
 /**
  * Writing Evaluation Service
- * Multi-agent AI system for comprehensive writing analysis using OpenAI and Claude
+ * Multi-agent AI system for comprehensive writing analysis; each agent's model is chosen by the model router
  */
 
-import { openai, anthropic, AI_MODELS, DEFAULT_PARAMS } from '@/lib/ai-providers';
+import { DEFAULT_PARAMS } from '@/lib/ai-providers';
+import { AITask, ModelRouter } from '@/lib/model-router';
+import { getModelRouter } from '@/lib/model-providers';
+import { experimentFramework, ExperimentVariant } from '@/ai/newspaper-analysis/ab-testing/experiment-framework';
 import { z } from 'zod';
 
 // Input and Output Types
@@ -57,26 +60,50 @@ export const EvaluationResultSchema = z.object({
 export type WritingEvaluationInput = z.infer<typeof WritingEvaluationInputSchema>;
 export type EvaluationResult = z.infer<typeof EvaluationResultSchema>;
 
+// Experiment costs are recorded in INR
+const USD_TO_INR_RATE = 83;
+
+// Models without a JSON mode may wrap the object in prose or a code fence
+function parseJSONResponse(text: string) {
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return JSON.parse(start >= 0 && end > start ? text.slice(start, end + 1) : text || '{}');
+}
+
 /**
  * Multi-Agent Writing Evaluation Service
  */
 export class WritingEvaluationService {
   private startTime: number = 0;
+  private userId?: string;
+  private router: ModelRouter;
+  private experiment: { experimentId: string; variant: ExperimentVariant } | null = null;
+  private evaluationUsage = { tokens: 0, costUsd: 0 };
 
-  constructor() {
+  constructor(options: { userId?: string; router?: ModelRouter } = {}) {
     this.startTime = Date.now();
+    this.userId = options.userId;
+    this.router = options.router || getModelRouter();
   }
 
   /**
    * Main evaluation method - orchestrates multi-agent analysis
    */
   async evaluateWriting(input: WritingEvaluationInput): Promise<EvaluationResult> {
+    const evaluationId = this.generateEvaluationId();
+    this.evaluationUsage = { tokens: 0, costUsd: 0 };
+
     try {
       this.startTime = Date.now();
       
       // Validate input
       const validatedInput = WritingEvaluationInputSchema.parse(input);
 
+      // A running writing-evaluation experiment can override the evaluators' sampling settings
+      this.experiment = this.userId
+        ? await experimentFramework.resolveDomainVariant('writing-evaluation', this.userId)
+        : null;
+
       // Run agents in parallel for efficiency
       const [contentAnalysis, structureAnalysis, languageAnalysis] = await Promise.all([
         this.analyzeContent(validatedInput),
@@ -92,25 +119,29 @@ export class WritingEvaluationService {
         languageAnalysis
       );
 
+      const processingTime = Date.now() - this.startTime;
+      await this.recordExperimentResult(evaluationId, true);
+
       return {
-        id: this.generateEvaluationId(),
+        id: evaluationId,
         overallScore: finalEvaluation.overallScore,
         scores: finalEvaluation.scores,
         feedback: finalEvaluation.feedback,
         analytics: finalEvaluation.analytics,
         comparison: await this.getPeerComparison(finalEvaluation.overallScore),
-        processingTime: Date.now() - this.startTime,
+        processingTime,
         createdAt: new Date(),
       };
 
     } catch (error) {
       console.error('Writing evaluation failed:', error);
+      await this.recordExperimentResult(evaluationId, false);
       throw new Error(`Evaluation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Content Expert Agent - Uses GPT-4 Turbo for deep content analysis
+   * Content Expert Agent - deep content analysis
    */
   private async analyzeContent(input: WritingEvaluationInput) {
     const prompt = `You are a UPSC content expert. Analyze this ${input.examType} answer for:
@@ -141,19 +172,11 @@ Provide a JSON response with:
   "analysis": "Detailed explanation of content quality"
 }`;
 
-    const response = await openai.chat.completions.create({
-      model: AI_MODELS.openai.gpt4Turbo,
-      messages: [{ role: 'user', content: prompt }],
-      temperature: DEFAULT_PARAMS.evaluation.temperature,
-      max_tokens: DEFAULT_PARAMS.evaluation.maxTokens,
-      response_format: { type: 'json_object' }
-    });
-
-    return JSON.parse(response.choices[0].message.content || '{}');
+    return parseJSONResponse(await this.callModel('writing-evaluation', prompt, DEFAULT_PARAMS.evaluation));
   }
 
   /**
-   * Structure Analyst Agent - Uses Claude Sonnet for organization analysis
+   * Structure Analyst Agent - organization analysis
    */
   private async analyzeStructure(input: WritingEvaluationInput) {
     const prompt = `You are a writing structure expert. Analyze this answer's organization and flow:
@@ -182,55 +205,45 @@ Respond in JSON format:
   "structuralSuggestions": ["suggestion1", "suggestion2"]
 }`;
 
-    const response = await anthropic.messages.create({
-      model: AI_MODELS.anthropic.claude3Sonnet,
-      max_tokens: DEFAULT_PARAMS.evaluation.maxTokens,
-      temperature: DEFAULT_PARAMS.evaluation.temperature,
-      messages: [{ role: 'user', content: prompt }]
-    });
-
-    const content = response.content[0];
-    if (content.type === 'text') {
-      try {
-        return JSON.parse(content.text);
-      } catch (parseError) {
-        console.error('Claude JSON parse error:', content.text);
-        console.error('Parse error:', parseError);
-        
-        // Extract method name from call stack to provide appropriate fallback
-        const callerMethod = new Error().stack?.split('\n')[3]?.includes('analyzeStructure') ? 'structure' : 'content';
-        
-        if (callerMethod === 'structure') {
-          return {
-            score: 70,
-            introduction: 75,
-            flow: 65,
-            organization: 70,
-            transitions: 60,
-            conclusion: 70,
-            coherence: 65,
-            strengths: ["Clear thesis statement"],
-            improvements: ["Improve paragraph transitions"],
-            structuralSuggestions: ["Add clearer topic sentences"]
-          };
-        } else {
-          return {
-            relevance: 70,
-            depth: 65,
-            accuracy: 75,
-            examples: 60,
-            arguments: 70,
-            missingPoints: ["Detailed analysis needed"],
-            suggestions: ["Add more specific examples and case studies"]
-          };
-        }
+    const text = await this.callModel('writing-evaluation', prompt, DEFAULT_PARAMS.evaluation);
+    try {
+      return parseJSONResponse(text);
+    } catch (parseError) {
+      console.error('Structure analysis JSON parse error:', text);
+      console.error('Parse error:', parseError);
+      
+      // Extract method name from call stack to provide appropriate fallback
+      const callerMethod = new Error().stack?.split('\n')[3]?.includes('analyzeStructure') ? 'structure' : 'content';
+      
+      if (callerMethod === 'structure') {
+        return {
+          score: 70,
+          introduction: 75,
+          flow: 65,
+          organization: 70,
+          transitions: 60,
+          conclusion: 70,
+          coherence: 65,
+          strengths: ["Clear thesis statement"],
+          improvements: ["Improve paragraph transitions"],
+          structuralSuggestions: ["Add clearer topic sentences"]
+        };
+      } else {
+        return {
+          relevance: 70,
+          depth: 65,
+          accuracy: 75,
+          examples: 60,
+          arguments: 70,
+          missingPoints: ["Detailed analysis needed"],
+          suggestions: ["Add more specific examples and case studies"]
+        };
       }
     }
-    throw new Error('Unexpected response format from Claude');
   }
 
   /**
-   * Language Expert Agent - Uses GPT-4 for grammar and style analysis
+   * Language Expert Agent - grammar and style analysis
    */
   private async analyzeLanguage(input: WritingEvaluationInput) {
     const prompt = `You are a language expert. Analyze this text for language quality:
@@ -260,19 +273,11 @@ Return JSON:
   "tone": "Assessment of tone appropriateness"
 }`;
 
-    const response = await openai.chat.completions.create({
-      model: AI_MODELS.openai.gpt4Turbo,
-      messages: [{ role: 'user', content: prompt }],
-      temperature: DEFAULT_PARAMS.evaluation.temperature,
-      max_tokens: DEFAULT_PARAMS.evaluation.maxTokens,
-      response_format: { type: 'json_object' }
-    });
-
-    return JSON.parse(response.choices[0].message.content || '{}');
+    return parseJSONResponse(await this.callModel('writing-evaluation', prompt, DEFAULT_PARAMS.evaluation));
   }
 
   /**
-   * Senior Examiner Agent - Uses GPT-4 Turbo for final synthesis
+   * Senior Examiner Agent - final synthesis
    */
   private async synthesizeEvaluation(
     input: WritingEvaluationInput,
@@ -323,19 +328,11 @@ Provide comprehensive final evaluation in JSON:
   "examinerComments": "Overall assessment and guidance for improvement"
 }`;
 
-    const response = await openai.chat.completions.create({
-      model: AI_MODELS.openai.gpt4Turbo,
-      messages: [{ role: 'user', content: prompt }],
-      temperature: DEFAULT_PARAMS.evaluation.temperature,
-      max_tokens: DEFAULT_PARAMS.evaluation.maxTokens,
-      response_format: { type: 'json_object' }
-    });
-
-    return JSON.parse(response.choices[0].message.content || '{}');
+    return parseJSONResponse(await this.callModel('writing-evaluation', prompt, DEFAULT_PARAMS.evaluation));
   }
 
   /**
-   * Real-time writing suggestions - Uses GPT-3.5 Turbo for speed
+   * Real-time writing suggestions - routed to the fastest model
    */
   async getRealtimeSuggestions(content: string, context: string): Promise<string[]> {
     if (content.length < 50) return [];
@@ -353,15 +350,7 @@ Suggest improvements for:
 Return only an array of suggestions: ["suggestion1", "suggestion2", "suggestion3"]`;
 
     try {
-      const response = await openai.chat.completions.create({
-        model: AI_MODELS.openai.gpt35Turbo,
-        messages: [{ role: 'user', content: prompt }],
-        temperature: DEFAULT_PARAMS.realtime.temperature,
-        max_tokens: DEFAULT_PARAMS.realtime.maxTokens,
-        response_format: { type: 'json_object' }
-      });
-
-      const result = JSON.parse(response.choices[0].message.content || '{"suggestions": []}');
+      const result = parseJSONResponse(await this.callModel('writing-suggestions', prompt, DEFAULT_PARAMS.realtime));
       return result.suggestions || [];
     } catch (error) {
       console.error('Real-time suggestions failed:', error);
@@ -370,7 +359,7 @@ Return only an array of suggestions: ["suggestion1", "suggestion2", "suggestion3
   }
 
   /**
-   * Compare with model answers - Uses Claude for comparison analysis
+   * Compare with model answers
    */
   async compareWithModelAnswer(userAnswer: string, modelAnswer: string, questionText: string) {
     const prompt = `Compare this student answer with the model answer:
@@ -399,54 +388,84 @@ Return JSON:
   "improvementRoadmap": ["step1", "step2", "step3"]
 }`;
 
-    const response = await anthropic.messages.create({
-      model: AI_MODELS.anthropic.claude3Sonnet,
-      max_tokens: DEFAULT_PARAMS.analysis.maxTokens,
-      temperature: DEFAULT_PARAMS.analysis.temperature,
-      messages: [{ role: 'user', content: prompt }]
-    });
-
-    const content = response.content[0];
-    if (content.type === 'text') {
-      try {
-        return JSON.parse(content.text);
-      } catch (parseError) {
-        console.error('Claude JSON parse error:', content.text);
-        console.error('Parse error:', parseError);
-        
-        // Extract method name from call stack to provide appropriate fallback
-        const callerMethod = new Error().stack?.split('\n')[3]?.includes('analyzeStructure') ? 'structure' : 'content';
-        
-        if (callerMethod === 'structure') {
-          return {
-            score: 70,
-            introduction: 75,
-            flow: 65,
-            organization: 70,
-            transitions: 60,
-            conclusion: 70,
-            coherence: 65,
-            strengths: ["Clear thesis statement"],
-            improvements: ["Improve paragraph transitions"],
-            structuralSuggestions: ["Add clearer topic sentences"]
-          };
-        } else {
-          return {
-            relevance: 70,
-            depth: 65,
-            accuracy: 75,
-            examples: 60,
-            arguments: 70,
-            missingPoints: ["Detailed analysis needed"],
-            suggestions: ["Add more specific examples and case studies"]
-          };
-        }
+    const text = await this.callModel('answer-comparison', prompt, DEFAULT_PARAMS.analysis);
+    try {
+      return parseJSONResponse(text);
+    } catch (parseError) {
+      console.error('Model answer comparison JSON parse error:', text);
+      console.error('Parse error:', parseError);
+      
+      // Extract method name from call stack to provide appropriate fallback
+      const callerMethod = new Error().stack?.split('\n')[3]?.includes('analyzeStructure') ? 'structure' : 'content';
+      
+      if (callerMethod === 'structure') {
+        return {
+          score: 70,
+          introduction: 75,
+          flow: 65,
+          organization: 70,
+          transitions: 60,
+          conclusion: 70,
+          coherence: 65,
+          strengths: ["Clear thesis statement"],
+          improvements: ["Improve paragraph transitions"],
+          structuralSuggestions: ["Add clearer topic sentences"]
+        };
+      } else {
+        return {
+          relevance: 70,
+          depth: 65,
+          accuracy: 75,
+          examples: 60,
+          arguments: 70,
+          missingPoints: ["Detailed analysis needed"],
+          suggestions: ["Add more specific examples and case studies"]
+        };
       }
     }
-    throw new Error('Unexpected response format from Claude');
   }
 
   // Helper methods
+  private async callModel(task: AITask, prompt: string, params: { temperature: number; maxTokens: number }): Promise<string> {
+    const modelConfig = task === 'writing-evaluation' ? this.experiment?.variant.modelConfig : undefined;
+    const { result, usage, costUsd } = await this.router.generate({
+      task,
+      userId: this.userId,
+      prompt,
+      temperature: modelConfig?.temperature ?? params.temperature,
+      maxTokens: modelConfig?.maxTokens ?? params.maxTokens,
+      json: true
+    });
+    if (task === 'writing-evaluation') {
+      this.evaluationUsage.tokens += usage.inputTokens + usage.outputTokens;
+      this.evaluationUsage.costUsd += costUsd;
+    }
+    return result;
+  }
+
+  // Quality is judged from user ratings, recorded with experimentFramework.recordEngagement
+  private async recordExperimentResult(evaluationId: string, taskCompletion: boolean): Promise<void> {
+    if (!this.experiment || !this.userId) return;
+
+    try {
+      await experimentFramework.recordResult({
+        experimentId: this.experiment.experimentId,
+        variantId: this.experiment.variant.id,
+        userId: this.userId,
+        sessionId: evaluationId,
+        metrics: {
+          processingTime: Date.now() - this.startTime,
+          taskCompletion,
+          tokenUsage: this.evaluationUsage.tokens,
+          cost: this.evaluationUsage.costUsd * USD_TO_INR_RATE
+        },
+        timestamp: new Date()
+      });
+    } catch (error) {
+      console.error('Failed to record experiment result:', error);
+    }
+  }
+
   private generateEvaluationId(): string {
     return `eval_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
   }
@@ -3,14 +3,17 @@
 export type Option = {
   id: string;
   text: string;
+  textHi?: string; // Hindi version of the option, when the question is bilingual
 };
 
 export type Question = {
   id: string;
   question: string;
+  questionHi?: string;
   options: Option[];
   correctOptionId: string;
   explanation?: string;
+  explanationHi?: string;
   year?: number;
   subject?: string;
   topic?: string;